@@ -1,6 +1,7 @@
 const functions = require("firebase-functions/v1");
 const admin = require("firebase-admin");
 const { GoogleGenerativeAI } = require("@google/generative-ai");
+const { getAnswerCredit, scoreAnswer } = require("./scoring");
 
 admin.initializeApp();
 
@@ -61,3 +62,83 @@ exports.generateGeminiContent = functions
       );
     }
   });
+
+/**
+ * Scores the first response a participant submits for a question.
+ * Points/streak/counts are written here with admin privileges; firestore.rules
+ * block clients from touching those fields. Response time is measured from the
+ * session's server-stamped questionOpenedAt to the response doc's server createTime.
+ */
+exports.scoreResponse = functions
+  .region("us-central1")
+  .firestore.document("sessions/{sessionId}/responses/{responseId}")
+  .onCreate(async (snap, context) => {
+    const { sessionId } = context.params;
+    const response = snap.data() || {};
+    if (typeof response.userId !== "string" || typeof response.questionId !== "string") {
+      console.warn("scoreResponse: malformed response", snap.ref.path);
+      return;
+    }
+
+    const db = admin.firestore();
+    const sessionRef = db.doc(`sessions/${sessionId}`);
+    const participantRef = sessionRef.collection("participants").doc(response.userId);
+
+    await db.runTransaction(async (tx) => {
+      const [sessionSnap, participantSnap, responseSnap] = await Promise.all([
+        tx.get(sessionRef),
+        tx.get(participantRef),
+        tx.get(snap.ref),
+      ]);
+      // Triggers can be delivered more than once; only score each response once.
+      if (!responseSnap.exists || responseSnap.get("scoring")) return;
+      if (!sessionSnap.exists || !participantSnap.exists) {
+        console.warn("scoreResponse: missing session or participant", snap.ref.path);
+        return;
+      }
+
+      const session = sessionSnap.data();
+      const question = (session.questions || []).find((q) => q.id === response.questionId);
+      if (!question) {
+        tx.update(snap.ref, {
+          scoring: { accepted: false, reason: "unknown_question", scoredAt: admin.firestore.FieldValue.serverTimestamp() },
+        });
+        return;
+      }
+      if (session.currentQuestionId !== response.questionId) {
+        tx.update(snap.ref, {
+          scoring: { accepted: false, reason: "question_closed", scoredAt: admin.firestore.FieldValue.serverTimestamp() },
+        });
+        return;
+      }
+
+      const openedAt = session.questionOpenedAt?.toMillis?.();
+      const answeredAt = snap.createTime.toMillis();
+      const responseTimeMs = typeof openedAt === "number" ? Math.max(0, answeredAt - openedAt) : undefined;
+      const credit = getAnswerCredit(question, response);
+      if (credit === null) {
+        // Free text without accepted answers: the presenter reveals it, nothing to score
+        tx.update(snap.ref, {
+          scoring: { accepted: true, points: 0, scoredAt: admin.firestore.FieldValue.serverTimestamp() },
+        });
+        return;
+      }
+      const { points, participantUpdate } = scoreAnswer({
+        credit,
+        participant: participantSnap.data(),
+        responseTimeMs,
+      });
+
+      tx.update(participantRef, participantUpdate);
+      tx.update(snap.ref, {
+        scoring: {
+          accepted: true,
+          isCorrect: credit >= 1,
+          credit,
+          points,
+          ...(responseTimeMs != null ? { responseTimeMs } : {}),
+          scoredAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+    });
+  });
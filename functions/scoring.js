@@ -0,0 +1,115 @@
+/**
+ * Server-side question scoring.
+ * Mirrors src/utils/scoringUtils.ts (BASE_POINTS × streak multiplier × time bonus × credit,
+ * plus the per-question-type partial credit rules). src/utils/__tests__/scoringParity.test.ts
+ * runs both against the same cases, so change them together.
+ */
+
+const BASE_POINTS = 100;
+
+const STREAK_THRESHOLDS = {
+  2: 1.1,
+  3: 1.2,
+  4: 1.5, // max
+};
+
+const TIME_BONUS = {
+  FAST_THRESHOLD_MS: 5000,
+  MEDIUM_THRESHOLD_MS: 10000,
+  FAST_MULTIPLIER: 1.3,
+  MEDIUM_MULTIPLIER: 1.15,
+};
+
+function getStreakMultiplier(currentStreak) {
+  if (currentStreak >= 4) return STREAK_THRESHOLDS[4];
+  if (currentStreak === 3) return STREAK_THRESHOLDS[3];
+  if (currentStreak === 2) return STREAK_THRESHOLDS[2];
+  return 1.0;
+}
+
+function getTimeBonus(responseTimeMs) {
+  if (responseTimeMs <= TIME_BONUS.FAST_THRESHOLD_MS) return TIME_BONUS.FAST_MULTIPLIER;
+  if (responseTimeMs <= TIME_BONUS.MEDIUM_THRESHOLD_MS) return TIME_BONUS.MEDIUM_MULTIPLIER;
+  return 1.0;
+}
+
+function calculatePoints(currentStreak = 0, responseTimeMs) {
+  const streakMult = getStreakMultiplier(currentStreak);
+  const timeMult = responseTimeMs != null ? getTimeBonus(responseTimeMs) : 1.0;
+  return Math.round(BASE_POINTS * streakMult * timeMult);
+}
+
+function normalizeFreeText(text) {
+  return String(text).trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Credit (0..1) for a response, or null when the question is not auto-graded.
+ * @param {object} question - session question ({ type?, options, correctIndex, correctIndices?, numericAnswer?, acceptedAnswers? })
+ * @param {object} response - response doc answer fields
+ * @returns {number | null}
+ */
+function getAnswerCredit(question, response) {
+  switch (question.type || "single") {
+    case "multi": {
+      const correct = new Set(question.correctIndices || []);
+      const picked = new Set(Array.isArray(response.choiceIndices) ? response.choiceIndices : []);
+      if (correct.size === 0) return picked.size === 0 ? 1 : 0;
+      let hits = 0;
+      let misses = 0;
+      picked.forEach((idx) => (correct.has(idx) ? (hits += 1) : (misses += 1)));
+      return Math.max(0, (hits - misses) / correct.size);
+    }
+    case "ordering": {
+      const order = Array.isArray(response.order) ? response.order : [];
+      const itemCount = (question.options || []).length;
+      if (itemCount === 0 || order.length !== itemCount) return 0;
+      const inPlace = order.filter((optionIndex, position) => optionIndex === position).length;
+      return inPlace / itemCount;
+    }
+    case "numeric": {
+      if (!question.numericAnswer) return null;
+      const value = response.numericValue;
+      if (typeof value !== "number" || !Number.isFinite(value)) return 0;
+      const { value: expected, tolerance } = question.numericAnswer;
+      return Math.abs(value - expected) <= Math.abs(tolerance) + 1e-9 ? 1 : 0;
+    }
+    case "freeText": {
+      const accepted = (question.acceptedAnswers || []).map(normalizeFreeText).filter(Boolean);
+      if (accepted.length === 0) return null;
+      return accepted.includes(normalizeFreeText(response.text ?? "")) ? 1 : 0;
+    }
+    default:
+      return response.choiceIndex === question.correctIndex ? 1 : 0;
+  }
+}
+
+/**
+ * Score a first response to a question.
+ * Only full credit counts as correct and extends the streak; partial credit still earns points.
+ * @param {{ credit: number, participant: object, responseTimeMs?: number }} input
+ * @returns {{ points: number, participantUpdate: object }}
+ */
+function scoreAnswer({ credit, participant, responseTimeMs }) {
+  const currentStreak = participant.streak ?? 0;
+  const isCorrect = credit >= 1;
+  const points = credit > 0 ? Math.round(calculatePoints(currentStreak, responseTimeMs) * Math.min(credit, 1)) : 0;
+  return {
+    points,
+    participantUpdate: {
+      points: (participant.points ?? 0) + points,
+      streak: isCorrect ? currentStreak + 1 : 0,
+      correctCount: (participant.correctCount ?? 0) + (isCorrect ? 1 : 0),
+      incorrectCount: (participant.incorrectCount ?? 0) + (isCorrect ? 0 : 1),
+    },
+  };
+}
+
+module.exports = {
+  BASE_POINTS,
+  calculatePoints,
+  getAnswerCredit,
+  getStreakMultiplier,
+  getTimeBonus,
+  scoreAnswer,
+};
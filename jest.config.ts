@@ -17,6 +17,7 @@ const config: Config = {
   testPathIgnorePatterns: [
     "<rootDir>/voice-gateway/dist/",
     "<rootDir>/voice-gateway/src/__tests__/persistence.test.ts",
+    "<rootDir>/voice-gateway/src/__tests__/support/",
     "<rootDir>/voice-gateway/dist/__tests__/persistence.test.js",
     "<rootDir>/e2e/",
   ],
@@ -0,0 +1,56 @@
+import React from "react";
+import type { AlarmAction, AlarmId, AlarmPriority, MonitorAlarm } from "../types/voiceGateway";
+
+type Props = {
+  alarms: MonitorAlarm[];
+  onRespond: (alarmId: AlarmId, action: AlarmAction) => void;
+};
+
+const PRIORITY_STYLES: Record<AlarmPriority, string> = {
+  high: "border-rose-500/70 bg-rose-900/50 text-rose-100",
+  medium: "border-amber-500/70 bg-amber-900/40 text-amber-100",
+  low: "border-sky-500/60 bg-sky-900/30 text-sky-100",
+};
+
+export function AlarmBanner({ alarms, onRespond }: Props) {
+  if (alarms.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5" role="alert" aria-live="assertive">
+      {alarms.map((alarm) => {
+        const quiet = alarm.status !== "active";
+        return (
+          <div
+            key={alarm.id}
+            className={`flex items-center gap-2 rounded-lg border px-3 py-1.5 text-sm ${PRIORITY_STYLES[alarm.priority]} ${
+              quiet ? "opacity-70" : "animate-pulse"
+            }`}
+          >
+            <span className="text-[10px] uppercase tracking-[0.14em] font-semibold">{alarm.priority}</span>
+            <span className="flex-1 font-semibold">{alarm.message}</span>
+            {alarm.status === "silenced" && <span className="text-[11px]">Silenced</span>}
+            {alarm.status === "acknowledged" && <span className="text-[11px]">Acknowledged</span>}
+            {alarm.status === "active" && (
+              <button
+                type="button"
+                onClick={() => onRespond(alarm.id, "silence")}
+                className="px-2 py-0.5 rounded border border-current text-[11px] hover:bg-white/10"
+              >
+                Silence
+              </button>
+            )}
+            {alarm.status !== "acknowledged" && (
+              <button
+                type="button"
+                onClick={() => onRespond(alarm.id, "acknowledge")}
+                className="px-2 py-0.5 rounded border border-current text-[11px] hover:bg-white/10"
+              >
+                Acknowledge
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 import React, { useState, useEffect, useRef, useMemo } from "react";
 import { VoiceState, VoiceCommandType } from "../types";
-import { VoiceConnectionStatus, CharacterId, ROLE_COLORS, PatientScenarioId } from "../types/voiceGateway";
+import { VoiceConnectionStatus, CharacterId, ROLE_COLORS, PatientScenarioId, CostBreakdown } from "../types/voiceGateway";
 import { setVoiceEnabled } from "../hooks/useVoiceState";
 import { sendVoiceCommand } from "../services/voiceCommands";
 import { voiceGatewayClient } from "../services/VoiceGatewayClient";
 import { TranscriptLogTurn } from "./SessionTranscriptPanel";
+import { BudgetBreakdown } from "./BudgetBreakdown";
 
 /** Complex scenarios that have their own phase progression - don't show manual override controls */
 const COMPLEX_SCENARIO_IDS = ["teen_svt_complex_v1", "peds_myocarditis_silent_crash_v1"];
@@ -23,6 +24,7 @@ interface AutonomousSimPanelProps {
       fallback?: boolean;
       throttled?: boolean;
       usdEstimate?: number;
+      breakdown?: CostBreakdown;
     };
   };
   /** Current scenario */
@@ -164,6 +166,7 @@ export function AutonomousSimPanel({
               )}
             </span>
           )}
+          {simState?.budget && <BudgetBreakdown breakdown={simState.budget.breakdown} />}
 
           {/* Current vitals summary */}
           {isActive && simState?.vitals && (
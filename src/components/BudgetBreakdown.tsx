@@ -0,0 +1,44 @@
+/**
+ * Per-session cost breakdown for the presenter's budget display.
+ * One entry per modality the session has been billed for (realtime voice,
+ * chat, transcription, speech), in a fixed order; hover shows the call count.
+ */
+
+import React from "react";
+import type { CostBreakdown, UsageModality } from "../types/voiceGateway";
+
+export interface BudgetBreakdownProps {
+  breakdown?: CostBreakdown;
+}
+
+const MODALITY_LABELS: Record<UsageModality, string> = {
+  realtime: "Voice",
+  chat: "Chat",
+  stt: "Transcription",
+  tts: "Speech",
+};
+
+const MODALITY_ORDER: UsageModality[] = ["realtime", "chat", "stt", "tts"];
+
+function formatUsd(usd: number): string {
+  return usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`;
+}
+
+export function BudgetBreakdown({ breakdown }: BudgetBreakdownProps) {
+  const entries = MODALITY_ORDER.flatMap((modality) => {
+    const entry = breakdown?.[modality];
+    return entry && entry.calls > 0 ? [{ modality, ...entry }] : [];
+  });
+  if (entries.length === 0) return null;
+
+  return (
+    <span className="text-[10px] text-slate-400" aria-label="Cost breakdown">
+      {entries.map(({ modality, usd, calls }, i) => (
+        <span key={modality} title={`${calls} ${calls === 1 ? "call" : "calls"}`}>
+          {i > 0 && " · "}
+          {MODALITY_LABELS[modality]} {formatUsd(usd)}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -6,8 +6,13 @@ type Props = {
   onStop?: () => void;
   targetRate?: number; // Default 110 BPM (middle of 100-120 range per PALS)
   showCompact?: boolean;
+  /** Tapped rate, reported every RATE_SAMPLE_TAPS taps */
+  onRateSample?: (rate: number) => void;
 };
 
+/** Taps between rate reports */
+const RATE_SAMPLE_TAPS = 5;
+
 type FeedbackStatus = "good" | "too_slow" | "too_fast" | "idle";
 
 function createBeepSound(audioContext: AudioContext, frequency: number = 880, duration: number = 0.05): void {
@@ -33,6 +38,7 @@ export function CPRMetronome({
   onStop,
   targetRate = 110,
   showCompact = false,
+  onRateSample,
 }: Props) {
   const [isRunning, setIsRunning] = useState(false);
   const [compressionCount, setCompressionCount] = useState(0);
@@ -46,6 +52,7 @@ export function CPRMetronome({
   const intervalRef = useRef<number | null>(null);
   const compressionTimesRef = useRef<number[]>([]);
   const startTimeRef = useRef<number | null>(null);
+  const tapsSinceSampleRef = useRef(0);
 
   // Use external control if provided
   const running = externalActive !== undefined ? externalActive : isRunning;
@@ -67,6 +74,7 @@ export function CPRMetronome({
     setCurrentRate(null);
     setFeedback("idle");
     compressionTimesRef.current = [];
+    tapsSinceSampleRef.current = 0;
     startTimeRef.current = Date.now();
     setElapsed(0);
     onStart?.();
@@ -106,6 +114,12 @@ export function CPRMetronome({
       const rate = Math.round(60000 / avgInterval);
       setCurrentRate(rate);
 
+      tapsSinceSampleRef.current += 1;
+      if (tapsSinceSampleRef.current >= RATE_SAMPLE_TAPS) {
+        tapsSinceSampleRef.current = 0;
+        onRateSample?.(rate);
+      }
+
       // Provide feedback
       if (rate < 100) {
         setFeedback("too_slow");
@@ -115,7 +129,7 @@ export function CPRMetronome({
         setFeedback("good");
       }
     }
-  }, []);
+  }, [onRateSample]);
 
   // Metronome tick effect
   useEffect(() => {
@@ -210,6 +224,15 @@ export function CPRMetronome({
               }`}
             />
             <span className="text-xs font-mono text-slate-300">{targetRate} BPM</span>
+            <button
+              onClick={recordCompression}
+              className="px-2 py-1 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold"
+            >
+              Tap
+            </button>
+            {currentRate !== null && (
+              <span className={`text-xs font-mono ${getFeedbackColor(feedback)}`}>{currentRate}/min</span>
+            )}
           </div>
         )}
       </div>
@@ -362,23 +385,24 @@ export function CPRMetronome({
 }
 
 // Mini version for embedding in other components
-export function CPRMetronomeMini({ onToggle }: { onToggle?: (running: boolean) => void }) {
+export function CPRMetronomeMini({
+  onToggle,
+  onRateSample,
+}: {
+  onToggle?: (running: boolean) => void;
+  onRateSample?: (rate: number) => void;
+}) {
   const [running, setRunning] = useState(false);
 
-  const toggle = useCallback(() => {
-    setRunning((r) => {
-      const next = !r;
-      onToggle?.(next);
-      return next;
-    });
+  const start = useCallback(() => {
+    setRunning(true);
+    onToggle?.(true);
   }, [onToggle]);
 
-  return (
-    <CPRMetronome
-      isActive={running}
-      onStart={() => setRunning(true)}
-      onStop={() => setRunning(false)}
-      showCompact
-    />
-  );
+  const stop = useCallback(() => {
+    setRunning(false);
+    onToggle?.(false);
+  }, [onToggle]);
+
+  return <CPRMetronome isActive={running} onStart={start} onStop={stop} onRateSample={onRateSample} showCompact />;
 }
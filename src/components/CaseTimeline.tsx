@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from "react";
-import { OrderResult, OrderType } from "../types/voiceGateway";
+import { OrderResult, OrderType, TeamActor } from "../types/voiceGateway";
+import { TEAM_ROLE_LABELS } from "../../voice-gateway/src/sim/teamRoles";
 
 // Timeline event types
 export type TimelineEventType = "order" | "treatment" | "ekg" | "stage" | "finding";
@@ -11,11 +12,13 @@ export interface TimelineEvent {
   label: string;
   detail?: string;
   icon?: string;
+  /** Code-team role that ordered or gave it */
+  teamRole?: string;
 }
 
 interface CaseTimelineProps {
-  orders?: { id: string; type: OrderType | string; status: string; result?: OrderResult; completedAt?: number }[];
-  treatmentHistory?: { ts: number; treatmentType: string; note?: string }[];
+  orders?: { id: string; type: OrderType | string; status: string; result?: OrderResult; completedAt?: number; orderedBy?: TeamActor }[];
+  treatmentHistory?: { ts: number; treatmentType: string; note?: string; orderedBy?: TeamActor }[];
   ekgHistory?: { ts: number; summary: string; imageUrl?: string }[];
   scenarioStartedAt?: number;
   compact?: boolean;
@@ -40,6 +43,7 @@ function getEventIcon(type: TimelineEventType, subtype?: string): string {
       if (subtype === "vitals") return "💓";
       if (subtype === "labs") return "🧪";
       if (subtype === "imaging") return "🩻";
+      if (subtype === "echo") return "🫀";
       if (subtype?.includes("exam")) return "🩺";
       return "📋";
     case "treatment":
@@ -85,6 +89,7 @@ function formatOrderType(type: string): string {
     case "ekg": return "EKG ordered";
     case "labs": return "Labs ordered";
     case "imaging": return "Imaging ordered";
+    case "echo": return "Echo ordered";
     case "cardiac_exam": return "Cardiac exam";
     case "lung_exam": return "Lung exam";
     case "general_exam": return "General exam";
@@ -125,6 +130,7 @@ export function CaseTimeline({
           label: formatOrderType(o.type),
           detail: o.result?.summary,
           icon: getEventIcon("order", o.type),
+          teamRole: o.orderedBy?.teamRole && TEAM_ROLE_LABELS[o.orderedBy.teamRole],
         });
       });
 
@@ -137,6 +143,7 @@ export function CaseTimeline({
         label: formatTreatmentType(t.treatmentType),
         detail: t.note,
         icon: getEventIcon("treatment", t.treatmentType.toLowerCase()),
+        teamRole: t.orderedBy?.teamRole && TEAM_ROLE_LABELS[t.orderedBy.teamRole],
       });
     });
 
@@ -198,6 +205,11 @@ export function CaseTimeline({
                 <span className="text-slate-200 font-medium truncate">
                   {event.label}
                 </span>
+                {event.teamRole && (
+                  <span className="text-[9px] text-sky-300 bg-sky-900/30 border border-sky-800/60 rounded px-1 shrink-0">
+                    {event.teamRole}
+                  </span>
+                )}
                 <span className="text-slate-500 text-[9px] shrink-0">
                   {formatRelativeTime(event.ts, scenarioStartedAt)}
                 </span>
@@ -1,23 +1,30 @@
 import React, { useEffect, useState, useCallback, useRef, useMemo } from "react";
 import { CPRMetronomeMini } from "./CPRMetronome";
-
-type CodeBlueRhythm = "vfib" | "vtach" | "asystole" | "pea" | null;
+import {
+  createRhythm,
+  isArrestRhythm,
+  isShockableRhythm,
+  RHYTHM_LABELS,
+  type Rhythm,
+} from "../../voice-gateway/src/sim/rhythm";
+import type { CprEventKind } from "../types/voiceGateway";
 
 type Props = {
-  rhythmSummary?: string;
+  /** Structured rhythm from sim_state */
+  rhythm?: Rhythm;
   onCodeStart?: () => void;
   onCodeEnd?: () => void;
   onPulseCheck?: (intervalNumber: number) => void;
+  /** Compressions started/paused, tapped rate and compressor swaps, for the gateway's CPR quality metrics */
+  onCprEvent?: (event: CprEventKind, rate?: number) => void;
 };
 
-function detectCodeBlueRhythm(summary?: string): CodeBlueRhythm {
-  if (!summary) return null;
-  const s = summary.toLowerCase();
-  if (s.includes("vfib") || s.includes("ventricular fibrillation")) return "vfib";
-  if (s.includes("vtach") || s.includes("ventricular tachycardia")) return "vtach";
-  if (s.includes("asystole") || s.includes("flatline")) return "asystole";
-  if (s.includes("pea") || s.includes("pulseless electrical")) return "pea";
-  return null;
+/** Rhythm used for the checklist when a code is started without a pulseless rhythm on the monitor */
+const DEFAULT_CODE_RHYTHM = createRhythm("asystole", 0, "Asystole");
+
+/** Pulseless rhythms call for a code */
+function getCodeBlueRhythm(rhythm?: Rhythm): Rhythm | null {
+  return rhythm && isArrestRhythm(rhythm) ? rhythm : null;
 }
 
 function formatTime(seconds: number): string {
@@ -26,18 +33,12 @@ function formatTime(seconds: number): string {
   return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
 }
 
-function getRhythmLabel(rhythm: CodeBlueRhythm): string {
-  switch (rhythm) {
-    case "vfib": return "V-Fib";
-    case "vtach": return "V-Tach";
-    case "asystole": return "Asystole";
-    case "pea": return "PEA";
-    default: return "Unknown";
-  }
+function getRhythmLabel(rhythm: Rhythm | null): string {
+  return rhythm ? RHYTHM_LABELS[rhythm.code] : "Unknown";
 }
 
-function isShockable(rhythm: CodeBlueRhythm): boolean {
-  return rhythm === "vfib" || rhythm === "vtach";
+function isShockable(rhythm: Rhythm | null): boolean {
+  return rhythm ? isShockableRhythm(rhythm) : false;
 }
 
 type PALSAction = {
@@ -104,18 +105,20 @@ function generatePALSChecklist(shockable: boolean): PALSAction[] {
   return actions.sort((a, b) => a.time - b.time);
 }
 
-export function CodeBluePanel({ rhythmSummary, onCodeStart, onCodeEnd, onPulseCheck }: Props) {
+export function CodeBluePanel({ rhythm, onCodeStart, onCodeEnd, onPulseCheck, onCprEvent }: Props) {
   const [codeActive, setCodeActive] = useState(false);
   const [elapsedSeconds, setElapsedSeconds] = useState(0);
   const [codeStartTime, setCodeStartTime] = useState<number | null>(null);
-  const [currentRhythm, setCurrentRhythm] = useState<CodeBlueRhythm>(null);
+  const [currentRhythm, setCurrentRhythm] = useState<Rhythm | null>(null);
   const [palsActions, setPalsActions] = useState<PALSAction[]>([]);
   const [pulseCheckAlertVisible, setPulseCheckAlertVisible] = useState(false);
   const [nextPulseCheckIn, setNextPulseCheckIn] = useState<number | null>(null);
+  const [compressing, setCompressing] = useState(false);
+  const [compressorSwaps, setCompressorSwaps] = useState(0);
   const timerRef = useRef<number | null>(null);
   const lastPulseCheckRef = useRef<number>(0);
 
-  const detectedRhythm = useMemo(() => detectCodeBlueRhythm(rhythmSummary), [rhythmSummary]);
+  const detectedRhythm = useMemo(() => getCodeBlueRhythm(rhythm), [rhythm]);
 
   // Auto-detect code blue rhythms
   useEffect(() => {
@@ -136,14 +139,17 @@ export function CodeBluePanel({ rhythmSummary, onCodeStart, onCodeEnd, onPulseCh
     setElapsedSeconds(0);
     lastPulseCheckRef.current = 0;
 
-    const rhythm = detectedRhythm || "asystole"; // default to asystole if unknown
-    setCurrentRhythm(rhythm);
-    setPalsActions(generatePALSChecklist(isShockable(rhythm)));
+    const codeRhythm = detectedRhythm ?? DEFAULT_CODE_RHYTHM;
+    setCurrentRhythm(codeRhythm);
+    setPalsActions(generatePALSChecklist(isShockable(codeRhythm)));
 
     onCodeStart?.();
   }, [codeActive, detectedRhythm, onCodeStart]);
 
   const endCode = useCallback(() => {
+    if (compressing) onCprEvent?.("pause");
+    setCompressing(false);
+    setCompressorSwaps(0);
     setCodeActive(false);
     setCodeStartTime(null);
     setElapsedSeconds(0);
@@ -155,7 +161,20 @@ export function CodeBluePanel({ rhythmSummary, onCodeStart, onCodeEnd, onPulseCh
       timerRef.current = null;
     }
     onCodeEnd?.();
-  }, [onCodeEnd]);
+  }, [onCodeEnd, compressing, onCprEvent]);
+
+  const toggleCompressions = useCallback(
+    (running: boolean) => {
+      setCompressing(running);
+      onCprEvent?.(running ? "start" : "pause");
+    },
+    [onCprEvent]
+  );
+
+  const swapCompressor = useCallback(() => {
+    setCompressorSwaps((n) => n + 1);
+    onCprEvent?.("swap");
+  }, [onCprEvent]);
 
   const markActionComplete = useCallback((index: number) => {
     setPalsActions(prev => {
@@ -307,8 +326,21 @@ export function CodeBluePanel({ rhythmSummary, onCodeStart, onCodeEnd, onPulseCh
                 </svg>
                 <span className="text-xs font-bold text-emerald-200 uppercase">CPR Metronome</span>
               </div>
-              <CPRMetronomeMini />
+              <CPRMetronomeMini onToggle={toggleCompressions} onRateSample={(rate) => onCprEvent?.("rate", rate)} />
             </div>
+            {compressing && (
+              <div className="mt-2 flex items-center justify-between">
+                <span className="text-[10px] text-slate-400">
+                  Compressor swaps: <span className="font-mono text-slate-200">{compressorSwaps}</span>
+                </span>
+                <button
+                  onClick={swapCompressor}
+                  className="px-2 py-0.5 text-[10px] font-medium bg-slate-700 hover:bg-slate-600 text-slate-200 rounded transition-colors"
+                >
+                  Swap Compressor
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Pulse check alert */}
@@ -407,16 +439,16 @@ export function CodeBluePanel({ rhythmSummary, onCodeStart, onCodeEnd, onPulseCh
   );
 }
 
-export function CodeBlueIndicator({ rhythmSummary }: { rhythmSummary?: string }) {
-  const rhythm = detectCodeBlueRhythm(rhythmSummary);
+export function CodeBlueIndicator({ rhythm }: { rhythm?: Rhythm }) {
+  const codeRhythm = getCodeBlueRhythm(rhythm);
 
-  if (!rhythm) return null;
+  if (!codeRhythm) return null;
 
   return (
     <div className="flex items-center gap-2 px-2 py-1 bg-red-500/20 border border-red-500/50 rounded-lg animate-pulse">
       <div className="w-2 h-2 rounded-full bg-red-500" />
       <span className="text-xs font-bold text-red-200 uppercase">
-        {getRhythmLabel(rhythm)} - Critical
+        {getRhythmLabel(codeRhythm)} - Critical
       </span>
     </div>
   );
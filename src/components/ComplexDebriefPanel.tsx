@@ -1,5 +1,17 @@
 import React, { useState } from "react";
-import { ComplexDebriefResult } from "../types/voiceGateway";
+import { ComplexDebriefResult, PatientScenarioId } from "../types/voiceGateway";
+import { getScenarioSnapshot } from "../data/scenarioSummaries";
+import { describeClosedLoopMetrics } from "../../voice-gateway/src/sim/closedLoop";
+
+const COMPLEX_SCENARIO_TITLES: Partial<Record<PatientScenarioId, string>> = {
+  teen_svt_complex_v1: "Teen SVT (PALS Algorithm)",
+  peds_myocarditis_silent_crash_v1: "Pediatric Myocarditis",
+};
+
+/** Complex scenarios have a fixed title; simple ones scored by rubric use their chief complaint */
+function scenarioTitle(scenarioId: PatientScenarioId): string {
+  return COMPLEX_SCENARIO_TITLES[scenarioId] ?? getScenarioSnapshot(scenarioId)?.chiefComplaint ?? scenarioId;
+}
 
 type ComplexDebriefPanelProps = {
   result: ComplexDebriefResult | null;
@@ -37,10 +49,10 @@ export function ComplexDebriefPanel({ result, onClose }: ComplexDebriefPanelProp
         {/* Header */}
         <div className="sticky top-0 bg-slate-900 border-b border-slate-700 p-4 flex items-center justify-between">
           <div>
-            <h2 className="text-lg font-semibold text-white">Complex Scenario Debrief</h2>
-            <p className="text-xs text-slate-400">
-              {result.scenarioId === "teen_svt_complex_v1" ? "Teen SVT (PALS Algorithm)" : "Pediatric Myocarditis"}
-            </p>
+            <h2 className="text-lg font-semibold text-white">
+              {result.scenarioId in COMPLEX_SCENARIO_TITLES ? "Complex Scenario Debrief" : "Scenario Debrief"}
+            </h2>
+            <p className="text-xs text-slate-400">{scenarioTitle(result.scenarioId)}</p>
           </div>
           <div className="flex items-center gap-2">
             <button
@@ -185,6 +197,17 @@ export function ComplexDebriefPanel({ result, onClose }: ComplexDebriefPanelProp
             </ul>
           </Section>
 
+          {/* Closed-Loop Communication */}
+          {result.communication && (
+            <Section title="Closed-Loop Communication">
+              <ul className="list-disc pl-5 space-y-1 text-slate-200 text-sm">
+                {describeClosedLoopMetrics(result.communication).map((item, idx) => (
+                  <li key={idx}>{item}</li>
+                ))}
+              </ul>
+            </Section>
+          )}
+
           {/* Scenario-Specific Feedback */}
           {result.scenarioSpecificFeedback.length > 0 && (
             <Section title="Scenario Feedback">
@@ -256,6 +279,11 @@ function buildReportText(result: ComplexDebriefResult): string {
   parts.push("");
   parts.push("## Teaching Points");
   result.teachingPoints.forEach((t) => parts.push(`- ${t}`));
+  if (result.communication) {
+    parts.push("");
+    parts.push("## Closed-Loop Communication");
+    describeClosedLoopMetrics(result.communication).forEach((line) => parts.push(`- ${line}`));
+  }
   if (result.scenarioSpecificFeedback.length > 0) {
     parts.push("");
     parts.push("## Scenario Feedback");
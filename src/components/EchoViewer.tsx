@@ -0,0 +1,133 @@
+import type { ReactNode } from "react";
+import type { EchoReport } from "../types/voiceGateway";
+
+interface EchoViewerProps {
+  report: EchoReport;
+  timestamp?: number;
+  orderedBy?: { name: string };
+  patientName?: string;
+  onClose: () => void;
+}
+
+function ReportRow({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <div className="flex justify-between gap-4 py-1.5 border-t border-slate-800/60 first:border-t-0">
+      <dt className="text-slate-400 text-sm shrink-0">{label}</dt>
+      <dd className={`text-sm text-right ${highlight ? "text-amber-200" : "text-slate-100"}`}>{value}</dd>
+    </div>
+  );
+}
+
+function ReportSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-slate-900/70 border border-slate-800 rounded-lg px-3 py-2">
+      <h2 className="text-[11px] uppercase tracking-[0.14em] text-slate-400 font-semibold mb-1">{title}</h2>
+      <dl>{children}</dl>
+    </section>
+  );
+}
+
+const isAbnormal = (text: string) => !/^(normal|closed|trivial|trileaflet, normal|no effusion|intact|left arch, unobstructed)/i.test(text);
+
+/**
+ * Structured echocardiogram report: impression, function, chambers, valves,
+ * ductus/shunts, arch and coronaries, with any stills or loops the scenario ships.
+ */
+export function EchoViewer({ report, timestamp, orderedBy, patientName = "Patient", onClose }: EchoViewerProps) {
+  const formattedTime = timestamp
+    ? new Date(timestamp).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" })
+    : "—";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col">
+      <header className="flex items-center justify-between px-4 py-3 bg-slate-900 border-b border-slate-800">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="p-2 -ml-2 text-slate-400 hover:text-white active:bg-slate-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-white font-semibold">Echocardiogram</h1>
+            <p className="text-slate-400 text-sm">
+              {patientName} • {formattedTime}
+              {orderedBy?.name && ` • Ordered by ${orderedBy.name}`}
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-4 space-y-3">
+        <div className="bg-sky-900/20 border border-sky-700/50 rounded-lg px-3 py-2 text-sm text-sky-100">
+          <span className="text-[11px] uppercase tracking-[0.14em] text-sky-300 font-semibold mr-2">Impression</span>
+          {report.impression}
+        </div>
+
+        {report.media && report.media.length > 0 && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {report.media.map((m) => (
+              <figure key={m.url} className="bg-black rounded-lg overflow-hidden border border-slate-800">
+                {m.kind === "loop" ? (
+                  <video src={m.url} autoPlay loop muted playsInline className="w-full" />
+                ) : (
+                  <img src={m.url} alt={m.caption} className="w-full" />
+                )}
+                <figcaption className="text-[11px] text-slate-400 px-2 py-1">{m.caption}</figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+
+        <ReportSection title="Function">
+          <ReportRow label="LV ejection fraction" value={`${report.lvef}% (${report.lvFunction})`} highlight={report.lvFunction !== "normal"} />
+          <ReportRow label="RV function" value={report.rvFunction} highlight={isAbnormal(report.rvFunction)} />
+        </ReportSection>
+
+        <ReportSection title="Chambers">
+          <ReportRow label="LV" value={report.chambers.lv} highlight={!/normal size/.test(report.chambers.lv)} />
+          <ReportRow label="RV" value={report.chambers.rv} highlight={!/normal size/.test(report.chambers.rv)} />
+          <ReportRow label="LA" value={report.chambers.la} highlight={!/normal size/.test(report.chambers.la)} />
+          <ReportRow label="RA" value={report.chambers.ra} highlight={!/normal size/.test(report.chambers.ra)} />
+        </ReportSection>
+
+        <ReportSection title="Valves">
+          <ReportRow label="Mitral" value={report.valves.mitral} highlight={isAbnormal(report.valves.mitral)} />
+          <ReportRow label="Tricuspid" value={report.valves.tricuspid} highlight={isAbnormal(report.valves.tricuspid)} />
+          <ReportRow label="Aortic" value={report.valves.aortic} highlight={isAbnormal(report.valves.aortic)} />
+          <ReportRow label="Pulmonary" value={report.valves.pulmonary} highlight={isAbnormal(report.valves.pulmonary)} />
+        </ReportSection>
+
+        <ReportSection title="Great vessels and shunts">
+          <ReportRow label="Ductus" value={report.ductus} highlight={isAbnormal(report.ductus)} />
+          <ReportRow label="Septa" value={report.shunts} highlight={isAbnormal(report.shunts)} />
+          <ReportRow label="Aortic arch" value={report.arch} highlight={isAbnormal(report.arch)} />
+          {report.coarctationGradientMmHg !== undefined && (
+            <ReportRow label="Coarctation gradient" value={`${report.coarctationGradientMmHg} mmHg`} highlight />
+          )}
+        </ReportSection>
+
+        {report.coronaries && (
+          <ReportSection title="Coronary arteries (z-score)">
+            <ReportRow label="LMCA" value={report.coronaries.lmca.toFixed(1)} highlight={report.coronaries.lmca >= 2} />
+            <ReportRow label="LAD" value={report.coronaries.lad.toFixed(1)} highlight={report.coronaries.lad >= 2} />
+            <ReportRow label="RCA" value={report.coronaries.rca.toFixed(1)} highlight={report.coronaries.rca >= 2} />
+            <ReportRow label="Classification" value={report.coronaries.classification} highlight={report.coronaries.classification !== "No involvement"} />
+          </ReportSection>
+        )}
+
+        <ReportSection title="Other">
+          <ReportRow label="Pericardium" value={report.pericardium} highlight={isAbnormal(report.pericardium)} />
+          {report.findings.map((finding) => (
+            <div key={finding} className="py-1.5 border-t border-slate-800/60 text-sm text-slate-200">
+              {finding}
+            </div>
+          ))}
+        </ReportSection>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,10 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import {
+  parseRhythmSummary,
+  synthesizeLead,
+  type EcgLead,
+  type EcgSpec,
+} from "../../voice-gateway/src/sim/ecgSynthesis";
 
 interface EkgViewerProps {
   imageUrl?: string;
@@ -6,9 +12,85 @@ interface EkgViewerProps {
   timestamp?: number;
   orderedBy?: { name: string };
   patientName?: string;
+  /** Rate at acquisition, used when the tracing is synthesized */
+  hr?: number;
   onClose: () => void;
 }
 
+/** Standard 3×4 layout: each column shows 2.5 s, continuous in time across columns */
+const LAYOUT: EcgLead[][] = [
+  ["I", "aVR", "V1", "V4"],
+  ["II", "aVL", "V2", "V5"],
+  ["III", "aVF", "V3", "V6"],
+];
+
+// Paper geometry in mm: 25 mm/s, 10 mm/mV
+const MM_PER_MS = 0.025;
+const MM_PER_MV = 10;
+const COLUMN_MS = 2500;
+const ROW_MM = 30;
+const STRIP_MS = 10000;
+const SAMPLE_RATE_HZ = 250;
+
+function tracePoints(samples: number[], xMm: number, baselineMm: number): string {
+  const stepMm = (1000 / SAMPLE_RATE_HZ) * MM_PER_MS;
+  return samples.map((v, i) => `${(xMm + i * stepMm).toFixed(2)},${(baselineMm - v * MM_PER_MV).toFixed(2)}`).join(" ");
+}
+
+/** 12-lead drawn from the synthesizer, with a lead II rhythm strip underneath */
+function SynthesizedTwelveLead({ spec, className, width }: { spec: EcgSpec; className: string; width?: number }) {
+  const widthMm = STRIP_MS * MM_PER_MS;
+  const heightMm = ROW_MM * 4;
+
+  const traces = useMemo(() => {
+    const cells = LAYOUT.flatMap((row, r) =>
+      row.map((lead, c) => {
+        const samples = synthesizeLead(spec, lead, {
+          durationMs: COLUMN_MS,
+          sampleRateHz: SAMPLE_RATE_HZ,
+          startMs: c * COLUMN_MS,
+        });
+        const xMm = c * COLUMN_MS * MM_PER_MS;
+        const baselineMm = r * ROW_MM + ROW_MM * 0.6;
+        return { lead, xMm, yMm: r * ROW_MM, points: tracePoints(samples, xMm, baselineMm) };
+      })
+    );
+    const strip = synthesizeLead(spec, "II", { durationMs: STRIP_MS, sampleRateHz: SAMPLE_RATE_HZ });
+    cells.push({ lead: "II", xMm: 0, yMm: 3 * ROW_MM, points: tracePoints(strip, 0, 3 * ROW_MM + ROW_MM * 0.6) });
+    return cells;
+  }, [spec]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${widthMm} ${heightMm}`}
+      className={className}
+      style={width ? { width } : undefined}
+      role="img"
+      aria-label="Synthesized 12-lead ECG"
+    >
+      <defs>
+        <pattern id="ecg-grid-small" width="1" height="1" patternUnits="userSpaceOnUse">
+          <path d="M 1 0 L 0 0 0 1" fill="none" stroke="rgba(220, 38, 38, 0.12)" strokeWidth="0.05" />
+        </pattern>
+        <pattern id="ecg-grid" width="5" height="5" patternUnits="userSpaceOnUse">
+          <rect width="5" height="5" fill="url(#ecg-grid-small)" />
+          <path d="M 5 0 L 0 0 0 5" fill="none" stroke="rgba(220, 38, 38, 0.3)" strokeWidth="0.12" />
+        </pattern>
+      </defs>
+      <rect width={widthMm} height={heightMm} fill="#0a0a0a" />
+      <rect width={widthMm} height={heightMm} fill="url(#ecg-grid)" />
+      {traces.map((trace) => (
+        <g key={`${trace.lead}-${trace.xMm}-${trace.yMm}`}>
+          <text x={trace.xMm + 1} y={trace.yMm + 4} fontSize={3} fill="#9ca3af" fontFamily="monospace">
+            {trace.lead}
+          </text>
+          <polyline points={trace.points} fill="none" stroke="#4ade80" strokeWidth={0.25} strokeLinejoin="round" />
+        </g>
+      ))}
+    </svg>
+  );
+}
+
 /**
  * Muse-like EKG viewer with dark grid background.
  * Mobile-optimized with zoom toggle and large tap targets.
@@ -19,9 +101,11 @@ export function EkgViewer({
   timestamp,
   orderedBy,
   patientName = "Patient",
+  hr,
   onClose,
 }: EkgViewerProps) {
   const [zoom, setZoom] = useState<"fit" | "1x" | "2x">("fit");
+  const synthesizedSpec = useMemo(() => (imageUrl ? null : parseRhythmSummary(summary, hr)), [imageUrl, summary, hr]);
 
   const formattedTime = timestamp
     ? new Date(timestamp).toLocaleTimeString("en-US", {
@@ -105,10 +189,13 @@ export function EkgViewer({
               style={zoom === "2x" ? { transform: "scale(2)", transformOrigin: "top left" } : undefined}
             />
           ) : (
-            <div className="text-center py-20">
-              <div className="text-gray-500 text-lg">No ECG image available</div>
-              {summary && <div className="text-gray-400 mt-2 max-w-md mx-auto">{summary}</div>}
-            </div>
+            synthesizedSpec && (
+              <SynthesizedTwelveLead
+                spec={synthesizedSpec}
+                className={zoom === "fit" ? "w-full h-auto" : "h-auto max-w-none"}
+                width={zoom === "fit" ? undefined : zoom === "1x" ? 1000 : 2000}
+              />
+            )
           )}
         </div>
       </div>
@@ -138,6 +225,11 @@ export function EkgViewer({
           <span className="px-2 py-1 bg-gray-800 text-blue-400 text-xs rounded font-mono">
             0.5-40 Hz
           </span>
+          {synthesizedSpec && (
+            <span className="px-2 py-1 bg-gray-800 text-amber-300 text-xs rounded font-mono">
+              Generated tracing
+            </span>
+          )}
         </div>
 
         {/* Summary */}
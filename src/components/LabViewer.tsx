@@ -0,0 +1,116 @@
+import type { LabFlag } from "../types/voiceGateway";
+import { buildLabTrends, trendArrow, type LabOrder } from "../utils/labTrends";
+
+const FLAG_STYLES: Record<LabFlag, string> = {
+  H: "text-amber-300",
+  L: "text-sky-300",
+  HH: "text-red-400 font-bold",
+  LL: "text-red-400 font-bold",
+};
+
+function formatRange(refLow?: number, refHigh?: number): string {
+  if (refLow === undefined || refHigh === undefined) return "";
+  return refLow === 0 ? `<${refHigh}` : `${refLow}–${refHigh}`;
+}
+
+function formatTime(ts?: number): string {
+  return ts ? new Date(ts).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "—";
+}
+
+interface LabViewerProps {
+  orders: LabOrder[];
+  patientName?: string;
+  onClose: () => void;
+}
+
+/**
+ * Lab results table: one section per panel, a column per draw (latest on the
+ * right), reference ranges and H/L/critical flags, with a trend arrow when a
+ * panel has been repeated.
+ */
+export function LabViewer({ orders, patientName = "Patient", onClose }: LabViewerProps) {
+  const trends = buildLabTrends(orders);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col">
+      <header className="flex items-center justify-between px-4 py-3 bg-slate-900 border-b border-slate-800">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onClose}
+            className="p-2 -ml-2 text-slate-400 hover:text-white active:bg-slate-800 rounded-lg min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Close"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+          <div>
+            <h1 className="text-white font-semibold">Lab Results</h1>
+            <p className="text-slate-400 text-sm">{patientName}</p>
+          </div>
+        </div>
+        <div className="text-[11px] text-slate-400 flex gap-3">
+          <span className={FLAG_STYLES.H}>H high</span>
+          <span className={FLAG_STYLES.L}>L low</span>
+          <span className={FLAG_STYLES.HH}>HH/LL critical</span>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {trends.length === 0 && <div className="text-sm text-slate-400">No lab results yet.</div>}
+        {trends.map((trend) => (
+          <section key={trend.panel} className="bg-slate-900/70 border border-slate-800 rounded-lg overflow-x-auto">
+            <h2 className="px-3 py-2 text-[11px] uppercase tracking-[0.14em] text-slate-400 font-semibold border-b border-slate-800">
+              {trend.label}
+            </h2>
+            <table className="w-full text-sm text-slate-200">
+              <thead>
+                <tr className="text-[11px] text-slate-500">
+                  <th className="text-left font-medium px-3 py-1.5">Test</th>
+                  {trend.draws.map((draw, i) => (
+                    <th
+                      key={draw.orderId}
+                      className={`text-right font-medium px-3 py-1.5 ${i === trend.draws.length - 1 ? "text-slate-300" : ""}`}
+                    >
+                      {formatTime(draw.completedAt)}
+                    </th>
+                  ))}
+                  {trend.draws.length > 1 && <th className="px-2 py-1.5" aria-label="Trend" />}
+                  <th className="text-right font-medium px-3 py-1.5">Ref</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trend.analytes.map((analyte) => (
+                  <tr key={analyte.id} className="border-t border-slate-800/60">
+                    <td className="px-3 py-1.5 text-slate-300">{analyte.label}</td>
+                    {trend.draws.map((draw, i) => {
+                      const value = draw.values[analyte.id];
+                      const latest = i === trend.draws.length - 1;
+                      return (
+                        <td
+                          key={draw.orderId}
+                          className={`px-3 py-1.5 text-right tabular-nums ${
+                            value?.flag ? FLAG_STYLES[value.flag] : latest ? "text-slate-100" : "text-slate-400"
+                          }`}
+                        >
+                          {value ? value.value : "—"}
+                          {value?.flag && <span className="ml-1 text-[10px]">{value.flag}</span>}
+                        </td>
+                      );
+                    })}
+                    {trend.draws.length > 1 && (
+                      <td className="px-2 py-1.5 text-center text-slate-400">{trendArrow(trend.draws, analyte.id)}</td>
+                    )}
+                    <td className="px-3 py-1.5 text-right text-[11px] text-slate-500 whitespace-nowrap">
+                      {formatRange(analyte.refLow, analyte.refHigh)} {analyte.unit}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@
  */
 
 import React from "react";
+import type { EchoReport, LabPanelResult } from "../types/voiceGateway";
 
 export interface OrderResult {
   summary?: string;
@@ -11,6 +12,9 @@ export interface OrderResult {
   nextAction?: string;
   rationale?: string;
   imageUrl?: string;
+  hr?: number;
+  labs?: LabPanelResult[];
+  echo?: EchoReport;
 }
 
 export interface Order {
@@ -26,6 +30,8 @@ export interface ParticipantOrdersPanelProps {
   orders: Order[];
   onViewEkg: (order: Order) => void;
   onViewCxr: (order: Order) => void;
+  onViewLabs?: (order: Order) => void;
+  onViewEcho?: (order: Order) => void;
   maxVisible?: number;
 }
 
@@ -34,6 +40,7 @@ const ORDER_HEADERS: Record<string, string> = {
   ekg: "EKG",
   labs: "Labs",
   imaging: "Imaging",
+  echo: "Echo",
 };
 
 const ORDER_ETAS: Record<string, string> = {
@@ -41,6 +48,7 @@ const ORDER_ETAS: Record<string, string> = {
   ekg: "≈20s",
   labs: "≈15s",
   imaging: "≈15s",
+  echo: "≈6m",
 };
 
 const HIGHLIGHT_PATTERN = /elevated|abnormal|shock|effusion|edema|ectasia|rvh|low|high|thickened/i;
@@ -49,6 +57,8 @@ export function ParticipantOrdersPanel({
   orders,
   onViewEkg,
   onViewCxr,
+  onViewLabs,
+  onViewEcho,
   maxVisible = 6,
 }: ParticipantOrdersPanelProps) {
   if (!orders.length) return null;
@@ -171,6 +181,54 @@ export function ParticipantOrdersPanel({
                 </button>
               )}
 
+              {/* View echo button */}
+              {isDone && order.type === "echo" && order.result?.echo && onViewEcho && (
+                <button
+                  type="button"
+                  onClick={() => onViewEcho(order)}
+                  className="mt-2 w-full px-3 py-1.5 rounded-lg bg-sky-600/20 border border-sky-500/50 text-sky-100 text-xs font-medium hover:bg-sky-600/30 hover:border-sky-400 transition-colors flex items-center justify-center gap-1.5"
+                >
+                  <svg
+                    className="w-3.5 h-3.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z"
+                    />
+                  </svg>
+                  View Echo
+                </button>
+              )}
+
+              {/* View labs button */}
+              {isDone && order.type === "labs" && order.result?.labs && onViewLabs && (
+                <button
+                  type="button"
+                  onClick={() => onViewLabs(order)}
+                  className="mt-2 w-full px-3 py-1.5 rounded-lg bg-sky-600/20 border border-sky-500/50 text-sky-100 text-xs font-medium hover:bg-sky-600/30 hover:border-sky-400 transition-colors flex items-center justify-center gap-1.5"
+                >
+                  <svg
+                    className="w-3.5 h-3.5"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M3 10h18M3 14h18M9 4v16M5 4h14a2 2 0 012 2v12a2 2 0 01-2 2H5a2 2 0 01-2-2V6a2 2 0 012-2z"
+                    />
+                  </svg>
+                  View Labs
+                </button>
+              )}
+
               {!isDone && (
                 <div className="text-[12px] text-slate-400">Result on the way…</div>
               )}
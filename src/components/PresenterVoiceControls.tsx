@@ -329,6 +329,16 @@ export function PresenterVoiceControls({
               >
                 Order imaging
               </button>
+              <button
+                type="button"
+                onClick={() => {
+                  emitCommand(sessionId, "order", { orderType: "echo" }, "imaging");
+                  noteQuick("Ordered echo (imaging)");
+                }}
+                className="px-2 py-1 rounded-lg text-[11px] font-semibold border border-purple-600/60 bg-purple-600/10 text-purple-100 hover:border-purple-500"
+              >
+                Order echo
+              </button>
             </div>
           </div>
 
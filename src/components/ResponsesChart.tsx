@@ -1,28 +1,98 @@
 import React, { useEffect, useState } from "react";
 import { collection, onSnapshot, query, where, db } from "../utils/firestore"; // Updated import
+import type { Question, ResponseAnswer } from "../types";
+import { getAnswerCredit, getQuestionType, normalizeFreeText } from "../utils/scoringUtils";
 
 interface Props {
   sessionId: string;
   questionId: string;
-  options: string[];
-  correctIndex: number;
+  question: Question;
   showResults: boolean;
   mode?: "presenter" | "participant";
 }
 
 export type ResponsesMode = 'presenter' | 'participant';
 
+type ChartRow = { label: string; text: string; count: number; isCorrect: boolean };
+type ChartData = { total: number; rows: ChartRow[]; freeText: Array<{ text: string; count: number }> };
+
+/**
+ * Aggregates response docs into chart rows for the question type:
+ * - single/multi: how many respondents picked each option
+ * - ordering: how many placed each item in its correct position
+ * - numeric: within vs outside tolerance
+ * - freeText: grouped answers (only listed once results are shown)
+ */
+function aggregateResponses(question: Question, answers: ResponseAnswer[]): ChartData {
+  const type = getQuestionType(question);
+  const total = answers.length;
+  const letter = (i: number) => String.fromCharCode(65 + i);
+
+  if (type === "numeric") {
+    const within = answers.filter((a) => getAnswerCredit(question, a) === 1).length;
+    return {
+      total,
+      freeText: [],
+      rows: [
+        { label: "✓", text: "Within tolerance", count: within, isCorrect: true },
+        { label: "✗", text: "Outside tolerance", count: total - within, isCorrect: false },
+      ],
+    };
+  }
+
+  if (type === "freeText") {
+    const groups = new Map<string, { text: string; count: number }>();
+    answers.forEach((a) => {
+      const text = (a.text ?? "").trim();
+      if (!text) return;
+      const key = normalizeFreeText(text);
+      const group = groups.get(key) ?? { text, count: 0 };
+      group.count += 1;
+      groups.set(key, group);
+    });
+    return { total, rows: [], freeText: Array.from(groups.values()).sort((a, b) => b.count - a.count) };
+  }
+
+  const counts = Array(question.options.length).fill(0);
+  answers.forEach((a) => {
+    if (type === "multi") {
+      new Set(a.choiceIndices ?? []).forEach((idx) => {
+        if (idx >= 0 && idx < counts.length) counts[idx] += 1;
+      });
+    } else if (type === "ordering") {
+      (a.order ?? []).forEach((optionIndex, position) => {
+        if (optionIndex === position && position < counts.length) counts[position] += 1;
+      });
+    } else {
+      const idx = (a.choiceIndex ?? 0) as number;
+      if (idx >= 0 && idx < counts.length) counts[idx] += 1;
+    }
+  });
+
+  const correctSet = new Set(
+    type === "multi" ? question.correctIndices ?? [] : type === "single" ? [question.correctIndex] : []
+  );
+  return {
+    total,
+    freeText: [],
+    rows: question.options.map((opt, i) => ({
+      label: type === "ordering" ? String(i + 1) : letter(i),
+      text: opt,
+      count: counts[i],
+      // Ordering rows already count correct placements, so none is singled out
+      isCorrect: correctSet.has(i),
+    })),
+  };
+}
+
 export function ResponsesChart({
   sessionId,
   questionId,
-  options,
-  correctIndex,
+  question,
   showResults,
   mode = "participant",
 }: Props) {
-  const [counts, setCounts] = useState<number[]>(() =>
-    Array(options.length).fill(0)
-  );
+  const [answers, setAnswers] = useState<ResponseAnswer[]>([]);
 
   const barColors = [
     "bg-cyan-500",
@@ -39,20 +109,19 @@ export function ResponsesChart({
     );
 
     const unsub = onSnapshot(q, (snapshot: any) => {
-      const arr = Array(options.length).fill(0);
+      const next: ResponseAnswer[] = [];
       snapshot.forEach((docSnap: any) => {
-        const data = docSnap.data();
-        const idx = (data.choiceIndex ?? 0) as number;
-        if (idx >= 0 && idx < arr.length) arr[idx] += 1;
+        next.push(docSnap.data() as ResponseAnswer);
       });
-      setCounts(arr);
+      setAnswers(next);
     });
 
     return () => unsub();
-  }, [sessionId, questionId, options.length]);
+  }, [sessionId, questionId]);
 
-  const totalRaw = counts.reduce((a, b) => a + b, 0);
+  const { total: totalRaw, rows, freeText } = aggregateResponses(question, answers);
   const total = totalRaw === 0 ? 1 : totalRaw;
+  const isFreeText = getQuestionType(question) === "freeText";
 
   return (
     <div className="space-y-3 text-xs w-full">
@@ -65,11 +134,29 @@ export function ResponsesChart({
           Waiting for responses…
         </div>
       )}
-      {options.map((opt, i) => {
-        const pct = Math.round((counts[i] / total) * 100);
-        const isCorrect = showResults && i === correctIndex;
+      {isFreeText && totalRaw > 0 && !showResults && (
+        <div className="text-slate-400 text-xs bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2">
+          Answers are hidden until results are shown.
+        </div>
+      )}
+      {isFreeText && showResults && (
+        <ul className="space-y-1.5" data-testid="free-text-answers">
+          {freeText.map((entry) => (
+            <li
+              key={entry.text}
+              className="flex items-center gap-2 rounded-lg border border-slate-800 bg-slate-900/60 px-3 py-1.5 text-sm text-slate-200"
+            >
+              <span className="flex-1 break-words">{entry.text}</span>
+              {entry.count > 1 && <span className="text-[11px] text-slate-400">×{entry.count}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {rows.map((row, i) => {
+        const pct = Math.round((row.count / total) * 100);
+        const isCorrect = showResults && row.isCorrect;
         const color = barColors[i % barColors.length];
-        const label = String.fromCharCode(65 + i);
+        const label = row.label;
 
         if (mode === "presenter") {
           return (
@@ -98,7 +185,7 @@ export function ResponsesChart({
               <span className="flex h-6 w-6 items-center justify-center rounded-full bg-slate-800 border border-slate-700 text-[11px]">
                 {label}
               </span>
-              <span className="truncate">{opt}</span>
+              <span className="truncate">{row.text}</span>
               <span className="ml-auto text-slate-400 text-xs">{pct}%</span>
             </div>
             <div className="w-full h-3 rounded-full bg-slate-800 overflow-hidden relative">
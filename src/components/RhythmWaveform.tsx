@@ -1,185 +1,38 @@
 import React, { useEffect, useRef, useState, useMemo, useCallback } from "react";
-
-type RhythmType =
-  | "sinus"
-  | "sinus_tachycardia"
-  | "sinus_bradycardia"
-  | "svt"
-  | "vtach"
-  | "vfib"
-  | "afib"
-  | "asystole"
-  | "pea"
-  | "heart_block"
-  | "unknown";
+import { parseRhythmSummary, sampleEcg } from "../../voice-gateway/src/sim/ecgSynthesis";
+import {
+  isCriticalRhythm,
+  RHYTHM_LABELS,
+  rhythmToEcgSpec,
+  withRhythmRate,
+  type Rhythm,
+} from "../../voice-gateway/src/sim/rhythm";
 
 type Props = {
-  rhythmSummary?: string;
+  /** Structured rhythm from sim_state; sinus at `hr` when absent */
+  rhythm?: Rhythm;
   hr?: number;
   className?: string;
   height?: number;
   showLabel?: boolean;
+  /** Defibrillator sync mode: mark each detected R wave */
+  syncMarkers?: boolean;
   onRhythmChange?: (newRhythm: string) => void;
 };
 
-function detectRhythmType(summary?: string): RhythmType {
-  if (!summary) return "sinus";
-  const s = summary.toLowerCase();
-  if (s.includes("vfib") || s.includes("ventricular fibrillation")) return "vfib";
-  if (s.includes("vtach") || s.includes("ventricular tachycardia")) return "vtach";
-  if (s.includes("svt") || s.includes("supraventricular")) return "svt";
-  if (s.includes("afib") || s.includes("atrial fibrillation") || s.includes("a-fib")) return "afib";
-  if (s.includes("asystole") || s.includes("flatline")) return "asystole";
-  if (s.includes("pea") || s.includes("pulseless electrical")) return "pea";
-  if (s.includes("heart block") || s.includes("av block") || s.includes("3rd degree")) return "heart_block";
-  if (s.includes("bradycardia") || s.includes("brady")) return "sinus_bradycardia";
-  if (s.includes("tachycardia") || s.includes("tachy")) return "sinus_tachycardia";
-  if (s.includes("sinus") || s.includes("nsr") || s.includes("normal")) return "sinus";
-  return "unknown";
-}
-
-function generateQRSComplex(phase: number, amplitude: number): number {
-  // P wave (small bump before QRS)
-  if (phase >= 0.0 && phase < 0.08) {
-    const t = (phase - 0.04) / 0.04;
-    return amplitude * 0.15 * Math.exp(-t * t * 8);
-  }
-  // PR segment (flat)
-  if (phase >= 0.08 && phase < 0.12) return 0;
-  // Q wave (small dip)
-  if (phase >= 0.12 && phase < 0.14) {
-    return amplitude * -0.1 * Math.sin((phase - 0.12) / 0.02 * Math.PI);
-  }
-  // R wave (tall spike)
-  if (phase >= 0.14 && phase < 0.18) {
-    const t = (phase - 0.16) / 0.02;
-    return amplitude * 1.0 * Math.exp(-t * t * 12);
-  }
-  // S wave (dip after R)
-  if (phase >= 0.18 && phase < 0.22) {
-    return amplitude * -0.25 * Math.sin((phase - 0.18) / 0.04 * Math.PI);
-  }
-  // ST segment (flat or slightly elevated)
-  if (phase >= 0.22 && phase < 0.32) return amplitude * 0.02;
-  // T wave (rounded bump)
-  if (phase >= 0.32 && phase < 0.48) {
-    const t = (phase - 0.40) / 0.08;
-    return amplitude * 0.3 * Math.exp(-t * t * 6);
-  }
-  return 0;
-}
-
-function generateRhythmSample(
-  rhythmType: RhythmType,
-  time: number,
-  hr: number,
-  irregularityOffset: number
-): number {
-  const msPerBeat = 60000 / Math.max(30, Math.min(300, hr));
-  const noise = (Math.random() - 0.5) * 0.02;
-
-  switch (rhythmType) {
-    case "sinus":
-    case "sinus_tachycardia":
-    case "sinus_bradycardia": {
-      const phase = ((time % msPerBeat) / msPerBeat);
-      return generateQRSComplex(phase, 0.8) + noise;
-    }
-
-    case "svt": {
-      // Very fast, narrow QRS complexes
-      const fastMsPerBeat = msPerBeat * 0.5; // SVT is faster
-      const phase = ((time % fastMsPerBeat) / fastMsPerBeat);
-      // Narrow QRS, no discernible P waves
-      if (phase >= 0.1 && phase < 0.2) {
-        const t = (phase - 0.15) / 0.05;
-        return 0.9 * Math.exp(-t * t * 20) + noise;
-      }
-      return noise * 0.5;
-    }
-
-    case "vtach": {
-      // Wide, bizarre QRS complexes, regular
-      const phase = ((time % msPerBeat) / msPerBeat);
-      // Wide QRS complex (monomorphic VT)
-      if (phase < 0.35) {
-        const t = (phase - 0.175) / 0.175;
-        const wide = Math.sin(t * Math.PI * 1.5) * 0.9;
-        return wide + noise;
-      }
-      return noise * 0.3;
-    }
-
-    case "vfib": {
-      // Chaotic, no discernible pattern
-      const chaos = Math.sin(time * 0.05) * 0.4 +
-        Math.sin(time * 0.08 + 1) * 0.3 +
-        Math.sin(time * 0.12 + 2) * 0.2 +
-        Math.sin(time * 0.03) * 0.2;
-      return chaos + (Math.random() - 0.5) * 0.3;
-    }
-
-    case "afib": {
-      // Irregularly irregular, fibrillatory baseline
-      const irregularBeat = msPerBeat * (0.7 + irregularityOffset * 0.6);
-      const phase = ((time % irregularBeat) / irregularBeat);
-      const fibrillation = Math.sin(time * 0.4) * 0.05 + Math.sin(time * 0.6) * 0.03;
-      if (phase >= 0.12 && phase < 0.2) {
-        const t = (phase - 0.16) / 0.04;
-        return 0.85 * Math.exp(-t * t * 15) + fibrillation + noise;
-      }
-      return fibrillation + noise * 0.5;
-    }
+/** Fixed seed so the same rhythm always draws the same way */
+const WAVEFORM_SEED = 7;
 
-    case "asystole": {
-      // Flatline with occasional artifact
-      return noise * 0.3;
-    }
-
-    case "pea": {
-      // Organized electrical activity but slower/weaker looking
-      const slowMsPerBeat = msPerBeat * 1.5;
-      const phase = ((time % slowMsPerBeat) / slowMsPerBeat);
-      return generateQRSComplex(phase, 0.5) + noise;
-    }
-
-    case "heart_block": {
-      // P waves marching through, occasional dropped QRS
-      const pWavePeriod = msPerBeat * 0.8;
-      const qrsPeriod = msPerBeat * 2; // Slower ventricular rate
-      const pPhase = ((time % pWavePeriod) / pWavePeriod);
-      const qrsPhase = ((time % qrsPeriod) / qrsPeriod);
-
-      // P waves
-      let pWave = 0;
-      if (pPhase >= 0.0 && pPhase < 0.15) {
-        const t = (pPhase - 0.075) / 0.075;
-        pWave = 0.2 * Math.exp(-t * t * 6);
-      }
-
-      // QRS (at slower rate)
-      let qrs = 0;
-      if (qrsPhase >= 0.1 && qrsPhase < 0.2) {
-        const t = (qrsPhase - 0.15) / 0.05;
-        qrs = 0.8 * Math.exp(-t * t * 12);
-      }
-
-      return pWave + qrs + noise;
-    }
-
-    default: {
-      const phase = ((time % msPerBeat) / msPerBeat);
-      return generateQRSComplex(phase, 0.7) + noise;
-    }
-  }
-}
+/** Minimum R-wave height (mV) the sync detector marks */
+const SYNC_R_THRESHOLD = 0.5;
 
 export function RhythmWaveform({
-  rhythmSummary,
+  rhythm,
   hr = 80,
   className = "",
   height = 64,
   showLabel = true,
+  syncMarkers = false,
   onRhythmChange,
 }: Props) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -187,9 +40,14 @@ export function RhythmWaveform({
   const bufferRef = useRef<number[]>([]);
   const lastRhythmRef = useRef<string | undefined>(undefined);
   const [isFlashing, setIsFlashing] = useState(false);
-  const irregularityRef = useRef(Math.random());
 
-  const rhythmType = useMemo(() => detectRhythmType(rhythmSummary), [rhythmSummary]);
+  const spec = useMemo(
+    () => (rhythm ? rhythmToEcgSpec(withRhythmRate(rhythm, hr)) : parseRhythmSummary(undefined, hr)),
+    [rhythm, hr]
+  );
+  const rhythmType = spec.rhythm;
+  const rhythmSummary = rhythm?.summary;
+  const isCritical = rhythm ? isCriticalRhythm(rhythm) : false;
   const width = 300;
   const bufferSize = width;
 
@@ -202,8 +60,6 @@ export function RhythmWaveform({
         setTimeout(() => setIsFlashing(false), 1500);
       }
       lastRhythmRef.current = rhythmSummary;
-      // Update irregularity for afib
-      irregularityRef.current = Math.random();
     }
   }, [rhythmSummary, onRhythmChange]);
 
@@ -214,7 +70,7 @@ export function RhythmWaveform({
     if (!ctx) return;
 
     const now = performance.now();
-    const sample = generateRhythmSample(rhythmType, now, hr, irregularityRef.current);
+    const sample = sampleEcg(spec, "II", now, WAVEFORM_SEED);
 
     // Update buffer
     bufferRef.current.push(sample);
@@ -245,9 +101,9 @@ export function RhythmWaveform({
 
     // Waveform color based on rhythm type
     let strokeColor = "#22d3ee"; // cyan-400 (default)
-    if (rhythmType === "vfib" || rhythmType === "asystole") {
+    if (rhythmType === "vf" || rhythmType === "asystole") {
       strokeColor = "#f87171"; // red-400
-    } else if (rhythmType === "vtach" || rhythmType === "svt") {
+    } else if (rhythmType === "vt" || rhythmType === "svt") {
       strokeColor = "#fbbf24"; // amber-400
     } else if (rhythmType === "afib") {
       strokeColor = "#f97316"; // orange-500
@@ -272,7 +128,7 @@ export function RhythmWaveform({
     ctx.stroke();
 
     // Draw glow effect for critical rhythms
-    if (rhythmType === "vfib" || rhythmType === "asystole" || rhythmType === "vtach") {
+    if (isCritical) {
       ctx.strokeStyle = `${strokeColor}40`;
       ctx.lineWidth = 6;
       ctx.beginPath();
@@ -288,8 +144,25 @@ export function RhythmWaveform({
       ctx.stroke();
     }
 
+    // Sync markers over R waves; VF and asystole have none for the device to find
+    if (syncMarkers && rhythmType !== "vf" && rhythmType !== "asystole") {
+      ctx.fillStyle = "#f8fafc"; // slate-50
+      for (let i = 1; i < buffer.length - 1; i++) {
+        const isPeak = buffer[i] > SYNC_R_THRESHOLD && buffer[i] > buffer[i - 1] && buffer[i] >= buffer[i + 1];
+        if (!isPeak) continue;
+        const x = (i / bufferSize) * width;
+        const y = Math.max(6, centerY - buffer[i] * scale - 4);
+        ctx.beginPath();
+        ctx.moveTo(x - 3, y - 5);
+        ctx.lineTo(x + 3, y - 5);
+        ctx.lineTo(x, y);
+        ctx.closePath();
+        ctx.fill();
+      }
+    }
+
     animationRef.current = requestAnimationFrame(draw);
-  }, [rhythmType, hr, width, height, bufferSize]);
+  }, [spec, rhythmType, isCritical, syncMarkers, width, height, bufferSize]);
 
   useEffect(() => {
     // Initialize buffer
@@ -302,23 +175,7 @@ export function RhythmWaveform({
     };
   }, [draw, bufferSize]);
 
-  const rhythmLabel = useMemo(() => {
-    switch (rhythmType) {
-      case "sinus": return "Sinus Rhythm";
-      case "sinus_tachycardia": return "Sinus Tachycardia";
-      case "sinus_bradycardia": return "Sinus Bradycardia";
-      case "svt": return "SVT";
-      case "vtach": return "V-Tach";
-      case "vfib": return "V-Fib";
-      case "afib": return "A-Fib";
-      case "asystole": return "Asystole";
-      case "pea": return "PEA";
-      case "heart_block": return "Heart Block";
-      default: return rhythmSummary || "Unknown";
-    }
-  }, [rhythmType, rhythmSummary]);
-
-  const isCritical = rhythmType === "vfib" || rhythmType === "asystole" || rhythmType === "vtach";
+  const rhythmLabel = RHYTHM_LABELS[rhythm?.code ?? "sinus"];
 
   return (
     <div
@@ -361,13 +218,13 @@ export function RhythmWaveform({
 }
 
 export function RhythmWaveformMini({
-  rhythmSummary,
+  rhythm,
   hr = 80,
   className = "",
-}: Pick<Props, "rhythmSummary" | "hr" | "className">) {
+}: Pick<Props, "rhythm" | "hr" | "className">) {
   return (
     <RhythmWaveform
-      rhythmSummary={rhythmSummary}
+      rhythm={rhythm}
       hr={hr}
       className={className}
       height={40}
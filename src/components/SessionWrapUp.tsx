@@ -8,6 +8,8 @@
 
 import React from "react";
 import { Question } from "../types";
+import { describeCorrectAnswer } from "../utils/questionFormat";
+import { getQuestionType } from "../utils/scoringUtils";
 import { TeamScore } from "../hooks/useTeamScores";
 import { IndividualScore } from "../hooks/useIndividualScores";
 
@@ -113,8 +115,11 @@ interface AnswerRecapCardProps {
 }
 
 const AnswerRecapCard: React.FC<AnswerRecapCardProps> = ({ question, index }) => {
-  const correctLetter = String.fromCharCode(65 + (question.correctIndex ?? 0));
-  const correctOption = question.options[question.correctIndex ?? 0];
+  const isSingle = getQuestionType(question) === "single";
+  const correctLetter = isSingle ? String.fromCharCode(65 + (question.correctIndex ?? 0)) : "Answer";
+  const correctOption = isSingle
+    ? question.options[question.correctIndex ?? 0]
+    : describeCorrectAnswer(question).replace(/^[^:]+:\s*/, "");
 
   return (
     <div className="bg-slate-900/60 border border-slate-800 rounded-xl px-4 py-3">
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useVitalsChange } from "../hooks/useVitalsChange";
 import { RhythmWaveform } from "./RhythmWaveform";
+import type { Rhythm } from "../types/voiceGateway";
 
 type Vitals = { hr?: number; bp?: string; rr?: number; spo2?: number; temp?: number };
 
@@ -8,14 +9,14 @@ type Props = {
   vitals: Vitals;
   telemetryWaveform?: number[];
   telemetryOn?: boolean;
-  rhythmSummary?: string;
+  rhythm?: Rhythm;
   useAnimatedWaveform?: boolean;
 };
 
 const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
 const clampSpo2 = (v?: number) => (typeof v === "number" ? Math.min(100, v) : undefined);
 
-export function VitalsMonitor({ vitals, telemetryWaveform, telemetryOn, rhythmSummary, useAnimatedWaveform = true }: Props) {
+export function VitalsMonitor({ vitals, telemetryWaveform, telemetryOn, rhythm, useAnimatedWaveform = true }: Props) {
   const [display, setDisplay] = useState<Vitals>({});
   const lastTarget = useRef<Vitals>({});
   const highlightedVitals = useVitalsChange(vitals);
@@ -71,7 +72,7 @@ export function VitalsMonitor({ vitals, telemetryWaveform, telemetryOn, rhythmSu
       </div>
       {telemetryOn && useAnimatedWaveform ? (
         <RhythmWaveform
-          rhythmSummary={rhythmSummary}
+          rhythm={rhythm}
           hr={vitals.hr}
           height={64}
           showLabel={true}
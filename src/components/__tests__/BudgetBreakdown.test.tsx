@@ -0,0 +1,26 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { BudgetBreakdown } from "../BudgetBreakdown";
+
+describe("BudgetBreakdown", () => {
+  test("lists billed modalities in a fixed order with call counts", () => {
+    render(
+      <BudgetBreakdown
+        breakdown={{
+          tts: { usd: 0.004, calls: 3 },
+          realtime: { usd: 0.4213, calls: 12 },
+          chat: { usd: 0, calls: 0 },
+        }}
+      />
+    );
+
+    expect(screen.getByLabelText("Cost breakdown")).toHaveTextContent("Voice $0.42 · Speech <$0.01");
+    expect(screen.getByText(/Voice/)).toHaveAttribute("title", "12 calls");
+    expect(screen.queryByText(/Chat/)).not.toBeInTheDocument();
+  });
+
+  test("renders nothing before anything is billed", () => {
+    const { container } = render(<BudgetBreakdown breakdown={{}} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+});
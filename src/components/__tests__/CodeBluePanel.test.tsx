@@ -0,0 +1,37 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { CodeBluePanel } from "../CodeBluePanel";
+import { createRhythm } from "../../../voice-gateway/src/sim/rhythm";
+
+describe("CodeBluePanel CPR reporting", () => {
+  beforeAll(() => {
+    (window as any).AudioContext = jest.fn(() => ({}));
+  });
+
+  test("reports compressions, tapped rate and compressor swaps", () => {
+    const onCprEvent = jest.fn();
+    const nowSpy = jest.spyOn(Date, "now");
+    let now = 1_000_000;
+    nowSpy.mockImplementation(() => now);
+
+    render(<CodeBluePanel rhythm={createRhythm("vf", 0, "VF")} onCprEvent={onCprEvent} />);
+    fireEvent.click(screen.getByText("START CODE"));
+    fireEvent.click(screen.getByText("Start Metronome"));
+    expect(onCprEvent).toHaveBeenLastCalledWith("start");
+
+    // 6 taps at 110/min: the fifth rate calculation is reported
+    for (let i = 0; i < 6; i++) {
+      fireEvent.click(screen.getByText("Tap"));
+      now += Math.round(60000 / 110);
+    }
+    expect(onCprEvent).toHaveBeenCalledWith("rate", 110);
+
+    fireEvent.click(screen.getByText("Swap Compressor"));
+    expect(onCprEvent).toHaveBeenLastCalledWith("swap");
+    expect(screen.getByText("1")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Stop Metronome"));
+    expect(onCprEvent).toHaveBeenLastCalledWith("pause");
+    nowSpy.mockRestore();
+  });
+});
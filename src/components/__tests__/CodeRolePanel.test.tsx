@@ -0,0 +1,38 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { CodeRolePanel } from "../participant/CodeRolePanel";
+import type { TeamMember } from "../../types/voiceGateway";
+
+const member = (userId: string, teamRole: TeamMember["teamRole"]): TeamMember => ({
+  userId,
+  name: userId,
+  teamRole,
+  assignedBy: "self",
+  since: 0,
+});
+
+describe("CodeRolePanel", () => {
+  test("claims an open role or the first open one", () => {
+    const onClaim = jest.fn();
+    render(<CodeRolePanel members={[member("Ana", "team_leader")]} userId="me" onClaim={onClaim} />);
+
+    expect(screen.getByText("Ana").closest("button")).toBeDisabled();
+    fireEvent.click(screen.getByText("Airway"));
+    expect(onClaim).toHaveBeenLastCalledWith("airway");
+    fireEvent.click(screen.getByText("Assign me"));
+    expect(onClaim).toHaveBeenLastCalledWith("auto");
+  });
+
+  test("offers only the orders in the participant's role", () => {
+    const onOrder = jest.fn();
+    const onClaim = jest.fn();
+    render(<CodeRolePanel members={[member("me", "medications")]} userId="me" onClaim={onClaim} onOrder={onOrder} />);
+
+    expect(screen.getByText("You")).toBeInTheDocument();
+    expect(screen.queryByText("EKG")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText("Labs"));
+    expect(onOrder).toHaveBeenLastCalledWith("labs");
+    fireEvent.click(screen.getByText("Step down"));
+    expect(onClaim).toHaveBeenLastCalledWith(null);
+  });
+});
@@ -0,0 +1,49 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { DefibrillatorPanel } from "../participant/DefibrillatorPanel";
+import { createDefibrillator } from "../../../voice-gateway/src/sim/defibrillator";
+import { createRhythm } from "../../../voice-gateway/src/sim/rhythm";
+
+describe("DefibrillatorPanel", () => {
+  beforeAll(() => {
+    jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+  });
+
+  const svt = createRhythm("svt", 240, "SVT");
+
+  test("sends structured actions and shows the J/kg readout", () => {
+    const onAction = jest.fn();
+    const device = { ...createDefibrillator(true), energyJ: 30 };
+    render(<DefibrillatorPanel device={device} weightKg={50} rhythm={svt} hr={240} onAction={onAction} />);
+
+    expect(screen.getByText("0.6 J/kg")).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText("Energy"), { target: { value: "50" } });
+    expect(onAction).toHaveBeenLastCalledWith("set_energy", { energyJ: 50 });
+    fireEvent.click(screen.getByText("Sync OFF"));
+    expect(onAction).toHaveBeenLastCalledWith("set_sync", { sync: true });
+    fireEvent.click(screen.getByText("Charge"));
+    expect(onAction).toHaveBeenLastCalledWith("charge");
+    expect(screen.getByText("Shock")).toBeDisabled();
+  });
+
+  test("walks the charge - clear - shock sequence", () => {
+    const onAction = jest.fn();
+    const device = { ...createDefibrillator(true), charged: true, cleared: true };
+    render(<DefibrillatorPanel device={device} prompt="Charged to 1 J." onAction={onAction} />);
+
+    expect(screen.getByRole("status")).toHaveTextContent("Charged to 1 J.");
+    expect(screen.getByText("All clear")).toBeDisabled();
+    fireEvent.click(screen.getByText("Shock"));
+    expect(onAction).toHaveBeenLastCalledWith("shock");
+  });
+
+  test("needs pads before charging or pacing", () => {
+    const onAction = jest.fn();
+    render(<DefibrillatorPanel onAction={onAction} />);
+
+    expect(screen.getByText("Charge")).toBeDisabled();
+    expect(screen.getByText("Start pacing")).toBeDisabled();
+    fireEvent.click(screen.getByText("Place pads"));
+    expect(onAction).toHaveBeenLastCalledWith("pads_on");
+  });
+});
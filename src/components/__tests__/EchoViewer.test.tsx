@@ -0,0 +1,45 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { EchoViewer } from "../EchoViewer";
+import { buildEchoReport, type EchoProfile } from "../../../voice-gateway/src/sim/echoReports";
+
+const KAWASAKI: EchoProfile = {
+  values: { lvef: 58, coronaries: { lmca: 1.8, lad: 2.3, rca: 2.1 } },
+  stages: {
+    stage_2_incomplete: {
+      impression: "Small LAD aneurysm; incomplete Kawasaki disease with coronary involvement.",
+      coronaries: { lmca: 2.2, lad: 3.2, rca: 2.4 },
+    },
+  },
+};
+
+const COARCTATION: EchoProfile = {
+  values: { impression: "Severe discrete coarctation with depressed LV function.", lvef: 30, coarctationGradientMmHg: 25 },
+};
+
+describe("EchoViewer", () => {
+  test("renders the report sections and Kawasaki coronary z-scores", () => {
+    const onClose = jest.fn();
+    render(<EchoViewer report={{ ...buildEchoReport(KAWASAKI, ["stage_2_incomplete"]), media: [] }} onClose={onClose} />);
+
+    expect(screen.getByText(/Small LAD aneurysm/)).toBeInTheDocument();
+    expect(screen.getByText("58% (normal)")).toBeInTheDocument();
+    expect(screen.getByText("3.2")).toBeInTheDocument();
+    expect(screen.getByText("Small aneurysm")).toBeInTheDocument();
+    expect(screen.queryByText("Coarctation gradient")).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Close"));
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  test("shows the coarctation gradient and any shipped media", () => {
+    const report = {
+      ...buildEchoReport(COARCTATION, ["stage_1_shock"]),
+      media: [{ kind: "still" as const, url: "/images/echo/coarct.png", caption: "Suprasternal arch" }],
+    };
+    render(<EchoViewer report={report} onClose={() => {}} />);
+
+    expect(screen.getByText("25 mmHg")).toBeInTheDocument();
+    expect(screen.getByAltText("Suprasternal arch")).toHaveAttribute("src", "/images/echo/coarct.png");
+  });
+});
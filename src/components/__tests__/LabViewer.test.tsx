@@ -0,0 +1,46 @@
+import React from "react";
+import { render, screen } from "@testing-library/react";
+import { LabViewer } from "../LabViewer";
+import { buildLabTrends, trendArrow, type LabOrder } from "../../utils/labTrends";
+
+function troponinOrder(id: string, completedAt: number, value: number): LabOrder {
+  return {
+    id,
+    type: "labs",
+    status: "complete",
+    completedAt,
+    result: {
+      labs: [
+        {
+          panel: "troponin",
+          label: "Troponin",
+          values: [{ id: "troponin_i", label: "Troponin I", value, unit: "ng/mL", refLow: 0, refHigh: 0.04, flag: "H" }],
+        },
+      ],
+    },
+  };
+}
+
+describe("LabViewer", () => {
+  const orders: LabOrder[] = [
+    troponinOrder("second", 2_000, 7.9),
+    troponinOrder("first", 1_000, 2.6),
+    { id: "pending", type: "labs", status: "pending" },
+  ];
+
+  test("lines repeated draws up oldest first", () => {
+    const [trend] = buildLabTrends(orders);
+    expect(trend.draws.map((d) => d.orderId)).toEqual(["first", "second"]);
+    expect(trendArrow(trend.draws, "troponin_i")).toBe("↑");
+    expect(trendArrow(trend.draws.slice(0, 1), "troponin_i")).toBeNull();
+  });
+
+  test("renders a results table with flags and the reference range", () => {
+    render(<LabViewer orders={orders} onClose={() => {}} />);
+    expect(screen.getByText("Troponin I")).toBeInTheDocument();
+    expect(screen.getByText("2.6")).toBeInTheDocument();
+    expect(screen.getByText("7.9")).toBeInTheDocument();
+    expect(screen.getByText("↑")).toBeInTheDocument();
+    expect(screen.getByText(/<0.04 ng\/mL/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Code-team roles for participant view.
+ * Shows who holds each resuscitation role, lets the participant claim an open
+ * role (or take the first open one) and step down, and offers the orders the
+ * participant's role covers. The gateway owns the roster.
+ */
+
+import React from "react";
+import { SectionLabel } from "../ui";
+import {
+  TEAM_ROLES,
+  TEAM_ROLE_LABELS,
+  TEAM_ROLE_SCOPES,
+  type TeamOrderType,
+} from "../../../voice-gateway/src/sim/teamRoles";
+import type { TeamMember, TeamRole } from "../../types/voiceGateway";
+
+export interface CodeRolePanelProps {
+  members: TeamMember[];
+  userId: string | null;
+  onClaim: (teamRole: TeamRole | "auto" | null) => void;
+  /** Place an order within the participant's role */
+  onOrder?: (orderType: TeamOrderType) => void;
+  compact?: boolean;
+}
+
+const ORDER_LABELS: Record<TeamOrderType, string> = {
+  vitals: "Vitals",
+  ekg: "EKG",
+  labs: "Labs",
+  imaging: "CXR",
+  echo: "Echo",
+  cardiac_exam: "Cardiac exam",
+  lung_exam: "Lung exam",
+  general_exam: "General exam",
+  iv_access: "IV access",
+};
+
+const BUTTON = "px-2.5 py-1 rounded-lg border text-[11px] transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+export function CodeRolePanel({ members, userId, onClaim, onOrder, compact = false }: CodeRolePanelProps) {
+  const myRole = members.find((m) => m.userId === userId)?.teamRole;
+  const allTaken = members.length >= TEAM_ROLES.length;
+
+  return (
+    <div className={`mt-2 bg-slate-900/60 border border-slate-700 rounded-lg ${compact ? "p-2" : "p-3"} space-y-2`}>
+      <div className="flex items-center justify-between">
+        <SectionLabel>Code team</SectionLabel>
+        {myRole ? (
+          <button type="button" onClick={() => onClaim(null)} className="text-[11px] text-slate-400 hover:text-slate-200">
+            Step down
+          </button>
+        ) : (
+          <button
+            type="button"
+            disabled={allTaken}
+            onClick={() => onClaim("auto")}
+            className="text-[11px] text-sky-300 hover:text-sky-200 disabled:opacity-40"
+          >
+            Assign me
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-1.5">
+        {TEAM_ROLES.map((role) => {
+          const holder = members.find((m) => m.teamRole === role);
+          const mine = role === myRole;
+          return (
+            <button
+              key={role}
+              type="button"
+              aria-pressed={mine}
+              disabled={!!holder && !mine}
+              onClick={() => !mine && onClaim(role)}
+              className={`${BUTTON} text-left ${
+                mine
+                  ? "bg-sky-600/20 border-sky-500/60 text-sky-100"
+                  : "bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500"
+              }`}
+            >
+              <div className="font-semibold">{TEAM_ROLE_LABELS[role]}</div>
+              <div className="text-[10px] text-slate-400 truncate">{mine ? "You" : holder?.name ?? "Open"}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {myRole && onOrder && TEAM_ROLE_SCOPES[myRole].orders.length > 0 && (
+        <div className="pt-2 border-t border-slate-800/60">
+          <div className="text-[10px] uppercase tracking-[0.14em] text-slate-500 font-semibold mb-1.5">Your orders</div>
+          <div className="flex flex-wrap gap-1.5">
+            {TEAM_ROLE_SCOPES[myRole].orders.map((orderType) => (
+              <button
+                key={orderType}
+                type="button"
+                onClick={() => onOrder(orderType)}
+                className={`${BUTTON} bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500`}
+              >
+                {ORDER_LABELS[orderType]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+/**
+ * Defibrillator / monitor for participant view.
+ * Pads, energy with a J/kg readout, sync with markers on the strip, the
+ * charge - clear - shock sequence and transcutaneous pacing. Every control
+ * sends a structured action; the gateway owns the device state.
+ */
+
+import React from "react";
+import { SectionLabel } from "../ui";
+import { RhythmWaveform } from "../RhythmWaveform";
+import {
+  DEFIB_ENERGY_STEPS,
+  PACING_CURRENT_RANGE,
+  PACING_RATE_RANGE,
+  createDefibrillator,
+} from "../../../voice-gateway/src/sim/defibrillator";
+import type { DefibAction, DefibActionParams, DefibrillatorState, Rhythm } from "../../types/voiceGateway";
+
+export interface DefibrillatorPanelProps {
+  /** Device state from the last defib_state message; a powered-on default before the first action */
+  device?: DefibrillatorState;
+  weightKg?: number;
+  prompt?: string;
+  rhythm?: Rhythm;
+  hr?: number;
+  onAction: (action: DefibAction, params?: DefibActionParams) => void;
+  onClose?: () => void;
+}
+
+const BUTTON = "px-3 py-1.5 rounded-lg border text-xs font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+export function DefibrillatorPanel({
+  device = createDefibrillator(),
+  weightKg,
+  prompt,
+  rhythm,
+  hr,
+  onAction,
+  onClose,
+}: DefibrillatorPanelProps) {
+  const joulesPerKg = weightKg ? (device.energyJ / weightKg).toFixed(1) : null;
+  const { pacing } = device;
+
+  return (
+    <div className="mt-2 bg-slate-950/70 border border-slate-800 rounded-lg p-3 text-sm text-slate-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <SectionLabel>Defibrillator</SectionLabel>
+        {onClose && (
+          <button type="button" onClick={onClose} className="text-[11px] text-slate-400 hover:text-slate-200">
+            Close
+          </button>
+        )}
+      </div>
+
+      <RhythmWaveform rhythm={rhythm} hr={hr} height={56} syncMarkers={device.sync} />
+
+      {prompt && (
+        <div role="status" className="text-[11px] font-mono text-amber-200 bg-amber-900/30 border border-amber-800/60 rounded px-2 py-1">
+          {prompt}
+        </div>
+      )}
+
+      {/* Pads and sync */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => onAction(device.padsOn ? "pads_off" : "pads_on")}
+          className={`${BUTTON} ${
+            device.padsOn
+              ? "bg-emerald-600/20 border-emerald-500/60 text-emerald-200"
+              : "bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500"
+          }`}
+        >
+          {device.padsOn ? "Pads on" : "Place pads"}
+        </button>
+        <button
+          type="button"
+          aria-pressed={device.sync}
+          onClick={() => onAction("set_sync", { sync: !device.sync })}
+          className={`${BUTTON} ${
+            device.sync
+              ? "bg-sky-600/20 border-sky-500/60 text-sky-200"
+              : "bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500"
+          }`}
+        >
+          Sync {device.sync ? "ON" : "OFF"}
+        </button>
+        <span className="text-[11px] text-slate-500">Shocks: {device.shockCount}</span>
+      </div>
+
+      {/* Energy */}
+      <label className="flex items-center gap-2 text-xs text-slate-300">
+        Energy
+        <select
+          aria-label="Energy"
+          value={device.energyJ}
+          onChange={(e) => onAction("set_energy", { energyJ: Number(e.target.value) })}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-100"
+        >
+          {DEFIB_ENERGY_STEPS.map((step) => (
+            <option key={step} value={step}>
+              {step} J
+            </option>
+          ))}
+        </select>
+        {joulesPerKg && <span className="text-slate-400">{joulesPerKg} J/kg</span>}
+      </label>
+
+      {/* Charge - clear - shock */}
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={!device.padsOn || device.charged}
+          onClick={() => onAction("charge")}
+          className={`${BUTTON} bg-amber-600/20 border-amber-500/60 text-amber-200 hover:bg-amber-600/30`}
+        >
+          {device.charged ? `Charged ${device.energyJ} J` : "Charge"}
+        </button>
+        <button
+          type="button"
+          disabled={!device.charged || device.cleared}
+          onClick={() => onAction("clear")}
+          className={`${BUTTON} bg-slate-800/60 border-slate-600 text-slate-100 hover:border-slate-400`}
+        >
+          {device.cleared ? "All clear" : "Clear"}
+        </button>
+        <button
+          type="button"
+          disabled={!device.charged}
+          onClick={() => onAction("shock")}
+          className={`${BUTTON} bg-red-600/30 border-red-500/70 text-red-100 hover:bg-red-600/40 ${device.charged ? "animate-pulse" : ""}`}
+        >
+          Shock
+        </button>
+        {device.charged && (
+          <button
+            type="button"
+            onClick={() => onAction("disarm")}
+            className="text-[11px] text-slate-400 hover:text-slate-200 underline"
+          >
+            Disarm
+          </button>
+        )}
+      </div>
+
+      {/* Pacing */}
+      <div className="pt-2 border-t border-slate-800/60 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-[11px] uppercase tracking-[0.14em] text-slate-500 font-semibold">Pacer</span>
+          {pacing.active && (
+            <span className={`text-[11px] ${pacing.capture ? "text-emerald-300" : "text-amber-300"}`}>
+              {pacing.capture ? "Capture" : "No capture"}
+            </span>
+          )}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-slate-300">
+          <label className="flex items-center gap-1">
+            Rate
+            <input
+              type="number"
+              aria-label="Pacing rate"
+              min={PACING_RATE_RANGE.min}
+              max={PACING_RATE_RANGE.max}
+              step={5}
+              value={pacing.rateBpm}
+              onChange={(e) => onAction("set_pacing", { rateBpm: Number(e.target.value) })}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-slate-100"
+            />
+            /min
+          </label>
+          <label className="flex items-center gap-1">
+            Output
+            <input
+              type="number"
+              aria-label="Pacing output"
+              min={PACING_CURRENT_RANGE.min}
+              max={PACING_CURRENT_RANGE.max}
+              step={5}
+              value={pacing.currentMa}
+              onChange={(e) => onAction("set_pacing", { currentMa: Number(e.target.value) })}
+              className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-slate-100"
+            />
+            mA
+          </label>
+          <button
+            type="button"
+            disabled={!device.padsOn && !pacing.active}
+            onClick={() => onAction(pacing.active ? "pace_stop" : "pace_start")}
+            className={`${BUTTON} ${
+              pacing.active
+                ? "bg-sky-600/20 border-sky-500/60 text-sky-200"
+                : "bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500"
+            }`}
+          >
+            {pacing.active ? "Stop pacing" : "Start pacing"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,24 @@
 /**
  * Question section for participant view.
- * Displays MCQ with answer options, scoring info, and results.
+ * Single-choice questions answer on tap; multi-select, ordering, numeric and
+ * free-text questions collect an answer locally and submit it with a button.
  */
 
-import React from "react";
-import { Question } from "../../types";
+import React, { useState } from "react";
+import { Question, ResponseAnswer } from "../../types";
+import { getQuestionType } from "../../utils/scoringUtils";
+import { describeCorrectAnswer, getInitialOrder } from "../../utils/questionFormat";
 
 export interface QuestionSectionProps {
   question: Question;
   isActive: boolean;
   showResults: boolean;
   selectedChoice: number | null;
+  submittedAnswer?: ResponseAnswer | null;
   submitting: boolean;
   submitError: string | null;
   onSelectChoice: (index: number) => void;
+  onSubmitAnswer?: (answer: ResponseAnswer) => void;
 }
 
 export function QuestionSection({
@@ -21,10 +26,15 @@ export function QuestionSection({
   isActive,
   showResults,
   selectedChoice,
+  submittedAnswer = null,
   submitting,
   submitError,
   onSelectChoice,
+  onSubmitAnswer = () => {},
 }: QuestionSectionProps) {
+  const questionType = getQuestionType(question);
+  const disabled = submitting || !isActive;
+  const hasAnswer = questionType === "single" ? selectedChoice !== null : submittedAnswer !== null;
   return (
     <section id="question-section" className="scroll-mt-20 animate-slide-up">
       <div className="sr-only" aria-live="polite">
@@ -55,30 +65,68 @@ export function QuestionSection({
         <p className="text-sm font-semibold mb-4 leading-relaxed">
           {question.stem}
         </p>
-        <div className="grid grid-cols-1 gap-3 relative z-10">
-          {question.options.map((opt, i) => (
-            <AnswerButton
-              key={i}
-              index={i}
-              text={opt}
-              isSelected={selectedChoice === i}
-              isCorrect={showResults && i === question.correctIndex}
-              disabled={submitting || (!isActive && !showResults)}
-              onClick={() => onSelectChoice(i)}
-            />
-          ))}
-        </div>
+        {questionType === "single" && (
+          <div className="grid grid-cols-1 gap-3 relative z-10">
+            {question.options.map((opt, i) => (
+              <AnswerButton
+                key={i}
+                index={i}
+                text={opt}
+                isSelected={selectedChoice === i}
+                isCorrect={showResults && i === question.correctIndex}
+                disabled={submitting || (!isActive && !showResults)}
+                onClick={() => onSelectChoice(i)}
+              />
+            ))}
+          </div>
+        )}
+        {questionType === "multi" && (
+          <MultiSelectInput
+            key={question.id}
+            question={question}
+            initial={submittedAnswer?.choiceIndices}
+            showResults={showResults}
+            disabled={disabled}
+            onSubmit={onSubmitAnswer}
+          />
+        )}
+        {questionType === "ordering" && (
+          <OrderingInput
+            key={question.id}
+            question={question}
+            initial={submittedAnswer?.order}
+            disabled={disabled}
+            onSubmit={onSubmitAnswer}
+          />
+        )}
+        {questionType === "numeric" && (
+          <NumericInput
+            key={question.id}
+            unit={question.numericAnswer?.unit}
+            initial={submittedAnswer?.numericValue}
+            disabled={disabled}
+            onSubmit={onSubmitAnswer}
+          />
+        )}
+        {questionType === "freeText" && (
+          <FreeTextInput
+            key={question.id}
+            initial={submittedAnswer?.text}
+            disabled={disabled}
+            onSubmit={onSubmitAnswer}
+          />
+        )}
 
         {showResults && (
           <div className="mt-4 p-3 bg-emerald-900/20 border border-emerald-900/50 rounded-lg animate-fade-in">
-            <p className="text-xs text-emerald-400 font-semibold">
-              Correct Answer: {String.fromCharCode(65 + (question.correctIndex ?? 0))}
+            <p className="text-xs text-emerald-400 font-semibold" data-testid="correct-answer">
+              {describeCorrectAnswer(question)}
             </p>
           </div>
         )}
 
         <StatusIndicator
-          selectedChoice={selectedChoice}
+          hasAnswer={hasAnswer}
           showResults={showResults}
           isActive={isActive}
         />
@@ -100,6 +148,7 @@ interface AnswerButtonProps {
   isCorrect: boolean;
   disabled: boolean;
   onClick: () => void;
+  pressed?: boolean; // multi-select toggles expose aria-pressed
 }
 
 function AnswerButton({
@@ -109,6 +158,7 @@ function AnswerButton({
   isCorrect,
   disabled,
   onClick,
+  pressed,
 }: AnswerButtonProps) {
   const motionAware = "transform-gpu transition-transform";
   let btnClass = "border-slate-700 bg-slate-900/80 hover:bg-slate-800/80";
@@ -129,6 +179,7 @@ function AnswerButton({
       data-testid={`answer-option-${index}`}
       disabled={disabled}
       onClick={onClick}
+      aria-pressed={pressed}
       className={`w-full text-left rounded-xl border px-4 py-3 text-base sm:text-lg transition-all duration-200 relative overflow-hidden group whitespace-normal break-words leading-tight shadow-sm ${btnClass}`}
     >
       <div className="flex items-start gap-3 relative z-10">
@@ -146,15 +197,15 @@ function AnswerButton({
 }
 
 interface StatusIndicatorProps {
-  selectedChoice: number | null;
+  hasAnswer: boolean;
   showResults: boolean;
   isActive: boolean;
 }
 
-function StatusIndicator({ selectedChoice, showResults, isActive }: StatusIndicatorProps) {
+function StatusIndicator({ hasAnswer, showResults, isActive }: StatusIndicatorProps) {
   return (
     <div className="mt-4 flex justify-center">
-      {selectedChoice !== null && !showResults && (
+      {hasAnswer && !showResults && (
         <div className="inline-flex items-center gap-2 px-3 py-1 bg-sky-900/40 border border-sky-800 rounded-full text-xs text-sky-300 font-medium animate-fade-in">
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -182,6 +233,185 @@ function StatusIndicator({ selectedChoice, showResults, isActive }: StatusIndica
   );
 }
 
+interface AnswerInputProps {
+  key?: React.Key;
+  disabled: boolean;
+  onSubmit: (answer: ResponseAnswer) => void;
+}
+
+function SubmitButton({ disabled, label = "Submit Answer" }: { disabled: boolean; label?: string }) {
+  return (
+    <button
+      type="submit"
+      data-testid="submit-answer"
+      disabled={disabled}
+      className="w-full rounded-xl bg-sky-600 hover:bg-sky-500 px-4 py-2.5 text-sm font-semibold text-white disabled:opacity-60 disabled:cursor-not-allowed"
+    >
+      {label}
+    </button>
+  );
+}
+
+function MultiSelectInput({
+  question,
+  initial,
+  showResults,
+  disabled,
+  onSubmit,
+}: AnswerInputProps & { question: Question; initial?: number[]; showResults: boolean }) {
+  const [picked, setPicked] = useState<number[]>(initial ?? []);
+  const correct = new Set(question.correctIndices ?? []);
+  const toggle = (i: number) =>
+    setPicked((prev) => (prev.includes(i) ? prev.filter((idx) => idx !== i) : [...prev, i].sort((a, b) => a - b)));
+
+  return (
+    <form
+      className="space-y-3 relative z-10"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ choiceIndices: picked });
+      }}
+    >
+      <p className="text-[11px] uppercase tracking-wider text-slate-500">Select all that apply</p>
+      <div className="grid grid-cols-1 gap-3" role="group" aria-label="Answer options">
+        {question.options.map((opt, i) => (
+          <AnswerButton
+            key={i}
+            index={i}
+            text={opt}
+            isSelected={picked.includes(i)}
+            isCorrect={showResults && correct.has(i)}
+            disabled={disabled}
+            onClick={() => toggle(i)}
+            pressed={picked.includes(i)}
+          />
+        ))}
+      </div>
+      <SubmitButton disabled={disabled || picked.length === 0} />
+    </form>
+  );
+}
+
+function OrderingInput({
+  question,
+  initial,
+  disabled,
+  onSubmit,
+}: AnswerInputProps & { question: Question; initial?: number[] }) {
+  const [order, setOrder] = useState<number[]>(() =>
+    initial && initial.length === question.options.length ? initial : getInitialOrder(question)
+  );
+  const move = (position: number, delta: number) =>
+    setOrder((prev) => {
+      const target = position + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[position], next[target]] = [next[target], next[position]];
+      return next;
+    });
+
+  return (
+    <form
+      className="space-y-3 relative z-10"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ order });
+      }}
+    >
+      <p className="text-[11px] uppercase tracking-wider text-slate-500">Put these in order</p>
+      <ol className="space-y-2">
+        {order.map((optionIndex, position) => (
+          <li
+            key={optionIndex}
+            data-testid={`order-item-${position}`}
+            className="flex items-center gap-3 rounded-xl border border-slate-700 bg-slate-900/80 px-3 py-2"
+          >
+            <span className="flex-shrink-0 w-6 h-6 rounded bg-slate-800 text-slate-300 flex items-center justify-center text-xs font-bold">
+              {position + 1}
+            </span>
+            <span className="flex-1 text-sm leading-snug">{question.options[optionIndex]}</span>
+            <button
+              type="button"
+              aria-label={`Move "${question.options[optionIndex]}" up`}
+              disabled={disabled || position === 0}
+              onClick={() => move(position, -1)}
+              className="px-2 py-1 rounded border border-slate-700 text-xs disabled:opacity-40"
+            >
+              ↑
+            </button>
+            <button
+              type="button"
+              aria-label={`Move "${question.options[optionIndex]}" down`}
+              disabled={disabled || position === order.length - 1}
+              onClick={() => move(position, 1)}
+              className="px-2 py-1 rounded border border-slate-700 text-xs disabled:opacity-40"
+            >
+              ↓
+            </button>
+          </li>
+        ))}
+      </ol>
+      <SubmitButton disabled={disabled} />
+    </form>
+  );
+}
+
+function NumericInput({ unit, initial, disabled, onSubmit }: AnswerInputProps & { unit?: string; initial?: number }) {
+  const [value, setValue] = useState(initial != null ? String(initial) : "");
+  const parsed = Number(value);
+  const valid = value.trim() !== "" && Number.isFinite(parsed);
+
+  return (
+    <form
+      className="space-y-3 relative z-10"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (valid) onSubmit({ numericValue: parsed });
+      }}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          inputMode="decimal"
+          step="any"
+          aria-label="Numeric answer"
+          value={value}
+          disabled={disabled}
+          onChange={(e) => setValue(e.target.value)}
+          className="flex-1 rounded-xl border border-slate-700 bg-slate-950 px-4 py-3 text-base"
+        />
+        {unit && <span className="text-sm text-slate-400">{unit}</span>}
+      </div>
+      <SubmitButton disabled={disabled || !valid} />
+    </form>
+  );
+}
+
+function FreeTextInput({ initial, disabled, onSubmit }: AnswerInputProps & { initial?: string }) {
+  const [text, setText] = useState(initial ?? "");
+
+  return (
+    <form
+      className="space-y-3 relative z-10"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (text.trim()) onSubmit({ text: text.trim() });
+      }}
+    >
+      <input
+        type="text"
+        aria-label="Your answer"
+        maxLength={280}
+        value={text}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        className="w-full rounded-xl border border-slate-700 bg-slate-950 px-4 py-3 text-base"
+      />
+      <SubmitButton disabled={disabled || !text.trim()} />
+    </form>
+  );
+}
+
 export function QuestionPlaceholder() {
   return (
     <div className="py-8 text-center text-slate-500 text-sm bg-slate-900/50 rounded-xl border border-slate-900 border-dashed">
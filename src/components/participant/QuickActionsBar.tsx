@@ -1,9 +1,11 @@
 /**
  * Quick action buttons for participant voice panel.
- * Provides one-tap access to common commands: Exam, Telemetry, View EKG.
+ * Provides one-tap access to common commands: Exam, Telemetry, View EKG, Defibrillator.
+ * With a code-team role, only the actions in that role's scope are offered.
  */
 
 import React from "react";
+import type { BedsideAction } from "../../types/voiceGateway";
 
 export interface QuickActionsBarProps {
   sessionId: string;
@@ -16,6 +18,10 @@ export interface QuickActionsBarProps {
   onRequestExam: () => void;
   onRequestTelemetry: () => void;
   onViewEkg: () => void;
+  showDefib?: boolean;
+  onToggleDefib?: () => void;
+  /** Actions the participant's code-team role covers; all when unset */
+  allowedActions?: readonly BedsideAction[];
 }
 
 function Spinner() {
@@ -37,9 +43,18 @@ export function QuickActionsBar({
   onRequestExam,
   onRequestTelemetry,
   onViewEkg,
+  showDefib = false,
+  onToggleDefib,
+  allowedActions,
 }: QuickActionsBarProps) {
+  const allowed = (action: BedsideAction) => !allowedActions || allowedActions.includes(action);
+  const examVisible = !showExam && allowed("exam");
+  const telemetryVisible = !hasTelemetry && allowed("telemetry");
+  const ekgVisible = hasEkg && !showEkg && allowed("ekg");
+  const defibVisible = !!onToggleDefib && allowed("defib");
+
   // Don't render if all actions are unavailable
-  if (showExam && hasTelemetry && (!hasEkg || showEkg)) {
+  if (!examVisible && !telemetryVisible && !ekgVisible && !defibVisible) {
     return null;
   }
 
@@ -50,7 +65,7 @@ export function QuickActionsBar({
       </div>
       <div className="flex flex-wrap gap-2">
         {/* Request Exam */}
-        {!showExam && (
+        {examVisible && (
           <button
             type="button"
             onClick={onRequestExam}
@@ -74,7 +89,7 @@ export function QuickActionsBar({
         )}
 
         {/* Request Telemetry */}
-        {!hasTelemetry && (
+        {telemetryVisible && (
           <button
             type="button"
             onClick={onRequestTelemetry}
@@ -93,7 +108,7 @@ export function QuickActionsBar({
         )}
 
         {/* View EKG (highlighted when available) */}
-        {hasEkg && !showEkg && (
+        {ekgVisible && (
           <button
             type="button"
             onClick={onViewEkg}
@@ -105,6 +120,26 @@ export function QuickActionsBar({
             View EKG
           </button>
         )}
+
+        {/* Defibrillator */}
+        {defibVisible && (
+          <button
+            type="button"
+            onClick={onToggleDefib}
+            aria-pressed={showDefib}
+            className={`px-3 py-1.5 rounded-lg border text-xs transition-colors flex items-center gap-1.5 ${
+              showDefib
+                ? "bg-red-600/20 border-red-500/60 text-red-200"
+                : "bg-slate-800/60 border-slate-700 text-slate-200 hover:border-slate-500 hover:bg-slate-800"
+            }`}
+          >
+            <svg className="w-3.5 h-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M12 21s-7-4.5-9-9.5C1.5 7.5 4 4 7.5 4c2 0 3.5 1.2 4.5 2.5C13 5.2 14.5 4 16.5 4 20 4 22.5 7.5 21 11.5c-2 5-9 9.5-9 9.5z" strokeLinejoin="round" />
+              <path d="M12 8l-2 4h4l-2 4" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+            Defib
+          </button>
+        )}
       </div>
     </div>
   );
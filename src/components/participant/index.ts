@@ -18,6 +18,12 @@ export type { ParticipantHeaderProps, ParticipantHeaderVitals } from "./Particip
 export { QuestionSection, QuestionPlaceholder } from "./QuestionSection";
 export type { QuestionSectionProps } from "./QuestionSection";
 
+export { DefibrillatorPanel } from "./DefibrillatorPanel";
+export type { DefibrillatorPanelProps } from "./DefibrillatorPanel";
+
+export { CodeRolePanel } from "./CodeRolePanel";
+export type { CodeRolePanelProps } from "./CodeRolePanel";
+
 // Re-export ParticipantOrdersPanel from parent directory
 export { ParticipantOrdersPanel } from "../ParticipantOrdersPanel";
 export type { ParticipantOrdersPanelProps, Order, OrderResult } from "../ParticipantOrdersPanel";
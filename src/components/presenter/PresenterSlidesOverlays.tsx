@@ -90,8 +90,7 @@ export function PresenterSlidesOverlays({
             <ResponsesChart
               sessionId={sessionId}
               questionId={currentQuestion.id}
-              options={currentQuestion.options}
-              correctIndex={currentQuestion.correctIndex ?? 0}
+              question={currentQuestion}
               showResults={isShowingResults}
               mode="presenter"
             />
@@ -9,11 +9,12 @@ import {
   PatientScenarioId,
   VoiceConnectionStatus,
   CharacterId,
+  Rhythm,
 } from "../types/voiceGateway";
 import type { Interventions } from "../components/PatientStatusOutline";
 
 /** Order type from the simulation */
-export type SimOrderType = "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+export type SimOrderType = "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
 
 /** Order from the simulation */
 export interface SimOrder {
@@ -84,6 +85,7 @@ export interface SimState {
   interventions?: Interventions;
   telemetry?: boolean;
   rhythmSummary?: string;
+  rhythm?: Rhythm;
   telemetryWaveform?: number[];
   fallback: boolean;
   voiceFallback?: boolean;
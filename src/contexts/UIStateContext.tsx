@@ -52,6 +52,7 @@ export interface UIStateContextValue {
 export interface EkgOrderView {
   imageUrl?: string;
   summary?: string;
+  hr?: number;
   timestamp?: number;
   orderedBy?: { name: string };
 }
@@ -0,0 +1,58 @@
+import type { DeckData, Slide } from "../types";
+import { defaultDeck } from "./ductalDeck";
+import { case1Deck } from "./case1Deck";
+import { case2Deck } from "./case2Deck";
+import { case3Deck } from "./case3Deck";
+import { case4Deck } from "./case4Deck";
+import { case5Deck } from "./case5Deck";
+import { case6Deck } from "./case6Deck";
+import { case7Deck } from "./case7Deck";
+import { case8Deck } from "./case8Deck";
+import { case9Deck } from "./case9Deck";
+import { case10Deck } from "./case10Deck";
+import { case11Deck } from "./case11Deck";
+
+/**
+ * Decks that ship with the app source. These seed the Firestore deck library
+ * (decks/{id}) and back the picker in Local Demo mode. The full series is the
+ * default deck; each case is also available on its own.
+ */
+
+export type BundledDeck = {
+  id: string;
+  deck: DeckData;
+};
+
+export const DEFAULT_DECK_ID = "default";
+
+const caseSources: Array<{ id: string; title: string; slides: Slide[] }> = [
+  { id: "case1", title: "Ten-year-old girl with radial anomalies and a cardiac murmur", slides: case1Deck },
+  { id: "case2", title: "1-year-old boy with URI symptoms and developmental delay", slides: case2Deck },
+  { id: "case3", title: "7-year-old girl with systolic murmur and growth restriction", slides: case3Deck },
+  { id: "case4", title: "3-year-old with seizures and hypopigmented macules", slides: case4Deck },
+  { id: "case5", title: "18-year-old male with skeletal findings and click/murmur", slides: case5Deck },
+  { id: "case6", title: "4-month-old dysmorphic boy with holosystolic murmur", slides: case6Deck },
+  { id: "case7", title: "Female infant with single umbilical artery and murmur", slides: case7Deck },
+  { id: "case8", title: "6-year-old short boy with click and SEM at LUSB", slides: case8Deck },
+  { id: "case9", title: "15-day-old boy with failure to thrive", slides: case9Deck },
+  { id: "case10", title: "12-year-old with long QT and family history of syncope/drowning", slides: case10Deck },
+  { id: "case11", title: "Infant with macroglossia, hypotonia, cardiomegaly", slides: case11Deck },
+];
+
+function buildCaseDeck(caseNumber: number, title: string, slides: Slide[]): DeckData {
+  const questionIds = new Set(slides.map((slide) => slide.questionId).filter(Boolean));
+  return {
+    title: `Case ${caseNumber}: ${title}`,
+    slides: slides.map((slide, index) => ({ ...slide, index })),
+    questions: defaultDeck.questions.filter((question) => questionIds.has(question.id)),
+  };
+}
+
+export const BUNDLED_DECKS: BundledDeck[] = [
+  { id: DEFAULT_DECK_ID, deck: defaultDeck },
+  ...caseSources.map(({ id, title, slides }, idx) => ({ id, deck: buildCaseDeck(idx + 1, title, slides) })),
+];
+
+export function getBundledDeck(deckId: string): DeckData | undefined {
+  return BUNDLED_DECKS.find((entry) => entry.id === deckId)?.deck;
+}
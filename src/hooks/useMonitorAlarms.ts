@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from "react";
+import { voiceGatewayClient } from "../services/VoiceGatewayClient";
+import type { AlarmAction, AlarmId, AlarmPriority, MonitorAlarm } from "../types/voiceGateway";
+
+const PRIORITY_ORDER: Record<AlarmPriority, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Tracks the monitor alarms broadcast by the voice gateway.
+ * Cleared alarms drop off; the rest are ordered by priority, then by age.
+ */
+export function useMonitorAlarms() {
+  const [alarms, setAlarms] = useState<Partial<Record<AlarmId, MonitorAlarm>>>({});
+
+  useEffect(() => {
+    const unsubAlarm = voiceGatewayClient.onAlarm((alarm) => {
+      setAlarms((prev) => {
+        const next = { ...prev };
+        if (alarm.status === "cleared") {
+          delete next[alarm.id];
+        } else {
+          next[alarm.id] = alarm;
+        }
+        return next;
+      });
+    });
+    const unsubScenario = voiceGatewayClient.onScenarioChanged(() => setAlarms({}));
+    return () => {
+      unsubAlarm();
+      unsubScenario();
+    };
+  }, []);
+
+  const respond = useCallback((alarmId: AlarmId, action: AlarmAction) => {
+    voiceGatewayClient.sendAlarmAction(alarmId, action);
+  }, []);
+
+  const sorted = (Object.values(alarms) as MonitorAlarm[]).sort(
+    (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.raisedAt - b.raisedAt
+  );
+
+  return { alarms: sorted, respond };
+}
@@ -92,13 +92,37 @@ export function usePresenterScoring(): UsePresenterScoringReturn {
       score -= 5;
       items.push("EKG pending");
     }
+    // Medication orders the nurse challenged (gateway formulary check); tenfold/concentration errors cost more
+    const medicationErrors = (simState?.extended?.medicationErrors ?? []) as { drug: string; kind: string }[];
+    medicationErrors.forEach((error) => {
+      const critical = error.kind.startsWith("tenfold") || error.kind === "wrong_concentration";
+      score -= critical ? 15 : 5;
+      items.push(`Medication error: ${error.drug.replace(/_/g, " ")} ${error.kind.replace(/_/g, " ")}`);
+    });
+    // Defibrillator mistakes (gateway defibrillator checks); unsynced cardioversion or a non-shockable shock cost more
+    const defibErrors = (simState?.extended?.defibErrors ?? []) as { kind: string; energyJ: number }[];
+    defibErrors.forEach((error) => {
+      const critical = error.kind === "unsynchronized_cardioversion" || error.kind === "shock_not_indicated";
+      score -= critical ? 15 : 5;
+      items.push(`Defibrillator: ${error.kind.replace(/_/g, " ")} at ${error.energyJ} J`);
+    });
+    // CPR quality from the code team's metronome reports (gateway cprQuality)
+    const cpr = simState?.extended?.cpr as { ccf: number; meanRate?: number; timeToFirstEpiMs?: number } | undefined;
+    if (cpr) {
+      if (cpr.ccf < 0.6) score -= 10;
+      items.push(`CPR: compression fraction ${Math.round(cpr.ccf * 100)}%${cpr.meanRate ? ` at ${cpr.meanRate}/min` : ""}`);
+      if (cpr.timeToFirstEpiMs !== undefined) {
+        items.push(`First epi ${Math.round(cpr.timeToFirstEpiMs / 1000)}s into the arrest`);
+      }
+    }
+
     if (labsDone) items.push("Labs completed");
     if (imagingDone) items.push("Imaging completed");
     if (vitalsOrders > 1) items.push(`Vitals refreshed x${vitalsOrders}`);
 
     score = Math.max(0, Math.min(100, score));
     return { score, items };
-  }, [simState?.orders, simState?.treatmentHistory, simState?.stageEnteredAt]);
+  }, [simState?.orders, simState?.treatmentHistory, simState?.stageEnteredAt, simState?.extended]);
 
   // Update scoring trend when score changes
   useEffect(() => {
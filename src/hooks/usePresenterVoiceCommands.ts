@@ -36,6 +36,8 @@ export const DEFAULT_VOICE_COMMANDS: VoiceCommandMapping[] = [
   // Nurse commands
   { triggers: ["get vitals", "check vitals", "vitals please", "grab vitals"], commandType: "force_reply", payload: { doctorUtterance: "Please grab a fresh set of vitals." }, character: "nurse", label: "Nurse: Vitals", risk: "low" },
   { triggers: ["order labs", "get labs", "labs please", "draw labs"], commandType: "order", payload: { orderType: "labs" }, character: "nurse", label: "Order Labs", risk: "low" },
+  { triggers: ["order troponin", "repeat troponin", "send a troponin"], commandType: "order", payload: { orderType: "labs", panels: ["troponin"] }, character: "nurse", label: "Order Troponin", risk: "low" },
+  { triggers: ["blood gas", "order a gas", "send a gas", "order abg", "order vbg"], commandType: "order", payload: { orderType: "labs", panels: ["blood_gas", "lactate"] }, character: "nurse", label: "Blood Gas + Lactate", risk: "low" },
   { triggers: ["give oxygen", "start oxygen", "o2", "oxygen please"], commandType: "treatment", payload: { treatmentType: "oxygen" }, character: "nurse", label: "Give Oxygen", risk: "low" },
   { triggers: ["fluids", "bolus", "give fluids", "fluid bolus"], commandType: "treatment", payload: { treatmentType: "fluids" }, character: "nurse", label: "Fluids Bolus", risk: "low" },
   { triggers: ["knee chest", "knee-chest", "position knee chest"], commandType: "treatment", payload: { treatmentType: "knee-chest" }, character: "nurse", label: "Knee-Chest Position", risk: "low" },
@@ -47,6 +49,7 @@ export const DEFAULT_VOICE_COMMANDS: VoiceCommandMapping[] = [
   { triggers: ["show ekg", "display ekg", "pull up ekg"], commandType: "show_ekg", character: "tech", label: "Show EKG", risk: "low" },
   { triggers: ["start telemetry", "telemetry on", "put on monitor"], commandType: "toggle_telemetry", payload: { enabled: true }, character: "tech", label: "Start Telemetry", risk: "low" },
   { triggers: ["order imaging", "get imaging", "x-ray", "chest x-ray", "imaging please"], commandType: "order", payload: { orderType: "imaging" }, character: "tech", label: "Order Imaging", risk: "low" },
+  { triggers: ["order echo", "get an echo", "bedside echo", "echocardiogram"], commandType: "order", payload: { orderType: "echo" }, character: "imaging", label: "Order Echo", risk: "low" },
 
   // Consultant
   { triggers: ["call cardiology", "page cardiology", "consult cardiology", "call consultant", "get consultant"], commandType: "force_reply", payload: { doctorUtterance: "Please join at bedside for cardiology consult." }, character: "consultant", label: "Call Consultant", risk: "low" },
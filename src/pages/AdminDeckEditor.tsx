@@ -2,14 +2,26 @@
  * AdminDeckEditor:
  * - Lists slides/questions, gates access by admin code.
  * - Edits slide.html as raw HTML with templates, snippets, paste-to-image (data URL) and a live preview.
- * - Slides remain plain HTML strings; persistence goes to Firestore configs/deck.
+ * - Slides remain plain HTML strings; persistence goes to the Firestore deck library (decks/{deckId}).
+ * - Deck library bar: pick any deck, create/duplicate/archive, and seed the bundled decks once.
  */
-import React, { useEffect, useMemo, useState } from "react";
-import type { DeckData, Question, Slide } from "../types";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { DeckData, Question, QuestionType, Slide } from "../types";
 import { defaultDeck } from "../data/ductalDeck";
-import { fetchDeck, persistDeck } from "../utils/deckService";
+import { DEFAULT_DECK_ID, getBundledDeck } from "../data/bundledDecks";
+import {
+  createDeck,
+  duplicateDeck,
+  fetchDeck,
+  listDecks,
+  persistDeck,
+  seedBundledDecks,
+  setDeckArchived,
+  type DeckSummary,
+} from "../utils/deckService";
 import { SlidePreview } from "../components/SlidePreview";
 import { sanitizeHtml } from "../utils/sanitizeHtml";
+import { getQuestionType } from "../utils/scoringUtils";
 
 type TemplateKey = "none" | "phenotype" | "poll" | "image" | "teaching";
 
@@ -43,6 +55,40 @@ function createEmptyQuestion(): Question {
   };
 }
 
+const QUESTION_TYPE_OPTIONS: Array<{ value: QuestionType; label: string }> = [
+  { value: "single", label: "Single choice" },
+  { value: "multi", label: "Select all that apply" },
+  { value: "ordering", label: "Ordering" },
+  { value: "numeric", label: "Numeric (with tolerance)" },
+  { value: "freeText", label: "Free text" },
+];
+
+/** Switch a question's type, filling in the answer fields the new type needs. */
+function applyQuestionType(question: Question, type: QuestionType): Question {
+  const next: Question = { ...question, type };
+  if (type === "multi" && !next.correctIndices) next.correctIndices = [question.correctIndex];
+  if (type === "numeric" && !next.numericAnswer) next.numericAnswer = { value: 0, tolerance: 0 };
+  return next;
+}
+
+function moveOption(question: Question, idx: number, delta: number): Question {
+  const target = idx + delta;
+  if (target < 0 || target >= question.options.length) return question;
+  const options = [...question.options];
+  [options[idx], options[target]] = [options[target], options[idx]];
+  return { ...question, options };
+}
+
+function removeOption(question: Question, idx: number): Question {
+  const shift = (i: number) => (i > idx ? i - 1 : i);
+  return {
+    ...question,
+    options: question.options.filter((_, i) => i !== idx),
+    correctIndex: question.correctIndex === idx ? 0 : shift(question.correctIndex),
+    correctIndices: question.correctIndices?.filter((i) => i !== idx).map(shift),
+  };
+}
+
 /** Detect dangerous HTML patterns that could lead to XSS. Returns list of pattern names found. */
 function detectDangerousHtml(html: string): string[] {
   const patterns: Array<{ name: string; regex: RegExp }> = [
@@ -63,6 +109,10 @@ function detectDangerousHtml(html: string): string[] {
 
 export default function AdminDeckEditor() {
   const [deck, setDeck] = useState<DeckData>(defaultDeck);
+  const [deckId, setDeckId] = useState<string>(DEFAULT_DECK_ID);
+  const [library, setLibrary] = useState<DeckSummary[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [libraryBusy, setLibraryBusy] = useState(false);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
@@ -74,15 +124,20 @@ export default function AdminDeckEditor() {
   const adminCode = useMemo(getAdminCode, []);
   const hasAdminCode = adminCode.length > 0;
 
-  useEffect(() => {
-    if (!hasAdminCode || !accessGranted) return;
-    loadDeck();
-  }, [hasAdminCode, accessGranted]);
+  const loadLibrary = useCallback(async () => {
+    try {
+      const decks = await listDecks({ includeArchived: showArchived });
+      setLibrary(decks ?? []);
+    } catch (error) {
+      console.error("Failed to list decks", error);
+    }
+  }, [showArchived]);
 
-  async function loadDeck() {
+  const loadDeck = useCallback(async (id: string) => {
     setLoading(true);
     try {
-      const data = await fetchDeck();
+      const data = await fetchDeck(id);
+      setDeckId(id);
       setDeck(data);
       setSelectedSlideId(data.slides[0]?.id ?? null);
       setSelectedQuestionId(data.questions[0]?.id ?? null);
@@ -93,7 +148,17 @@ export default function AdminDeckEditor() {
     } finally {
       setLoading(false);
     }
-  }
+  }, []);
+
+  useEffect(() => {
+    if (!hasAdminCode || !accessGranted) return;
+    loadDeck(DEFAULT_DECK_ID);
+  }, [hasAdminCode, accessGranted, loadDeck]);
+
+  useEffect(() => {
+    if (!hasAdminCode || !accessGranted) return;
+    loadLibrary();
+  }, [hasAdminCode, accessGranted, loadLibrary]);
 
   const slidesSorted = useMemo(
     () => [...deck.slides].sort((a, b) => a.index - b.index),
@@ -102,6 +167,7 @@ export default function AdminDeckEditor() {
 
   const selectedSlide = slidesSorted.find((slide) => slide.id === selectedSlideId) ?? null;
   const selectedQuestion = deck.questions.find((q) => q.id === selectedQuestionId) ?? null;
+  const selectedQuestionType = selectedQuestion ? getQuestionType(selectedQuestion) : "single";
   const linkedQuestion = selectedSlide?.questionId
     ? deck.questions.find((q) => q.id === selectedSlide.questionId)
     : null;
@@ -191,10 +257,16 @@ export default function AdminDeckEditor() {
       const normalizedDeck: DeckData = {
         ...deck,
         slides: slidesSorted.map((slide, index) => ({ ...slide, index })),
+        questions: deck.questions.map((q) =>
+          q.acceptedAnswers
+            ? { ...q, acceptedAnswers: q.acceptedAnswers.map((a) => a.trim()).filter(Boolean) }
+            : q
+        ),
       };
-      await persistDeck(normalizedDeck);
+      await persistDeck(normalizedDeck, deckId);
       setDeck(normalizedDeck);
       setStatus("Deck saved successfully.");
+      loadLibrary();
     } catch (error) {
       console.error(error);
       setStatus("Failed to save deck. Check console for details.");
@@ -203,6 +275,60 @@ export default function AdminDeckEditor() {
     }
   }
 
+  async function runLibraryAction(action: () => Promise<string | null>) {
+    setLibraryBusy(true);
+    try {
+      const message = await action();
+      await loadLibrary();
+      if (message) setStatus(message);
+    } catch (error) {
+      console.error(error);
+      setStatus(error instanceof Error ? error.message : "Deck library action failed.");
+    } finally {
+      setLibraryBusy(false);
+    }
+  }
+
+  function handleCreateDeck() {
+    const title = window.prompt("Title for the new deck?")?.trim();
+    if (!title) return;
+    runLibraryAction(async () => {
+      const id = await createDeck(title);
+      await loadDeck(id);
+      return `Created "${title}".`;
+    });
+  }
+
+  function handleDuplicateDeck() {
+    const title = window.prompt("Title for the copy?", `${deck.title} (copy)`)?.trim();
+    if (!title) return;
+    runLibraryAction(async () => {
+      const id = await duplicateDeck(deckId, title);
+      await loadDeck(id);
+      return `Duplicated into "${title}".`;
+    });
+  }
+
+  const currentSummary = library.find((entry) => entry.id === deckId);
+
+  function handleToggleArchived() {
+    const archived = !currentSummary?.archived;
+    runLibraryAction(async () => {
+      await setDeckArchived(deckId, archived);
+      return archived ? "Deck archived; it no longer appears when creating sessions." : "Deck restored.";
+    });
+  }
+
+  function handleSeed() {
+    runLibraryAction(async () => {
+      const result = await seedBundledDecks();
+      if (result.alreadySeeded) return "Bundled decks were already imported.";
+      return result.seeded.length > 0
+        ? `Imported ${result.seeded.length} bundled deck(s).`
+        : "All bundled decks already exist in the library.";
+    });
+  }
+
   const templates: Record<TemplateKey, string> = {
     none: "",
     phenotype: `
@@ -319,9 +445,16 @@ export default function AdminDeckEditor() {
       if (!q.stem?.trim()) {
         messages.push(`Question "${q.id}" is missing a stem.`);
       }
-      if (!q.options || q.options.length < 2) {
+      const type = getQuestionType(q);
+      if ((type === "single" || type === "multi" || type === "ordering") && (!q.options || q.options.length < 2)) {
         messages.push(`Question "${q.id}" should have at least 2 options.`);
       }
+      if (type === "multi" && !q.correctIndices?.length) {
+        messages.push(`Question "${q.id}" has no correct options selected.`);
+      }
+      if (type === "numeric" && (!q.numericAnswer || !Number.isFinite(q.numericAnswer.value))) {
+        messages.push(`Question "${q.id}" needs a numeric answer.`);
+      }
     });
 
     return messages;
@@ -467,7 +600,7 @@ export default function AdminDeckEditor() {
           </div>
           <div className="flex flex-wrap gap-2">
             <button
-              onClick={loadDeck}
+              onClick={() => loadDeck(deckId)}
               className="rounded-lg border border-slate-700 px-4 py-2 text-sm hover:bg-slate-800"
               disabled={loading}
             >
@@ -475,9 +608,10 @@ export default function AdminDeckEditor() {
             </button>
             <button
               onClick={() => {
-                setDeck(defaultDeck);
-                setSelectedSlideId(defaultDeck.slides[0]?.id ?? null);
-                setSelectedQuestionId(defaultDeck.questions[0]?.id ?? null);
+                const original = getBundledDeck(deckId) ?? defaultDeck;
+                setDeck(original);
+                setSelectedSlideId(original.slides[0]?.id ?? null);
+                setSelectedQuestionId(original.questions[0]?.id ?? null);
                 setStatus("Reset to default deck (local). Remember to save.");
               }}
               className="rounded-lg border border-rose-700/70 px-4 py-2 text-sm text-rose-300 hover:bg-rose-900/30"
@@ -494,6 +628,66 @@ export default function AdminDeckEditor() {
           </div>
         </header>
 
+        <section
+          className="flex flex-wrap items-center gap-2 rounded-lg border border-slate-800 bg-slate-900 px-4 py-3 text-sm"
+          aria-label="Deck library"
+        >
+          <label htmlFor="deck-library-select" className="text-slate-400">
+            Deck
+          </label>
+          <select
+            id="deck-library-select"
+            value={deckId}
+            onChange={(e) => loadDeck(e.target.value)}
+            disabled={loading || libraryBusy}
+            className="min-w-[16rem] flex-1 rounded-lg border border-slate-700 bg-slate-950 px-3 py-1.5"
+          >
+            {!currentSummary && <option value={deckId}>{deck.title || deckId}</option>}
+            {library.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.title}
+                {entry.archived ? " (archived)" : ""}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-xs text-slate-400">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+            />
+            Show archived
+          </label>
+          <button
+            onClick={handleCreateDeck}
+            disabled={libraryBusy}
+            className="rounded-lg bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1.5"
+          >
+            New Deck
+          </button>
+          <button
+            onClick={handleDuplicateDeck}
+            disabled={libraryBusy}
+            className="rounded-lg bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1.5"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={handleToggleArchived}
+            disabled={libraryBusy || deckId === DEFAULT_DECK_ID}
+            className="rounded-lg bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1.5 disabled:opacity-50"
+          >
+            {currentSummary?.archived ? "Unarchive" : "Archive"}
+          </button>
+          <button
+            onClick={handleSeed}
+            disabled={libraryBusy}
+            className="rounded-lg border border-slate-700 text-xs px-3 py-1.5 hover:bg-slate-800"
+          >
+            Import Bundled Decks
+          </button>
+        </section>
+
         {status && (
           <div
             className="rounded-lg border border-slate-700 bg-slate-900 px-4 py-3 text-sm text-slate-200"
@@ -842,37 +1036,185 @@ export default function AdminDeckEditor() {
                   className="mt-1 w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-sm"
                 />
 
-                <fieldset className="space-y-2">
-                  <legend className="text-xs uppercase text-slate-500">Options</legend>
-                  {selectedQuestion.options.map((option, idx) => (
-                    <div key={idx} className="flex items-center gap-2">
+                <div className="flex flex-col gap-1">
+                  <label className="text-xs uppercase text-slate-500" htmlFor="question-type">
+                    Question Type
+                  </label>
+                  <select
+                    id="question-type"
+                    value={getQuestionType(selectedQuestion)}
+                    onChange={(event) =>
+                      updateQuestion(selectedQuestion.id, (q) =>
+                        applyQuestionType(q, event.target.value as QuestionType)
+                      )
+                    }
+                    className="rounded-lg bg-slate-800 border border-slate-700 px-3 py-2 text-sm"
+                  >
+                    {QUESTION_TYPE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {selectedQuestionType !== "numeric" && selectedQuestionType !== "freeText" && (
+                  <fieldset className="space-y-2">
+                    <legend className="text-xs uppercase text-slate-500">
+                      {selectedQuestionType === "ordering" ? "Items (in correct order)" : "Options"}
+                    </legend>
+                    {selectedQuestion.options.map((option, idx) => (
+                      <div key={idx} className="flex items-center gap-2">
+                        {selectedQuestionType === "single" && (
+                          <input
+                            type="radio"
+                            name="correctOption"
+                            checked={selectedQuestion.correctIndex === idx}
+                            aria-label={`Mark option ${idx + 1} as correct`}
+                            onChange={() =>
+                              updateQuestion(selectedQuestion.id, (q) => ({
+                                ...q,
+                                correctIndex: idx,
+                              }))
+                            }
+                          />
+                        )}
+                        {selectedQuestionType === "multi" && (
+                          <input
+                            type="checkbox"
+                            checked={(selectedQuestion.correctIndices ?? []).includes(idx)}
+                            aria-label={`Mark option ${idx + 1} as correct`}
+                            onChange={(event) =>
+                              updateQuestion(selectedQuestion.id, (q) => {
+                                const current = (q.correctIndices ?? []).filter((i) => i !== idx);
+                                const correctIndices = event.target.checked
+                                  ? [...current, idx].sort((a, b) => a - b)
+                                  : current;
+                                return { ...q, correctIndices };
+                              })
+                            }
+                          />
+                        )}
+                        {selectedQuestionType === "ordering" && (
+                          <span className="w-5 text-xs text-slate-500 text-right">{idx + 1}.</span>
+                        )}
+                        <input
+                          value={option}
+                          aria-label={`Option ${idx + 1} text`}
+                          onChange={(event) =>
+                            updateQuestion(selectedQuestion.id, (q) => {
+                              const options = [...q.options];
+                              options[idx] = event.target.value;
+                              return { ...q, options };
+                            })
+                          }
+                          className="flex-1 rounded-lg bg-slate-800 border border-slate-700 px-3 py-1 text-sm"
+                        />
+                        {selectedQuestionType === "ordering" && (
+                          <button
+                            type="button"
+                            aria-label={`Move option ${idx + 1} up`}
+                            disabled={idx === 0}
+                            onClick={() => updateQuestion(selectedQuestion.id, (q) => moveOption(q, idx, -1))}
+                            className="rounded border border-slate-700 px-2 py-0.5 text-xs disabled:opacity-40"
+                          >
+                            ↑
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          aria-label={`Remove option ${idx + 1}`}
+                          disabled={selectedQuestion.options.length <= 2}
+                          onClick={() => updateQuestion(selectedQuestion.id, (q) => removeOption(q, idx))}
+                          className="rounded border border-slate-700 px-2 py-0.5 text-xs text-rose-300 disabled:opacity-40"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        updateQuestion(selectedQuestion.id, (q) => ({
+                          ...q,
+                          options: [...q.options, `Option ${q.options.length + 1}`],
+                        }))
+                      }
+                      className="rounded-lg bg-slate-800 hover:bg-slate-700 text-xs px-3 py-1"
+                    >
+                      + Option
+                    </button>
+                  </fieldset>
+                )}
+
+                {selectedQuestionType === "numeric" && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {(["value", "tolerance"] as const).map((field) => (
+                      <label key={field} className="flex flex-col gap-1 text-xs uppercase text-slate-500">
+                        {field === "value" ? "Answer" : "± Tolerance"}
+                        <input
+                          type="number"
+                          step="any"
+                          value={selectedQuestion.numericAnswer?.[field] ?? 0}
+                          onChange={(event) =>
+                            updateQuestion(selectedQuestion.id, (q) => ({
+                              ...q,
+                              numericAnswer: {
+                                value: 0,
+                                tolerance: 0,
+                                ...q.numericAnswer,
+                                [field]: Number(event.target.value),
+                              },
+                            }))
+                          }
+                          className="rounded-lg bg-slate-800 border border-slate-700 px-3 py-1 text-sm normal-case"
+                        />
+                      </label>
+                    ))}
+                    <label className="flex flex-col gap-1 text-xs uppercase text-slate-500">
+                      Unit
                       <input
-                        type="radio"
-                        name="correctOption"
-                        checked={selectedQuestion.correctIndex === idx}
-                        aria-label={`Mark option ${idx + 1} as correct`}
-                        onChange={() =>
+                        value={selectedQuestion.numericAnswer?.unit ?? ""}
+                        placeholder="mg"
+                        onChange={(event) =>
                           updateQuestion(selectedQuestion.id, (q) => ({
                             ...q,
-                            correctIndex: idx,
+                            numericAnswer: {
+                              value: 0,
+                              tolerance: 0,
+                              ...q.numericAnswer,
+                              unit: event.target.value || undefined,
+                            },
                           }))
                         }
+                        className="rounded-lg bg-slate-800 border border-slate-700 px-3 py-1 text-sm normal-case"
                       />
-                      <input
-                        value={option}
-                        aria-label={`Option ${idx + 1} text`}
-                        onChange={(event) =>
-                          updateQuestion(selectedQuestion.id, (q) => {
-                            const options = [...q.options];
-                            options[idx] = event.target.value;
-                            return { ...q, options };
-                          })
-                        }
-                        className="flex-1 rounded-lg bg-slate-800 border border-slate-700 px-3 py-1 text-sm"
-                      />
-                    </div>
-                  ))}
-                </fieldset>
+                    </label>
+                  </div>
+                )}
+
+                {selectedQuestionType === "freeText" && (
+                  <div className="flex flex-col gap-1">
+                    <label className="text-xs uppercase text-slate-500" htmlFor="question-accepted-answers">
+                      Accepted Answers (one per line, optional)
+                    </label>
+                    <textarea
+                      id="question-accepted-answers"
+                      value={(selectedQuestion.acceptedAnswers ?? []).join("\n")}
+                      onChange={(event) =>
+                        updateQuestion(selectedQuestion.id, (q) => ({
+                          ...q,
+                          acceptedAnswers: event.target.value.split("\n"),
+                        }))
+                      }
+                      rows={3}
+                      className="w-full rounded-lg bg-slate-950 border border-slate-700 px-3 py-2 text-sm"
+                    />
+                    <p className="text-[11px] text-slate-500">
+                      Leave empty to collect answers for the presenter to reveal without scoring.
+                    </p>
+                  </div>
+                )}
 
                 <label className="text-xs uppercase text-slate-500" htmlFor="question-explanation">
                   Explanation
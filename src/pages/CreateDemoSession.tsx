@@ -3,7 +3,7 @@ import { Link } from "react-router-dom";
 import { auth, ensureSignedIn } from "../firebase";
 import { addDoc, collection, db } from "../utils/firestore"; 
 import { createInitialSessionData, defaultDeck } from "../data/ductalDeck";
-import { fetchDeck } from "../utils/deckService";
+import { DEFAULT_DECK_ID, fetchDeck, listDecks, type DeckSummary } from "../utils/deckService";
 import { SessionData } from "../types";
 import { QRCodeOverlay } from "../components/QRCodeOverlay";
 
@@ -14,6 +14,20 @@ export default function CreateDemoSession() {
   const [error, setError] = useState<string | null>(null);
   const [showQr, setShowQr] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [deckId, setDeckId] = useState<string>(DEFAULT_DECK_ID);
+
+  useEffect(() => {
+    let cancelled = false;
+    listDecks()
+      .then((list) => {
+        if (!cancelled) setDecks(list);
+      })
+      .catch((err) => console.warn("Failed to load deck library", err));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const getSearchParams = () => {
     const hash = typeof window !== "undefined" ? window.location.hash : "";
@@ -64,7 +78,7 @@ export default function CreateDemoSession() {
       await ensureSignedIn();
       let deck = defaultDeck;
       try {
-        deck = await fetchDeck();
+        deck = await fetchDeck(deckId);
       } catch (deckError) {
         console.warn("Falling back to default deck", deckError);
       }
@@ -90,7 +104,7 @@ export default function CreateDemoSession() {
             Create Session
             </h1>
             <p className="text-sm text-slate-400">
-            This will create a new live session using the "Ductal-Dependent Lesions" deck.
+            Pick a deck from the library to create a new live session.
             </p>
         </div>
 
@@ -156,6 +170,27 @@ export default function CreateDemoSession() {
             </div>
           </div>
         ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <label htmlFor="deck-select" className="text-xs uppercase tracking-wider text-slate-500 font-semibold">
+                Deck
+              </label>
+              <select
+                id="deck-select"
+                data-testid="deck-select"
+                value={deckId}
+                onChange={(e) => setDeckId(e.target.value)}
+                disabled={loading}
+                className="w-full rounded-lg border border-slate-600 bg-slate-800 px-3 py-2 text-sm text-slate-100"
+              >
+                {decks.length === 0 && <option value={DEFAULT_DECK_ID}>Default deck</option>}
+                {decks.map((entry) => (
+                  <option key={entry.id} value={entry.id}>
+                    {entry.title} ({entry.slideCount} slides)
+                  </option>
+                ))}
+              </select>
+            </div>
              <button
                 onClick={handleCreate}
                 disabled={loading}
@@ -165,6 +200,7 @@ export default function CreateDemoSession() {
             >
                 {loading ? "Creating session..." : "Create New Session"}
             </button>
+          </div>
         )}
 
         <div className="bg-slate-950 rounded p-3 border border-slate-800 flex gap-3 items-start">
@@ -172,7 +208,7 @@ export default function CreateDemoSession() {
             <div className="text-xs text-slate-400">
                 <span className="font-semibold text-slate-300">Customize Content:</span>
                 <br />
-                Edit <code className="text-sky-300 bg-slate-900 px-1 rounded">src/data/ductalDeck.ts</code> to add your own slides and questions.
+                Create, duplicate, or edit decks in the <Link to="/admin" className="text-sky-300 underline">deck admin</Link>.
             </div>
         </div>
 
@@ -15,14 +15,14 @@ import {
   db,
   runTransaction
 } from "../utils/firestore"; // Updated import
-import { SessionData, Question, ParticipantDoc } from "../types";
+import { SessionData, Question, ParticipantDoc, ResponseAnswer } from "../types";
 import { SlidePreview } from "../components/SlidePreview";
 import { auth, ensureSignedIn, isConfigured } from "../firebase";
 import { useVoiceState, takeFloorTx, releaseFloor } from "../hooks/useVoiceState";
 import { HoldToSpeakButton } from "../components/HoldToSpeakButton";
 import { voicePatientService } from "../services/VoicePatientService";
 import { voiceGatewayClient } from "../services/VoiceGatewayClient";
-import { VoiceConnectionStatus, CharacterId } from "../types/voiceGateway";
+import { VoiceConnectionStatus, CharacterId, Rhythm } from "../types/voiceGateway";
 import { MicStatus } from "../services/VoicePatientService";
 import { ParticipantVoiceStatusBanner } from "../components/ParticipantVoiceStatusBanner";
 import { sendVoiceCommand } from "../services/voiceCommands";
@@ -33,16 +33,22 @@ import { SessionSkeleton } from "../components/SessionSkeleton";
 import { TextQuestionInput } from "../components/TextQuestionInput";
 import { VoiceStatusBadge } from "../components/VoiceStatusBadge";
 import { CaseTimeline } from "../components/CaseTimeline";
+import { AlarmBanner } from "../components/AlarmBanner";
+import { useMonitorAlarms } from "../hooks/useMonitorAlarms";
 import { TeamChat } from "../components/TeamChat";
 import { useTeamChat } from "../hooks/useTeamChat";
 import { useTeamLead } from "../hooks/useTeamLead";
 import { TeamRoleBadge } from "../components/TeamRoleBadge";
 import { EkgViewer } from "../components/EkgViewer";
 import { CxrViewer } from "../components/CxrViewer";
-import { QuickActionsBar, CharacterSelector, ExamFindingsPanel, ParticipantOrdersPanel, ParticipantHeader, QuestionSection, QuestionPlaceholder } from "../components/participant";
+import { LabViewer } from "../components/LabViewer";
+import { EchoViewer } from "../components/EchoViewer";
+import type { DefibrillatorState, EchoReport, TeamMember } from "../types/voiceGateway";
+import { TEAM_ROLE_LABELS, TEAM_ROLE_SCOPES } from "../../voice-gateway/src/sim/teamRoles";
+import { QuickActionsBar, CharacterSelector, ExamFindingsPanel, ParticipantOrdersPanel, ParticipantHeader, QuestionSection, QuestionPlaceholder, DefibrillatorPanel, CodeRolePanel } from "../components/participant";
 import { CardPanel, SectionLabel } from "../components/ui";
 import { FLOOR_AUTO_RELEASE_MS, FLOOR_RELEASE_DELAY_MS, DEFAULT_TIMEOUT_MS } from "../constants";
-import { getStreakMultiplier, calculatePoints } from "../utils/scoringUtils";
+import { getStreakMultiplier, calculateCreditPoints, getAnswerCredit } from "../utils/scoringUtils";
 import { useNotifications } from "../hooks/useNotifications";
 import { getOrCreateRandomName } from "../utils/names";
 
@@ -103,7 +109,8 @@ export default function JoinSession() {
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [mockVoice, setMockVoice] = useState<string | null>(null);
-  const [selectedChoice, setSelectedChoice] = useState<number | null>(null);
+  const [submittedAnswer, setSubmittedAnswer] = useState<ResponseAnswer | null>(null);
+  const selectedChoice = submittedAnswer?.choiceIndex ?? null;
   const [userId, setUserId] = useState<string | null>(
     isConfigured ? auth?.currentUser?.uid ?? null : getLocalUserId()
   );
@@ -125,6 +132,7 @@ export default function JoinSession() {
     examAudio?: { type: "heart" | "lung"; label: string; url: string }[];
     telemetry?: boolean;
     rhythmSummary?: string;
+    rhythm?: Rhythm;
     telemetryWaveform?: number[];
     fallback: boolean;
     voiceFallback?: boolean;
@@ -162,10 +170,12 @@ export default function JoinSession() {
   const [isMobile, setIsMobile] = useState(false);
   const [isOffline, setIsOffline] = useState<boolean>(false);
   const [showVitalsPanel, setShowVitalsPanel] = useState(false);
+  const monitorAlarms = useMonitorAlarms();
   const [myTeam, setMyTeam] = useState<{ teamId: string; teamName: string } | null>(null);
   const [viewingEkgOrder, setViewingEkgOrder] = useState<{
     imageUrl?: string;
     summary?: string;
+    hr?: number;
     timestamp?: number;
     orderedBy?: { name: string };
   } | null>(null);
@@ -176,6 +186,15 @@ export default function JoinSession() {
     orderedBy?: { name: string };
     viewType?: "PA" | "AP" | "Lateral";
   } | null>(null);
+  const [viewingLabs, setViewingLabs] = useState(false);
+  const [viewingEchoOrder, setViewingEchoOrder] = useState<{
+    report: EchoReport;
+    timestamp?: number;
+    orderedBy?: { name: string };
+  } | null>(null);
+  const [showDefib, setShowDefib] = useState(false);
+  const [defibState, setDefibState] = useState<{ device: DefibrillatorState; weightKg: number; prompt?: string } | null>(null);
+  const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const showToast = useCallback((message: string) => {
     setToast({ message, ts: Date.now() });
   }, []);
@@ -505,6 +524,16 @@ export default function JoinSession() {
     return () => unsub();
   }, []);
 
+  useEffect(() => {
+    const unsub = voiceGatewayClient.onDefibState(({ device, weightKg, prompt }) => setDefibState({ device, weightKg, prompt }));
+    return () => unsub();
+  }, []);
+
+  useEffect(() => {
+    const unsub = voiceGatewayClient.onTeamRoster(({ members }) => setTeamMembers(members));
+    return () => unsub();
+  }, []);
+
   useEffect(() => {
     const unsub = voiceGatewayClient.onSimState((state) => {
       setSimState(state);
@@ -550,7 +579,7 @@ export default function JoinSession() {
 
   // Reset local selection and track question start time when question changes
   useEffect(() => {
-    setSelectedChoice(null);
+    setSubmittedAnswer(null);
     if (session?.currentQuestionId) {
       setQuestionStartTime(Date.now());
     }
@@ -691,6 +720,11 @@ export default function JoinSession() {
     userId,
   });
 
+  // Code-team role from the gateway roster scopes the bedside actions and orders offered
+  const myTeamRole = teamMembers.find((m) => m.userId === userId)?.teamRole;
+  const roleBedsideActions = myTeamRole ? TEAM_ROLE_SCOPES[myTeamRole].bedside : undefined;
+  const canUseDefib = !roleBedsideActions || roleBedsideActions.includes("defib");
+
   const slides = session ? [...session.slides].sort((a, b) => a.index - b.index) : [];
   const currentSlide = slides.length > 0 ? slides[session?.currentSlideIndex ?? 0] ?? slides[0] : null;
 
@@ -928,6 +962,9 @@ export default function JoinSession() {
             setShowEkg(true);
             showToast("EKG opened");
           }}
+          showDefib={showDefib}
+          onToggleDefib={() => setShowDefib((v) => !v)}
+          allowedActions={roleBedsideActions}
         />
       )}
 
@@ -1035,6 +1072,7 @@ export default function JoinSession() {
           onViewEkg={(order) => setViewingEkgOrder({
             imageUrl: order.result?.imageUrl,
             summary: order.result?.summary,
+            hr: order.result?.hr,
             timestamp: order.completedAt,
             orderedBy: order.orderedBy,
           })}
@@ -1045,6 +1083,12 @@ export default function JoinSession() {
             orderedBy: order.orderedBy,
             viewType: "PA",
           })}
+          onViewLabs={() => setViewingLabs(true)}
+          onViewEcho={(order) => order.result?.echo && setViewingEchoOrder({
+            report: order.result.echo,
+            timestamp: order.completedAt,
+            orderedBy: order.orderedBy,
+          })}
         />
       )}
       {showEkg && latestEkg && (
@@ -1073,6 +1117,31 @@ export default function JoinSession() {
           )}
         </div>
       )}
+      {showDefib && canUseDefib && (
+        <DefibrillatorPanel
+          device={defibState?.device}
+          weightKg={defibState?.weightKg}
+          prompt={defibState?.prompt}
+          rhythm={simState?.rhythm}
+          hr={simState?.vitals?.hr as number | undefined}
+          onAction={(action, params) => voiceGatewayClient.sendDefibAction(action, params)}
+          onClose={() => setShowDefib(false)}
+        />
+      )}
+      {/* Code-team roles - claim a role, then order within it */}
+      {simState && (
+        <CodeRolePanel
+          members={teamMembers}
+          userId={userId}
+          onClaim={(teamRole) => voiceGatewayClient.sendTeamRole(teamRole)}
+          onOrder={(orderType) => {
+            if (!sessionId) return;
+            emitCommand(sessionId, "order", { orderType, displayName: userDisplayName }, "tech", logAndToast);
+            showToast(`${myTeamRole ? TEAM_ROLE_LABELS[myTeamRole] : "Order"}: ${orderType.replace(/_/g, " ")} ordered`);
+          }}
+          compact={isMobile}
+        />
+      )}
       {/* Case Timeline - shows orders, treatments, and EKGs */}
       {simState && (simState.orders?.length || simState.treatmentHistory?.length || simState.ekgHistory?.length) ? (
         <div className="mt-2">
@@ -1212,37 +1281,47 @@ export default function JoinSession() {
     window.location.assign("/#/");
   };
 
-  const handleChoice = async (choiceIndex: number) => {
+  const handleChoice = (choiceIndex: number) => submitAnswer({ choiceIndex });
+
+  const submitAnswer = async (answer: ResponseAnswer) => {
     if (!currentQuestion || !isQuestionActive || !userId || !sessionId) return;
     if (submitting) return;
     setSubmitError(null);
-    setSelectedChoice(choiceIndex); // optimistic selection
+    setSubmittedAnswer(answer); // optimistic selection
     setSubmitting(true);
 
-    // Calculate response time for time bonus
+    // Local Demo only: the browser clock stands in for the server's question-open timestamp
     const responseTimeMs = questionStartTime ? Date.now() - questionStartTime : undefined;
 
     try {
       const responseId = `${userId}_${currentQuestion.id}`;
       const responseRef = doc(db, "sessions", sessionId, "responses", responseId);
       const participantRef = doc(db, "sessions", sessionId, "participants", userId);
-      const isCorrect = choiceIndex === currentQuestion.correctIndex;
+      const credit = getAnswerCredit(currentQuestion, answer);
+      const isCorrect = credit === 1;
 
       const existingResponse = await getDoc(responseRef);
       const isFirstResponse =
         !existingResponse ||
         (typeof existingResponse.exists === "function" ? !existingResponse.exists() : !existingResponse.exists);
 
-      await setDoc(responseRef, {
-        sessionId,
-        userId,
-        questionId: currentQuestion.id,
-        choiceIndex,
-        createdAt: new Date().toISOString(),
-      });
-
-      // Update participant score & streak in a transaction to avoid race conditions
       if (isFirstResponse) {
+        await setDoc(responseRef, {
+          sessionId,
+          userId,
+          questionId: currentQuestion.id,
+          ...answer,
+          createdAt: new Date().toISOString(),
+        });
+      } else {
+        // Changing an answer keeps the server-written scoring result intact
+        await updateDoc(responseRef, { ...answer, createdAt: new Date().toISOString() });
+      }
+
+      // With Firebase configured, the scoreResponse Cloud Function scores the first response.
+      // Local Demo has no backend, so score in the browser (transaction avoids races).
+      // Ungraded free text (credit === null) leaves the score untouched.
+      if (isFirstResponse && !isConfigured && credit !== null) {
         await runTransaction(db, async (transaction: any) => {
           const participantSnap = await transaction.get(participantRef);
           const snapHasData =
@@ -1253,8 +1332,8 @@ export default function JoinSession() {
           const existing: Partial<ParticipantDoc> = snapHasData ? data ?? {} : {};
 
           const currentStreak = existing.streak ?? 0;
-          // New scoring: base 100 × streak × time bonus (no difficulty)
-          const questionScore = isCorrect ? calculatePoints(currentStreak, responseTimeMs) : 0;
+          // New scoring: base 100 × streak × time bonus × partial credit (no difficulty)
+          const questionScore = calculateCreditPoints(credit, currentStreak, responseTimeMs);
           const nextStreak = isCorrect ? currentStreak + 1 : 0;
 
           const payload: ParticipantDoc = {
@@ -1279,7 +1358,7 @@ export default function JoinSession() {
       }
     } catch (err) {
         console.error("Failed to submit answer", err);
-        setSelectedChoice(null);
+        setSubmittedAnswer(null);
         setSubmitError("Could not record your answer. Please try again.");
     } finally {
       setSubmitting(false);
@@ -1306,6 +1385,7 @@ export default function JoinSession() {
       />
 
       <main className={`flex-1 p-4 max-w-md mx-auto w-full flex flex-col gap-6 ${isMobile && voice.enabled ? "pb-36" : "pb-[env(safe-area-inset-bottom)]"}`}>
+        <AlarmBanner alarms={monitorAlarms.alarms} onRespond={monitorAlarms.respond} />
         {isOffline && (
           <div className="bg-amber-900/40 border border-amber-800 rounded-lg px-3 py-2 text-xs text-amber-100 flex items-center gap-2" role="status" aria-live="polite">
             <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" aria-hidden="true"></span>
@@ -1362,9 +1442,11 @@ export default function JoinSession() {
             isActive={isQuestionActive}
             showResults={session.showResults}
             selectedChoice={selectedChoice}
+            submittedAnswer={submittedAnswer}
             submitting={submitting}
             submitError={submitError}
             onSelectChoice={handleChoice}
+            onSubmitAnswer={submitAnswer}
           />
         ) : (
           <QuestionPlaceholder />
@@ -1411,6 +1493,7 @@ export default function JoinSession() {
         <EkgViewer
           imageUrl={viewingEkgOrder.imageUrl}
           summary={viewingEkgOrder.summary}
+          hr={viewingEkgOrder.hr}
           timestamp={viewingEkgOrder.timestamp}
           orderedBy={viewingEkgOrder.orderedBy}
           patientName={simState?.scenarioId ? simState.scenarioId.replace(/_/g, " ") : "Patient"}
@@ -1418,6 +1501,26 @@ export default function JoinSession() {
         />
       )}
 
+      {/* Full-screen echo report */}
+      {viewingEchoOrder && (
+        <EchoViewer
+          report={viewingEchoOrder.report}
+          timestamp={viewingEchoOrder.timestamp}
+          orderedBy={viewingEchoOrder.orderedBy}
+          patientName={simState?.scenarioId ? simState.scenarioId.replace(/_/g, " ") : "Patient"}
+          onClose={() => setViewingEchoOrder(null)}
+        />
+      )}
+
+      {/* Full-screen lab results with trending */}
+      {viewingLabs && simState?.orders && (
+        <LabViewer
+          orders={simState.orders}
+          patientName={simState?.scenarioId ? simState.scenarioId.replace(/_/g, " ") : "Patient"}
+          onClose={() => setViewingLabs(false)}
+        />
+      )}
+
       {/* Full-screen CXR Viewer Modal */}
       {viewingCxrOrder && (
         <CxrViewer
@@ -7,9 +7,10 @@
  */
 import React, { useEffect, useState, useCallback, useRef, useMemo } from "react";
 import { useParams, Link } from "react-router-dom";
-import { doc, onSnapshot, updateDoc, db, collection, query, where, addDoc } from "../utils/firestore"; // Updated import
+import { doc, onSnapshot, updateDoc, db, collection, query, where, addDoc, serverTimestamp } from "../utils/firestore"; // Updated import
 import { SessionData } from "../types";
 import { ResponsesChart } from "../components/ResponsesChart";
+import { getAnswerCredit } from "../utils/scoringUtils";
 import { useTeamScores } from "../hooks/useTeamScores";
 import { useIndividualScores } from "../hooks/useIndividualScores";
 import { TeamScoreboard } from "../components/TeamScoreboard";
@@ -23,6 +24,8 @@ import { PresenterVoiceControls } from "../components/PresenterVoiceControls";
 import { AutonomousSimPanel } from "../components/AutonomousSimPanel";
 import { VoiceCharacterTile } from "../components/VoiceCharacterTile";
 import { VitalsMonitor } from "../components/VitalsMonitor";
+import { AlarmBanner } from "../components/AlarmBanner";
+import { useMonitorAlarms } from "../hooks/useMonitorAlarms";
 import { CodeBluePanel } from "../components/CodeBluePanel";
 import { PatientStatusOutline, Interventions } from "../components/PatientStatusOutline";
 import { voiceGatewayClient } from "../services/VoiceGatewayClient";
@@ -61,6 +64,7 @@ import { usePresenterVoice } from "../hooks/usePresenterVoice";
 import { GamificationControls, ScenarioSnapshotCard, PresenterHeader } from "../components/presenter";
 import { VoiceDebugPanel } from "../components/presenter/VoiceDebugPanel";
 import { SectionLabel } from "../components/ui";
+import { describeClosedLoopMetrics } from "../../voice-gateway/src/sim/closedLoop";
 
 /** Elapsed timer that updates every second with clock icon. */
 function ElapsedTimer({ startTime }: { startTime: number }) {
@@ -191,6 +195,7 @@ export default function PresenterSession() {
   const forceReplyWithQuestionRef = useRef<((text?: string) => void) | undefined>(undefined);
 
   // Voice gateway subscriptions and refs (extracted to hook)
+  const monitorAlarms = useMonitorAlarms();
   const {
     currentTurnIdRef,
     currentTurnCharacterRef,
@@ -673,6 +678,12 @@ export default function PresenterSession() {
     if (debriefResult.teachingPoints?.length) {
       parts.push("## Teaching Points", debriefResult.teachingPoints.map((s) => `- ${s}`).join("\n"));
     }
+    if (debriefResult.communication) {
+      parts.push(
+        "## Closed-Loop Communication",
+        describeClosedLoopMetrics(debriefResult.communication).map((s) => `- ${s}`).join("\n")
+      );
+    }
     if (timelineItems.length > 0) {
       parts.push("## Timeline (last 20 events)", timelineText || "—");
     }
@@ -1119,13 +1130,12 @@ export default function PresenterSession() {
       docs.forEach((docSnap: any) => {
         const data = docSnap.data?.() ?? docSnap.data();
         const qid = data?.questionId;
-        const choiceIndex = data?.choiceIndex;
         if (!qid) return;
         totalResp += 1;
         const q = perQuestion.get(qid) ?? { questionId: qid, totalCount: 0, correctCount: 0 };
         q.totalCount += 1;
-        const correctIndex = questions.find((qq) => qq.id === qid)?.correctIndex ?? -1;
-        if (correctIndex === choiceIndex) {
+        const question = questions.find((qq) => qq.id === qid);
+        if (question && getAnswerCredit(question, data) === 1) {
           q.correctCount += 1;
         }
         perQuestion.set(qid, q);
@@ -1155,6 +1165,7 @@ export default function PresenterSession() {
     if (!currentQuestion) return;
     await updateDoc(doc(db, "sessions", sessionId), {
       currentQuestionId: currentQuestion.id,
+      questionOpenedAt: serverTimestamp(),
       showResults: false,
     });
   };
@@ -1532,17 +1543,21 @@ export default function PresenterSession() {
                   )}
                 </div>
               )}
+              <AlarmBanner alarms={monitorAlarms.alarms} onRespond={monitorAlarms.respond} />
               <VitalsMonitor
                 vitals={simState.vitals as any}
                 telemetryWaveform={simState.telemetryWaveform as any}
                 telemetryOn={simState.telemetry}
-                rhythmSummary={simState.rhythmSummary}
+                rhythm={simState.rhythm}
               />
               <PatientStatusOutline
                 interventions={simState.interventions ?? {}}
                 compact
               />
-              <CodeBluePanel rhythmSummary={simState.rhythmSummary} />
+              <CodeBluePanel
+                rhythm={simState.rhythm}
+                onCprEvent={(event, rate) => voiceGatewayClient.sendCprEvent(event, rate)}
+              />
               {simState.telemetry && (
                 <div className="flex items-center gap-2">
                   <button
@@ -1599,6 +1614,7 @@ export default function PresenterSession() {
                               onClick={() => setViewingEkgOrder({
                                 imageUrl: order.result?.imageUrl,
                                 summary: order.result?.summary,
+                                hr: order.result?.hr,
                                 timestamp: order.completedAt,
                                 orderedBy: (order as any).orderedBy,
                               })}
@@ -1618,6 +1634,12 @@ export default function PresenterSession() {
                             {order.result.nextAction && <div className="text-slate-300 text-[11px]">Next: {order.result.nextAction}</div>}
                           </div>
                         )}
+                        {isDone && order.result?.type === "echo" && (
+                          <div className="text-slate-300 text-[12px] mt-1">
+                            {order.result.summary ?? "Echo ready"}
+                            {order.result.abnormal && <div className="text-amber-200 text-[11px]">Key abnormal: {order.result.abnormal}</div>}
+                          </div>
+                        )}
                         {isDone && order.result?.type === "imaging" && (
                           <div className="text-slate-300 text-[12px] mt-1">
                             {order.result.summary ?? "Imaging ready"}
@@ -1886,8 +1908,7 @@ export default function PresenterSession() {
                             <ResponsesChart
                               sessionId={sessionId}
                               questionId={currentQuestion.id}
-                              options={currentQuestion.options}
-                              correctIndex={currentQuestion.correctIndex ?? 0}
+                              question={currentQuestion}
                               showResults={isShowingResults}
                               mode="presenter"
                             />
@@ -2153,6 +2174,7 @@ export default function PresenterSession() {
         <EkgViewer
           imageUrl={viewingEkgOrder.imageUrl}
           summary={viewingEkgOrder.summary}
+          hr={viewingEkgOrder.hr}
           timestamp={viewingEkgOrder.timestamp}
           orderedBy={viewingEkgOrder.orderedBy}
           patientName={simState?.scenarioId ? simState.scenarioId.replace(/_/g, " ") : "Patient"}
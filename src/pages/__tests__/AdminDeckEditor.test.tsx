@@ -7,6 +7,11 @@ jest.mock("../../utils/deckService", () => ({
   __esModule: true,
   fetchDeck: jest.fn(),
   persistDeck: jest.fn(),
+  listDecks: jest.fn().mockResolvedValue([]),
+  createDeck: jest.fn(),
+  duplicateDeck: jest.fn(),
+  setDeckArchived: jest.fn(),
+  seedBundledDecks: jest.fn(),
 }));
 
 // Mock default deck file to keep fixtures lightweight.
@@ -41,7 +46,7 @@ jest.mock("../../data/ductalDeck", () => ({
 }));
 
 describe("AdminDeckEditor", () => {
-  const { fetchDeck, persistDeck } = require("../../utils/deckService");
+  const { fetchDeck, persistDeck, listDecks, duplicateDeck } = require("../../utils/deckService");
   const originalEnv = process.env.VITE_ADMIN_ACCESS_CODE;
   const originalPrompt = window.prompt;
   const originalConfirm = window.confirm;
@@ -154,6 +159,51 @@ describe("AdminDeckEditor", () => {
     expect(savedDeck.slides[1].index).toBe(1);
   });
 
+  test("switches library decks and saves to the selected deck id", async () => {
+    (listDecks as jest.Mock).mockResolvedValueOnce([
+      { id: "default", title: "Full series", slideCount: 1, questionCount: 0, archived: false, source: "bundled" },
+      { id: "case2", title: "Case 2", slideCount: 1, questionCount: 0, archived: false, source: "bundled" },
+    ]);
+    (fetchDeck as jest.Mock).mockImplementation(async (id: string) => ({
+      title: id,
+      slides: [{ id: `${id}_s0`, index: 0, type: "content", html: `<div>${id} slide</div>` }],
+      questions: [],
+    }));
+
+    render(<AdminDeckEditor />);
+    await userEvent.type(screen.getByPlaceholderText(/access code/i), "TEST_CODE");
+    await userEvent.click(screen.getByRole("button", { name: /unlock editor/i }));
+    await waitFor(() => expect(screen.getByRole("option", { name: "Case 2" })).toBeInTheDocument());
+
+    await userEvent.selectOptions(screen.getByLabelText(/^deck$/i), "case2");
+    await waitFor(() => expect(fetchDeck).toHaveBeenLastCalledWith("case2"));
+    await waitFor(() => expect(screen.getByRole("button", { name: /save deck/i })).toBeInTheDocument());
+    await userEvent.click(screen.getByRole("button", { name: /save deck/i }));
+
+    await waitFor(() => expect(persistDeck).toHaveBeenCalled());
+    expect((persistDeck as jest.Mock).mock.calls[0][1]).toBe("case2");
+  });
+
+  test("duplicates the current deck and opens the copy", async () => {
+    (fetchDeck as jest.Mock).mockResolvedValue({
+      title: "Original",
+      slides: [{ id: "s1", index: 0, type: "content", html: "<div>S1</div>" }],
+      questions: [],
+    });
+    (duplicateDeck as jest.Mock).mockResolvedValue("copy-1");
+    window.prompt = jest.fn().mockReturnValue("My copy");
+
+    render(<AdminDeckEditor />);
+    await userEvent.type(screen.getByPlaceholderText(/access code/i), "TEST_CODE");
+    await userEvent.click(screen.getByRole("button", { name: /unlock editor/i }));
+    await waitFor(() => expect(screen.getByText(/deck admin/i)).toBeInTheDocument());
+
+    await userEvent.click(screen.getByRole("button", { name: /duplicate/i }));
+
+    await waitFor(() => expect(duplicateDeck).toHaveBeenCalledWith("default", "My copy"));
+    await waitFor(() => expect(fetchDeck).toHaveBeenLastCalledWith("copy-1"));
+  });
+
   test("pastes image data URLs with optional alt and prevents default", async () => {
     (fetchDeck as jest.Mock).mockResolvedValue({
       slides: [{ id: "s1", index: 0, type: "content", html: "" }],
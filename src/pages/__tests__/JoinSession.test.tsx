@@ -31,6 +31,13 @@ jest.mock("../../services/VoiceGatewayClient", () => ({
     onStatus: () => () => {},
     onPatientAudio: () => () => {},
     onDoctorUtterance: () => () => {},
+    onScenarioChanged: () => () => {},
+    onAlarm: () => () => {},
+    sendAlarmAction: jest.fn(),
+    onDefibState: () => () => {},
+    sendDefibAction: jest.fn(),
+    onTeamRoster: () => () => {},
+    sendTeamRole: jest.fn(),
   },
 }));
 
@@ -62,9 +69,12 @@ jest.mock("../../utils/firestore", () => ({
   db: {},
 }));
 
+let mockIsConfigured = true;
 jest.mock("../../firebase", () => ({
   __esModule: true,
-  isConfigured: true,
+  get isConfigured() {
+    return mockIsConfigured;
+  },
   auth: { currentUser: { uid: "user-123" } },
   ensureSignedIn: jest.fn().mockResolvedValue(undefined),
 }));
@@ -103,6 +113,7 @@ describe("JoinSession", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockIsConfigured = true;
     mockRunTransaction.mockImplementation(async (_db, fn) =>
       fn({
         get: async () => ({ exists: () => false, data: () => null }),
@@ -220,7 +231,90 @@ describe("JoinSession", () => {
     );
   });
 
-  test("awards points and streak on first correct answer only", async () => {
+  test("leaves scoring to the server when Firebase is configured", async () => {
+    const user = userEvent.setup();
+    renderJoin();
+    await waitFor(() => screen.getByText(/What is the defect/i));
+    await user.click(screen.getByRole("button", { name: /B/ }));
+
+    await waitFor(() => expect(mockSetDoc).toHaveBeenCalled());
+    const [, payload] = mockSetDoc.mock.calls.find(([ref]) => ref?.path?.includes("responses")) as any;
+    expect(payload).not.toHaveProperty("points");
+    // Only the participant-doc bootstrap transaction runs; no client-side scoring
+    expect(mockRunTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  test("changing an answer updates only the choice", async () => {
+    const user = userEvent.setup();
+    mockGetDoc.mockImplementation(async (ref: any) => {
+      if (ref.path.includes("/responses/")) {
+        return { exists: () => true, data: () => ({ choiceIndex: 1 }) };
+      }
+      return { exists: () => false, data: () => null };
+    });
+    renderJoin();
+    await waitFor(() => screen.getByText(/What is the defect/i));
+    await user.click(screen.getByRole("button", { name: /A/ }));
+
+    await waitFor(() =>
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        expect.objectContaining({ path: expect.stringMatching(/responses\/user-123_q1$/) }),
+        { choiceIndex: 0, createdAt: expect.any(String) }
+      )
+    );
+    expect(mockSetDoc).not.toHaveBeenCalledWith(
+      expect.objectContaining({ path: expect.stringMatching(/responses/) }),
+      expect.anything()
+    );
+  });
+
+  test("submits a select-all-that-apply answer as choiceIndices", async () => {
+    const multiSession = {
+      ...baseSession,
+      questions: [
+        {
+          id: "q1",
+          type: "multi",
+          stem: "Which are features of Kawasaki disease?",
+          options: ["Conjunctivitis", "Petechiae", "Strawberry tongue"],
+          correctIndex: 0,
+          correctIndices: [0, 2],
+        },
+      ],
+    };
+    mockGetDocs.mockImplementation(async (arg: any) => {
+      if (typeof arg === "object" && arg?.path?.includes("participants")) {
+        return { empty: true, docs: [], forEach: () => [] };
+      }
+      return { empty: false, docs: [{ id: "session1", data: () => multiSession }] };
+    });
+    mockOnSnapshot.mockImplementation((_ref: any, cb: any) => {
+      cb({ exists: () => true, id: "session1", data: () => multiSession });
+      return () => {};
+    });
+    const user = userEvent.setup();
+    renderJoin();
+
+    await waitFor(() => screen.getByText(/features of Kawasaki/i));
+    await user.click(screen.getByRole("button", { name: /Conjunctivitis/ }));
+    await user.click(screen.getByRole("button", { name: /Strawberry tongue/ }));
+    expect(mockSetDoc).not.toHaveBeenCalledWith(
+      expect.objectContaining({ path: expect.stringMatching(/responses/) }),
+      expect.anything()
+    );
+    await user.click(screen.getByTestId("submit-answer"));
+
+    await waitFor(() =>
+      expect(mockSetDoc).toHaveBeenCalledWith(
+        expect.objectContaining({ path: expect.stringMatching(/responses\/user-123_q1$/) }),
+        expect.objectContaining({ choiceIndices: [0, 2], questionId: "q1" })
+      )
+    );
+  });
+
+  test("awards points and streak on first correct answer only (Local Demo)", async () => {
+    mockIsConfigured = false;
+    localStorage.setItem("cq_live_user_id", "user-123");
     const user = userEvent.setup();
     const participantState: ParticipantDoc = {
       userId: "user-123",
@@ -293,7 +387,9 @@ describe("JoinSession", () => {
     expect(mockRunTransaction).toHaveBeenCalledTimes(2);
   });
 
-  test("incorrect answer resets streak and increments incorrectCount", async () => {
+  test("incorrect answer resets streak and increments incorrectCount (Local Demo)", async () => {
+    mockIsConfigured = false;
+    localStorage.setItem("cq_live_user_id", "user-123");
     const user = userEvent.setup();
     const participantState: ParticipantDoc = {
       userId: "user-123",
@@ -79,6 +79,8 @@ jest.mock("../../services/VoiceGatewayClient", () => ({
     onAnalysisResult: () => () => {},
     onComplexDebrief: () => () => {},
     onVoiceError: () => () => {},
+    onAlarm: () => () => {},
+    sendAlarmAction: jest.fn(),
   },
 }));
 
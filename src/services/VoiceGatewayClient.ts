@@ -9,6 +9,15 @@ import {
   ComplexDebriefResult,
   VoiceConnectionStatus,
   CharacterId,
+  AlarmAction,
+  CprEventKind,
+  DefibAction,
+  DefibActionParams,
+  TeamRole,
+  AlarmId,
+  MonitorAlarm,
+  Rhythm,
+  CostBreakdown,
 } from "../types/voiceGateway";
 import { VoiceCommandType } from "../types";
 import { voiceEventLogger } from "./voiceEventLogger";
@@ -27,12 +36,19 @@ type SimStateListener = (state: {
   interventions?: Record<string, unknown>;
   telemetry?: boolean;
   rhythmSummary?: string;
+  rhythm?: Rhythm;
   telemetryWaveform?: number[];
   findings?: string[];
   fallback: boolean;
   voiceFallback?: boolean;
   correlationId?: string;
-  budget?: { usdEstimate?: number; voiceSeconds?: number; throttled?: boolean; fallback?: boolean };
+  budget?: {
+    usdEstimate?: number;
+    voiceSeconds?: number;
+    throttled?: boolean;
+    fallback?: boolean;
+    breakdown?: CostBreakdown;
+  };
   orders?: any[];
   ekgHistory?: { ts: number; summary: string; imageUrl?: string }[];
   telemetryHistory?: { ts: number; rhythm?: string; note?: string }[];
@@ -49,6 +65,9 @@ type DoctorUtteranceListener = (text: string, userId: string, character?: Charac
 type ScenarioListener = (scenarioId: PatientScenarioId) => void;
 type AnalysisResultListener = (result: AnalysisResult) => void;
 type ComplexDebriefResultListener = (result: ComplexDebriefResult) => void;
+type AlarmListener = (alarm: MonitorAlarm) => void;
+type DefibStateListener = (state: Extract<ServerToClientMessage, { type: "defib_state" }>) => void;
+type TeamRosterListener = (roster: Extract<ServerToClientMessage, { type: "team_roster" }>) => void;
 type TokenRefresher = () => Promise<string | undefined>;
 
 const DEFAULT_URL =
@@ -99,6 +118,9 @@ class VoiceGatewayClient {
   private analysisListeners = new Set<AnalysisResultListener>();
   private complexDebriefListeners = new Set<ComplexDebriefResultListener>();
   private voiceErrorListeners = new Set<VoiceErrorListener>();
+  private alarmListeners = new Set<AlarmListener>();
+  private defibListeners = new Set<DefibStateListener>();
+  private teamRosterListeners = new Set<TeamRosterListener>();
   private voiceFallback = false;
   private correlationId?: string;
   private lastAudioUrl: string | null = null;
@@ -553,6 +575,71 @@ class VoiceGatewayClient {
     return () => this.complexDebriefListeners.delete(cb);
   }
 
+  sendAlarmAction(alarmId: AlarmId, action: AlarmAction) {
+    if (!this.sessionId || !this.userId) return;
+    this.send({
+      type: "alarm_action",
+      sessionId: this.sessionId,
+      userId: this.userId,
+      alarmId,
+      action,
+    });
+  }
+
+  sendCprEvent(event: CprEventKind, rate?: number) {
+    if (!this.sessionId || !this.userId) return;
+    this.send({
+      type: "cpr_event",
+      sessionId: this.sessionId,
+      userId: this.userId,
+      event,
+      ...(rate !== undefined ? { rate } : {}),
+    });
+  }
+
+  sendDefibAction(action: DefibAction, params: DefibActionParams = {}) {
+    if (!this.sessionId || !this.userId) return;
+    this.send({
+      type: "defib_action",
+      sessionId: this.sessionId,
+      userId: this.userId,
+      action,
+      ...params,
+    });
+  }
+
+  onDefibState(cb: DefibStateListener) {
+    this.defibListeners.add(cb);
+    return () => this.defibListeners.delete(cb);
+  }
+
+  /**
+   * Claim a code-team role ("auto" takes the first open one; null steps down).
+   * A presenter passes a target to assign someone else's role.
+   */
+  sendTeamRole(teamRole: TeamRole | "auto" | null, target?: { userId: string; displayName: string }) {
+    if (!this.sessionId || !this.userId) return;
+    const displayName = target?.displayName ?? this.displayName;
+    this.send({
+      type: "team_role",
+      sessionId: this.sessionId,
+      userId: this.userId,
+      teamRole,
+      ...(displayName ? { displayName } : {}),
+      ...(target ? { targetUserId: target.userId } : {}),
+    });
+  }
+
+  onTeamRoster(cb: TeamRosterListener) {
+    this.teamRosterListeners.add(cb);
+    return () => this.teamRosterListeners.delete(cb);
+  }
+
+  onAlarm(cb: AlarmListener) {
+    this.alarmListeners.add(cb);
+    return () => this.alarmListeners.delete(cb);
+  }
+
   onVoiceError(cb: VoiceErrorListener) {
     this.voiceErrorListeners.add(cb);
     return () => this.voiceErrorListeners.delete(cb);
@@ -624,6 +711,18 @@ class VoiceGatewayClient {
         this.complexDebriefListeners.forEach((cb) => cb(msg));
         break;
       }
+      case "alarm": {
+        this.alarmListeners.forEach((cb) => cb(msg.alarm));
+        break;
+      }
+      case "defib_state": {
+        this.defibListeners.forEach((cb) => cb(msg));
+        break;
+      }
+      case "team_roster": {
+        this.teamRosterListeners.forEach((cb) => cb(msg));
+        break;
+      }
       case "sim_state": {
         // Track voiceFallback and correlationId
         const anyMsg = msg as any;
@@ -647,6 +746,7 @@ class VoiceGatewayClient {
             interventions: anyMsg.interventions,
             telemetry: anyMsg.telemetry,
             rhythmSummary: anyMsg.rhythmSummary,
+            rhythm: msg.rhythm,
             telemetryWaveform: anyMsg.telemetryWaveform,
             findings: msg.findings,
             fallback: msg.fallback,
@@ -685,6 +785,11 @@ class VoiceGatewayClient {
         // Handle auth errors - refresh token once and retry
         if (msg.message === "unauthorized_token") {
           this.handleUnauthorizedToken();
+        } else if (msg.code === "presenter_not_authorized") {
+          // Not the session owner or an admin; a fresh token will not change that
+          this.intentionalDisconnect = true;
+          this.cleanupConnection();
+          this.setStatus({ state: "error", reason: "unauthorized" });
         }
         break;
       }
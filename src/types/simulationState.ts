@@ -3,7 +3,15 @@
  * Centralizes simState structure to reduce duplication across components.
  */
 
-import type { PatientScenarioId } from "./voiceGateway";
+import type {
+  CostBreakdown,
+  EchoReport,
+  LabPanelId,
+  LabPanelResult,
+  PatientScenarioId,
+  Rhythm,
+  TeamActor,
+} from "./voiceGateway";
 
 /** Auscultation audio clip for heart/lung sounds */
 export interface AuscultationClip {
@@ -21,6 +29,7 @@ export type OrderType =
   | "ekg"
   | "labs"
   | "imaging"
+  | "echo"
   | "cardiac_exam"
   | "lung_exam"
   | "general_exam"
@@ -34,8 +43,14 @@ export interface OrderResult {
   nextAction?: string;
   rationale?: string;
   imageUrl?: string;
+  /** Heart rate when an EKG was acquired */
+  hr?: number;
   /** Additional metadata from backend order processing */
   meta?: Record<string, unknown>;
+  /** Structured lab panels with reference ranges and flags */
+  labs?: LabPanelResult[];
+  /** Structured echocardiogram report */
+  echo?: EchoReport;
 }
 
 /** Order in the simulation */
@@ -43,9 +58,10 @@ export interface SimOrder {
   id: string;
   type: OrderType;
   status: OrderStatus;
+  labPanels?: LabPanelId[];
   result?: OrderResult;
   completedAt?: number;
-  orderedBy?: { id: string; name: string; role: string };
+  orderedBy?: TeamActor;
 }
 
 /** EKG history entry */
@@ -67,6 +83,7 @@ export interface TreatmentHistoryEntry {
   ts: number;
   treatmentType: string;
   note?: string;
+  orderedBy?: TeamActor;
 }
 
 /** Budget/cost tracking state */
@@ -75,6 +92,8 @@ export interface BudgetState {
   voiceSeconds?: number;
   throttled?: boolean;
   fallback?: boolean;
+  /** Spend per modality (realtime voice, chat, transcription, speech) */
+  breakdown?: CostBreakdown;
 }
 
 /** IV access status */
@@ -143,6 +162,7 @@ export interface SimulationState {
   examAudio?: AuscultationClip[];
   telemetry?: boolean;
   rhythmSummary?: string;
+  rhythm?: Rhythm;
   telemetryWaveform?: number[];
   findings?: string[];
   fallback: boolean;
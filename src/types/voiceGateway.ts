@@ -1,3 +1,24 @@
+import type { Rhythm } from "../../voice-gateway/src/sim/rhythm";
+import type { LabPanelId, LabPanelResult } from "../../voice-gateway/src/sim/labTypes";
+import type { EchoReport } from "../../voice-gateway/src/sim/echoReports";
+import type { DefibAction, DefibActionParams, DefibrillatorState } from "../../voice-gateway/src/sim/defibrillator";
+import type { TeamActor, TeamMember, TeamRole } from "../../voice-gateway/src/sim/teamRoles";
+import type { ClosedLoopMetrics } from "../../voice-gateway/src/sim/closedLoop";
+import type { CostBreakdown } from "../../voice-gateway/src/sim/pricing";
+
+export type { Rhythm, RhythmCode } from "../../voice-gateway/src/sim/rhythm";
+export type { LabFlag, LabPanelId, LabPanelResult, LabValue } from "../../voice-gateway/src/sim/labTypes";
+export type { EchoMedia, EchoReport } from "../../voice-gateway/src/sim/echoReports";
+export type {
+  DefibAction,
+  DefibActionParams,
+  DefibrillatorState,
+  PacingState,
+} from "../../voice-gateway/src/sim/defibrillator";
+export type { BedsideAction, TeamActor, TeamMember, TeamRole } from "../../voice-gateway/src/sim/teamRoles";
+export type { ClosedLoopMetrics } from "../../voice-gateway/src/sim/closedLoop";
+export type { CostBreakdown, UsageModality } from "../../voice-gateway/src/sim/pricing";
+
 export type ClientRole = "presenter" | "participant";
 
 export type PatientScenarioId =
@@ -18,7 +39,7 @@ export type ComplexScenarioId = "teen_svt_complex_v1" | "peds_myocarditis_silent
 
 export type CharacterId = "patient" | "parent" | "nurse" | "tech" | "consultant" | "imaging";
 
-export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
 
 export type OrderResult = {
   type: OrderType;
@@ -33,6 +54,33 @@ export type OrderResult = {
   abnormal?: string;
   nextAction?: string;
   rationale?: string;
+  labs?: LabPanelResult[];
+  echo?: EchoReport;
+};
+
+export type AlarmId = "hrHigh" | "hrLow" | "spo2Low" | "sbpHigh" | "sbpLow" | "rrHigh" | "rrLow" | "tempHigh" | "tempLow";
+
+export type AlarmPriority = "high" | "medium" | "low";
+
+export type AlarmAction = "silence" | "acknowledge";
+
+/** Metronome reports from the code team: compressions started or paused, a rate sample, a compressor swap */
+export type CprEventKind = "start" | "pause" | "rate" | "swap";
+
+export type MonitorAlarm = {
+  id: AlarmId;
+  vital: "hr" | "spo2" | "sbp" | "rr" | "temp";
+  priority: AlarmPriority;
+  status: "active" | "silenced" | "acknowledged" | "cleared";
+  message: string;
+  value: number;
+  limit: number;
+  raisedAt: number;
+  silencedUntil?: number;
+  acknowledgedAt?: number;
+  respondedAt?: number;
+  respondedBy?: string;
+  clearedAt?: number;
 };
 
 export const ROLE_COLORS: Record<
@@ -67,6 +115,8 @@ export type AnalysisResult = {
   strengths: string[];
   opportunities: string[];
   teachingPoints: string[];
+  /** Closed-loop communication on spoken orders, when any were given */
+  communication?: ClosedLoopMetrics;
 };
 
 export type TimelineEvent = {
@@ -79,7 +129,8 @@ export type TimelineEvent = {
 };
 
 export type ComplexDebriefResult = AnalysisResult & {
-  scenarioId: ComplexScenarioId;
+  /** A complex scenario, or a simple one scored against its rubric */
+  scenarioId: PatientScenarioId;
   passed: boolean;
   grade: "A" | "B" | "C" | "D" | "F";
   checklistScore: string;
@@ -161,6 +212,37 @@ export type ClientToServerMessage =
       sessionId: string;
       userId: string;
       turns: DebriefTurn[];
+    }
+  | {
+      type: "alarm_action";
+      sessionId: string;
+      userId: string;
+      alarmId: AlarmId;
+      action: AlarmAction;
+    }
+  | {
+      type: "cpr_event";
+      sessionId: string;
+      userId: string;
+      event: CprEventKind;
+      /** Compressions per minute (rate events) */
+      rate?: number;
+    }
+  | ({
+      type: "defib_action";
+      sessionId: string;
+      userId: string;
+      action: DefibAction;
+    } & DefibActionParams)
+  | {
+      type: "team_role";
+      sessionId: string;
+      userId: string;
+      /** A code-team role, "auto" for the first open one, or null to step down */
+      teamRole: TeamRole | "auto" | null;
+      displayName?: string;
+      /** Presenter assigning someone else's role */
+      targetUserId?: string;
     };
 
 export type ServerToClientMessage =
@@ -215,6 +297,7 @@ export type ServerToClientMessage =
       strengths: string[];
       opportunities: string[];
       teachingPoints: string[];
+      communication?: ClosedLoopMetrics;
     }
   | {
       type: "sim_state";
@@ -227,22 +310,58 @@ export type ServerToClientMessage =
       examAudio?: { type: "heart" | "lung"; label: string; url: string }[];
       telemetry?: boolean;
       rhythmSummary?: string;
+      rhythm?: Rhythm;
       telemetryWaveform?: number[];
       findings?: string[];
       fallback: boolean;
       voiceFallback?: boolean;
       correlationId?: string;
-      budget?: { usdEstimate?: number; voiceSeconds?: number; throttled?: boolean; fallback?: boolean };
-      orders?: { id: string; type: OrderType; status: "pending" | "complete"; result?: OrderResult; completedAt?: number }[];
+      budget?: {
+        usdEstimate?: number;
+        voiceSeconds?: number;
+        throttled?: boolean;
+        fallback?: boolean;
+        breakdown?: CostBreakdown;
+      };
+      orders?: {
+        id: string;
+        type: OrderType;
+        status: "pending" | "complete";
+        orderedBy?: TeamActor;
+        labPanels?: LabPanelId[];
+        result?: OrderResult;
+        completedAt?: number;
+      }[];
       ekgHistory?: { ts: number; summary: string; imageUrl?: string }[];
       telemetryHistory?: { ts: number; rhythm?: string; note?: string }[];
     }
+  | {
+      type: "alarm";
+      sessionId: string;
+      alarm: MonitorAlarm;
+    }
+  | {
+      type: "defib_state";
+      sessionId: string;
+      device: DefibrillatorState;
+      weightKg: number;
+      /** Device prompt for the last action ("Charge first.", "Energy changed - charge dumped.") */
+      prompt?: string;
+    }
+  | {
+      type: "team_roster";
+      sessionId: string;
+      members: TeamMember[];
+    }
   | {
       type: "pong";
     }
   | {
       type: "error";
       message: string;
+      /** Machine-readable reason for permission failures */
+      code?: "unauthorized_token" | "presenter_not_authorized" | "command_forbidden" | "team_role_taken";
+      commandType?: string;
     }
   | {
       type: "voice_error";
@@ -254,7 +373,7 @@ export type ServerToClientMessage =
   | {
       type: "complex_debrief_result";
       sessionId: string;
-      scenarioId: ComplexScenarioId;
+      scenarioId: PatientScenarioId;
       summary: string;
       strengths: string[];
       opportunities: string[];
@@ -272,6 +391,7 @@ export type ServerToClientMessage =
       totalPoints: number;
       timeline: TimelineEvent[];
       scenarioSpecificFeedback: string[];
+      communication?: ClosedLoopMetrics;
     };
 
 export type PatientState = "idle" | "listening" | "speaking" | "error";
@@ -0,0 +1,78 @@
+const mockGetDoc = jest.fn();
+const mockGetDocs = jest.fn();
+
+jest.mock("../firestore", () => ({
+  __esModule: true,
+  db: {},
+  collection: (_db: unknown, path: string) => ({ path }),
+  doc: (_db: unknown, ...segments: string[]) => ({ path: segments.join("/") }),
+  getDoc: (...args: any[]) => mockGetDoc(...args),
+  getDocs: (...args: any[]) => mockGetDocs(...args),
+  addDoc: jest.fn(),
+  setDoc: jest.fn(),
+}));
+
+jest.mock("../../firebase", () => ({
+  __esModule: true,
+  isConfigured: true,
+}));
+
+import { fetchDeck, listDecks } from "../deckService";
+import { BUNDLED_DECKS, DEFAULT_DECK_ID, getBundledDeck } from "../../data/bundledDecks";
+
+const snapshot = (data?: Record<string, unknown>) => ({ exists: () => data !== undefined, data: () => data });
+
+beforeEach(() => {
+  mockGetDoc.mockReset();
+  mockGetDocs.mockReset();
+});
+
+describe("fetchDeck", () => {
+  test("a new custom deck keeps its empty question list", async () => {
+    const starter = [{ id: "slide-1", index: 0, html: "<h1>New</h1>" }];
+    mockGetDoc.mockResolvedValue(snapshot({ title: "New deck", slides: starter, questions: [] }));
+
+    const deck = await fetchDeck("custom-1");
+
+    expect(deck.title).toBe("New deck");
+    expect(deck.slides).toEqual(starter);
+    expect(deck.questions).toEqual([]);
+  });
+
+  test("an archived-only bundled deck keeps its bundled content", async () => {
+    mockGetDoc.mockResolvedValue(snapshot({ archived: true, updatedAt: "2026-01-01T00:00:00.000Z" }));
+
+    const deck = await fetchDeck("case1");
+
+    expect(deck.slides).toBe(getBundledDeck("case1")?.slides);
+    expect(deck.questions).toBe(getBundledDeck("case1")?.questions);
+  });
+
+  test("a missing custom deck falls back to the default deck", async () => {
+    mockGetDoc.mockResolvedValue(snapshot());
+
+    const deck = await fetchDeck("missing");
+
+    expect(deck).toBe(getBundledDeck(DEFAULT_DECK_ID));
+  });
+});
+
+describe("listDecks", () => {
+  test("merges stored decks with bundled decks by id", async () => {
+    mockGetDocs.mockResolvedValue({
+      docs: [
+        { id: "custom-1", data: () => ({ title: "My deck", slides: [], questions: [], source: "custom" }) },
+        { id: "case1", data: () => ({ archived: true }) },
+      ],
+    });
+
+    const visible = await listDecks();
+    const all = await listDecks({ includeArchived: true });
+
+    expect(visible.map((deck) => deck.id)).toContain("custom-1");
+    expect(visible.map((deck) => deck.id)).not.toContain("case1");
+    expect(all).toHaveLength(BUNDLED_DECKS.length + 1);
+    const archived = all.find((deck) => deck.id === "case1");
+    expect(archived).toMatchObject({ archived: true, source: "bundled", title: getBundledDeck("case1")?.title });
+  });
+});
@@ -0,0 +1,42 @@
+/** @jest-environment node */
+import { calculateCreditPoints, calculatePoints, getAnswerCredit } from "../scoringUtils";
+import type { Question, ResponseAnswer } from "../../types";
+// functions/ deploys as CommonJS without a build step, so it keeps a JS copy of the scoring rules
+import * as serverScoring from "../../../functions/scoring.js";
+
+const base: Question = { id: "q", stem: "Stem", options: ["A", "B", "C", "D"], correctIndex: 1 };
+
+const cases: [string, Question, ResponseAnswer][] = [
+  ["single, correct", base, { choiceIndex: 1 }],
+  ["single, wrong", base, { choiceIndex: 3 }],
+  ["multi, all", { ...base, type: "multi", correctIndices: [0, 2] }, { choiceIndices: [0, 2] }],
+  ["multi, partial", { ...base, type: "multi", correctIndices: [0, 2, 3] }, { choiceIndices: [0, 3] }],
+  ["multi, wrong picks", { ...base, type: "multi", correctIndices: [0, 2] }, { choiceIndices: [0, 1, 3] }],
+  ["multi, none correct", { ...base, type: "multi", correctIndices: [] }, { choiceIndices: [] }],
+  ["ordering, in place", { ...base, type: "ordering" }, { order: [0, 1, 2, 3] }],
+  ["ordering, swapped", { ...base, type: "ordering" }, { order: [1, 0, 2, 3] }],
+  ["ordering, short", { ...base, type: "ordering" }, { order: [0, 1] }],
+  ["numeric, edge", { ...base, type: "numeric", numericAnswer: { value: 0.3, tolerance: 0.1 } }, { numericValue: 0.2 }],
+  ["numeric, outside", { ...base, type: "numeric", numericAnswer: { value: 3.2, tolerance: 0.3 } }, { numericValue: 3.6 }],
+  ["numeric, missing", { ...base, type: "numeric", numericAnswer: { value: 5, tolerance: 0 } }, {}],
+  ["numeric, ungraded", { ...base, type: "numeric" }, { numericValue: 5 }],
+  ["free text, match", { ...base, type: "freeText", acceptedAnswers: ["IVIG"] }, { text: "  ivig " }],
+  ["free text, miss", { ...base, type: "freeText", acceptedAnswers: ["IVIG"] }, { text: "steroids" }],
+  ["free text, ungraded", { ...base, type: "freeText" }, { text: "aspirin" }],
+];
+
+describe("functions/scoring.js matches scoringUtils", () => {
+  test.each(cases)("credit: %s", (_label, question, answer) => {
+    expect(serverScoring.getAnswerCredit(question, answer)).toBe(getAnswerCredit(question, answer));
+  });
+
+  test.each([0, 1, 2, 3, 4, 7])("points at streak %i", (streak) => {
+    [undefined, 0, 5000, 5001, 10000, 10001, 60000].forEach((responseTimeMs) => {
+      expect(serverScoring.calculatePoints(streak, responseTimeMs)).toBe(calculatePoints(streak, responseTimeMs));
+      [0, 1 / 3, 0.5, 1, 1.5].forEach((credit) => {
+        const { points } = serverScoring.scoreAnswer({ credit, participant: { streak }, responseTimeMs });
+        expect(points).toBe(calculateCreditPoints(credit, streak, responseTimeMs));
+      });
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { calculateCreditPoints, calculatePoints, getAnswerCredit } from "../scoringUtils";
+import type { Question } from "../../types";
+
+const base: Question = { id: "q", stem: "Stem", options: ["A", "B", "C", "D"], correctIndex: 1 };
+
+describe("getAnswerCredit", () => {
+  test("single choice is all or nothing", () => {
+    expect(getAnswerCredit(base, { choiceIndex: 1 })).toBe(1);
+    expect(getAnswerCredit(base, { choiceIndex: 2 })).toBe(0);
+  });
+
+  test("multi-select subtracts wrong picks from correct ones", () => {
+    const question: Question = { ...base, type: "multi", correctIndices: [0, 2] };
+    expect(getAnswerCredit(question, { choiceIndices: [0, 2] })).toBe(1);
+    expect(getAnswerCredit(question, { choiceIndices: [0] })).toBe(0.5);
+    expect(getAnswerCredit(question, { choiceIndices: [0, 1] })).toBe(0);
+    expect(getAnswerCredit(question, { choiceIndices: [1, 3] })).toBe(0);
+  });
+
+  test("ordering credits items in their correct position", () => {
+    const question: Question = { ...base, type: "ordering" };
+    expect(getAnswerCredit(question, { order: [0, 1, 2, 3] })).toBe(1);
+    expect(getAnswerCredit(question, { order: [0, 1, 3, 2] })).toBe(0.5);
+    expect(getAnswerCredit(question, { order: [0, 1] })).toBe(0);
+  });
+
+  test("numeric answers count within tolerance", () => {
+    const question: Question = {
+      ...base,
+      type: "numeric",
+      options: [],
+      numericAnswer: { value: 3.2, tolerance: 0.3, unit: "mg" },
+    };
+    expect(getAnswerCredit(question, { numericValue: 3.5 })).toBe(1);
+    expect(getAnswerCredit(question, { numericValue: 2.9 })).toBe(1);
+    expect(getAnswerCredit(question, { numericValue: 3.6 })).toBe(0);
+  });
+
+  test("free text is ungraded unless accepted answers are set", () => {
+    const question: Question = { ...base, type: "freeText", options: [] };
+    expect(getAnswerCredit(question, { text: "aspirin" })).toBeNull();
+    const graded = { ...question, acceptedAnswers: ["IVIG", "immunoglobulin"] };
+    expect(getAnswerCredit(graded, { text: "  ivig " })).toBe(1);
+    expect(getAnswerCredit(graded, { text: "steroids" })).toBe(0);
+  });
+});
+
+describe("calculateCreditPoints", () => {
+  test("scales full points by credit", () => {
+    expect(calculateCreditPoints(1, 2, 4000)).toBe(calculatePoints(2, 4000));
+    expect(calculateCreditPoints(0.5)).toBe(50);
+    expect(calculateCreditPoints(0)).toBe(0);
+  });
+});
@@ -1,39 +1,227 @@
 import { defaultDeck } from "../data/ductalDeck";
+import { BUNDLED_DECKS, DEFAULT_DECK_ID, getBundledDeck } from "../data/bundledDecks";
 import type { DeckData } from "../types";
-import { db, doc, getDoc, setDoc } from "./firestore";
+import { addDoc, collection, db, doc, getDoc, getDocs, setDoc } from "./firestore";
 import { isConfigured } from "../firebase";
 
-const DECK_DOC_PATH = ["configs", "deck"] as const;
+/**
+ * Deck library backed by Firestore decks/{deckId}.
+ * Bundled decks (src/data) are seeded once with stable ids; the legacy single
+ * configs/deck document is migrated into the default deck during seeding and
+ * still read as a fallback until then. Local Demo mode serves bundled decks read-only.
+ */
 
-function sanitizeDeck(data?: Partial<DeckData> | null): DeckData {
-  if (!data) return defaultDeck;
+export { DEFAULT_DECK_ID };
+
+const DECKS_COLLECTION = "decks";
+const LEGACY_DECK_DOC_PATH = ["configs", "deck"] as const;
+const LIBRARY_MARKER_PATH = ["configs", "deckLibrary"] as const;
+
+export type DeckSource = "bundled" | "custom";
+
+export type DeckSummary = {
+  id: string;
+  title: string;
+  slideCount: number;
+  questionCount: number;
+  archived: boolean;
+  source: DeckSource;
+  updatedAt?: string;
+};
+
+type DeckDoc = DeckData & {
+  archived?: boolean;
+  source?: DeckSource;
+  createdAt?: string;
+};
+
+export type SeedResult = {
+  seeded: string[];
+  alreadySeeded: boolean;
+};
+
+/**
+ * A stored deck as saved: empty slides or questions stay empty. Fields the
+ * document lacks (a bundled deck that was only archived) come from `base`.
+ */
+function sanitizeDeck(data?: Partial<DeckData> | null, base?: DeckData): DeckData {
+  if (!data) return base ?? defaultDeck;
+  return {
+    title: data.title || base?.title || "Untitled deck",
+    slides: Array.isArray(data.slides) ? data.slides : base?.slides ?? [],
+    questions: Array.isArray(data.questions) ? data.questions : base?.questions ?? [],
+    updatedAt: data.updatedAt,
+  };
+}
+
+function toSummary(id: string, data: Partial<DeckDoc>): DeckSummary {
   return {
-    title: data.title || defaultDeck.title,
-    slides: Array.isArray(data.slides) && data.slides.length > 0 ? data.slides : defaultDeck.slides,
-    questions:
-      Array.isArray(data.questions) && data.questions.length > 0 ? data.questions : defaultDeck.questions,
+    id,
+    title: data.title || "Untitled deck",
+    slideCount: Array.isArray(data.slides) ? data.slides.length : 0,
+    questionCount: Array.isArray(data.questions) ? data.questions.length : 0,
+    archived: data.archived === true,
+    source: data.source ?? "custom",
     updatedAt: data.updatedAt,
   };
 }
 
-export async function fetchDeck(): Promise<DeckData> {
-  if (!isConfigured) return defaultDeck;
+function bundledSummaries(): DeckSummary[] {
+  return BUNDLED_DECKS.map(({ id, deck }) => toSummary(id, { ...deck, source: "bundled" }));
+}
+
+function requireFirebase(action: string) {
+  if (!isConfigured) {
+    throw new Error(`Firebase configuration required to ${action}.`);
+  }
+}
+
+function createStarterDeck(title: string): DeckData {
+  return {
+    title,
+    slides: [
+      {
+        id: `slide_${Date.now()}`,
+        index: 0,
+        type: "content",
+        html: `<div class="w-full h-full bg-slate-900 text-slate-50 p-6">
+  <h2 class="text-2xl font-semibold mb-4">${title}</h2>
+  <p>Edit this slide in the admin editor.</p>
+</div>`,
+      },
+    ],
+    questions: [],
+  };
+}
+
+/**
+ * Lists library decks sorted by title; archived decks are hidden unless requested.
+ * Bundled decks are listed whether or not they have been seeded yet; a stored
+ * deck with the same id replaces the bundled summary.
+ */
+export async function listDecks(options: { includeArchived?: boolean } = {}): Promise<DeckSummary[]> {
+  const byId = new Map(bundledSummaries().map((summary) => [summary.id, summary]));
+  if (isConfigured) {
+    try {
+      const snap = await getDocs(collection(db, DECKS_COLLECTION));
+      snap.docs.forEach((d: { id: string; data: () => unknown }) => {
+        const bundled = getBundledDeck(d.id);
+        const data = d.data() as Partial<DeckDoc>;
+        byId.set(d.id, toSummary(d.id, bundled ? { ...bundled, source: "bundled", ...data } : data));
+      });
+    } catch (error) {
+      console.warn("Failed to list decks, using bundled decks", error);
+    }
+  }
+  return [...byId.values()]
+    .filter((summary) => options.includeArchived || !summary.archived)
+    .sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+}
+
+export async function fetchDeck(deckId: string = DEFAULT_DECK_ID): Promise<DeckData> {
+  const bundled = getBundledDeck(deckId);
+  if (!isConfigured) return bundled ?? defaultDeck;
   try {
-    const ref = doc(db, ...DECK_DOC_PATH);
-    const snap = await getDoc(ref);
+    const snap = await getDoc(doc(db, DECKS_COLLECTION, deckId));
     if (snap.exists()) {
-      return sanitizeDeck(snap.data() as DeckData);
+      return sanitizeDeck(snap.data() as DeckData, bundled);
+    }
+    if (deckId === DEFAULT_DECK_ID) {
+      const legacy = await getDoc(doc(db, ...LEGACY_DECK_DOC_PATH));
+      if (legacy.exists()) {
+        return sanitizeDeck(legacy.data() as DeckData, bundled);
+      }
     }
   } catch (error) {
     console.warn("Failed to load deck config, using defaults", error);
   }
-  return defaultDeck;
+  return bundled ?? defaultDeck;
 }
 
-export async function persistDeck(deck: DeckData): Promise<void> {
-  if (!isConfigured) {
-    throw new Error("Firebase configuration required to save the deck.");
+export async function persistDeck(deck: DeckData, deckId: string = DEFAULT_DECK_ID): Promise<void> {
+  requireFirebase("save the deck");
+  const ref = doc(db, DECKS_COLLECTION, deckId);
+  await setDoc(ref, { ...deck, updatedAt: new Date().toISOString() }, { merge: true });
+}
+
+/** Creates an empty deck with a single starter slide and returns its id. */
+export async function createDeck(title: string): Promise<string> {
+  requireFirebase("create a deck");
+  const now = new Date().toISOString();
+  const ref = await addDoc(collection(db, DECKS_COLLECTION), {
+    ...createStarterDeck(title),
+    archived: false,
+    source: "custom",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ref.id;
+}
+
+/** Copies an existing deck's slides and questions into a new custom deck. */
+export async function duplicateDeck(sourceId: string, title?: string): Promise<string> {
+  requireFirebase("duplicate a deck");
+  const source = await fetchDeck(sourceId);
+  const now = new Date().toISOString();
+  const ref = await addDoc(collection(db, DECKS_COLLECTION), {
+    title: title || `${source.title} (copy)`,
+    slides: source.slides,
+    questions: source.questions,
+    archived: false,
+    source: "custom",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return ref.id;
+}
+
+/** Archived decks stay in Firestore but are hidden from the session deck picker. */
+export async function setDeckArchived(deckId: string, archived: boolean): Promise<void> {
+  requireFirebase("archive a deck");
+  if (archived && deckId === DEFAULT_DECK_ID) {
+    throw new Error("The default deck cannot be archived.");
+  }
+  // Merge: a bundled deck that was never saved has no document to update yet
+  await setDoc(doc(db, DECKS_COLLECTION, deckId), { archived, updatedAt: new Date().toISOString() }, { merge: true });
+}
+
+/**
+ * One-time import of the bundled decks into the library.
+ * Existing decks are never overwritten; a marker in configs/deckLibrary makes
+ * repeat calls a no-op. An edited legacy configs/deck becomes the default deck.
+ */
+export async function seedBundledDecks(): Promise<SeedResult> {
+  requireFirebase("seed the deck library");
+  const markerRef = doc(db, ...LIBRARY_MARKER_PATH);
+  const marker = await getDoc(markerRef);
+  if (marker.exists() && marker.data()?.seededAt) {
+    return { seeded: [], alreadySeeded: true };
   }
-  const ref = doc(db, ...DECK_DOC_PATH);
-  await setDoc(ref, { ...deck, updatedAt: new Date().toISOString() });
+
+  const seeded: string[] = [];
+  const now = new Date().toISOString();
+  for (const { id, deck } of BUNDLED_DECKS) {
+    const ref = doc(db, DECKS_COLLECTION, id);
+    const existing = await getDoc(ref);
+    if (existing.exists()) continue;
+
+    let content = deck;
+    if (id === DEFAULT_DECK_ID) {
+      const legacy = await getDoc(doc(db, ...LEGACY_DECK_DOC_PATH));
+      if (legacy.exists()) content = sanitizeDeck(legacy.data() as DeckData, deck);
+    }
+    await setDoc(ref, {
+      title: content.title,
+      slides: content.slides,
+      questions: content.questions,
+      archived: false,
+      source: "bundled",
+      createdAt: now,
+      updatedAt: now,
+    });
+    seeded.push(id);
+  }
+
+  await setDoc(markerRef, { seededAt: now, deckIds: BUNDLED_DECKS.map((entry) => entry.id) });
+  return { seeded, alreadySeeded: false };
 }
@@ -44,7 +44,13 @@ function validateSessionShape(data: any): void {
 function validateResponseShape(data: any, responseId: string): void {
   if (typeof data.userId !== "string") throw new Error("[mock-firestore] userId must be string");
   if (typeof data.questionId !== "string") throw new Error("[mock-firestore] questionId must be string");
-  if (typeof data.choiceIndex !== "number") throw new Error("[mock-firestore] choiceIndex must be number");
+  const hasAnswer =
+    typeof data.choiceIndex === "number" ||
+    Array.isArray(data.choiceIndices) ||
+    Array.isArray(data.order) ||
+    typeof data.numericValue === "number" ||
+    (typeof data.text === "string" && data.text.length <= 280);
+  if (!hasAnswer) throw new Error("[mock-firestore] response needs an answer (choiceIndex, choiceIndices, order, numericValue or text)");
   // Deterministic ID per firestore.rules: responseId == userId + "_" + questionId
   const expectedId = `${data.userId}_${data.questionId}`;
   if (responseId !== expectedId) {
@@ -0,0 +1,66 @@
+/**
+ * Lab trends: completed lab orders grouped by panel so repeated draws of the
+ * same analyte can be read side by side.
+ */
+
+import type { LabPanelResult, LabValue } from "../types/voiceGateway";
+
+export interface LabOrder {
+  id: string;
+  type: string;
+  status: string;
+  completedAt?: number;
+  result?: { labs?: LabPanelResult[] };
+}
+
+export interface LabDraw {
+  orderId: string;
+  completedAt?: number;
+  values: Record<string, LabValue>;
+}
+
+export interface LabPanelTrend {
+  panel: string;
+  label: string;
+  analytes: { id: string; label: string; unit: string; refLow?: number; refHigh?: number }[];
+  /** Oldest first */
+  draws: LabDraw[];
+}
+
+/**
+ * Group completed lab orders by panel so repeated draws line up as columns.
+ */
+export function buildLabTrends(orders: LabOrder[]): LabPanelTrend[] {
+  const completed = orders
+    .filter((o) => o.type === "labs" && o.status === "complete" && o.result?.labs?.length)
+    .sort((a, b) => (a.completedAt ?? 0) - (b.completedAt ?? 0));
+
+  const trends = new Map<string, LabPanelTrend>();
+  for (const order of completed) {
+    for (const panel of order.result?.labs ?? []) {
+      const trend = trends.get(panel.panel) ?? {
+        panel: panel.panel,
+        label: panel.label,
+        analytes: panel.values.map(({ id, label, unit, refLow, refHigh }) => ({ id, label, unit, refLow, refHigh })),
+        draws: [],
+      };
+      trend.draws.push({
+        orderId: order.id,
+        completedAt: order.completedAt,
+        values: Object.fromEntries(panel.values.map((v) => [v.id, v])),
+      });
+      trends.set(panel.panel, trend);
+    }
+  }
+  return [...trends.values()];
+}
+
+/** Arrow for the change between the last two numeric results */
+export function trendArrow(draws: LabDraw[], analyteId: string): "↑" | "↓" | "→" | null {
+  const numeric = draws.map((d) => d.values[analyteId]?.value).filter((v): v is number => typeof v === "number");
+  if (numeric.length < 2) return null;
+  const [prev, last] = numeric.slice(-2);
+  if (last > prev) return "↑";
+  if (last < prev) return "↓";
+  return "→";
+}
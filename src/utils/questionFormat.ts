@@ -0,0 +1,49 @@
+/**
+ * Display helpers shared by the participant question view, the presenter chart
+ * and the session wrap-up for every question type.
+ */
+
+import type { Question } from "../types";
+import { getQuestionType } from "./scoringUtils";
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+/** Results footer text for each question type. */
+export function describeCorrectAnswer(question: Question): string {
+  switch (getQuestionType(question)) {
+    case "multi":
+      return `Correct Answers: ${(question.correctIndices ?? []).slice().sort((a, b) => a - b).map(letter).join(", ") || "none"}`;
+    case "ordering":
+      return `Correct Order: ${question.options.map((opt, i) => `${i + 1}. ${opt}`).join(" → ")}`;
+    case "numeric": {
+      const answer = question.numericAnswer;
+      if (!answer) return "No numeric answer configured";
+      const unit = answer.unit ? ` ${answer.unit}` : "";
+      return `Correct Answer: ${answer.value}${unit} (±${answer.tolerance}${unit})`;
+    }
+    case "freeText":
+      return question.acceptedAnswers?.length
+        ? `Accepted Answers: ${question.acceptedAnswers.join(", ")}`
+        : "Answers are shown on the presenter screen";
+    default:
+      return `Correct Answer: ${letter(question.correctIndex ?? 0)}`;
+  }
+}
+
+/**
+ * Deterministic starting order for ordering questions (options are stored in the
+ * correct order). Seeded by question id so every participant sees the same shuffle.
+ */
+export function getInitialOrder(question: Question): number[] {
+  const order = question.options.map((_, i) => i);
+  let seed = Array.from(question.id).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  for (let i = order.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  if (order.length > 1 && order.every((optionIndex, position) => optionIndex === position)) {
+    order.push(order.shift() as number);
+  }
+  return order;
+}
@@ -4,8 +4,11 @@
  * - No difficulty multiplier (all questions equal base value)
  * - Streak bonus rewards consecutive correct answers
  * - Time bonus rewards faster responses
+ * - Partial credit (0..1) scales the points for multi-select and ordering questions
  */
 
+import type { Question, QuestionType, ResponseAnswer } from "../types";
+
 export const STREAK_THRESHOLDS = {
   2: 1.1,
   3: 1.2,
@@ -60,3 +63,67 @@ export function calculatePoints(
   const timeMult = responseTimeMs != null ? getTimeBonus(responseTimeMs) : 1.0;
   return Math.round(BASE_POINTS * streakMult * timeMult);
 }
+
+export function getQuestionType(question: Pick<Question, "type">): QuestionType {
+  return question.type ?? "single";
+}
+
+/** Case- and whitespace-insensitive form used to match free-text answers. */
+export function normalizeFreeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Credit earned by an answer, from 0 (wrong) to 1 (fully correct).
+ * Returns null when the question is not auto-graded (free text without accepted answers).
+ * - multi: (correct picks − wrong picks) / number of correct options, floored at 0
+ * - ordering: fraction of items placed in their correct position
+ * - numeric: full credit within ±tolerance, otherwise none
+ */
+export function getAnswerCredit(question: Question, answer: ResponseAnswer): number | null {
+  switch (getQuestionType(question)) {
+    case "multi": {
+      const correct = new Set(question.correctIndices ?? []);
+      const picked = new Set(answer.choiceIndices ?? []);
+      if (correct.size === 0) return picked.size === 0 ? 1 : 0;
+      let hits = 0;
+      let misses = 0;
+      picked.forEach((idx) => (correct.has(idx) ? (hits += 1) : (misses += 1)));
+      return Math.max(0, (hits - misses) / correct.size);
+    }
+    case "ordering": {
+      const order = answer.order ?? [];
+      const itemCount = question.options.length;
+      if (itemCount === 0 || order.length !== itemCount) return 0;
+      const inPlace = order.filter((optionIndex, position) => optionIndex === position).length;
+      return inPlace / itemCount;
+    }
+    case "numeric": {
+      if (!question.numericAnswer) return null;
+      const value = answer.numericValue;
+      if (typeof value !== "number" || !Number.isFinite(value)) return 0;
+      const { value: expected, tolerance } = question.numericAnswer;
+      // Small epsilon so 0.1 mg/kg style decimals at the boundary still count
+      return Math.abs(value - expected) <= Math.abs(tolerance) + 1e-9 ? 1 : 0;
+    }
+    case "freeText": {
+      const accepted = (question.acceptedAnswers ?? []).map(normalizeFreeText).filter(Boolean);
+      if (accepted.length === 0) return null;
+      return accepted.includes(normalizeFreeText(answer.text ?? "")) ? 1 : 0;
+    }
+    default:
+      return answer.choiceIndex === question.correctIndex ? 1 : 0;
+  }
+}
+
+/**
+ * Points for an answer worth `credit` (0..1): the full-answer points scaled by credit.
+ */
+export function calculateCreditPoints(
+  credit: number,
+  currentStreak = 0,
+  responseTimeMs?: number
+): number {
+  if (credit <= 0) return 0;
+  return Math.round(calculatePoints(currentStreak, responseTimeMs) * Math.min(credit, 1));
+}
@@ -6,7 +6,7 @@ import {
   initializeTestEnvironment,
   type RulesTestEnvironment,
 } from "@firebase/rules-unit-testing";
-import { doc, setDoc, updateDoc, getDoc } from "firebase/firestore";
+import { doc, setDoc, updateDoc, getDoc, serverTimestamp } from "firebase/firestore";
 
 const rules = readFileSync("firestore.rules", "utf8");
 
@@ -91,6 +91,16 @@ describeIfEmulator("firestore.rules sessions", () => {
     await assertFails(updateDoc(sessionRef, { createdBy: "hijack" }));
   });
 
+  test("requires questionOpenedAt to be the server timestamp", async () => {
+    if (!isEnvReady()) return;
+    const creatorDb = getEnv().authenticatedContext("creator").firestore();
+    const sessionRef = doc(creatorDb, "sessions/session-open");
+    await assertSucceeds(setDoc(sessionRef, baseSession));
+
+    await assertFails(updateDoc(sessionRef, { currentQuestionId: "q1", questionOpenedAt: new Date(0) }));
+    await assertSucceeds(updateDoc(sessionRef, { currentQuestionId: "q1", questionOpenedAt: serverTimestamp() }));
+  });
+
   test("rejects create when createdBy does not match auth uid", async () => {
     if (!isEnvReady()) return;
     const user = getEnv().authenticatedContext("alice");
@@ -231,6 +241,39 @@ describeIfEmulator("firestore.rules responses", () => {
     await assertSucceeds(updateDoc(responseRef, { choiceIndex: 1 }));
   });
 
+  test("accepts typed answers and rejects responses without a valid answer", async () => {
+    if (!isEnvReady()) return;
+    const userId = "u2";
+    const db = getEnv().authenticatedContext(userId).firestore();
+    await assertSucceeds(
+      setDoc(doc(db, `sessions/${sessionId}/responses/${userId}_multi`), {
+        userId,
+        questionId: "multi",
+        choiceIndices: [0, 2],
+      })
+    );
+    await assertSucceeds(
+      setDoc(doc(db, `sessions/${sessionId}/responses/${userId}_numeric`), {
+        userId,
+        questionId: "numeric",
+        numericValue: 3.2,
+      })
+    );
+    await assertFails(
+      setDoc(doc(db, `sessions/${sessionId}/responses/${userId}_free`), {
+        userId,
+        questionId: "free",
+        text: "x".repeat(281),
+      })
+    );
+    await assertFails(
+      setDoc(doc(db, `sessions/${sessionId}/responses/${userId}_empty`), {
+        userId,
+        questionId: "empty",
+      })
+    );
+  });
+
   test("blocks responses with non-deterministic ids or cross-user updates", async () => {
     if (!isEnvReady()) return;
     const userId = "u1";
@@ -261,6 +304,32 @@ describeIfEmulator("firestore.rules responses", () => {
       })
     );
   });
+  test("blocks clients from writing or altering server scoring", async () => {
+    if (!isEnvReady()) return;
+    const userId = "u1";
+    const db = getEnv().authenticatedContext(userId).firestore();
+    const responseRef = doc(db, `sessions/${sessionId}/responses/${userId}_q1`);
+
+    await assertFails(
+      setDoc(responseRef, {
+        userId,
+        questionId: "q1",
+        choiceIndex: 0,
+        scoring: { accepted: true, isCorrect: true, points: 1000 },
+      })
+    );
+
+    await getEnv().withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), `sessions/${sessionId}/responses/${userId}_q1`), {
+        userId,
+        questionId: "q1",
+        choiceIndex: 0,
+        scoring: { accepted: true, isCorrect: false, points: 0 },
+      });
+    });
+    await assertFails(updateDoc(responseRef, { "scoring.points": 1000 }));
+    await assertSucceeds(updateDoc(responseRef, { choiceIndex: 1 }));
+  });
 });
 
 describeIfEmulator("firestore.rules timeline", () => {
@@ -360,6 +429,29 @@ describeIfEmulator("firestore.rules configs", () => {
   });
 });
 
+describeIfEmulator("firestore.rules decks", () => {
+  test("allows authenticated read of library decks", async () => {
+    if (!isEnvReady()) return;
+    await getEnv().withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "decks/case1"), { title: "Case 1", slides: [] });
+    });
+    const userDb = getEnv().authenticatedContext("user").firestore();
+    await assertSucceeds(getDoc(doc(userDb, "decks/case1")));
+    const anonDb = getEnv().unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(anonDb, "decks/case1")));
+  });
+
+  test("only admin can create or archive decks", async () => {
+    if (!isEnvReady()) return;
+    const userDb = getEnv().authenticatedContext("user").firestore();
+    await assertFails(setDoc(doc(userDb, "decks/custom"), { title: "Mine", slides: [] }));
+
+    const adminDb = getEnv().authenticatedContext("admin", { admin: true }).firestore();
+    await assertSucceeds(setDoc(doc(adminDb, "decks/custom"), { title: "Mine", slides: [] }));
+    await assertSucceeds(updateDoc(doc(adminDb, "decks/custom"), { archived: true }));
+  });
+});
+
 describeIfEmulator("firestore.rules participants", () => {
   const sessionId = "session-participants";
 
@@ -418,6 +510,46 @@ describeIfEmulator("firestore.rules participants", () => {
     await assertFails(updateDoc(participantRef, { teamId: "team_cyanosis" }));
   });
 
+  test("requires new participants to start with zero score", async () => {
+    if (!isEnvReady()) return;
+    const userId = "u3";
+    const db = getEnv().authenticatedContext(userId).firestore();
+    await assertFails(
+      setDoc(doc(db, `sessions/${sessionId}/participants/${userId}`), {
+        userId,
+        sessionId,
+        teamId: "team_ductus",
+        teamName: "Team Ductus",
+        points: 5000,
+        streak: 10,
+        correctCount: 10,
+        incorrectCount: 0,
+        createdAt: new Date(),
+      })
+    );
+  });
+
+  test("session owner cannot edit participant scores either", async () => {
+    if (!isEnvReady()) return;
+    const ownerId = baseSession.createdBy;
+    await getEnv().withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), `sessions/${sessionId}/participants/${ownerId}`), {
+        userId: ownerId,
+        sessionId,
+        teamId: "team_ductus",
+        teamName: "Team Ductus",
+        points: 0,
+        streak: 0,
+        correctCount: 0,
+        incorrectCount: 0,
+        createdAt: new Date(),
+      });
+    });
+    const ownerRef = doc(getEnv().authenticatedContext(ownerId).firestore(), `sessions/${sessionId}/participants/${ownerId}`);
+    await assertFails(updateDoc(ownerRef, { points: 300 }));
+    await assertSucceeds(updateDoc(ownerRef, { teamId: "team_cyanosis", teamName: "Team Cyanosis" }));
+  });
+
   test("allows authenticated users to read participants docs", async () => {
     if (!isEnvReady()) return;
     await getEnv().withSecurityRulesDisabled(async (context) => {
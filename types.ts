@@ -1,14 +1,26 @@
 export type SlideType = "content" | "question";
 
+export type QuestionType = "single" | "multi" | "ordering" | "numeric" | "freeText";
+
 export interface Question {
   id: string;
   stem: string;
-  options: string[];
-  correctIndex: number;
+  type?: QuestionType;      // defaults to "single"
+  options: string[];        // choices (single/multi); for ordering, the items in correct order
+  correctIndex: number;     // single only
+  correctIndices?: number[]; // multi: every option that should be selected
+  numericAnswer?: NumericAnswer; // numeric
+  acceptedAnswers?: string[]; // freeText: auto-marked when present, otherwise revealed by the presenter
   explanation?: string;
   difficulty?: "easy" | "medium" | "hard";
 }
 
+export interface NumericAnswer {
+  value: number;
+  tolerance: number; // absolute, in the same unit as value
+  unit?: string;
+}
+
 export interface Slide {
   id: string;
   index: number;
@@ -31,6 +43,7 @@ export interface SessionData {
   createdBy?: string; // required in Firestore; optional until set client-side
   currentSlideIndex: number;
   currentQuestionId: string | null;
+  questionOpenedAt?: unknown; // Firestore server timestamp; response-time bonus is measured from it
   showResults: boolean;
   slides: Slide[];
   questions: Question[];
@@ -38,13 +51,32 @@ export interface SessionData {
   voice?: VoiceState;
 }
 
-export interface ResponseDoc {
+export interface ResponseDoc extends ResponseAnswer {
   id?: string;
   sessionId: string;
   userId: string;
   questionId: string;
-  choiceIndex: number;
   createdAt: string;
+  scoring?: ResponseScoring; // written by the scoreResponse Cloud Function
+}
+
+/** Exactly one field is set, matching the question type. */
+export interface ResponseAnswer {
+  choiceIndex?: number;     // single
+  choiceIndices?: number[]; // multi
+  order?: number[];         // ordering: option indices in the participant's order
+  numericValue?: number;    // numeric
+  text?: string;            // freeText
+}
+
+export interface ResponseScoring {
+  accepted: boolean;
+  reason?: "unknown_question" | "question_closed";
+  isCorrect?: boolean;
+  credit?: number; // 0..1 partial credit; absent for ungraded free text
+  points?: number;
+  responseTimeMs?: number;
+  scoredAt?: unknown;
 }
 
 export type ParticipantRole = "member" | "lead";
@@ -0,0 +1,16 @@
+#!/usr/bin/env ts-node
+import { checkRubricCases, RUBRIC_CASE_DIR } from "../src/sim/rubricCases";
+
+function main() {
+  const dir = process.argv[2] ?? RUBRIC_CASE_DIR;
+  const results = checkRubricCases(dir);
+  results.forEach((r) => {
+    console.log(`${r.failures.length === 0 ? "ok  " : "FAIL"} ${r.scenarioId}: ${r.name}`);
+    r.failures.forEach((failure) => console.log(`       ${failure}`));
+  });
+  const failed = results.filter((r) => r.failures.length > 0).length;
+  console.log(`\n${results.length - failed}/${results.length} rubric cases match.`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,42 @@
+#!/usr/bin/env ts-node
+import { readFileSync } from "fs";
+import { loadSessionRecording, setPersistenceReadOnly } from "../src/persistence";
+import { replaySession } from "../src/sessionReplay";
+import type { SequencedEvent } from "../src/sessionRecorder";
+
+async function main() {
+  const source = process.argv[2];
+  if (!source) {
+    console.error("Usage: replaySession <simId | recording.json>");
+    process.exit(1);
+  }
+  const events: SequencedEvent[] = source.endsWith(".json")
+    ? JSON.parse(readFileSync(source, "utf8"))
+    : await loadSessionRecording(source);
+  if (events.length === 0) {
+    console.error(`No recording found for ${source}. Recordings need Firestore credentials and SESSION_RECORDING enabled.`);
+    process.exit(1);
+  }
+
+  // Handlers log events as they run; never write them back to the recorded session
+  setPersistenceReadOnly(true);
+  const result = await replaySession(events);
+
+  console.log(`Replayed ${events.length} events (${result.events.length} produced)`);
+  Object.entries(result.skipped).forEach(([type, count]) => console.log(`  skipped ${type} x${count}`));
+  if (result.differences.length === 0) {
+    console.log("Outcome matches the recording.");
+    return;
+  }
+  result.differences.forEach((d) => {
+    console.log(`\n${d.field}:`);
+    console.log("  recorded:", JSON.stringify(d.recorded));
+    console.log("  replayed:", JSON.stringify(d.replayed));
+  });
+  process.exitCode = 1;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
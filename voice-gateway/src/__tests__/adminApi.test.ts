@@ -0,0 +1,208 @@
+/** @jest-environment node */
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { createAdminApiHandler } from "../handlers/adminApi";
+import { SessionManager } from "../sessionManager";
+import { ScenarioEngine } from "../sim/scenarioEngine";
+import { ToolGate } from "../sim/toolGate";
+import { CostController } from "../sim/costController";
+import { InMemoryEventLog } from "../sim/eventLog";
+import { createManualClock } from "../sim/simClock";
+import type { Runtime } from "../typesRuntime";
+import type { SpendLedgerState } from "../spendLedger";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+const SIM = "sim-admin";
+const T0 = 1_700_000_000_000;
+
+function makeRuntime(onHardLimit = jest.fn()): Runtime {
+  return {
+    fallback: false,
+    scenarioEngine: new ScenarioEngine(SIM, "palpitations_svt", createManualClock(T0)),
+    toolGate: new ToolGate(),
+    cost: new CostController({ softUsd: 1, hardUsd: 2, onHardLimit }),
+  };
+}
+
+describe("admin API", () => {
+  let server: Server;
+  let baseUrl: string;
+  let runtimes: Map<string, Runtime>;
+  let endSession: jest.Mock;
+  let resetSession: jest.Mock;
+  let broadcastSimState: jest.Mock;
+  const eventLog = new InMemoryEventLog();
+  const spend: SpendLedgerState = {
+    day: "day-2026-10-30",
+    month: "month-2026-10",
+    daily: { usd: 12.5, byModality: { realtime: 12, tts: 0.5 } },
+    monthly: { usd: 80, byModality: { realtime: 79.5, tts: 0.5 } },
+    caps: { dailyUsd: 50 },
+    capReached: null,
+  };
+  const tokens: Record<string, Record<string, unknown>> = {
+    "admin-token": { uid: "ops-1", admin: true },
+    "user-token": { uid: "user-1" },
+  };
+
+  beforeEach(async () => {
+    runtimes = new Map([[SIM, makeRuntime()]]);
+    endSession = jest.fn((id: string) => runtimes.delete(id));
+    resetSession = jest.fn((id: string) => {
+      const fresh = makeRuntime();
+      runtimes.set(id, fresh);
+      return fresh;
+    });
+    broadcastSimState = jest.fn();
+    const { handleAdminRequest } = createAdminApiHandler({
+      runtimes,
+      sessionManager: new SessionManager(),
+      eventLog,
+      verifyToken: async (token) => tokens[token] ?? null,
+      endSession,
+      resetSession,
+      broadcastSimState,
+      getSpend: () => spend,
+    });
+    server = createServer((req, res) => {
+      void handleAdminRequest(req, res).then((handled) => {
+        if (!handled) res.writeHead(404).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const call = async (path: string, init: { method?: string; token?: string; body?: unknown } = {}) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: init.method ?? "GET",
+      headers: { Authorization: `Bearer ${init.token ?? "admin-token"}`, "Content-Type": "application/json" },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  it("requires a token with the admin claim", async () => {
+    const anonymous = await fetch(`${baseUrl}/admin/sessions`);
+    expect(anonymous.status).toBe(401);
+    expect((await call("/admin/sessions", { token: "bogus" })).status).toBe(401);
+    expect((await call("/admin/sessions", { token: "user-token" })).status).toBe(403);
+  });
+
+  it("skips the token only for direct loopback requests when the dev flag is set", async () => {
+    const { handleAdminRequest } = createAdminApiHandler({
+      runtimes,
+      sessionManager: new SessionManager(),
+      eventLog,
+      verifyToken: async () => null,
+      allowInsecureLoopback: true,
+      endSession,
+      resetSession,
+      broadcastSimState,
+    });
+    const devServer = createServer((req, res) => void handleAdminRequest(req, res));
+    await new Promise<void>((resolve) => devServer.listen(0, "127.0.0.1", resolve));
+    const devUrl = `http://127.0.0.1:${(devServer.address() as AddressInfo).port}/admin/sessions`;
+    try {
+      expect((await fetch(devUrl)).status).toBe(200);
+      expect((await fetch(devUrl, { headers: { "X-Forwarded-For": "203.0.113.7" } })).status).toBe(401);
+      expect((await fetch(devUrl, { headers: { "Cf-Connecting-Ip": "203.0.113.7" } })).status).toBe(401);
+    } finally {
+      await new Promise((resolve) => devServer.close(resolve));
+    }
+  });
+
+  it("lists sessions and returns a session's full state", async () => {
+    const list = await call("/admin/sessions");
+    expect(list.status).toBe(200);
+    expect(list.body.sessions).toEqual([
+      expect.objectContaining({
+        sessionId: SIM,
+        scenarioId: "palpitations_svt",
+        presenters: 0,
+        participants: 0,
+        fallback: false,
+        budget: expect.objectContaining({ usdEstimate: 0, softUsd: 1, hardUsd: 2 }),
+      }),
+    ]);
+
+    const detail = await call(`/admin/sessions/${SIM}`);
+    expect(detail.body.state).toMatchObject({ simId: SIM, stageId: list.body.sessions[0].stageId });
+    expect((await call("/admin/sessions/nope")).status).toBe(404);
+    expect((await call(`/admin/sessions/${SIM}/end`)).status).toBe(405);
+  });
+
+  it("reports deployment-wide spend", async () => {
+    expect((await call("/admin/spend")).body).toEqual({ spend });
+    expect((await call("/admin/spend", { token: "user-token" })).status).toBe(403);
+  });
+
+  it("dumps the session's recent events", async () => {
+    ["a", "b", "c"].forEach((text, i) =>
+      eventLog.append({ id: `e${i}`, ts: T0 + i, simId: i === 1 ? "other" : SIM, type: "scenario.state.diff", payload: { text } })
+    );
+    const { body } = await call(`/admin/sessions/${SIM}/events?limit=1`);
+    expect(body.events.map((e: { id: string }) => e.id)).toEqual(["e2"]);
+    expect((await call(`/admin/sessions/${SIM}/events?limit=0`)).status).toBe(400);
+  });
+
+  it("raises and lowers the budget, lifting or tripping the limits", async () => {
+    const onHardLimit = jest.fn();
+    const runtime = makeRuntime(onHardLimit);
+    runtimes.set(SIM, runtime);
+    runtime.cost.record({ modality: "chat", model: "gpt-4.1-mini", inputTokens: 2500 }, 2.5);
+    expect(runtime.cost.getState().fallback).toBe(true);
+
+    const raised = await call(`/admin/sessions/${SIM}/budget`, { method: "POST", body: { softUsd: 4, hardUsd: 5 } });
+    expect(raised.body.session.budget).toMatchObject({ softUsd: 4, hardUsd: 5, throttled: false, fallback: false });
+    expect(broadcastSimState).toHaveBeenCalledWith(SIM, expect.objectContaining({ budget: expect.any(Object) }));
+
+    await call(`/admin/sessions/${SIM}/budget`, { method: "POST", body: { softUsd: 2, hardUsd: 2 } });
+    expect(runtime.cost.getState()).toMatchObject({ throttled: true, fallback: true });
+    expect(onHardLimit).toHaveBeenCalledTimes(2);
+
+    expect((await call(`/admin/sessions/${SIM}/budget`, { method: "POST", body: { softUsd: 6 } })).status).toBe(400);
+    expect((await call(`/admin/sessions/${SIM}/budget`, { method: "POST", body: {} })).status).toBe(400);
+  });
+
+  it("force-ends and resets runtimes", async () => {
+    const before = runtimes.get(SIM);
+    const reset = await call(`/admin/sessions/${SIM}/reset`, { method: "POST" });
+    expect(reset.status).toBe(200);
+    expect(resetSession).toHaveBeenCalledWith(SIM);
+    expect(runtimes.get(SIM)).not.toBe(before);
+
+    expect((await call(`/admin/sessions/${SIM}/end`, { method: "POST" })).body).toEqual({ ended: true });
+    expect(endSession).toHaveBeenCalledWith(SIM);
+    expect((await call("/admin/sessions")).body.sessions).toEqual([]);
+  });
+});
+
+describe("SessionManager.closeSession", () => {
+  it("runs the empty-session callback once and closes every socket", () => {
+    const manager = new SessionManager();
+    const onEmpty = jest.fn();
+    manager.onSessionEmpty(onEmpty);
+    const socket = () => ({ close: jest.fn(), send: jest.fn() });
+    const presenter = socket();
+    const participant = socket();
+    manager.addClient(SIM, "presenter", presenter as never);
+    manager.addClient(SIM, "participant", participant as never);
+    expect(manager.getClientCounts(SIM)).toEqual({ presenters: 1, participants: 1 });
+
+    expect(manager.closeSession(SIM)).toBe(true);
+    manager.removeClient(SIM, "presenter", presenter as never);
+    expect(onEmpty).toHaveBeenCalledTimes(1);
+    expect(presenter.close).toHaveBeenCalledWith(4000, "Session ended");
+    expect(participant.close).toHaveBeenCalled();
+    expect(manager.getClientCounts(SIM)).toBeNull();
+    expect(manager.closeSession(SIM)).toBe(false);
+  });
+});
@@ -1,14 +1,14 @@
-import { checkAlarms } from "../telemetry";
+import { checkAlarms, handleAlarmAction } from "../telemetry";
 import { SessionManager } from "../sessionManager";
 import { ScenarioEngine } from "../sim/scenarioEngine";
 import { ToolGate } from "../sim/toolGate";
 import { CostController } from "../sim/costController";
 import { Runtime } from "../typesRuntime";
 
-function makeRuntime(): Runtime {
+function makeRuntime(scenarioId: "syncope" | "ductal_shock" = "syncope"): Runtime {
   return {
     fallback: false,
-    scenarioEngine: new ScenarioEngine("sim-1", "syncope"),
+    scenarioEngine: new ScenarioEngine("sim-1", scenarioId),
     toolGate: new ToolGate(),
     cost: new CostController({ softUsd: 10, hardUsd: 20 }),
   };
@@ -26,4 +26,68 @@ describe("alarm debounce", () => {
     const last = alarmSeenAt.get("sim-1");
     expect(last?.spo2Low).toBeDefined();
   });
+
+  test("broadcasts an alarm message once the condition is sustained", () => {
+    const sm = new SessionManager();
+    const broadcast = jest.spyOn(sm, "broadcastToSession");
+    const runtime = makeRuntime();
+    const alarmSeenAt = new Map();
+
+    runtime.scenarioEngine.setVitals({ hr: 45 });
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 1000);
+    expect(broadcast).not.toHaveBeenCalled();
+
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 5000);
+    expect(broadcast).toHaveBeenCalledWith(
+      "sim-1",
+      expect.objectContaining({
+        type: "alarm",
+        alarm: expect.objectContaining({ id: "hrLow", priority: "medium", status: "active", raisedAt: 5000 }),
+      })
+    );
+  });
+
+  test("uses the patient's age band", () => {
+    const sm = new SessionManager();
+    const broadcast = jest.spyOn(sm, "broadcastToSession");
+    const runtime = makeRuntime("ductal_shock");
+    const alarmSeenAt = new Map();
+
+    runtime.scenarioEngine.setVitals({ hr: 165, bp: "80/45", spo2: 95 });
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 0);
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 5000);
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  test("restarts the debounce when the condition resolves", () => {
+    const sm = new SessionManager();
+    const runtime = makeRuntime();
+    const alarmSeenAt = new Map();
+
+    runtime.scenarioEngine.setVitals({ hr: 45 });
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 0);
+    runtime.scenarioEngine.setVitals({ hr: 80 });
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 2000);
+    expect(alarmSeenAt.get("sim-1")?.hrLow).toBeUndefined();
+  });
+
+  test("records the response time when an alarm is acknowledged", () => {
+    const sm = new SessionManager();
+    const broadcast = jest.spyOn(sm, "broadcastToSession");
+    const runtime = makeRuntime();
+    const alarmSeenAt = new Map();
+
+    runtime.scenarioEngine.setVitals({ spo2: 84 });
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 0);
+    checkAlarms("sim-1", runtime, alarmSeenAt, sm, 4000);
+    handleAlarmAction("sim-1", runtime, "spo2Low", "acknowledge", "user-1", sm, 16_000);
+
+    expect(broadcast).toHaveBeenLastCalledWith(
+      "sim-1",
+      expect.objectContaining({
+        alarm: expect.objectContaining({ id: "spo2Low", status: "acknowledged", respondedAt: 16_000, respondedBy: "user-1" }),
+      })
+    );
+    expect(runtime.alarms?.active.spo2Low?.raisedAt).toBe(4000);
+  });
 });
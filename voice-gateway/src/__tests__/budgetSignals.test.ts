@@ -1,16 +1,19 @@
 import { CostController } from "../sim/costController";
+import type { UsageRecord } from "../sim/pricing";
+
+const CHAT: UsageRecord = { modality: "chat", model: "gpt-4.1-mini" };
 
 describe("budget signals", () => {
   test("soft limit triggers throttle flag", () => {
-    const cc = new CostController({ usdPerToken: 0.001, softUsd: 0.5, hardUsd: 999, onSoftLimit: jest.fn(), onHardLimit: jest.fn() });
-    cc.addUsage({ inputTokens: 400, outputTokens: 200 });
+    const cc = new CostController({ softUsd: 0.5, hardUsd: 999, onSoftLimit: jest.fn(), onHardLimit: jest.fn() });
+    cc.record(CHAT, 0.6);
     const state = cc.getState();
     expect(state.throttled).toBe(true);
   });
 
   test("hard limit sets fallback flag", () => {
-    const cc = new CostController({ usdPerToken: 0.001, softUsd: 0.5, hardUsd: 0.5, onSoftLimit: jest.fn(), onHardLimit: jest.fn() });
-    cc.addUsage({ inputTokens: 600, outputTokens: 600 });
+    const cc = new CostController({ softUsd: 0.5, hardUsd: 0.5, onSoftLimit: jest.fn(), onHardLimit: jest.fn() });
+    cc.record(CHAT, 1.2);
     const state = cc.getState();
     expect(state.fallback).toBe(true);
   });
@@ -19,14 +22,13 @@ describe("budget signals", () => {
     test("resetSoftLimit clears throttle flag", () => {
       const onSoftReset = jest.fn();
       const cc = new CostController({
-        usdPerToken: 0.001,
         softUsd: 0.5,
         hardUsd: 999,
         onSoftLimit: jest.fn(),
         onHardLimit: jest.fn(),
         onSoftReset,
       });
-      cc.addUsage({ inputTokens: 600, outputTokens: 0 }); // Triggers soft limit
+      cc.record(CHAT, 0.6); // Triggers soft limit
       expect(cc.getState().throttled).toBe(true);
       expect(cc.canResetSoftLimit()).toBe(true);
 
@@ -37,13 +39,12 @@ describe("budget signals", () => {
 
     test("resetSoftLimit does nothing if hard limit is hit", () => {
       const cc = new CostController({
-        usdPerToken: 0.001,
         softUsd: 0.5,
         hardUsd: 0.7,
         onSoftLimit: jest.fn(),
         onHardLimit: jest.fn(),
       });
-      cc.addUsage({ inputTokens: 800, outputTokens: 0 }); // Triggers both limits
+      cc.record(CHAT, 0.8); // Triggers both limits
       expect(cc.getState().throttled).toBe(true);
       expect(cc.getState().fallback).toBe(true);
       expect(cc.canResetSoftLimit()).toBe(false);
@@ -55,13 +56,12 @@ describe("budget signals", () => {
 
     test("reset() clears token count and soft limit but not hard limit", () => {
       const cc = new CostController({
-        usdPerToken: 0.001,
         softUsd: 0.5,
         hardUsd: 999,
         onSoftLimit: jest.fn(),
         onHardLimit: jest.fn(),
       });
-      cc.addUsage({ inputTokens: 600, outputTokens: 0 });
+      cc.record(CHAT, 0.6);
       expect(cc.getState().throttled).toBe(true);
       expect(cc.getState().usdEstimate).toBeGreaterThan(0);
 
@@ -72,7 +72,6 @@ describe("budget signals", () => {
 
     test("isHardLimitHit() returns correct status", () => {
       const cc = new CostController({
-        usdPerToken: 0.001,
         softUsd: 0.5,
         hardUsd: 0.7,
         onSoftLimit: jest.fn(),
@@ -80,7 +79,7 @@ describe("budget signals", () => {
       });
 
       expect(cc.isHardLimitHit()).toBe(false);
-      cc.addUsage({ inputTokens: 800, outputTokens: 0 });
+      cc.record(CHAT, 0.8);
       expect(cc.isHardLimitHit()).toBe(true);
     });
   });
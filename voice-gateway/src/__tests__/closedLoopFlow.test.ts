@@ -0,0 +1,105 @@
+/** @jest-environment node */
+import { clearSessionPendingOrders } from "../orders";
+import { clearSessionLoops, handleLoopReply, startOrderLoop } from "../commLoops";
+import { handleTeamRole } from "../codeTeam";
+import { buildClosedLoopFeedback } from "../debriefAnalyzer";
+import { LOOP_CONFIRM_WINDOW_MS, summarizeClosedLoops } from "../sim/closedLoop";
+import { createTestSession, T0 } from "./support/testSession";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("../ttsClient", () => ({
+  synthesizePatientAudio: jest.fn(() => Promise.resolve(null)),
+}));
+
+const SIM = "sim-loops";
+
+function setup() {
+  const { runtime, sessionManager, clock, handleOrder, nurseLines } = createTestSession(SIM, "palpitations_svt", {
+    initialize: false,
+    realOrders: true,
+  });
+  const timers: (() => void)[] = [];
+  const deps = { sessionManager, schedule: (fn: () => void) => timers.push(fn) };
+  const say = (text: string, action?: "ekg" | "labs" | "vitals") =>
+    action
+      ? startOrderLoop(SIM, runtime, { userId: "doc", name: "Doc", action, text }, () => handleOrder(SIM, action).success, deps)
+      : handleLoopReply(SIM, runtime, "doc", text, deps);
+  const orders = () => (runtime.scenarioEngine.getState().orders ?? []).map((o) => o.type);
+  return { runtime, sessionManager, clock, timers, say, nurseLines, orders };
+}
+
+describe("closed-loop communication", () => {
+  afterEach(() => {
+    clearSessionPendingOrders(SIM);
+    clearSessionLoops(SIM);
+  });
+
+  it("places a named order and closes the loop on confirmation", () => {
+    const { runtime, clock, timers, say, nurseLines, orders } = setup();
+    say("Nurse, get an EKG please", "ekg");
+    expect(orders()).toEqual(["ekg"]);
+
+    clock.advance(3_000);
+    expect(say("Yes, that's right")).toBe(true);
+    timers.forEach((fn) => fn());
+    expect(nurseLines()).toEqual([]);
+    expect(runtime.loops?.loops[0]).toMatchObject({ status: "closed", addressee: "nurse" });
+  });
+
+  it("holds an unnamed order until the learner says who it is for", () => {
+    const { runtime, sessionManager, say, nurseLines, orders } = setup();
+    handleTeamRole(SIM, runtime, { userId: "ana", name: "Ana", teamRole: "medications", assignedBy: "self" }, sessionManager);
+    say("Send some labs", "labs");
+    expect(nurseLines()).toEqual(["Sorry, who was that for?"]);
+    expect(orders()).toEqual([]);
+
+    expect(say("Ana")).toBe(true);
+    expect(orders()).toEqual(["labs"]);
+    expect(runtime.loops?.loops[0]).toMatchObject({ addressee: "Ana", status: "awaiting_confirmation" });
+  });
+
+  it("lets a question that starts with a confirmation word reach the patient", () => {
+    const { runtime, clock, say } = setup();
+    say("Nurse, get an EKG please", "ekg");
+    clock.advance(2_000);
+    expect(say("Great, can you tell me where it hurts?")).toBe(false);
+    expect(runtime.loops?.loops[0].status).toBe("awaiting_confirmation");
+    expect(say("Great, thanks")).toBe(true);
+  });
+
+  it("cancels pending loop timers when the session's loops are cleared", () => {
+    const { runtime, clock, timers, say, nurseLines, orders } = setup();
+    say("Send some labs", "labs");
+    clearSessionLoops(SIM);
+    clock.advance(LOOP_CONFIRM_WINDOW_MS);
+    timers.forEach((fn) => fn());
+    expect(nurseLines()).toEqual(["Sorry, who was that for?"]);
+    expect(orders()).toEqual([]);
+    expect(runtime.loops?.loops[0].status).toBe("awaiting_addressee");
+  });
+
+  it("prompts for an unconfirmed read-back and scores it in the debrief", () => {
+    const { runtime, clock, timers, say, nurseLines } = setup();
+    say("Get vitals", "vitals");
+    clock.advance(LOOP_CONFIRM_WINDOW_MS);
+    timers.shift()?.();
+    expect(nurseLines()).toEqual(["Sorry, who was that for?", "I'll take it."]);
+
+    clock.advance(LOOP_CONFIRM_WINDOW_MS);
+    timers.shift()?.();
+    expect(nurseLines()[2]).toBe("Just closing the loop: you wanted vitals, correct?");
+
+    const summary = summarizeClosedLoops(runtime.loops);
+    expect(summary?.metrics).toMatchObject({ orders: 1, clarified: 1, unconfirmed: 1, closureRate: 0 });
+    const feedback = buildClosedLoopFeedback(summary as NonNullable<typeof summary>, T0);
+    expect(feedback.opportunities).toEqual([
+      "1 order named no one; the nurse had to ask who it was for.",
+      "1 read-back went unconfirmed for more than 10 seconds.",
+    ]);
+    expect(feedback.teachingPoints).toHaveLength(1);
+    expect(feedback.timeline[0]).toMatchObject({ timeFormatted: "0:00", type: "closed_loop", isBad: true });
+  });
+});
@@ -0,0 +1,142 @@
+/** @jest-environment node */
+import { buildCprFeedback } from "../debriefAnalyzer";
+import { handleCprEvent, isInArrest, trackArrest } from "../cpr";
+import { summarizeCpr } from "../sim/cprQuality";
+import { rhythmFromSpec } from "../sim/rhythm";
+import { calculateScore } from "../sim/scenarios/teen_svt_complex/scoring";
+import type { SVTExtendedState } from "../sim/types";
+import type { ScenarioId } from "../sim/scenarioTypes";
+import { createTestSession, T0 } from "./support/testSession";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+const SIM = "sim-cpr";
+
+function setup(scenarioId: ScenarioId, roll: number) {
+  const { runtime, clock, handleTreatment, nurseLines } = createTestSession(SIM, scenarioId, { roll });
+
+  /** What the code_blue inject does: zero the vitals and re-classify the rhythm */
+  const codeBlue = () => {
+    const engine = runtime.scenarioEngine;
+    engine.setVitals({ ...engine.getState().vitals, hr: 0, spo2: 0, bp: "0/0" });
+    engine.setRhythm(engine.getDynamicRhythm(), "scenario_event: code_blue");
+  };
+
+  /** Pulseless, with good compressions reported from 2 s in */
+  const arrest = () => {
+    codeBlue();
+    trackArrest(runtime);
+    clock.advance(2_000);
+    handleCprEvent(SIM, runtime, "start", undefined, "user-1");
+    clock.advance(30_000);
+    handleCprEvent(SIM, runtime, "rate", 110, "user-1");
+    clock.advance(30_000);
+  };
+  return { runtime, clock, handleTreatment, nurseLines, arrest, codeBlue };
+}
+
+describe("CPR quality and ROSC", () => {
+  it("opens the arrest on the heartbeat and mirrors metrics into extended state", () => {
+    const { runtime, arrest } = setup("teen_svt_complex_v1", 0.99);
+    arrest();
+    trackArrest(runtime);
+
+    const cpr = (runtime.scenarioEngine.getState().extended as SVTExtendedState).cpr!;
+    expect(cpr.arrestStartedAt).toBe(T0);
+    expect(cpr.ccf).toBeCloseTo(0.97, 2);
+    expect(cpr.meanRate).toBe(110);
+  });
+
+  it("restores a pulse when the roll beats the CPR-scaled odds", async () => {
+    const { runtime, handleTreatment, nurseLines, arrest } = setup("palpitations_svt", 0.25);
+    arrest();
+    handleCprEvent(SIM, runtime, "pause", undefined, "user-1");
+    await handleTreatment(SIM, "epinephrine");
+
+    expect(nurseLines().pop()).toMatch(/We have ROSC/);
+    expect(runtime.scenarioEngine.getState().vitals.hr).toBeGreaterThan(0);
+    expect(runtime.scenarioEngine.getState().rhythm?.pulsePresent).toBe(true);
+    expect(runtime.cpr?.roscAt).toBeDefined();
+  });
+
+  it("keeps the patient pulseless when the roll fails", async () => {
+    const { runtime, handleTreatment, nurseLines, arrest } = setup("palpitations_svt", 0.99);
+    arrest();
+    await handleTreatment(SIM, "epinephrine");
+
+    expect(nurseLines().pop()).toMatch(/Still no pulse/);
+    expect(runtime.scenarioEngine.getState().vitals.hr).toBe(0);
+    expect(runtime.cpr?.epiDoses).toHaveLength(1);
+  });
+
+  it("gives poor CPR lower odds for the same roll", async () => {
+    const { runtime, clock, handleTreatment, nurseLines, codeBlue } = setup("palpitations_svt", 0.1);
+    codeBlue();
+    trackArrest(runtime);
+    clock.advance(60_000);
+    await handleTreatment(SIM, "epinephrine");
+
+    expect(nurseLines().pop()).toMatch(/Still no pulse/);
+  });
+
+  it("scores CPR quality in the SVT complex debrief", async () => {
+    const { runtime, clock, handleTreatment, arrest } = setup("teen_svt_complex_v1", 0.99);
+    arrest();
+    clock.advance(300_000);
+    await handleTreatment(SIM, "epinephrine");
+
+    const ext = runtime.scenarioEngine.getState().extended as SVTExtendedState;
+    const ids = (list: { item: { id: string } }[]) => list.map((entry) => entry.item.id);
+    const score = calculateScore(ext, 400_000);
+    expect(ids(score.bonusesEarned)).toContain("high_quality_cpr");
+    expect(ids(score.penaltiesIncurred)).toContain("delayed_first_epi");
+  });
+  it("does not treat unstable SVT at 250 bpm as an arrest", () => {
+    const { runtime, clock } = setup("teen_svt_complex_v1", 0.99);
+    const engine = runtime.scenarioEngine;
+    const decompensating = engine.getPhaseDef("decompensating")!;
+    engine.updateExtended({ phase: "decompensating", phaseEnteredAt: clock.now() });
+    engine.hydrate({ vitals: decompensating.vitals, rhythm: rhythmFromSpec(decompensating.rhythm!, decompensating.vitals.hr) });
+    expect(engine.getState().vitals.hr).toBe(250);
+
+    for (let beat = 0; beat < 10; beat++) {
+      trackArrest(runtime);
+      clock.advance(30_000);
+    }
+
+    expect(isInArrest(runtime)).toBe(false);
+    expect(runtime.cpr).toBeUndefined();
+    const ext = engine.getState().extended as SVTExtendedState;
+    const penalties = calculateScore(ext, clock.now() - T0).penaltiesIncurred.map((entry) => entry.item.id);
+    expect(penalties).not.toContain("low_compression_fraction");
+    expect(penalties).not.toContain("delayed_first_epi");
+  });
+});
+
+describe("buildCprFeedback", () => {
+  it("puts the arrest, shocks, first epi and ROSC on the timeline", () => {
+    const { runtime, clock, arrest } = setup("teen_svt_complex_v1", 0);
+    arrest();
+    handleCprEvent(SIM, runtime, "pause", undefined, "user-1");
+    clock.advance(15_000);
+    const metrics = summarizeCpr(runtime.cpr!, clock.now())!;
+    const feedback = buildCprFeedback(
+      {
+        ...metrics,
+        shocks: [{ ts: clock.now(), preShockPauseMs: 15_000, postShockPauseMs: 3_000 }],
+        firstEpiAt: T0 + 120_000,
+        timeToFirstEpiMs: 120_000,
+        roscAt: T0 + 150_000,
+      },
+      T0 - 60_000
+    );
+
+    expect(feedback.timeline.map((t) => t.timeFormatted)).toEqual(["1:00", "2:17", "3:00", "3:30"]);
+    expect(feedback.timeline[1].description).toBe("Shock 1: pre-shock pause 15 s, post-shock 3 s");
+    expect(feedback.strengths).toContain("First epinephrine 2:00 into the arrest.");
+    expect(feedback.opportunities.some((line) => line.startsWith("Hands-off time around shock 1"))).toBe(true);
+    expect(feedback.teachingPoints).toHaveLength(1);
+  });
+});
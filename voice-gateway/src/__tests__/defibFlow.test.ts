@@ -0,0 +1,104 @@
+/** @jest-environment node */
+import { buildDefibFeedback } from "../debriefAnalyzer";
+import { calculateScore } from "../sim/scenarios/teen_svt_complex/scoring";
+import type { DefibAction, DefibActionParams } from "../sim/defibrillator";
+import type { SVTExtendedState } from "../sim/types";
+import type { ScenarioId } from "../sim/scenarioTypes";
+import { createTestSession, T0 } from "./support/testSession";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+const SIM = "sim-defib";
+
+function setup(scenarioId: ScenarioId, hr: number) {
+  const { runtime, engine, messages, handleDefibAction } = createTestSession(SIM, scenarioId, { roll: 0.99 });
+  engine.setVitals({ ...engine.getState().vitals, hr });
+  engine.setRhythm(engine.getDynamicRhythm(), "test setup");
+  const act = (action: DefibAction, params?: DefibActionParams) => handleDefibAction(SIM, action, params);
+
+  /** Pads, energy, sync, charge and clear, in device order */
+  const arm = async (energyJ: number, sync: boolean) => {
+    await act("pads_on");
+    await act("set_energy", { energyJ });
+    await act("set_sync", { sync });
+    await act("charge");
+    await act("clear");
+  };
+  return { runtime, engine, messages, act, arm };
+}
+
+describe("participant defibrillator", () => {
+  it("cardioverts SVT with a synchronized shock and broadcasts the device", async () => {
+    const { runtime, engine, messages, act, arm } = setup("teen_svt_complex_v1", 240);
+    await arm(30, true);
+    await act("shock");
+
+    const ext = engine.getState().extended as SVTExtendedState;
+    expect(ext.cardioversionAttempts[0]).toMatchObject({ joules: 30, synchronized: true });
+    expect(ext.defibErrors).toBeUndefined();
+    expect(engine.getState().interventions?.defibPads?.placed).toBe(true);
+    const device = messages().filter((m) => m.type === "defib_state").pop();
+    expect(device).toMatchObject({ device: { shockCount: 1, charged: false }, weightKg: engine.getPatientWeight() });
+    expect(runtime.defib?.errors).toEqual([]);
+  });
+
+  it("records an unsynchronized shock into SVT and scores it", async () => {
+    const { engine, messages, act, arm } = setup("teen_svt_complex_v1", 240);
+    await arm(30, false);
+    await act("shock");
+
+    const ext = engine.getState().extended as SVTExtendedState;
+    expect(ext.defibErrors?.map((e) => e.kind)).toEqual(["unsynchronized_cardioversion"]);
+    expect(ext.cardioversionAttempts[0].synchronized).toBe(false);
+    const nurse = messages().filter((m) => m.character === "nurse").map((m) => m.text);
+    expect(nurse.some((line: string) => line.includes("Sync was off"))).toBe(true);
+    const penalties = calculateScore(ext, 120_000).penaltiesIncurred.map((p) => p.item.id);
+    expect(penalties).toContain("defib_critical_error");
+  });
+
+  it("does not fire in sync mode in VF", async () => {
+    const { runtime, engine, messages, act, arm } = setup("arrhythmogenic_syncope", 320);
+    expect(engine.getState().rhythm?.code).toBe("vf");
+    await arm(100, true);
+    await act("shock");
+
+    expect(messages().filter((m) => m.type === "defib_state").pop()).toMatchObject({
+      device: { charged: true, shockCount: 0 },
+      prompt: "Searching for R waves...",
+    });
+    expect(runtime.defib?.errors.map((e) => e.kind)).toEqual(["synchronized_defibrillation"]);
+    expect(engine.getState().treatmentHistory ?? []).toHaveLength(0);
+  });
+
+  it("paces a bradycardic patient while it captures", async () => {
+    const { engine, messages, act } = setup("palpitations_svt", 40);
+    await act("pads_on");
+    await act("set_pacing", { rateBpm: 100, currentMa: 40 });
+    await act("pace_start");
+    expect(engine.getState().vitals.hr).toBe(40);
+
+    await act("set_pacing", { currentMa: 70 });
+    expect(engine.getState().vitals.hr).toBe(100);
+    expect(messages().filter((m) => m.character === "nurse").pop()?.text).toMatch(/Pacer capture at 70 mA/);
+
+    await act("pace_stop");
+    expect(engine.getState().vitals.hr).toBe(40);
+  });
+});
+
+describe("buildDefibFeedback", () => {
+  it("lists device mistakes with a teaching point for critical ones", () => {
+    const feedback = buildDefibFeedback(
+      [
+        { ts: T0 + 90_000, kind: "energy_low", energyJ: 10, joulesPerKg: 0.5, rhythm: "vf", message: "Too low." },
+        { ts: T0 + 30_000, kind: "unsynchronized_cardioversion", energyJ: 30, joulesPerKg: 0.6, rhythm: "svt", message: "Sync off." },
+      ],
+      T0
+    );
+    expect(feedback.opportunities[0]).toBe("Defibrillator at 10 J (0.5 J/kg): Too low.");
+    expect(feedback.timeline.map((t) => t.timeFormatted)).toEqual(["1:30", "0:30"]);
+    expect(feedback.teachingPoints).toHaveLength(1);
+  });
+});
@@ -8,6 +8,7 @@ import {
   safeParseMyocarditisState,
 } from "../extendedStateValidators";
 import type { SVTExtendedState, MyocarditisExtendedState } from "../sim/types";
+import { createInitialGenericState } from "../sim/genericPhysiology";
 
 // ============================================================================
 // Test Fixtures
@@ -454,6 +455,16 @@ describe("validateExtendedState", () => {
     const result = validateExtendedState("teen_svt_complex_v1", createValidMyocarditisState());
     expect(result.valid).toBe(false);
   });
+
+  it("validates generic physiology state for simple scenarios", () => {
+    const state = createInitialGenericState(Date.now());
+    state.treatments.push({ ts: Date.now(), treatment: "pge1", dose: 0.05 });
+    state.flags.ductOpen = true;
+    expect(validateExtendedState("ductal_shock", state).valid).toBe(true);
+
+    const result = validateExtendedState("ductal_shock", { ...state, treatments: [{ treatment: "" }] });
+    expect(result.valid).toBe(false);
+  });
 });
 
 // ============================================================================
@@ -0,0 +1,129 @@
+/** @jest-environment node */
+import { buildMedicationFeedback } from "../debriefAnalyzer";
+import { calculateScore } from "../sim/scenarios/teen_svt_complex/scoring";
+import { hasSVTExtended, type GenericExtendedState, type SVTExtendedState } from "../sim/types";
+import type { ScenarioId } from "../sim/scenarioTypes";
+import { createTestSession } from "./support/testSession";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+const SIM = "sim-meds";
+
+function setup(scenarioId: ScenarioId) {
+  const { runtime, handleTreatment, handleMedicationReply, nurseLines } = createTestSession(SIM, scenarioId);
+  return { runtime, handleTreatment, handleMedicationReply, nurseLines, weightKg: runtime.scenarioEngine.getPatientWeight() };
+}
+
+describe("medication safety in the treatment handler", () => {
+  it("holds a tenfold dose, challenges it and records the error", async () => {
+    const { runtime, handleTreatment, nurseLines, weightKg } = setup("palpitations_svt");
+    await handleTreatment(SIM, "epinephrine", { dose: 0.1 * weightKg, route: "iv" });
+
+    expect(nurseLines()[0]).toMatch(/^Hold on, before I give epinephrine: .*10 times the expected dose/);
+    expect(runtime.scenarioEngine.getState().treatmentHistory ?? []).toHaveLength(0);
+    const ext = runtime.scenarioEngine.getState().extended as GenericExtendedState;
+    expect(ext.medicationErrors).toEqual([
+      expect.objectContaining({ drug: "epinephrine", kind: "tenfold_overdose", administered: false }),
+    ]);
+    expect(runtime.medications?.doses).toEqual([]);
+  });
+
+  it("lets a corrected order through straight after the challenge", async () => {
+    const { runtime, handleTreatment, weightKg } = setup("palpitations_svt");
+    await handleTreatment(SIM, "epi", { dose: 0.1 * weightKg });
+    await handleTreatment(SIM, "epi", { dose: 0.01 * weightKg });
+
+    expect(runtime.scenarioEngine.getState().treatmentHistory).toHaveLength(1);
+    expect(runtime.medications?.doses).toEqual([expect.objectContaining({ drug: "epinephrine", dose: 0.01 * weightKg })]);
+    expect(runtime.medications?.errors).toHaveLength(1);
+  });
+
+  it("gives a confirmed order but still records it", async () => {
+    const { runtime, handleTreatment, nurseLines, weightKg } = setup("palpitations_svt");
+    // 0.1 mL/kg drawn from the IM vial
+    await handleTreatment(SIM, "epinephrine", { route: "iv", concentration: "1:1,000", volumeMl: 0.1 * weightKg, confirmed: true });
+
+    expect(nurseLines()[0]).toMatch(/^Giving it as ordered/);
+    expect(runtime.medications?.errors.map((e) => [e.kind, e.administered])).toEqual([
+      ["wrong_concentration", true],
+      ["tenfold_overdose", true],
+    ]);
+  });
+
+  it("gives a challenged order once the team confirms it, recording the error once", async () => {
+    const { runtime, handleTreatment, handleMedicationReply, nurseLines, weightKg } = setup("palpitations_svt");
+    await handleTreatment(SIM, "epinephrine", { dose: 0.1 * weightKg, route: "iv" });
+    expect(handleMedicationReply(SIM, "What's the heart rate?")).toBe(false);
+    expect(handleMedicationReply(SIM, "Confirmed, give it")).toBe(true);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(nurseLines().pop()).toMatch(/^Giving it as ordered/);
+    expect(runtime.medications?.doses).toEqual([expect.objectContaining({ drug: "epinephrine" })]);
+    const ext = runtime.scenarioEngine.getState().extended as GenericExtendedState;
+    expect(ext.medicationErrors?.map((e) => [e.kind, e.administered])).toEqual([["tenfold_overdose", true]]);
+    expect(runtime.medications?.errors).toHaveLength(1);
+    expect(runtime.medications?.pending).toBeUndefined();
+  });
+
+  it("does not record a re-sent confirmed order a second time", async () => {
+    const { runtime, handleTreatment, weightKg } = setup("palpitations_svt");
+    await handleTreatment(SIM, "epinephrine", { dose: 0.1 * weightKg });
+    await handleTreatment(SIM, "epinephrine", { dose: 0.1 * weightKg });
+    await handleTreatment(SIM, "epinephrine", { dose: 0.1 * weightKg, confirmed: true });
+
+    expect(runtime.medications?.errors.map((e) => e.administered)).toEqual([true]);
+  });
+
+  it("drops a challenged order the team cancels", async () => {
+    const { runtime, handleTreatment, handleMedicationReply, nurseLines, weightKg } = setup("palpitations_svt");
+    await handleTreatment(SIM, "atropine", { dose: 0.2 * weightKg });
+    expect(handleMedicationReply(SIM, "No, cancel that")).toBe(true);
+
+    expect(nurseLines().pop()).toBe("Okay, atropine is on hold.");
+    expect(runtime.medications?.pending).toBeUndefined();
+    expect(runtime.medications?.doses).toEqual([]);
+    expect(handleMedicationReply(SIM, "Confirmed")).toBe(false);
+  });
+
+  it("gives correct and unspecified doses without a challenge", async () => {
+    const { runtime, handleTreatment } = setup("palpitations_svt");
+    await handleTreatment(SIM, "adenosine");
+    await handleTreatment(SIM, "oxygen");
+
+    expect(runtime.medications?.errors).toEqual([]);
+    expect(runtime.scenarioEngine.getState().treatmentHistory).toHaveLength(2);
+  });
+
+  it("scores a challenged order as a penalty in the SVT scenario", async () => {
+    const { runtime, handleTreatment } = setup("teen_svt_complex_v1");
+    await handleTreatment(SIM, "adenosine", { dose: 60 });
+
+    const state = runtime.scenarioEngine.getState();
+    expect(hasSVTExtended(state)).toBe(true);
+    const ext = state.extended as SVTExtendedState;
+    expect(ext.adenosineDoses).toEqual([]);
+    const score = calculateScore(ext, 60_000);
+    expect(score.penaltiesIncurred.map((p) => p.item.id)).toContain("medication_critical_error");
+  });
+});
+
+describe("buildMedicationFeedback", () => {
+  it("lists each challenged order with a teaching point for critical errors", () => {
+    const feedback = buildMedicationFeedback(
+      [
+        { ts: 61_000, drug: "calcium_chloride", kind: "overdose", unit: "mg", message: "800 mg is above the max.", administered: true },
+        { ts: 90_000, drug: "epinephrine", kind: "tenfold_overdose", unit: "mg", message: "2 mg is 10 times the expected dose.", administered: false },
+      ],
+      1_000
+    );
+    expect(feedback.opportunities).toEqual([
+      "Calcium chloride order given after the nurse challenged it: 800 mg is above the max.",
+      "Epinephrine order held by the nurse: 2 mg is 10 times the expected dose.",
+    ]);
+    expect(feedback.timeline.map((t) => t.timeFormatted)).toEqual(["1:00", "1:29"]);
+    expect(feedback.teachingPoints).toHaveLength(1);
+    expect(buildMedicationFeedback([], 0).opportunities).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+/** @jest-environment node */
+import {
+  MetricsRegistry,
+  gatewayMetrics,
+  metricsRegistry,
+  noteClientDisconnect,
+  noteClientJoin,
+} from "../metrics";
+import { createOfflineProvider } from "../providers";
+import { instrumentProvider } from "../providers/instrumented";
+import { withStateLock } from "../stateLock";
+import { CostController } from "../sim/costController";
+
+describe("metrics registry", () => {
+  it("renders counters, gauges and histograms in the Prometheus text format", () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter("test_requests_total", "Requests", ["type"]);
+    registry.counter("test_spend_total", "Spend");
+    const open = registry.gauge("test_open", "Open things");
+    const latency = registry.histogram("test_latency_seconds", "Latency", [0.1, 1]);
+    registry.onCollect(() => open.set(3));
+
+    requests.inc({ type: 'say "hi"' });
+    requests.inc({ type: 'say "hi"' }, 2);
+    latency.observe(0.05, { mode: "a" });
+    latency.observe(0.5, { mode: "a" });
+
+    expect(registry.render().split("\n")).toEqual([
+      "# HELP test_requests_total Requests",
+      "# TYPE test_requests_total counter",
+      'test_requests_total{type="say \\"hi\\""} 3',
+      "# HELP test_spend_total Spend",
+      "# TYPE test_spend_total counter",
+      "test_spend_total 0",
+      "# HELP test_open Open things",
+      "# TYPE test_open gauge",
+      "test_open 3",
+      "# HELP test_latency_seconds Latency",
+      "# TYPE test_latency_seconds histogram",
+      'test_latency_seconds_bucket{mode="a",le="0.1"} 1',
+      'test_latency_seconds_bucket{mode="a",le="1"} 2',
+      'test_latency_seconds_bucket{mode="a",le="+Inf"} 2',
+      'test_latency_seconds_sum{mode="a"} 0.55',
+      'test_latency_seconds_count{mode="a"} 2',
+      "",
+    ]);
+    expect(() => registry.counter("test_open", "again")).toThrow("Duplicate metric");
+  });
+
+  it("keeps the gateway metric names stable", () => {
+    const names = metricsRegistry
+      .render()
+      .split("\n")
+      .filter((line) => line.startsWith("# TYPE"))
+      .map((line) => line.split(" ").slice(2).join(" "));
+    expect(names).toEqual([
+      "voice_gateway_active_sessions gauge",
+      "voice_gateway_active_sockets gauge",
+      "voice_gateway_messages_in_total counter",
+      "voice_gateway_messages_out_total counter",
+      "voice_gateway_stt_latency_seconds histogram",
+      "voice_gateway_tts_latency_seconds histogram",
+      "voice_gateway_llm_latency_seconds histogram",
+      "voice_gateway_fallback_activations_total counter",
+      "voice_gateway_budget_spend_usd_total counter",
+      "voice_gateway_order_completion_seconds histogram",
+      "voice_gateway_state_lock_wait_seconds histogram",
+      "voice_gateway_reconnects_total counter",
+      "voice_gateway_org_spend_usd gauge",
+    ]);
+  });
+});
+
+describe("gateway instrumentation", () => {
+  it("times provider calls by provider and mode", async () => {
+    const provider = instrumentProvider(createOfflineProvider());
+    await provider.transcribe(Buffer.from("audio"), "audio/webm");
+    await provider.synthesizeSpeech("Hello");
+    await provider.completeChat({ messages: [{ role: "user", content: "Hi" }] });
+    for await (const chunk of provider.streamChat({ messages: [{ role: "user", content: "Hi" }] })) void chunk;
+
+    expect(gatewayMetrics.sttLatency.getCount({ provider: "offline" })).toBe(1);
+    expect(gatewayMetrics.ttsLatency.getCount({ provider: "offline" })).toBe(1);
+    expect(gatewayMetrics.llmLatency.getCount({ provider: "offline", mode: "complete" })).toBe(1);
+    expect(gatewayMetrics.llmLatency.getCount({ provider: "offline", mode: "stream" })).toBe(1);
+  });
+
+  it("records lock waits and budget spend", async () => {
+    const waits = gatewayMetrics.stateLockWait.getCount();
+    await withStateLock("sim-metrics", "test", async () => undefined);
+    expect(gatewayMetrics.stateLockWait.getCount()).toBe(waits + 1);
+
+    const spent = gatewayMetrics.budgetSpendUsd.get();
+    new CostController().record({ modality: "chat", model: "gpt-4.1-mini", inputTokens: 100, outputTokens: 50 }, 0.15);
+    expect(gatewayMetrics.budgetSpendUsd.get() - spent).toBeCloseTo(0.15);
+  });
+
+  it("counts a join as a reconnect only after a recent disconnect from the same session", () => {
+    const T0 = 1_700_000_000_000;
+    const before = gatewayMetrics.reconnects.get({ kind: "client" });
+    expect(noteClientJoin("sim-r", "u1", T0)).toBe(false);
+    noteClientDisconnect("sim-r", "u1", T0);
+    expect(noteClientJoin("sim-other", "u1", T0 + 1000)).toBe(false);
+    expect(noteClientJoin("sim-r", "u1", T0 + 1000)).toBe(true);
+    noteClientDisconnect("sim-r", "u1", T0);
+    expect(noteClientJoin("sim-r", "u1", T0 + 10 * 60_000)).toBe(false);
+    expect(gatewayMetrics.reconnects.get({ kind: "client" })).toBe(before + 1);
+  });
+});
@@ -5,8 +5,8 @@
 import {
   createInitialMyocarditisState,
   evaluatePhysiology,
-  MYOCARDITIS_PHYSIOLOGY_RULES,
 } from "../sim/physiologyEngine";
+import { getScenarioDef } from "../sim/scenarioRegistry";
 import { parseOrder, parseMultipleOrders, getNurseResponse, validateMyocarditisOrder } from "../orderParser";
 import {
   calculateScore,
@@ -18,10 +18,18 @@ import {
   getNurseOrderAcknowledgment,
   AVAILABLE_RESULTS,
 } from "../sim/scenarios/peds_myocarditis_silent_crash/results";
+import { evaluateTriggers, getScenarioTriggers } from "../sim/triggers/runtime";
+import type { TriggerHistory } from "../sim/triggers/types";
+import { createManualClock } from "../sim/simClock";
+import { ScenarioEngine } from "../sim/scenarioEngine";
 import {
-  evaluateNurseTriggers,
-  NURSE_TRIGGERS,
-} from "../sim/scenarios/peds_myocarditis_silent_crash/triggers";
+  recordMyocarditisTreatment,
+  runMyocarditisPhysiology,
+} from "../sim/scenarios/peds_myocarditis_silent_crash/physiology";
+import type { MyocarditisExtendedState } from "../sim/types";
+
+const MYOCARDITIS_SCENARIO = "peds_myocarditis_silent_crash_v1";
+const MYOCARDITIS_PHYSIOLOGY_RULES = getScenarioDef(MYOCARDITIS_SCENARIO)?.physiologyRules ?? [];
 
 // ============================================================================
 // Physiology Engine Tests
@@ -90,7 +98,7 @@ describe("PhysiologyEngine", () => {
     });
   });
 
-  describe("MYOCARDITIS_PHYSIOLOGY_RULES", () => {
+  describe("scenario physiology rules", () => {
     it("has all expected rule types", () => {
       const ruleIds = MYOCARDITIS_PHYSIOLOGY_RULES.map((r) => r.id);
 
@@ -101,6 +109,43 @@ describe("PhysiologyEngine", () => {
       expect(ruleIds).toContain("intubation_safe_ketamine");
     });
   });
+
+  describe("runMyocarditisPhysiology", () => {
+    function startScenario() {
+      const clock = createManualClock(1_700_000_000_000);
+      const engine = new ScenarioEngine("sim-myo", MYOCARDITIS_SCENARIO, clock);
+      engine.hydrate({ extended: createInitialMyocarditisState(clock.now()) });
+      return { clock, engine };
+    }
+
+    it("follows the phase transitions declared in the scenario file", () => {
+      const { clock, engine } = startScenario();
+      expect(runMyocarditisPhysiology(engine)?.phaseChangedTo).toBeUndefined();
+
+      clock.advance(61_000);
+      const outcome = runMyocarditisPhysiology(engine);
+
+      const recognition = engine.getPhaseDef("recognition")!;
+      expect(outcome?.phaseChangedTo).toBe("recognition");
+      expect(engine.getState().vitals).toEqual(recognition.vitals);
+      expect(engine.getState().rhythm).toMatchObject({ code: "sinus_tachycardia", features: { lowVoltage: true } });
+      expect(engine.getExtended()).toMatchObject({ phase: "recognition", phaseEnteredAt: clock.now() });
+    });
+
+    it("doses fluid rules against the scenario patient's weight", () => {
+      const { clock, engine } = startScenario();
+      const ext = engine.getExtended() as MyocarditisExtendedState;
+      // 640 mL is 20 mL/kg for the 32 kg patient, even if recorded against another weight
+      engine.updateExtended(recordMyocarditisTreatment(ext, "bolus", { dose: 640, weightKg: 64 }, clock.now()));
+
+      const outcome = runMyocarditisPhysiology(engine);
+
+      expect(outcome?.triggeredRules).toContain("fluid_overload");
+      expect(outcome?.nurseLine).toMatch(/Crackles/);
+      expect((engine.getExtended() as MyocarditisExtendedState).flags.pulmonaryEdema).toBe(true);
+      expect(engine.getState().vitals.spo2).toBeLessThan(94);
+    });
+  });
 });
 
 // ============================================================================
@@ -364,9 +409,24 @@ describe("Scoring", () => {
 // Triggers Tests
 // ============================================================================
 
+const T0 = 1_700_000_000_000;
+
+/** Evaluate the scenario's nurse triggers at a point on a manual clock */
+function evaluateNurseTriggers(state: MyocarditisExtendedState, elapsedMs: number, history: TriggerHistory) {
+  const clock = createManualClock(state.scenarioStartedAt);
+  clock.advance(elapsedMs);
+  const ctx = { state: { extended: state }, turns: [], scenarioStartTime: state.scenarioStartedAt, nowMs: clock.now() };
+  return evaluateTriggers(getScenarioTriggers(MYOCARDITIS_SCENARIO), ctx, history, {
+    now: clock.now(),
+    character: "nurse",
+  });
+}
+
 describe("Triggers", () => {
   it("has expected nurse triggers", () => {
-    const triggerIds = NURSE_TRIGGERS.map((t) => t.id);
+    const triggerIds = getScenarioTriggers(MYOCARDITIS_SCENARIO)
+      .filter((t) => t.character === "nurse")
+      .map((t) => t.id);
 
     expect(triggerIds).toContain("bp_crash_severe");
     expect(triggerIds).toContain("fluid_overload_warning");
@@ -374,9 +434,9 @@ describe("Triggers", () => {
     expect(triggerIds).toContain("intubation_collapse_alert");
   });
 
-  describe("evaluateNurseTriggers", () => {
+  describe("nurse trigger evaluation", () => {
     it("triggers BP crash alert at high shock stage", () => {
-      const state = createInitialMyocarditisState(Date.now());
+      const state = createInitialMyocarditisState(T0);
       state.shockStage = 4;
 
       const triggers = evaluateNurseTriggers(state, 10 * 60 * 1000, {});
@@ -387,7 +447,7 @@ describe("Triggers", () => {
     });
 
     it("triggers fluid overload warning", () => {
-      const state = createInitialMyocarditisState(Date.now());
+      const state = createInitialMyocarditisState(T0);
       state.totalFluidsMlKg = 18;
 
       const triggers = evaluateNurseTriggers(state, 10 * 60 * 1000, {});
@@ -397,18 +457,16 @@ describe("Triggers", () => {
     });
 
     it("respects cooldowns", () => {
-      const state = createInitialMyocarditisState(Date.now());
+      const state = createInitialMyocarditisState(T0);
       state.shockStage = 4;
 
       const history = {
-        bp_crash_severe: { lastFired: Date.now() - 30000, fireCount: 1 },
+        bp_crash_severe: { lastFired: T0 + 10 * 60 * 1000 - 30000, fireCount: 1 },
       };
 
-      const triggers = evaluateNurseTriggers(state, 10 * 60 * 1000, history);
-
-      // Should not fire again due to cooldown
-      const bpTrigger = triggers.find((t) => t.triggerId === "bp_crash_severe");
-      expect(bpTrigger).toBeUndefined();
+      // Should not fire again due to cooldown, then fires once it has passed
+      expect(evaluateNurseTriggers(state, 10 * 60 * 1000, history).find((t) => t.triggerId === "bp_crash_severe")).toBeUndefined();
+      expect(evaluateNurseTriggers(state, 11 * 60 * 1000, history).find((t) => t.triggerId === "bp_crash_severe")).toBeDefined();
     });
   });
 });
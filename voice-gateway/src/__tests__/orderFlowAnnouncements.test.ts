@@ -74,6 +74,23 @@ describe("order flow announcements", () => {
     expect(lastState?.telemetry).toBe(true);
   });
 
+  test("Echo order completes with a structured report read back by imaging", () => {
+    const { handleOrder, broadcastState, sm } = makeDeps();
+
+    handleOrder("sim-echo", "echo");
+
+    const stateCalls = broadcastState.mock.calls.filter((c) => Array.isArray(c) && c[1]?.orders);
+    const echoOrder = stateCalls[stateCalls.length - 1]?.[1].orders.find((o: any) => o.type === "echo");
+    expect(echoOrder.status).toBe("complete");
+    expect(echoOrder.result.echo.lvFunction).toBe("normal");
+    // No scenario declares echo media yet, so the report carries none
+    expect(echoOrder.result.echo.media).toBeUndefined();
+    const echoLine = sm.broadcastToSession.mock.calls
+      .map((c: any[]) => c[1])
+      .find((msg: any) => msg?.type === "patient_transcript_delta" && msg.text.startsWith("Echo complete:"));
+    expect(echoLine?.character).toBe("imaging");
+  });
+
   test("Imaging order completes with imaging announcement", () => {
     const { handleOrder, broadcastState } = makeDeps();
 
@@ -157,6 +174,33 @@ describe("order duplicate detection", () => {
     // Also verify they can coexist for same session
     expect(hasPendingOrder("test-concurrent", "labs")).toBe(false); // Different type, not pending
   });
+
+  test("lab panels are tracked individually", () => {
+    const { handleOrder } = makeDeps({ runImmediately: false });
+
+    expect(handleOrder("test-labs", "labs", undefined, undefined, { panels: ["trop"] }).success).toBe(true);
+    expect(handleOrder("test-labs", "labs", undefined, undefined, { panels: ["abg", "lactate"] }).success).toBe(true);
+    expect(handleOrder("test-labs", "labs", undefined, undefined, { panels: ["troponin"] }).success).toBe(false);
+    // A full draw overlaps the panels already in flight
+    expect(handleOrder("test-labs", "labs").success).toBe(false);
+    expect(hasPendingOrder("test-labs", "labs", ["cbc"])).toBe(false);
+    expect(hasPendingOrder("test-labs", "labs")).toBe(true);
+  });
+
+  test("completed labs carry structured panel results", () => {
+    const { handleOrder, broadcastState, sm } = makeDeps();
+
+    handleOrder("test-lab-result", "labs", undefined, undefined, { panels: ["cbc", "blood_gas"] });
+
+    const stateCalls = broadcastState.mock.calls.filter((c: any[]) => c[1]?.orders);
+    const labOrder = stateCalls[stateCalls.length - 1]?.[1].orders.find((o: any) => o.type === "labs");
+    expect(labOrder.labPanels).toEqual(["cbc", "blood_gas"]);
+    expect(labOrder.result.labs.map((p: any) => p.panel)).toEqual(["cbc", "blood_gas"]);
+    expect(labOrder.result.summary).toBe("CBC normal; Blood gas normal");
+    const lines = sm.broadcastToSession.mock.calls.map((c: any[]) => c[1]?.text).filter(Boolean);
+    expect(lines).toContain("Sending CBC and Blood gas now. Results in a few minutes.");
+    expect(lines).toContain("Lab results: CBC normal; Blood gas normal");
+  });
 });
 
 describe("order orderedBy tracking", () => {
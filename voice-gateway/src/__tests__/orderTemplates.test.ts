@@ -155,5 +155,10 @@ describe("orderTemplates", () => {
       expect(result.summary).toContain("Sinus rhythm");
       expect(result.summary).toContain("borderline QTc");
     });
+
+    it("leaves the image off so the viewer synthesizes the tracing", () => {
+      expect(getOrderResultTemplate("ekg", "kawasaki" as any).imageUrl).toBeUndefined();
+      expect(getOrderResultTemplate("ekg", "ductal_shock" as any).imageUrl).toBe("/images/ekg/ekg-ductal.png");
+    });
   });
 });
@@ -0,0 +1,83 @@
+import { COMMAND_PERMISSIONS, auditDenial, isCommandAllowed, isMessageAllowed, verifyPresenter } from "../permissions";
+import { logSimEvent } from "../persistence";
+
+jest.mock("../persistence", () => ({
+  loadSessionOwner: jest.fn(() => Promise.resolve(null)),
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+describe("command permission matrix", () => {
+  it("restricts scenario control and treatments to presenters", () => {
+    ["skip_stage", "scenario_event", "freeze", "unfreeze", "mute_user", "treatment", "force_reply"].forEach((cmd) => {
+      expect(isCommandAllowed(cmd as any, "presenter")).toBe(true);
+      expect(isCommandAllowed(cmd as any, "participant")).toBe(false);
+    });
+  });
+
+  it("lets participants send bedside orders and monitor commands", () => {
+    ["order", "exam", "toggle_telemetry", "show_ekg"].forEach((cmd) => {
+      expect(isCommandAllowed(cmd as any, "participant")).toBe(true);
+    });
+  });
+
+  it("covers every command and denies unknown ones", () => {
+    Object.values(COMMAND_PERMISSIONS).forEach((roles) => expect(roles).toContain("presenter"));
+    expect(isCommandAllowed("self_destruct" as any, "presenter")).toBe(false);
+  });
+});
+
+describe("message permission matrix", () => {
+  it("keeps scenario switches and paid transcript analysis to presenters", () => {
+    ["set_scenario", "analyze_transcript"].forEach((type) => {
+      expect(isMessageAllowed(type as any, "presenter")).toBe(true);
+      expect(isMessageAllowed(type as any, "participant")).toBe(false);
+    });
+    expect(isMessageAllowed("doctor_audio", "participant")).toBe(true);
+  });
+});
+
+describe("verifyPresenter", () => {
+  it("accepts the session creator", async () => {
+    await expect(verifyPresenter("s1", "uid-1", {}, async () => "uid-1")).resolves.toEqual({ allowed: true, via: "owner" });
+  });
+
+  it("accepts admins without a session lookup", async () => {
+    const loadOwner = jest.fn(async () => "someone-else");
+    await expect(verifyPresenter("s1", "uid-2", { admin: true }, loadOwner)).resolves.toEqual({ allowed: true, via: "admin" });
+    expect(loadOwner).not.toHaveBeenCalled();
+  });
+
+  it("rejects other users, unknown sessions and failed lookups", async () => {
+    await expect(verifyPresenter("s1", "uid-2", {}, async () => "uid-1")).resolves.toEqual({
+      allowed: false,
+      reason: "not_session_owner",
+    });
+    await expect(verifyPresenter("s1", "uid-2", {}, async () => null)).resolves.toEqual({
+      allowed: false,
+      reason: "session_not_found",
+    });
+    const failing = async (): Promise<string | null> => {
+      throw new Error("firestore down");
+    };
+    const spy = jest.spyOn(console, "error").mockImplementation(() => {});
+    await expect(verifyPresenter("s1", "uid-1", {}, failing)).resolves.toEqual({ allowed: false, reason: "lookup_failed" });
+    spy.mockRestore();
+  });
+});
+
+describe("auditDenial", () => {
+  it("persists denied commands to the session event log", () => {
+    const spy = jest.spyOn(console, "log").mockImplementation(() => {});
+    auditDenial("s1", { userId: "u1", role: "participant", reason: "role_not_permitted", commandType: "skip_stage" });
+    expect(logSimEvent).toHaveBeenCalledWith("s1", {
+      type: "audit.command.denied",
+      payload: { userId: "u1", role: "participant", reason: "role_not_permitted", commandType: "skip_stage" },
+    });
+    auditDenial("s1", { userId: "u2", role: "participant", reason: "role_not_permitted", messageType: "set_scenario" });
+    expect(logSimEvent).toHaveBeenLastCalledWith("s1", {
+      type: "audit.command.denied",
+      payload: { userId: "u2", role: "participant", reason: "role_not_permitted", messageType: "set_scenario" },
+    });
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,138 @@
+/** @jest-environment node */
+import { createOfflineProvider, createProvider, getAIProvider, resolveProviderName, setAIProvider } from "../providers";
+import { OFFLINE_TRANSCRIPTS, answerFromCase } from "../providers/offlineProvider";
+import { createDefaultPatientCase } from "../patientCase";
+import { analyzeTranscript } from "../debriefAnalyzer";
+import { synthesizePatientAudio } from "../ttsClient";
+import { transcribeDoctorAudio } from "../sttClient";
+import { onProviderUsage, reportUsage, type ProviderUsage } from "../providers/usage";
+
+const patientCase = createDefaultPatientCase("sim-offline", "syncope");
+
+async function collect(stream: AsyncIterable<string>): Promise<string> {
+  let text = "";
+  for await (const delta of stream) text += delta;
+  return text;
+}
+
+describe("provider selection", () => {
+  it("reads AI_PROVIDER and defaults to openai", () => {
+    expect(resolveProviderName({})).toBe("openai");
+    expect(resolveProviderName({ AI_PROVIDER: "Offline" })).toBe("offline");
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    expect(resolveProviderName({ AI_PROVIDER: "carrier-pigeon" })).toBe("openai");
+    jest.restoreAllMocks();
+    expect(createProvider("offline").name).toBe("offline");
+  });
+});
+
+describe("offline provider", () => {
+  const provider = createOfflineProvider();
+
+  it("answers patient questions from the case", () => {
+    expect(answerFromCase(patientCase, "Any allergies?")).toContain(
+      patientCase.allergies.length > 0 ? patientCase.allergies[0] : "none"
+    );
+    expect(answerFromCase(patientCase, "When did this start?")).toBe(patientCase.onset);
+    expect(answerFromCase(patientCase, "What's your name?")).toContain(patientCase.name);
+    expect(answerFromCase(patientCase, "Tell me more")).toContain(patientCase.chiefComplaint.toLowerCase());
+  });
+
+  it("tells medical history apart from medications", () => {
+    expect(answerFromCase(patientCase, "Do you have any medical problems?")).toMatch(/^Medical history:/);
+    expect(answerFromCase(patientCase, "Any medical history I should know about?")).toMatch(/^Medical history:/);
+    expect(answerFromCase(patientCase, "What medications are you on?")).toMatch(/^I take/);
+    expect(answerFromCase(patientCase, "Any medicine at home?")).toMatch(/^I take/);
+  });
+
+  it("streams the same reply it completes", async () => {
+    const request = {
+      messages: [{ role: "user" as const, content: "Do you take any medications?" }],
+      context: { character: "patient" as const, patientCase },
+    };
+    const streamed = await collect(provider.streamChat(request));
+    expect(streamed).toBe(await provider.completeChat(request));
+    expect(streamed.startsWith("I take")).toBe(true);
+  });
+
+  it("uses the scripted replies for other characters", async () => {
+    const reply = await provider.completeChat({
+      messages: [{ role: "user", content: "Question: get vitals" }],
+      context: { character: "tech" },
+    });
+    expect(reply.length).toBeGreaterThan(0);
+  });
+
+  it("returns parseable JSON for structured requests", async () => {
+    const raw = await provider.completeChat({ messages: [], responseFormat: "json" });
+    expect(JSON.parse(raw)).toMatchObject({ strengths: [], opportunities: [], teachingPoints: [] });
+  });
+
+  it("cycles through canned transcripts", async () => {
+    const offline = createOfflineProvider();
+    const audio = Buffer.from([0]);
+    const first = await offline.transcribe(audio, "audio/webm");
+    const second = await offline.transcribe(audio, "audio/webm");
+    expect([first, second]).toEqual(OFFLINE_TRANSCRIPTS.slice(0, 2));
+  });
+
+  it("synthesizes a WAV tone sized to the text and has no realtime mode", async () => {
+    const short = await provider.synthesizeSpeech("Okay.");
+    const long = await provider.synthesizeSpeech("word ".repeat(40));
+    expect(short?.subarray(0, 4).toString()).toBe("RIFF");
+    expect(short?.subarray(8, 12).toString()).toBe("WAVE");
+    expect(long!.length).toBeGreaterThan(short!.length);
+    expect(provider.createRealtimeSession({} as any)).toBeNull();
+  });
+});
+
+describe("gateway clients on the offline provider", () => {
+  beforeEach(() => setAIProvider(createOfflineProvider()));
+  afterEach(() => setAIProvider(null));
+
+  it("routes TTS, STT and debriefs through the configured provider", async () => {
+    expect(getAIProvider().name).toBe("offline");
+    expect(await transcribeDoctorAudio(Buffer.from([1, 2]), "audio/webm")).toBe(OFFLINE_TRANSCRIPTS[0]);
+    expect((await synthesizePatientAudio("Hello"))?.subarray(0, 4).toString()).toBe("RIFF");
+    const debrief = await analyzeTranscript([{ role: "doctor", text: "Any allergies?", timestamp: 0 }]);
+    expect(debrief.summary).toMatch(/offline/i);
+  });
+});
+
+describe("usage reporting", () => {
+  afterEach(() => {
+    setAIProvider(null);
+    onProviderUsage(null);
+  });
+
+  it("bills each call to the session the gateway clients pass through", async () => {
+    const usages: ProviderUsage[] = [];
+    onProviderUsage((usage) => usages.push(usage));
+    const offline = createOfflineProvider();
+    setAIProvider({
+      ...offline,
+      async transcribe(audio, contentType, sessionId) {
+        reportUsage({ modality: "stt", model: "whisper-1", sessionId, audioSeconds: 3 });
+        return offline.transcribe(audio, contentType, sessionId);
+      },
+      async synthesizeSpeech(text, voice, sessionId) {
+        reportUsage({ modality: "tts", model: "tts-1", sessionId, characters: text.length });
+        return offline.synthesizeSpeech(text, voice, sessionId);
+      },
+      async completeChat(request) {
+        reportUsage({ modality: "chat", model: "gpt-4o-mini", sessionId: request.sessionId, inputTokens: 10 });
+        return offline.completeChat(request);
+      },
+    });
+
+    await transcribeDoctorAudio(Buffer.from([1, 2]), "audio/webm", "sim-a");
+    await synthesizePatientAudio("Hello", undefined, "sim-b");
+    await analyzeTranscript([{ role: "doctor", text: "Any allergies?", timestamp: 0 }], undefined, "sim-c");
+
+    expect(usages.map((u) => [u.modality, u.sessionId])).toEqual([
+      ["stt", "sim-a"],
+      ["tts", "sim-b"],
+      ["chat", "sim-c"],
+    ]);
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import { withStateLock, tryWithStateLock, clearAllLocks } from "../stateLock";
-import { createInitialSVTState } from "../sim/scenarios/teen_svt_complex/definition";
+import { createInitialSVTState } from "../sim/physiologyEngine";
 import type { SVTExtendedState } from "../sim/types";
 
 // Mock scenario state management
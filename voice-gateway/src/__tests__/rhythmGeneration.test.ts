@@ -24,33 +24,35 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
   describe("Cardiac Arrest Rhythms", () => {
     it("should return asystole for HR=0", () => {
       const engine = createEngineWithVitals("syncope", 0);
-      expect(engine.getDynamicRhythm()).toMatch(/asystole/i);
+      expect(engine.getDynamicRhythm().summary).toMatch(/asystole/i);
+      expect(engine.getDynamicRhythm()).toMatchObject({ code: "asystole", pulsePresent: false, rateBpm: 0 });
     });
 
     it("should return agonal rhythm for HR<20", () => {
       const engine = createEngineWithVitals("syncope", 15);
-      expect(engine.getDynamicRhythm()).toMatch(/agonal/i);
+      expect(engine.getDynamicRhythm().summary).toMatch(/agonal/i);
     });
   });
 
   describe("SVT Threshold (>220 bpm for all ages)", () => {
     it("should identify SVT at 225 bpm in palpitations_svt scenario", () => {
       const engine = createEngineWithVitals("palpitations_svt", 225);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/SVT/i);
       expect(rhythm).toMatch(/narrow complex/i);
+      expect(engine.getDynamicRhythm()).toMatchObject({ code: "svt", rateBpm: 225, pulsePresent: true });
     });
 
     it("should identify VT at 225 bpm in arrhythmogenic scenario", () => {
       const engine = createEngineWithVitals("arrhythmogenic_syncope", 225);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/VT|ventricular tachycardia/i);
       expect(rhythm).toMatch(/wide complex/i);
     });
 
     it("should NOT call sinus tachy at 200 bpm SVT (above 220 threshold)", () => {
       const engine = createEngineWithVitals("palpitations_svt", 230);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).not.toMatch(/sinus tachycardia/i);
       expect(rhythm).toMatch(/SVT/i);
     });
@@ -62,25 +64,25 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
 
     it("should call NSR for infant at 140 bpm", () => {
       const engine = createEngineWithVitals("ductal_shock", 140);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
 
     it("should call sinus tachy for infant at 170 bpm", () => {
       const engine = createEngineWithVitals("ductal_shock", 170);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus tachycardia/i);
     });
 
     it("should call sinus brady for infant at 90 bpm", () => {
       const engine = createEngineWithVitals("ductal_shock", 90);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus bradycardia/i);
     });
 
     it("should NOT call sinus tachy for infant at 150 bpm (within normal)", () => {
       const engine = createEngineWithVitals("ductal_shock", 150);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
   });
@@ -91,19 +93,19 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
 
     it("should call NSR for toddler at 110 bpm", () => {
       const engine = createEngineWithVitals("cyanotic_spell", 110);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
 
     it("should call sinus tachy for toddler at 160 bpm", () => {
       const engine = createEngineWithVitals("cyanotic_spell", 160);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus tachycardia/i);
     });
 
     it("should call sinus brady for toddler at 80 bpm", () => {
       const engine = createEngineWithVitals("cyanotic_spell", 80);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus bradycardia/i);
     });
   });
@@ -114,19 +116,19 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
 
     it("should call NSR for preschooler at 100 bpm", () => {
       const engine = createEngineWithVitals("kawasaki", 100);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
 
     it("should call sinus tachy for preschooler at 130 bpm", () => {
       const engine = createEngineWithVitals("kawasaki", 130);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus tachycardia/i);
     });
 
     it("should call sinus brady for preschooler at 70 bpm", () => {
       const engine = createEngineWithVitals("kawasaki", 70);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus bradycardia/i);
     });
   });
@@ -137,19 +139,19 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
 
     it("should call NSR for school-age at 90 bpm", () => {
       const engine = createEngineWithVitals("myocarditis", 90);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
 
     it("should call sinus tachy for school-age at 120 bpm", () => {
       const engine = createEngineWithVitals("myocarditis", 120);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus tachycardia/i);
     });
 
     it("should call sinus brady for school-age at 60 bpm", () => {
       const engine = createEngineWithVitals("myocarditis", 60);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus bradycardia/i);
     });
   });
@@ -160,25 +162,25 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
 
     it("should call NSR for adolescent at 75 bpm", () => {
       const engine = createEngineWithVitals("syncope", 75);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
 
     it("should call sinus tachy for adolescent at 110 bpm", () => {
       const engine = createEngineWithVitals("syncope", 110);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus tachycardia/i);
     });
 
     it("should call sinus brady for adolescent at 50 bpm", () => {
       const engine = createEngineWithVitals("syncope", 50);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/sinus bradycardia/i);
     });
 
     it("should NOT call tachy for adolescent at 95 bpm (within normal)", () => {
       const engine = createEngineWithVitals("syncope", 95);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/normal sinus rhythm/i);
     });
   });
@@ -186,7 +188,7 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
   describe("Polymorphic VT / Torsades", () => {
     it("should identify Torsades at 250+ bpm", () => {
       const engine = createEngineWithVitals("syncope", 260);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/polymorphic vt|torsades/i);
     });
   });
@@ -194,14 +196,14 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
   describe("PVC/PAC Descriptions", () => {
     it("should describe PVCs with compensatory pause in arrhythmogenic scenario", () => {
       const engine = createEngineWithVitals("arrhythmogenic_syncope", 85);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/PAC|PVC/i);
       expect(rhythm).toMatch(/conducted/i);
     });
 
     it("should describe frequent PVCs in arrhythmogenic at elevated HR", () => {
       const engine = createEngineWithVitals("arrhythmogenic_syncope", 160);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/PVC|VT/i);
     });
   });
@@ -209,19 +211,19 @@ describe("Rhythm Generation - Age-Dependent Thresholds", () => {
   describe("Scenario-Specific EKG Findings", () => {
     it("should mention LVH in HCM scenario", () => {
       const engine = createEngineWithVitals("exertional_syncope_hcm", 80);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/LVH/i);
     });
 
     it("should mention low voltage in myocarditis", () => {
       const engine = createEngineWithVitals("myocarditis", 90);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/low voltage/i);
     });
 
     it("should mention RVH in cyanotic heart disease", () => {
       const engine = createEngineWithVitals("cyanotic_spell", 110);
-      const rhythm = engine.getDynamicRhythm();
+      const rhythm = engine.getDynamicRhythm().summary;
       expect(rhythm).toMatch(/RVH|right/i);
     });
   });
@@ -1,5 +1,6 @@
 import { ScenarioEngine } from "../sim/scenarioEngine";
-import { createInitialSVTState } from "../sim/scenarios/teen_svt_complex/definition";
+import { createInitialSVTState } from "../sim/physiologyEngine";
+import type { SVTExtendedState } from "../sim/types";
 
 describe("ScenarioEngine hydrate", () => {
   test("uses persisted stageEnteredAt to drive time-based transitions after hydrate", () => {
@@ -55,7 +56,7 @@ describe("ScenarioEngine hydrate with SVT extended state", () => {
 
     const state = engine.getState();
     expect(state.extended).toBeDefined();
-    expect(state.extended?.phase).toBe("presentation");
+    expect((state.extended as SVTExtendedState | undefined)?.phase).toBe("presentation");
     expect(state.extended?.phaseEnteredAt).toBe(past);
   });
 
@@ -98,7 +99,7 @@ describe("ScenarioEngine hydrate with SVT extended state", () => {
     });
 
     const state = engine.getState();
-    expect(state.extended?.phase).toBe("svt_onset");
+    expect((state.extended as SVTExtendedState | undefined)?.phase).toBe("svt_onset");
     // Type guard for SVT extended state
     if (state.extended && "currentRhythm" in state.extended) {
       expect(state.extended.currentRhythm).toBe("svt");
@@ -0,0 +1,307 @@
+import { createOrderHandler, clearSessionPendingOrders } from "../orders";
+import { createTreatmentHandler } from "../handlers/treatmentHandler";
+import { createScenarioOperationsHandler, initializeScenarioState } from "../handlers/scenarioOperations";
+import { toggleTelemetry } from "../telemetry";
+import { validateSimStateMessage } from "../validators";
+import { SessionManager } from "../sessionManager";
+import { SessionRecorder, isSessionRecordingEnabled, type RecordedEvent, type SequencedEvent } from "../sessionRecorder";
+import { replaySession } from "../sessionReplay";
+import { ScenarioEngine } from "../sim/scenarioEngine";
+import { ToolGate } from "../sim/toolGate";
+import { CostController } from "../sim/costController";
+import { createSeededRandom } from "../sim/simClock";
+import type { ClientToServerMessage } from "../messageTypes";
+import type { ScenarioId } from "../sim/scenarioTypes";
+import type { Runtime } from "../typesRuntime";
+
+jest.mock("../persistence", () => {
+  const actual = jest.requireActual("../persistence");
+  return {
+    ...actual,
+    logSimEvent: jest.fn(() => Promise.resolve()),
+  };
+});
+
+jest.mock("../ttsClient", () => ({
+  synthesizePatientAudio: jest.fn(() => Promise.resolve(null)),
+}));
+
+const SIM = "sim-recorded";
+
+/**
+ * A live-style session: wall-clock engine, real setTimeout/setInterval (faked by
+ * jest), heartbeat running, every input and broadcast going to a recorder.
+ */
+function startLiveSession(scenarioId: ScenarioId, seed: number) {
+  const recorded: SequencedEvent[] = [];
+  const recorder = new SessionRecorder(SIM, async (_id, batch) => {
+    recorded.push(...batch);
+  });
+  const runtime: Runtime = {
+    fallback: false,
+    scenarioEngine: new ScenarioEngine(SIM, scenarioId),
+    toolGate: new ToolGate(),
+    cost: new CostController({ softUsd: 10, hardUsd: 20 }),
+    rng: createSeededRandom(seed),
+    recorder,
+  };
+  const runtimes = new Map([[SIM, runtime]]);
+  const ensureRuntime = () => runtime;
+  const sessionManager = new SessionManager();
+  const scenarioTimers = new Map<string, ReturnType<typeof setInterval>>();
+  const broadcastSimState = (_sessionId: string, state: any) => {
+    if (validateSimStateMessage(state)) recorder.record({ kind: "sim_state", t: Date.now(), state });
+  };
+  const handleOrder = createOrderHandler({ ensureRuntime, sessionManager, broadcastSimState });
+  const treatments = createTreatmentHandler({
+    ensureRuntime,
+    sessionManager,
+    handleOrder,
+    broadcastSimState,
+    runtimes,
+    lastTreatmentAt: new Map(),
+    fireAndForget: (p) => void p.catch(() => {}),
+  });
+  const ops = createScenarioOperationsHandler({
+    ensureRuntime,
+    sessionManager,
+    runtimes,
+    scenarioTimers,
+    alarmSeenAt: new Map(),
+    eventLog: { append: jest.fn() },
+    broadcastSimState,
+    fireAndForget: (p) => void p.catch(() => {}),
+    logSimEvent: jest.fn(() => Promise.resolve()),
+    synthesizePatientAudio: jest.fn(() => Promise.resolve(null)),
+  });
+
+  recorder.record({ kind: "start", t: Date.now(), scenarioId, seed });
+  initializeScenarioState(runtime, scenarioId);
+  broadcastSimState(SIM, { ...runtime.scenarioEngine.getState(), stageIds: runtime.scenarioEngine.getStageIds() });
+  ops.startScenarioHeartbeat(SIM);
+
+  const command = (commandType: string, payload: Record<string, unknown>): ClientToServerMessage =>
+    ({ type: "voice_command", sessionId: SIM, userId: "u1", commandType, payload }) as ClientToServerMessage;
+
+  return {
+    runtime,
+    recorded,
+    order(orderType: string) {
+      const message = command("order", { orderType, displayName: "Dr. A" });
+      recorder.record({ kind: "client", t: Date.now(), role: "participant", message });
+      handleOrder(SIM, orderType as any, { id: "u1", name: "Dr. A", role: "participant" });
+    },
+    async treat(treatmentType: string) {
+      const message = command("treatment", { treatmentType });
+      recorder.record({ kind: "client", t: Date.now(), role: "participant", message });
+      await treatments.handleTreatment(SIM, treatmentType, { treatmentType });
+    },
+    telemetry(enabled: boolean) {
+      const message = command("toggle_telemetry", { enabled });
+      recorder.record({ kind: "client", t: Date.now(), role: "presenter", message });
+      toggleTelemetry(SIM, runtime, enabled, sessionManager, broadcastSimState);
+    },
+    skipStage(stageId: string) {
+      const message = command("skip_stage", { stageId });
+      recorder.record({ kind: "client", t: Date.now(), role: "presenter", message });
+      runtime.scenarioEngine.setStage(stageId);
+      broadcastSimState(SIM, {
+        ...runtime.scenarioEngine.getState(),
+        stageIds: runtime.scenarioEngine.getStageIds(),
+        fallback: runtime.fallback,
+      });
+    },
+    record(message: ClientToServerMessage) {
+      recorder.record({ kind: "client", t: Date.now(), role: "participant", message });
+    },
+    async stop() {
+      clearInterval(scenarioTimers.get(SIM));
+      clearSessionPendingOrders(SIM);
+      await recorder.flush();
+    },
+  };
+}
+
+describe("session replay", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-03-02T14:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("reproduces a recorded session's orders, physiology and timers", async () => {
+    const live = startLiveSession("palpitations_svt", 42);
+    jest.advanceTimersByTime(12_000);
+    live.telemetry(true);
+    live.order("ekg");
+    live.order("labs");
+    jest.advanceTimersByTime(20_000);
+    live.skipStage("stage_2_episode");
+    jest.advanceTimersByTime(15_000);
+    await live.treat("vagal");
+    jest.advanceTimersByTime(40_000);
+    await live.treat("adenosine");
+    jest.advanceTimersByTime(200_000);
+    await live.stop();
+
+    const result = await replaySession(live.recorded);
+
+    expect(result.recorded.timers.map((t) => t.label)).toEqual(
+      expect.arrayContaining(["order.ekg", "order.labs"])
+    );
+    expect(result.recorded.stagePath).toEqual(["stage_1_baseline", "stage_2_episode", "stage_3_post_episode"]);
+    expect(result.replayed.treatments).toEqual(["vagal", "adenosine"]);
+    expect(result.differences).toEqual([]);
+    expect(result.skipped).toEqual({});
+  });
+
+  it("draws order delays from the recorded seed", async () => {
+    const live = startLiveSession("syncope", 7);
+    live.order("imaging");
+    jest.advanceTimersByTime(250_000);
+    await live.stop();
+
+    const [timer] = (await replaySession(live.recorded)).replayed.timers;
+    expect(timer.label).toBe("order.imaging");
+
+    // A different seed gives a different delay, which shows up as a timer diff
+    const reseeded = live.recorded.map((e) => (e.kind === "start" ? { ...e, seed: 8 } : e));
+    const result = await replaySession(reseeded);
+    expect(result.differences.map((d) => d.field)).toEqual(["timers"]);
+  });
+
+  it("attributes actions to the recorded verified sender", async () => {
+    const message = {
+      type: "voice_command",
+      sessionId: SIM,
+      userId: "spoofed",
+      commandType: "order",
+      payload: { orderType: "ekg", displayName: "Dr. A" },
+    } as ClientToServerMessage;
+    const recording: RecordedEvent[] = [
+      { kind: "start", t: 0, scenarioId: "syncope", seed: 5 },
+      { kind: "client", t: 1000, role: "participant", userId: "u1", message },
+    ];
+
+    const result = await replaySession(recording);
+    const last = result.events.filter((e) => e.kind === "sim_state").pop();
+    const [order] = last?.kind === "sim_state" ? ((last.state.orders ?? []) as { orderedBy?: { id: string } }[]) : [];
+    expect(order?.orderedBy?.id).toBe("u1");
+  });
+
+  it("scores simple scenarios against their rubric", async () => {
+    const live = startLiveSession("palpitations_svt", 9);
+    live.order("ekg");
+    jest.advanceTimersByTime(120_000);
+    await live.stop();
+
+    const result = await replaySession(live.recorded);
+    expect(result.recorded.score?.checklistScore).toMatch(/^\d+\/\d+$/);
+    expect(result.replayed.score).toEqual(result.recorded.score);
+  });
+
+  it("reports messages it cannot re-run", async () => {
+    const live = startLiveSession("syncope", 1);
+    live.record({ type: "doctor_audio", sessionId: SIM, userId: "u1", audioBase64: "AAAA", contentType: "audio/webm" });
+    live.record({ type: "voice_command", sessionId: SIM, userId: "u1", commandType: "force_reply" });
+    await live.stop();
+
+    const result = await replaySession(live.recorded);
+    expect(result.skipped).toEqual({ doctor_audio: 1, "voice_command.force_reply": 1 });
+    expect(result.differences).toEqual([]);
+  });
+
+  it("keeps each runtime's events apart and replays the runs in order", async () => {
+    const first = startLiveSession("syncope", 3);
+    first.order("ekg");
+    jest.advanceTimersByTime(60_000);
+    await first.stop();
+    // The session emptied and a fresh runtime started under the same id
+    jest.advanceTimersByTime(5_000);
+    const second = startLiveSession("palpitations_svt", 4);
+    await second.treat("vagal");
+    jest.advanceTimersByTime(30_000);
+    await second.stop();
+
+    const keys = [...first.recorded, ...second.recorded].map((e) => `${e.run}-${e.seq}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(second.recorded[0].run).toBeGreaterThan(first.recorded[0].run);
+
+    // Stored runs can come back in any order
+    const result = await replaySession([...second.recorded, ...first.recorded]);
+    expect(result.recorded.scenarioId).toBe("palpitations_svt");
+    expect(result.replayed.treatments).toEqual(["vagal"]);
+    expect(result.differences).toEqual([]);
+  });
+});
+
+describe("SessionRecorder", () => {
+  it("sequences events and strips audio, tokens and waveforms", async () => {
+    const batches: SequencedEvent[][] = [];
+    const recorder = new SessionRecorder(
+      SIM,
+      async (_id, batch) => {
+        batches.push(batch);
+      },
+      undefined,
+      7
+    );
+    const engine = new ScenarioEngine(SIM, "syncope");
+    const events: RecordedEvent[] = [
+      { kind: "client", t: 1, role: "participant", message: { type: "join", sessionId: SIM, userId: "u1", role: "participant", authToken: "secret" } as ClientToServerMessage },
+      { kind: "client", t: 2, role: "participant", message: { type: "doctor_audio", sessionId: SIM, userId: "u1", audioBase64: "AAAA", contentType: "audio/webm" } },
+      { kind: "sim_state", t: 3, state: { ...engine.getState(), telemetryWaveform: [0, 1, 0] } },
+    ];
+    events.forEach((e) => recorder.record(e));
+    recorder.record({ kind: "tick", t: 4 });
+    expect(batches).toHaveLength(0);
+
+    await recorder.flush();
+    expect(batches).toHaveLength(1);
+    const [join, audio, state, tick] = batches[0];
+    expect(batches[0].map((e) => e.seq)).toEqual([0, 1, 2, 3]);
+    expect(join.kind === "client" && "authToken" in join.message).toBe(false);
+    expect(audio.kind === "client" && audio.message.type === "doctor_audio" && audio.message.audioBase64).toBe("");
+    expect(state.kind === "sim_state" && state.state.telemetryWaveform).toBeUndefined();
+    expect(tick).toEqual({ kind: "tick", t: 4, run: 7, seq: 3 });
+  });
+
+  it("samples sim_state between stage changes and keeps the latest", async () => {
+    const written: SequencedEvent[] = [];
+    const recorder = new SessionRecorder(SIM, async (_id, batch) => {
+      written.push(...batch);
+    });
+    const engine = new ScenarioEngine(SIM, "syncope");
+    const state = (stageId: string) => ({ ...engine.getState(), stageId });
+    for (let t = 0; t < 20; t++) {
+      recorder.record({ kind: "tick", t: t * 1000 });
+      recorder.record({ kind: "sim_state", t: t * 1000, state: state(t < 10 ? "stage_1_baseline" : "stage_2_worse") });
+    }
+    expect(written).toHaveLength(0);
+
+    await recorder.flush();
+    const states = written.filter((e) => e.kind === "sim_state").map((e) => e.t);
+    // First state, the stage change at 10 s, and the latest at 19 s
+    expect(states).toEqual([0, 10_000, 19_000]);
+    expect(written.map((e) => e.seq)).toEqual([...written.map((e) => e.seq)].sort((a, b) => a - b));
+  });
+
+  it("writes batches on session time rather than every tick", () => {
+    const batches: SequencedEvent[][] = [];
+    const recorder = new SessionRecorder(SIM, async (_id, batch) => {
+      batches.push(batch);
+    });
+    for (let t = 0; t <= 30; t++) recorder.record({ kind: "tick", t: t * 1000 });
+    expect(batches.map((b) => b.length)).toEqual([31]);
+  });
+});
+
+describe("recording defaults", () => {
+  it("records only when SESSION_RECORDING is true", () => {
+    expect(isSessionRecordingEnabled({})).toBe(false);
+    expect(isSessionRecordingEnabled({ SESSION_RECORDING: "false" })).toBe(false);
+    expect(isSessionRecordingEnabled({ SESSION_RECORDING: "true" })).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+/** @jest-environment node */
+import { SpendLedger, periodKeys, spendCapsFromEnv, type SpendStore, type SpendTotals } from "../spendLedger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 9, 30, 12); // 2026-10-30 noon UTC
+
+function memoryStore(initial: Record<string, SpendTotals> = {}) {
+  const docs: Record<string, SpendTotals> = structuredClone(initial);
+  const store: SpendStore & { docs: typeof docs; fail: boolean } = {
+    docs,
+    fail: false,
+    load: async (keys) => Object.fromEntries(keys.filter((k) => docs[k]).map((k) => [k, structuredClone(docs[k])])),
+    increment: async (deltas) => {
+      if (store.fail) throw new Error("offline");
+      Object.entries(deltas).forEach(([key, delta]) => {
+        const doc = (docs[key] ??= { usd: 0, byModality: {} });
+        doc.usd += delta.usd;
+        Object.entries(delta.byModality).forEach(([m, usd]) => {
+          doc.byModality[m as "chat"] = (doc.byModality[m as "chat"] ?? 0) + (usd ?? 0);
+        });
+      });
+    },
+  };
+  return store;
+}
+
+describe("SpendLedger", () => {
+  it("keys periods by UTC day and month", () => {
+    expect(periodKeys(T0)).toEqual({ day: "day-2026-10-30", month: "month-2026-10" });
+    expect(spendCapsFromEnv({ ORG_DAILY_CAP_USD: "50", ORG_MONTHLY_CAP_USD: "nope" })).toEqual({
+      dailyUsd: 50,
+      monthlyUsd: undefined,
+    });
+  });
+
+  it("adds persisted totals to spend recorded before load and flushes increments", async () => {
+    const store = memoryStore({ "day-2026-10-30": { usd: 2, byModality: { realtime: 2 } } });
+    const ledger = new SpendLedger(store, { now: () => T0 });
+    ledger.record("chat", 0.5);
+    await ledger.load();
+    ledger.record("realtime", 1);
+    ledger.record("tts", 0);
+
+    expect(ledger.getState()).toMatchObject({
+      daily: { usd: 3.5, byModality: { realtime: 3, chat: 0.5 } },
+      monthly: { usd: 1.5 },
+    });
+
+    await ledger.flush();
+    expect(store.docs["day-2026-10-30"]).toEqual({ usd: 3.5, byModality: { realtime: 3, chat: 0.5 } });
+    expect(store.docs["month-2026-10"]).toEqual({ usd: 1.5, byModality: { realtime: 1, chat: 0.5 } });
+  });
+
+  it("keeps increments that failed to flush", async () => {
+    const store = memoryStore();
+    const ledger = new SpendLedger(store, { now: () => T0 });
+    ledger.record("stt", 1);
+    store.fail = true;
+    await expect(ledger.flush()).rejects.toThrow("offline");
+    ledger.record("stt", 1);
+    store.fail = false;
+    await ledger.flush();
+    expect(store.docs["day-2026-10-30"].usd).toBe(2);
+  });
+
+  it("trips the daily cap, then the monthly one, and clears on rollover", () => {
+    let now = T0;
+    const reached: string[] = [];
+    const cleared = jest.fn();
+    const ledger = new SpendLedger(memoryStore(), {
+      now: () => now,
+      caps: { dailyUsd: 10, monthlyUsd: 15 },
+      onCapReached: (period) => reached.push(period),
+      onCapCleared: cleared,
+    });
+
+    ledger.record("realtime", 9);
+    expect(ledger.getCapReached()).toBeNull();
+    ledger.record("realtime", 1);
+    ledger.record("chat", 1);
+    expect(reached).toEqual(["daily"]);
+
+    now += DAY_MS; // Oct 31: new day, same month
+    expect(ledger.getCapReached()).toBeNull();
+    expect(cleared).toHaveBeenCalledTimes(1);
+    ledger.record("realtime", 4);
+    expect(reached).toEqual(["daily", "monthly"]);
+
+    now += DAY_MS; // Nov 1: both periods roll over
+    expect(ledger.getState()).toMatchObject({ daily: { usd: 0 }, monthly: { usd: 0 }, capReached: null });
+    expect(cleared).toHaveBeenCalledTimes(2);
+  });
+
+  it("reloads persisted totals when the day or month rolls over", async () => {
+    let now = T0;
+    const store = memoryStore({
+      "month-2026-10": { usd: 20, byModality: { realtime: 20 } },
+      "month-2026-11": { usd: 7, byModality: { chat: 7 } },
+    });
+    const reached: string[] = [];
+    const ledger = new SpendLedger(store, {
+      now: () => now,
+      caps: { monthlyUsd: 30 },
+      onCapReached: (period) => reached.push(period),
+    });
+    await ledger.load();
+    expect(ledger.getState().monthly.usd).toBe(20);
+
+    // Other instances spent while this one was idle
+    store.docs["day-2026-10-31"] = { usd: 4, byModality: { realtime: 4 } };
+    store.docs["month-2026-10"].usd = 29;
+    now += DAY_MS; // Oct 31
+    ledger.record("chat", 1);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(ledger.getState()).toMatchObject({
+      daily: { usd: 5, byModality: { realtime: 4, chat: 1 } },
+      monthly: { usd: 30 },
+      capReached: "monthly",
+    });
+    expect(reached).toEqual(["monthly"]);
+
+    now += DAY_MS; // Nov 1
+    ledger.record("chat", 1);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(ledger.getState()).toMatchObject({ day: "day-2026-11-01", daily: { usd: 1 }, monthly: { usd: 8 }, capReached: null });
+  });
+
+  it("re-evaluates caps when they change", () => {
+    const onCapReached = jest.fn();
+    const ledger = new SpendLedger(memoryStore(), { now: () => T0, onCapReached });
+    ledger.record("chat", 5);
+    ledger.setCaps({ dailyUsd: 5 });
+    expect(onCapReached).toHaveBeenCalledWith("daily", expect.objectContaining({ capReached: "daily" }));
+    ledger.setCaps({ dailyUsd: 20 });
+    expect(ledger.getCapReached()).toBeNull();
+  });
+});
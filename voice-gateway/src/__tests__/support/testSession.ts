@@ -0,0 +1,64 @@
+/**
+ * Shared session harness for the handler flow tests: one runtime on a manual
+ * clock, a SessionManager whose broadcasts are recorded, and the order and
+ * treatment handlers wired to them.
+ */
+import { createOrderHandler } from "../../orders";
+import { createTreatmentHandler } from "../../handlers/treatmentHandler";
+import { initializeScenarioState } from "../../handlers/scenarioOperations";
+import { SessionManager } from "../../sessionManager";
+import { ScenarioEngine } from "../../sim/scenarioEngine";
+import { ToolGate } from "../../sim/toolGate";
+import { CostController } from "../../sim/costController";
+import { createManualClock } from "../../sim/simClock";
+import type { ScenarioId } from "../../sim/scenarioTypes";
+import type { Runtime } from "../../typesRuntime";
+
+export const T0 = 1_700_000_000_000;
+
+export type TestSessionOptions = {
+  /** Value returned by every rng draw (default 0.5) */
+  roll?: number;
+  /** Seed the scenario's extended state as a scenario change would (default true) */
+  initialize?: boolean;
+  /** Use the real order handler instead of one that always succeeds (default false) */
+  realOrders?: boolean;
+};
+
+export function createTestSession(simId: string, scenarioId: ScenarioId, opts: TestSessionOptions = {}) {
+  const clock = createManualClock(T0);
+  const runtime: Runtime = {
+    fallback: false,
+    scenarioEngine: new ScenarioEngine(simId, scenarioId, clock),
+    toolGate: new ToolGate(),
+    cost: new CostController({ softUsd: 10, hardUsd: 20 }),
+    rng: { seed: 0, next: () => opts.roll ?? 0.5 },
+  };
+  if (opts.initialize ?? true) initializeScenarioState(runtime, scenarioId);
+
+  const sessionManager = new SessionManager();
+  const broadcast = jest.spyOn(sessionManager, "broadcastToSession");
+  const handleOrder = opts.realOrders
+    ? createOrderHandler({ ensureRuntime: () => runtime, sessionManager, broadcastSimState: jest.fn(), schedule: jest.fn() })
+    : () => ({ success: true });
+  const treatments = createTreatmentHandler({
+    ensureRuntime: () => runtime,
+    sessionManager,
+    handleOrder,
+    broadcastSimState: jest.fn(),
+    runtimes: new Map([[simId, runtime]]),
+    lastTreatmentAt: new Map(),
+    fireAndForget: (p) => void p.catch(() => {}),
+    schedule: jest.fn(),
+  });
+
+  /** Everything broadcast to the session, in order */
+  const messages = () => broadcast.mock.calls.map(([, msg]) => msg as any);
+  /** What the nurse said aloud */
+  const nurseLines = () =>
+    messages()
+      .filter((m) => m.type === "patient_transcript_delta" && m.character === "nurse")
+      .map((m) => m.text as string);
+
+  return { runtime, engine: runtime.scenarioEngine, clock, sessionManager, handleOrder, ...treatments, messages, nurseLines };
+}
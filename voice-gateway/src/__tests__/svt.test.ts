@@ -3,10 +3,6 @@
  * PALS SVT Algorithm: vagal → adenosine → cardioversion
  */
 
-import {
-  evaluatePhysiology,
-  SVT_PHYSIOLOGY_RULES,
-} from "../sim/physiologyEngine";
 import { parseOrder, parseMultipleOrders, getNurseResponse } from "../orderParser";
 import {
   calculateScore,
@@ -22,21 +18,16 @@ import {
   AVAILABLE_RESULTS,
 } from "../sim/scenarios/teen_svt_complex/results";
 import {
-  evaluateNurseTriggers,
-  evaluateParentTriggers,
-  evaluatePatientTriggers,
-  NURSE_TRIGGERS,
-  PARENT_TRIGGERS,
-  PATIENT_TRIGGERS,
-  getNextTrigger,
-} from "../sim/scenarios/teen_svt_complex/triggers";
-import {
-  svtComplexScenario,
-  SVT_PHASES,
-  SVT_CHARACTERS,
-  SVT_SCORING_CONFIG,
-  createInitialSVTState,
-} from "../sim/scenarios/teen_svt_complex/definition";
+  createNpcTriggerState,
+  evaluateTriggers,
+  getScenarioTriggers,
+  runNpcTriggers,
+} from "../sim/triggers/runtime";
+import type { TriggerCharacter, TriggerHistory } from "../sim/triggers/types";
+import { ScenarioEngine } from "../sim/scenarioEngine";
+import { createManualClock, createSeededRandom } from "../sim/simClock";
+import { createInitialSVTState } from "../sim/physiologyEngine";
+import { getScenarioDef } from "../sim/scenarioRegistry";
 import type { SVTExtendedState } from "../sim/types";
 
 // ============================================================================
@@ -77,19 +68,22 @@ describe("SVT State Management", () => {
 // SVT Scenario Definition Tests
 // ============================================================================
 
+const svtScenario = getScenarioDef("teen_svt_complex_v1")!;
+const SVT_PHASES = svtScenario.phases ?? [];
+
 describe("SVT Scenario Definition", () => {
-  describe("svtComplexScenario", () => {
+  describe("scenario file", () => {
     it("has correct scenario metadata", () => {
-      expect(svtComplexScenario.id).toBe("teen_svt_complex_v1");
-      expect(svtComplexScenario.scenarioType).toBe("complex");
-      expect(svtComplexScenario.title).toBe("Teen SVT - PALS Algorithm");
-      expect(svtComplexScenario.runtimeMinutes).toBe(15);
+      expect(svtScenario.id).toBe("teen_svt_complex_v1");
+      expect(svtScenario.initialPhase).toBe("presentation");
+      expect(svtScenario.title).toBe("Teen SVT - PALS Algorithm");
+      expect(svtScenario.runtimeMinutes).toBe(15);
     });
 
     it("has correct patient demographics", () => {
-      expect(svtComplexScenario.demographics.ageYears).toBe(14);
-      expect(svtComplexScenario.demographics.weightKg).toBe(50);
-      expect(svtComplexScenario.demographics.sex).toBe("female");
+      expect(svtScenario.demographics.ageYears).toBe(14);
+      expect(svtScenario.demographics.weightKg).toBe(50);
+      expect(svtScenario.demographics.sex).toBe("female");
     });
 
     it("has all 6 phases defined", () => {
@@ -104,8 +98,8 @@ describe("SVT Scenario Definition", () => {
     });
 
     it("has all 3 characters defined", () => {
-      expect(SVT_CHARACTERS).toHaveLength(3);
-      const roles = SVT_CHARACTERS.map((c) => c.role);
+      expect(svtScenario.characters).toHaveLength(3);
+      const roles = svtScenario.characters?.map((c) => c.role);
       expect(roles).toContain("patient");
       expect(roles).toContain("parent");
       expect(roles).toContain("nurse");
@@ -113,21 +107,21 @@ describe("SVT Scenario Definition", () => {
 
     it("has correct vitals for presentation phase", () => {
       const presentationPhase = SVT_PHASES.find((p) => p.id === "presentation");
-      expect(presentationPhase?.vitalsTarget.hr).toBe(90);
-      expect(presentationPhase?.vitalsTarget.spo2).toBe(99);
+      expect(presentationPhase?.vitals.hr).toBe(90);
+      expect(presentationPhase?.vitals.spo2).toBe(99);
       expect(presentationPhase?.stabilityRange).toEqual([1, 1]);
     });
 
     it("has correct vitals for SVT onset phase", () => {
       const svtPhase = SVT_PHASES.find((p) => p.id === "svt_onset");
-      expect(svtPhase?.vitalsTarget.hr).toBe(220);
+      expect(svtPhase?.vitals.hr).toBe(220);
       expect(svtPhase?.stabilityRange).toEqual([1, 2]);
     });
 
     it("has correct vitals for decompensating phase", () => {
       const decompPhase = SVT_PHASES.find((p) => p.id === "decompensating");
-      expect(decompPhase?.vitalsTarget.hr).toBe(250);
-      expect(decompPhase?.vitalsTarget.spo2).toBe(92);
+      expect(decompPhase?.vitals.hr).toBe(250);
+      expect(decompPhase?.vitals.spo2).toBe(92);
       expect(decompPhase?.stabilityRange).toEqual([3, 4]);
     });
   });
@@ -430,36 +424,55 @@ describe("SVT Scoring System", () => {
 // Trigger System Tests
 // ============================================================================
 
+const SVT_SCENARIO = "teen_svt_complex_v1";
+const T0 = 1_700_000_000_000;
+
+const svtTriggers = (character: TriggerCharacter) =>
+  getScenarioTriggers(SVT_SCENARIO).filter((t) => t.character === character);
+
+/** Evaluate the scenario's triggers for one character at a point on a manual clock */
+function evaluateSvtTriggers(
+  character: TriggerCharacter,
+  state: SVTExtendedState,
+  elapsedMs: number,
+  history: TriggerHistory = {}
+) {
+  const clock = createManualClock(state.scenarioStartedAt);
+  clock.advance(elapsedMs);
+  const ctx = { state: { extended: state }, turns: [], scenarioStartTime: state.scenarioStartedAt, nowMs: clock.now() };
+  return evaluateTriggers(getScenarioTriggers(SVT_SCENARIO), ctx, history, { now: clock.now(), character });
+}
+
 describe("SVT Trigger System", () => {
   describe("Nurse Triggers", () => {
     it("has all expected nurse triggers", () => {
-      expect(NURSE_TRIGGERS.length).toBeGreaterThan(5);
+      expect(svtTriggers("nurse").length).toBeGreaterThan(5);
     });
 
     it("has SVT recognition trigger", () => {
-      const svtTrigger = NURSE_TRIGGERS.find((t) => t.id === "svt_recognition");
+      const svtTrigger = svtTriggers("nurse").find((t) => t.id === "svt_recognition");
       expect(svtTrigger).toBeDefined();
     });
 
     it("has adenosine ready trigger", () => {
-      const adenosineTrigger = NURSE_TRIGGERS.find((t) => t.id === "adenosine_ready");
+      const adenosineTrigger = svtTriggers("nurse").find((t) => t.id === "adenosine_ready");
       expect(adenosineTrigger).toBeDefined();
     });
 
     it("has decompensation alert trigger", () => {
-      const decompTrigger = NURSE_TRIGGERS.find((t) => t.id === "decompensation_alert");
+      const decompTrigger = svtTriggers("nurse").find((t) => t.id === "decompensation_alert");
       expect(decompTrigger).toBeDefined();
     });
   });
 
   describe("Parent Triggers", () => {
     it("has parent triggers", () => {
-      expect(PARENT_TRIGGERS.length).toBeGreaterThan(0);
+      expect(svtTriggers("parent").length).toBeGreaterThan(0);
     });
 
     it("has parent concern triggers", () => {
       // Check for any parent trigger related to concern or history
-      const hasConcernTrigger = PARENT_TRIGGERS.some((t) =>
+      const hasConcernTrigger = svtTriggers("parent").some((t) =>
         t.line.toLowerCase().includes("heart") ||
         t.line.toLowerCase().includes("worried") ||
         t.line.toLowerCase().includes("happening")
@@ -470,12 +483,12 @@ describe("SVT Trigger System", () => {
 
   describe("Patient Triggers", () => {
     it("has patient triggers", () => {
-      expect(PATIENT_TRIGGERS.length).toBeGreaterThan(0);
+      expect(svtTriggers("patient").length).toBeGreaterThan(0);
     });
 
     it("has patient symptom triggers", () => {
       // Check for patient triggers about symptoms
-      const hasSymptomTrigger = PATIENT_TRIGGERS.some((t) =>
+      const hasSymptomTrigger = svtTriggers("patient").some((t) =>
         t.line.toLowerCase().includes("heart") ||
         t.line.toLowerCase().includes("scared") ||
         t.line.toLowerCase().includes("racing")
@@ -484,48 +497,55 @@ describe("SVT Trigger System", () => {
     });
   });
 
-  describe("evaluateNurseTriggers", () => {
+  describe("nurse trigger evaluation", () => {
     it("triggers SVT recognition when in SVT onset phase", () => {
-      const state = createInitialSVTState(Date.now());
+      const state = createInitialSVTState(T0);
       state.phase = "svt_onset";
       state.currentRhythm = "svt";
-      const emptyHistory = {};
 
-      const triggers = evaluateNurseTriggers(state, 30000, emptyHistory);
+      const triggers = evaluateSvtTriggers("nurse", state, 30000);
       const svtTrigger = triggers.find((t) => t.triggerId === "svt_recognition");
       expect(svtTrigger).toBeDefined();
     });
 
     it("triggers decompensation alert when stability drops", () => {
-      const state = createInitialSVTState(Date.now());
+      const state = createInitialSVTState(T0);
       state.phase = "treatment_window";
       state.stabilityLevel = 3;
       state.currentRhythm = "svt";
-      const emptyHistory = {};
 
-      const triggers = evaluateNurseTriggers(state, 180000, emptyHistory);
+      const triggers = evaluateSvtTriggers("nurse", state, 180000);
       const decompTrigger = triggers.find((t) => t.triggerId === "decompensation_alert");
       expect(decompTrigger).toBeDefined();
     });
+
+    it("does not repeat a line past its fire limit", () => {
+      const state = createInitialSVTState(T0);
+      state.phase = "svt_onset";
+      state.currentRhythm = "svt";
+      const history = { svt_recognition: { lastFired: T0, fireCount: 1 } };
+
+      const triggers = evaluateSvtTriggers("nurse", state, 10 * 60 * 1000, history);
+      expect(triggers.find((t) => t.triggerId === "svt_recognition")).toBeUndefined();
+    });
   });
 
-  describe("getNextTrigger", () => {
-    it("returns a trigger or null", () => {
-      const state = createInitialSVTState(Date.now());
+  describe("runNpcTriggers", () => {
+    it("speaks one line from the live session and records it in the history", () => {
+      const clock = createManualClock(T0);
+      const engine = new ScenarioEngine("svt-triggers", SVT_SCENARIO, clock);
+      const state = createInitialSVTState(T0);
       state.phase = "svt_onset";
       state.currentRhythm = "svt";
-      const emptyHistory = {};
-
-      const trigger = getNextTrigger(state, 30000, emptyHistory);
-      // getNextTrigger returns a trigger or null depending on conditions and random chance
-      // We just verify the return type is correct
-      if (trigger !== null) {
-        expect(trigger.character).toBeDefined();
-        expect(trigger.line).toBeDefined();
-        expect(trigger.triggerId).toBeDefined();
-      } else {
-        expect(trigger).toBeNull();
-      }
+      engine.updateExtended(state);
+      clock.advance(30000);
+
+      const npc = createNpcTriggerState(createSeededRandom(1));
+      const trigger = runNpcTriggers(engine, npc, createSeededRandom(1));
+
+      expect(trigger?.character).toBe("nurse");
+      expect(trigger?.line).toEqual(expect.any(String));
+      expect(npc.history[trigger!.triggerId]).toEqual({ lastFired: clock.now(), fireCount: 1 });
     });
   });
 });
@@ -583,45 +603,6 @@ describe("SVT Results System", () => {
   });
 });
 
-// ============================================================================
-// Physiology Rules Tests
-// ============================================================================
-
-describe("SVT Physiology Rules", () => {
-  describe("SVT_PHYSIOLOGY_RULES", () => {
-    it("has all expected SVT rules", () => {
-      const ruleIds = SVT_PHYSIOLOGY_RULES.map((r) => r.id);
-
-      expect(ruleIds).toContain("vagal_conversion");
-      expect(ruleIds).toContain("adenosine_first_success");
-      expect(ruleIds).toContain("adenosine_first_failure");
-      expect(ruleIds).toContain("cardioversion_success");
-      expect(ruleIds).toContain("cardioversion_unsedated");
-      expect(ruleIds).toContain("stability_drift");
-      expect(ruleIds).toContain("decompensation_severe");
-    });
-
-    it("has correct trigger conditions for vagal conversion", () => {
-      const vagalRule = SVT_PHYSIOLOGY_RULES.find((r) => r.id === "vagal_conversion");
-      expect(vagalRule).toBeDefined();
-      expect(vagalRule?.conditions.some((c) => c.type === "vagal_attempted")).toBe(true);
-    });
-
-    it("has correct effects for cardioversion success", () => {
-      const cardiovertRule = SVT_PHYSIOLOGY_RULES.find((r) => r.id === "cardioversion_success");
-      expect(cardiovertRule).toBeDefined();
-      expect(cardiovertRule?.effects.some((e) => e.type === "convert_rhythm")).toBe(true);
-      expect(cardiovertRule?.effects.some((e) => e.type === "advance_svt_phase")).toBe(true);
-    });
-
-    it("has penalty flag for unsedated cardioversion", () => {
-      const unsedatedRule = SVT_PHYSIOLOGY_RULES.find((r) => r.id === "cardioversion_unsedated");
-      expect(unsedatedRule).toBeDefined();
-      expect(unsedatedRule?.effects.some((e) => e.type === "set_flag")).toBe(true);
-    });
-  });
-});
-
 // ============================================================================
 // Integration Tests
 // ============================================================================
@@ -813,17 +794,17 @@ describe("SVT Phase Transition Edge Cases", () => {
   describe("vitals target for each phase", () => {
     it("presentation phase should have HR 90", () => {
       const presentationPhase = SVT_PHASES.find((p) => p.id === "presentation");
-      expect(presentationPhase?.vitalsTarget.hr).toBe(90);
+      expect(presentationPhase?.vitals.hr).toBe(90);
     });
 
     it("svt_onset phase should have HR 220", () => {
       const svtOnsetPhase = SVT_PHASES.find((p) => p.id === "svt_onset");
-      expect(svtOnsetPhase?.vitalsTarget.hr).toBe(220);
+      expect(svtOnsetPhase?.vitals.hr).toBe(220);
     });
 
     it("converted phase should have HR 95 (sinus recovery)", () => {
       const convertedPhase = SVT_PHASES.find((p) => p.id === "converted");
-      expect(convertedPhase?.vitalsTarget.hr).toBe(95);
+      expect(convertedPhase?.vitals.hr).toBe(95);
     });
   });
 });
@@ -0,0 +1,92 @@
+/** @jest-environment node */
+import { actorFor, handleTeamRole } from "../codeTeam";
+import { buildRoleFeedback } from "../debriefAnalyzer";
+import { summarizeRoleCoverage } from "../sim/teamRoles";
+import { createTestSession, T0 } from "./support/testSession";
+
+jest.mock("../persistence", () => ({
+  logSimEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock("../ttsClient", () => ({
+  synthesizePatientAudio: jest.fn(() => Promise.resolve(null)),
+}));
+
+const SIM = "sim-team";
+
+function setup() {
+  const { runtime, sessionManager, clock, handleOrder, handleTreatment, messages } = createTestSession(SIM, "palpitations_svt", {
+    initialize: false,
+    realOrders: true,
+  });
+  const claim = (userId: string, teamRole: "team_leader" | "airway" | "medications" | "auto") =>
+    handleTeamRole(SIM, runtime, { userId, name: userId, teamRole, assignedBy: "self" }, sessionManager);
+  return { runtime, handleOrder, handleTreatment, claim, messages, clock };
+}
+
+describe("code-team roles", () => {
+  it("broadcasts the roster when a role is claimed", () => {
+    const { claim, messages } = setup();
+    claim("Ana", "team_leader");
+    expect(claim("Ben", "team_leader")).toEqual({ ok: false, reason: "role_taken" });
+    claim("Ben", "auto");
+
+    const roster = messages().filter((m) => m.type === "team_roster").pop();
+    expect(roster.members.map((m: any) => [m.userId, m.teamRole])).toEqual([
+      ["Ana", "team_leader"],
+      ["Ben", "airway"],
+    ]);
+  });
+
+  it("attributes orders and treatments to the actor's role", async () => {
+    const { runtime, handleOrder, handleTreatment, claim } = setup();
+    claim("Ana", "airway");
+    claim("Cy", "medications");
+
+    handleOrder(SIM, "labs", actorFor(runtime, "Cy", "participant"), undefined, {});
+    handleOrder(SIM, "ekg", actorFor(runtime, "Ana", "participant"));
+    await handleTreatment(SIM, "oxygen", { orderedBy: actorFor(runtime, "Ana", "participant") });
+
+    const orders = runtime.scenarioEngine.getState().orders as any[];
+    expect(orders.map((o) => [o.type, o.orderedBy.teamRole])).toEqual([
+      ["labs", "medications"],
+      ["ekg", "airway"],
+    ]);
+    expect(runtime.scenarioEngine.getState().treatmentHistory?.[0].orderedBy).toMatchObject({ name: "Ana", teamRole: "airway" });
+    expect(runtime.team?.actions.map((a) => [a.action, a.inScope])).toEqual([
+      ["labs", true],
+      ["ekg", false],
+      ["oxygen", true],
+    ]);
+  });
+
+  it("lets the presenter call out an action for a role", () => {
+    const { runtime, claim } = setup();
+    claim("Ana", "airway");
+    expect(actorFor(runtime, "host", "presenter", { teamRole: "compressions" })).toEqual({
+      id: "host",
+      name: "Presenter",
+      role: "presenter",
+      teamRole: "compressions",
+    });
+    expect(actorFor(runtime, "Ana", "participant", { teamRole: "team_leader" }).teamRole).toBe("airway");
+  });
+
+  it("reports role coverage in the debrief", () => {
+    const { runtime, handleOrder, claim, clock } = setup();
+    claim("Ana", "airway");
+    clock.advance(30_000);
+    handleOrder(SIM, "iv_access", actorFor(runtime, "Ana", "participant"), { gauge: 22, location: "right_ac" });
+
+    const summary = summarizeRoleCoverage(runtime.team);
+    expect(summary).not.toBeNull();
+    const feedback = buildRoleFeedback(summary as NonNullable<typeof summary>, T0);
+    expect(feedback.opportunities).toEqual([
+      "No one took the Team leader, Compressions, Medications, Recorder roles.",
+      "Ana (Airway) took iv access, outside their role.",
+    ]);
+    expect(feedback.strengths).toEqual(["Orders and treatments by role: Airway 1."]);
+    expect(feedback.teachingPoints).toHaveLength(1);
+    expect(feedback.timeline[0]).toMatchObject({ timeFormatted: "0:00", description: "Ana took Airway" });
+  });
+});
@@ -53,4 +53,11 @@ describe("validateMessage", () => {
     });
     expect(msg).toBeNull();
   });
+
+  it("accepts alarm actions for known alarms only", () => {
+    const base = { type: "alarm_action", sessionId: "s1", userId: "u1" };
+    expect(validateMessage({ ...base, alarmId: "spo2Low", action: "acknowledge" })?.type).toBe("alarm_action");
+    expect(validateMessage({ ...base, alarmId: "spo2Low", action: "mute" })).toBeNull();
+    expect(validateMessage({ ...base, alarmId: "etco2Low", action: "silence" })).toBeNull();
+  });
 });
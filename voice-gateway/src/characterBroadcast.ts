@@ -51,7 +51,7 @@ export async function broadcastCharacterSpeak(
     const voice = CHARACTER_VOICES[character];
     log("TTS for character", character, "voice:", voice, "text:", text.slice(0, 50));
     try {
-      const audioBuffer = await synthesizePatientAudio(text, voice);
+      const audioBuffer = await synthesizePatientAudio(text, voice, sessionId);
       if (audioBuffer) {
         log("TTS audio generated", character, "bytes:", audioBuffer.length);
         // Send audio to all session participants so students hear the patient
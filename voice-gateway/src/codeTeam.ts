@@ -0,0 +1,84 @@
+import type { ClientRole } from "./messageTypes";
+import type { OrderedBy } from "./orders";
+import { logSimEvent } from "./persistence";
+import { SessionManager } from "./sessionManager";
+import {
+  applyTeamRoleRequest,
+  createTeamRoster,
+  isTeamRole,
+  recordTeamAction,
+  type TeamAction,
+  type TeamActionRecord,
+  type TeamRole,
+  type TeamRoleResult,
+  type TeamRoster,
+} from "./sim/teamRoles";
+import { Runtime } from "./typesRuntime";
+
+export function broadcastTeamRoster(sessionId: string, roster: TeamRoster, sessionManager: SessionManager) {
+  sessionManager.broadcastToSession(sessionId, { type: "team_roster", sessionId, members: roster.members });
+}
+
+/**
+ * Claim, assign or release a code-team role and share the new roster. The
+ * presenter may assign a role to anyone and take it from its holder.
+ */
+export function handleTeamRole(
+  sessionId: string,
+  runtime: Runtime,
+  request: { userId: string; name: string; teamRole: TeamRole | "auto" | null; assignedBy: "self" | "presenter" },
+  sessionManager: SessionManager,
+  nowMs: number = runtime.scenarioEngine.now()
+): TeamRoleResult {
+  runtime.team = runtime.team ?? createTeamRoster();
+  const result = applyTeamRoleRequest(runtime.team, request, nowMs);
+  if (!result.ok) return result;
+  logSimEvent(sessionId, {
+    type: "team.role",
+    payload: { userId: request.userId, teamRole: result.teamRole, assignedBy: request.assignedBy },
+  }).catch(() => {});
+  broadcastTeamRoster(sessionId, runtime.team, sessionManager);
+  return result;
+}
+
+/**
+ * Who sent a voice command, with their code role. A presenter calling out an
+ * action on someone's behalf can name the role in the payload.
+ */
+export function actorFor(
+  runtime: Runtime,
+  userId: string,
+  role: ClientRole,
+  payload?: Record<string, unknown>
+): OrderedBy {
+  const member = runtime.team?.members.find((m) => m.userId === userId);
+  const displayName = typeof payload?.displayName === "string" ? payload.displayName : undefined;
+  const teamRole = role === "presenter" && isTeamRole(payload?.teamRole) ? payload.teamRole : member?.teamRole;
+  return {
+    id: userId,
+    name: member?.name ?? displayName ?? (role === "presenter" ? "Presenter" : "Unknown"),
+    role,
+    ...(teamRole ? { teamRole } : {}),
+  };
+}
+
+/**
+ * Fill in the actor's code role from the roster and log the action against it.
+ * System actions and sessions without roles pass through untouched.
+ */
+export function attributeToTeam(
+  runtime: Runtime,
+  by: OrderedBy,
+  kind: TeamActionRecord["kind"],
+  action: TeamAction,
+  nowMs: number = runtime.scenarioEngine.now()
+): OrderedBy {
+  const roster = runtime.team;
+  if (!roster || by.id === "system") return by;
+  const member = roster.members.find((m) => m.userId === by.id);
+  const teamRole = by.teamRole ?? member?.teamRole;
+  const name = member?.name ?? by.name;
+  const actionName = action.kind === "order" ? action.orderType : action.kind === "treatment" ? action.treatmentType : action.action;
+  recordTeamAction(roster, { ts: nowMs, userId: by.id, name, teamRole, kind, action: actionName }, action);
+  return teamRole ? { ...by, name, teamRole } : by;
+}
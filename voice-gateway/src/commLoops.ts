@@ -0,0 +1,162 @@
+import { logSimEvent } from "./persistence";
+import { SessionManager } from "./sessionManager";
+import {
+  LOOP_CONFIRM_WINDOW_MS,
+  confirmLoop,
+  createCommLoopLog,
+  dropLoop,
+  expireLoop,
+  isConfirmation,
+  markReadBack,
+  openLoop,
+  pendingAddressee,
+  resolveAddressee,
+  type CommLoop,
+} from "./sim/closedLoop";
+import { Runtime } from "./typesRuntime";
+
+export type CommLoopDeps = {
+  sessionManager: SessionManager;
+  schedule?: (fn: () => void, ms: number) => unknown;
+};
+
+/** Orders held until the learner says who they were for */
+const heldOrders = new WeakMap<CommLoop, () => boolean>();
+
+type LoopTimer = { handle?: unknown };
+
+/** Pending loop timers per session, cancelled when the scenario changes or the session ends */
+const loopTimers = new Map<string, Set<LoopTimer>>();
+
+/** Schedule a loop callback that `clearSessionLoops` can cancel */
+function scheduleLoopTimer(sessionId: string, fn: () => void, deps: CommLoopDeps) {
+  const { schedule = setTimeout } = deps;
+  const timers = loopTimers.get(sessionId) ?? new Set<LoopTimer>();
+  loopTimers.set(sessionId, timers);
+  const timer: LoopTimer = {};
+  timer.handle = schedule(() => {
+    // An injected scheduler cannot be cancelled, so a cleared timer also checks in
+    if (!timers.delete(timer)) return;
+    if (timers.size === 0 && loopTimers.get(sessionId) === timers) loopTimers.delete(sessionId);
+    fn();
+  }, LOOP_CONFIRM_WINDOW_MS);
+  timers.add(timer);
+}
+
+/** Cancel a session's pending loop timers (scenario change, reset, session end) */
+export function clearSessionLoops(sessionId: string): void {
+  const timers = loopTimers.get(sessionId);
+  if (!timers) return;
+  timers.forEach((timer) => clearTimeout(timer.handle as ReturnType<typeof setTimeout>));
+  timers.clear();
+  loopTimers.delete(sessionId);
+}
+
+function nurseSays(sessionId: string, text: string, sessionManager: SessionManager) {
+  sessionManager.broadcastToSession(sessionId, {
+    type: "patient_transcript_delta",
+    sessionId,
+    text,
+    character: "nurse",
+  });
+}
+
+function logLoop(sessionId: string, loop: CommLoop) {
+  logSimEvent(sessionId, {
+    type: `comm.loop.${loop.status}`,
+    payload: { loopId: loop.id, action: loop.action, userId: loop.userId, addressee: loop.addressee },
+  }).catch(() => {});
+}
+
+/** Names a learner can address an order to: everyone holding a code role */
+function addresseeNames(runtime: Runtime): string[] {
+  return runtime.team?.members.map((m) => m.name) ?? [];
+}
+
+/**
+ * Place a loop's order; its acknowledgment is the read-back. If the learner
+ * has not confirmed when the window closes, the nurse asks.
+ */
+function placeLoopOrder(sessionId: string, runtime: Runtime, loop: CommLoop, placeOrder: () => boolean, deps: CommLoopDeps) {
+  const { sessionManager } = deps;
+  if (!placeOrder()) {
+    if (runtime.loops) dropLoop(runtime.loops, loop);
+    return;
+  }
+  markReadBack(loop, runtime.scenarioEngine.now());
+  scheduleLoopTimer(
+    sessionId,
+    () => {
+      if (!expireLoop(loop, runtime.scenarioEngine.now())) return;
+      nurseSays(sessionId, `Just closing the loop: you wanted ${loop.action.replace(/_/g, " ")}, correct?`, sessionManager);
+      logLoop(sessionId, loop);
+    },
+    deps
+  );
+}
+
+/**
+ * Track a spoken order as a communication loop. An order named for someone is
+ * placed at once; otherwise the nurse asks who it was for and holds it until
+ * the learner answers, or takes it when the window runs out.
+ */
+export function startOrderLoop(
+  sessionId: string,
+  runtime: Runtime,
+  order: { userId: string; name: string; action: string; text: string },
+  placeOrder: () => boolean,
+  deps: CommLoopDeps
+): CommLoop {
+  const { sessionManager } = deps;
+  runtime.loops = runtime.loops ?? createCommLoopLog();
+  const loop = openLoop(runtime.loops, order, runtime.scenarioEngine.now(), addresseeNames(runtime));
+  if (loop.status !== "awaiting_addressee") {
+    placeLoopOrder(sessionId, runtime, loop, placeOrder, deps);
+    return loop;
+  }
+
+  heldOrders.set(loop, placeOrder);
+  nurseSays(sessionId, "Sorry, who was that for?", sessionManager);
+  scheduleLoopTimer(
+    sessionId,
+    () => {
+      if (loop.status !== "awaiting_addressee") return;
+      heldOrders.delete(loop);
+      nurseSays(sessionId, "I'll take it.", sessionManager);
+      placeLoopOrder(sessionId, runtime, loop, placeOrder, deps);
+    },
+    deps
+  );
+  return loop;
+}
+
+/**
+ * Check a learner's utterance against their open loops: naming who a held
+ * order was for places it, and a bare confirmation ("Yes, thanks") closes the
+ * latest read-back. Returns true when the utterance was consumed by a loop;
+ * anything longer goes on to the patient.
+ */
+export function handleLoopReply(
+  sessionId: string,
+  runtime: Runtime,
+  userId: string,
+  text: string,
+  deps: CommLoopDeps
+): boolean {
+  const log = runtime.loops;
+  if (!log) return false;
+
+  const held = pendingAddressee(log, userId);
+  if (held && resolveAddressee(held, text, addresseeNames(runtime))) {
+    const placeOrder = heldOrders.get(held);
+    heldOrders.delete(held);
+    if (placeOrder) placeLoopOrder(sessionId, runtime, held, placeOrder, deps);
+    return true;
+  }
+
+  if (!isConfirmation(text)) return false;
+  const closed = confirmLoop(log, userId, runtime.scenarioEngine.now());
+  if (!closed) return false;
+  logLoop(sessionId, closed);
+  return true;
+}
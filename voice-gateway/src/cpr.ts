@@ -0,0 +1,102 @@
+import { CprEventKind } from "./messageTypes";
+import { logSimEvent } from "./persistence";
+import {
+  createCprLog,
+  cprQualityFactor,
+  recordArrest,
+  recordCprEvent,
+  recordEpi,
+  recordRosc,
+  recordShock,
+  summarizeCpr,
+} from "./sim/cprQuality";
+import { roscLikelihood, type ArrestIntervention } from "./sim/physiologyEngine";
+import { isArrestRhythm, isShockableRhythm, type Rhythm } from "./sim/rhythm";
+import { nextRandom } from "./sim/simClock";
+import { Runtime } from "./typesRuntime";
+
+/** The patient's current rhythm: the engine-owned one, else what the vitals imply */
+function currentRhythm(runtime: Runtime): Rhythm {
+  const engine = runtime.scenarioEngine;
+  return engine.getState().rhythm ?? engine.getDynamicRhythm();
+}
+
+/** Pulseless right now, by the patient's current rhythm */
+export function isInArrest(runtime: Runtime): boolean {
+  return isArrestRhythm(currentRhythm(runtime));
+}
+
+/** Mirror the CPR metrics into extended state, where scenario scoring reads them */
+function syncCprMetrics(runtime: Runtime, nowMs: number) {
+  if (!runtime.cpr || !runtime.scenarioEngine.getState().extended) return;
+  const metrics = summarizeCpr(runtime.cpr, nowMs);
+  if (metrics) runtime.scenarioEngine.updateExtended({ cpr: metrics });
+}
+
+/**
+ * Record a metronome report from the code team (compressions started or
+ * paused, a rate sample, a compressor swap).
+ */
+export function handleCprEvent(
+  sessionId: string,
+  runtime: Runtime,
+  event: CprEventKind,
+  rate: number | undefined,
+  userId: string,
+  nowMs: number = runtime.scenarioEngine.now()
+) {
+  runtime.cpr = runtime.cpr ?? createCprLog();
+  if (!recordCprEvent(runtime.cpr, event, nowMs, rate)) return;
+  syncCprMetrics(runtime, nowMs);
+  logSimEvent(sessionId, { type: "cpr.event", payload: { event, rate, userId } }).catch(() => {});
+}
+
+/**
+ * Heartbeat check: open the arrest when the patient loses their pulse, close it
+ * if a pulse comes back some other way (presenter inject, stage change), and
+ * keep the running metrics current while it lasts.
+ */
+export function trackArrest(runtime: Runtime, nowMs: number = runtime.scenarioEngine.now()) {
+  const arrested = isInArrest(runtime);
+  const cprLog = runtime.cpr;
+  const open = cprLog?.arrestStartedAt !== undefined && cprLog.roscAt === undefined;
+  if (arrested && !open) {
+    runtime.cpr = cprLog ?? createCprLog();
+    recordArrest(runtime.cpr, nowMs);
+  } else if (!arrested && open && cprLog) {
+    recordRosc(cprLog, nowMs);
+  } else if (!open) {
+    return;
+  }
+  syncCprMetrics(runtime, nowMs);
+}
+
+/**
+ * A shock or epinephrine given during arrest: record it and roll for return of
+ * circulation, with the odds scaled by the CPR quality so far. On ROSC the
+ * patient comes back tachycardic with a soft pressure.
+ */
+export function attemptRosc(runtime: Runtime, intervention: ArrestIntervention): boolean {
+  const engine = runtime.scenarioEngine;
+  const nowMs = engine.now();
+  const rhythm = currentRhythm(runtime);
+  runtime.cpr = runtime.cpr ?? createCprLog();
+  if (intervention === "shock") recordShock(runtime.cpr, nowMs);
+  else recordEpi(runtime.cpr, nowMs);
+
+  const quality = cprQualityFactor(summarizeCpr(runtime.cpr, nowMs));
+  const rosc = nextRandom(runtime.rng) < roscLikelihood(intervention, isShockableRhythm(rhythm), quality);
+  if (rosc) {
+    recordRosc(runtime.cpr, nowMs);
+    const { norms } = engine.getPhysiologyContext();
+    const sbp = norms.sbp.low;
+    engine.setVitals({
+      ...engine.getState().vitals,
+      hr: norms.hr.high,
+      bp: `${sbp}/${Math.round(sbp * 0.6)}`,
+      spo2: 92,
+    });
+  }
+  syncCprMetrics(runtime, nowMs);
+  return rosc;
+}
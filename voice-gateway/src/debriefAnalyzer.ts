@@ -1,7 +1,21 @@
-import { getOpenAIClient, MODEL } from "./openaiClient";
+import { MODEL } from "./openaiClient";
+import { getAIProvider } from "./providers";
 import { DebriefTurn } from "./messageTypes";
 import { log, logError } from "./logger";
-import type { MyocarditisExtendedState, SVTExtendedState } from "./sim/types";
+import { hasGenericExtended, type CprMetrics, type MedicationErrorRecord, type MyocarditisExtendedState, type SVTExtendedState, type SimState } from "./sim/types";
+import { isCriticalMedicationError } from "./sim/formulary";
+import { isCriticalDefibError, type DefibErrorRecord } from "./sim/defibrillator";
+import { TEAM_ROLE_LABELS, type RoleCoverageSummary } from "./sim/teamRoles";
+import type { ClosedLoopMetrics, ClosedLoopSummary } from "./sim/closedLoop";
+import { ALARM_RESPONSE_TARGET_MS, getAlarmResponseMs, type AlarmResponseSummary } from "./sim/alarmEngine";
+import {
+  CCF_TARGET,
+  COMPRESSOR_SWAP_INTERVAL_MS,
+  CPR_TARGET_RATE,
+  FIRST_EPI_TARGET_MS,
+  PERI_SHOCK_PAUSE_TARGET_MS,
+} from "./sim/cprQuality";
+import { scoreRubric, type RubricScore, type ScenarioRubric } from "./sim/rubric";
 import { calculateScore as calculateMyocarditisScore, type ScoreResult } from "./sim/scenarios/peds_myocarditis_silent_crash/scoring";
 import { calculateScore as calculateSVTScore, type ScoreResult as SVTScoreResult } from "./sim/scenarios/teen_svt_complex/scoring";
 
@@ -53,13 +67,12 @@ export type TimelineEvent = {
   isBad?: boolean;
 };
 
-export async function analyzeTranscript(turns: DebriefTurn[]): Promise<DebriefResult> {
-  const client = getOpenAIClient();
-  if (!client) {
-    log("Debrief skipped: OPENAI_API_KEY not set");
-    return fallbackResult("Debrief unavailable (no OpenAI API key).");
-  }
-
+/** sessionId (here and below) is the session the model call is billed to */
+export async function analyzeTranscript(
+  turns: DebriefTurn[],
+  context?: string,
+  sessionId?: string
+): Promise<DebriefResult> {
   const transcriptText = turns
     .map((t) => `${t.role === "doctor" ? "Doctor" : "Patient"}: ${t.text}`)
     .join("\n");
@@ -73,20 +86,39 @@ Given the transcript, produce concise JSON feedback:
 - teachingPoints: 3–6 short, high-yield teaching reminders (e.g., exertional vs non-exertional chest pain, syncope characterization, family history red flags).
 Focus on clinical content and structure, not grammar. Keep bullets specific and relevant.
 Return only JSON with keys: summary, strengths, opportunities, teachingPoints.
+${context ? `\nSCENARIO CONTEXT:\n${context}` : ""}
   `.trim();
 
   const user = `Transcript:\n${transcriptText}`;
 
+  return requestDebriefFeedback(
+    { system, user, sessionId },
+    "Debrief analysis failed",
+    "Debrief unavailable due to an error."
+  );
+}
+
+/** Ask the AI provider for JSON feedback (summary, strengths, opportunities, teachingPoints) */
+async function requestDebriefFeedback(
+  { system, user, sessionId }: { system: string; user: string; sessionId?: string },
+  failureLabel: string,
+  failureSummary: string
+): Promise<DebriefResult> {
+  const provider = getAIProvider();
+  if (!provider.isAvailable()) {
+    log("Debrief skipped: AI provider unavailable");
+    return fallbackResult("Debrief unavailable (no OpenAI API key).");
+  }
   try {
-    const completion = await client.chat.completions.create({
+    const raw = await provider.completeChat({
       model: DEBRIEF_MODEL,
       messages: [
         { role: "system", content: system },
         { role: "user", content: user },
       ],
-      response_format: { type: "json_object" } as any,
+      responseFormat: "json",
+      sessionId,
     });
-    const raw = completion.choices?.[0]?.message?.content ?? "";
     const parsed = JSON.parse(raw);
     return {
       summary: parsed.summary ?? "",
@@ -95,8 +127,8 @@ Return only JSON with keys: summary, strengths, opportunities, teachingPoints.
       teachingPoints: Array.isArray(parsed.teachingPoints) ? parsed.teachingPoints : [],
     };
   } catch (err) {
-    logError("Debrief analysis failed", err);
-    return fallbackResult("Debrief unavailable due to an error.");
+    logError(failureLabel, err);
+    return fallbackResult(failureSummary);
   }
 }
 
@@ -123,14 +155,15 @@ export async function analyzeComplexScenario(
   turns: DebriefTurn[],
   extendedState: ComplexExtendedState,
   scenarioStartTime: number,
-  scenarioId: ComplexScenarioId
+  scenarioId: ComplexScenarioId,
+  sessionId?: string
 ): Promise<ComplexDebriefResult> {
   const elapsedMs = Date.now() - scenarioStartTime;
 
   if (scenarioId === "teen_svt_complex_v1" && isSVTState(extendedState)) {
-    return analyzeSVTScenario(turns, extendedState, scenarioStartTime, elapsedMs);
+    return analyzeSVTScenario(turns, extendedState, scenarioStartTime, elapsedMs, sessionId);
   } else if (scenarioId === "peds_myocarditis_silent_crash_v1" && isMyocarditisState(extendedState)) {
-    return analyzeMyocarditisScenario(turns, extendedState, scenarioStartTime, elapsedMs);
+    return analyzeMyocarditisScenario(turns, extendedState, scenarioStartTime, elapsedMs, sessionId);
   }
 
   // Fallback - should not happen with proper typing
@@ -145,11 +178,12 @@ async function analyzeMyocarditisScenario(
   turns: DebriefTurn[],
   extendedState: MyocarditisExtendedState,
   scenarioStartTime: number,
-  elapsedMs: number
+  elapsedMs: number,
+  sessionId?: string
 ): Promise<ComplexDebriefResult> {
   const scoreResult = calculateMyocarditisScore(extendedState, elapsedMs);
   const timeline = buildTimeline(extendedState, scenarioStartTime);
-  const aiResult = await analyzeMyocarditisTranscript(turns, extendedState, scoreResult);
+  const aiResult = await analyzeMyocarditisTranscript(turns, extendedState, scoreResult, sessionId);
 
   return buildComplexDebriefResult(aiResult, scoreResult, timeline);
 }
@@ -161,11 +195,34 @@ async function analyzeSVTScenario(
   turns: DebriefTurn[],
   extendedState: SVTExtendedState,
   scenarioStartTime: number,
-  elapsedMs: number
+  elapsedMs: number,
+  sessionId?: string
 ): Promise<ComplexDebriefResult> {
   const scoreResult = calculateSVTScore(extendedState, elapsedMs);
   const timeline = buildSVTTimeline(extendedState, scenarioStartTime);
-  const aiResult = await analyzeSVTTranscript(turns, extendedState, scoreResult);
+  const aiResult = await analyzeSVTTranscript(turns, extendedState, scoreResult, sessionId);
+
+  return buildComplexDebriefResult(aiResult, scoreResult, timeline);
+}
+
+/**
+ * Analyze a simple scenario against the rubric declared in its scenario file,
+ * in the same result format as the complex scenarios.
+ */
+export async function analyzeRubricScenario(
+  turns: DebriefTurn[],
+  state: SimState,
+  rubric: ScenarioRubric,
+  scenarioStartTime: number,
+  sessionId?: string
+): Promise<ComplexDebriefResult> {
+  const scoreResult = scoreRubric(rubric, { state, turns, scenarioStartTime });
+  const timeline = buildSimpleTimeline(state, scenarioStartTime);
+  const context = [
+    `Outcome: ${scoreResult.passed ? "PASSED" : "DID NOT PASS"} (${scoreResult.checklistScore})`,
+    ...scoreResult.checklistResults.map((r) => `- [${r.achieved ? "x" : " "}] ${r.item.description}`),
+  ].join("\n");
+  const aiResult = await analyzeTranscript(turns, context, sessionId);
 
   return buildComplexDebriefResult(aiResult, scoreResult, timeline);
 }
@@ -175,7 +232,7 @@ async function analyzeSVTScenario(
  */
 function buildComplexDebriefResult(
   aiResult: DebriefResult,
-  scoreResult: ScoreResult | SVTScoreResult,
+  scoreResult: ScoreResult | SVTScoreResult | RubricScore,
   timeline: TimelineEvent[]
 ): ComplexDebriefResult {
   return {
@@ -232,6 +289,354 @@ function buildTimeline(
   return events;
 }
 
+/**
+ * Timeline for a simple scenario: orders, treatments and the stage and
+ * physiology events from generic extended state.
+ */
+function buildSimpleTimeline(state: SimState, scenarioStartTime: number): TimelineEvent[] {
+  const entry = (ts: number, type: string, description: string): TimelineEvent => ({
+    timeMs: ts - scenarioStartTime,
+    timeFormatted: formatTime(ts - scenarioStartTime),
+    type,
+    description,
+  });
+  const events: TimelineEvent[] = (state.orders ?? []).flatMap((order) =>
+    order.orderedAt === undefined ? [] : [entry(order.orderedAt, "order", `Ordered ${order.type.replace(/_/g, " ")}`)]
+  );
+
+  if (hasGenericExtended(state)) {
+    state.extended.timelineEvents.forEach((event) => events.push(entry(event.ts, event.type, event.description)));
+  } else {
+    (state.treatmentHistory ?? []).forEach((t) => events.push(entry(t.ts, "treatment", `Treatment: ${t.treatmentType}`)));
+  }
+
+  return events.sort((a, b) => a.timeMs - b.timeMs);
+}
+
+export type AlarmFeedback = {
+  strengths: string[];
+  opportunities: string[];
+  timeline: TimelineEvent[];
+};
+
+/**
+ * Debrief lines and timeline entries for how the team responded to monitor alarms.
+ */
+export function buildAlarmFeedback(summary: AlarmResponseSummary, scenarioStartTime: number): AlarmFeedback {
+  const feedback: AlarmFeedback = { strengths: [], opportunities: [], timeline: [] };
+  if (summary.alarms.length === 0) return feedback;
+
+  const seconds = (ms: number) => `${Math.round(ms / 1000)} s`;
+  const targetLabel = seconds(ALARM_RESPONSE_TARGET_MS);
+  const { medianResponseMs } = summary;
+  if (medianResponseMs !== undefined) {
+    if (medianResponseMs <= ALARM_RESPONSE_TARGET_MS) {
+      feedback.strengths.push(
+        `Responded to ${summary.responded} of ${summary.alarms.length} monitor alarms (median ${seconds(medianResponseMs)}).`
+      );
+    } else {
+      feedback.opportunities.push(
+        `Median monitor alarm response was ${seconds(medianResponseMs)}; aim to acknowledge alarms within ${targetLabel}.`
+      );
+    }
+  }
+  summary.unanswered
+    .filter((alarm) => alarm.priority !== "low")
+    .forEach((alarm) => {
+      feedback.opportunities.push(`${alarm.message} (${alarm.priority} priority) was never silenced or acknowledged.`);
+    });
+
+  summary.alarms.forEach((alarm) => {
+    const raisedMs = alarm.raisedAt - scenarioStartTime;
+    feedback.timeline.push({
+      timeMs: raisedMs,
+      timeFormatted: formatTime(raisedMs),
+      type: "alarm",
+      description: `${capitalize(alarm.priority)} priority alarm: ${alarm.message}`,
+      isBad: alarm.priority === "high",
+    });
+    const responseMs = getAlarmResponseMs(alarm);
+    if (responseMs === undefined) return;
+    const respondedMs = alarm.raisedAt + responseMs - scenarioStartTime;
+    const label = alarm.message.split(":")[0];
+    const verb = alarm.acknowledgedAt === alarm.respondedAt ? "acknowledged" : "silenced";
+    feedback.timeline.push({
+      timeMs: respondedMs,
+      timeFormatted: formatTime(respondedMs),
+      type: "alarm_response",
+      description: `${label} alarm ${verb} after ${seconds(responseMs)}`,
+      isGood: responseMs <= ALARM_RESPONSE_TARGET_MS,
+      isBad: responseMs > ALARM_RESPONSE_TARGET_MS,
+    });
+  });
+  feedback.timeline.sort((a, b) => a.timeMs - b.timeMs);
+
+  return feedback;
+}
+
+export type MedicationFeedback = {
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+};
+
+/**
+ * Debrief lines and timeline entries for medication orders the nurse challenged.
+ */
+export function buildMedicationFeedback(errors: MedicationErrorRecord[], scenarioStartTime: number): MedicationFeedback {
+  const feedback: MedicationFeedback = { opportunities: [], teachingPoints: [], timeline: [] };
+  if (errors.length === 0) return feedback;
+
+  errors.forEach((error) => {
+    const outcome = error.administered ? "given after the nurse challenged it" : "held by the nurse";
+    feedback.opportunities.push(`${capitalize(error.drug.replace(/_/g, " "))} order ${outcome}: ${error.message}`);
+    const relativeMs = error.ts - scenarioStartTime;
+    feedback.timeline.push({
+      timeMs: relativeMs,
+      timeFormatted: formatTime(relativeMs),
+      type: "medication_error",
+      description: `${capitalize(error.drug.replace(/_/g, " "))} ${error.kind.replace(/_/g, " ")} (${outcome})`,
+      isBad: true,
+    });
+  });
+  if (errors.some((e) => isCriticalMedicationError(e.kind))) {
+    feedback.teachingPoints.push(
+      "Tenfold and concentration errors are the most common serious pediatric drug errors: state the dose in mg and mg/kg, name the concentration, and have the nurse read it back."
+    );
+  }
+
+  return feedback;
+}
+
+export type DefibFeedback = {
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+};
+
+/**
+ * Debrief lines and timeline entries for mistakes made on the defibrillator.
+ */
+export function buildDefibFeedback(errors: DefibErrorRecord[], scenarioStartTime: number): DefibFeedback {
+  const feedback: DefibFeedback = { opportunities: [], teachingPoints: [], timeline: [] };
+  if (errors.length === 0) return feedback;
+
+  errors.forEach((error) => {
+    feedback.opportunities.push(`Defibrillator at ${error.energyJ} J (${error.joulesPerKg} J/kg): ${error.message}`);
+    const relativeMs = error.ts - scenarioStartTime;
+    feedback.timeline.push({
+      timeMs: relativeMs,
+      timeFormatted: formatTime(relativeMs),
+      type: "defib_error",
+      description: `Defibrillator: ${error.kind.replace(/_/g, " ")} at ${error.energyJ} J`,
+      isBad: true,
+    });
+  });
+  if (errors.some((e) => isCriticalDefibError(e.kind))) {
+    feedback.teachingPoints.push(
+      "Sync on for a perfusing tachycardia (0.5-1 J/kg, then 2 J/kg); sync off for VF and pulseless VT (2 J/kg, then 4 J/kg). Confirm the rhythm and the sync marker on every R wave before you shock."
+    );
+  }
+
+  return feedback;
+}
+
+export type CprFeedback = {
+  strengths: string[];
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+};
+
+/**
+ * Debrief lines and timeline entries for CPR quality during the arrest.
+ */
+export function buildCprFeedback(metrics: CprMetrics, scenarioStartTime: number): CprFeedback {
+  const feedback: CprFeedback = { strengths: [], opportunities: [], teachingPoints: [], timeline: [] };
+  const seconds = (ms: number) => `${Math.round(ms / 1000)} s`;
+  const percent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+  const at = (ts: number) => ({ timeMs: ts - scenarioStartTime, timeFormatted: formatTime(ts - scenarioStartTime) });
+
+  if (metrics.ccf >= CCF_TARGET) {
+    feedback.strengths.push(`Chest-compression fraction ${percent(metrics.ccf)} over ${formatTime(metrics.durationMs)} of arrest.`);
+  } else {
+    feedback.opportunities.push(
+      `Chest-compression fraction was ${percent(metrics.ccf)}; aim for ≥${percent(CCF_TARGET)} (longest pause ${seconds(metrics.longestPauseMs)}).`
+    );
+  }
+  if (metrics.meanRate !== undefined) {
+    const onTarget = `${percent(metrics.rateInTargetFraction ?? 0)} of rate checks at ${CPR_TARGET_RATE.low}-${CPR_TARGET_RATE.high}/min`;
+    if ((metrics.rateInTargetFraction ?? 0) >= 0.8) {
+      feedback.strengths.push(`Compression rate averaged ${metrics.meanRate}/min (${onTarget}).`);
+    } else {
+      feedback.opportunities.push(`Compression rate averaged ${metrics.meanRate}/min; only ${onTarget}.`);
+    }
+  }
+  if (metrics.longestStintMs > COMPRESSOR_SWAP_INTERVAL_MS * 1.5) {
+    feedback.opportunities.push(
+      `One compressor stayed on the chest for ${formatTime(metrics.longestStintMs)}; swap compressors every 2 minutes at the rhythm check.`
+    );
+  }
+  if (metrics.timeToFirstEpiMs !== undefined) {
+    const line = `First epinephrine ${formatTime(metrics.timeToFirstEpiMs)} into the arrest.`;
+    if (metrics.timeToFirstEpiMs <= FIRST_EPI_TARGET_MS) feedback.strengths.push(line);
+    else feedback.opportunities.push(`${line} Give it within 5 minutes.`);
+  } else if (metrics.durationMs > FIRST_EPI_TARGET_MS) {
+    feedback.opportunities.push(`No epinephrine in ${formatTime(metrics.durationMs)} of arrest.`);
+  }
+
+  feedback.timeline.push({ ...at(metrics.arrestStartedAt), type: "cpr", description: "Cardiac arrest - pulseless", isBad: true });
+  metrics.shocks.forEach((shock, i) => {
+    const post = shock.postShockPauseMs === undefined ? "" : `, post-shock ${seconds(shock.postShockPauseMs)}`;
+    const long =
+      shock.preShockPauseMs > PERI_SHOCK_PAUSE_TARGET_MS || (shock.postShockPauseMs ?? 0) > PERI_SHOCK_PAUSE_TARGET_MS;
+    feedback.timeline.push({
+      ...at(shock.ts),
+      type: "cpr",
+      description: `Shock ${i + 1}: pre-shock pause ${seconds(shock.preShockPauseMs)}${post}`,
+      isGood: !long,
+      isBad: long,
+    });
+    if (long) {
+      feedback.opportunities.push(
+        `Hands-off time around shock ${i + 1} exceeded ${seconds(PERI_SHOCK_PAUSE_TARGET_MS)}; charge during compressions and resume immediately after the shock.`
+      );
+    }
+  });
+  if (metrics.firstEpiAt !== undefined) {
+    feedback.timeline.push({
+      ...at(metrics.firstEpiAt),
+      type: "cpr",
+      description: "First epinephrine during arrest",
+      isGood: (metrics.timeToFirstEpiMs ?? 0) <= FIRST_EPI_TARGET_MS,
+      isBad: (metrics.timeToFirstEpiMs ?? 0) > FIRST_EPI_TARGET_MS,
+    });
+  }
+  if (metrics.roscAt !== undefined) {
+    feedback.timeline.push({ ...at(metrics.roscAt), type: "cpr", description: `ROSC after ${formatTime(metrics.durationMs)}`, isGood: true });
+  }
+  if (feedback.opportunities.length > 0) {
+    feedback.teachingPoints.push(
+      "Coronary perfusion builds only during uninterrupted compressions: keep the compression fraction above 80%, rate 100-120/min, and pauses around shocks under 10 seconds."
+    );
+  }
+
+  return feedback;
+}
+
+export type RoleFeedback = {
+  strengths: string[];
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+};
+
+/**
+ * Debrief lines for code-team role coverage: which roles were staffed, how much
+ * each did, and actions taken outside a role or without one.
+ */
+export function buildRoleFeedback(summary: RoleCoverageSummary, scenarioStartTime: number): RoleFeedback {
+  const feedback: RoleFeedback = { strengths: [], opportunities: [], teachingPoints: [], timeline: [] };
+  const label = (role: keyof typeof TEAM_ROLE_LABELS) => TEAM_ROLE_LABELS[role];
+
+  if (summary.unfilled.length === 0) {
+    feedback.strengths.push("Every code-team role was filled.");
+  } else {
+    feedback.opportunities.push(`No one took the ${summary.unfilled.map(label).join(", ")} role${summary.unfilled.length > 1 ? "s" : ""}.`);
+  }
+  const activity = summary.filled.map((role) => `${label(role)} ${summary.actionsByRole[role]}`).join(", ");
+  if (activity) feedback.strengths.push(`Orders and treatments by role: ${activity}.`);
+
+  summary.outOfScope.forEach((action) => {
+    feedback.opportunities.push(
+      `${action.name} (${action.teamRole ? label(action.teamRole) : "no role"}) took ${action.action.replace(/_/g, " ")}, outside their role.`
+    );
+  });
+  if (summary.unattributed > 0) {
+    feedback.opportunities.push(`${summary.unattributed} action${summary.unattributed > 1 ? "s were" : " was"} taken by someone without a code role.`);
+  }
+  if (summary.leaderHandsOn.length > 0) {
+    feedback.opportunities.push(
+      `The team leader did ${summary.leaderHandsOn.length} hands-on task${summary.leaderHandsOn.length > 1 ? "s" : ""} a staffed role could have done.`
+    );
+    feedback.teachingPoints.push(
+      "The team leader stays hands-off: assign each task to a role with closed-loop communication so the leader keeps the whole picture."
+    );
+  }
+  if (!summary.filled.includes("team_leader")) {
+    feedback.teachingPoints.push("Name a team leader first; everyone else takes a role from them.");
+  }
+
+  summary.assignments.forEach((assignment) => {
+    const relativeMs = assignment.ts - scenarioStartTime;
+    feedback.timeline.push({
+      timeMs: relativeMs,
+      timeFormatted: formatTime(relativeMs),
+      type: "team_role",
+      description: assignment.teamRole
+        ? `${assignment.name} took ${label(assignment.teamRole)}`
+        : `${assignment.name} stepped out of their role`,
+    });
+  });
+
+  return feedback;
+}
+
+export type ClosedLoopFeedback = {
+  strengths: string[];
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+  metrics: ClosedLoopMetrics;
+};
+
+/**
+ * Debrief lines for closed-loop communication on spoken orders: how many were
+ * named for someone, read back and confirmed, and how quickly.
+ */
+export function buildClosedLoopFeedback(summary: ClosedLoopSummary, scenarioStartTime: number): ClosedLoopFeedback {
+  const { metrics } = summary;
+  const feedback: ClosedLoopFeedback = { strengths: [], opportunities: [], teachingPoints: [], timeline: [], metrics };
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? "" : "s"}`;
+  const confirmed = metrics.closed + metrics.closedAfterPrompt;
+
+  if (confirmed > 0) {
+    const median = metrics.medianConfirmMs !== null ? ` (median ${Math.round(metrics.medianConfirmMs / 1000)}s after read-back)` : "";
+    feedback.strengths.push(`Confirmed the read-back on ${confirmed} of ${plural(metrics.orders, "spoken order")}${median}.`);
+  }
+  if (metrics.clarified > 0) {
+    feedback.opportunities.push(
+      `${plural(metrics.clarified, "order")} named no one; the nurse had to ask who ${metrics.clarified === 1 ? "it was" : "they were"} for.`
+    );
+  }
+  if (metrics.unconfirmed + metrics.closedAfterPrompt > 0) {
+    feedback.opportunities.push(
+      `${plural(metrics.unconfirmed + metrics.closedAfterPrompt, "read-back")} went unconfirmed for more than ${Math.round(metrics.windowMs / 1000)} seconds.`
+    );
+  }
+  if (feedback.opportunities.length > 0) {
+    feedback.teachingPoints.push(
+      "Close the loop: name who each order is for, listen for the read-back, and confirm it (\"Yes, that's right\")."
+    );
+  }
+
+  summary.loops.forEach((loop) => {
+    const action = loop.action.replace(/_/g, " ");
+    const relativeMs = loop.orderedAt - scenarioStartTime;
+    const event = (description: string, isGood: boolean) =>
+      feedback.timeline.push({ timeMs: relativeMs, timeFormatted: formatTime(relativeMs), type: "closed_loop", description, ...(isGood ? { isGood } : { isBad: true }) });
+    if (loop.status === "closed" && loop.promptedAt === undefined && loop.clarifiedAt === undefined) {
+      event(`${action} order closed-loop`, true);
+    } else if (loop.clarifiedAt !== undefined) {
+      event(`${action} order named no one`, false);
+    } else if (loop.status !== "closed" || loop.promptedAt !== undefined) {
+      event(`${action} order read back, not confirmed in time`, false);
+    }
+  });
+
+  return feedback;
+}
+
 function formatTime(ms: number): string {
   const totalSeconds = Math.floor(ms / 1000);
   const minutes = Math.floor(totalSeconds / 60);
@@ -272,14 +677,9 @@ function isNegativeEvent(type: string, description: string): boolean {
 async function analyzeMyocarditisTranscript(
   turns: DebriefTurn[],
   state: MyocarditisExtendedState,
-  scoreResult: ScoreResult
+  scoreResult: ScoreResult,
+  sessionId?: string
 ): Promise<DebriefResult> {
-  const client = getOpenAIClient();
-  if (!client) {
-    log("Debrief skipped: OPENAI_API_KEY not set");
-    return fallbackResult("Debrief unavailable (no OpenAI API key).");
-  }
-
   const transcriptText = turns
     .map((t) => `${t.role === "doctor" ? "Resident" : capitalize(t.role)}: ${t.text}`)
     .join("\n");
@@ -305,27 +705,7 @@ Return only JSON with keys: summary, strengths, opportunities, teachingPoints.
 
   const user = `Transcript:\n${transcriptText}`;
 
-  try {
-    const completion = await client.chat.completions.create({
-      model: DEBRIEF_MODEL,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user },
-      ],
-      response_format: { type: "json_object" } as any,
-    });
-    const raw = completion.choices?.[0]?.message?.content ?? "";
-    const parsed = JSON.parse(raw);
-    return {
-      summary: parsed.summary ?? "",
-      strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
-      opportunities: Array.isArray(parsed.opportunities) ? parsed.opportunities : [],
-      teachingPoints: Array.isArray(parsed.teachingPoints) ? parsed.teachingPoints : [],
-    };
-  } catch (err) {
-    logError("Myocarditis debrief analysis failed", err);
-    return fallbackResult("Debrief analysis error.");
-  }
+  return requestDebriefFeedback({ system, user, sessionId }, "Myocarditis debrief analysis failed", "Debrief analysis error.");
 }
 
 function buildContextSummary(state: MyocarditisExtendedState, scoreResult: ScoreResult): string {
@@ -431,14 +811,9 @@ function isSVTNegativeEvent(type: string, description: string): boolean {
 async function analyzeSVTTranscript(
   turns: DebriefTurn[],
   state: SVTExtendedState,
-  scoreResult: SVTScoreResult
+  scoreResult: SVTScoreResult,
+  sessionId?: string
 ): Promise<DebriefResult> {
-  const client = getOpenAIClient();
-  if (!client) {
-    log("Debrief skipped: OPENAI_API_KEY not set");
-    return fallbackResult("Debrief unavailable (no OpenAI API key).");
-  }
-
   const transcriptText = turns
     .map((t) => `${t.role === "doctor" ? "Resident" : capitalize(t.role)}: ${t.text}`)
     .join("\n");
@@ -463,27 +838,7 @@ Return only JSON with keys: summary, strengths, opportunities, teachingPoints.
 
   const user = `Transcript:\n${transcriptText}`;
 
-  try {
-    const completion = await client.chat.completions.create({
-      model: DEBRIEF_MODEL,
-      messages: [
-        { role: "system", content: system },
-        { role: "user", content: user },
-      ],
-      response_format: { type: "json_object" } as any,
-    });
-    const raw = completion.choices?.[0]?.message?.content ?? "";
-    const parsed = JSON.parse(raw);
-    return {
-      summary: parsed.summary ?? "",
-      strengths: Array.isArray(parsed.strengths) ? parsed.strengths : [],
-      opportunities: Array.isArray(parsed.opportunities) ? parsed.opportunities : [],
-      teachingPoints: Array.isArray(parsed.teachingPoints) ? parsed.teachingPoints : [],
-    };
-  } catch (err) {
-    logError("SVT debrief analysis failed", err);
-    return fallbackResult("Debrief analysis error.");
-  }
+  return requestDebriefFeedback({ system, user, sessionId }, "SVT debrief analysis failed", "Debrief analysis error.");
 }
 
 function buildSVTContextSummary(state: SVTExtendedState, scoreResult: SVTScoreResult): string {
@@ -2,12 +2,14 @@
  * Extended State Validators - Zod schemas for complex scenario states
  *
  * These schemas validate the extended state for SVT and Myocarditis scenarios
+ * (and the generic physiology state of simple scenarios)
  * to prevent malformed data from corrupting the scoring system or crashing
  * the debrief analyzer.
  */
 
 import { z } from "zod";
-import type { SVTExtendedState, MyocarditisExtendedState } from "./sim/types";
+import type { SVTExtendedState, MyocarditisExtendedState, GenericExtendedState } from "./sim/types";
+import { RHYTHM_CODES } from "./sim/rhythm";
 
 // ============================================================================
 // Shared Sub-Schemas
@@ -46,6 +48,63 @@ const PendingClarificationSchema = z.object({
   askedAt: z.number().positive(),
 });
 
+const MedicationErrorRecordSchema = z.object({
+  ts: z.number().positive(),
+  drug: z.string(),
+  kind: z.enum([
+    "tenfold_overdose",
+    "tenfold_underdose",
+    "overdose",
+    "underdose",
+    "cumulative_max",
+    "wrong_route",
+    "wrong_concentration",
+  ]),
+  dose: z.number().optional(),
+  unit: z.string(),
+  route: z.string().optional(),
+  message: z.string(),
+  administered: z.boolean(),
+});
+
+const CprMetricsSchema = z.object({
+  arrestStartedAt: z.number().positive(),
+  roscAt: z.number().positive().optional(),
+  durationMs: z.number().min(0),
+  handsOnMs: z.number().min(0),
+  ccf: z.number().min(0).max(1),
+  meanRate: z.number().min(0).optional(),
+  rateInTargetFraction: z.number().min(0).max(1).optional(),
+  longestPauseMs: z.number().min(0),
+  shocks: z.array(
+    z.object({
+      ts: z.number().positive(),
+      preShockPauseMs: z.number().min(0),
+      postShockPauseMs: z.number().min(0).optional(),
+    })
+  ),
+  compressorSwaps: z.number().int().min(0),
+  longestStintMs: z.number().min(0),
+  firstEpiAt: z.number().positive().optional(),
+  timeToFirstEpiMs: z.number().min(0).optional(),
+});
+
+const DefibErrorRecordSchema = z.object({
+  ts: z.number().positive(),
+  kind: z.enum([
+    "unsynchronized_cardioversion",
+    "synchronized_defibrillation",
+    "shock_not_indicated",
+    "energy_low",
+    "energy_high",
+    "no_clear_call",
+  ]),
+  energyJ: z.number().min(0),
+  joulesPerKg: z.number().min(0),
+  rhythm: z.enum(RHYTHM_CODES),
+  message: z.string(),
+});
+
 // ============================================================================
 // SVT Extended State Schema
 // ============================================================================
@@ -150,6 +209,9 @@ export const SVTExtendedStateSchema = z.object({
 
   // Optional fields
   pendingClarification: PendingClarificationSchema.optional(),
+  medicationErrors: z.array(MedicationErrorRecordSchema).optional(),
+  cpr: CprMetricsSchema.optional(),
+  defibErrors: z.array(DefibErrorRecordSchema).optional(),
   timelineEvents: z.array(SVTTimelineEventSchema),
 });
 
@@ -208,6 +270,12 @@ const MyocarditisTimelineEventSchema = z.object({
   details: z.record(z.unknown()).optional(),
 });
 
+const TreatmentRecordSchema = z.object({
+  ts: z.number().positive(),
+  treatment: z.string().min(1),
+  dose: z.number().optional(),
+});
+
 const MyocarditisFlagsSchema = z.object({
   pulmonaryEdema: z.boolean(),
   intubationCollapse: z.boolean(),
@@ -230,6 +298,7 @@ export const MyocarditisExtendedStateSchema = z.object({
   deteriorationRate: z.union([z.literal(0.5), z.literal(1.0), z.literal(2.0)]),
 
   // Interventions tracking
+  treatments: z.array(TreatmentRecordSchema).optional(),
   fluids: z.array(FluidBolusSchema),
   totalFluidsMlKg: z.number().min(0),
   inotropes: z.array(InotropeInfusionSchema),
@@ -265,9 +334,50 @@ export const MyocarditisExtendedStateSchema = z.object({
 
   // Optional fields
   pendingClarification: PendingClarificationSchema.optional(),
+  medicationErrors: z.array(MedicationErrorRecordSchema).optional(),
+  cpr: CprMetricsSchema.optional(),
+  defibErrors: z.array(DefibErrorRecordSchema).optional(),
   timelineEvents: z.array(MyocarditisTimelineEventSchema),
 });
 
+// ============================================================================
+// Generic (Simple Scenario) Extended State Schema
+// ============================================================================
+
+const GenericTimelineEventSchema = z.object({
+  ts: z.number().positive(),
+  type: z.enum(["treatment", "physiology", "stage_change"]),
+  description: z.string(),
+  details: z.record(z.unknown()).optional(),
+});
+
+export const GenericExtendedStateSchema = z.object({
+  kind: z.literal("generic"),
+  scenarioStartedAt: z.number().positive(),
+  phaseEnteredAt: z.number().positive(),
+  shockStage: ShockStageSchema,
+
+  // Interventions tracking
+  treatments: z.array(TreatmentRecordSchema),
+  fluids: z.array(FluidBolusSchema),
+  activeInotropes: z.array(InotropeInfusionSchema),
+  airway: AirwayInterventionSchema.optional(),
+  orderedDiagnostics: z.array(z.string()),
+  consultsCalled: z.array(z.string()),
+
+  // Physiology flags
+  flags: z.record(z.boolean()),
+
+  // Rule tracking
+  ruleTriggers: z.array(RuleTriggerRecordSchema),
+  pendingEffects: z.array(PendingEffectSchema),
+
+  medicationErrors: z.array(MedicationErrorRecordSchema).optional(),
+  cpr: CprMetricsSchema.optional(),
+  defibErrors: z.array(DefibErrorRecordSchema).optional(),
+  timelineEvents: z.array(GenericTimelineEventSchema),
+});
+
 // ============================================================================
 // Validation Functions
 // ============================================================================
@@ -367,6 +477,29 @@ export function validateMyocarditisExtendedState(state: unknown): ValidationResu
   return result;
 }
 
+/**
+ * Validate generic (simple scenario) extended state
+ */
+export function validateGenericExtendedState(state: unknown): ValidationResult {
+  const result: ValidationResult = { valid: true, errors: [], warnings: [] };
+
+  const parsed = GenericExtendedStateSchema.safeParse(state);
+  if (!parsed.success) {
+    result.valid = false;
+    result.errors = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`);
+    return result;
+  }
+
+  const s = state as GenericExtendedState;
+  for (let i = 1; i < s.treatments.length; i++) {
+    if (s.treatments[i].ts < s.treatments[i - 1].ts) {
+      result.warnings.push(`Treatment ${i} timestamp is before treatment ${i - 1}`);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Validate extended state based on scenario ID
  */
@@ -380,7 +513,10 @@ export function validateExtendedState(
     return validateMyocarditisExtendedState(state);
   }
 
-  // Non-complex scenarios don't have extended state validation
+  // Simple scenarios only carry extended state when generic physiology is running
+  if (typeof state === "object" && state !== null && (state as { kind?: unknown }).kind === "generic") {
+    return validateGenericExtendedState(state);
+  }
   return { valid: true, errors: [], warnings: [] };
 }
 
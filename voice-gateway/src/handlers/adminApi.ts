@@ -0,0 +1,271 @@
+/**
+ * Admin API Handler
+ * Authenticated HTTP routes for inspecting and controlling live sessions, so
+ * ops can help a facilitator mid-session without restarting the gateway.
+ * Callers send a Firebase ID token carrying the admin custom claim as
+ * `Authorization: Bearer <token>`.
+ */
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { z } from "zod";
+import { SessionManager } from "../sessionManager";
+import { Runtime } from "../typesRuntime";
+import { logEvent } from "../logger";
+import { logSimEvent } from "../persistence";
+import { hasActiveLock } from "../stateLock";
+import type { EventLogger } from "../sim/eventLog";
+import type { SimStatePayload } from "../state/broadcastUtils";
+import type { SpendLedgerState } from "../spendLedger";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AdminApiDeps {
+  runtimes: Map<string, Runtime>;
+  sessionManager: SessionManager;
+  eventLog: EventLogger;
+  /** Verified claims for a bearer token, or null when it is invalid */
+  verifyToken: (token: string) => Promise<Record<string, unknown> | null>;
+  /**
+   * Skip token checks for requests made directly from this machine (local dev
+   * only, ADMIN_API_INSECURE_LOOPBACK). Proxied requests, e.g. through a dev
+   * tunnel, still need a token.
+   */
+  allowInsecureLoopback?: boolean;
+  /** Disconnect everyone and tear the runtime down */
+  endSession: (sessionId: string) => void;
+  /** Replace the runtime with a fresh one at the scenario's first stage */
+  resetSession: (sessionId: string) => Runtime;
+  broadcastSimState: (sessionId: string, state: SimStatePayload) => void;
+  /** Deployment-wide spend for GET /admin/spend */
+  getSpend?: () => SpendLedgerState;
+}
+
+export interface AdminApiHandlers {
+  /** Serve an /admin request; resolves false for any other path */
+  handleAdminRequest: (req: IncomingMessage, res: ServerResponse) => Promise<boolean>;
+}
+
+export type AdminSessionSummary = {
+  sessionId: string;
+  scenarioId: string;
+  stageId: string;
+  elapsedSeconds: number;
+  presenters: number;
+  participants: number;
+  fallback: boolean;
+  budget: ReturnType<Runtime["cost"]["getState"]> & ReturnType<Runtime["cost"]["getLimits"]>;
+  pendingOrders: number;
+  stateLocked: boolean;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const ADMIN_PREFIX = "/admin";
+const MAX_BODY_BYTES = 16 * 1024;
+const DEFAULT_EVENT_LIMIT = 100;
+const MAX_EVENT_LIMIT = 1000;
+
+const SESSION_ROUTE = /^\/admin\/sessions\/([^/]+)(?:\/(events|end|reset|budget))?$/;
+
+const budgetBodySchema = z
+  .object({
+    softUsd: z.number().positive().optional(),
+    hardUsd: z.number().positive().optional(),
+  })
+  .strict()
+  .refine((body) => body.softUsd !== undefined || body.hardUsd !== undefined, {
+    message: "Set softUsd, hardUsd or both",
+  });
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buf.byteLength;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Body too large");
+    chunks.push(buf);
+  }
+  if (size === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Invalid JSON");
+  }
+}
+
+const LOOPBACK_ADDRESSES = new Set(["127.0.0.1", "::1", "::ffff:127.0.0.1"]);
+const PROXY_HEADERS = ["x-forwarded-for", "forwarded", "x-real-ip", "cf-connecting-ip"];
+
+/** A request from this machine that did not pass through a proxy or tunnel */
+function isDirectLoopback(req: IncomingMessage): boolean {
+  if (!LOOPBACK_ADDRESSES.has(req.socket.remoteAddress ?? "")) return false;
+  return PROXY_HEADERS.every((header) => req.headers[header] === undefined);
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createAdminApiHandler(deps: AdminApiDeps): AdminApiHandlers {
+  const {
+    runtimes,
+    sessionManager,
+    eventLog,
+    verifyToken,
+    allowInsecureLoopback,
+    endSession,
+    resetSession,
+    broadcastSimState,
+    getSpend,
+  } = deps;
+
+  /** The admin's uid, or throws 401/403 */
+  async function authorize(req: IncomingMessage): Promise<string> {
+    if (allowInsecureLoopback && isDirectLoopback(req)) return "insecure-dev";
+    const token = bearerToken(req);
+    if (!token) throw new HttpError(401, "Missing bearer token");
+    const claims = await verifyToken(token);
+    if (!claims) throw new HttpError(401, "Invalid token");
+    if (claims.admin !== true) throw new HttpError(403, "Admin claim required");
+    return typeof claims.uid === "string" ? claims.uid : "unknown";
+  }
+
+  function summarize(sessionId: string, runtime: Runtime): AdminSessionSummary {
+    const state = runtime.scenarioEngine.getState();
+    const clients = sessionManager.getClientCounts(sessionId);
+    return {
+      sessionId,
+      scenarioId: state.scenarioId,
+      stageId: state.stageId,
+      elapsedSeconds: runtime.scenarioEngine.getElapsedSeconds(),
+      presenters: clients?.presenters ?? 0,
+      participants: clients?.participants ?? 0,
+      fallback: runtime.fallback || sessionManager.isFallback(sessionId),
+      budget: { ...runtime.cost.getState(), ...runtime.cost.getLimits() },
+      pendingOrders: (state.orders ?? []).filter((o) => o.status === "pending").length,
+      stateLocked: hasActiveLock(sessionId),
+    };
+  }
+
+  /** Audit an admin action to the gateway log and the session's events */
+  function audit(sessionId: string, type: string, adminUid: string, payload: Record<string, unknown> = {}) {
+    logEvent(type, { sessionId, adminUid, ...payload });
+    logSimEvent(sessionId, { type, payload: { adminUid, ...payload } }).catch(() => {
+      // Audit persistence should not fail the request
+    });
+  }
+
+  function updateBudget(sessionId: string, runtime: Runtime, body: unknown, adminUid: string) {
+    const parsed = budgetBodySchema.safeParse(body);
+    if (!parsed.success) throw new HttpError(400, parsed.error.issues.map((i) => i.message).join("; "));
+    const limits = { ...runtime.cost.getLimits(), ...parsed.data };
+    if (limits.softUsd > limits.hardUsd) throw new HttpError(400, "softUsd must not exceed hardUsd");
+
+    runtime.cost.setLimits(limits);
+    audit(sessionId, "admin.budget_changed", adminUid, limits);
+    broadcastSimState(sessionId, {
+      ...runtime.scenarioEngine.getState(),
+      stageIds: runtime.scenarioEngine.getStageIds(),
+      budget: runtime.cost.getState(),
+    });
+    return summarize(sessionId, runtime);
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams) {
+    const adminUid = await authorize(req);
+    const method = req.method ?? "GET";
+
+    if (path === "/admin/sessions") {
+      if (method !== "GET") throw new HttpError(405, "Method not allowed");
+      const sessions = [...runtimes.entries()].map(([sessionId, runtime]) => summarize(sessionId, runtime));
+      sendJson(res, 200, { sessions });
+      return;
+    }
+
+    if (path === "/admin/spend") {
+      if (method !== "GET") throw new HttpError(405, "Method not allowed");
+      if (!getSpend) throw new HttpError(404, "Not found");
+      sendJson(res, 200, { spend: getSpend() });
+      return;
+    }
+
+    const match = path.match(SESSION_ROUTE);
+    if (!match) throw new HttpError(404, "Not found");
+    const sessionId = decodeURIComponent(match[1]);
+    const action = match[2];
+    const runtime = runtimes.get(sessionId);
+    if (!runtime) throw new HttpError(404, "No active session with that id");
+
+    const expected = action === undefined || action === "events" ? "GET" : "POST";
+    if (method !== expected) throw new HttpError(405, "Method not allowed");
+
+    switch (action) {
+      case undefined:
+        sendJson(res, 200, { session: summarize(sessionId, runtime), state: runtime.scenarioEngine.getState() });
+        return;
+      case "events": {
+        const requested = Number(query.get("limit") ?? DEFAULT_EVENT_LIMIT);
+        if (!Number.isInteger(requested) || requested <= 0) throw new HttpError(400, "limit must be a positive integer");
+        const events = eventLog.getRecent?.(Math.min(requested, MAX_EVENT_LIMIT), sessionId) ?? [];
+        sendJson(res, 200, { events });
+        return;
+      }
+      case "end":
+        audit(sessionId, "admin.session_ended", adminUid);
+        endSession(sessionId);
+        sendJson(res, 200, { ended: true });
+        return;
+      case "reset": {
+        audit(sessionId, "admin.session_reset", adminUid);
+        const fresh = resetSession(sessionId);
+        sendJson(res, 200, { session: summarize(sessionId, fresh) });
+        return;
+      }
+      case "budget": {
+        const body = await readJsonBody(req);
+        sendJson(res, 200, { session: updateBudget(sessionId, runtime, body, adminUid) });
+        return;
+      }
+    }
+  }
+
+  async function handleAdminRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+    const url = new URL(req.url ?? "/", "http://gateway.local");
+    if (url.pathname !== ADMIN_PREFIX && !url.pathname.startsWith(`${ADMIN_PREFIX}/`)) return false;
+    try {
+      await route(req, res, url.pathname, url.searchParams);
+    } catch (err) {
+      if (!(err instanceof HttpError)) throw err;
+      sendJson(res, err.status, { error: err.message });
+    }
+    return true;
+  }
+
+  return { handleAdminRequest };
+}
@@ -3,12 +3,36 @@
  * Handles debrief and transcript analysis for simple and complex scenarios.
  */
 
-import { DebriefTurn, CharacterId } from "../messageTypes";
+import { DebriefTurn, CharacterId, PatientScenarioId } from "../messageTypes";
 import { SessionManager } from "../sessionManager";
 import { Runtime } from "../typesRuntime";
 import { log, logError } from "../logger";
-import { analyzeTranscript, analyzeComplexScenario, type ComplexScenarioId } from "../debriefAnalyzer";
+import {
+  analyzeTranscript,
+  analyzeComplexScenario,
+  analyzeRubricScenario,
+  buildAlarmFeedback,
+  buildMedicationFeedback,
+  buildDefibFeedback,
+  buildCprFeedback,
+  buildRoleFeedback,
+  buildClosedLoopFeedback,
+  type AlarmFeedback,
+  type CprFeedback,
+  type MedicationFeedback,
+  type DefibFeedback,
+  type RoleFeedback,
+  type ClosedLoopFeedback,
+  type ComplexScenarioId,
+  type ComplexDebriefResult,
+  type TimelineEvent,
+} from "../debriefAnalyzer";
 import { getScenarioForSession } from "../patientEngine";
+import { summarizeAlarmResponses } from "../sim/alarmEngine";
+import { summarizeCpr } from "../sim/cprQuality";
+import { summarizeRoleCoverage } from "../sim/teamRoles";
+import { summarizeClosedLoops, type ClosedLoopMetrics } from "../sim/closedLoop";
+import { getScenarioDef } from "../sim/scenarioRegistry";
 import { hasSVTExtended, hasMyocarditisExtended } from "../sim/types";
 
 // ============================================================================
@@ -24,6 +48,78 @@ export interface AnalysisHandlers {
   handleAnalyzeTranscript: (sessionId: string, turns: DebriefTurn[]) => Promise<void>;
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Monitor alarm response feedback for the session, if any alarms were raised */
+function getAlarmFeedback(runtime: Runtime | undefined, scenarioStartTime: number): AlarmFeedback | null {
+  if (!runtime?.alarms) return null;
+  return buildAlarmFeedback(summarizeAlarmResponses(runtime.alarms), scenarioStartTime);
+}
+
+/** Feedback on medication orders the nurse challenged, if any */
+function getMedicationFeedback(runtime: Runtime | undefined, scenarioStartTime: number): MedicationFeedback | null {
+  if (!runtime?.medications) return null;
+  return buildMedicationFeedback(runtime.medications.errors, scenarioStartTime);
+}
+
+/** Feedback on defibrillator mistakes, if the device was used */
+function getDefibFeedback(runtime: Runtime | undefined, scenarioStartTime: number): DefibFeedback | null {
+  if (!runtime?.defib) return null;
+  return buildDefibFeedback(runtime.defib.errors, scenarioStartTime);
+}
+
+/** CPR quality feedback when the patient arrested during the session */
+function getCprFeedback(runtime: Runtime | undefined, scenarioStartTime: number): CprFeedback | null {
+  if (!runtime?.cpr) return null;
+  const metrics = summarizeCpr(runtime.cpr, runtime.scenarioEngine.now());
+  return metrics ? buildCprFeedback(metrics, scenarioStartTime) : null;
+}
+
+/** Code-team role coverage, if anyone took a role */
+function getRoleFeedback(runtime: Runtime | undefined, scenarioStartTime: number): RoleFeedback | null {
+  const summary = summarizeRoleCoverage(runtime?.team);
+  return summary ? buildRoleFeedback(summary, scenarioStartTime) : null;
+}
+
+/** Closed-loop communication on spoken orders, if any were given */
+function getClosedLoopFeedback(runtime: Runtime | undefined, scenarioStartTime: number): ClosedLoopFeedback | null {
+  const summary = summarizeClosedLoops(runtime?.loops);
+  return summary ? buildClosedLoopFeedback(summary, scenarioStartTime) : null;
+}
+
+type SessionFeedback = {
+  strengths: string[];
+  opportunities: string[];
+  teachingPoints: string[];
+  timeline: TimelineEvent[];
+  communication?: ClosedLoopMetrics;
+};
+
+/**
+ * Scenario-agnostic feedback merged into every debrief: alarms, medication and
+ * defibrillator errors, CPR quality, code-team roles and closed-loop communication.
+ */
+function getSessionFeedback(runtime: Runtime | undefined, scenarioStartTime: number): SessionFeedback {
+  const loopFeedback = getClosedLoopFeedback(runtime, scenarioStartTime);
+  const parts: Partial<Omit<SessionFeedback, "communication">>[] = [
+    getAlarmFeedback(runtime, scenarioStartTime),
+    getMedicationFeedback(runtime, scenarioStartTime),
+    getDefibFeedback(runtime, scenarioStartTime),
+    getCprFeedback(runtime, scenarioStartTime),
+    getRoleFeedback(runtime, scenarioStartTime),
+    loopFeedback,
+  ].filter((part): part is NonNullable<typeof part> => part !== null);
+  return {
+    strengths: parts.flatMap((part) => part.strengths ?? []),
+    opportunities: parts.flatMap((part) => part.opportunities ?? []),
+    teachingPoints: parts.flatMap((part) => part.teachingPoints ?? []),
+    timeline: parts.flatMap((part) => part.timeline ?? []),
+    ...(loopFeedback && { communication: loopFeedback.metrics }),
+  };
+}
+
 // ============================================================================
 // Factory
 // ============================================================================
@@ -31,6 +127,26 @@ export interface AnalysisHandlers {
 export function createAnalysisHandler(deps: AnalysisDeps): AnalysisHandlers {
   const { sessionManager, runtimes } = deps;
 
+  /** Send a scored debrief, with the session feedback merged in */
+  function broadcastScoredDebrief(
+    sessionId: string,
+    scenarioId: PatientScenarioId,
+    result: ComplexDebriefResult,
+    session: SessionFeedback
+  ) {
+    sessionManager.broadcastToPresenters(sessionId, {
+      type: "complex_debrief_result",
+      sessionId,
+      scenarioId,
+      ...result,
+      strengths: [...result.strengths, ...session.strengths],
+      opportunities: [...result.opportunities, ...session.opportunities],
+      teachingPoints: [...result.teachingPoints, ...session.teachingPoints],
+      timeline: [...result.timeline, ...session.timeline].sort((a, b) => a.timeMs - b.timeMs),
+      ...(session.communication && { communication: session.communication }),
+    });
+  }
+
   async function handleAnalyzeTranscript(sessionId: string, turns: DebriefTurn[]): Promise<void> {
     if (!Array.isArray(turns) || turns.length === 0) return;
 
@@ -74,14 +190,10 @@ export function createAnalysisHandler(deps: AnalysisDeps): AnalysisHandlers {
             turns,
             simState.extended,
             scenarioStartTime,
-            "teen_svt_complex_v1" as ComplexScenarioId
+            "teen_svt_complex_v1" as ComplexScenarioId,
+            sessionId
           );
-          sessionManager.broadcastToPresenters(sessionId, {
-            type: "complex_debrief_result",
-            sessionId,
-            scenarioId: "teen_svt_complex_v1",
-            ...complexResult,
-          });
+          broadcastScoredDebrief(sessionId, scenarioId, complexResult, getSessionFeedback(runtime, scenarioStartTime));
           return;
         }
 
@@ -92,27 +204,35 @@ export function createAnalysisHandler(deps: AnalysisDeps): AnalysisHandlers {
             turns,
             simState.extended,
             scenarioStartTime,
-            "peds_myocarditis_silent_crash_v1" as ComplexScenarioId
+            "peds_myocarditis_silent_crash_v1" as ComplexScenarioId,
+            sessionId
           );
-          sessionManager.broadcastToPresenters(sessionId, {
-            type: "complex_debrief_result",
-            sessionId,
-            scenarioId: "peds_myocarditis_silent_crash_v1",
-            ...complexResult,
-          });
+          broadcastScoredDebrief(sessionId, scenarioId, complexResult, getSessionFeedback(runtime, scenarioStartTime));
+          return;
+        }
+
+        // Simple scenarios that declare a rubric get the same scored debrief
+        const rubric = getScenarioDef(scenarioId)?.rubric;
+        if (rubric) {
+          const scenarioStartTime = simState.scenarioStartedAt ?? Date.now();
+          const rubricResult = await analyzeRubricScenario(turns, simState, rubric, scenarioStartTime, sessionId);
+          broadcastScoredDebrief(sessionId, scenarioId, rubricResult, getSessionFeedback(runtime, scenarioStartTime));
           return;
         }
       }
 
-      // Fallback to simple transcript analysis for non-complex scenarios
-      const result = await analyzeTranscript(turns);
+      // Fallback to simple transcript analysis for scenarios without a rubric
+      const result = await analyzeTranscript(turns, undefined, sessionId);
+      const scenarioStartTime = runtime?.scenarioEngine.getState().scenarioStartedAt ?? Date.now();
+      const session = getSessionFeedback(runtime, scenarioStartTime);
       sessionManager.broadcastToPresenters(sessionId, {
         type: "analysis_result",
         sessionId,
         summary: result.summary,
-        strengths: result.strengths,
-        opportunities: result.opportunities,
-        teachingPoints: result.teachingPoints,
+        strengths: [...result.strengths, ...session.strengths],
+        opportunities: [...result.opportunities, ...session.opportunities],
+        teachingPoints: [...result.teachingPoints, ...session.teachingPoints],
+        ...(session.communication && { communication: session.communication }),
       });
     } catch (err) {
       logError("Debrief analysis error", err);
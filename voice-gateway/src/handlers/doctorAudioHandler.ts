@@ -8,9 +8,11 @@ import type { CharacterId } from "../messageTypes";
 import type { SessionManager } from "../sessionManager";
 import type { Runtime } from "../typesRuntime";
 import type { OrderType } from "../orders";
+import type { TreatmentHandlers } from "./treatmentHandler";
 import { transcribeDoctorAudio } from "../sttClient";
-import { parseOrderRequest, chooseCharacter, isUnsafeUtterance } from "../speechHelpers";
+import { parseMedicationOrder, parseOrderRequest, chooseCharacter, isUnsafeUtterance } from "../speechHelpers";
 import { shouldAutoReply } from "../autoReplyGuard";
+import { handleLoopReply, startOrderLoop } from "../commLoops";
 
 const log = (...args: unknown[]) => console.log("[doctor-audio]", ...args);
 const logError = (...args: unknown[]) => console.error("[doctor-audio]", ...args);
@@ -25,9 +27,13 @@ export interface DoctorAudioHandlerDeps {
     sessionId: string,
     orderType: OrderType,
     orderedBy?: { id: string; name: string; role: string },
-    ivParams?: { location: string }
+    ivParams?: { location: string },
+    labParams?: { panels?: string[] }
   ) => { success: boolean };
   handleExamRequest: (sessionId: string, examType?: string) => void;
+  /** Spoken medication orders go through the treatment handler's formulary check */
+  handleTreatment: TreatmentHandlers["handleTreatment"];
+  handleMedicationReply: TreatmentHandlers["handleMedicationReply"];
   handleForceReply: (sessionId: string, userId: string, doctorUtterance?: string, character?: CharacterId) => void;
   withRetry: <T>(
     fn: () => Promise<T>,
@@ -40,6 +46,8 @@ export interface DoctorAudioHandlerDeps {
   lastAutoReplyAt: Map<string, number>;
   lastAutoReplyByUser: Map<string, number>;
   lastDoctorUtterance: Map<string, { text: string; ts: number }>;
+  /** Timer for closed-loop prompts (injectable for tests) */
+  schedule?: (fn: () => void, ms: number) => unknown;
 }
 
 /**
@@ -64,6 +72,8 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
     ensureRuntime,
     handleOrder,
     handleExamRequest,
+    handleTreatment,
+    handleMedicationReply,
     handleForceReply,
     withRetry,
     timed,
@@ -72,6 +82,7 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
     lastAutoReplyAt,
     lastAutoReplyByUser,
     lastDoctorUtterance,
+    schedule = setTimeout,
   } = deps;
 
   /**
@@ -97,8 +108,44 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
       return;
     }
 
-    // Check if this is an order request (vitals, exam, EKG, labs, imaging)
+    // Check if this is an order request (vitals, exam, EKG, labs, imaging) or a medication order
     const orderRequest = parseOrderRequest(trimmed);
+    const medicationRequest = orderRequest ? null : parseMedicationOrder(trimmed);
+    const orderedBy = userId ? { id: userId, name: "Voice Order", role: "participant" as const } : undefined;
+
+    // "Confirm" or "cancel" answers a dose the nurse challenged; a corrected dose is a new order
+    const medicationReply = !orderRequest && !medicationRequest && handleMedicationReply(sessionId, trimmed, orderedBy);
+
+    // Answering "who was that for?" or confirming a read-back closes a loop;
+    // a reply that also gives a new order goes on to place it
+    const loopReply = userId
+      ? handleLoopReply(sessionId, ensureRuntime(sessionId), userId, trimmed, { sessionManager, schedule })
+      : false;
+    if ((loopReply || medicationReply) && !orderRequest && !medicationRequest) return;
+
+    if (medicationRequest) {
+      log("Medication order detected from speech", sessionId, medicationRequest.drug);
+      const { drug, ...order } = medicationRequest;
+      const give = () => {
+        handleTreatment(sessionId, drug, { ...order, ...(orderedBy ? { orderedBy } : {}) }).catch((err) =>
+          logError("Spoken medication order failed", err)
+        );
+        return true;
+      };
+      if (!userId) {
+        give();
+        return;
+      }
+      startOrderLoop(
+        sessionId,
+        ensureRuntime(sessionId),
+        { userId, name: "Voice Order", action: drug, text: trimmed },
+        give,
+        { sessionManager, schedule }
+      );
+      return;
+    }
+
     if (orderRequest) {
       log("Order request detected from speech", sessionId, orderRequest.type);
       // Handle exam orders via handleExamRequest, other orders via handleOrder
@@ -113,11 +160,19 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
         const ivParams = orderRequest.type === "iv_access" && orderRequest.location
           ? { location: orderRequest.location }
           : undefined;
-        handleOrder(sessionId, orderRequest.type, userId ? {
-          id: userId,
-          name: "Voice Order",
-          role: "participant",
-        } : undefined, ivParams);
+        const labParams = orderRequest.type === "labs" ? { panels: orderRequest.panels } : undefined;
+        if (!userId) {
+          handleOrder(sessionId, orderRequest.type, undefined, ivParams, labParams);
+          return;
+        }
+        // Spoken orders run as closed loops: named for someone, read back, confirmed
+        startOrderLoop(
+          sessionId,
+          ensureRuntime(sessionId),
+          { userId, name: "Voice Order", action: orderRequest.type, text: trimmed },
+          () => handleOrder(sessionId, orderRequest.type, orderedBy, ivParams, labParams).success,
+          { sessionManager, schedule }
+        );
       }
       return;
     }
@@ -166,7 +221,7 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
     character?: CharacterId
   ) {
     const text = await withRetry(
-      () => timed("stt.transcribe", () => transcribeDoctorAudio(audioBuffer, contentType)),
+      () => timed("stt.transcribe", () => transcribeDoctorAudio(audioBuffer, contentType, sessionId)),
       { label: "stt", attempts: 2, delayMs: 150 },
       sessionId
     );
@@ -205,15 +260,20 @@ export function createDoctorAudioHandler(deps: DoctorAudioHandlerDeps): DoctorAu
       if (runtime.realtime) {
         runtime.realtime.sendAudioChunk(audioBuffer);
         runtime.realtime.commitAudio();
-        void transcribeDoctorAudio(audioBuffer, contentType)
+        void transcribeDoctorAudio(audioBuffer, contentType, sessionId)
           .then((text) => {
             if (text && text.trim().length > 0) {
               // Check if utterance is for non-patient (order or explicit character routing)
               // If so, cancel the realtime patient response to avoid "echo" effect
               const orderRequest = parseOrderRequest(text);
+              const medicationRequest = orderRequest ? null : parseMedicationOrder(text);
               const routedCharacter = character ?? chooseCharacter(text);
-              if (orderRequest || routedCharacter !== "patient") {
-                log("Canceling realtime patient response for non-patient utterance", sessionId, orderRequest?.type ?? routedCharacter);
+              if (orderRequest || medicationRequest || routedCharacter !== "patient") {
+                log(
+                  "Canceling realtime patient response for non-patient utterance",
+                  sessionId,
+                  orderRequest?.type ?? medicationRequest?.drug ?? routedCharacter
+                );
                 runtime.realtime?.cancelResponse();
               }
               broadcastDoctorUtterance(sessionId, userId, text, character);
@@ -5,5 +5,6 @@
 
 export { createAnalysisHandler, type AnalysisDeps, type AnalysisHandlers } from "./analysisRequests";
 export { createTreatmentHandler, type TreatmentHandlerDeps, type TreatmentHandlers } from "./treatmentHandler";
-export { createScenarioOperationsHandler, type ScenarioOperationsDeps, type ScenarioOperationsHandlers } from "./scenarioOperations";
+export { createScenarioOperationsHandler, initializeScenarioState, type ScenarioOperationsDeps, type ScenarioOperationsHandlers } from "./scenarioOperations";
 export { createDoctorAudioHandler, type DoctorAudioHandlerDeps, type DoctorAudioHandlers } from "./doctorAudioHandler";
+export { createAdminApiHandler, type AdminApiDeps, type AdminApiHandlers, type AdminSessionSummary } from "./adminApi";
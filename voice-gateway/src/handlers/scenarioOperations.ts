@@ -6,10 +6,16 @@
 import type { PatientScenarioId } from "../messageTypes";
 import type { SVTExtendedState } from "../sim/types";
 import { hasSVTExtended } from "../sim/types";
-import { SVT_PHASES } from "../sim/scenarios/teen_svt_complex";
+import { createInitialMyocarditisState, createInitialSVTState } from "../sim/physiologyEngine";
+import { createInitialGenericState, getGenericPhysiologyRules, runGenericPhysiology } from "../sim/genericPhysiology";
+import { runMyocarditisPhysiology } from "../sim/scenarios/peds_myocarditis_silent_crash";
+import { hasScenario } from "../sim/scenarioRegistry";
 import { setScenarioForSession } from "../patientEngine";
 import { tryWithStateLock } from "../stateLock";
-import { buildTelemetryWaveform, checkAlarms } from "../telemetry";
+import { buildTelemetryWaveform, checkAlarms, type AlarmSeen } from "../telemetry";
+import { trackArrest } from "../cpr";
+import { createNpcTriggerState, runNpcTriggers } from "../sim/triggers/runtime";
+import { clearSessionLoops } from "../commLoops";
 import type { SessionManager } from "../sessionManager";
 import type { Runtime } from "../typesRuntime";
 import type { EventLogEntry, EventType } from "../sim/types";
@@ -29,14 +35,14 @@ export interface ScenarioOperationsDeps {
   sessionManager: SessionManager;
   runtimes: Map<string, Runtime>;
   scenarioTimers: Map<string, ReturnType<typeof setInterval>>;
-  alarmSeenAt: Map<string, { spo2Low?: number; hrHigh?: number; hrLow?: number }>;
+  alarmSeenAt: Map<string, AlarmSeen>;
   eventLog: {
     append: (entry: EventLogEntry) => void;
   };
   broadcastSimState: (sessionId: string, state: SimStatePayload) => void;
   fireAndForget: (promise: Promise<unknown>, context: string, sessionId?: string) => void;
   logSimEvent: (sessionId: string, event: { type: string; payload?: Record<string, unknown> }) => Promise<void>;
-  synthesizePatientAudio: (text: string, voice: string) => Promise<Buffer | null>;
+  synthesizePatientAudio: (text: string, voice: string, sessionId?: string) => Promise<Buffer | null>;
 }
 
 /**
@@ -45,6 +51,28 @@ export interface ScenarioOperationsDeps {
 export interface ScenarioOperationsHandlers {
   handleScenarioChange: (sessionId: string, scenarioId: PatientScenarioId) => void;
   startScenarioHeartbeat: (sessionId: string) => void;
+  /** One heartbeat; resolves once the SVT phase tick (run under the state lock) has finished */
+  tickScenario: (sessionId: string) => Promise<void>;
+}
+
+/**
+ * Seed extended state for a fresh runtime: phase state for the complex SVT and
+ * myocarditis cases, generic physiology state for simple scenarios that have
+ * treatment rules
+ */
+export function initializeScenarioState(runtime: Runtime, scenarioId: PatientScenarioId) {
+  const state = runtime.scenarioEngine.getState();
+  if (state.extended) return;
+  if (scenarioId === "teen_svt_complex_v1") {
+    // The scenario's single stage is its presentation phase, so vitals are already in place
+    runtime.scenarioEngine.hydrate({ extended: createInitialSVTState(runtime.scenarioEngine.now()) });
+  } else if (scenarioId === "peds_myocarditis_silent_crash_v1") {
+    // Likewise the scene-set phase; its rules and transitions run on the heartbeat
+    runtime.scenarioEngine.hydrate({ extended: createInitialMyocarditisState(runtime.scenarioEngine.now()) });
+  } else if (getGenericPhysiologyRules(scenarioId).length > 0) {
+    // Simple scenarios respond to treatments through generic physiology rules
+    runtime.scenarioEngine.hydrate({ extended: createInitialGenericState(runtime.scenarioEngine.now()) });
+  }
 }
 
 /**
@@ -68,25 +96,13 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
    * Handle scenario change requests - validates and updates the scenario
    */
   function handleScenarioChange(sessionId: string, scenarioId: PatientScenarioId) {
-    const allowed: PatientScenarioId[] = [
-      "exertional_chest_pain",
-      "syncope",
-      "palpitations_svt",
-      "myocarditis",
-      "exertional_syncope_hcm",
-      "ductal_shock",
-      "cyanotic_spell",
-      "kawasaki",
-      "coarctation_shock",
-      "arrhythmogenic_syncope",
-      "teen_svt_complex_v1",
-      "peds_myocarditis_silent_crash_v1",
-    ];
-    if (!allowed.includes(scenarioId)) {
+    if (!hasScenario(scenarioId)) {
       log("Ignoring invalid scenarioId", scenarioId);
       return;
     }
     setScenarioForSession(sessionId, scenarioId);
+    // Read-backs and held orders belong to the previous scenario
+    clearSessionLoops(sessionId);
     ensureRuntime(sessionId);
     log("Scenario changed", sessionId, scenarioId);
     sessionManager.broadcastToPresenters(sessionId, {
@@ -102,17 +118,17 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
    * and handles deterioration if untreated.
    */
   function tickSVTPhase(sessionId: string, runtime: Runtime, ext: SVTExtendedState) {
-    const now = Date.now();
+    const now = runtime.scenarioEngine.now();
     const phaseElapsedMs = now - ext.phaseEnteredAt;
     const phaseElapsedMin = phaseElapsedMs / 60000;
-    const phaseDef = SVT_PHASES.find((p) => p.id === ext.phase);
+    const phaseDef = runtime.scenarioEngine.getPhaseDef(ext.phase);
 
     // Don't transition if already converted
     if (ext.converted || ext.phase === "converted") return;
 
     // Phase: presentation → svt_onset (after 2 min)
     if (ext.phase === "presentation" && phaseElapsedMin >= 2) {
-      const svtOnsetPhase = SVT_PHASES.find((p) => p.id === "svt_onset");
+      const svtOnsetPhase = runtime.scenarioEngine.getPhaseDef("svt_onset");
       if (svtOnsetPhase) {
         runtime.scenarioEngine.updateExtended({
           ...ext,
@@ -124,11 +140,7 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
             { ts: now, type: "phase_change", description: "SVT episode started - HR 220" },
           ],
         });
-        runtime.scenarioEngine.hydrate({
-          vitals: svtOnsetPhase.vitalsTarget,
-          exam: svtOnsetPhase.examFindings,
-          rhythmSummary: svtOnsetPhase.rhythmSummary,
-        });
+        runtime.scenarioEngine.enterPhase(svtOnsetPhase.id);
         // Announce SVT onset to all participants with TTS
         const svtOnsetText = "It's happening again! My heart is going so fast... I can feel it in my throat!";
         sessionManager.broadcastToSession(sessionId, {
@@ -144,7 +156,7 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
           character: "patient",
         });
         // Generate TTS audio for patient
-        synthesizePatientAudio(svtOnsetText, "alloy")
+        synthesizePatientAudio(svtOnsetText, "alloy", sessionId)
           .then((audioBuffer) => {
             if (audioBuffer) {
               sessionManager.broadcastToSession(sessionId, {
@@ -171,7 +183,7 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
 
     // Phase: svt_onset → decompensating (after 4 min without treatment)
     if (ext.phase === "svt_onset" && phaseElapsedMin >= 4 && ext.vagalAttempts === 0 && ext.adenosineDoses.length === 0) {
-      const decompPhase = SVT_PHASES.find((p) => p.id === "decompensating");
+      const decompPhase = runtime.scenarioEngine.getPhaseDef("decompensating");
       if (decompPhase) {
         runtime.scenarioEngine.updateExtended({
           ...ext,
@@ -186,11 +198,7 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
             { ts: now, type: "phase_change", description: "Patient decompensating - no treatment given" },
           ],
         });
-        runtime.scenarioEngine.hydrate({
-          vitals: decompPhase.vitalsTarget,
-          exam: decompPhase.examFindings,
-          rhythmSummary: decompPhase.rhythmSummary,
-        });
+        runtime.scenarioEngine.enterPhase(decompPhase.id);
         sessionManager.broadcastToPresenters(sessionId, {
           type: "patient_transcript_delta",
           sessionId,
@@ -231,76 +239,126 @@ export function createScenarioOperationsHandler(deps: ScenarioOperationsDeps): S
   }
 
   /**
-   * Start the scenario heartbeat timer for a session
+   * Advance a session by one heartbeat
    */
-  function startScenarioHeartbeat(sessionId: string) {
-    if (scenarioTimers.has(sessionId)) return;
-    const tick = () => {
-      const runtime = runtimes.get(sessionId);
-      if (!runtime) return;
+  function tickScenario(sessionId: string): Promise<void> {
+    const runtime = runtimes.get(sessionId);
+    if (!runtime) return Promise.resolve();
+    const now = runtime.scenarioEngine.now();
+    runtime.recorder?.record({ kind: "tick", t: now });
 
-      // Handle SVT phase transitions with state lock to prevent race conditions
-      // Uses tryWithStateLock to skip if treatment is in progress (will tick next heartbeat)
-      const state = runtime.scenarioEngine.getState();
-      if (hasSVTExtended(state)) {
-        tryWithStateLock(sessionId, "svtPhaseTick", async () => {
-          // Re-fetch state inside lock to ensure we have latest
-          const freshState = runtime.scenarioEngine.getState();
-          if (hasSVTExtended(freshState)) {
-            tickSVTPhase(sessionId, runtime, freshState.extended);
-          }
-        }).catch((err) => logError("[tick] SVT phase tick failed:", err));
-      }
-
-      const result = runtime.scenarioEngine.tick(Date.now());
-      const telemetryWaveform = runtime.scenarioEngine.getState().telemetry
-        ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90)
-        : undefined;
-      checkAlarms(sessionId, runtime, alarmSeenAt, sessionManager);
-      if (result) {
-        if (runtime.scenarioEngine.getState().telemetry) {
-          const rhythm = runtime.scenarioEngine.getState().rhythmSummary;
-          const history = runtime.scenarioEngine.getState().telemetryHistory ?? [];
-          if (rhythm && (history.length === 0 || history[history.length - 1]?.rhythm !== rhythm)) {
-            runtime.scenarioEngine.setTelemetryHistory([...history, { ts: Date.now(), rhythm }]);
-          }
+    // Handle SVT phase transitions with state lock to prevent race conditions
+    // Uses tryWithStateLock to skip if treatment is in progress (will tick next heartbeat)
+    let svtTick: Promise<void> = Promise.resolve();
+    const state = runtime.scenarioEngine.getState();
+    if (hasSVTExtended(state)) {
+      svtTick = tryWithStateLock(sessionId, "svtPhaseTick", async () => {
+        // Re-fetch state inside lock to ensure we have latest
+        const freshState = runtime.scenarioEngine.getState();
+        if (hasSVTExtended(freshState)) {
+          tickSVTPhase(sessionId, runtime, freshState.extended);
         }
-        result.events?.forEach((evt: { type: string; payload?: Record<string, unknown> }) =>
-          eventLog.append({
-            id: `${Date.now()}-${Math.random()}`,
-            ts: Date.now(),
-            simId: sessionId,
-            type: evt.type as EventType,
-            payload: evt.payload,
-          })
-        );
-        result.events?.forEach((evt: { type: string; payload?: Record<string, unknown> }) =>
-          fireAndForget(logSimEvent(sessionId, { type: evt.type, payload: evt.payload }), `logSimEvent:${evt.type}`)
-        );
-        broadcastSimState(sessionId, {
-          ...runtime.scenarioEngine.getState(),
-          stageIds: runtime.scenarioEngine.getStageIds(),
-          telemetryWaveform,
-          elapsedSeconds: runtime.scenarioEngine.getElapsedSeconds(),
-          budget: runtime.cost.getState?.(),
-        });
-      } else {
-        // Always broadcast to keep elapsed time updated
-        broadcastSimState(sessionId, {
-          ...runtime.scenarioEngine.getState(),
-          stageIds: runtime.scenarioEngine.getStageIds(),
-          telemetryWaveform,
-          elapsedSeconds: runtime.scenarioEngine.getElapsedSeconds(),
-          budget: runtime.cost.getState?.(),
+      })
+        .then(() => undefined)
+        .catch((err) => logError("[tick] SVT phase tick failed:", err));
+    }
+
+    const result = runtime.scenarioEngine.tick(now);
+
+    // Delayed/time-based physiology rules: generic ones for simple scenarios, the
+    // scenario file's rules and phase transitions for myocarditis
+    const physiology = runGenericPhysiology(runtime.scenarioEngine, now) ?? runMyocarditisPhysiology(runtime.scenarioEngine, now);
+    if (physiology?.nurseLine) {
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_transcript_delta",
+        sessionId,
+        text: physiology.nurseLine,
+        character: "nurse",
+      });
+    }
+    if (physiology && physiology.triggeredRules.length > 0) {
+      fireAndForget(
+        logSimEvent(sessionId, { type: "physiology.rules", payload: { ...physiology } }),
+        "logSimEvent:physiology.rules"
+      );
+    }
+
+    // Scenario NPC triggers: one line per heartbeat, and none over a physiology nurse line
+    if (!physiology?.nurseLine) {
+      runtime.npc = runtime.npc ?? createNpcTriggerState(runtime.rng);
+      const fired = runNpcTriggers(runtime.scenarioEngine, runtime.npc, runtime.rng, now);
+      if (fired) {
+        sessionManager.broadcastToSession(sessionId, {
+          type: "patient_transcript_delta",
+          sessionId,
+          text: fired.line,
+          character: fired.character,
         });
+        fireAndForget(
+          logSimEvent(sessionId, { type: "npc.trigger", payload: { ...fired } }),
+          "logSimEvent:npc.trigger"
+        );
+      }
+    }
+    const telemetryWaveform = runtime.scenarioEngine.getState().telemetry
+      ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90, runtime.scenarioEngine.getState().rhythm)
+      : undefined;
+    checkAlarms(sessionId, runtime, alarmSeenAt, sessionManager, now);
+    trackArrest(runtime, now);
+    if (result) {
+      if (runtime.scenarioEngine.getState().telemetry) {
+        const rhythm = runtime.scenarioEngine.getState().rhythmSummary;
+        const history = runtime.scenarioEngine.getState().telemetryHistory ?? [];
+        if (rhythm && (history.length === 0 || history[history.length - 1]?.rhythm !== rhythm)) {
+          runtime.scenarioEngine.setTelemetryHistory([...history, { ts: now, rhythm }]);
+        }
       }
-    };
-    const handle = setInterval(tick, scenarioHeartbeatMs);
+      result.events?.forEach((evt: { type: string; payload?: Record<string, unknown> }) =>
+        eventLog.append({
+          id: `${now}-${Math.random()}`,
+          ts: now,
+          simId: sessionId,
+          type: evt.type as EventType,
+          payload: evt.payload,
+        })
+      );
+      result.events?.forEach((evt: { type: string; payload?: Record<string, unknown> }) =>
+        fireAndForget(logSimEvent(sessionId, { type: evt.type, payload: evt.payload }), `logSimEvent:${evt.type}`)
+      );
+      broadcastSimState(sessionId, {
+        ...runtime.scenarioEngine.getState(),
+        stageIds: runtime.scenarioEngine.getStageIds(),
+        telemetryWaveform,
+        elapsedSeconds: runtime.scenarioEngine.getElapsedSeconds(),
+        budget: runtime.cost.getState?.(),
+      });
+    } else {
+      // Always broadcast to keep elapsed time updated
+      broadcastSimState(sessionId, {
+        ...runtime.scenarioEngine.getState(),
+        stageIds: runtime.scenarioEngine.getStageIds(),
+        telemetryWaveform,
+        elapsedSeconds: runtime.scenarioEngine.getElapsedSeconds(),
+        budget: runtime.cost.getState?.(),
+      });
+    }
+    return svtTick;
+  }
+
+  /**
+   * Start the scenario heartbeat timer for a session
+   */
+  function startScenarioHeartbeat(sessionId: string) {
+    if (scenarioTimers.has(sessionId)) return;
+    const handle = setInterval(() => {
+      void tickScenario(sessionId);
+    }, scenarioHeartbeatMs);
     scenarioTimers.set(sessionId, handle);
   }
 
   return {
     handleScenarioChange,
     startScenarioHeartbeat,
+    tickScenario,
   };
 }
@@ -2,18 +2,49 @@
  * Treatment Handler
  * Handles all medical treatments including medications, cardioversion, and supportive care.
  * Implements PALS-compliant weight-based dosing with nurse confirmation.
+ * Medication orders are checked against the formulary first; the nurse holds and
+ * challenges a flagged order until the team confirms it (payload.confirmed, or
+ * a spoken "confirm"), corrects it with a new order, or cancels it.
  */
 
 import { SessionManager } from "../sessionManager";
 import { Runtime } from "../typesRuntime";
 import { ScenarioEngine } from "../sim/scenarioEngine";
-import { PatientScenarioId } from "../patientCase";
-import { ToolIntent, hasSVTExtended } from "../sim/types";
-import { SVT_PHASES } from "../sim/scenarios/teen_svt_complex";
+import { ToolIntent, hasGenericExtended, hasMyocarditisExtended, hasSVTExtended, type MedicationErrorRecord } from "../sim/types";
+import { recordGenericTreatment, runGenericPhysiology } from "../sim/genericPhysiology";
+import { recordMyocarditisTreatment, runMyocarditisPhysiology } from "../sim/scenarios/peds_myocarditis_silent_crash";
 import { buildTelemetryWaveform } from "../telemetry";
 import { logSimEvent } from "../persistence";
 import { withStateLock } from "../stateLock";
-import { OrderType } from "../orders";
+import { OrderType, type OrderedBy } from "../orders";
+import { attributeToTeam } from "../codeTeam";
+import { nextRandom } from "../sim/simClock";
+import { attemptRosc, isInArrest } from "../cpr";
+import {
+  MEDICATION_CHALLENGE_WINDOW_MS,
+  checkMedicationOrder,
+  createMedicationLog,
+  describeChallenge,
+  dosesGiven,
+  getFormularyEntry,
+  parseChallengeReply,
+  toErrorRecords,
+  type MedicationCheck,
+  type PendingMedicationOrder,
+} from "../sim/formulary";
+import {
+  applyDefibAction,
+  createDefibrillatorLog,
+  dischargeDefibrillator,
+  evaluateShock,
+  hasPacingCapture,
+  toDefibErrorRecords,
+  type DefibAction,
+  type DefibActionParams,
+  type DefibFinding,
+  type DefibrillatorLog,
+} from "../sim/defibrillator";
+import type { Rhythm } from "../sim/rhythm";
 
 // ============================================================================
 // Types
@@ -32,6 +63,7 @@ export interface TreatmentHandlerDeps {
   runtimes: Map<string, Runtime>;
   lastTreatmentAt: Map<string, number>;
   fireAndForget: (promise: Promise<unknown>, context: string, sessionId?: string) => void;
+  schedule?: (fn: () => void, ms: number) => any;
 }
 
 export interface TreatmentHandlers {
@@ -40,6 +72,9 @@ export interface TreatmentHandlers {
     treatmentType?: string,
     payload?: Record<string, unknown>
   ) => Promise<void>;
+  handleDefibAction: (sessionId: string, action: DefibAction, params?: DefibActionParams, by?: OrderedBy) => Promise<void>;
+  /** Confirm or cancel an order the nurse is holding; false when the text is not such a reply */
+  handleMedicationReply: (sessionId: string, text: string, by?: OrderedBy) => boolean;
 }
 
 // ============================================================================
@@ -55,6 +90,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
     runtimes,
     lastTreatmentAt,
     fireAndForget,
+    schedule = setTimeout,
   } = deps;
 
   /**
@@ -71,7 +107,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
     const demographics = runtime.scenarioEngine.getDemographics();
 
     const key = `${sessionId}:${(treatmentType ?? "").toLowerCase()}`;
-    const now = Date.now();
+    const now = runtime.scenarioEngine.now();
     const last = lastTreatmentAt.get(key) || 0;
 
     // Minimum interval between same treatments (prevents spam)
@@ -113,15 +149,74 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
     weightKg: number,
     demographics: ReturnType<ScenarioEngine["getDemographics"]>
   ): Promise<void> {
-    const doseOrdered = payload?.dose as number | undefined;
     const routeOrdered = payload?.route as string | undefined;
     const joules = payload?.joules as number | undefined;
 
+    // Formulary check before anything is drawn up
+    const formularyEntry = getFormularyEntry(treatmentType ?? "");
+    let medicationCheck: MedicationCheck | undefined;
+    if (formularyEntry) {
+      const medications = (runtime.medications = runtime.medications ?? createMedicationLog());
+      const dosePerKg = payload?.dosePerKg as number | undefined;
+      medicationCheck = checkMedicationOrder(
+        formularyEntry,
+        {
+          dose: (payload?.dose as number | undefined) ?? (dosePerKg !== undefined ? dosePerKg * weightKg : undefined),
+          route: routeOrdered,
+          concentration: payload?.concentration as string | undefined,
+          volumeMl: payload?.volumeMl as number | undefined,
+        },
+        { weightKg, ageYears: demographics.ageYears, previousDoses: dosesGiven(medications, formularyEntry.id) }
+      );
+      // Any new order for the drug answers an earlier challenge
+      const pending = medications.pending?.drug === formularyEntry.id ? medications.pending : undefined;
+      medications.pending = undefined;
+      if (medicationCheck.findings.length > 0) {
+        const confirmed = payload?.confirmed === true;
+        // The same order again is the one already challenged: record its findings once
+        if (pending && pending.dose === medicationCheck.dose && pending.route === medicationCheck.route) {
+          if (confirmed) markChallengeAdministered(sessionId, runtime, pending);
+          else medications.pending = pending;
+        } else {
+          const challengedAt = recordMedicationErrors(sessionId, runtime, medicationCheck, confirmed);
+          if (!confirmed) {
+            medications.pending = {
+              drug: formularyEntry.id,
+              treatmentType: treatmentType ?? formularyEntry.id,
+              payload: { ...payload },
+              dose: medicationCheck.dose,
+              route: medicationCheck.route,
+              challengedAt,
+            };
+          }
+        }
+        if (!confirmed) {
+          // Held, so a corrected order shouldn't hit the re-dose interval
+          lastTreatmentAt.delete(`${sessionId}:${(treatmentType ?? "").toLowerCase()}`);
+          sessionManager.broadcastToSession(sessionId, {
+            type: "patient_transcript_delta",
+            sessionId,
+            text: describeChallenge(medicationCheck),
+            character: "nurse",
+          });
+          return;
+        }
+      }
+    }
+    // Volume orders resolve to a dose through the stated concentration
+    const doseOrdered = medicationCheck?.dose ?? (payload?.dose as number | undefined);
+
+    // Shocks and epi during arrest roll for ROSC (odds scale with CPR quality)
+    const inArrest = isInArrest(runtime);
+
     const delta: any = {};
+    let administeredDose: number | undefined;
     let nurseResponse = "";
     let techResponse: string | undefined;
     let decayMs = 120000;
     let decayIntent: ToolIntent | null = null;
+    // IV access goes through the order system, which attributes it to the team
+    let attributedByOrder = false;
 
     switch ((treatmentType ?? "").toLowerCase()) {
       // ===== SUPPORTIVE CARE =====
@@ -188,13 +283,14 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
               ...ext,
               timelineEvents: [
                 ...ext.timelineEvents,
-                { ts: Date.now(), type: "intervention", description: `IV access ordered (${ivGauge}g ${ivLocation.replace(/_/g, " ")})` },
+                { ts: runtime.scenarioEngine.now(), type: "intervention", description: `IV access ordered (${ivGauge}g ${ivLocation.replace(/_/g, " ")})` },
               ],
             });
           }
         }
         // Order handler broadcasts nurse ack, so skip here
         nurseResponse = "";
+        attributedByOrder = true;
         break;
       }
       case "position":
@@ -222,7 +318,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
           // SVT likely - vagal may work
           // Teaching progression: first attempt fails, second attempt has 30% success
           const previousAttempts = hasSVTExtended(currentState) ? currentState.extended.vagalAttempts : 0;
-          const vagalSucceeds = previousAttempts >= 1 && Math.random() < 0.3;
+          const vagalSucceeds = previousAttempts >= 1 && nextRandom(runtime.rng) < 0.3;
 
           nurseResponse = `Trying ${methodName} now... watching the monitor...`;
 
@@ -237,17 +333,17 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
               runtime.scenarioEngine.updateExtended({
                 ...ext,
                 vagalAttempts: ext.vagalAttempts + 1,
-                vagalAttemptTs: Date.now(),
+                vagalAttemptTs: runtime.scenarioEngine.now(),
                 converted: true,
                 conversionMethod: "vagal",
-                conversionTs: Date.now(),
+                conversionTs: runtime.scenarioEngine.now(),
                 currentRhythm: "sinus",
                 checklistCompleted: ext.checklistCompleted.includes("vagal_attempted")
                   ? ext.checklistCompleted
                   : [...ext.checklistCompleted, "vagal_attempted"],
                 timelineEvents: [
                   ...ext.timelineEvents,
-                  { ts: Date.now(), type: "treatment", description: `Vagal maneuver (${methodName}) - CONVERTED to sinus rhythm` },
+                  { ts: runtime.scenarioEngine.now(), type: "treatment", description: `Vagal maneuver (${methodName}) - CONVERTED to sinus rhythm` },
                 ],
               });
             }
@@ -264,13 +360,13 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
               runtime.scenarioEngine.updateExtended({
                 ...ext,
                 vagalAttempts: ext.vagalAttempts + 1,
-                vagalAttemptTs: Date.now(),
+                vagalAttemptTs: runtime.scenarioEngine.now(),
                 checklistCompleted: ext.checklistCompleted.includes("vagal_attempted")
                   ? ext.checklistCompleted
                   : [...ext.checklistCompleted, "vagal_attempted"],
                 timelineEvents: [
                   ...ext.timelineEvents,
-                  { ts: Date.now(), type: "treatment", description: `Vagal maneuver (${methodName}) attempted - no conversion` },
+                  { ts: runtime.scenarioEngine.now(), type: "treatment", description: `Vagal maneuver (${methodName}) attempted - no conversion` },
                 ],
               });
             }
@@ -305,10 +401,10 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
             ...ext,
             sedationGiven: true,
             sedationAgent: agent,
-            sedationTs: Date.now(),
+            sedationTs: runtime.scenarioEngine.now(),
             timelineEvents: [
               ...ext.timelineEvents,
-              { ts: Date.now(), type: "treatment", description: `Sedation given (${agent} ${actualDose} mg)` },
+              { ts: runtime.scenarioEngine.now(), type: "treatment", description: `Sedation given (${agent} ${actualDose} mg)` },
             ],
           });
         }
@@ -336,6 +432,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         }
 
         const actualDose = Math.round(recommendedDose * 100) / 100;
+        administeredDose = actualDose;
         const rapidPush = payload?.rapidPush !== false;
         const flushGiven = payload?.flush !== false;
 
@@ -359,7 +456,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         if (hasSVTExtended(adenState)) {
           const ext = adenState.extended;
           const newDose = {
-            ts: Date.now(),
+            ts: runtime.scenarioEngine.now(),
             doseMg: actualDose,
             doseMgKg: actualDose / weightKg,
             doseNumber,
@@ -381,30 +478,23 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
             totalAdenosineMg: ext.totalAdenosineMg + actualDose,
             converted,
             conversionMethod: converted ? (doseNumber === 1 ? "adenosine_first" : "adenosine_second") : undefined,
-            conversionTs: converted ? Date.now() : undefined,
+            conversionTs: converted ? runtime.scenarioEngine.now() : undefined,
             currentRhythm: converted ? "sinus" : "svt",
             phase: converted ? "converted" : ext.phase,
-            phaseEnteredAt: converted ? Date.now() : ext.phaseEnteredAt,
+            phaseEnteredAt: converted ? runtime.scenarioEngine.now() : ext.phaseEnteredAt,
             checklistCompleted: newChecklist,
             bonusesEarned: rapidPush && flushGiven && !ext.bonusesEarned.includes("proper_flush")
               ? [...ext.bonusesEarned, "proper_flush"]
               : ext.bonusesEarned,
             timelineEvents: [
               ...ext.timelineEvents,
-              { ts: Date.now(), type: "treatment", description: `Adenosine ${actualDose} mg (dose #${doseNumber})${converted ? " - CONVERTED" : ""}` },
+              { ts: runtime.scenarioEngine.now(), type: "treatment", description: `Adenosine ${actualDose} mg (dose #${doseNumber})${converted ? " - CONVERTED" : ""}` },
             ],
           });
 
           // If converted, update vitals/rhythm to sinus
           if (converted) {
-            const convertedPhase = SVT_PHASES.find((p) => p.id === "converted");
-            if (convertedPhase) {
-              runtime.scenarioEngine.hydrate({
-                vitals: convertedPhase.vitalsTarget,
-                exam: convertedPhase.examFindings,
-                rhythmSummary: convertedPhase.rhythmSummary,
-              });
-            }
+            runtime.scenarioEngine.enterPhase("converted");
           }
         }
         break;
@@ -413,6 +503,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // 5 mg/kg IV over 20-60 min (max 300mg for arrest)
         const recommendedDose = doseOrdered ?? Math.min(5 * weightKg, 300);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.hr = -15;
         decayMs = 300000; // Long-acting
         nurseResponse = `Amiodarone ${actualDose} mg IV loading. That's ${(actualDose / weightKg).toFixed(1)} mg/kg. Running over 20 minutes.`;
@@ -427,11 +518,22 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         const route = routeOrdered ?? "iv";
         const recommendedDose = doseOrdered ?? 0.01 * weightKg;
         const actualDose = Math.round(recommendedDose * 1000) / 1000; // mg
+        administeredDose = actualDose;
         delta.hr = 20;
         delta.sbpPerMin = 10;
         decayMs = 180000;
         const concentration = route.toLowerCase() === "im" ? "1:1,000" : "1:10,000";
         nurseResponse = `Epinephrine ${actualDose} mg ${route.toUpperCase()} given (${concentration}). That's ${(actualDose / weightKg * 1000).toFixed(0)} mcg/kg.`;
+        if (inArrest) {
+          const rosc = attemptRosc(runtime, "epi");
+          delete delta.hr;
+          delete delta.sbpPerMin;
+          nurseResponse += rosc
+            ? " Pulse check... I've got a pulse! We have ROSC."
+            : " Still no pulse. Continuing compressions.";
+          techResponse = rosc ? "Organized rhythm on the monitor." : "No change on the monitor.";
+          break;
+        }
         techResponse = "Heart rate increasing, perfusion improving.";
         decayIntent = { type: "intent_updateVitals", delta: { hr: -10, sbpPerMin: -5 } as any };
         break;
@@ -443,6 +545,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         const maxDose = demographics.ageYears >= 12 ? 1.0 : 0.5;
         const recommendedDose = doseOrdered ?? Math.max(minDose, Math.min(0.02 * weightKg, maxDose));
         const actualDose = Math.round(recommendedDose * 100) / 100;
+        administeredDose = actualDose;
         delta.hr = 20;
         decayMs = 180000;
         nurseResponse = `Atropine ${actualDose} mg IV push given. That's ${(actualDose / weightKg * 1000).toFixed(0)} mcg/kg (${(actualDose * 1000).toFixed(0)} mcg).`;
@@ -454,6 +557,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // 0.05-0.1 mg/kg IV (max 4mg)
         const recommendedDose = doseOrdered ?? Math.min(0.1 * weightKg, 4);
         const actualDose = Math.round(recommendedDose * 100) / 100;
+        administeredDose = actualDose;
         delta.hr = -5;
         decayMs = 240000;
         nurseResponse = `Morphine ${actualDose} mg IV given slowly. That's ${(actualDose / weightKg).toFixed(2)} mg/kg. Monitoring respiratory status.`;
@@ -476,6 +580,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // Used for VF/pVT refractory to defibrillation
         const recommendedDose = doseOrdered ?? Math.min(1 * weightKg, 100);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.hr = -5;
         decayMs = 600000;
         nurseResponse = `Lidocaine ${actualDose} mg IV bolus given. That's ${(actualDose / weightKg).toFixed(1)} mg/kg.`;
@@ -490,6 +595,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // CaCl2 10% = 100 mg/mL = 27.2 mg/mL elemental Ca
         const recommendedDose = doseOrdered ?? Math.min(20 * weightKg, 2000);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         const volumeMl = Math.round(actualDose / 100 * 10) / 10; // 10% solution
         delta.hr = 5;
         delta.sbpPerMin = 5;
@@ -505,6 +611,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // 8.4% solution = 1 mEq/mL
         const recommendedDose = doseOrdered ?? weightKg; // 1 mEq/kg
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         decayMs = 300000;
         nurseResponse = `Sodium bicarbonate ${actualDose} mEq (${actualDose} mL of 8.4%) IV slow push. That's ${(actualDose / weightKg).toFixed(1)} mEq/kg.`;
         techResponse = "Bicarb given. Check follow-up gas.";
@@ -516,6 +623,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // PALS: 25-50 mg/kg IV over 10-20 min (max 2g) - for torsades, hypomagnesemia
         const recommendedDose = doseOrdered ?? Math.min(50 * weightKg, 2000);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.hr = -10;
         decayMs = 600000;
         nurseResponse = `Magnesium sulfate ${actualDose} mg IV over 15 minutes. That's ${Math.round(actualDose / weightKg)} mg/kg.`;
@@ -527,6 +635,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // For SVT unresponsive to adenosine, wide-complex tachycardia
         const recommendedDose = doseOrdered ?? Math.min(15 * weightKg, 1000);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.hr = -20;
         decayMs = 600000;
         nurseResponse = `Procainamide ${actualDose} mg IV infusing over 30 minutes. That's ${Math.round(actualDose / weightKg)} mg/kg. Monitoring BP and QRS.`;
@@ -539,6 +648,9 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
       case "sync_cardioversion": {
         // Synchronized cardioversion: 0.5-1 J/kg, may increase to 2 J/kg
         const joulesOrdered = joules ?? Math.round(0.5 * weightKg);
+        // Only the defibrillator device can shock with sync off
+        const synchronized = payload?.synchronized !== false;
+        const shockLabel = synchronized ? "Synchronized cardioversion" : "Unsynchronized shock";
         const cvState = runtime.scenarioEngine.getState();
         runtime.scenarioEngine.updateIntervention("defibPads", { placed: true });
 
@@ -549,12 +661,13 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         }
 
         if (!wasSedated) {
-          nurseResponse = `Synchronized cardioversion at ${joulesOrdered} J delivered. That's ${(joulesOrdered / weightKg).toFixed(1)} J/kg. She felt that! We should have sedated first.`;
+          nurseResponse = `${shockLabel} at ${joulesOrdered} J delivered. That's ${(joulesOrdered / weightKg).toFixed(1)} J/kg. She felt that! We should have sedated first.`;
           techResponse = "Shock delivered... she's crying but... rhythm converting!";
         } else {
-          nurseResponse = `Synchronized cardioversion at ${joulesOrdered} J delivered. That's ${(joulesOrdered / weightKg).toFixed(1)} J/kg. Patient sedated.`;
+          nurseResponse = `${shockLabel} at ${joulesOrdered} J delivered. That's ${(joulesOrdered / weightKg).toFixed(1)} J/kg. Patient sedated.`;
           techResponse = "Shock delivered... watching rhythm... she's converting!";
         }
+        if (!synchronized) nurseResponse += " Sync was off - that could have dropped her into VF!";
 
         delta.hr = -150; // Convert to sinus ~90
 
@@ -562,10 +675,10 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         if (hasSVTExtended(cvState)) {
           const ext = cvState.extended;
           const cvAttempt = {
-            ts: Date.now(),
+            ts: runtime.scenarioEngine.now(),
             joules: joulesOrdered,
             joulesPerKg: joulesOrdered / weightKg,
-            synchronized: true,
+            synchronized,
             sedated: wasSedated,
             sedationAgent: ext.sedationAgent,
           };
@@ -575,10 +688,10 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
             cardioversionAttempts: [...ext.cardioversionAttempts, cvAttempt],
             converted: true,
             conversionMethod: "cardioversion",
-            conversionTs: Date.now(),
+            conversionTs: runtime.scenarioEngine.now(),
             currentRhythm: "sinus",
             phase: "converted",
-            phaseEnteredAt: Date.now(),
+            phaseEnteredAt: runtime.scenarioEngine.now(),
             flags: {
               ...ext.flags,
               unsedatedCardioversion: !wasSedated,
@@ -588,19 +701,12 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
               : ext.penaltiesIncurred,
             timelineEvents: [
               ...ext.timelineEvents,
-              { ts: Date.now(), type: "treatment", description: `Synchronized cardioversion ${joulesOrdered} J${!wasSedated ? " (UNSEDATED!)" : ""} - CONVERTED` },
+              { ts: runtime.scenarioEngine.now(), type: "treatment", description: `${shockLabel} ${joulesOrdered} J${!wasSedated ? " (UNSEDATED!)" : ""} - CONVERTED` },
             ],
           });
 
           // Update to converted phase vitals
-          const convertedPhase = SVT_PHASES.find((p) => p.id === "converted");
-          if (convertedPhase) {
-            runtime.scenarioEngine.hydrate({
-              vitals: convertedPhase.vitalsTarget,
-              exam: convertedPhase.examFindings,
-              rhythmSummary: convertedPhase.rhythmSummary,
-            });
-          }
+          runtime.scenarioEngine.enterPhase("converted");
         }
         break;
       }
@@ -610,7 +716,10 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         const joulesOrdered = joules ?? Math.round(2 * weightKg);
         delta.hr = 0; // Pulseless - either converts or stays in arrest
         runtime.scenarioEngine.updateIntervention("defibPads", { placed: true });
-        nurseResponse = `Defibrillation at ${joulesOrdered} J delivered! That's ${(joulesOrdered / weightKg).toFixed(0)} J/kg. Resuming compressions.`;
+        const rosc = inArrest && attemptRosc(runtime, "shock");
+        nurseResponse = rosc
+          ? `Defibrillation at ${joulesOrdered} J delivered! That's ${(joulesOrdered / weightKg).toFixed(0)} J/kg. Organized rhythm... I've got a pulse! We have ROSC.`
+          : `Defibrillation at ${joulesOrdered} J delivered! That's ${(joulesOrdered / weightKg).toFixed(0)} J/kg. Resuming compressions.`;
         techResponse = "Shock delivered. Checking rhythm...";
         break;
       }
@@ -634,13 +743,13 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
           runtime.scenarioEngine.updateExtended({
             ...ext,
             monitorOn: true,
-            monitorOnTs: Date.now(),
+            monitorOnTs: runtime.scenarioEngine.now(),
             checklistCompleted: ext.checklistCompleted.includes("continuous_monitoring")
               ? ext.checklistCompleted
               : [...ext.checklistCompleted, "continuous_monitoring"],
             timelineEvents: [
               ...ext.timelineEvents,
-              { ts: Date.now(), type: "intervention", description: "Cardiac monitor attached" },
+              { ts: runtime.scenarioEngine.now(), type: "intervention", description: "Cardiac monitor attached" },
             ],
           });
         }
@@ -667,6 +776,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // 10 mg/kg PO (max 400mg)
         const recommendedDose = doseOrdered ?? Math.min(10 * weightKg, 400);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.temp = -0.5;
         decayMs = 21600000; // 6 hours
         nurseResponse = `Ibuprofen ${actualDose} mg PO given. That's ${Math.round(actualDose / weightKg)} mg/kg.`;
@@ -677,6 +787,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // 15 mg/kg PO (max 1000mg)
         const recommendedDose = doseOrdered ?? Math.min(15 * weightKg, 1000);
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         delta.temp = -0.5;
         decayMs = 14400000; // 4 hours
         nurseResponse = `Acetaminophen ${actualDose} mg PO given. That's ${Math.round(actualDose / weightKg)} mg/kg.`;
@@ -687,6 +798,7 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         // Kawasaki: 80-100 mg/kg/day divided q6h (high dose) or 3-5 mg/kg/day (low dose)
         const recommendedDose = doseOrdered ?? Math.min(20 * weightKg, 650); // Single dose
         const actualDose = Math.round(recommendedDose);
+        administeredDose = actualDose;
         nurseResponse = `Aspirin ${actualDose} mg PO given. That's ${Math.round(actualDose / weightKg)} mg/kg.`;
         break;
       }
@@ -702,24 +814,48 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         return;
     }
 
+    if (formularyEntry && runtime.medications && administeredDose !== undefined) {
+      runtime.medications.doses.push({ drug: formularyEntry.id, dose: administeredDose, ts: runtime.scenarioEngine.now() });
+      if (medicationCheck && medicationCheck.findings.length > 0 && nurseResponse) {
+        nurseResponse = `Giving it as ordered, but I've noted my concern. ${nurseResponse}`;
+      }
+    }
+
     // Apply vitals changes
     runtime.scenarioEngine.applyVitalsAdjustment(delta);
 
+    // Record the treatment and let the scenario's physiology rules respond
+    const genericState = runtime.scenarioEngine.getState();
+    let physiologyNurseLine: string | undefined;
+    if (hasGenericExtended(genericState)) {
+      runtime.scenarioEngine.updateExtended(
+        recordGenericTreatment(genericState.extended, treatmentType ?? "unknown", { dose: doseOrdered, weightKg }, runtime.scenarioEngine.now())
+      );
+      physiologyNurseLine = runGenericPhysiology(runtime.scenarioEngine)?.nurseLine;
+    } else if (hasMyocarditisExtended(genericState)) {
+      runtime.scenarioEngine.updateExtended(
+        recordMyocarditisTreatment(genericState.extended, treatmentType ?? "unknown", { dose: doseOrdered, weightKg }, runtime.scenarioEngine.now())
+      );
+      physiologyNurseLine = runMyocarditisPhysiology(runtime.scenarioEngine)?.nurseLine;
+    }
+
     // Update rhythm based on new vitals (treatments affecting HR change the rhythm)
     const newRhythm = runtime.scenarioEngine.getDynamicRhythm();
     runtime.scenarioEngine.setRhythm(newRhythm, `treatment: ${treatmentType}`);
 
     const telemetryWaveform = runtime.scenarioEngine.getState().telemetry
-      ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90)
+      ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90, runtime.scenarioEngine.getState().rhythm)
       : undefined;
 
-    maybeAdvanceStageFromTreatment(runtime, treatmentType);
-
-    // Record in treatment history
+    // Record in treatment history, attributed to whoever gave it
+    const by = payload?.orderedBy as OrderedBy | undefined;
+    const orderedBy = by && !attributedByOrder
+      ? attributeToTeam(runtime, by, "treatment", { kind: "treatment", treatmentType: treatmentType ?? "unknown" })
+      : by;
     const history = runtime.scenarioEngine.getState().treatmentHistory ?? [];
     runtime.scenarioEngine.setTreatmentHistory([
       ...history,
-      { ts: Date.now(), treatmentType: treatmentType ?? "unknown", note: nurseResponse },
+      { ts: runtime.scenarioEngine.now(), treatmentType: treatmentType ?? "unknown", note: nurseResponse, ...(orderedBy ? { orderedBy } : {}) },
     ]);
 
     // Broadcast updated state
@@ -747,6 +883,14 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
         });
       }
     }
+    if (physiologyNurseLine) {
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_transcript_delta",
+        sessionId,
+        text: physiologyNurseLine,
+        character: "nurse",
+      });
+    }
 
     fireAndForget(logSimEvent(sessionId, {
       type: "treatment.applied",
@@ -755,15 +899,16 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
 
     // Schedule effect decay
     if (decayIntent) {
-      setTimeout(() => {
+      schedule(() => {
         const rt = runtimes.get(sessionId);
         if (!rt) return;
+        rt.recorder?.record({ kind: "timer", t: rt.scenarioEngine.now(), label: `treatment.${treatmentType}.decay` });
         rt.scenarioEngine.applyIntent(decayIntent);
         broadcastSimState(sessionId, {
           ...rt.scenarioEngine.getState(),
           stageIds: rt.scenarioEngine.getStageIds(),
           telemetryWaveform: rt.scenarioEngine.getState().telemetry
-            ? buildTelemetryWaveform(rt.scenarioEngine.getState().vitals.hr ?? 90)
+            ? buildTelemetryWaveform(rt.scenarioEngine.getState().vitals.hr ?? 90, rt.scenarioEngine.getState().rhythm)
             : undefined,
         });
       }, decayMs);
@@ -771,24 +916,230 @@ export function createTreatmentHandler(deps: TreatmentHandlerDeps): TreatmentHan
   }
 
   /**
-   * Check if treatment should trigger stage advancement for simpler scenarios.
+   * Record challenged medication orders on the runtime and in extended state,
+   * where scenario scoring picks them up as penalties.
    */
-  function maybeAdvanceStageFromTreatment(runtime: Runtime, treatmentType?: string): void {
-    const scenarioId = runtime.scenarioEngine.getState().scenarioId as PatientScenarioId;
-    const stageId = runtime.scenarioEngine.getState().stageId;
-    const t = (treatmentType ?? "").toLowerCase();
-    if (scenarioId === "palpitations_svt" && stageId === "stage_2_episode" && t.includes("rate")) {
-      runtime.scenarioEngine.setStage("stage_3_post_episode");
+  function recordMedicationErrors(sessionId: string, runtime: Runtime, check: MedicationCheck, administered: boolean): number {
+    const ts = runtime.scenarioEngine.now();
+    const records = toErrorRecords(check, ts, administered);
+    runtime.medications?.errors.push(...records);
+    const ext = runtime.scenarioEngine.getState().extended;
+    if (ext) {
+      runtime.scenarioEngine.updateExtended({ medicationErrors: [...(ext.medicationErrors ?? []), ...records] });
     }
-    if (scenarioId === "ductal_shock" && stageId === "stage_1_shock" && (t.includes("fluid") || t.includes("bolus"))) {
-      runtime.scenarioEngine.setStage("stage_2_improving");
+    fireAndForget(logSimEvent(sessionId, {
+      type: "medication.error",
+      payload: { drug: check.entry.id, dose: check.dose, route: check.route, administered, findings: check.findings },
+    }), "logSimEvent:medication.error");
+    return ts;
+  }
+
+  /** The team confirmed a challenged order: its recorded findings were given after all */
+  function markChallengeAdministered(sessionId: string, runtime: Runtime, pending: PendingMedicationOrder) {
+    const isPending = (e: MedicationErrorRecord) => e.drug === pending.drug && e.ts === pending.challengedAt;
+    const mark = (errors: MedicationErrorRecord[]) => errors.map((e) => (isPending(e) ? { ...e, administered: true } : e));
+    if (runtime.medications) runtime.medications.errors = mark(runtime.medications.errors);
+    const ext = runtime.scenarioEngine.getState().extended;
+    if (ext?.medicationErrors) {
+      runtime.scenarioEngine.updateExtended({ medicationErrors: mark(ext.medicationErrors) });
+    }
+    fireAndForget(logSimEvent(sessionId, {
+      type: "medication.error.confirmed",
+      payload: { drug: pending.drug, dose: pending.dose, route: pending.route },
+    }), "logSimEvent:medication.error.confirmed");
+  }
+
+  /**
+   * A spoken reply to the nurse's challenge: "confirm" gives the held order as
+   * ordered, "cancel" drops it. Returns false when nothing is held or the
+   * utterance is not a reply, so it can be handled as speech.
+   */
+  function handleMedicationReply(sessionId: string, text: string, by?: OrderedBy): boolean {
+    const runtime = ensureRuntime(sessionId);
+    const pending = runtime.medications?.pending;
+    if (!runtime.medications || !pending) return false;
+    if (runtime.scenarioEngine.now() - pending.challengedAt > MEDICATION_CHALLENGE_WINDOW_MS) {
+      runtime.medications.pending = undefined;
+      return false;
     }
-    if (scenarioId === "cyanotic_spell" && stageId === "stage_2_spell" && (t.includes("oxygen") || t.includes("knee") || t.includes("position"))) {
-      runtime.scenarioEngine.setStage("stage_3_recovery");
+    const reply = parseChallengeReply(text);
+    if (!reply) return false;
+
+    if (reply === "cancel") {
+      runtime.medications.pending = undefined;
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_transcript_delta",
+        sessionId,
+        text: `Okay, ${getFormularyEntry(pending.drug)?.name ?? pending.drug} is on hold.`,
+        character: "nurse",
+      });
+      fireAndForget(logSimEvent(sessionId, {
+        type: "medication.order.cancelled",
+        payload: { drug: pending.drug, dose: pending.dose, route: pending.route },
+      }), "logSimEvent:medication.order.cancelled");
+      return true;
     }
+    fireAndForget(
+      handleTreatment(sessionId, pending.treatmentType, {
+        ...pending.payload,
+        ...(by ? { orderedBy: by } : {}),
+        confirmed: true,
+      }),
+      "medication.confirm",
+      sessionId
+    );
+    return true;
+  }
+
+  /**
+   * Handle a participant defibrillator action. Settings change the device; a
+   * shock is checked against the monitor rhythm and the energy dose, any
+   * mistake is recorded, and a delivered shock goes through the cardioversion
+   * or defibrillation treatment, attributed to whoever pressed the button.
+   */
+  async function handleDefibAction(
+    sessionId: string,
+    action: DefibAction,
+    params: DefibActionParams = {},
+    by?: OrderedBy
+  ): Promise<void> {
+    const runtime = ensureRuntime(sessionId);
+    const engine = runtime.scenarioEngine;
+    const weightKg = engine.getPatientWeight();
+    runtime.defib = runtime.defib ?? createDefibrillatorLog(engine.getState().interventions?.defibPads?.placed ?? false);
+    const log = runtime.defib;
+    const rhythm = engine.getState().rhythm ?? engine.getDynamicRhythm();
+
+    fireAndForget(logSimEvent(sessionId, {
+      type: "defib.action",
+      payload: { action, ...params },
+    }), "logSimEvent:defib.action");
+
+    if (action !== "shock") {
+      const result = applyDefibAction(log.device, action, params);
+      log.device = result.device;
+      if (action === "pads_on" || action === "pads_off") {
+        engine.updateIntervention("defibPads", { placed: action === "pads_on" });
+      }
+      if (action === "set_pacing" || action === "pace_start" || action === "pace_stop" || action === "pads_off") {
+        updatePacing(sessionId, runtime, log, rhythm);
+      }
+      if (action === "pace_start" && by && log.device.pacing.active) {
+        attributeToTeam(runtime, by, "device", { kind: "bedside", action: "defib" });
+      }
+      broadcastDefibState(sessionId, runtime, log, result.prompt);
+      return;
+    }
+
+    const evaluation = evaluateShock(log.device, rhythm, weightKg);
+    recordDefibErrors(sessionId, runtime, log, evaluation.findings, rhythm, weightKg);
+    if (!evaluation.delivered) {
+      broadcastDefibState(sessionId, runtime, log, evaluation.prompt);
+      return;
+    }
+
+    const joules = log.device.energyJ;
+    log.device = dischargeDefibrillator(log.device);
+    broadcastDefibState(sessionId, runtime, log);
+    if (evaluation.kind === null && rhythm.pulsePresent) {
+      // Nothing to convert: the shock lands on a perfusing rhythm and changes nothing
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_transcript_delta",
+        sessionId,
+        text: `Shock delivered at ${joules} J. No change on the monitor - that wasn't a shockable rhythm!`,
+        character: "nurse",
+      });
+      return;
+    }
+    await handleTreatment(sessionId, evaluation.kind === "cardioversion" ? "cardioversion" : "defibrillation", {
+      joules,
+      synchronized: evaluation.synchronized,
+      source: "defibrillator",
+      ...(by ? { orderedBy: by } : {}),
+    });
+  }
+
+  /**
+   * Pacing takes over the heart rate while it captures a perfusing rhythm; the
+   * underlying rate comes back when capture is lost or pacing stops.
+   */
+  function updatePacing(sessionId: string, runtime: Runtime, log: DefibrillatorLog, rhythm: Rhythm) {
+    const engine = runtime.scenarioEngine;
+    const pacing = log.device.pacing;
+    const vitals = engine.getState().vitals;
+    const capture = hasPacingCapture(pacing, rhythm);
+    let underlyingHr = pacing.underlyingHr;
+    let hr = vitals.hr;
+    if (capture && rhythm.pulsePresent) {
+      underlyingHr = underlyingHr ?? vitals.hr;
+      hr = Math.max(underlyingHr ?? 0, pacing.rateBpm);
+    } else if (underlyingHr !== undefined) {
+      hr = underlyingHr;
+      underlyingHr = undefined;
+    }
+    log.device.pacing = { ...pacing, capture, underlyingHr };
+    if (hr === vitals.hr && capture === pacing.capture) return;
+
+    engine.setVitals({ ...vitals, hr });
+    engine.setRhythm(engine.getDynamicRhythm(), capture ? "pacing capture" : "pacing stopped");
+    broadcastSimState(sessionId, {
+      ...engine.getState(),
+      stageIds: engine.getStageIds(),
+      telemetryWaveform: engine.getState().telemetry
+        ? buildTelemetryWaveform(engine.getState().vitals.hr ?? 90, engine.getState().rhythm)
+        : undefined,
+    });
+    if (capture === pacing.capture) return;
+    sessionManager.broadcastToSession(sessionId, {
+      type: "patient_transcript_delta",
+      sessionId,
+      text: !capture
+        ? "Lost capture - back to the underlying rhythm."
+        : rhythm.pulsePresent
+        ? `Pacer capture at ${pacing.currentMa} mA. I can feel a pulse at ${pacing.rateBpm}.`
+        : `Electrical capture at ${pacing.currentMa} mA, but no pulse. Continue CPR.`,
+      character: "nurse",
+    });
+  }
+
+  function broadcastDefibState(sessionId: string, runtime: Runtime, log: DefibrillatorLog, prompt?: string) {
+    sessionManager.broadcastToSession(sessionId, {
+      type: "defib_state",
+      sessionId,
+      device: log.device,
+      weightKg: runtime.scenarioEngine.getPatientWeight(),
+      prompt,
+    });
+  }
+
+  /**
+   * Record defibrillator mistakes on the runtime and in extended state, where
+   * scenario scoring picks them up as penalties.
+   */
+  function recordDefibErrors(
+    sessionId: string,
+    runtime: Runtime,
+    log: DefibrillatorLog,
+    findings: DefibFinding[],
+    rhythm: Rhythm,
+    weightKg: number
+  ) {
+    if (findings.length === 0) return;
+    const records = toDefibErrorRecords(findings, log.device, rhythm, weightKg, runtime.scenarioEngine.now());
+    log.errors.push(...records);
+    const ext = runtime.scenarioEngine.getState().extended;
+    if (ext) {
+      runtime.scenarioEngine.updateExtended({ defibErrors: [...(ext.defibErrors ?? []), ...records] });
+    }
+    fireAndForget(logSimEvent(sessionId, {
+      type: "defib.error",
+      payload: { energyJ: log.device.energyJ, rhythm: rhythm.code, findings },
+    }), "logSimEvent:defib.error");
   }
 
   return {
     handleTreatment,
+    handleDefibAction,
+    handleMedicationReply,
   };
 }
@@ -1,9 +1,12 @@
 import "dotenv/config";
 import WebSocket from "ws";
 import { SessionManager } from "./sessionManager";
-import { CharacterId, ClientToServerMessage, OrderResult, ServerToClientMessage } from "./messageTypes";
+import { CharacterId, ClientRole, ClientToServerMessage, OrderResult, ServerToClientMessage } from "./messageTypes";
 import { log, logError, logEvent } from "./logger";
-import { getOpenAIClient, MODEL } from "./openaiClient";
+import { gatewayMetrics, metricsRegistry, noteClientJoin } from "./metrics";
+import { MODEL } from "./openaiClient";
+import { createOfflineProvider, createProvider, getAIProvider, resolveProviderName, setAIProvider } from "./providers";
+import { onProviderUsage } from "./providers/usage";
 import { getOrCreatePatientEngine, setScenarioForSession, getScenarioForSession, getPersonaPrompt } from "./patientEngine";
 import { synthesizePatientAudio } from "./ttsClient";
 import { transcribeDoctorAudio } from "./sttClient";
@@ -12,23 +15,37 @@ import { performance } from "perf_hooks";
 import { PatientScenarioId } from "./patientCase";
 import { analyzeTranscript, analyzeComplexScenario, type ComplexScenarioId } from "./debriefAnalyzer";
 import { DebriefTurn } from "./messageTypes";
-import { RealtimePatientClient } from "./sim/realtimePatientClient";
 import { createEventLog } from "./sim/eventLog";
 import { ScenarioEngine } from "./sim/scenarioEngine";
+import { loadScenarios } from "./sim/scenarioRegistry";
 import { ToolGate } from "./sim/toolGate";
 import { ToolIntent, Interventions, hasSVTExtended, hasMyocarditisExtended, SVTExtendedState } from "./sim/types";
-import { createInitialSVTState, SVT_PHASES } from "./sim/scenarios/teen_svt_complex";
 import { CostController } from "./sim/costController";
-import { persistSimState, logSimEvent, loadSimState } from "./persistence";
+import { priceUsage } from "./sim/pricing";
+import {
+  persistSimState,
+  logSimEvent,
+  loadSimState,
+  appendSessionRecording,
+  incrementSpendTotals,
+  loadSpendTotals,
+} from "./persistence";
+import { SpendLedger, spendCapsFromEnv, type SpendLedgerState, type SpendPeriod } from "./spendLedger";
+import { SessionRecorder, isSessionRecordingEnabled } from "./sessionRecorder";
+import { createSeededRandom, randomSeed } from "./sim/simClock";
 import { validateMessage, validateSimStateMessage } from "./validators";
 import { getAuth } from "./firebaseAdmin";
+import { auditDenial, isCommandAllowed, isMessageAllowed, verifyPresenter } from "./permissions";
 import { respondForCharacter, chooseCharacter, isUnsafeUtterance, parseOrderRequest } from "./speechHelpers";
-import { buildTelemetryWaveform, checkAlarms } from "./telemetry";
+import { buildTelemetryWaveform, checkAlarms, handleAlarmAction, toggleTelemetry, type AlarmSeen } from "./telemetry";
+import { handleCprEvent } from "./cpr";
+import { actorFor, handleTeamRole } from "./codeTeam";
 import { Runtime } from "./typesRuntime";
-import { createOrderHandler } from "./orders";
+import { clearSessionPendingOrders, createOrderHandler } from "./orders";
+import { clearSessionLoops } from "./commLoops";
 import { shouldAutoReply } from "./autoReplyGuard";
 import { createTransport, send, ClientContext } from "./transport";
-import { createAnalysisHandler, createTreatmentHandler, createScenarioOperationsHandler, createDoctorAudioHandler } from "./handlers";
+import { createAnalysisHandler, createTreatmentHandler, createScenarioOperationsHandler, createDoctorAudioHandler, createAdminApiHandler, initializeScenarioState } from "./handlers";
 import { createBroadcastUtils } from "./state";
 import { getAuscultationClips } from "./data/auscultation";
 import { withStateLock, tryWithStateLock } from "./stateLock";
@@ -60,25 +77,17 @@ function fireAndForget(
 }
 const eventLog = createEventLog();
 const lastCommandAt: Map<string, number> = new Map();
-const realtimeModel = process.env.OPENAI_REALTIME_MODEL || "gpt-4o-mini-realtime-preview";
-const realtimeApiKey = process.env.OPENAI_API_KEY || "";
 const softBudgetUsd = Number(process.env.SOFT_BUDGET_USD || 3.5);
 const hardBudgetUsd = Number(process.env.HARD_BUDGET_USD || 4.5);
 const scenarioHeartbeatMs = Number(process.env.SCENARIO_HEARTBEAT_MS || 1000);
+const spendFlushMs = Number(process.env.SPEND_LEDGER_FLUSH_MS || 15000);
 // Reduced from 3000ms to 1000ms for faster autonomous conversation flow
 const commandCooldownMs = Number(process.env.COMMAND_COOLDOWN_MS || 1000);
 const lastAutoReplyAt: Map<string, number> = new Map();
 const lastAutoReplyByUser: Map<string, number> = new Map();
 const lastDoctorUtterance: Map<string, { text: string; ts: number }> = new Map();
 const lastTreatmentAt: Map<string, number> = new Map();
-const alarmSeenAt: Map<
-  string,
-  {
-    spo2Low?: number;
-    hrHigh?: number;
-    hrLow?: number;
-  }
-> = new Map();
+const alarmSeenAt: Map<string, AlarmSeen> = new Map();
 // handleOrder initialized after broadcastUtils below
 // Default to secure WebSocket auth; only allow insecure for local dev/tunnels when explicitly set.
 const allowInsecureWs = process.env.ALLOW_INSECURE_VOICE_WS === "true";
@@ -87,6 +96,13 @@ if (allowInsecureWs && process.env.NODE_ENV === "production") {
     "[warn] ALLOW_INSECURE_VOICE_WS=true in production; require Firebase ID tokens or set ALLOW_INSECURE_VOICE_WS=false."
   );
 }
+// Admin API auth is never tied to ALLOW_INSECURE_VOICE_WS (dev:tunnel sets it on a public URL);
+// this separate flag only skips tokens for direct loopback requests, and never in production.
+const allowInsecureAdminLoopback =
+  process.env.ADMIN_API_INSECURE_LOOPBACK === "true" && process.env.NODE_ENV !== "production";
+if (process.env.ADMIN_API_INSECURE_LOOPBACK === "true" && !allowInsecureAdminLoopback) {
+  log("[warn] ADMIN_API_INSECURE_LOOPBACK ignored in production");
+}
 const timingEnabled = process.env.GATEWAY_TIMING === "true";
 
 // Chaos testing guards - only enabled in non-production
@@ -125,14 +141,24 @@ const analysisHandler = createAnalysisHandler({
 });
 
 // Clean up per-session state when all clients disconnect (prevents memory leaks)
-sessionManager.onSessionEmpty((sessionId) => {
+/** Close a session's realtime client, flush its recording and stop its heartbeat and loop timers */
+function stopRuntime(sessionId: string) {
   const runtime = runtimes.get(sessionId);
   if (runtime?.realtime) {
     try { runtime.realtime.close(); } catch { /* ignore */ }
   }
+  if (runtime?.recorder) {
+    fireAndForget(runtime.recorder.flush(), "sessionRecording.flush");
+  }
   runtimes.delete(sessionId);
+  clearSessionLoops(sessionId);
   scenarioTimers.get(sessionId) && clearInterval(scenarioTimers.get(sessionId)!);
   scenarioTimers.delete(sessionId);
+  alarmSeenAt.delete(sessionId);
+}
+
+function cleanupSession(sessionId: string) {
+  stopRuntime(sessionId);
   hydratedSessions.delete(sessionId);
   sessionCorrelationIds.delete(sessionId);
   voiceFallbackSessions.delete(sessionId);
@@ -140,8 +166,19 @@ sessionManager.onSessionEmpty((sessionId) => {
   lastAutoReplyAt.delete(sessionId);
   lastDoctorUtterance.delete(sessionId);
   lastTreatmentAt.delete(sessionId);
-  alarmSeenAt.delete(sessionId);
   log("Session cleaned up", { sessionId });
+}
+
+sessionManager.onSessionEmpty(cleanupSession);
+
+metricsRegistry.onCollect(() => {
+  gatewayMetrics.activeSessions.set(runtimes.size);
+  const sockets = sessionManager.getSocketCounts();
+  gatewayMetrics.activeSockets.set(sockets.presenters, { role: "presenter" });
+  gatewayMetrics.activeSockets.set(sockets.participants, { role: "participant" });
+  const spend = spendLedger.getState();
+  gatewayMetrics.orgSpendUsd.set(spend.daily.usd, { period: "day" });
+  gatewayMetrics.orgSpendUsd.set(spend.monthly.usd, { period: "month" });
 });
 
 function generateCorrelationId(): string {
@@ -163,6 +200,10 @@ const broadcastUtils = createBroadcastUtils({
   getOrCreateCorrelationId,
   voiceFallbackSessions,
   fireAndForget,
+  onSimState: (sessionId, state) => {
+    const runtime = runtimes.get(sessionId);
+    runtime?.recorder?.record({ kind: "sim_state", t: runtime.scenarioEngine.now(), state });
+  },
 });
 
 // Initialize order handler (depends on broadcastUtils)
@@ -203,6 +244,8 @@ const doctorAudioHandler = createDoctorAudioHandler({
   ensureRuntime,
   handleOrder,
   handleExamRequest,
+  handleTreatment: treatmentHandler.handleTreatment,
+  handleMedicationReply: treatmentHandler.handleMedicationReply,
   handleForceReply,
   withRetry,
   timed,
@@ -213,12 +256,50 @@ const doctorAudioHandler = createDoctorAudioHandler({
   lastDoctorUtterance,
 });
 
+const adminApi = createAdminApiHandler({
+  runtimes,
+  sessionManager,
+  eventLog,
+  verifyToken: verifyAdminToken,
+  allowInsecureLoopback: allowInsecureAdminLoopback,
+  endSession: forceEndSession,
+  resetSession,
+  broadcastSimState: broadcastUtils.broadcastSimState,
+  getSpend: () => spendLedger.getState(),
+});
+
+// Deployment-wide spend, persisted per UTC day and month
+const spendLedger = new SpendLedger(
+  { load: loadSpendTotals, increment: incrementSpendTotals },
+  {
+    caps: spendCapsFromEnv(),
+    onCapReached: handleSpendCapReached,
+    onCapCleared: handleSpendCapCleared,
+    onLoadError: (err) => logError("[budget] reloading spend totals failed", err),
+  }
+);
+
+// Every billed provider call: price it into its session's budget and the ledger
+onProviderUsage((usage) => {
+  const runtime = usage.sessionId ? runtimes.get(usage.sessionId) : undefined;
+  const usd = runtime ? runtime.cost.record(usage) : priceUsage(usage);
+  spendLedger.record(usage.modality, usd);
+  if (runtime && usage.sessionId) {
+    broadcastUtils.broadcastSimState(usage.sessionId, {
+      ...runtime.scenarioEngine.getState(),
+      stageIds: runtime.scenarioEngine.getStageIds(),
+      budget: runtime.cost.getState(),
+    });
+  }
+});
+
 function emitVoiceError(
   sessionId: string,
   error: "tts_failed" | "stt_failed" | "openai_failed",
   detail?: string
 ) {
   const correlationId = getOrCreateCorrelationId(sessionId);
+  if (!voiceFallbackSessions.has(sessionId)) gatewayMetrics.fallbackActivations.inc({ reason: error });
   voiceFallbackSessions.add(sessionId);
   sessionManager.broadcastToSession(sessionId, {
     type: "voice_error",
@@ -233,21 +314,53 @@ function emitVoiceError(
 // Character voices - imported from central config for consistency
 import { CHARACTER_VOICES } from "./voiceConfig";
 
-async function verifyAuthToken(authToken: string | undefined, claimedUserId: string): Promise<boolean> {
-  if (allowInsecureWs) return true;
-  if (!authToken) return false;
+/** Verified token claims, or null when the token is missing, invalid or for another user */
+async function verifyAuthToken(authToken: string | undefined, claimedUserId: string): Promise<Record<string, unknown> | null> {
+  if (allowInsecureWs) return {};
+  if (!authToken) return null;
   try {
     const auth = getAuth();
-    if (!auth) return false;
+    if (!auth) return null;
     const decoded = await auth.verifyIdToken(authToken);
-    if (decoded.uid && decoded.uid === claimedUserId) return true;
-    return false;
+    if (decoded.uid && decoded.uid === claimedUserId) return decoded;
+    return null;
   } catch (err) {
     logError("Auth token verification failed", err);
-    return false;
+    return null;
   }
 }
 
+/** Verified claims for an admin API bearer token; the admin claim is checked by the handler */
+async function verifyAdminToken(token: string): Promise<Record<string, unknown> | null> {
+  try {
+    const auth = getAuth();
+    if (!auth) return null;
+    return await auth.verifyIdToken(token);
+  } catch (err) {
+    logError("Admin token verification failed", err);
+    return null;
+  }
+}
+
+/** Admin force-end: notify clients, drop their sockets and tear the runtime down */
+function forceEndSession(sessionId: string) {
+  sessionManager.broadcastToSession(sessionId, { type: "error", message: "This session was ended by an administrator." });
+  clearSessionPendingOrders(sessionId);
+  if (!sessionManager.closeSession(sessionId, "Ended by administrator")) cleanupSession(sessionId);
+}
+
+/**
+ * Admin reset: replace the runtime with a fresh one (first stage, zero spend,
+ * AI back on) while clients stay connected and receive the new sim_state.
+ */
+function resetSession(sessionId: string): Runtime {
+  stopRuntime(sessionId);
+  clearSessionPendingOrders(sessionId);
+  voiceFallbackSessions.delete(sessionId);
+  if (sessionManager.isFallback(sessionId)) sessionManager.setFallback(sessionId, false);
+  return ensureRuntime(sessionId);
+}
+
 async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.RawData) {
   // Chaos testing: random message drops and artificial latency (non-production only)
   if (shouldDropMessage()) {
@@ -261,56 +374,89 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
     parsedRaw = JSON.parse(raw.toString());
   } catch (err) {
     logError("Invalid JSON", err);
+    gatewayMetrics.messagesIn.inc({ type: "invalid" });
     send(ws, { type: "error", message: "Invalid JSON" });
     return;
   }
   const parsed = validateMessage(parsedRaw);
   if (!parsed) {
+    gatewayMetrics.messagesIn.inc({ type: "invalid" });
     send(ws, { type: "error", message: "Invalid message shape" });
     return;
   }
+  gatewayMetrics.messagesIn.inc({ type: parsed.type });
 
   if (parsed.type === "join") {
     if (!parsed.sessionId || !parsed.userId || !parsed.role) {
       send(ws, { type: "error", message: "Missing join fields" });
       return;
     }
-    const authed = await verifyAuthToken(parsed.authToken, parsed.userId);
-    if (!authed) {
-      send(ws, { type: "error", message: "unauthorized_token" });
+    const claims = await verifyAuthToken(parsed.authToken, parsed.userId);
+    if (!claims) {
+      send(ws, { type: "error", message: "unauthorized_token", code: "unauthorized_token" });
       logEvent("ws.auth.denied", { sessionId: parsed.sessionId, userId: parsed.userId, reason: "invalid_or_expired_token" });
       ws.close();
       return;
     }
+    // The claimed role is only trusted for participants; presenters must own the session or be admins
+    if (parsed.role === "presenter" && !allowInsecureWs) {
+      const check = await verifyPresenter(parsed.sessionId, parsed.userId, claims);
+      if (!check.allowed) {
+        send(ws, { type: "error", message: "presenter_not_authorized", code: "presenter_not_authorized" });
+        auditDenial(parsed.sessionId, { userId: parsed.userId, role: parsed.role, reason: check.reason });
+        ws.close();
+        return;
+      }
+    }
     ctx.joined = true;
     ctx.sessionId = parsed.sessionId;
     ctx.role = parsed.role;
+    ctx.userId = parsed.userId;
     sessionManager.addClient(parsed.sessionId, parsed.role, ws);
+    noteClientJoin(parsed.sessionId, parsed.userId);
     send(ws, { type: "joined", sessionId: parsed.sessionId, role: parsed.role, insecureMode: allowInsecureWs });
+    const team = runtimes.get(parsed.sessionId)?.team;
+    if (team) send(ws, { type: "team_roster", sessionId: parsed.sessionId, members: team.members });
     logEvent("ws.join", { sessionId: parsed.sessionId, role: parsed.role, userId: parsed.userId });
     log("Client joined", parsed.sessionId, parsed.role, parsed.userId);
     return;
   }
 
-  if (!ctx.joined || !ctx.sessionId || !ctx.role) {
+  if (!ctx.joined || !ctx.sessionId || !ctx.role || !ctx.userId) {
     send(ws, { type: "error", message: "Must join first" });
     return;
   }
 
   // sessionId is guaranteed after the guard above; capture a non-null string for TS
   const simId = ctx.sessionId as string;
+  // The identity verified at join; never the userId a message claims
+  const userId = ctx.userId as string;
+  if (!isMessageAllowed(parsed.type, ctx.role)) {
+    send(ws, {
+      type: "error",
+      message: `${parsed.type} is not permitted for ${ctx.role}s`,
+      code: "command_forbidden",
+      commandType: parsed.type,
+    });
+    auditDenial(simId, { userId: ctx.userId, role: ctx.role, reason: "role_not_permitted", messageType: parsed.type });
+    return;
+  }
+  // Voice commands are recorded below, once they pass the cooldown
+  if (parsed.type !== "voice_command" && parsed.type !== "ping") {
+    recordClientMessage(simId, ctx.role, userId, parsed);
+  }
 
   switch (parsed.type) {
     case "start_speaking": {
-      log("start_speaking received", simId, parsed.userId);
-      const result = sessionManager.requestFloor(simId, parsed.userId);
+      log("start_speaking received", simId, userId);
+      const result = sessionManager.requestFloor(simId, userId);
       if (!result.granted) {
         log("start_speaking floor denied (held by)", simId, result.previous);
         send(ws, { type: "error", message: "floor_taken" });
         return;
       }
-      log("start_speaking floor granted", simId, parsed.userId);
-      if (result.previous && result.previous !== parsed.userId) {
+      log("start_speaking floor granted", simId, userId);
+      if (result.previous && result.previous !== userId) {
         sessionManager.broadcastToSession(simId, {
           type: "participant_state",
           sessionId: simId,
@@ -321,26 +467,26 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
       sessionManager.broadcastToSession(simId, {
         type: "participant_state",
         sessionId: simId,
-        userId: parsed.userId,
+        userId,
         speaking: true,
       });
       break;
     }
     case "stop_speaking": {
-      const released = sessionManager.releaseFloor(simId, parsed.userId);
+      const released = sessionManager.releaseFloor(simId, userId);
       sessionManager.broadcastToSession(simId, {
         type: "participant_state",
         sessionId: simId,
-        userId: parsed.userId,
+        userId,
         speaking: false,
       });
       if (!released) {
-        log("stop_speaking ignored (not floor holder)", simId, parsed.userId);
+        log("stop_speaking ignored (not floor holder)", simId, userId);
       }
       break;
     }
     case "doctor_audio": {
-      doctorAudioHandler.handleDoctorAudio(simId, parsed.userId, parsed.audioBase64, parsed.contentType, parsed.character as CharacterId | undefined);
+      doctorAudioHandler.handleDoctorAudio(simId, userId, parsed.audioBase64, parsed.contentType, parsed.character as CharacterId | undefined);
       break;
     }
     case "set_scenario": {
@@ -351,7 +497,65 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
       analysisHandler.handleAnalyzeTranscript(simId, parsed.turns);
       break;
     }
+    case "alarm_action": {
+      const runtime = runtimes.get(simId);
+      if (!runtime) return;
+      handleAlarmAction(simId, runtime, parsed.alarmId, parsed.action, userId, sessionManager);
+      break;
+    }
+    case "cpr_event": {
+      const runtime = runtimes.get(simId);
+      if (!runtime) return;
+      handleCprEvent(simId, runtime, parsed.event, parsed.rate, userId);
+      break;
+    }
+    case "defib_action": {
+      const { action, energyJ, sync, rateBpm, currentMa } = parsed;
+      const by = actorFor(ensureRuntime(simId), userId, ctx.role);
+      treatmentHandler.handleDefibAction(simId, action, { energyJ, sync, rateBpm, currentMa }, by).catch((err) =>
+        logError("[handleMessage] Defibrillator action failed:", err)
+      );
+      break;
+    }
+    case "team_role": {
+      // Participants claim their own role; only the presenter hands out roles to others
+      const targetUserId = parsed.targetUserId ?? userId;
+      if (ctx.role !== "presenter" && targetUserId !== userId) {
+        send(ws, { type: "error", message: "Only the presenter can assign roles to others", code: "command_forbidden" });
+        auditDenial(simId, { userId, role: ctx.role, reason: "team_role_assignment" });
+        return;
+      }
+      const result = handleTeamRole(
+        simId,
+        ensureRuntime(simId),
+        {
+          userId: targetUserId,
+          name: parsed.displayName ?? "Unknown",
+          teamRole: parsed.teamRole,
+          assignedBy: ctx.role === "presenter" ? "presenter" : "self",
+        },
+        sessionManager
+      );
+      if (!result.ok) {
+        send(ws, {
+          type: "error",
+          message: result.reason === "role_taken" ? "That role is already taken" : "Every role is taken",
+          code: "team_role_taken",
+        });
+      }
+      break;
+    }
     case "voice_command": {
+      if (!isCommandAllowed(parsed.commandType, ctx.role)) {
+        send(ws, {
+          type: "error",
+          message: `${parsed.commandType} is not permitted for ${ctx.role}s`,
+          code: "command_forbidden",
+          commandType: parsed.commandType,
+        });
+        auditDenial(simId, { userId: ctx.userId, role: ctx.role, reason: "role_not_permitted", commandType: parsed.commandType });
+        return;
+      }
       const key = `${simId}:${parsed.commandType}`;
       const now = Date.now();
       const last = lastCommandAt.get(key) || 0;
@@ -360,8 +564,9 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
         return;
       }
       lastCommandAt.set(key, now);
-      log("Voice command", parsed.commandType, "by", parsed.userId, "session", simId);
+      log("Voice command", parsed.commandType, "by", userId, "session", simId);
       const runtime = ensureRuntime(simId);
+      recordClientMessage(simId, ctx.role, userId, parsed);
       const character = parsed.character as CharacterId | undefined;
       switch (parsed.commandType) {
         case "force_reply": {
@@ -369,17 +574,19 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
             typeof parsed.payload?.doctorUtterance === "string"
               ? parsed.payload.doctorUtterance.trim()
               : undefined;
-          handleForceReply(simId, parsed.userId, doctorUtterance, character);
+          handleForceReply(simId, userId, doctorUtterance, character);
           break;
         }
         case "order": {
           const orderType = typeof parsed.payload?.orderType === "string" ? parsed.payload.orderType : "vitals";
           const displayName = typeof parsed.payload?.displayName === "string" ? parsed.payload.displayName : "Unknown";
-          handleOrder(simId, orderType as any, {
-            id: parsed.userId,
-            name: displayName,
-            role: ctx.role as "presenter" | "participant",
-          });
+          handleOrder(
+            simId,
+            orderType as any,
+            actorFor(runtime, userId, ctx.role, { ...parsed.payload, displayName }),
+            undefined,
+            { panels: parsed.payload?.panels }
+          );
           break;
         }
         case "exam": {
@@ -389,12 +596,13 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
         }
         case "toggle_telemetry": {
           const enabled = parsed.payload?.enabled === true;
-          handleTelemetryToggle(simId, enabled);
+          toggleTelemetry(simId, runtime, enabled, sessionManager, broadcastUtils.broadcastSimState);
           break;
         }
         case "treatment": {
           const treatmentType = typeof parsed.payload?.treatmentType === "string" ? parsed.payload.treatmentType : undefined;
-          treatmentHandler.handleTreatment(simId, treatmentType, parsed.payload).catch((err) =>
+          const orderedBy = actorFor(runtime, userId, ctx.role, parsed.payload);
+          treatmentHandler.handleTreatment(simId, treatmentType, { ...parsed.payload, orderedBy }).catch((err) =>
             logError("[handleMessage] Treatment handler failed:", err)
           );
           break;
@@ -418,13 +626,14 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
             fallback: true,
             budget: runtime.cost.getState?.() ?? undefined,
           });
+          gatewayMetrics.fallbackActivations.inc({ reason: parsed.commandType });
           logEvent("voice.fallback_enabled", { sessionId: simId, reason: parsed.commandType });
           break;
         }
         case "resume_ai":
         case "unfreeze": {
           const budget = runtime.cost.getState?.();
-          if (budget?.usdEstimate !== undefined && budget.usdEstimate >= hardBudgetUsd) {
+          if (budget?.usdEstimate !== undefined && budget.usdEstimate >= runtime.cost.getLimits().hardUsd) {
             log("[budget] resume blocked; hard limit reached", simId);
             fireAndForget(logSimEvent(simId, {
               type: "budget.resume_blocked",
@@ -441,12 +650,10 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
           }
 
           // Recreate realtime client if it was closed due to fallback.
-          if (!runtime.realtime && realtimeApiKey) {
-            runtime.realtime = new RealtimePatientClient({
+          if (!runtime.realtime) {
+            runtime.realtime = getAIProvider().createRealtimeSession({
               simId,
-              model: realtimeModel,
-              apiKey: realtimeApiKey,
-              systemPrompt: buildSystemPrompt(runtime.scenarioEngine.getState().scenarioId as PatientScenarioId),
+              systemPrompt: buildSystemPrompt(runtime.scenarioEngine.getState().scenarioId),
               onAudioOut: (buf) => {
                 // Send audio to all participants so students hear the patient
                 sessionManager.broadcastToSession(simId, {
@@ -479,18 +686,8 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
                 });
                 handleToolIntent(simId, intent);
               },
-              onUsage: (usage) => {
-                runtime.cost.addUsage({
-                  inputTokens: usage.inputTokens ?? 0,
-                  outputTokens: usage.outputTokens ?? 0,
-                });
-                broadcastUtils.broadcastSimState(simId, {
-                  ...runtime.scenarioEngine.getState(),
-                  stageIds: runtime.scenarioEngine.getStageIds(),
-                  budget: runtime.cost.getState(),
-                });
-              },
               onDisconnect: () => {
+                gatewayMetrics.fallbackActivations.inc({ reason: "realtime_disconnect" });
                 runtime.fallback = true;
                 sessionManager.setFallback(simId, true);
                 runtime.scenarioEngine.setFallback(true);
@@ -504,8 +701,8 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
                   state: "error",
                 });
               },
-            });
-            runtime.realtime.connect();
+            }) ?? undefined;
+            runtime.realtime?.connect();
           }
 
           runtime.fallback = false;
@@ -788,6 +985,11 @@ async function handleMessage(ws: WebSocket, ctx: ClientContext, raw: WebSocket.R
 }
 
 function main() {
+  const { scenarios, errors } = loadScenarios();
+  if (scenarios.length === 0) {
+    throw new Error("No valid scenario files found; check the scenarios directory and SCENARIO_DIR");
+  }
+  log("[scenarios] loaded", scenarios.length, "scenarios", errors.length ? `(${errors.length} rejected)` : "");
   createTransport({
     port: PORT,
     handleMessage,
@@ -795,12 +997,28 @@ function main() {
     log,
     logError,
     logEvent,
+    handleHttpRequest: adminApi.handleAdminRequest,
   });
+  fireAndForget(spendLedger.load(), "spendLedger.load");
+  setInterval(() => fireAndForget(spendLedger.flush(), "spendLedger.flush"), spendFlushMs).unref();
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+  process.once("SIGINT", () => shutdown("SIGINT"));
+}
+
+/** Persist unflushed spend before the process exits */
+async function shutdown(signal: string) {
+  log(`[shutdown] ${signal} received; flushing spend ledger`);
+  try {
+    await spendLedger.flush();
+  } catch (err) {
+    logError("[shutdown] spend ledger flush failed", err);
+  }
+  process.exit(0);
 }
 
 async function handleForceReply(sessionId: string, userId: string, doctorUtterance?: string, character?: CharacterId) {
   const routedCharacter = character ?? chooseCharacter(doctorUtterance);
-  const openai = getOpenAIClient();
+  const aiProvider = getAIProvider();
   const runtime = ensureRuntime(sessionId);
   const latestOrderSummary = (() => {
     const completed = (runtime.scenarioEngine.getState().orders ?? []).filter((o) => o.status === "complete");
@@ -816,10 +1034,11 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
   })();
   // Characters that use AI: patient and nurse. Others use stub responses.
   const aiCharacters: CharacterId[] = ["patient", "nurse"];
-  const useAI = openai && aiCharacters.includes(routedCharacter);
+  const aiAvailable = aiProvider.isAvailable();
+  const useAI = aiAvailable && aiCharacters.includes(routedCharacter);
 
   if (!useAI) {
-    log(openai ? `force_reply stub (${routedCharacter})` : "OPENAI_API_KEY not set; using stub response");
+    log(aiAvailable ? `force_reply stub (${routedCharacter})` : "AI provider unavailable; using stub response");
     const response = respondForCharacter(routedCharacter, doctorUtterance, latestOrderSummary);
     const text = response.text;
     const action = response.action;
@@ -855,7 +1074,7 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
     const voice = CHARACTER_VOICES[routedCharacter];
     log("TTS for non-patient", routedCharacter, "voice:", voice, "text:", text.slice(0, 50));
     try {
-      const audioBuffer = await synthesizePatientAudio(text, voice);
+      const audioBuffer = await synthesizePatientAudio(text, voice, sessionId);
       if (audioBuffer) {
         log("TTS audio generated", routedCharacter, "bytes:", audioBuffer.length);
         // Send audio to all participants so students hear the patient/nurse
@@ -914,12 +1133,17 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
       character: routedCharacter,
     });
 
-    const messages = engine.getHistory();
     let fullText = "";
+    const context = {
+      character: routedCharacter,
+      patientCase: engine.getCase(),
+      utterance: doctorUtterance,
+      orderSummary: latestOrderSummary,
+    };
 
     const stream =
       routedCharacter === "patient"
-        ? await openai.chat.completions.create({
+        ? aiProvider.streamChat({
             model: MODEL,
             messages:
               (() => {
@@ -940,21 +1164,22 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
                 return [
                   ...base,
                   {
-                    role: "user",
+                    role: "user" as const,
                     content: `Recent orders:\n${orderSummaryArr.join(
                       "\n"
                     )}\nUse the latest result if it helps answer. Question: ${doctorPrompt}`,
                   },
                 ];
               })(),
-            stream: true,
+            context,
+            sessionId,
           })
-        : await openai.chat.completions.create({
+        : aiProvider.streamChat({
             model: MODEL,
             messages: [
               personaPrompt,
               {
-                role: "user",
+                role: "user" as const,
                 content: `Recent orders:\n${
                   (runtime.scenarioEngine.getState().orders ?? [])
                     .filter((o) => o.status === "complete" && o.result?.summary)
@@ -964,12 +1189,11 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
                 }\nQuestion: ${doctorPrompt}`,
               },
             ],
-            stream: true,
+            context,
+            sessionId,
           });
 
-    for await (const part of stream) {
-      const delta = part.choices?.[0]?.delta?.content;
-      if (!delta) continue;
+    for await (const delta of stream) {
       fullText += delta;
       sessionManager.broadcastToSession(sessionId, {
         type: "patient_transcript_delta",
@@ -983,7 +1207,7 @@ async function handleForceReply(sessionId: string, userId: string, doctorUtteran
     engine.appendPatientTurn(finalText);
 
     const audioBuffer = await withRetry(
-      () => timed("tts.synthesize", () => synthesizePatientAudio(finalText, CHARACTER_VOICES[routedCharacter])),
+      () => timed("tts.synthesize", () => synthesizePatientAudio(finalText, CHARACTER_VOICES[routedCharacter], sessionId)),
       { label: "tts", attempts: 2, delayMs: 150 },
       sessionId
     );
@@ -1051,6 +1275,7 @@ async function attemptRealtimeReconnect(
   }
 
   const delay = baseDelayMs * Math.pow(2, attempt - 1);
+  gatewayMetrics.reconnects.inc({ kind: "realtime" });
   log(`[realtime] Reconnection attempt ${attempt}/${maxAttempts} in ${delay}ms`, sessionId);
 
   await new Promise((resolve) => setTimeout(resolve, delay));
@@ -1064,10 +1289,8 @@ async function attemptRealtimeReconnect(
 
   try {
     // Create new realtime client
-    const newClient = new RealtimePatientClient({
+    const newClient = getAIProvider().createRealtimeSession({
       simId: sessionId,
-      model: realtimeModel,
-      apiKey: realtimeApiKey,
       systemPrompt: buildSystemPrompt(scenarioId as any),
       onAudioOut: (buf) => {
         sessionManager.broadcastToSession(sessionId, {
@@ -1100,18 +1323,8 @@ async function attemptRealtimeReconnect(
         });
         handleToolIntent(sessionId, intent);
       },
-      onUsage: (usage) => {
-        runtime.cost.addUsage({
-          inputTokens: usage.inputTokens ?? 0,
-          outputTokens: usage.outputTokens ?? 0,
-        });
-        broadcastUtils.broadcastSimState(sessionId, {
-          ...runtime.scenarioEngine.getState(),
-          stageIds: runtime.scenarioEngine.getStageIds(),
-          budget: runtime.cost.getState(),
-        });
-      },
       onDisconnect: () => {
+        gatewayMetrics.fallbackActivations.inc({ reason: "realtime_disconnect" });
         runtime.fallback = true;
         sessionManager.setFallback(sessionId, true);
         runtime.scenarioEngine.setFallback(true);
@@ -1129,7 +1342,11 @@ async function attemptRealtimeReconnect(
       },
     });
 
-    await newClient.connect();
+    if (!newClient) {
+      log(`[realtime] Provider has no realtime mode, aborting reconnect`, sessionId);
+      return;
+    }
+    newClient.connect();
 
     // Success! Replace old client and clear fallback
     runtime.realtime = newClient;
@@ -1160,10 +1377,16 @@ async function attemptRealtimeReconnect(
   }
 }
 
+function recordClientMessage(sessionId: string, role: ClientRole, userId: string, message: ClientToServerMessage) {
+  const runtime = runtimes.get(sessionId);
+  runtime?.recorder?.record({ kind: "client", t: runtime.scenarioEngine.now(), role, userId, message });
+}
+
 function ensureRuntime(sessionId: string): Runtime {
   const existing = runtimes.get(sessionId);
   if (existing) return existing;
   const scenarioId = getScenarioForSession(sessionId);
+  const seed = randomSeed();
   const runtime: Runtime = {
     fallback: false,
     scenarioEngine: new ScenarioEngine(sessionId, scenarioId),
@@ -1174,94 +1397,74 @@ function ensureRuntime(sessionId: string): Runtime {
       onSoftLimit: () => handleBudgetSoftLimit(sessionId),
       onHardLimit: () => handleBudgetHardLimit(sessionId),
     }),
+    rng: createSeededRandom(seed),
   };
-  if (realtimeApiKey) {
-    runtime.realtime = new RealtimePatientClient({
-      simId: sessionId,
-      model: realtimeModel,
-      apiKey: realtimeApiKey,
-      systemPrompt: buildSystemPrompt(scenarioId),
-      onAudioOut: (buf) => {
-        // Send audio to all participants so students hear the patient
-        sessionManager.broadcastToSession(sessionId, {
-          type: "patient_audio",
-          sessionId,
-          audioBase64: buf.toString("base64"),
-        });
-      },
-      onTranscriptDelta: (text, isFinal) => {
-        sessionManager.broadcastToSession(sessionId, {
-          type: "patient_transcript_delta",
-          sessionId,
-          text,
-        });
-        eventLog.append({
-          id: `${Date.now()}-${Math.random()}`,
-          ts: Date.now(),
-          simId: sessionId,
-          type: isFinal ? "scenario.state.diff" : "tool.intent.received",
-          payload: { text, final: isFinal },
-        });
-      },
-      onToolIntent: (intent) => {
-        eventLog.append({
-          id: `${Date.now()}-${Math.random()}`,
-          ts: Date.now(),
-          simId: sessionId,
-          type: "tool.intent.received",
-          payload: intent as any,
-        });
-        handleToolIntent(sessionId, intent);
-      },
-      onUsage: (usage) => {
-        runtime.cost.addUsage({
-          inputTokens: usage.inputTokens ?? 0,
-          outputTokens: usage.outputTokens ?? 0,
-        });
-        broadcastUtils.broadcastSimState(sessionId, {
-          ...runtime.scenarioEngine.getState(),
-          stageIds: runtime.scenarioEngine.getStageIds(),
-          budget: runtime.cost.getState(),
-        });
-      },
-      onDisconnect: () => {
-        // Mark as fallback temporarily
-        runtime.fallback = true;
-        sessionManager.setFallback(sessionId, true);
-        runtime.scenarioEngine.setFallback(true);
-        broadcastUtils.broadcastSimState(sessionId, {
-          ...runtime.scenarioEngine.getState(),
-          stageIds: runtime.scenarioEngine.getStageIds(),
-        });
-        sessionManager.broadcastToPresenters(sessionId, {
-          type: "patient_state",
-          sessionId,
-          state: "error",
-        });
-
-        // Attempt reconnection with exponential backoff
-        attemptRealtimeReconnect(sessionId, runtime, scenarioId, 1);
-      },
-    });
-    runtime.realtime.connect();
+  if (isSessionRecordingEnabled()) {
+    runtime.recorder = new SessionRecorder(sessionId, appendSessionRecording, (err) =>
+      logError("[recording] flush failed", err)
+    );
+    runtime.recorder.record({ kind: "start", t: runtime.scenarioEngine.now(), scenarioId, seed });
   }
+  runtime.realtime = getAIProvider().createRealtimeSession({
+    simId: sessionId,
+    systemPrompt: buildSystemPrompt(scenarioId),
+    onAudioOut: (buf) => {
+      // Send audio to all participants so students hear the patient
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_audio",
+        sessionId,
+        audioBase64: buf.toString("base64"),
+      });
+    },
+    onTranscriptDelta: (text, isFinal) => {
+      sessionManager.broadcastToSession(sessionId, {
+        type: "patient_transcript_delta",
+        sessionId,
+        text,
+      });
+      eventLog.append({
+        id: `${Date.now()}-${Math.random()}`,
+        ts: Date.now(),
+        simId: sessionId,
+        type: isFinal ? "scenario.state.diff" : "tool.intent.received",
+        payload: { text, final: isFinal },
+      });
+    },
+    onToolIntent: (intent) => {
+      eventLog.append({
+        id: `${Date.now()}-${Math.random()}`,
+        ts: Date.now(),
+        simId: sessionId,
+        type: "tool.intent.received",
+        payload: intent as any,
+      });
+      handleToolIntent(sessionId, intent);
+    },
+    onDisconnect: () => {
+      gatewayMetrics.fallbackActivations.inc({ reason: "realtime_disconnect" });
+      // Mark as fallback temporarily
+      runtime.fallback = true;
+      sessionManager.setFallback(sessionId, true);
+      runtime.scenarioEngine.setFallback(true);
+      broadcastUtils.broadcastSimState(sessionId, {
+        ...runtime.scenarioEngine.getState(),
+        stageIds: runtime.scenarioEngine.getStageIds(),
+      });
+      sessionManager.broadcastToPresenters(sessionId, {
+        type: "patient_state",
+        sessionId,
+        state: "error",
+      });
+
+      // Attempt reconnection with exponential backoff
+      attemptRealtimeReconnect(sessionId, runtime, scenarioId, 1);
+    },
+  }) ?? undefined;
+  runtime.realtime?.connect();
   runtimes.set(sessionId, runtime);
 
   // Initialize extended state for complex scenarios
-  const state = runtime.scenarioEngine.getState();
-  if (scenarioId === "teen_svt_complex_v1" && !state.extended) {
-    const svtExtended = createInitialSVTState(Date.now());
-    // Apply initial phase vitals
-    const presentationPhase = SVT_PHASES.find((p) => p.id === "presentation");
-    if (presentationPhase) {
-      runtime.scenarioEngine.hydrate({
-        vitals: presentationPhase.vitalsTarget,
-        exam: presentationPhase.examFindings,
-        rhythmSummary: presentationPhase.rhythmSummary,
-        extended: svtExtended,
-      });
-    }
-  }
+  initializeScenarioState(runtime, scenarioId);
 
   broadcastUtils.broadcastSimState(sessionId, {
     ...runtime.scenarioEngine.getState(),
@@ -1360,18 +1563,48 @@ function handleBudgetHardLimit(sessionId: string) {
   fireAndForget(logSimEvent(sessionId, { type: "budget.hard_limit" }), "logSimEvent:budget.hard_limit");
   console.warn("[budget] hard limit reached, switching to fallback", sessionId);
   logEvent("budget.hard_limit", { sessionId });
-  if (runtime) {
-    runtime.fallback = true;
-    runtime.scenarioEngine.setFallback(true);
-    runtime.realtime?.close();
-    runtime.realtime = undefined;
-    sessionManager.setFallback(sessionId, true);
-    broadcastUtils.broadcastSimState(sessionId, {
-      ...runtime.scenarioEngine.getState(),
-      stageIds: runtime.scenarioEngine.getStageIds(),
-      fallback: true,
-    });
-  }
+  gatewayMetrics.fallbackActivations.inc({ reason: "budget_hard_limit" });
+  if (runtime) switchToBudgetFallback(sessionId, runtime);
+}
+
+/** Close realtime voice and put the session in fallback */
+function switchToBudgetFallback(sessionId: string, runtime: Runtime) {
+  runtime.fallback = true;
+  runtime.scenarioEngine.setFallback(true);
+  runtime.realtime?.close();
+  runtime.realtime = undefined;
+  sessionManager.setFallback(sessionId, true);
+  broadcastUtils.broadcastSimState(sessionId, {
+    ...runtime.scenarioEngine.getState(),
+    stageIds: runtime.scenarioEngine.getStageIds(),
+    fallback: true,
+  });
+}
+
+/**
+ * Deployment spend cap reached: every session drops to fallback and the
+ * gateway serves from the offline provider, so nothing more is billed until
+ * the period rolls over.
+ */
+function handleSpendCapReached(period: SpendPeriod, state: SpendLedgerState) {
+  console.warn(`[budget] ${period} spend cap reached; switching the gateway to the offline provider`);
+  logEvent("budget.org_cap_reached", { period, dailyUsd: state.daily.usd, monthlyUsd: state.monthly.usd, ...state.caps });
+  setAIProvider(createOfflineProvider());
+  runtimes.forEach((runtime, sessionId) => {
+    fireAndForget(
+      logSimEvent(sessionId, { type: "budget.org_cap", payload: { period } }),
+      "logSimEvent:budget.org_cap"
+    );
+    gatewayMetrics.fallbackActivations.inc({ reason: "org_spend_cap" });
+    switchToBudgetFallback(sessionId, runtime);
+  });
+}
+
+/** Spend is under every cap again; sessions stay in fallback until a presenter resumes AI */
+function handleSpendCapCleared(state: SpendLedgerState) {
+  log("[budget] spend caps cleared; restoring the configured AI provider", state.day);
+  logEvent("budget.org_cap_cleared", { dailyUsd: state.daily.usd, monthlyUsd: state.monthly.usd, ...state.caps });
+  setAIProvider(createProvider(resolveProviderName()));
 }
 
 /**
@@ -1522,29 +1755,6 @@ function handleExamRequest(sessionId: string, examType?: string) {
   fireAndForget(logSimEvent(sessionId, { type: "exam.requested", payload: { maneuver: maneuver ?? "standard", orderType } }), "logSimEvent:exam.requested");
 }
 
-function handleTelemetryToggle(sessionId: string, enabled: boolean) {
-  const runtime = ensureRuntime(sessionId);
-  runtime.scenarioEngine.setTelemetry(enabled, runtime.scenarioEngine.getState().rhythmSummary);
-  const telemetryWaveform = enabled ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90) : [];
-  const telemetryHistory = runtime.scenarioEngine.getState().telemetryHistory ?? [];
-  broadcastUtils.broadcastSimState(sessionId, {
-    ...runtime.scenarioEngine.getState(),
-    stageIds: runtime.scenarioEngine.getStageIds(),
-    telemetry: enabled,
-    telemetryWaveform,
-    telemetryHistory,
-  });
-  if (enabled) {
-    sessionManager.broadcastToSession(sessionId, {
-      type: "patient_transcript_delta",
-      sessionId,
-      text: "Telemetry leads on. Live rhythm streaming.",
-      character: "tech",
-    });
-  }
-  fireAndForget(logSimEvent(sessionId, { type: "telemetry.toggle", payload: { enabled } }), "logSimEvent:telemetry.toggle");
-}
-
 function handleShowEkg(sessionId: string) {
   const runtime = ensureRuntime(sessionId);
   const ekgs = (runtime.scenarioEngine.getState().orders ?? []).filter((o) => o.type === "ekg" && o.status === "complete");
@@ -1552,7 +1762,7 @@ function handleShowEkg(sessionId: string) {
   const summary = latest?.result?.summary ?? runtime.scenarioEngine.getState().rhythmSummary ?? "Latest EKG ready to view.";
   const imageUrl = (latest?.result as any)?.imageUrl;
   const telemetryWaveform = runtime.scenarioEngine.getState().telemetry
-    ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90)
+    ? buildTelemetryWaveform(runtime.scenarioEngine.getState().vitals.hr ?? 90, runtime.scenarioEngine.getState().rhythm)
     : undefined;
   sessionManager.broadcastToSession(sessionId, {
     type: "patient_transcript_delta",
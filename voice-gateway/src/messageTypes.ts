@@ -1,8 +1,19 @@
+import type { Rhythm } from "./sim/rhythm";
+import type { ScenarioId } from "./sim/scenarioTypes";
+import type { LabPanelId, LabPanelResult } from "./sim/labTypes";
+import type { EchoReport } from "./sim/echoReports";
+import type { DefibAction, DefibActionParams, DefibrillatorState } from "./sim/defibrillator";
+import type { TeamActor, TeamMember, TeamRole } from "./sim/teamRoles";
+import type { ClosedLoopMetrics } from "./sim/closedLoop";
+import type { CostBreakdown } from "./sim/pricing";
+
 export type ClientRole = "presenter" | "participant";
 
+export type GatewayErrorCode = "unauthorized_token" | "presenter_not_authorized" | "command_forbidden" | "team_role_taken";
+
 export type CharacterId = "patient" | "parent" | "nurse" | "tech" | "consultant" | "imaging";
 
-export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
 
 export type OrderResult = {
   type: OrderType;
@@ -17,6 +28,42 @@ export type OrderResult = {
   abnormal?: string;
   nextAction?: string;
   rationale?: string;
+  /** Per-panel values with reference ranges and flags (labs orders) */
+  labs?: LabPanelResult[];
+  /** Structured report (echo orders) */
+  echo?: EchoReport;
+};
+
+export type AlarmId = "hrHigh" | "hrLow" | "spo2Low" | "sbpHigh" | "sbpLow" | "rrHigh" | "rrLow" | "tempHigh" | "tempLow";
+
+export type AlarmVital = "hr" | "spo2" | "sbp" | "rr" | "temp";
+
+/** IEC 60601-1-8 alarm priorities */
+export type AlarmPriority = "high" | "medium" | "low";
+
+export type AlarmStatus = "active" | "silenced" | "acknowledged" | "cleared";
+
+export type AlarmAction = "silence" | "acknowledge";
+
+/** Metronome reports from the code team: compressions started or paused, a rate sample, a compressor swap */
+export type CprEventKind = "start" | "pause" | "rate" | "swap";
+
+/** A monitor alarm as shown on the bedside monitor and recorded for debrief */
+export type MonitorAlarm = {
+  id: AlarmId;
+  vital: AlarmVital;
+  priority: AlarmPriority;
+  status: AlarmStatus;
+  message: string;
+  value: number;
+  limit: number;
+  raisedAt: number;
+  silencedUntil?: number;
+  acknowledgedAt?: number;
+  /** First silence or acknowledge; respondedAt - raisedAt is the alarm-response time */
+  respondedAt?: number;
+  respondedBy?: string;
+  clearedAt?: number;
 };
  
 
@@ -86,21 +133,41 @@ export type ClientToServerMessage =
       sessionId: string;
       userId: string;
       turns: DebriefTurn[];
+    }
+  | {
+      type: "alarm_action";
+      sessionId: string;
+      userId: string;
+      alarmId: AlarmId;
+      action: AlarmAction;
+    }
+  | {
+      type: "cpr_event";
+      sessionId: string;
+      userId: string;
+      event: CprEventKind;
+      /** Compressions per minute (rate events) */
+      rate?: number;
+    }
+  | ({
+      type: "defib_action";
+      sessionId: string;
+      userId: string;
+      action: DefibAction;
+    } & DefibActionParams)
+  | {
+      type: "team_role";
+      sessionId: string;
+      userId: string;
+      /** A code-team role, "auto" for the first open one, or null to step down */
+      teamRole: TeamRole | "auto" | null;
+      displayName?: string;
+      /** Presenter assigning someone else's role */
+      targetUserId?: string;
     };
 
-export type PatientScenarioId =
-  | "exertional_chest_pain"
-  | "syncope"
-  | "palpitations_svt"
-  | "myocarditis"
-  | "exertional_syncope_hcm"
-  | "ductal_shock"
-  | "cyanotic_spell"
-  | "kawasaki"
-  | "coarctation_shock"
-  | "arrhythmogenic_syncope"
-  | "teen_svt_complex_v1"
-  | "peds_myocarditis_silent_crash_v1";
+/** Any loaded scenario, built-in or from SCENARIO_DIR (validated against the registry) */
+export type PatientScenarioId = ScenarioId;
 
 export type DebriefTurn = {
   role: "doctor" | "patient";
@@ -159,6 +226,8 @@ export type ServerToClientMessage =
       strengths: string[];
       opportunities: string[];
       teachingPoints: string[];
+      /** Closed-loop communication on spoken orders, when any were given */
+      communication?: ClosedLoopMetrics;
     }
   | {
       type: "sim_state";
@@ -171,6 +240,7 @@ export type ServerToClientMessage =
       exam?: Record<string, string | undefined>;
       examAudio?: { type: "heart" | "lung"; label: string; url: string; stageId?: string }[];
       telemetry?: boolean;
+      rhythm?: Rhythm;
       rhythmSummary?: string;
       telemetryWaveform?: number[];
       findings?: string[];
@@ -182,11 +252,38 @@ export type ServerToClientMessage =
         voiceSeconds?: number;
         throttled?: boolean;
         fallback?: boolean;
+        breakdown?: CostBreakdown;
       };
-      orders?: { id: string; type: OrderType; status: "pending" | "complete"; result?: OrderResult; completedAt?: number }[];
+      orders?: {
+        id: string;
+        type: OrderType;
+        status: "pending" | "complete";
+        orderedBy?: TeamActor;
+        labPanels?: LabPanelId[];
+        result?: OrderResult;
+        completedAt?: number;
+      }[];
       ekgHistory?: { ts: number; summary: string; imageUrl?: string }[];
       telemetryHistory?: { ts: number; rhythm?: string; note?: string }[];
-      treatmentHistory?: { ts: number; treatmentType: string; note?: string }[];
+      treatmentHistory?: { ts: number; treatmentType: string; note?: string; orderedBy?: TeamActor }[];
+    }
+  | {
+      type: "alarm";
+      sessionId: string;
+      alarm: MonitorAlarm;
+    }
+  | {
+      type: "defib_state";
+      sessionId: string;
+      device: DefibrillatorState;
+      weightKg: number;
+      /** Device prompt for the last action ("Charge first.", "Energy changed - charge dumped.") */
+      prompt?: string;
+    }
+  | {
+      type: "team_roster";
+      sessionId: string;
+      members: TeamMember[];
     }
   | {
       type: "pong";
@@ -194,6 +291,10 @@ export type ServerToClientMessage =
   | {
       type: "error";
       message: string;
+      /** Machine-readable reason for permission failures */
+      code?: GatewayErrorCode;
+      /** The denied voice command or message type */
+      commandType?: string;
     }
   | {
       type: "voice_error";
@@ -205,7 +306,8 @@ export type ServerToClientMessage =
   | {
       type: "complex_debrief_result";
       sessionId: string;
-      scenarioId: "teen_svt_complex_v1" | "peds_myocarditis_silent_crash_v1";
+      /** A complex scenario, or a simple one scored against its rubric */
+      scenarioId: PatientScenarioId;
       summary: string;
       strengths: string[];
       opportunities: string[];
@@ -230,4 +332,5 @@ export type ServerToClientMessage =
         isBad?: boolean;
       }[];
       scenarioSpecificFeedback: string[];
+      communication?: ClosedLoopMetrics;
     };
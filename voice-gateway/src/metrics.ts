@@ -0,0 +1,246 @@
+/**
+ * Gateway Metrics
+ * A small in-process registry rendered in the Prometheus text exposition
+ * format at GET /metrics. Metric names and label names are a public contract
+ * for dashboards and alerts: add new metrics freely, but don't rename or
+ * relabel existing ones.
+ */
+
+import { performance } from "perf_hooks";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+// ============================================================================
+// Metric Kinds
+// ============================================================================
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelKey(labels: Labels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabel(labels[key])}"`)
+    .join(",");
+}
+
+function series(name: string, key: string, value: number): string {
+  return `${name}${key ? `{${key}}` : ""} ${Number.isFinite(value) ? value : value > 0 ? "+Inf" : "-Inf"}`;
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+export class Counter implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly labelNames: string[] = []) {}
+
+  inc(labels?: Labels, value = 1): void {
+    if (value < 0 || !Number.isFinite(value)) return;
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels?: Labels): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "counter");
+    // Unlabelled series are exported from the start so they exist before the first event
+    if (this.values.size === 0 && this.labelNames.length === 0) lines.push(series(this.name, "", 0));
+    this.values.forEach((value, key) => lines.push(series(this.name, key, value)));
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly labelNames: string[] = []) {}
+
+  set(value: number, labels?: Labels): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  get(labels?: Labels): number {
+    return this.values.get(labelKey(labels)) ?? 0;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "gauge");
+    // Unlabelled series are exported from the start so they exist before the first event
+    if (this.values.size === 0 && this.labelNames.length === 0) lines.push(series(this.name, "", 0));
+    this.values.forEach((value, key) => lines.push(series(this.name, key, value)));
+    return lines;
+  }
+}
+
+type HistogramSeries = { buckets: number[]; sum: number; count: number };
+
+export class Histogram implements Metric {
+  private values = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly bounds: number[]) {}
+
+  observe(value: number, labels?: Labels): void {
+    if (!Number.isFinite(value)) return;
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /** Time an async call in seconds; failures are observed too */
+  async time<T>(fn: () => Promise<T>, labels?: Labels): Promise<T> {
+    const start = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe((performance.now() - start) / 1000, labels);
+    }
+  }
+
+  getCount(labels?: Labels): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, "histogram");
+    this.values.forEach((entry, key) => {
+      const withLe = (le: string) => (key ? `${key},le="${le}"` : `le="${le}"`);
+      this.bounds.forEach((bound, i) => lines.push(series(`${this.name}_bucket`, withLe(String(bound)), entry.buckets[i])));
+      lines.push(series(`${this.name}_bucket`, withLe("+Inf"), entry.count));
+      lines.push(series(`${this.name}_sum`, key, entry.sum));
+      lines.push(series(`${this.name}_count`, key, entry.count));
+    });
+    return lines;
+  }
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.register(new Histogram(name, help, bounds));
+  }
+
+  /** Run before every scrape, e.g. to set gauges from live state */
+  onCollect(collect: () => void): void {
+    this.collectors.push(collect);
+  }
+
+  /** Prometheus text exposition (version 0.0.4) */
+  render(): string {
+    this.collectors.forEach((collect) => collect());
+    return this.metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) throw new Error(`Duplicate metric ${metric.name}`);
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// ============================================================================
+// Gateway Metrics
+// ============================================================================
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30];
+const ORDER_BUCKETS = [10, 30, 60, 120, 180, 300, 420, 600, 900];
+const LOCK_WAIT_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 5];
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const gatewayMetrics = {
+  activeSessions: metricsRegistry.gauge("voice_gateway_active_sessions", "Sessions with a live runtime"),
+  activeSockets: metricsRegistry.gauge("voice_gateway_active_sockets", "Joined WebSocket clients by role", ["role"]),
+  messagesIn: metricsRegistry.counter("voice_gateway_messages_in_total", "Client messages received by type", ["type"]),
+  messagesOut: metricsRegistry.counter("voice_gateway_messages_out_total", "Server messages sent to sockets by type", ["type"]),
+  sttLatency: metricsRegistry.histogram("voice_gateway_stt_latency_seconds", "Speech-to-text call latency", LATENCY_BUCKETS),
+  ttsLatency: metricsRegistry.histogram("voice_gateway_tts_latency_seconds", "Text-to-speech call latency", LATENCY_BUCKETS),
+  llmLatency: metricsRegistry.histogram("voice_gateway_llm_latency_seconds", "Chat completion latency by mode", LATENCY_BUCKETS),
+  fallbackActivations: metricsRegistry.counter(
+    "voice_gateway_fallback_activations_total",
+    "Sessions switched to fallback mode by reason",
+    ["reason"]
+  ),
+  budgetSpendUsd: metricsRegistry.counter("voice_gateway_budget_spend_usd_total", "Estimated model spend attributed to sessions in USD"),
+  orderCompletion: metricsRegistry.histogram(
+    "voice_gateway_order_completion_seconds",
+    "Time from order to result by order type",
+    ORDER_BUCKETS
+  ),
+  stateLockWait: metricsRegistry.histogram(
+    "voice_gateway_state_lock_wait_seconds",
+    "Time spent waiting for a session state lock",
+    LOCK_WAIT_BUCKETS
+  ),
+  reconnects: metricsRegistry.counter("voice_gateway_reconnects_total", "Reconnections by kind (client, realtime)", ["kind"]),
+  orgSpendUsd: metricsRegistry.gauge(
+    "voice_gateway_org_spend_usd",
+    "Deployment-wide model spend in the current UTC period (day, month)",
+    ["period"]
+  ),
+};
+
+// ============================================================================
+// Client Reconnects
+// ============================================================================
+
+/** How long after a disconnect a join from the same user counts as a reconnect */
+const RECONNECT_WINDOW_MS = 5 * 60_000;
+
+const recentDisconnects = new Map<string, number>();
+
+function pruneDisconnects(now: number) {
+  recentDisconnects.forEach((ts, key) => {
+    if (now - ts > RECONNECT_WINDOW_MS) recentDisconnects.delete(key);
+  });
+}
+
+export function noteClientDisconnect(sessionId: string, userId: string, now = Date.now()): void {
+  pruneDisconnects(now);
+  recentDisconnects.set(`${sessionId}:${userId}`, now);
+}
+
+/** Count a join as a client reconnect when the user dropped from the session recently */
+export function noteClientJoin(sessionId: string, userId: string, now = Date.now()): boolean {
+  pruneDisconnects(now);
+  const key = `${sessionId}:${userId}`;
+  if (!recentDisconnects.delete(key)) return false;
+  gatewayMetrics.reconnects.inc({ kind: "client" });
+  return true;
+}
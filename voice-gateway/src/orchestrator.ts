@@ -36,6 +36,7 @@ export function makeOrchestrator(opts: {
       ctx.joined = true;
       ctx.sessionId = parsed.sessionId;
       ctx.role = parsed.role;
+      ctx.userId = parsed.userId;
       sessionManager.addClient(parsed.sessionId, parsed.role, ws);
       send(ws, { type: "joined", sessionId: parsed.sessionId, role: parsed.role });
       logEvent("ws.join", { sessionId: parsed.sessionId, role: parsed.role, userId: parsed.userId });
@@ -69,7 +69,7 @@ export function getOrderResultTemplate(type: OrderType, scenario: PatientScenari
           ? "/images/ekg/ekg-ductal.png"
           : scenario === "cyanotic_spell"
           ? "/images/ekg/ekg-cyanotic.png"
-          : "/images/ekg/ekg-baseline.png",
+          : undefined, // the viewer synthesizes a 12-lead from the summary
       meta:
         isSVT
           ? isConverted
@@ -166,7 +166,7 @@ export function getOrderResultTemplate(type: OrderType, scenario: PatientScenari
           : undefined,
     };
   }
-  // Imaging fallback (CXR/echo)
+  // Imaging fallback (CXR)
   const isSVT = scenario === "palpitations_svt" || scenario === "teen_svt_complex_v1";
   const isMyocarditis = scenario === "myocarditis" || scenario === "peds_myocarditis_silent_crash_v1";
   const isDecomp = stageId?.includes("decomp") || stageId?.includes("crash");
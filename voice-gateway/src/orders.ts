@@ -2,24 +2,42 @@ import { getOrderResultTemplate } from "./orderTemplates";
 import { buildTelemetryWaveform } from "./telemetry";
 import { logSimEvent } from "./persistence";
 import { assetExists } from "./assetUtils";
-import { PatientScenarioId } from "./patientCase";
 import { SessionManager } from "./sessionManager";
 import { Runtime } from "./typesRuntime";
 import { OrderResult, CharacterId } from "./messageTypes";
-import { synthesizePatientAudio } from "./ttsClient";
+import { synthesizePatientAudio as synthesizeAudio } from "./ttsClient";
 import { log, logError } from "./logger";
+import { gatewayMetrics } from "./metrics";
 import { CHARACTER_VOICES } from "./voiceConfig";
+import { nextRandom, type SimRandom } from "./sim/simClock";
+import { getAgeMonths } from "./sim/ageNorms";
+import type { TeamRole } from "./sim/teamRoles";
+import { attributeToTeam } from "./codeTeam";
+import { buildEchoReport, summarizeEchoReport } from "./sim/echoReports";
+import type { ScenarioDef } from "./sim/scenarioTypes";
+import type { SimState } from "./sim/types";
+import {
+  DEFAULT_LAB_PANELS,
+  buildLabResults,
+  criticalLabValues,
+  describeLabPanels,
+  resolveLabPanels,
+  summarizeLabResults,
+  type LabPanelId,
+} from "./sim/labPanels";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+export type OrderType = "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
 
 export interface OrderedBy {
   id: string;
   name: string;
   role: "presenter" | "participant";
+  /** Code-team role of the person who ordered it, when roles are in use */
+  teamRole?: TeamRole;
 }
 
 export interface Order {
@@ -36,6 +54,8 @@ export interface Order {
     gauge: number;
     location: string;
   };
+  // Labs-specific: the panels drawn
+  labPanels?: LabPanelId[];
 }
 
 export type OrderDeps = {
@@ -43,29 +63,33 @@ export type OrderDeps = {
   sessionManager: SessionManager;
   broadcastSimState: (sessionId: string, state: any) => void;
   schedule?: (fn: () => void, ms: number) => any;
+  synthesizePatientAudio?: (text: string, voice: string, sessionId?: string) => Promise<Buffer | null>;
 };
 
 // ============================================================================
 // Timing Configuration
 // ============================================================================
 
-/** Get realistic delay for order type (in ms) */
-function getOrderDelay(orderType: OrderType): number {
+/** Get realistic delay for order type (in ms), drawn from the session RNG */
+function getOrderDelay(orderType: OrderType, rng?: SimRandom): number {
   switch (orderType) {
     case "vitals":
       return 1500; // Quick reassessment
     case "ekg":
       // 90-120 seconds (realistic time to get machine, place leads)
-      return 90_000 + Math.floor(Math.random() * 30_000);
+      return 90_000 + Math.floor(nextRandom(rng) * 30_000);
     case "imaging":
       // 180-240 seconds (3-4 minutes for portable CXR)
-      return 180_000 + Math.floor(Math.random() * 60_000);
+      return 180_000 + Math.floor(nextRandom(rng) * 60_000);
     case "labs":
       // 2-3 minutes for draw + send
-      return 120_000 + Math.floor(Math.random() * 60_000);
+      return 120_000 + Math.floor(nextRandom(rng) * 60_000);
+    case "echo":
+      // 5-7 minutes (page the echo tech, bring the machine, limited study)
+      return 300_000 + Math.floor(nextRandom(rng) * 120_000);
     case "iv_access":
       // 45-75 seconds (find vein, prep site, place catheter)
-      return 45_000 + Math.floor(Math.random() * 30_000);
+      return 45_000 + Math.floor(nextRandom(rng) * 30_000);
     case "cardiac_exam":
     case "lung_exam":
     case "general_exam":
@@ -76,12 +100,17 @@ function getOrderDelay(orderType: OrderType): number {
 }
 
 /** Get nurse acknowledgment message with ETA */
-function getNurseAcknowledgment(orderType: OrderType): string {
+function getNurseAcknowledgment(orderType: OrderType, labPanels?: LabPanelId[]): string {
+  if (orderType === "labs" && labPanels && labPanels.length < DEFAULT_LAB_PANELS.length) {
+    return `Sending ${describeLabPanels(labPanels)} now. Results in a few minutes.`;
+  }
   switch (orderType) {
     case "ekg":
       return "Yes, Doctor. I'll get the EKG machine. Should have it for you in a couple minutes.";
     case "imaging":
       return "X-ray ordered. Tech says about 3-4 minutes for portable.";
+    case "echo":
+      return "Paging the echo tech for a bedside echo. About 5-7 minutes.";
     case "labs":
       return "Drawing labs now. Results in about 10-15 minutes.";
     case "vitals":
@@ -106,6 +135,8 @@ function getStillWorkingMessage(orderType: OrderType): string {
       return "X-ray tech is still setting up. Almost ready.";
     case "labs":
       return "Labs were just sent. Still waiting on results.";
+    case "echo":
+      return "Echo tech is on the way with the machine.";
     case "iv_access":
       return "Still working on the IV. Almost got it.";
     default:
@@ -117,21 +148,31 @@ function getStillWorkingMessage(orderType: OrderType): string {
 // Pending Order Tracking (per session)
 // ============================================================================
 
-const pendingOrders = new Map<string, Map<OrderType, { orderId: string; timerId: any }>>();
+// Keyed by order type; labs are keyed per panel ("labs:troponin") so different panels can be in flight together
+const pendingOrders = new Map<string, Map<string, { orderId: string; timerId: any }>>();
 
-function getPendingOrder(sessionId: string, orderType: OrderType): { orderId: string; timerId: any } | undefined {
-  return pendingOrders.get(sessionId)?.get(orderType);
+function pendingKeys(orderType: OrderType, labPanels?: LabPanelId[]): string[] {
+  return orderType === "labs" ? (labPanels ?? DEFAULT_LAB_PANELS).map((panel) => `labs:${panel}`) : [orderType];
 }
 
-function setPendingOrder(sessionId: string, orderType: OrderType, orderId: string, timerId: any): void {
+function getPendingOrder(sessionId: string, keys: string[]): { orderId: string; timerId: any } | undefined {
+  const sessionPending = pendingOrders.get(sessionId);
+  return keys.map((key) => sessionPending?.get(key)).find(Boolean);
+}
+
+function setPendingOrder(sessionId: string, keys: string[], orderId: string, timerId: any): void {
   if (!pendingOrders.has(sessionId)) {
     pendingOrders.set(sessionId, new Map());
   }
-  pendingOrders.get(sessionId)!.set(orderType, { orderId, timerId });
+  for (const key of keys) {
+    pendingOrders.get(sessionId)!.set(key, { orderId, timerId });
+  }
 }
 
-function clearPendingOrder(sessionId: string, orderType: OrderType): void {
-  pendingOrders.get(sessionId)?.delete(orderType);
+function clearPendingOrder(sessionId: string, keys: string[]): void {
+  for (const key of keys) {
+    pendingOrders.get(sessionId)?.delete(key);
+  }
 }
 
 /** Clear all pending orders for a session (on disconnect) */
@@ -145,9 +186,9 @@ export function clearSessionPendingOrders(sessionId: string): void {
   }
 }
 
-/** Check if an order type is currently pending */
-export function hasPendingOrder(sessionId: string, orderType: OrderType): boolean {
-  return !!getPendingOrder(sessionId, orderType);
+/** Check if an order type (or, for labs, any of the given panels) is currently pending */
+export function hasPendingOrder(sessionId: string, orderType: OrderType, labPanels?: LabPanelId[]): boolean {
+  return !!getPendingOrder(sessionId, pendingKeys(orderType, labPanels));
 }
 
 /** Clear all pending orders (for testing) */
@@ -163,33 +204,67 @@ function makeOrder(
   type: OrderType,
   orderedBy: OrderedBy,
   delayMs: number,
-  ivParams?: { gauge: number; location: string }
+  now: number,
+  rng?: SimRandom,
+  ivParams?: { gauge: number; location: string },
+  labPanels?: LabPanelId[]
 ): Order {
-  const now = Date.now();
   return {
-    id: `order-${type}-${now}-${Math.random().toString(36).slice(2, 6)}`,
+    id: `order-${type}-${now}-${nextRandom(rng).toString(36).slice(2, 6)}`,
     type,
     status: "pending",
     orderedAt: now,
     orderedBy,
     expectedCompletionAt: now + delayMs,
     ivParams,
+    labPanels,
   };
 }
 
+/**
+ * Ids the scenario file's lab and echo profiles are keyed on: the stage, then
+ * the phase complex scenarios track in extended state (their stage never changes).
+ */
+function currentStepIds(state: Pick<SimState, "stageId" | "extended">): string[] {
+  const phase = state.extended && "phase" in state.extended ? state.extended.phase : undefined;
+  return phase ? [state.stageId, phase] : [state.stageId];
+}
+
+function echoResult(profile: ScenarioDef["echo"], stepIds: string[]): OrderResult {
+  const echo = buildEchoReport(profile, stepIds);
+  return { type: "echo", summary: summarizeEchoReport(echo), abnormal: echo.lvef < 55 ? `EF ${echo.lvef}%` : undefined, echo };
+}
+
 function resolveOrder(
   order: Order,
-  scenario: PatientScenarioId,
-  stageId?: string
+  scenario: Pick<ScenarioDef, "id" | "labs" | "echo">,
+  stepIds: string[],
+  ageMonths: number
 ): OrderResult {
-  const result = getOrderResultTemplate(order.type, scenario, stageId);
+  const result =
+    order.type === "echo"
+      ? echoResult(scenario.echo, stepIds)
+      : getOrderResultTemplate(order.type, scenario.id, stepIds[stepIds.length - 1]);
+  if (order.type === "labs") {
+    const labs = buildLabResults(order.labPanels ?? DEFAULT_LAB_PANELS, scenario.labs, stepIds, ageMonths);
+    result.labs = labs;
+    result.summary = summarizeLabResults(labs);
+    result.abnormal = criticalLabValues(labs);
+  }
   if ((order.type === "ekg" || order.type === "imaging") && (result as any).imageUrl) {
     const exists = assetExists((result as any).imageUrl as string);
     if (!exists) {
       (result as any).imageUrl = undefined;
-      (result as any).summary = `${(result as any).summary ?? "Result ready"} (image unavailable)`;
+      // A missing EKG image falls back to the synthesized 12-lead in the viewer
+      if (order.type === "imaging") {
+        (result as any).summary = `${(result as any).summary ?? "Result ready"} (image unavailable)`;
+      }
     }
   }
+  // Declared echo stills and loops are optional; keep only the ones shipped in public/
+  if (result.echo?.media) {
+    result.echo.media = result.echo.media.filter((m) => assetExists(m.url));
+  }
   (result as any).rationale =
     order.type === "ekg"
       ? "Ordered for rhythm/ischemia evaluation."
@@ -197,6 +272,8 @@ function resolveOrder(
       ? "Ordered to assess perfusion, inflammation, and metabolic status."
       : order.type === "imaging"
       ? "Ordered to assess cardiopulmonary status."
+      : order.type === "echo"
+      ? "Ordered to assess cardiac structure and function."
       : order.type.includes("exam")
       ? "Ordered for clinical assessment."
       : "Ordered to reassess vitals.";
@@ -218,19 +295,32 @@ export interface IVOrderParams {
   location?: string;
 }
 
+export interface LabOrderParams {
+  /** Panel ids or aliases ("cbc", "abg"); all panels when empty */
+  panels?: unknown;
+}
+
 export function createOrderHandler(deps: OrderDeps) {
-  const { ensureRuntime, sessionManager, broadcastSimState, schedule = setTimeout } = deps;
+  const {
+    ensureRuntime,
+    sessionManager,
+    broadcastSimState,
+    schedule = setTimeout,
+    synthesizePatientAudio = synthesizeAudio,
+  } = deps;
 
   return function handleOrder(
     sessionId: string,
     orderType: OrderType,
     orderedBy?: OrderedBy,
-    ivParams?: IVOrderParams
+    ivParams?: IVOrderParams,
+    labParams?: LabOrderParams
   ): HandleOrderResult {
     const runtime = ensureRuntime(sessionId);
+    const labPanels = orderType === "labs" ? resolveLabPanels(labParams?.panels) : undefined;
 
     // Check for duplicate pending order
-    if (hasPendingOrder(sessionId, orderType)) {
+    if (hasPendingOrder(sessionId, orderType, labPanels)) {
       const stillWorkingMsg = getStillWorkingMessage(orderType);
 
       // Broadcast "still working" message from nurse
@@ -245,15 +335,18 @@ export function createOrderHandler(deps: OrderDeps) {
     }
 
     // Calculate delay and create order
-    const delayMs = getOrderDelay(orderType);
+    const delayMs = getOrderDelay(orderType, runtime.rng);
     const resolvedIvParams = orderType === "iv_access"
       ? { gauge: ivParams?.gauge ?? 22, location: ivParams?.location ?? "right_ac" }
       : undefined;
     const newOrder = makeOrder(
       orderType,
-      orderedBy ?? { id: "system", name: "System", role: "presenter" },
+      attributeToTeam(runtime, orderedBy ?? { id: "system", name: "System", role: "presenter" }, "order", { kind: "order", orderType }),
       delayMs,
-      resolvedIvParams
+      runtime.scenarioEngine.now(),
+      runtime.rng,
+      resolvedIvParams,
+      labPanels
     );
 
     // Add to current orders and broadcast immediately
@@ -271,10 +364,11 @@ export function createOrderHandler(deps: OrderDeps) {
     });
 
     // Broadcast nurse acknowledgment (if not an exam) with TTS
-    const ackMessage = getNurseAcknowledgment(orderType);
+    const ackMessage = getNurseAcknowledgment(orderType, labPanels);
     if (ackMessage) {
       // IV orders come from nurse, other orders from tech/imaging
-      const character: CharacterId = orderType === "iv_access" ? "nurse" : orderType === "imaging" ? "imaging" : "tech";
+      const character: CharacterId =
+        orderType === "iv_access" ? "nurse" : orderType === "imaging" || orderType === "echo" ? "imaging" : "tech";
       sessionManager.broadcastToSession(sessionId, {
         type: "patient_state",
         sessionId,
@@ -289,7 +383,7 @@ export function createOrderHandler(deps: OrderDeps) {
       });
       // Generate TTS audio for the acknowledgment
       const voice = CHARACTER_VOICES[character];
-      synthesizePatientAudio(ackMessage, voice)
+      synthesizePatientAudio(ackMessage, voice, sessionId)
         .then((audioBuffer) => {
           if (audioBuffer) {
             sessionManager.broadcastToSession(sessionId, {
@@ -316,6 +410,7 @@ export function createOrderHandler(deps: OrderDeps) {
         orderId: newOrder.id,
         orderedBy: newOrder.orderedBy,
         expectedCompletionAt: newOrder.expectedCompletionAt,
+        ...(labPanels && { labPanels }),
       },
     }).catch(() => {});
 
@@ -325,7 +420,7 @@ export function createOrderHandler(deps: OrderDeps) {
     }, delayMs);
 
     // Track pending order
-    setPendingOrder(sessionId, orderType, newOrder.id, timerId);
+    setPendingOrder(sessionId, pendingKeys(orderType, labPanels), newOrder.id, timerId);
 
     return { success: true, message: ackMessage, order: newOrder };
   };
@@ -344,47 +439,45 @@ function completeOrder(
   broadcastSimState: (sessionId: string, state: any) => void
 ): void {
   // Clear pending tracking
-  clearPendingOrder(sessionId, order.type);
+  clearPendingOrder(sessionId, pendingKeys(order.type, order.labPanels));
+  const now = runtime.scenarioEngine.now();
+  runtime.recorder?.record({ kind: "timer", t: now, label: `order.${order.type}` });
+  gatewayMetrics.orderCompletion.observe((now - order.orderedAt) / 1000, { order_type: order.type });
 
   const state = runtime.scenarioEngine.getState();
-  const result = resolveOrder(order, state.scenarioId as PatientScenarioId, state.stageId);
+  const ageMonths = getAgeMonths(runtime.scenarioEngine.getDemographics());
+  const resolved = resolveOrder(order, runtime.scenarioEngine.getScenarioDef(), currentStepIds(state), ageMonths);
+  // EKGs keep the rate at acquisition so a tracing can be synthesized when there is no image
+  const result = order.type === "ekg" ? { ...resolved, hr: resolved.hr ?? state.vitals.hr } : resolved;
 
   // Update order in the snapshot we received
   const updatedOrders = ordersSnapshot.map((o) =>
     o.id === order.id
-      ? { ...o, status: "complete" as const, result, completedAt: Date.now() }
+      ? { ...o, status: "complete" as const, result, completedAt: now }
       : o
   );
 
   // Persist completed orders to scenarioEngine
   runtime.scenarioEngine.hydrate({ orders: updatedOrders });
 
-  // Handle EKG-specific updates
-  const stateRef: any = state;
+  // Handle EKG-specific updates: the read is kept in the EKG history and telemetry goes on
   let ekgHistory = state.ekgHistory;
   if (order.type === "ekg") {
     const ekgSummary = result.summary ?? "EKG complete.";
-    stateRef.telemetry = true;
-    stateRef.rhythmSummary = ekgSummary;
-    const entry = { ts: Date.now(), summary: ekgSummary, imageUrl: (result as any).imageUrl };
+    runtime.scenarioEngine.setTelemetry(true);
+    const entry = { ts: now, summary: ekgSummary, imageUrl: (result as any).imageUrl };
     ekgHistory = [...(state.ekgHistory ?? []), entry].slice(-3);
     runtime.scenarioEngine.setEkgHistory(ekgHistory);
   }
 
   // Build telemetry waveform if needed
-  const telemetryWaveform =
-    order.type === "ekg"
-      ? buildTelemetryWaveform(state.vitals.hr ?? 90)
-      : state.telemetry
-      ? buildTelemetryWaveform(state.vitals.hr ?? 90)
-      : undefined;
+  const current = runtime.scenarioEngine.getState();
+  const telemetryWaveform = current.telemetry ? buildTelemetryWaveform(current.vitals.hr ?? 90, current.rhythm) : undefined;
 
   // Broadcast updated state
   broadcastSimState(sessionId, {
-    ...state,
+    ...current,
     stageIds: runtime.scenarioEngine.getStageIds(),
-    telemetry: order.type === "ekg" ? true : state.telemetry,
-    rhythmSummary: order.type === "ekg" ? result.summary : state.rhythmSummary,
     telemetryWaveform,
     ekgHistory,
     orders: updatedOrders,
@@ -445,6 +538,26 @@ function completeOrder(
         character: "imaging",
       });
     }
+  } else if (order.type === "echo") {
+    const announcement = result.summary ? `Echo complete: ${result.summary}` : "Echo complete. The report is up.";
+    sessionManager.broadcastToSession(sessionId, {
+      type: "patient_state",
+      sessionId,
+      state: "speaking",
+      character: "imaging",
+    });
+    sessionManager.broadcastToSession(sessionId, {
+      type: "patient_transcript_delta",
+      sessionId,
+      text: announcement,
+      character: "imaging",
+    });
+    sessionManager.broadcastToSession(sessionId, {
+      type: "patient_state",
+      sessionId,
+      state: "idle",
+      character: "imaging",
+    });
   } else if (order.type === "labs") {
     const announcement =
       result?.summary && typeof result.summary === "string"
@@ -475,10 +588,10 @@ function completeOrder(
       runtime.scenarioEngine.updateExtended({
         ...ext,
         ivAccess: true,
-        ivAccessTs: Date.now(),
+        ivAccessTs: now,
         timelineEvents: [
           ...(ext.timelineEvents ?? []),
-          { ts: Date.now(), type: "intervention", description: `IV access established (${gauge}g ${locationDisplay})` },
+          { ts: now, type: "intervention", description: `IV access established (${gauge}g ${locationDisplay})` },
         ],
       });
     }
@@ -519,7 +632,7 @@ function completeOrder(
     payload: {
       orderId: order.id,
       result,
-      completedAt: Date.now(),
+      completedAt: now,
       orderedBy: order.orderedBy,
     },
   }).catch(() => {});
@@ -541,7 +654,7 @@ export function resumePendingOrders(
 ): void {
   const { ensureRuntime, sessionManager, broadcastSimState, schedule = setTimeout } = deps;
   const runtime = ensureRuntime(sessionId);
-  const now = Date.now();
+  const now = runtime.scenarioEngine.now();
 
   // Keep a mutable copy of orders that we update as we process
   let currentOrders = [...orders];
@@ -564,7 +677,7 @@ export function resumePendingOrders(
       const timerId = schedule(() => {
         completeOrder(sessionId, order, ordersAtScheduleTime, runtime, sessionManager, broadcastSimState);
       }, remaining);
-      setPendingOrder(sessionId, order.type, order.id, timerId);
+      setPendingOrder(sessionId, pendingKeys(order.type, order.labPanels), order.id, timerId);
     }
   }
 }
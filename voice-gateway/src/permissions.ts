@@ -0,0 +1,102 @@
+/**
+ * Gateway Permissions
+ * Presenter verification at join and the role matrices for voice commands and
+ * other presenter-only messages.
+ * Mirrors the Firestore rules: a presenter is the session's creator or an admin
+ * (custom claim admin=true). Denials are audit-logged to the session's events.
+ */
+
+import type { ClientRole, ClientToServerMessage } from "./messageTypes";
+import { loadSessionOwner, logSimEvent } from "./persistence";
+import { logEvent, logError } from "./logger";
+
+// ============================================================================
+// Command Matrix
+// ============================================================================
+
+export type VoiceCommandType = Extract<ClientToServerMessage, { type: "voice_command" }>["commandType"];
+
+const PRESENTER_ONLY: readonly ClientRole[] = ["presenter"];
+const ANY_ROLE: readonly ClientRole[] = ["presenter", "participant"];
+
+/** Roles allowed to send each voice command; participants get bedside actions only */
+export const COMMAND_PERMISSIONS: Record<VoiceCommandType, readonly ClientRole[]> = {
+  pause_ai: PRESENTER_ONLY,
+  resume_ai: PRESENTER_ONLY,
+  force_reply: PRESENTER_ONLY,
+  end_turn: PRESENTER_ONLY,
+  mute_user: PRESENTER_ONLY,
+  freeze: PRESENTER_ONLY,
+  unfreeze: PRESENTER_ONLY,
+  skip_stage: PRESENTER_ONLY,
+  scenario_event: PRESENTER_ONLY,
+  treatment: PRESENTER_ONLY,
+  order: ANY_ROLE,
+  exam: ANY_ROLE,
+  toggle_telemetry: ANY_ROLE,
+  show_ekg: ANY_ROLE,
+};
+
+export function isCommandAllowed(commandType: VoiceCommandType, role: ClientRole): boolean {
+  return COMMAND_PERMISSIONS[commandType]?.includes(role) ?? false;
+}
+
+export type ClientMessageType = ClientToServerMessage["type"];
+
+/** Roles allowed to send restricted message types; unlisted types are open to any joined client */
+export const MESSAGE_PERMISSIONS: Partial<Record<ClientMessageType, readonly ClientRole[]>> = {
+  set_scenario: PRESENTER_ONLY,
+  analyze_transcript: PRESENTER_ONLY,
+};
+
+export function isMessageAllowed(type: ClientMessageType, role: ClientRole): boolean {
+  return MESSAGE_PERMISSIONS[type]?.includes(role) ?? true;
+}
+
+// ============================================================================
+// Presenter Verification
+// ============================================================================
+
+export type PresenterCheck =
+  | { allowed: true; via: "owner" | "admin" }
+  | { allowed: false; reason: "not_session_owner" | "session_not_found" | "lookup_failed" };
+
+/**
+ * Confirm a presenter join: admin claim, or the uid that created the session.
+ * Fails closed when the session cannot be read.
+ */
+export async function verifyPresenter(
+  sessionId: string,
+  uid: string,
+  claims: Record<string, unknown>,
+  loadOwner: (sessionId: string) => Promise<string | null> = loadSessionOwner
+): Promise<PresenterCheck> {
+  if (claims.admin === true) return { allowed: true, via: "admin" };
+  try {
+    const owner = await loadOwner(sessionId);
+    if (!owner) return { allowed: false, reason: "session_not_found" };
+    return owner === uid ? { allowed: true, via: "owner" } : { allowed: false, reason: "not_session_owner" };
+  } catch (err) {
+    logError("Presenter verification failed", err);
+    return { allowed: false, reason: "lookup_failed" };
+  }
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+export type PermissionDenial = {
+  userId: string | null;
+  role: ClientRole;
+  reason: string;
+  commandType?: VoiceCommandType;
+  messageType?: ClientMessageType;
+};
+
+/** Structured log line plus a persisted session event for every denial */
+export function auditDenial(sessionId: string, denial: PermissionDenial) {
+  const type = denial.commandType || denial.messageType ? "audit.command.denied" : "audit.presenter.denied";
+  logEvent(type, { sessionId, ...denial });
+  logSimEvent(sessionId, { type, payload: denial }).catch(() => {});
+}
@@ -4,6 +4,8 @@ import { SimState } from "./sim/types";
 import { z } from "zod";
 import { validateExtendedState } from "./extendedStateValidators";
 import { log, logError } from "./logger";
+import type { SequencedEvent } from "./sessionRecorder";
+import type { SpendTotals } from "./spendLedger";
 
 type BudgetState = {
   usdEstimate?: number;
@@ -32,8 +34,19 @@ const stateCache: Map<
 
 const makeKey = (obj: any): string => JSON.stringify(obj);
 
+/** Set while replaying a recording so the replay never writes back to the session it reads */
+let readOnly = false;
+
+export function setPersistenceReadOnly(value: boolean) {
+  readOnly = value;
+}
+
+function getWritableFirestore() {
+  return readOnly ? null : getFirestore();
+}
+
 export async function persistSimState(simId: string, state: SimState & { budget?: BudgetState }) {
-  const db = getFirestore();
+  const db = getWritableFirestore();
   if (!db) return;
   const cache = stateCache.get(simId) ?? {};
   const vitalsKey = makeKey(state.vitals || {});
@@ -133,7 +146,7 @@ export type SimEvent = {
 };
 
 export async function logSimEvent(simId: string, event: SimEvent) {
-  const db = getFirestore();
+  const db = getWritableFirestore();
   if (!db) return;
   const colRef = db.collection("sessions").doc(simId).collection("events");
   await colRef.add({
@@ -144,6 +157,76 @@ export async function logSimEvent(simId: string, event: SimEvent) {
   });
 }
 
+/** Doc id for a recorded event; ids sort by run, then by sequence within the run */
+function recordingDocId(event: SequencedEvent): string {
+  return `${String(event.run).padStart(13, "0")}-${String(event.seq).padStart(9, "0")}`;
+}
+
+/** Append recorded events to sessions/{id}/recording */
+export async function appendSessionRecording(simId: string, events: SequencedEvent[]) {
+  const db = getWritableFirestore();
+  if (!db || events.length === 0) return;
+  const colRef = db.collection("sessions").doc(simId).collection("recording");
+  const batch = db.batch();
+  events.forEach((event) => batch.set(colRef.doc(recordingDocId(event)), event));
+  await batch.commit();
+}
+
+/** Add spend to spendLedger/{periodKey} (one doc per UTC day and month) */
+export async function incrementSpendTotals(deltas: Record<string, SpendTotals>) {
+  const db = getWritableFirestore();
+  if (!db) return;
+  const { increment, serverTimestamp } = admin.firestore.FieldValue;
+  const batch = db.batch();
+  Object.entries(deltas).forEach(([key, totals]) => {
+    const byModality = Object.fromEntries(Object.entries(totals.byModality).map(([m, usd]) => [m, increment(usd ?? 0)]));
+    batch.set(
+      db.collection("spendLedger").doc(key),
+      { usd: increment(totals.usd), byModality, updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  });
+  await batch.commit();
+}
+
+export async function loadSpendTotals(keys: string[]): Promise<Record<string, SpendTotals>> {
+  const db = getFirestore();
+  if (!db || keys.length === 0) return {};
+  const snaps = await db.getAll(...keys.map((key) => db.collection("spendLedger").doc(key)));
+  const totals: Record<string, SpendTotals> = {};
+  snaps.forEach((snap) => {
+    if (!snap.exists) return;
+    const data = snap.data() ?? {};
+    totals[snap.id] = {
+      usd: typeof data.usd === "number" ? data.usd : 0,
+      byModality: typeof data.byModality === "object" && data.byModality ? data.byModality : {},
+    };
+  });
+  return totals;
+}
+
+/** Every run recorded for the session, oldest first */
+export async function loadSessionRecording(simId: string): Promise<SequencedEvent[]> {
+  const db = getFirestore();
+  if (!db) return [];
+  const snap = await db
+    .collection("sessions")
+    .doc(simId)
+    .collection("recording")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .get();
+  return snap.docs.map((d) => d.data() as SequencedEvent);
+}
+
+/** The session's creator uid (sessions/{id}.createdBy), or null when unknown */
+export async function loadSessionOwner(simId: string): Promise<string | null> {
+  const db = getFirestore();
+  if (!db) return null;
+  const snap = await db.collection("sessions").doc(simId).get();
+  const createdBy = snap.exists ? snap.data()?.createdBy : undefined;
+  return typeof createdBy === "string" ? createdBy : null;
+}
+
 export async function loadSimState(simId: string): Promise<Partial<SimState> | null> {
   const db = getFirestore();
   if (!db) return null;
@@ -185,8 +268,9 @@ const persistedStateSchema = z
       .array(
         z.object({
           id: z.string(),
-          type: z.enum(["vitals", "ekg", "labs", "imaging", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
+          type: z.enum(["vitals", "ekg", "labs", "imaging", "echo", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
           status: z.enum(["pending", "complete"]),
+          labPanels: z.array(z.string()).optional(),
           result: z.record(z.any()).optional(),
           completedAt: z.number().optional(),
         })
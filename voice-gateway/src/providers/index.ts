@@ -0,0 +1,42 @@
+/**
+ * AI provider selection.
+ * AI_PROVIDER picks the implementation (openai | offline, default openai);
+ * everything that talks to a model goes through getAIProvider(), which times
+ * each call into the latency metrics.
+ */
+
+import { log } from "../logger";
+import { createOfflineProvider } from "./offlineProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { instrumentProvider } from "./instrumented";
+import { AI_PROVIDER_NAMES, type AIProvider, type AIProviderName } from "./types";
+
+export type { AIProvider, AIProviderName, ChatMessage, ChatRequest, RealtimeSession, RealtimeSessionOptions } from "./types";
+export { createOfflineProvider, createOpenAIProvider };
+
+let provider: AIProvider | null = null;
+
+export function resolveProviderName(env: NodeJS.ProcessEnv = process.env): AIProviderName {
+  const requested = env.AI_PROVIDER?.trim().toLowerCase();
+  if (!requested) return "openai";
+  if ((AI_PROVIDER_NAMES as readonly string[]).includes(requested)) return requested as AIProviderName;
+  log(`Unknown AI_PROVIDER "${env.AI_PROVIDER}"; using openai`);
+  return "openai";
+}
+
+export function createProvider(name: AIProviderName): AIProvider {
+  return name === "offline" ? createOfflineProvider() : createOpenAIProvider();
+}
+
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = instrumentProvider(createProvider(resolveProviderName()));
+    log(`AI provider: ${provider.name}`);
+  }
+  return provider;
+}
+
+/** Swap the provider (tests, or switching a running gateway to offline) */
+export function setAIProvider(next: AIProvider | null) {
+  provider = next && instrumentProvider(next);
+}
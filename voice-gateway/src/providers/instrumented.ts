@@ -0,0 +1,35 @@
+/**
+ * Instrumented Provider
+ * Wraps any AIProvider so every STT, TTS and chat call is timed into the
+ * gateway latency histograms (metrics.ts), labelled by provider. Streaming
+ * chat is timed from the request to the last chunk.
+ */
+
+import { performance } from "perf_hooks";
+import { gatewayMetrics } from "../metrics";
+import type { AIProvider, ChatRequest } from "./types";
+
+export function instrumentProvider(provider: AIProvider): AIProvider {
+  const labels = { provider: provider.name };
+
+  async function* streamChat(request: ChatRequest): AsyncIterable<string> {
+    const start = performance.now();
+    try {
+      yield* provider.streamChat(request);
+    } finally {
+      gatewayMetrics.llmLatency.observe((performance.now() - start) / 1000, { ...labels, mode: "stream" });
+    }
+  }
+
+  return {
+    name: provider.name,
+    isAvailable: () => provider.isAvailable(),
+    completeChat: (request) => gatewayMetrics.llmLatency.time(() => provider.completeChat(request), { ...labels, mode: "complete" }),
+    streamChat,
+    transcribe: (audio, contentType, sessionId) =>
+      gatewayMetrics.sttLatency.time(() => provider.transcribe(audio, contentType, sessionId), labels),
+    synthesizeSpeech: (text, voice, sessionId) =>
+      gatewayMetrics.ttsLatency.time(() => provider.synthesizeSpeech(text, voice, sessionId), labels),
+    createRealtimeSession: (options) => provider.createRealtimeSession(options),
+  };
+}
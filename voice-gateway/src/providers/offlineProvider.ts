@@ -0,0 +1,154 @@
+/**
+ * Offline Provider
+ * Deterministic, network-free stand-in for the model vendor so a full sim runs
+ * in rooms without connectivity and in tests. The patient answers from the
+ * scenario's PatientCase by keyword, other characters use the scripted replies
+ * from speechHelpers, transcription cycles through canned clinician questions,
+ * and speech is a quiet tone sized to the text. There is no realtime mode, so
+ * doctor audio takes the STT → chat → TTS path.
+ */
+
+import { Buffer } from "buffer";
+import { respondForCharacter } from "../speechHelpers";
+import type { PatientCase } from "../patientCase";
+import type { AIProvider, ChatRequest } from "./types";
+
+/** Questions returned, in order, for each transcription request */
+export const OFFLINE_TRANSCRIPTS = [
+  "Can you tell me what brought you in today?",
+  "When did this start?",
+  "Have you noticed any other symptoms?",
+  "Do you have any medical problems?",
+  "Do you take any medications?",
+  "Any allergies?",
+  "Does anyone in your family have heart problems?",
+] as const;
+
+const OFFLINE_DEBRIEF_SUMMARY = "Scripted offline debrief: AI feedback needs a network provider. Review the checklist and timeline.";
+
+// ============================================================================
+// Patient Answers
+// ============================================================================
+
+function listOrNone(items: string[], none: string): string {
+  return items.length > 0 ? items.join(", ") : none;
+}
+
+type AnswerRule = { pattern: RegExp; answer: (c: PatientCase) => string };
+
+/** First match wins; ordered from most to least specific */
+const PATIENT_ANSWERS: AnswerRule[] = [
+  { pattern: /allerg/, answer: (c) => `Allergies: ${listOrNone(c.allergies, "none that I know of")}.` },
+  {
+    pattern: /\bmedications?\b|\bmedicines?\b|\bmeds\b|pills|take anything/,
+    answer: (c) => `I take ${listOrNone(c.medications, "nothing regularly")}.`,
+  },
+  {
+    pattern: /family|mom|dad|parent|relative|sudden death/,
+    answer: (c) => `In my family: ${listOrNone(c.familyHistory, "nothing I know about")}.`,
+  },
+  {
+    pattern: /medical (problem|history|condition)|been sick|surger|hospital/,
+    answer: (c) => `Medical history: ${listOrNone(c.relevantPMH, "I've always been healthy")}.`,
+  },
+  { pattern: /when|start|began|how long|first notice/, answer: (c) => c.onset },
+  {
+    pattern: /other symptom|anything else|dizz|faint|breath|nause|sweat|pain/,
+    answer: (c) => `I've also had ${listOrNone(c.associatedSymptoms, "nothing else really")}.`,
+  },
+  {
+    pattern: /school|sport|smok|vape|drink|drug|caffeine|energy drink/,
+    answer: (c) => listOrNone(c.socialHistory, "Nothing unusual at home or school."),
+  },
+  { pattern: /name|how old|age/, answer: (c) => `I'm ${c.name}, I'm ${c.age}.` },
+];
+
+export function answerFromCase(patientCase: PatientCase, utterance: string): string {
+  const text = utterance.toLowerCase();
+  const rule = PATIENT_ANSWERS.find((r) => r.pattern.test(text));
+  return rule ? rule.answer(patientCase) : `It's mostly the ${patientCase.chiefComplaint.toLowerCase()}.`;
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  return [...request.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+function scriptedReply(request: ChatRequest): string {
+  if (request.responseFormat === "json") {
+    return JSON.stringify({ summary: OFFLINE_DEBRIEF_SUMMARY, strengths: [], opportunities: [], teachingPoints: [] });
+  }
+  const { character = "patient", patientCase, utterance, orderSummary } = request.context ?? {};
+  const question = utterance ?? lastUserMessage(request);
+  if (character === "patient" && patientCase) return answerFromCase(patientCase, question);
+  return respondForCharacter(character, utterance, orderSummary).text;
+}
+
+// ============================================================================
+// Audio
+// ============================================================================
+
+const SAMPLE_RATE = 16000;
+const TONE_HZ = 440;
+const TONE_AMPLITUDE = 0.05 * 0x7fff;
+
+/** 16-bit mono WAV of a soft tone, ~60 ms per word (0.3–4 s) */
+export function toneForText(text: string): Buffer {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const durationMs = Math.min(4000, Math.max(300, words * 60));
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const wav = Buffer.alloc(44 + samples * 2);
+  wav.write("RIFF", 0);
+  wav.writeUInt32LE(36 + samples * 2, 4);
+  wav.write("WAVE", 8);
+  wav.write("fmt ", 12);
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(SAMPLE_RATE, 24);
+  wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36);
+  wav.writeUInt32LE(samples * 2, 40);
+  for (let i = 0; i < samples; i++) {
+    wav.writeInt16LE(Math.round(Math.sin((2 * Math.PI * TONE_HZ * i) / SAMPLE_RATE) * TONE_AMPLITUDE), 44 + i * 2);
+  }
+  return wav;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export function createOfflineProvider(): AIProvider {
+  let transcriptIndex = 0;
+
+  return {
+    name: "offline",
+
+    isAvailable: () => true,
+
+    async completeChat(request) {
+      return scriptedReply(request);
+    },
+
+    async *streamChat(request) {
+      // Word-sized deltas, like a streamed completion
+      for (const word of scriptedReply(request).split(/(?<= )/)) {
+        yield word;
+      }
+    },
+
+    async transcribe() {
+      const text = OFFLINE_TRANSCRIPTS[transcriptIndex % OFFLINE_TRANSCRIPTS.length];
+      transcriptIndex += 1;
+      return text;
+    },
+
+    async synthesizeSpeech(text) {
+      return toneForText(text);
+    },
+
+    createRealtimeSession: () => null,
+  };
+}
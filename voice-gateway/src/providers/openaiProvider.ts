@@ -0,0 +1,130 @@
+/**
+ * OpenAI Provider
+ * Chat completions, Whisper transcription, TTS and the Realtime API.
+ * Unavailable (and every call a no-op) when OPENAI_API_KEY is not set.
+ * Every billed call reports its usage (usage.ts) for cost accounting.
+ */
+
+import { Buffer } from "buffer";
+import OpenAI from "openai";
+import { getOpenAIClient, MODEL } from "../openaiClient";
+import { RealtimePatientClient } from "../sim/realtimePatientClient";
+import { log, logError } from "../logger";
+import { reportUsage } from "./usage";
+import type { AIProvider, ChatRequest } from "./types";
+
+const STT_MODEL = process.env.OPENAI_STT_MODEL || "whisper-1";
+const TTS_MODEL = process.env.OPENAI_TTS_MODEL || "gpt-4o-mini-tts";
+const TTS_VOICE = process.env.OPENAI_TTS_VOICE || "alloy";
+const REALTIME_MODEL = process.env.OPENAI_REALTIME_MODEL || "gpt-4o-mini-realtime-preview";
+
+/** Whisper bills by audio length; browser uploads are ~32 kbps Opus */
+const STT_BYTES_PER_SECOND = 4000;
+
+function requireClient(): OpenAI {
+  const client = getOpenAIClient();
+  if (!client) throw new Error("OPENAI_API_KEY not set");
+  return client;
+}
+
+function reportChatUsage(
+  model: string,
+  sessionId: string | undefined,
+  usage: { prompt_tokens: number; completion_tokens: number } | undefined
+) {
+  if (!usage) return;
+  reportUsage({ modality: "chat", model, sessionId, inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens });
+}
+
+export function createOpenAIProvider(): AIProvider {
+  return {
+    name: "openai",
+
+    isAvailable: () => getOpenAIClient() !== null,
+
+    async completeChat(request: ChatRequest) {
+      const model = request.model ?? MODEL;
+      const completion = await requireClient().chat.completions.create({
+        model,
+        messages: request.messages,
+        ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+      });
+      reportChatUsage(model, request.sessionId, completion.usage);
+      return completion.choices?.[0]?.message?.content ?? "";
+    },
+
+    async *streamChat(request: ChatRequest) {
+      const model = request.model ?? MODEL;
+      const stream = await requireClient().chat.completions.create({
+        model,
+        messages: request.messages,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      for await (const part of stream) {
+        // The final chunk carries the usage and no choices
+        if (part.usage) reportChatUsage(model, request.sessionId, part.usage);
+        const delta = part.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    async transcribe(audio, contentType, sessionId) {
+      const client = getOpenAIClient();
+      if (!client) {
+        log("STT skipped: OPENAI_API_KEY not set");
+        return null;
+      }
+      try {
+        const extension = contentType.split("/")[1] || "webm";
+        const file = await OpenAI.toFile(audio, `doctor-audio.${extension}`);
+        const result = await client.audio.transcriptions.create({ file, model: STT_MODEL });
+        const audioSeconds = audio.byteLength / STT_BYTES_PER_SECOND;
+        reportUsage({ modality: "stt", model: STT_MODEL, sessionId, audioSeconds });
+        const text: string | undefined = (result as any)?.text;
+        if (!text) {
+          log("STT returned empty text");
+          return null;
+        }
+        return text;
+      } catch (err) {
+        logError("STT transcription failed", err);
+        return null;
+      }
+    },
+
+    async synthesizeSpeech(text, voice, sessionId) {
+      const client = getOpenAIClient();
+      if (!client) {
+        log("TTS skipped: OPENAI_API_KEY not set");
+        return null;
+      }
+      try {
+        const response = await client.audio.speech.create({
+          model: TTS_MODEL,
+          voice: voice || TTS_VOICE,
+          input: text,
+        });
+        reportUsage({ modality: "tts", model: TTS_MODEL, sessionId, characters: text.length });
+        return Buffer.from(await response.arrayBuffer());
+      } catch (err) {
+        logError("TTS synthesis failed", err);
+        return null;
+      }
+    },
+
+    createRealtimeSession(options) {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) return null;
+      return new RealtimePatientClient({
+        ...options,
+        model: REALTIME_MODEL,
+        apiKey,
+        onUsage: (usage) => {
+          reportUsage({ modality: "realtime", model: REALTIME_MODEL, sessionId: options.simId, ...usage });
+          options.onUsage?.(usage);
+        },
+      });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * AI Provider Types
+ * One interface for everything the gateway asks of a model vendor: chat
+ * completion (patient/nurse replies, debriefs), speech-to-text, text-to-speech
+ * and realtime voice sessions. Implementations live alongside this file.
+ */
+
+import type { Buffer } from "buffer";
+import type { CharacterId } from "../messageTypes";
+import type { PatientCase } from "../patientCase";
+import type { ToolIntent } from "../sim/types";
+import type { RealtimeUsage } from "../sim/realtimePatientClient";
+
+export const AI_PROVIDER_NAMES = ["openai", "offline"] as const;
+
+export type AIProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  /** Vendor model id; providers fall back to their default */
+  model?: string;
+  responseFormat?: "text" | "json";
+  /** Session the call is billed to */
+  sessionId?: string;
+  /** Structured context for providers that answer without reading the prompt */
+  context?: {
+    character?: CharacterId;
+    patientCase?: PatientCase;
+    /** The clinician's question, unwrapped from prompt scaffolding */
+    utterance?: string;
+    orderSummary?: string;
+  };
+};
+
+export type RealtimeSessionOptions = {
+  simId: string;
+  systemPrompt: string;
+  voice?: string;
+  onAudioOut: (buf: Buffer) => void;
+  onTranscriptDelta: (text: string, isFinal: boolean) => void;
+  onToolIntent: (intent: ToolIntent) => void;
+  onDisconnect?: () => void;
+  onUsage?: (usage: RealtimeUsage) => void;
+};
+
+/** A live speech-to-speech patient session */
+export interface RealtimeSession {
+  connect(): void;
+  sendAudioChunk(buf: Buffer): void;
+  commitAudio(): void;
+  cancelResponse(): void;
+  close(): void;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  /** False when the provider cannot serve requests (e.g. OpenAI without an API key) */
+  isAvailable(): boolean;
+  /** Full completion text; throws on vendor errors */
+  completeChat(request: ChatRequest): Promise<string>;
+  /** Completion text as it is generated; throws on vendor errors */
+  streamChat(request: ChatRequest): AsyncIterable<string>;
+  /** Transcript, or null when nothing usable came back; sessionId is the session billed */
+  transcribe(audio: Buffer, contentType: string, sessionId?: string): Promise<string | null>;
+  /** Encoded audio, or null when synthesis is unavailable or failed; sessionId is the session billed */
+  synthesizeSpeech(text: string, voice?: string, sessionId?: string): Promise<Buffer | null>;
+  /** Null when the provider has no realtime mode; callers use STT → chat → TTS instead */
+  createRealtimeSession(options: RealtimeSessionOptions): RealtimeSession | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Provider Usage
+ * Providers report what each call consumed (tokens, audio seconds,
+ * characters) here; the gateway prices it into the calling session's budget
+ * and the deployment's spend ledger. Calls made outside a session (e.g. a
+ * startup health check) arrive without a sessionId.
+ */
+
+import type { UsageRecord } from "../sim/pricing";
+
+export type ProviderUsage = UsageRecord & { sessionId?: string };
+
+type UsageListener = (usage: ProviderUsage) => void;
+
+let listener: UsageListener | null = null;
+
+/** Register the gateway's usage sink; replaces any previous listener */
+export function onProviderUsage(next: UsageListener | null): void {
+  listener = next;
+}
+
+export function reportUsage(usage: ProviderUsage): void {
+  listener?.(usage);
+}
@@ -1,5 +1,6 @@
 import WebSocket from "ws";
 import { ServerToClientMessage } from "./messageTypes";
+import { gatewayMetrics } from "./metrics";
 
 type SessionSockets = {
   presenters: Set<WebSocket>;
@@ -8,6 +9,9 @@ type SessionSockets = {
   fallback: boolean;
 };
 
+/** WebSocket close code sent when a session is ended from the admin API */
+export const SESSION_CLOSED_CODE = 4000;
+
 export class SessionManager {
   private sessions: Map<string, SessionSockets> = new Map();
   private onSessionEmptyCallback?: (sessionId: string) => void;
@@ -52,6 +56,37 @@ export class SessionManager {
     }
   }
 
+  /** Connected sockets per role, or null when nobody is connected */
+  getClientCounts(sessionId: string): { presenters: number; participants: number } | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+    return { presenters: session.presenters.size, participants: session.participants.size };
+  }
+
+  /** Connected sockets per role across all sessions */
+  getSocketCounts(): { presenters: number; participants: number } {
+    let presenters = 0;
+    let participants = 0;
+    this.sessions.forEach((session) => {
+      presenters += session.presenters.size;
+      participants += session.participants.size;
+    });
+    return { presenters, participants };
+  }
+
+  /**
+   * Drop every client in the session (admin force-end). Runs the session-empty
+   * callback before closing the sockets; returns false when nobody was connected.
+   */
+  closeSession(sessionId: string, reason = "Session ended"): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    this.sessions.delete(sessionId);
+    this.onSessionEmptyCallback?.(sessionId);
+    [...session.presenters, ...session.participants].forEach((sock) => sock.close(SESSION_CLOSED_CODE, reason));
+    return true;
+  }
+
   requestFloor(sessionId: string, userId: string): { granted: boolean; previous?: string } {
     const session = this.ensureSession(sessionId);
     if (!session.floorHolder || session.floorHolder === userId) {
@@ -89,6 +124,7 @@ export class SessionManager {
     [...session.presenters, ...session.participants].forEach((sock) => {
       if (sock.readyState === WebSocket.OPEN) {
         sock.send(payload);
+        gatewayMetrics.messagesOut.inc({ type: msg.type });
       }
     });
   }
@@ -98,7 +134,10 @@ export class SessionManager {
     if (!session) return;
     const payload = JSON.stringify(msg);
     session.presenters.forEach((sock) => {
-      if (sock.readyState === WebSocket.OPEN) sock.send(payload);
+      if (sock.readyState === WebSocket.OPEN) {
+        sock.send(payload);
+        gatewayMetrics.messagesOut.inc({ type: msg.type });
+      }
     });
   }
 
@@ -107,7 +146,10 @@ export class SessionManager {
     if (!session) return;
     const payload = JSON.stringify(msg);
     session.participants.forEach((sock) => {
-      if (sock.readyState === WebSocket.OPEN) sock.send(payload);
+      if (sock.readyState === WebSocket.OPEN) {
+        sock.send(payload);
+        gatewayMetrics.messagesOut.inc({ type: msg.type });
+      }
     });
   }
 }
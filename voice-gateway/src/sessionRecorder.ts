@@ -0,0 +1,120 @@
+/**
+ * Session Recorder
+ * Records everything that drives a session's simulation (inbound client messages
+ * with the verified sender, heartbeat ticks, timer firings), stamped with session
+ * time, so the run can be replayed headlessly (see sessionReplay.ts). Outbound
+ * sim_state is sampled: every stage change, at most one per STATE_SAMPLE_MS in
+ * between, and always the latest one. Voice commands are recorded once they
+ * pass the command cooldown. Recording is opt-in (SESSION_RECORDING=true).
+ */
+
+import type { ClientRole, ClientToServerMessage } from "./messageTypes";
+import type { ScenarioId } from "./sim/scenarioTypes";
+import type { SimStatePayload } from "./state/broadcastUtils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecordedEvent =
+  /** Runtime created: the scenario and the session RNG seed */
+  | { kind: "start"; t: number; scenarioId: ScenarioId; seed: number }
+  /** `userId` is the authenticated sender; the message's own userId is client-supplied */
+  | { kind: "client"; t: number; role: ClientRole; userId?: string; message: ClientToServerMessage }
+  | { kind: "tick"; t: number }
+  /** A scheduled callback ran (order completion, treatment effect decay) */
+  | { kind: "timer"; t: number; label: string }
+  | { kind: "sim_state"; t: number; state: SimStatePayload };
+
+/**
+ * `run` identifies the runtime that recorded the event (its start time, ms), so
+ * the runs of a session that emptied or was reset never share a sequence number.
+ */
+export type SequencedEvent = RecordedEvent & { run: number; seq: number };
+
+export type RecordingSink = (sessionId: string, events: SequencedEvent[]) => Promise<void>;
+
+/** Buffered events are written once this many pile up, or this long (session time) after the last write */
+const FLUSH_THRESHOLD = 200;
+const FLUSH_INTERVAL_MS = 30_000;
+
+/** Between stage changes, a broadcast sim_state is kept at most this often */
+const STATE_SAMPLE_MS = 15_000;
+
+// ============================================================================
+// Recorder
+// ============================================================================
+
+/** Strip credentials, raw audio and derived waveforms before anything is stored */
+function sanitizeEvent(event: RecordedEvent): RecordedEvent {
+  if (event.kind === "client" && event.message.type === "doctor_audio") {
+    return { ...event, message: { ...event.message, audioBase64: "" } };
+  }
+  if (event.kind === "client" && event.message.type === "join") {
+    const { authToken: _authToken, ...message } = event.message;
+    return { ...event, message };
+  }
+  if (event.kind === "sim_state") {
+    const { telemetryWaveform: _waveform, ...state } = event.state;
+    return { ...event, state };
+  }
+  return event;
+}
+
+type SimStateEvent = Extract<RecordedEvent, { kind: "sim_state" }>;
+
+export class SessionRecorder {
+  private seq = 0;
+  private buffer: SequencedEvent[] = [];
+  /** Newest sim_state not kept by sampling; written on flush unless a later one is kept first */
+  private latestState: SequencedEvent | null = null;
+  private lastKeptState: { t: number; stageId: string } | null = null;
+  private flushedAt: number | null = null;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly sink: RecordingSink,
+    private readonly onError: (err: unknown) => void = () => {},
+    private readonly run: number = Date.now()
+  ) {}
+
+  record(event: RecordedEvent): void {
+    const sequenced = { ...sanitizeEvent(event), run: this.run, seq: this.seq++ };
+    if (event.kind === "sim_state" && !this.keepState(event)) {
+      this.latestState = sequenced;
+    } else {
+      if (event.kind === "sim_state") this.latestState = null;
+      this.buffer.push(sequenced);
+    }
+
+    this.flushedAt ??= event.t;
+    if (this.buffer.length >= FLUSH_THRESHOLD || event.t - this.flushedAt >= FLUSH_INTERVAL_MS) {
+      this.flushedAt = event.t;
+      this.flush().catch(this.onError);
+    }
+  }
+
+  /** Write out everything buffered so far, including the latest sim_state */
+  async flush(): Promise<void> {
+    if (this.latestState) {
+      this.buffer.push(this.latestState);
+      this.latestState = null;
+    }
+    if (this.buffer.length === 0) return;
+    const batch = this.buffer.sort((a, b) => a.seq - b.seq);
+    this.buffer = [];
+    await this.sink(this.sessionId, batch);
+  }
+
+  private keepState(event: SimStateEvent): boolean {
+    const last = this.lastKeptState;
+    if (last && last.stageId === event.state.stageId && event.t - last.t < STATE_SAMPLE_MS) return false;
+    this.lastKeptState = { t: event.t, stageId: event.state.stageId };
+    return true;
+  }
+}
+
+/** Recording is off unless SESSION_RECORDING=true */
+export function isSessionRecordingEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.SESSION_RECORDING === "true";
+}
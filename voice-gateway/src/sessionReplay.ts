@@ -0,0 +1,428 @@
+/**
+ * Session Replay
+ * Re-runs a recorded session headlessly: the recorded seed and a manual clock
+ * drive the same scenario engine, order and treatment handlers, heartbeat ticks
+ * (physiology, alarms, SVT phases) and scoring the live gateway used. Timers are
+ * re-created from the seeded RNG and fired at their due times rather than read
+ * back from the recording, so the replayed outcome can be diffed against the
+ * recorded one to catch nondeterminism and behaviour changes.
+ *
+ * Nothing is broadcast and nothing needs a socket; LLM/voice-driven messages
+ * (doctor audio, forced replies, presenter scenario events) are reported as
+ * skipped rather than re-run.
+ */
+
+import { SessionManager } from "./sessionManager";
+import { createOrderHandler, clearSessionPendingOrders, type OrderType } from "./orders";
+import { createTreatmentHandler } from "./handlers/treatmentHandler";
+import { createScenarioOperationsHandler, initializeScenarioState } from "./handlers/scenarioOperations";
+import { toggleTelemetry, handleAlarmAction, type AlarmSeen } from "./telemetry";
+import { handleCprEvent } from "./cpr";
+import { actorFor, handleTeamRole } from "./codeTeam";
+import { validateSimStateMessage } from "./validators";
+import { ScenarioEngine } from "./sim/scenarioEngine";
+import { ToolGate } from "./sim/toolGate";
+import { CostController } from "./sim/costController";
+import { createManualClock, createSeededRandom, type ManualClock } from "./sim/simClock";
+import { hasMyocarditisExtended, hasSVTExtended, type SimState } from "./sim/types";
+import { calculateScore as calculateSVTScore } from "./sim/scenarios/teen_svt_complex";
+import { calculateScore as calculateMyocarditisScore } from "./sim/scenarios/peds_myocarditis_silent_crash";
+import { getScenarioDef } from "./sim/scenarioRegistry";
+import { scoreRubric } from "./sim/rubric";
+import { SessionRecorder, type RecordedEvent, type SequencedEvent } from "./sessionRecorder";
+import type { ClientRole, ClientToServerMessage } from "./messageTypes";
+import type { Runtime } from "./typesRuntime";
+import type { SimStatePayload } from "./state/broadcastUtils";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReplayOptions = {
+  /** Live timers fire a little after their due time; timer diffs within this are ignored */
+  timerToleranceMs?: number;
+  /** Session id the replay runs under (module-level order and lock maps are keyed by it) */
+  sessionId?: string;
+};
+
+export type SessionOutcome = {
+  scenarioId?: string;
+  stageId?: string;
+  /** Stage ids in the order they were broadcast */
+  stagePath: string[];
+  vitals?: Record<string, unknown>;
+  rhythmSummary?: string;
+  telemetry?: boolean;
+  orders: { type: string; status: string }[];
+  treatments: string[];
+  timers: { t: number; label: string }[];
+  /** Checklist score for scenarios with one ("4/5", grade, points) */
+  score?: { checklistScore: string; grade: string; totalPoints: number; passed: boolean };
+};
+
+export type ReplayDifference = {
+  field: string;
+  recorded: unknown;
+  replayed: unknown;
+};
+
+export type ReplayResult = {
+  /** Events produced by the replay, in the same shape as a live recording */
+  events: SequencedEvent[];
+  recorded: SessionOutcome;
+  replayed: SessionOutcome;
+  differences: ReplayDifference[];
+  /** Client messages the replay did not re-run, by message (or voice command) type */
+  skipped: Record<string, number>;
+};
+
+const DEFAULT_TIMER_TOLERANCE_MS = 250;
+
+// ============================================================================
+// Outcome
+// ============================================================================
+
+/** Score the final state the way the debrief does; transcripts are not recorded, so `said` items never count */
+function scoreState(state: SimStatePayload, lastT: number): SessionOutcome["score"] {
+  const simState = state as unknown as SimState;
+  const rubric = getScenarioDef(simState.scenarioId)?.rubric;
+  const result = hasSVTExtended(simState)
+    ? calculateSVTScore(simState.extended, lastT - simState.extended.scenarioStartedAt)
+    : hasMyocarditisExtended(simState)
+      ? calculateMyocarditisScore(simState.extended, lastT - simState.extended.scenarioStartedAt)
+      : rubric
+        ? scoreRubric(rubric, { state: simState, turns: [], scenarioStartTime: simState.scenarioStartedAt ?? lastT, nowMs: lastT })
+        : null;
+  if (!result) return undefined;
+  return {
+    checklistScore: result.checklistScore,
+    grade: result.grade,
+    totalPoints: result.totalPoints,
+    passed: result.passed,
+  };
+}
+
+/** Project a recording (live or replayed) onto the parts that should match */
+export function summarizeOutcome(events: RecordedEvent[]): SessionOutcome {
+  const states = events.filter((e): e is Extract<RecordedEvent, { kind: "sim_state" }> => e.kind === "sim_state");
+  const stagePath: string[] = [];
+  states.forEach(({ state }) => {
+    if (stagePath[stagePath.length - 1] !== state.stageId) stagePath.push(state.stageId);
+  });
+  const timers = events
+    .filter((e): e is Extract<RecordedEvent, { kind: "timer" }> => e.kind === "timer")
+    .map(({ t, label }) => ({ t, label }));
+
+  const last = states[states.length - 1];
+  if (!last) return { stagePath, orders: [], treatments: [], timers };
+  const { state } = last;
+  return {
+    scenarioId: state.scenarioId,
+    stageId: state.stageId,
+    stagePath,
+    vitals: state.vitals,
+    rhythmSummary: state.rhythmSummary,
+    telemetry: state.telemetry,
+    orders: (state.orders ?? []).map((o) => ({ type: o.type, status: o.status })),
+    treatments: (state.treatmentHistory ?? []).map((t) => t.treatmentType),
+    timers,
+    score: scoreState(state, last.t),
+  };
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function diffOutcomes(
+  recorded: SessionOutcome,
+  replayed: SessionOutcome,
+  timerToleranceMs: number = DEFAULT_TIMER_TOLERANCE_MS
+): ReplayDifference[] {
+  const differences: ReplayDifference[] = [];
+  const fields = ["scenarioId", "stageId", "stagePath", "vitals", "rhythmSummary", "telemetry", "orders", "treatments", "score"] as const;
+  fields.forEach((field) => {
+    if (!sameValue(recorded[field], replayed[field])) {
+      differences.push({ field, recorded: recorded[field], replayed: replayed[field] });
+    }
+  });
+
+  const timersMatch =
+    recorded.timers.length === replayed.timers.length &&
+    recorded.timers.every(
+      (timer, i) =>
+        timer.label === replayed.timers[i].label && Math.abs(timer.t - replayed.timers[i].t) <= timerToleranceMs
+    );
+  if (!timersMatch) {
+    differences.push({ field: "timers", recorded: recorded.timers, replayed: replayed.timers });
+  }
+  return differences;
+}
+
+// ============================================================================
+// Harness
+// ============================================================================
+
+type PendingTimer = { due: number; order: number; fn: () => void };
+
+type Harness = {
+  runtime: Runtime;
+  sessionManager: SessionManager;
+  handleOrder: ReturnType<typeof createOrderHandler>;
+  handleTreatment: ReturnType<typeof createTreatmentHandler>["handleTreatment"];
+  handleDefibAction: ReturnType<typeof createTreatmentHandler>["handleDefibAction"];
+  tickScenario: (sessionId: string) => Promise<void>;
+  broadcastSimState: (sessionId: string, state: SimStatePayload) => void;
+  /** Fire every scheduled callback due at or before `t`, advancing the clock to each */
+  runTimersUntil: (t: number) => void;
+};
+
+function createHarness(
+  sessionId: string,
+  start: Extract<RecordedEvent, { kind: "start" }>,
+  clock: ManualClock,
+  recorder: SessionRecorder
+): Harness {
+  const timers: PendingTimer[] = [];
+  let timerOrder = 0;
+  const schedule = (fn: () => void, ms: number) => {
+    const timer = { due: clock.now() + ms, order: timerOrder++, fn };
+    timers.push(timer);
+    return timer;
+  };
+
+  const runtime: Runtime = {
+    fallback: false,
+    scenarioEngine: new ScenarioEngine(sessionId, start.scenarioId, clock),
+    toolGate: new ToolGate(),
+    cost: new CostController({ softUsd: Infinity, hardUsd: Infinity }),
+    rng: createSeededRandom(start.seed),
+    recorder,
+  };
+  const runtimes = new Map([[sessionId, runtime]]);
+  const ensureRuntime = () => runtime;
+  const sessionManager = new SessionManager();
+  const fireAndForget = (promise: Promise<unknown>) => {
+    promise.catch(() => {});
+  };
+
+  // Same gate as broadcastUtils: only states that would have been broadcast are recorded
+  const broadcastSimState = (_sessionId: string, state: SimStatePayload) => {
+    if (!validateSimStateMessage(state)) return;
+    recorder.record({ kind: "sim_state", t: clock.now(), state });
+  };
+
+  const handleOrder = createOrderHandler({
+    ensureRuntime,
+    sessionManager,
+    broadcastSimState,
+    schedule,
+    synthesizePatientAudio: async () => null,
+  });
+  const { handleTreatment, handleDefibAction } = createTreatmentHandler({
+    ensureRuntime,
+    sessionManager,
+    handleOrder,
+    broadcastSimState,
+    runtimes,
+    lastTreatmentAt: new Map(),
+    fireAndForget,
+    schedule,
+  });
+  const { tickScenario } = createScenarioOperationsHandler({
+    ensureRuntime,
+    sessionManager,
+    runtimes,
+    scenarioTimers: new Map(),
+    alarmSeenAt: new Map<string, AlarmSeen>(),
+    eventLog: { append: () => {} },
+    broadcastSimState,
+    fireAndForget,
+    logSimEvent: async () => {},
+    synthesizePatientAudio: async () => null,
+  });
+
+  function runTimersUntil(t: number) {
+    for (;;) {
+      const due = timers
+        .filter((timer) => timer.due <= t)
+        .sort((a, b) => a.due - b.due || a.order - b.order)[0];
+      if (!due) return;
+      timers.splice(timers.indexOf(due), 1);
+      clock.set(Math.max(clock.now(), due.due));
+      due.fn();
+    }
+  }
+
+  return {
+    runtime,
+    sessionManager,
+    handleOrder,
+    handleTreatment,
+    handleDefibAction,
+    tickScenario,
+    broadcastSimState,
+    runTimersUntil,
+  };
+}
+
+/** Mirror the gateway's handling of one inbound message; returns false when it is not re-run */
+async function applyClientMessage(
+  sessionId: string,
+  harness: Harness,
+  role: ClientRole,
+  userId: string,
+  message: ClientToServerMessage
+): Promise<boolean> {
+  const { runtime, sessionManager } = harness;
+  if (message.type === "alarm_action") {
+    handleAlarmAction(sessionId, runtime, message.alarmId, message.action, userId, sessionManager);
+    return true;
+  }
+  if (message.type === "cpr_event") {
+    handleCprEvent(sessionId, runtime, message.event, message.rate, userId);
+    return true;
+  }
+  if (message.type === "defib_action") {
+    const { action, energyJ, sync, rateBpm, currentMa } = message;
+    await harness.handleDefibAction(sessionId, action, { energyJ, sync, rateBpm, currentMa }, actorFor(runtime, userId, role));
+    return true;
+  }
+  if (message.type === "team_role") {
+    const targetUserId = message.targetUserId ?? userId;
+    if (role !== "presenter" && targetUserId !== userId) return true;
+    handleTeamRole(
+      sessionId,
+      runtime,
+      {
+        userId: targetUserId,
+        name: message.displayName ?? "Unknown",
+        teamRole: message.teamRole,
+        assignedBy: role === "presenter" ? "presenter" : "self",
+      },
+      sessionManager
+    );
+    return true;
+  }
+  if (message.type !== "voice_command") return false;
+
+  switch (message.commandType) {
+    case "order": {
+      const orderType = typeof message.payload?.orderType === "string" ? message.payload.orderType : "vitals";
+      const displayName = typeof message.payload?.displayName === "string" ? message.payload.displayName : "Unknown";
+      harness.handleOrder(
+        sessionId,
+        orderType as OrderType,
+        actorFor(runtime, userId, role, { ...message.payload, displayName }),
+        undefined,
+        { panels: message.payload?.panels }
+      );
+      return true;
+    }
+    case "treatment": {
+      const treatmentType = typeof message.payload?.treatmentType === "string" ? message.payload.treatmentType : undefined;
+      const orderedBy = actorFor(runtime, userId, role, message.payload);
+      await harness.handleTreatment(sessionId, treatmentType, { ...message.payload, orderedBy });
+      return true;
+    }
+    case "toggle_telemetry": {
+      toggleTelemetry(sessionId, runtime, message.payload?.enabled === true, sessionManager, harness.broadcastSimState);
+      return true;
+    }
+    case "skip_stage": {
+      const stageId = typeof message.payload?.stageId === "string" ? message.payload.stageId : undefined;
+      if (stageId) {
+        runtime.scenarioEngine.setStage(stageId);
+        harness.broadcastSimState(sessionId, {
+          ...runtime.scenarioEngine.getState(),
+          stageIds: runtime.scenarioEngine.getStageIds(),
+          fallback: runtime.fallback,
+          budget: runtime.cost.getState?.() ?? undefined,
+        });
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+function skipKey(message: ClientToServerMessage): string {
+  return message.type === "voice_command" ? `voice_command.${message.commandType}` : message.type;
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export async function replaySession(recording: RecordedEvent[], options: ReplayOptions = {}): Promise<ReplayResult> {
+  const sessionId = options.sessionId ?? "replay";
+  // Stored recordings carry a run and sequence number; in-memory ones are already in order
+  const runOf = (event: RecordedEvent) => ("run" in event ? Number(event.run) : 0);
+  const seqOf = (event: RecordedEvent) => ("seq" in event ? Number(event.seq) : 0);
+  const events = [...recording].sort((a, b) => runOf(a) - runOf(b) || seqOf(a) - seqOf(b));
+  const replayed: SequencedEvent[] = [];
+  const recorder = new SessionRecorder(
+    sessionId,
+    async (_id, batch) => {
+      replayed.push(...batch);
+    },
+    undefined,
+    events.length > 0 ? runOf(events[0]) : 0
+  );
+  const clock = createManualClock(events[0]?.t ?? 0);
+  const skipped: Record<string, number> = {};
+  let harness: Harness | null = null;
+
+  try {
+    for (const event of events) {
+      // Outputs are compared afterwards, not fed back in
+      if (event.kind === "sim_state" || event.kind === "timer") continue;
+
+      harness?.runTimersUntil(event.t);
+      clock.set(event.t);
+
+      if (event.kind === "start") {
+        // A new runtime (first join, or after the session emptied) starts from scratch
+        clearSessionPendingOrders(sessionId);
+        recorder.record(event);
+        harness = createHarness(sessionId, event, clock, recorder);
+        initializeScenarioState(harness.runtime, event.scenarioId);
+        harness.broadcastSimState(sessionId, {
+          ...harness.runtime.scenarioEngine.getState(),
+          stageIds: harness.runtime.scenarioEngine.getStageIds(),
+        });
+        continue;
+      }
+      if (!harness) continue;
+
+      if (event.kind === "tick") {
+        await harness.tickScenario(sessionId);
+        continue;
+      }
+
+      recorder.record(event);
+      // Recordings made before the verified sender was stored fall back to the claimed one
+      const userId = event.userId ?? ("userId" in event.message ? event.message.userId : "unknown");
+      if (!(await applyClientMessage(sessionId, harness, event.role, userId, event.message))) {
+        const key = skipKey(event.message);
+        skipped[key] = (skipped[key] ?? 0) + 1;
+      }
+    }
+
+    // Timers still pending when the recording ended never fired live either
+    const lastT = events[events.length - 1]?.t;
+    if (harness && lastT !== undefined) harness.runTimersUntil(lastT);
+    await recorder.flush();
+  } finally {
+    clearSessionPendingOrders(sessionId);
+  }
+
+  const recordedOutcome = summarizeOutcome(events);
+  const replayedOutcome = summarizeOutcome(replayed);
+  return {
+    events: replayed,
+    recorded: recordedOutcome,
+    replayed: replayedOutcome,
+    differences: diffOutcomes(recordedOutcome, replayedOutcome, options.timerToleranceMs),
+    skipped,
+  };
+}
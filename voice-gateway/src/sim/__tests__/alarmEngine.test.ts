@@ -0,0 +1,121 @@
+import {
+  ALARM_SILENCE_MS,
+  createAlarmState,
+  evaluateAlarmConditions,
+  getAlarmLimits,
+  getHypotensionThreshold,
+  respondToAlarm,
+  summarizeAlarmResponses,
+  updateAlarms,
+} from "../alarmEngine";
+import { ScenarioEngine } from "../scenarioEngine";
+
+const infant = getAlarmLimits({ ageYears: 0, ageMonths: 2, weightKg: 4.5 });
+const teen = getAlarmLimits({ ageYears: 15, weightKg: 55 });
+
+function ids(conditions: ReturnType<typeof evaluateAlarmConditions>) {
+  return conditions.map((c) => `${c.id}:${c.priority}`);
+}
+
+describe("getAlarmLimits", () => {
+  it("uses PALS hypotension thresholds by age", () => {
+    expect(getHypotensionThreshold(0)).toBe(60);
+    expect(getHypotensionThreshold(6)).toBe(70);
+    expect(getHypotensionThreshold(48)).toBe(78);
+    expect(getHypotensionThreshold(180)).toBe(90);
+    expect(teen.sbp.criticalLow).toBe(90);
+  });
+
+  it("merges scenario overrides per vital", () => {
+    const limits = getAlarmLimits({ ageYears: 0, ageMonths: 1, weightKg: 3.5 }, { spo2: { low: 75, criticalLow: 65 } });
+    expect(limits.spo2).toEqual({ low: 75, criticalLow: 65 });
+    expect(limits.hr).toEqual(getAlarmLimits({ ageYears: 0, ageMonths: 1, weightKg: 3.5 }).hr);
+  });
+
+  it("is exposed by the scenario engine for the running scenario", () => {
+    expect(new ScenarioEngine("sim-ductal", "ductal_shock").getAlarmLimits().hr.high).toBe(180);
+    expect(new ScenarioEngine("sim-syncope", "syncope").getAlarmLimits().hr.low).toBe(50);
+  });
+});
+
+describe("evaluateAlarmConditions", () => {
+  it("does not alarm on an infant heart rate that is normal for age", () => {
+    expect(evaluateAlarmConditions({ hr: 165 }, infant)).toEqual([]);
+    expect(ids(evaluateAlarmConditions({ hr: 165 }, teen))).toEqual(["hrHigh:medium"]);
+  });
+
+  it("alarms on adolescent bradycardia and escalates below the critical limit", () => {
+    expect(ids(evaluateAlarmConditions({ hr: 45 }, teen))).toEqual(["hrLow:medium"]);
+    expect(ids(evaluateAlarmConditions({ hr: 35 }, teen))).toEqual(["hrLow:high"]);
+    expect(evaluateAlarmConditions({ hr: 45 }, infant)[0]?.priority).toBe("high");
+  });
+
+  it("covers blood pressure, respiratory rate and temperature", () => {
+    expect(ids(evaluateAlarmConditions({ bp: "92/50" }, teen))).toEqual(["sbpLow:medium"]);
+    expect(ids(evaluateAlarmConditions({ bp: "84/40" }, teen))).toEqual(["sbpLow:high"]);
+    expect(ids(evaluateAlarmConditions({ rr: 30 }, teen))).toEqual(["rrHigh:medium"]);
+    expect(ids(evaluateAlarmConditions({ rr: 30 }, infant))).toEqual([]);
+    expect(ids(evaluateAlarmConditions({ temp: 39.2 }, teen))).toEqual(["tempHigh:low"]);
+    expect(ids(evaluateAlarmConditions({ temp: 40.5 }, teen))).toEqual(["tempHigh:medium"]);
+  });
+
+  it("formats the monitor message with the reading", () => {
+    const [spo2] = evaluateAlarmConditions({ spo2: 84 }, teen);
+    expect(spo2).toMatchObject({ id: "spo2Low", priority: "high", message: "SpO2 low: 84%", limit: 85 });
+  });
+});
+
+describe("alarm lifecycle", () => {
+  const spo2Low = evaluateAlarmConditions({ spo2: 88 }, teen);
+  const spo2Critical = evaluateAlarmConditions({ spo2: 80 }, teen);
+
+  it("raises once, then clears when the vital recovers", () => {
+    const state = createAlarmState();
+    expect(updateAlarms(state, spo2Low, 1000).map((a) => a.status)).toEqual(["active"]);
+    expect(updateAlarms(state, spo2Low, 2000)).toEqual([]);
+    const cleared = updateAlarms(state, [], 3000);
+    expect(cleared).toMatchObject([{ id: "spo2Low", status: "cleared", clearedAt: 3000 }]);
+    expect(state.active).toEqual({});
+    expect(state.history).toHaveLength(1);
+  });
+
+  it("re-annunciates a silenced alarm after the silence period", () => {
+    const state = createAlarmState();
+    updateAlarms(state, spo2Low, 0);
+    expect(respondToAlarm(state, "spo2Low", "silence", "u1", 5000)?.status).toBe("silenced");
+    expect(updateAlarms(state, spo2Low, 6000)).toEqual([]);
+    expect(updateAlarms(state, spo2Low, 5000 + ALARM_SILENCE_MS)[0]?.status).toBe("active");
+  });
+
+  it("re-annunciates an acknowledged alarm when it escalates", () => {
+    const state = createAlarmState();
+    updateAlarms(state, spo2Low, 0);
+    respondToAlarm(state, "spo2Low", "acknowledge", "u1", 3000);
+    expect(updateAlarms(state, spo2Low, 4000)).toEqual([]);
+    expect(updateAlarms(state, spo2Critical, 5000)).toMatchObject([{ priority: "high", status: "active" }]);
+  });
+
+  it("keeps the first response for the response time", () => {
+    const state = createAlarmState();
+    updateAlarms(state, spo2Low, 1000);
+    respondToAlarm(state, "spo2Low", "silence", "u1", 9000);
+    respondToAlarm(state, "spo2Low", "acknowledge", "u2", 20_000);
+    expect(respondToAlarm(state, "spo2Low", "silence", "u3", 21_000)).toBeNull();
+    expect(state.active.spo2Low).toMatchObject({ respondedAt: 9000, respondedBy: "u1", acknowledgedAt: 20_000 });
+    expect(respondToAlarm(state, "hrHigh", "acknowledge", "u1", 9000)).toBeNull();
+  });
+
+  it("summarizes response times for the debrief", () => {
+    const state = createAlarmState();
+    updateAlarms(state, [...spo2Low, ...evaluateAlarmConditions({ hr: 140 }, teen)], 0);
+    respondToAlarm(state, "spo2Low", "acknowledge", "u1", 10_000);
+    updateAlarms(state, [], 60_000);
+    updateAlarms(state, evaluateAlarmConditions({ bp: "80/40" }, teen), 70_000);
+
+    const summary = summarizeAlarmResponses(state);
+    expect(summary.alarms.map((a) => a.id)).toEqual(["spo2Low", "hrHigh", "sbpLow"]);
+    expect(summary.responded).toBe(1);
+    expect(summary.medianResponseMs).toBe(10_000);
+    expect(summary.unanswered.map((a) => a.id)).toEqual(["hrHigh", "sbpLow"]);
+  });
+});
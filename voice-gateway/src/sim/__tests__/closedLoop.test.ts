@@ -0,0 +1,103 @@
+import {
+  LOOP_CONFIRM_WINDOW_MS,
+  confirmLoop,
+  createCommLoopLog,
+  expireLoop,
+  findAddressee,
+  isConfirmation,
+  markReadBack,
+  openLoop,
+  resolveAddressee,
+  summarizeClosedLoops,
+} from "../closedLoop";
+
+const order = (text: string, action = "ekg") => ({ userId: "doc", name: "Doc", action, text });
+
+describe("utterances", () => {
+  it("finds who an order is addressed to", () => {
+    expect(findAddressee("Nurse, can you get vitals")).toBe("nurse");
+    expect(findAddressee("Ana, get an EKG please", ["Ana Ruiz"])).toBe("Ana");
+    expect(findAddressee("Get an EKG")).toBeUndefined();
+    expect(findAddressee("Banana bag")).toBeUndefined();
+  });
+
+  it("recognizes a confirmed read-back", () => {
+    expect(isConfirmation("Yes, that's right")).toBe(true);
+    expect(isConfirmation("Okay, that's correct")).toBe(true);
+    expect(isConfirmation("How are you feeling?")).toBe(false);
+  });
+
+  it("only takes short, bare confirmations", () => {
+    expect(isConfirmation("Great, thanks Ana")).toBe(true);
+    expect(isConfirmation("Right.")).toBe(true);
+    expect(isConfirmation("Great, can you tell me where it hurts?")).toBe(false);
+    expect(isConfirmation("Thanks, and how long has your chest hurt?")).toBe(false);
+    expect(isConfirmation("I think that's right but check her pressure")).toBe(false);
+    expect(isConfirmation("No, that's not right")).toBe(false);
+    expect(isConfirmation("Not correct")).toBe(false);
+  });
+});
+
+describe("loop log", () => {
+  it("closes a named order when the read-back is confirmed", () => {
+    const log = createCommLoopLog();
+    const loop = openLoop(log, order("Nurse, get an EKG"), 0);
+    expect(loop).toMatchObject({ addressee: "nurse", status: "awaiting_confirmation" });
+    markReadBack(loop, 1_000);
+    expect(confirmLoop(log, "someone-else", 2_000)).toBeUndefined();
+    expect(confirmLoop(log, "doc", 4_000)).toBe(loop);
+    expect(loop).toMatchObject({ status: "closed", confirmedAt: 4_000 });
+  });
+
+  it("holds an unnamed order until the learner says who it was for", () => {
+    const log = createCommLoopLog();
+    const loop = openLoop(log, order("Get an EKG"), 0);
+    expect(loop.status).toBe("awaiting_addressee");
+    expect(resolveAddressee(loop, "um")).toBe(false);
+    expect(resolveAddressee(loop, "You, please")).toBe(true);
+    expect(loop).toMatchObject({ addressee: "nurse", clarifiedAt: 0 });
+  });
+
+  it("accepts a confirmation after the nurse prompts, within the window", () => {
+    const log = createCommLoopLog();
+    const late = openLoop(log, order("Nurse, labs", "labs"), 0);
+    markReadBack(late, 0);
+    expect(expireLoop(late, LOOP_CONFIRM_WINDOW_MS)).toBe(true);
+    expect(confirmLoop(log, "doc", LOOP_CONFIRM_WINDOW_MS * 3)).toBeUndefined();
+
+    const prompted = openLoop(log, order("Nurse, vitals", "vitals"), 0);
+    markReadBack(prompted, 0);
+    expireLoop(prompted, LOOP_CONFIRM_WINDOW_MS);
+    expect(confirmLoop(log, "doc", LOOP_CONFIRM_WINDOW_MS + 2_000)).toBe(prompted);
+    expect(expireLoop(prompted, LOOP_CONFIRM_WINDOW_MS * 2)).toBe(false);
+  });
+});
+
+describe("summarizeClosedLoops", () => {
+  it("reports closure rate and median confirmation time", () => {
+    const log = createCommLoopLog();
+    expect(summarizeClosedLoops(log)).toBeNull();
+
+    [2_000, 4_000].forEach((confirmMs) => {
+      const loop = openLoop(log, order("Nurse, EKG"), 0);
+      markReadBack(loop, 0);
+      confirmLoop(log, "doc", confirmMs);
+    });
+    const unnamed = openLoop(log, order("Get labs", "labs"), 0);
+    markReadBack(unnamed, 5_000);
+    expireLoop(unnamed, 15_000);
+
+    expect(summarizeClosedLoops(log)?.metrics).toEqual({
+      orders: 3,
+      addressed: 2,
+      clarified: 1,
+      closed: 2,
+      closedAfterPrompt: 0,
+      unconfirmed: 1,
+      open: 0,
+      closureRate: 2 / 3,
+      medianConfirmMs: 3_000,
+      windowMs: LOOP_CONFIRM_WINDOW_MS,
+    });
+  });
+});
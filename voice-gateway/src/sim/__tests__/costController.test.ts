@@ -1,38 +1,65 @@
 import { CostController } from "../costController";
+import type { UsageRecord } from "../pricing";
+
+const CHAT: UsageRecord = { modality: "chat", model: "gpt-4.1-mini" };
 
 describe("CostController", () => {
   test("fires soft then hard limits once", () => {
     let soft = 0;
     let hard = 0;
     const cc = new CostController({
-      usdPerToken: 1, // 1 token = $1 for easy math
       softUsd: 3,
       hardUsd: 5,
       onSoftLimit: () => soft++,
       onHardLimit: () => hard++,
     });
 
-    cc.addUsage({ inputTokens: 2, outputTokens: 0 }); // $2
+    cc.record(CHAT, 2); // $2
     expect(cc.getState().usdEstimate).toBe(2);
     expect(cc.getState().throttled).toBe(false);
     expect(cc.getState().fallback).toBe(false);
     expect(soft).toBe(0);
     expect(hard).toBe(0);
 
-    cc.addUsage({ inputTokens: 1 }); // $3
+    cc.record(CHAT, 1); // $3
     expect(cc.getState().throttled).toBe(true);
     expect(soft).toBe(1);
-    cc.addUsage({ outputTokens: 1 }); // $4
+    cc.record(CHAT, 1); // $4
     expect(cc.getState().fallback).toBe(false);
     expect(hard).toBe(0);
 
-    cc.addUsage({ outputTokens: 1 }); // $5
+    cc.record(CHAT, 1); // $5
     expect(cc.getState().fallback).toBe(true);
     expect(hard).toBe(1);
 
     // further usage should not double-trigger
-    cc.addUsage({ inputTokens: 1 });
+    cc.record(CHAT, 1);
     expect(soft).toBe(1);
     expect(hard).toBe(1);
   });
 });
+
+describe("CostController.record", () => {
+  test("prices each call by model and breaks spend down by modality", () => {
+    let hard = 0;
+    const cc = new CostController({ softUsd: 0.5, hardUsd: 1, onHardLimit: () => hard++ });
+
+    // 250k input tokens at $0.40/M
+    expect(cc.record({ modality: "chat", model: "gpt-4.1-mini", inputTokens: 250_000 })).toBeCloseTo(0.1);
+    cc.record({ modality: "tts", model: "tts-1", characters: 10_000 }); // $0.15
+    cc.record({ modality: "tts", model: "tts-1", characters: 10_000 });
+    expect(cc.getState()).toMatchObject({ inputTokens: 250_000, throttled: false });
+    expect(cc.getState().usdEstimate).toBeCloseTo(0.4);
+    expect(cc.getState().breakdown).toEqual({
+      chat: { usd: expect.closeTo(0.1), calls: 1 },
+      tts: { usd: expect.closeTo(0.3), calls: 2 },
+    });
+
+    cc.record({ modality: "realtime", model: "gpt-4o-mini-realtime-preview", inputTokens: 1, outputTokens: 1 }, 0.6);
+    expect(cc.getState()).toMatchObject({ throttled: true, fallback: true });
+    expect(hard).toBe(1);
+
+    cc.reset();
+    expect(cc.getState()).toMatchObject({ usdEstimate: 0, breakdown: {} });
+  });
+});
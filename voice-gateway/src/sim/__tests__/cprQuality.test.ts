@@ -0,0 +1,133 @@
+import {
+  createCprLog,
+  cprQualityFactor,
+  hasLongPeriShockPause,
+  hasLowCompressionFraction,
+  isFirstEpiLate,
+  isHighQualityCpr,
+  recordArrest,
+  recordCprEvent,
+  recordEpi,
+  recordRosc,
+  recordShock,
+  summarizeCpr,
+} from "../cprQuality";
+import { roscLikelihood } from "../physiologyEngine";
+
+const T0 = 1_000_000;
+const s = (seconds: number) => T0 + seconds * 1000;
+
+/** Arrest at 0 s, compressions 5-60 s, shock at 64 s, compressions again from 66 s */
+function shockedArrest() {
+  const log = createCprLog();
+  recordArrest(log, s(0));
+  recordCprEvent(log, "start", s(5));
+  recordCprEvent(log, "rate", s(20), 110);
+  recordCprEvent(log, "rate", s(40), 95);
+  recordCprEvent(log, "pause", s(60));
+  recordShock(log, s(64));
+  recordCprEvent(log, "start", s(66));
+  return log;
+}
+
+describe("summarizeCpr", () => {
+  it("returns null before any arrest", () => {
+    expect(summarizeCpr(createCprLog(), s(10))).toBeNull();
+  });
+
+  it("computes compression fraction, pauses and peri-shock hands-off time", () => {
+    const metrics = summarizeCpr(shockedArrest(), s(100))!;
+    expect(metrics.durationMs).toBe(100_000);
+    expect(metrics.handsOnMs).toBe(55_000 + 34_000);
+    expect(metrics.ccf).toBe(0.89);
+    expect(metrics.longestPauseMs).toBe(6_000);
+    expect(metrics.shocks).toEqual([{ ts: s(64), preShockPauseMs: 4_000, postShockPauseMs: 2_000 }]);
+    expect(metrics.meanRate).toBe(103);
+    expect(metrics.rateInTargetFraction).toBe(0.5);
+  });
+
+  it("leaves the post-shock pause open until compressions resume", () => {
+    const log = createCprLog();
+    recordCprEvent(log, "start", s(0));
+    recordCprEvent(log, "pause", s(30));
+    recordShock(log, s(45));
+    const metrics = summarizeCpr(log, s(50))!;
+    expect(metrics.shocks[0]).toEqual({ ts: s(45), preShockPauseMs: 15_000 });
+    expect(hasLongPeriShockPause(metrics)).toBe(true);
+  });
+
+  it("measures time to first epi and stops the clock at ROSC", () => {
+    const log = shockedArrest();
+    recordEpi(log, s(90));
+    recordRosc(log, s(120));
+    recordEpi(log, s(150));
+    const metrics = summarizeCpr(log, s(300))!;
+    expect(metrics.timeToFirstEpiMs).toBe(90_000);
+    expect(metrics.roscAt).toBe(s(120));
+    expect(metrics.durationMs).toBe(120_000);
+    expect(log.epiDoses).toEqual([s(90)]);
+  });
+
+  it("tracks the longest stint between compressor swaps", () => {
+    const log = createCprLog();
+    recordCprEvent(log, "start", s(0));
+    recordCprEvent(log, "swap", s(120));
+    recordCprEvent(log, "swap", s(180));
+    const metrics = summarizeCpr(log, s(400))!;
+    expect(metrics.compressorSwaps).toBe(2);
+    expect(metrics.longestStintMs).toBe(220_000);
+  });
+
+  it("starts a fresh log when the patient re-arrests after ROSC", () => {
+    const log = shockedArrest();
+    recordRosc(log, s(100));
+    recordArrest(log, s(200));
+    expect(log.shocks).toEqual([]);
+    expect(summarizeCpr(log, s(210))!.durationMs).toBe(10_000);
+  });
+});
+
+describe("cprQualityFactor", () => {
+  it("rewards continuous compressions at target rate", () => {
+    const good = createCprLog();
+    recordCprEvent(good, "start", s(0));
+    recordCprEvent(good, "rate", s(30), 110);
+    const poor = createCprLog();
+    recordArrest(poor, s(0));
+    recordCprEvent(poor, "start", s(40));
+    recordCprEvent(poor, "rate", s(50), 80);
+
+    expect(cprQualityFactor(summarizeCpr(good, s(60)))).toBe(1);
+    expect(cprQualityFactor(summarizeCpr(poor, s(60)))).toBeLessThan(0.4);
+    expect(cprQualityFactor(null)).toBe(0);
+  });
+});
+
+describe("roscLikelihood", () => {
+  it("scales the base chance by CPR quality", () => {
+    expect(roscLikelihood("shock", true, 1)).toBe(0.5);
+    expect(roscLikelihood("shock", true, 0)).toBeCloseTo(0.1);
+    expect(roscLikelihood("epi", false, 1)).toBeGreaterThan(roscLikelihood("epi", false, 0.5));
+  });
+
+  it("never restores a pulse by shocking a non-shockable rhythm", () => {
+    expect(roscLikelihood("shock", false, 1)).toBe(0);
+  });
+});
+
+describe("CPR scoring checks", () => {
+  it("flags low compression fraction, late epi and passes high-quality CPR", () => {
+    const log = createCprLog();
+    recordArrest(log, s(0));
+    recordCprEvent(log, "start", s(60));
+    const late = summarizeCpr(log, s(400))!;
+    expect(hasLowCompressionFraction(late)).toBe(false);
+    expect(isFirstEpiLate(late)).toBe(true);
+    expect(isHighQualityCpr(summarizeCpr(shockedArrest(), s(100))!)).toBe(false);
+
+    const idle = createCprLog();
+    recordArrest(idle, s(0));
+    expect(hasLowCompressionFraction(summarizeCpr(idle, s(90))!)).toBe(true);
+    expect(isHighQualityCpr(undefined)).toBe(false);
+  });
+});
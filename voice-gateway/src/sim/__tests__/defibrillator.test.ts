@@ -0,0 +1,115 @@
+import {
+  applyDefibAction,
+  createDefibrillator,
+  dischargeDefibrillator,
+  energyWindow,
+  evaluateShock,
+  hasDefibError,
+  hasPacingCapture,
+  shockKindFor,
+  snapEnergy,
+  toDefibErrorRecords,
+  type DefibrillatorState,
+} from "../defibrillator";
+import { createRhythm } from "../rhythm";
+
+const SVT = createRhythm("svt", 240, "SVT");
+const VF = createRhythm("vf", 0, "VF");
+const SINUS = createRhythm("sinus", 90, "Sinus");
+const BRADY = createRhythm("av_block_3", 35, "Complete heart block");
+
+/** Pads on, energy set and charged, all clear called */
+function armed(energyJ: number, sync: boolean): DefibrillatorState {
+  let device = createDefibrillator(true);
+  device = applyDefibAction(device, "set_energy", { energyJ }).device;
+  device = applyDefibAction(device, "set_sync", { sync }).device;
+  device = applyDefibAction(device, "charge").device;
+  return applyDefibAction(device, "clear").device;
+}
+
+describe("device settings", () => {
+  it("snaps energy to the device steps and dumps a charge when the dial moves", () => {
+    expect(snapEnergy(48)).toBe(50);
+    expect(snapEnergy(500)).toBe(200);
+
+    const charged = armed(20, false);
+    const { device, prompt } = applyDefibAction(charged, "set_energy", { energyJ: 30 });
+    expect(device.energyJ).toBe(30);
+    expect(device.charged).toBe(false);
+    expect(prompt).toMatch(/charge dumped/);
+  });
+
+  it("will not charge or pace without pads", () => {
+    const device = createDefibrillator();
+    expect(applyDefibAction(device, "charge")).toEqual({ device, prompt: "Connect pads." });
+    expect(applyDefibAction(device, "pace_start").device.pacing.active).toBe(false);
+  });
+
+  it("widens the PALS dose to the nearest device steps", () => {
+    expect(energyWindow("cardioversion", 50)).toEqual({ minJ: 20, maxJ: 100 });
+    expect(energyWindow("defibrillation", 15)).toEqual({ minJ: 30, maxJ: 150 });
+    expect(energyWindow("defibrillation", 50)).toEqual({ minJ: 100, maxJ: 200 });
+  });
+});
+
+describe("evaluateShock", () => {
+  it("classifies the rhythm on the monitor", () => {
+    expect(shockKindFor(SVT)).toBe("cardioversion");
+    expect(shockKindFor(VF)).toBe("defibrillation");
+    expect(shockKindFor(createRhythm("vt", 200, "VT", { pulsePresent: false }))).toBe("defibrillation");
+    expect(shockKindFor(SINUS)).toBeNull();
+  });
+
+  it("passes a synchronized cardioversion at 0.5-1 J/kg", () => {
+    expect(evaluateShock(armed(30, true), SVT, 50)).toEqual({
+      delivered: true,
+      kind: "cardioversion",
+      synchronized: true,
+      findings: [],
+    });
+  });
+
+  it("fires but records an unsynchronized shock into SVT", () => {
+    const evaluation = evaluateShock(armed(30, false), SVT, 50);
+    expect(evaluation.delivered).toBe(true);
+    expect(evaluation.findings.map((f) => f.kind)).toEqual(["unsynchronized_cardioversion"]);
+  });
+
+  it("never fires in sync mode in VF", () => {
+    const evaluation = evaluateShock(armed(100, true), VF, 50);
+    expect(evaluation.delivered).toBe(false);
+    expect(evaluation.findings.map((f) => f.kind)).toEqual(["synchronized_defibrillation"]);
+  });
+
+  it("flags wrong energy, a missing clear call and a non-shockable rhythm", () => {
+    expect(evaluateShock(armed(20, false), VF, 20).findings.map((f) => f.kind)).toEqual(["energy_low"]);
+    expect(evaluateShock(armed(200, true), SVT, 20).findings.map((f) => f.kind)).toEqual(["energy_high"]);
+
+    const uncleared = applyDefibAction(applyDefibAction(createDefibrillator(true), "set_energy", { energyJ: 50 }).device, "charge").device;
+    expect(evaluateShock(uncleared, SINUS, 20).findings.map((f) => f.kind)).toEqual(["no_clear_call", "shock_not_indicated"]);
+  });
+
+  it("refuses without a charge and empties the capacitor after firing", () => {
+    expect(evaluateShock(createDefibrillator(true), VF, 20)).toMatchObject({ delivered: false, prompt: "Charge first." });
+    const fired = dischargeDefibrillator(armed(50, false));
+    expect(fired).toMatchObject({ charged: false, cleared: false, shockCount: 1 });
+  });
+});
+
+describe("pacing and scoring helpers", () => {
+  it("captures above the threshold output, but not through VF", () => {
+    const pacing = { active: true, rateBpm: 100, currentMa: 70, capture: false };
+    expect(hasPacingCapture(pacing, BRADY)).toBe(true);
+    expect(hasPacingCapture({ ...pacing, currentMa: 40 }, BRADY)).toBe(false);
+    expect(hasPacingCapture(pacing, VF)).toBe(false);
+  });
+
+  it("separates critical from minor device errors", () => {
+    const device = armed(30, false);
+    const records = toDefibErrorRecords(evaluateShock(device, SVT, 50).findings, device, SVT, 50, 1000);
+    expect(records).toEqual([expect.objectContaining({ kind: "unsynchronized_cardioversion", joulesPerKg: 0.6, rhythm: "svt" })]);
+    expect(hasDefibError(records, true)).toBe(true);
+    expect(hasDefibError(records, false)).toBe(false);
+    expect(hasDefibError(undefined, true)).toBe(false);
+  });
+});
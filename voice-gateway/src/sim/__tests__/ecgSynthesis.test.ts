@@ -0,0 +1,140 @@
+import {
+  ECG_LEADS,
+  parseRhythmSummary,
+  sampleEcg,
+  synthesize12Lead,
+  synthesizeLead,
+  type EcgSpec,
+} from "../ecgSynthesis";
+import { createRhythm } from "../rhythm";
+import { buildTelemetryWaveform } from "../../telemetry";
+
+const SAMPLE_RATE_HZ = 500;
+
+function strip(spec: EcgSpec, lead: Parameters<typeof sampleEcg>[1] = "II", durationMs = 10_000, seed = 1) {
+  return synthesizeLead(spec, lead, { durationMs, sampleRateHz: SAMPLE_RATE_HZ, seed });
+}
+
+/** R peaks: local maxima above half the strip's maximum, at least 150 ms apart */
+function peakTimesMs(samples: number[]): number[] {
+  const threshold = Math.max(...samples) * 0.5;
+  const peaks: number[] = [];
+  samples.forEach((v, i) => {
+    if (v < threshold || v < samples[i - 1] || v < samples[i + 1]) return;
+    const t = (i * 1000) / SAMPLE_RATE_HZ;
+    if (peaks.length === 0 || t - peaks[peaks.length - 1] > 150) peaks.push(t);
+  });
+  return peaks;
+}
+
+function intervals(times: number[]): number[] {
+  return times.slice(1).map((t, i) => t - times[i]);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+}
+
+describe("parseRhythmSummary", () => {
+  it("recognises rhythms from order and scenario text", () => {
+    expect(parseRhythmSummary("Narrow regular tachycardia ~220 bpm, no discernible P waves")).toEqual({ rhythm: "svt", hr: 220 });
+    expect(parseRhythmSummary("Ventricular fibrillation").rhythm).toBe("vf");
+    expect(parseRhythmSummary("Wide complex tachycardia").rhythm).toBe("vt");
+    expect(parseRhythmSummary("Complete heart block, junctional escape").rhythm).toBe("av_block_3");
+    expect(parseRhythmSummary("Second degree AV block, Mobitz II").rhythm).toBe("av_block_2_mobitz2");
+    expect(parseRhythmSummary("Wenckebach").rhythm).toBe("av_block_2_mobitz1");
+    expect(parseRhythmSummary("Sinus with first degree AV block").rhythm).toBe("av_block_1");
+    expect(parseRhythmSummary("Peaked T waves").rhythm).toBe("sinus");
+  });
+
+  it("prefers the measured rate over the one in the text", () => {
+    expect(parseRhythmSummary("Sinus tachy 180s", 172).hr).toBe(172);
+    expect(parseRhythmSummary("Sinus tachy 180s").hr).toBe(180);
+    expect(parseRhythmSummary(undefined).hr).toBe(80);
+  });
+
+  it("extracts pre-excitation, QT and ST features", () => {
+    expect(parseRhythmSummary("Sinus rhythm, short PR with delta wave (WPW)").features).toEqual({ deltaWave: true });
+    expect(parseRhythmSummary("Normal sinus rhythm 90 bpm, normal intervals, no pre-excitation").features).toBeUndefined();
+    expect(parseRhythmSummary("Sinus rhythm ~96 bpm, borderline QTc.").features?.qtcMs).toBe(460);
+    expect(parseRhythmSummary("Sinus bradycardia, QTc 540 ms").features?.qtcMs).toBe(540);
+    expect(parseRhythmSummary("Sinus tachycardia; low voltage; ST depression").features).toEqual({
+      stShiftMm: -1.5,
+      lowVoltage: true,
+    });
+    expect(parseRhythmSummary("Inferior ST elevation").features).toEqual({ stShiftMm: 2, stLeads: ["II", "III", "aVF"] });
+  });
+});
+
+describe("synthesizeLead", () => {
+  it("is deterministic for a seed", () => {
+    const spec = parseRhythmSummary("Atrial fibrillation", 110);
+    expect(strip(spec, "V1", 3000, 4)).toEqual(strip(spec, "V1", 3000, 4));
+    expect(strip(spec, "V1", 3000, 4)).not.toEqual(strip(spec, "V1", 3000, 5));
+  });
+
+  it("produces R waves at the requested rate", () => {
+    [60, 120, 220].forEach((hr) => {
+      const rr = mean(intervals(peakTimesMs(strip({ rhythm: hr > 200 ? "svt" : "sinus", hr }))));
+      expect(rr).toBeCloseTo(60000 / hr, -1);
+    });
+  });
+
+  it("makes atrial fibrillation irregularly irregular", () => {
+    expect(stdDev(intervals(peakTimesMs(strip({ rhythm: "sinus", hr: 110 }))))).toBeLessThan(5);
+    expect(stdDev(intervals(peakTimesMs(strip({ rhythm: "afib", hr: 110 }))))).toBeGreaterThan(40);
+  });
+
+  it("has no organised complexes in VF and a flat line in asystole", () => {
+    const vf = strip({ rhythm: "vf", hr: 0 });
+    expect(Math.max(...vf) - Math.min(...vf)).toBeGreaterThan(0.3);
+    expect(Math.max(...vf)).toBeLessThan(Math.max(...strip({ rhythm: "sinus", hr: 80 })));
+    const asystole = strip({ rhythm: "asystole", hr: 0 });
+    expect(Math.max(...asystole.map(Math.abs))).toBeLessThan(0.02);
+  });
+
+  it("drops every fourth beat in Wenckebach and dissociates P waves in complete block", () => {
+    const wenckebach = intervals(peakTimesMs(strip({ rhythm: "av_block_2_mobitz1", hr: 60 })));
+    expect(Math.max(...wenckebach)).toBeGreaterThan(Math.min(...wenckebach) * 1.4);
+    const complete = peakTimesMs(strip({ rhythm: "av_block_3", hr: 45 }));
+    expect(mean(intervals(complete))).toBeCloseTo(60000 / 45, -1);
+  });
+
+  it("widens the QRS with a delta wave and lengthens the QT", () => {
+    const t0 = 60000 / 80 * 0.3;
+    const before = (spec: EcgSpec) => sampleEcg(spec, "II", t0 + 10);
+    expect(before({ rhythm: "sinus", hr: 80, features: { deltaWave: true } })).toBeGreaterThan(before({ rhythm: "sinus", hr: 80 }) + 0.1);
+
+    const afterT = (spec: EcgSpec) => sampleEcg(spec, "II", t0 + 420);
+    expect(afterT({ rhythm: "sinus", hr: 80, features: { qtcMs: 560 } })).toBeGreaterThan(afterT({ rhythm: "sinus", hr: 80 }) + 0.1);
+  });
+
+  it("shifts the ST segment in the named leads only", () => {
+    const spec: EcgSpec = { rhythm: "sinus", hr: 80, features: { stShiftMm: 2, stLeads: ["II", "III", "aVF"] } };
+    const stPoint = 60000 / 80 * 0.3 + 140;
+    expect(sampleEcg(spec, "III", stPoint) - sampleEcg({ rhythm: "sinus", hr: 80 }, "III", stPoint)).toBeGreaterThan(0.15);
+    expect(sampleEcg(spec, "I", stPoint)).toBeCloseTo(sampleEcg({ rhythm: "sinus", hr: 80 }, "I", stPoint), 5);
+  });
+
+  it("derives the limb leads by Einthoven's law", () => {
+    const leads = synthesize12Lead({ rhythm: "sinus", hr: 90 }, { durationMs: 1000, sampleRateHz: 250 });
+    expect(Object.keys(leads)).toEqual([...ECG_LEADS]);
+    expect(Math.min(...leads.aVR)).toBeLessThan(-0.5);
+    expect(Math.max(...leads.II)).toBeGreaterThan(Math.max(...leads.I));
+  });
+});
+
+describe("buildTelemetryWaveform", () => {
+  it("renders a 180-sample lead II strip for the current rhythm", () => {
+    const sinus = buildTelemetryWaveform(90, createRhythm("sinus", 90, "Sinus rhythm"));
+    expect(sinus).toHaveLength(180);
+    expect(sinus).toEqual(buildTelemetryWaveform(90));
+    expect(Math.max(...sinus)).toBeGreaterThan(0.8);
+    expect(Math.max(...buildTelemetryWaveform(90, createRhythm("asystole", 0, "Asystole")))).toBeLessThan(0.02);
+  });
+});
@@ -0,0 +1,68 @@
+import { buildEchoReport as build, classifyCoronaries, gradeLvFunction, summarizeEchoReport } from "../echoReports";
+import { getScenarioDef } from "../scenarioRegistry";
+
+/** Report for a built-in scenario file at the given stage (and phase) */
+function buildEchoReport(scenarioId: string, ...stepIds: string[]) {
+  return build(getScenarioDef(scenarioId)?.echo, stepIds);
+}
+
+describe("echo grading", () => {
+  it("grades LV function from the ejection fraction", () => {
+    expect([75, 62, 50, 35, 25].map(gradeLvFunction)).toEqual([
+      "hyperdynamic",
+      "normal",
+      "mildly reduced",
+      "moderately reduced",
+      "severely reduced",
+    ]);
+  });
+
+  it("classifies coronaries by the largest z-score", () => {
+    expect(classifyCoronaries({ lmca: 1, lad: 1.5, rca: 0.8 })).toBe("No involvement");
+    expect(classifyCoronaries({ lmca: 1, lad: 2.3, rca: 0.8 })).toBe("Dilation only");
+    expect(classifyCoronaries({ lmca: 1, lad: 3.2, rca: 0.8 })).toBe("Small aneurysm");
+    expect(classifyCoronaries({ lmca: 1, lad: 12, rca: 0.8 })).toBe("Large/giant aneurysm");
+  });
+});
+
+describe("buildEchoReport", () => {
+  it("returns a structurally normal study for scenarios without a lesion", () => {
+    const report = buildEchoReport("syncope", "stage_1_baseline");
+    expect(report.lvFunction).toBe("normal");
+    expect(report.ductus).toBe("closed");
+    expect(report.coronaries).toBeUndefined();
+    expect(report.media).toBeUndefined();
+  });
+
+  it("follows the stage", () => {
+    expect(buildEchoReport("myocarditis", "stage_1_baseline").lvef).toBe(40);
+    const decomp = buildEchoReport("myocarditis", "stage_2_decomp");
+    expect(decomp.lvFunction).toBe("severely reduced");
+    expect(decomp.chambers.lv).toMatch(/dilated/);
+    expect(buildEchoReport("coarctation_shock", "stage_2_after_bolus").coarctationGradientMmHg).toBe(45);
+  });
+
+  it("matches stage ids exactly", () => {
+    const profile = { stages: { stage_2_episode: { lvef: 50 } } };
+    expect(build(profile, ["stage_2_episode"]).lvef).toBe(50);
+    expect(build(profile, ["stage_3_post_episode"]).lvef).toBe(62);
+  });
+
+  it("follows the phase of a complex scenario", () => {
+    expect(buildEchoReport("peds_myocarditis_silent_crash_v1", "scene_set", "recognition").lvef).toBe(40);
+    expect(buildEchoReport("peds_myocarditis_silent_crash_v1", "scene_set", "decompensation").lvef).toBe(25);
+  });
+
+  it("reports coronary z-scores for Kawasaki", () => {
+    const fever = buildEchoReport("kawasaki", "stage_1_fever");
+    expect(fever.coronaries).toMatchObject({ lad: 2.3, classification: "Dilation only" });
+    expect(buildEchoReport("kawasaki", "stage_2_incomplete").coronaries?.classification).toBe("Small aneurysm");
+    expect(summarizeEchoReport(fever)).toContain("coronaries: dilation only");
+  });
+
+  it("summarizes the key measurements", () => {
+    const summary = summarizeEchoReport(buildEchoReport("coarctation_shock", "stage_1_shock"));
+    expect(summary).toMatch(/^Severe discrete coarctation/);
+    expect(summary).toContain("EF 30% (moderately reduced); coarctation gradient 25 mmHg.");
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  checkMedicationOrder,
+  expectedDoseRange,
+  getFormularyEntry,
+  hasMedicationError,
+  parseChallengeReply,
+} from "../formulary";
+import { parseMedicationOrder } from "../../speechHelpers";
+
+const child = { weightKg: 20, ageYears: 6, previousDoses: [] as number[] };
+
+function check(drug: string, order: Parameters<typeof checkMedicationOrder>[1], patient = child) {
+  return checkMedicationOrder(getFormularyEntry(drug)!, order, patient);
+}
+
+describe("formulary lookup", () => {
+  it("resolves treatment aliases and ignores non-drug treatments", () => {
+    expect(getFormularyEntry("epi")?.id).toBe("epinephrine");
+    expect(getFormularyEntry("CaCl")?.id).toBe("calcium_chloride");
+    expect(getFormularyEntry("oxygen")).toBeUndefined();
+  });
+
+  it("clamps expected doses to the floor and age-based maximum", () => {
+    const atropine = getFormularyEntry("atropine")!.dose;
+    expect(expectedDoseRange(atropine, 3, 0)).toEqual({ low: 0.1, high: 0.1 });
+    expect(expectedDoseRange(atropine, 60, 10).high).toBe(0.5);
+    expect(expectedDoseRange(atropine, 60, 14).high).toBe(1);
+  });
+});
+
+describe("checkMedicationOrder", () => {
+  it("accepts a correct weight-based dose and an order with no dose", () => {
+    expect(check("adenosine", { dose: 2 }).findings).toEqual([]);
+    expect(check("epinephrine", { route: "iv" }).findings).toEqual([]);
+  });
+
+  it("catches tenfold errors in both directions", () => {
+    expect(check("epinephrine", { dose: 2 }).findings.map((f) => f.kind)).toEqual(["tenfold_overdose"]);
+    expect(check("adenosine", { dose: 0.2 }).findings.map((f) => f.kind)).toEqual(["tenfold_underdose"]);
+    expect(check("epinephrine", { dose: 2 }).findings[0].message).toContain("10 times");
+  });
+
+  it("flags doses outside the range and above the absolute max", () => {
+    expect(check("amiodarone", { dose: 150 }).findings.map((f) => f.kind)).toEqual(["overdose"]);
+    expect(check("adenosine", { dose: 1 }).findings.map((f) => f.kind)).toEqual(["underdose"]);
+    const teen = { weightKg: 70, ageYears: 15, previousDoses: [] };
+    expect(check("adenosine", { dose: 6 }, teen).findings).toEqual([]);
+    expect(check("adenosine", { dose: 7 }, teen).findings.map((f) => f.kind)).toEqual(["overdose"]);
+  });
+
+  it("uses the repeat dose band after a first dose", () => {
+    expect(check("adenosine", { dose: 4 }, { ...child, previousDoses: [2] }).findings).toEqual([]);
+    expect(check("adenosine", { dose: 4 }).findings.map((f) => f.kind)).toEqual(["overdose"]);
+  });
+
+  it("turns the IM concentration given IV by volume into a tenfold overdose", () => {
+    // 0.1 mL/kg is right for 1:10,000; drawn from 1:1,000 it is 2 mg
+    const result = check("epinephrine", { route: "iv", concentration: "1:1,000", volumeMl: 2 });
+    expect(result.dose).toBe(2);
+    expect(result.findings.map((f) => f.kind)).toEqual(["wrong_concentration", "tenfold_overdose"]);
+    expect(result.findings[0].message).toContain("IM concentration");
+    expect(check("epinephrine", { route: "im", concentration: "1 mg/mL", dose: 0.2 }).findings).toEqual([]);
+  });
+
+  it("applies per-route maxima and route restrictions", () => {
+    const teen = { weightKg: 70, ageYears: 15, previousDoses: [] };
+    expect(check("epinephrine", { route: "im", dose: 0.7 }, teen).findings.map((f) => f.kind)).toEqual(["overdose"]);
+    expect(check("epinephrine", { route: "iv", dose: 0.7 }, teen).findings).toEqual([]);
+    expect(check("adenosine", { route: "im", dose: 2 }).findings.map((f) => f.kind)).toEqual(["wrong_route"]);
+  });
+
+  it("tracks cumulative maxima across doses", () => {
+    expect(check("atropine", { dose: 0.4 }, { ...child, previousDoses: [0.4, 0.4] }).findings.map((f) => f.kind)).toEqual([
+      "cumulative_max",
+    ]);
+    expect(check("amiodarone", { dose: 100 }, { ...child, previousDoses: [100, 100, 100] }).findings.map((f) => f.kind)).toEqual([
+      "cumulative_max",
+    ]);
+  });
+});
+
+describe("hasMedicationError", () => {
+  it("separates critical from other errors", () => {
+    const base = { ts: 1, drug: "epinephrine", unit: "mg", message: "", administered: false };
+    const errors = [{ ...base, kind: "overdose" as const }];
+    expect(hasMedicationError(errors, false)).toBe(true);
+    expect(hasMedicationError(errors, true)).toBe(false);
+    expect(hasMedicationError([{ ...base, kind: "wrong_concentration" }], true)).toBe(true);
+    expect(hasMedicationError(undefined, false)).toBe(false);
+  });
+});
+
+describe("spoken medication orders", () => {
+  it("reads the drug, dose, route and concentration", () => {
+    expect(parseMedicationOrder("Nurse, give epi 0.2 milligrams IV")).toEqual({ drug: "epinephrine", dose: 0.2, route: "iv" });
+    expect(parseMedicationOrder("Draw up 2 mL of 1:1,000 epinephrine and push it IV")).toEqual({
+      drug: "epinephrine",
+      volumeMl: 2,
+      route: "iv",
+      concentration: "1:1000",
+    });
+    expect(parseMedicationOrder("adenosine 0.1 mg per kilo rapid push")).toEqual({ drug: "adenosine", dosePerKg: 0.1 });
+    expect(parseMedicationOrder("calcium chloride 400 mg IO")).toEqual({ drug: "calcium_chloride", dose: 400, route: "io" });
+    expect(parseMedicationOrder("atropine 200 mcg")).toEqual({ drug: "atropine", dose: 0.2 });
+  });
+
+  it("needs a drug and an amount or an ordering verb", () => {
+    expect(parseMedicationOrder("let's give adenosine")).toEqual({ drug: "adenosine" });
+    expect(parseMedicationOrder("is she on any aspirin at home?")).toBeNull();
+    expect(parseMedicationOrder("give 20 mL per kilo of saline")).toBeNull();
+  });
+
+  it("reads replies to a challenge", () => {
+    expect(parseChallengeReply("Confirmed, give it")).toBe("confirm");
+    expect(parseChallengeReply("Yes, give it anyway")).toBe("confirm");
+    expect(parseChallengeReply("No, cancel that")).toBe("cancel");
+    expect(parseChallengeReply("Don't give it")).toBe("cancel");
+    expect(parseChallengeReply("What's the heart rate?")).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  createInitialGenericState,
+  GENERIC_PHYSIOLOGY_RULES,
+  normalizeTreatment,
+  recordGenericTreatment,
+  runGenericPhysiology,
+} from "../genericPhysiology";
+import { ScenarioEngine } from "../scenarioEngine";
+import { getScenarioDef } from "../scenarioRegistry";
+import type { ScenarioId } from "../scenarioTypes";
+import { hasGenericExtended } from "../types";
+
+const SIMPLE_SCENARIOS = [
+  "syncope",
+  "exertional_chest_pain",
+  "palpitations_svt",
+  "myocarditis",
+  "exertional_syncope_hcm",
+  "ductal_shock",
+  "cyanotic_spell",
+  "kawasaki",
+  "coarctation_shock",
+  "arrhythmogenic_syncope",
+];
+
+function startEngine(scenarioId: ScenarioId, nowMs: number): ScenarioEngine {
+  const engine = new ScenarioEngine(`sim-${scenarioId}`, scenarioId);
+  engine.hydrate({ extended: createInitialGenericState(nowMs) });
+  return engine;
+}
+
+function give(engine: ScenarioEngine, treatmentType: string, nowMs: number, dose?: number) {
+  const state = engine.getState();
+  if (!hasGenericExtended(state)) throw new Error("expected generic extended state");
+  engine.updateExtended(recordGenericTreatment(state.extended, treatmentType, { dose, weightKg: engine.getPatientWeight() }, nowMs));
+  return runGenericPhysiology(engine, nowMs);
+}
+
+function flags(engine: ScenarioEngine): Record<string, boolean> {
+  const state = engine.getState();
+  return hasGenericExtended(state) ? state.extended.flags : {};
+}
+
+function sbp(engine: ScenarioEngine): number {
+  return Number((engine.getState().vitals.bp ?? "0/0").split("/")[0]);
+}
+
+describe("GENERIC_PHYSIOLOGY_RULES", () => {
+  it("covers each simple scenario", () => {
+    SIMPLE_SCENARIOS.forEach((id) => expect(GENERIC_PHYSIOLOGY_RULES[id]?.length).toBeGreaterThan(0));
+  });
+
+  it("only references stages that exist in the scenario files", () => {
+    Object.entries(GENERIC_PHYSIOLOGY_RULES).forEach(([scenarioId, rules]) => {
+      const stageIds = new Set(getScenarioDef(scenarioId)?.stages.map((s) => s.id));
+      rules.forEach((rule) => {
+        rule.conditions.forEach((c) => {
+          if (c.type === "stage_is") expect(stageIds).toContain(c.stageId);
+        });
+        rule.effects.forEach((e) => {
+          if (e.type === "advance_stage") expect(stageIds).toContain(e.to);
+        });
+      });
+    });
+  });
+
+  it("limits how often every rule can fire", () => {
+    Object.values(GENERIC_PHYSIOLOGY_RULES)
+      .flat()
+      .forEach((rule) => expect(rule.maxTriggers ?? rule.cooldownSeconds).toBeDefined());
+  });
+});
+
+describe("recordGenericTreatment", () => {
+  it("normalizes handler aliases", () => {
+    expect(normalizeTreatment("Alprostadil")).toBe("pge1");
+    expect(normalizeTreatment("knee-chest")).toBe("knee_chest");
+    expect(normalizeTreatment("o2")).toBe("oxygen");
+  });
+
+  it("tracks fluid boluses per kg", () => {
+    const ext = recordGenericTreatment(createInitialGenericState(1000), "bolus", { weightKg: 3.5 }, 2000);
+    expect(ext.treatments).toEqual([{ ts: 2000, treatment: "fluids" }]);
+    expect(ext.fluids[0]).toMatchObject({ totalMl: 70, mlKg: 20 });
+  });
+});
+
+describe("runGenericPhysiology", () => {
+  it("does nothing without generic extended state", () => {
+    const engine = new ScenarioEngine("sim-plain", "ductal_shock");
+    expect(runGenericPhysiology(engine)).toBeNull();
+  });
+
+  it("reopens the duct after PGE1 and advances ductal shock", () => {
+    const now = Date.now();
+    const engine = startEngine("ductal_shock", now);
+    const initialSbp = sbp(engine);
+
+    expect(give(engine, "prostaglandin", now)?.triggeredRules).toContain("pge1_reopens_duct");
+    expect(flags(engine).ductOpen).toBeUndefined();
+
+    const opened = runGenericPhysiology(engine, now + 60_000);
+    expect(opened?.nurseLine).toMatch(/Femoral pulses/);
+    expect(flags(engine).ductOpen).toBe(true);
+    expect(sbp(engine)).toBeGreaterThan(initialSbp);
+
+    const advanced = runGenericPhysiology(engine, now + 65_000);
+    expect(advanced?.stageChangedTo).toBe("stage_2_improving");
+    expect(engine.getState().stageId).toBe("stage_2_improving");
+  });
+
+  it("drops systemic pressure when oxygen is given in ductal-dependent shock", () => {
+    const now = Date.now();
+    const engine = startEngine("coarctation_shock", now);
+    const initialSbp = sbp(engine);
+
+    give(engine, "oxygen", now);
+    const result = runGenericPhysiology(engine, now + 30_000);
+    expect(result?.nurseLine).toMatch(/pressure is drifting down/);
+    expect(sbp(engine)).toBeLessThan(initialSbp);
+  });
+
+  it("flags fluid overload at 40 mL/kg for the infant's weight", () => {
+    const now = Date.now();
+    const engine = startEngine("ductal_shock", now);
+    give(engine, "fluids", now, 70);
+    expect(flags(engine).pulmonaryEdema).toBeUndefined();
+    give(engine, "fluids", now + 1000, 70);
+    expect(flags(engine).pulmonaryEdema).toBe(true);
+  });
+
+  it("breaks a tet spell with knee-chest and oxygen", () => {
+    const now = Date.now();
+    const engine = startEngine("cyanotic_spell", now);
+    engine.setStage("stage_2_spell");
+    const spellSpo2 = engine.getState().vitals.spo2 ?? 0;
+
+    give(engine, "knee-chest", now);
+    expect(engine.getState().vitals.spo2).toBeGreaterThan(spellSpo2);
+    expect(engine.getState().stageId).toBe("stage_2_spell");
+
+    const result = give(engine, "oxygen", now + 1000);
+    expect(result?.stageChangedTo).toBe("stage_3_recovery");
+  });
+
+  it("breaks a tet spell with morphine after a short delay", () => {
+    const now = Date.now();
+    const engine = startEngine("cyanotic_spell", now);
+    engine.setStage("stage_2_spell");
+
+    give(engine, "morphine", now);
+    expect(engine.getState().stageId).toBe("stage_2_spell");
+    expect(runGenericPhysiology(engine, now + 30_000)?.stageChangedTo).toBe("stage_3_recovery");
+  });
+
+  it("deepens an untreated spell", () => {
+    const now = Date.now();
+    const engine = startEngine("cyanotic_spell", now);
+    engine.setStage("stage_2_spell");
+    const spellSpo2 = engine.getState().vitals.spo2 ?? 0;
+
+    const result = runGenericPhysiology(engine, now + 61_000);
+    expect(result?.triggeredRules).toEqual(["spell_deepens"]);
+    expect(engine.getState().vitals.spo2).toBeLessThan(spellSpo2);
+  });
+
+  it("worsens LVOT obstruction with epinephrine in HCM", () => {
+    const now = Date.now();
+    const engine = startEngine("exertional_syncope_hcm", now);
+    const initialSbp = sbp(engine);
+    const result = give(engine, "epi", now);
+    expect(result?.triggeredRules).toEqual(["inotrope_worsens_obstruction"]);
+    expect(sbp(engine)).toBeLessThan(initialSbp);
+  });
+
+  it("does not re-fire a rule past maxTriggers", () => {
+    const now = Date.now();
+    const engine = startEngine("kawasaki", now);
+    expect(give(engine, "aspirin", now)?.triggeredRules).toEqual(["aspirin_given"]);
+    expect(give(engine, "aspirin", now + 10_000)?.triggeredRules).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  DEFAULT_LAB_PANELS,
+  buildLabResults,
+  criticalLabValues,
+  flagValue,
+  parseLabPanels,
+  resolveLabPanels,
+  summarizeLabResults,
+} from "../labPanels";
+import { getScenarioDef } from "../scenarioRegistry";
+
+const SCHOOL_AGE = 10 * 12;
+const INFANT = 2;
+
+/** Results from a built-in scenario file's lab profile at the given stage (and phase) */
+function labsFor(panels: Parameters<typeof buildLabResults>[0], scenarioId: string, stepIds: string[], ageMonths: number) {
+  return buildLabResults(panels, getScenarioDef(scenarioId)?.labs, stepIds, ageMonths);
+}
+
+function valueOf(results: ReturnType<typeof buildLabResults>, id: string) {
+  return results.flatMap((r) => r.values).find((v) => v.id === id);
+}
+
+describe("lab panel selection", () => {
+  it("resolves ids and aliases and defaults to every panel", () => {
+    expect(resolveLabPanels(["ABG", "trop", "cbc", "trop"])).toEqual(["cbc", "troponin", "blood_gas"]);
+    expect(resolveLabPanels("blood culture")).toEqual(["blood_culture"]);
+    expect(resolveLabPanels(["unknown"])).toEqual(DEFAULT_LAB_PANELS);
+    expect(resolveLabPanels(undefined)).toEqual(DEFAULT_LAB_PANELS);
+  });
+
+  it("finds panels named in speech", () => {
+    expect(parseLabPanels("send a troponin and a VBG please")).toEqual(["troponin", "blood_gas"]);
+    expect(parseLabPanels("repeat the lactate")).toEqual(["lactate"]);
+    expect(parseLabPanels("draw labs")).toEqual([]);
+  });
+});
+
+describe("flagValue", () => {
+  it("flags against the range and critical limits", () => {
+    const range = { low: 3.4, high: 4.7 };
+    const critical = { low: 2.5, high: 6.5 };
+    expect(flagValue(4, range, critical)).toBeUndefined();
+    expect(flagValue(5.2, range, critical)).toBe("H");
+    expect(flagValue(3.1, range, critical)).toBe("L");
+    expect(flagValue(7, range, critical)).toBe("HH");
+    expect(flagValue(2.1, range, critical)).toBe("LL");
+  });
+});
+
+describe("buildLabResults", () => {
+  it("returns age-normal unflagged values for a well scenario", () => {
+    const results = labsFor(DEFAULT_LAB_PANELS, "syncope", ["stage_1_baseline"], 15 * 12);
+    expect(results.flatMap((r) => r.values).filter((v) => v.flag)).toEqual([]);
+    expect(valueOf(results, "culture")?.value).toMatch(/no growth/i);
+    expect(summarizeLabResults(results)).toContain("CBC normal");
+  });
+
+  it("uses age-specific reference ranges", () => {
+    const infant = valueOf(labsFor(["cbc"], "syncope", [], INFANT), "hgb");
+    const child = valueOf(labsFor(["cbc"], "syncope", [], SCHOOL_AGE), "hgb");
+    expect([infant?.refLow, infant?.refHigh]).toEqual([9.5, 13.5]);
+    expect([child?.refLow, child?.refHigh]).toEqual([11.5, 15.5]);
+  });
+
+  it("moves with the scenario stage", () => {
+    const baseline = labsFor(["troponin", "lactate"], "myocarditis", ["stage_1_baseline"], SCHOOL_AGE);
+    const decomp = labsFor(["troponin", "lactate"], "myocarditis", ["stage_2_decomp"], SCHOOL_AGE);
+    expect(valueOf(baseline, "troponin_i")).toMatchObject({ value: 2.6, flag: "H" });
+    expect(valueOf(baseline, "lactate")?.flag).toBeUndefined();
+    expect(valueOf(decomp, "troponin_i")?.value).toBeGreaterThan(2.6);
+    expect(valueOf(decomp, "lactate")).toMatchObject({ value: 4.8, flag: "HH" });
+    expect(criticalLabValues(decomp)).toBe("Critical: Lactate 4.8 mmol/L (HH)");
+    expect(criticalLabValues(baseline)).toBeUndefined();
+  });
+
+  it("keys stage values on the exact stage id", () => {
+    expect(valueOf(labsFor(["lactate"], "palpitations_svt", ["stage_2_episode"], SCHOOL_AGE), "lactate")?.value).toBe(2.4);
+    expect(valueOf(labsFor(["lactate"], "palpitations_svt", ["stage_3_post_episode"], SCHOOL_AGE), "lactate")?.flag).toBeUndefined();
+  });
+
+  it("follows the phase of a complex scenario", () => {
+    const recognition = labsFor(["lactate"], "peds_myocarditis_silent_crash_v1", ["scene_set", "recognition"], SCHOOL_AGE);
+    const decomp = labsFor(["lactate"], "peds_myocarditis_silent_crash_v1", ["scene_set", "decompensation"], SCHOOL_AGE);
+    expect(valueOf(recognition, "lactate")?.value).toBe(1.8);
+    expect(valueOf(decomp, "lactate")).toMatchObject({ value: 4.8, flag: "HH" });
+  });
+
+  it("gives every scenario a result for every panel", () => {
+    const results = labsFor(DEFAULT_LAB_PANELS, "ductal_shock", ["stage_1_shock"], 1);
+    expect(results.map((r) => r.panel)).toEqual(DEFAULT_LAB_PANELS);
+    expect(valueOf(results, "ph")?.flag).toBe("LL");
+    expect(summarizeLabResults(results)).toContain("Blood gas: pH 7.12 (LL)");
+  });
+});
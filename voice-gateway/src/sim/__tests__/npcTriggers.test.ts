@@ -0,0 +1,150 @@
+import { createInitialGenericState, recordGenericTreatment } from "../genericPhysiology";
+import { ScenarioEngine } from "../scenarioEngine";
+import { getScenarioDef, listScenarioIds } from "../scenarioRegistry";
+import { scenarioFileSchema } from "../scenarioSchema";
+import { createManualClock, createSeededRandom } from "../simClock";
+import {
+  createNpcTriggerState,
+  evaluateTriggers,
+  pickNextTrigger,
+  runNpcTriggers,
+  triggerLine,
+} from "../triggers/runtime";
+import type { NpcTrigger } from "../triggers/types";
+import type { RubricContext } from "../rubric";
+import { hasGenericExtended } from "../types";
+
+const START = 1_000_000;
+
+const TRIGGERS: NpcTrigger[] = [
+  { id: "worry", character: "parent", line: "Is she okay?", cooldownSeconds: 60 },
+  { id: "check", character: "nurse", line: "Want a 12-lead?", when: { type: "stage", stageId: "stage_2" }, maxFires: 1 },
+  {
+    id: "crash",
+    character: "nurse",
+    line: "Pressure's crashing!",
+    variants: ["BP is tanking!", "We're losing the pressure!"],
+    priority: "critical",
+    when: { type: "vital", vital: "sbp", op: "lt", value: 70 },
+  },
+];
+
+function context(stageId: string, bp: string): RubricContext {
+  return { state: { stageId, vitals: { hr: 150, bp } }, turns: [], scenarioStartTime: START, nowMs: START };
+}
+
+describe("evaluateTriggers", () => {
+  it("returns the triggers whose conditions hold, most urgent first", () => {
+    const fired = evaluateTriggers(TRIGGERS, context("stage_2", "62/30"), {}, { now: START });
+    expect(fired.map((t) => t.triggerId)).toEqual(["crash", "worry", "check"]);
+    expect(fired[0]).toMatchObject({ character: "nurse", priority: "critical", line: "Pressure's crashing!" });
+    expect(evaluateTriggers(TRIGGERS, context("stage_1", "90/50"), {}, { now: START }).map((t) => t.triggerId)).toEqual([
+      "worry",
+    ]);
+  });
+
+  it("filters by character and honors cooldowns and fire limits", () => {
+    const history = {
+      worry: { lastFired: START - 30_000, fireCount: 1 },
+      check: { lastFired: START - 600_000, fireCount: 1 },
+    };
+    expect(evaluateTriggers(TRIGGERS, context("stage_2", "62/30"), history, { now: START }).map((t) => t.triggerId)).toEqual([
+      "crash",
+    ]);
+    expect(evaluateTriggers(TRIGGERS, context("stage_2", "62/30"), history, { now: START + 30_000, character: "parent" })).toHaveLength(1);
+  });
+
+  it("rotates line variants from the session offset", () => {
+    const [, , crash] = TRIGGERS;
+    expect([0, 1, 2, 3].map((count) => triggerLine(crash, count))).toEqual([
+      "Pressure's crashing!",
+      "BP is tanking!",
+      "We're losing the pressure!",
+      "Pressure's crashing!",
+    ]);
+    expect(triggerLine(crash, 0, 2)).toBe("We're losing the pressure!");
+    expect(triggerLine(TRIGGERS[0], 5, 7)).toBe("Is she okay?");
+  });
+});
+
+describe("pickNextTrigger", () => {
+  const fired = evaluateTriggers(TRIGGERS, context("stage_1", "90/50"), {}, { now: START });
+
+  it("always speaks a nurse line, and lets others interject by chance", () => {
+    const nurse = evaluateTriggers(TRIGGERS, context("stage_2", "90/50"), {}, { now: START });
+    expect(pickNextTrigger(nurse, () => 0.99)?.triggerId).toBe("check");
+    expect(pickNextTrigger(fired, () => 0.1)?.triggerId).toBe("worry");
+    expect(pickNextTrigger(fired, () => 0.99)).toBeNull();
+  });
+});
+
+describe("runNpcTriggers", () => {
+  function ductalEngine() {
+    const clock = createManualClock(START);
+    const engine = new ScenarioEngine("sim-npc", "ductal_shock", clock);
+    engine.hydrate({ extended: createInitialGenericState(START) });
+    return { clock, engine };
+  }
+
+  it("fires simple-scenario triggers on the scenario clock and applies their vitals change", () => {
+    const { clock, engine } = ductalEngine();
+    const npc = createNpcTriggerState(createSeededRandom(7));
+    const rng = createSeededRandom(1);
+    const hr = engine.getState().vitals.hr ?? 0;
+
+    clock.advance(300_000);
+    const fired = runNpcTriggers(engine, npc, rng);
+    expect(fired).toMatchObject({ triggerId: "untreated_shock_worsening", character: "nurse", priority: "high" });
+    expect(engine.getState().vitals.hr).toBe(hr + 6);
+    expect(npc.history.untreated_shock_worsening).toEqual({ lastFired: START + 300_000, fireCount: 1 });
+
+    // On cooldown, then stopped by the treatment it asks for
+    clock.advance(60_000);
+    expect(runNpcTriggers(engine, npc, rng)?.triggerId).not.toBe("untreated_shock_worsening");
+    const state = engine.getState();
+    if (hasGenericExtended(state)) {
+      engine.updateExtended(recordGenericTreatment(state.extended, "pge1", { weightKg: 3.5 }, clock.now()));
+    }
+    clock.advance(300_000);
+    expect(runNpcTriggers(engine, npc, rng)?.triggerId).not.toBe("untreated_shock_worsening");
+  });
+
+  it("draws the same lines for the same session seed", () => {
+    const lines = () => {
+      const { clock, engine } = ductalEngine();
+      const npc = createNpcTriggerState(createSeededRandom(42));
+      const rng = createSeededRandom(42);
+      return [0, 1, 2, 3, 4].map(() => {
+        clock.advance(100_000);
+        return runNpcTriggers(engine, npc, rng)?.line ?? null;
+      });
+    };
+    expect(lines()).toEqual(lines());
+  });
+});
+
+describe("scenario triggers", () => {
+  it("ships triggers with every built-in scenario, referencing real stages", () => {
+    listScenarioIds().forEach((id) => {
+      const scenario = getScenarioDef(id);
+      expect(scenario?.triggers?.length).toBeGreaterThan(0);
+      const stageIds = new Set(scenario?.stages.map((s) => s.id));
+      const stagesIn = (value: unknown): string[] =>
+        typeof value !== "object" || value === null
+          ? []
+          : Object.entries(value).flatMap(([key, v]) => (key === "stageId" && typeof v === "string" ? [v] : stagesIn(v)));
+      scenario?.triggers?.forEach((trigger) => stagesIn(trigger.when).forEach((stageId) => expect(stageIds).toContain(stageId)));
+    });
+  });
+
+  it("rejects duplicate ids and malformed triggers", () => {
+    const scenario = getScenarioDef("ductal_shock");
+    const parse = (triggers: unknown) => scenarioFileSchema.safeParse({ ...scenario, triggers }).success;
+    const trigger = { id: "a", character: "nurse", line: "Hi" };
+
+    expect(parse([trigger])).toBe(true);
+    expect(parse([trigger, { ...trigger, line: "Again" }])).toBe(false);
+    expect(parse([{ ...trigger, character: "doctor" }])).toBe(false);
+    expect(parse([{ ...trigger, when: { type: "vital", vital: "bp", op: "lt", value: 70 } }])).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+import {
+  calculateTotalFluidsMlKg,
+  createInitialMyocarditisState,
+  createPhysiologyContext,
+  evaluatePhysiology,
+} from "../physiologyEngine";
+import { ScenarioEngine } from "../scenarioEngine";
+import { getScenarioDef } from "../scenarioRegistry";
+import type { PhysiologyRule } from "../scenarioTypes";
+import type { SimState } from "../types";
+
+const infant = createPhysiologyContext({ ageYears: 0, ageMonths: 1, weightKg: 3.5 });
+const schoolAge = createPhysiologyContext({ ageYears: 10, weightKg: 32 });
+const teen = createPhysiologyContext({ ageYears: 15, weightKg: 50 });
+
+function simState(vitals: SimState["vitals"]): SimState {
+  return { simId: "test", scenarioId: "myocarditis", stageId: "stage_1", vitals, fallback: false };
+}
+
+describe("createPhysiologyContext", () => {
+  it("derives age band norms from demographics", () => {
+    expect(infant.norms.band).toBe("infant");
+    expect(schoolAge.norms.band).toBe("school_age");
+    expect(teen.norms.band).toBe("adolescent");
+    expect(infant.ageMonths).toBe(1);
+    expect(teen.weightKg).toBe(50);
+  });
+
+  it("is exposed by the scenario engine for the running scenario", () => {
+    const ductal = new ScenarioEngine("sim-ductal", "ductal_shock").getPhysiologyContext();
+    expect(ductal.weightKg).toBe(3.5);
+    expect(ductal.norms.band).toBe("infant");
+
+    const syncope = new ScenarioEngine("sim-syncope", "syncope").getPhysiologyContext();
+    expect(syncope.norms.band).toBe("adolescent");
+  });
+});
+
+describe("fluids_ml_kg_in_window", () => {
+  const rule: PhysiologyRule = {
+    id: "overload",
+    name: "Overload",
+    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 20, windowMinutes: 10 }],
+    effects: [{ type: "set_flag", flag: "pulmonaryEdema", value: true }],
+  };
+
+  it("doses the delivered volume against the patient's weight", () => {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    // 200 mL recorded as 6 mL/kg for a 32 kg child is ~57 mL/kg for a 3.5 kg infant
+    extended.fluids = [{ ts: now - 60_000, mlKg: 6, totalMl: 200, type: "NS" }];
+
+    expect(evaluatePhysiology(simState({}), extended, [rule], now, schoolAge).triggeredRules).toEqual([]);
+    expect(evaluatePhysiology(simState({}), extended, [rule], now, infant).triggeredRules).toEqual(["overload"]);
+  });
+
+  it("ignores boluses outside the window", () => {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    extended.fluids = [{ ts: now - 15 * 60_000, mlKg: 20, totalMl: 1000, type: "NS" }];
+    expect(evaluatePhysiology(simState({}), extended, [rule], now, teen).triggeredRules).toEqual([]);
+  });
+
+  it("falls back to the recorded mL/kg without a context", () => {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    extended.fluids = [{ ts: now - 60_000, mlKg: 20, totalMl: 640, type: "NS" }];
+    expect(evaluatePhysiology(simState({}), extended, [rule], now).triggeredRules).toEqual(["overload"]);
+  });
+
+  it("totals fluids per kg for the patient", () => {
+    const fluids = [
+      { ts: 0, mlKg: 10, totalMl: 500, type: "NS" as const },
+      { ts: 1, mlKg: 10, totalMl: 500, type: "LR" as const },
+    ];
+    expect(calculateTotalFluidsMlKg(fluids, teen)).toBe(20);
+    expect(calculateTotalFluidsMlKg(fluids)).toBe(20);
+  });
+});
+
+describe("age-relative conditions", () => {
+  const tachycardia: PhysiologyRule = {
+    id: "tachycardia",
+    name: "Tachycardia for age",
+    conditions: [{ type: "vital_vs_age_norm", vital: "hr", comparison: "above" }],
+    effects: [{ type: "nurse_line", line: "Heart rate is high for age." }],
+  };
+
+  it("evaluates the same heart rate differently across age bands", () => {
+    const now = Date.now();
+    const state = simState({ hr: 140 });
+    const run = (ctx?: ReturnType<typeof createPhysiologyContext>) =>
+      evaluatePhysiology(state, createInitialMyocarditisState(now), [tachycardia], now, ctx).triggeredRules;
+
+    expect(run(infant)).toEqual([]);
+    expect(run(schoolAge)).toEqual(["tachycardia"]);
+    expect(run(teen)).toEqual(["tachycardia"]);
+    expect(run()).toEqual([]);
+  });
+
+  it("reads systolic pressure from the bp string and honors the margin", () => {
+    const now = Date.now();
+    const hypotension: PhysiologyRule = {
+      id: "hypotension",
+      name: "Hypotension for age",
+      conditions: [{ type: "vital_vs_age_norm", vital: "sbp", comparison: "below", margin: 10 }],
+      effects: [],
+    };
+    const state = simState({ bp: "80/45" });
+    const run = (ctx: ReturnType<typeof createPhysiologyContext>) =>
+      evaluatePhysiology(state, createInitialMyocarditisState(now), [hypotension], now, ctx).triggeredRules;
+
+    expect(run(infant)).toEqual([]);
+    expect(run(schoolAge)).toEqual(["hypotension"]);
+    expect(run(teen)).toEqual(["hypotension"]);
+  });
+
+  it("matches age bands", () => {
+    const now = Date.now();
+    const rule: PhysiologyRule = {
+      id: "small",
+      name: "Small patient",
+      conditions: [{ type: "age_band_in", bands: ["neonate", "infant"] }],
+      effects: [],
+    };
+    expect(evaluatePhysiology(simState({}), createInitialMyocarditisState(now), [rule], now, infant).triggeredRules).toEqual(["small"]);
+    expect(evaluatePhysiology(simState({}), createInitialMyocarditisState(now), [rule], now, teen).triggeredRules).toEqual([]);
+  });
+
+  it("checks the dose of the named infusion", () => {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    extended.activeInotropes = [{ drug: "milrinone", doseMcgKgMin: 0.5, startedAt: now }];
+    const rule: PhysiologyRule = {
+      id: "milrinone_load",
+      name: "Milrinone",
+      conditions: [{ type: "inotrope_dose_gte", drug: "milrinone", doseMcgKgMin: 0.5 }],
+      effects: [],
+    };
+    expect(evaluatePhysiology(simState({}), extended, [rule], now, infant).triggeredRules).toEqual(["milrinone_load"]);
+  });
+});
+
+describe("age-scaled effects", () => {
+  function epiResponse(ctx?: ReturnType<typeof createPhysiologyContext>) {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    extended.activeInotropes = [{ drug: "epi", doseMcgKgMin: 0.1, startedAt: now - 3 * 60_000 }];
+    const rules = (getScenarioDef("peds_myocarditis_silent_crash_v1")?.physiologyRules ?? []).filter((r) => r.id === "epi_response");
+    const state = simState({ hr: 120, bp: "80/45" });
+    evaluatePhysiology(state, extended, rules, now, ctx);
+    // The epi response is delayed two minutes
+    return evaluatePhysiology(state, extended, rules, now + 120_000, ctx).vitalsDelta;
+  }
+
+  it("leaves the school-age reference deltas unchanged", () => {
+    expect(epiResponse(schoolAge)).toEqual(epiResponse());
+  });
+
+  it("scales heart rate and pressure responses to the patient's norms", () => {
+    const reference = epiResponse(schoolAge)!;
+    const infantDelta = epiResponse(infant)!;
+    const teenDelta = epiResponse(teen)!;
+
+    expect(infantDelta.hr!).toBeGreaterThan(reference.hr!);
+    expect(infantDelta.sbp!).toBeLessThan(reference.sbp!);
+    expect(teenDelta.hr!).toBeLessThan(reference.hr!);
+    expect(teenDelta.sbp!).toBeGreaterThan(reference.sbp!);
+  });
+
+  it("applies the context to delayed effects", () => {
+    const now = Date.now();
+    const extended = createInitialMyocarditisState(now);
+    extended.pendingEffects = [
+      { ruleId: "delayed", effect: { type: "vitals_delta", hr: 10, scaleByAge: true }, executeAt: now - 1 },
+    ];
+    expect(evaluatePhysiology(simState({}), extended, [], now, infant).vitalsDelta?.hr).toBe(14);
+  });
+});
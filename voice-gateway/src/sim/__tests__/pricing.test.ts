@@ -0,0 +1,40 @@
+import { DEFAULT_PRICING, loadPricing, priceUsage } from "../pricing";
+
+describe("priceUsage", () => {
+  beforeEach(() => jest.spyOn(console, "log").mockImplementation(() => {}));
+  afterEach(() => jest.restoreAllMocks());
+
+  test("bills each modality on its own unit", () => {
+    expect(priceUsage({ modality: "chat", model: "gpt-4.1-mini", inputTokens: 1e6, outputTokens: 1e6 })).toBeCloseTo(2);
+    expect(priceUsage({ modality: "stt", model: "whisper-1", audioSeconds: 90 })).toBeCloseTo(0.009);
+    expect(priceUsage({ modality: "tts", model: "tts-1-hd", characters: 1000 })).toBeCloseTo(0.03);
+  });
+
+  test("bills realtime audio tokens at the audio rate", () => {
+    const usd = priceUsage({
+      modality: "realtime",
+      model: "gpt-4o-mini-realtime-preview",
+      inputTokens: 1e6,
+      outputTokens: 1e6,
+      inputAudioTokens: 5e5,
+      outputAudioTokens: 1e6,
+    });
+    // text in 0.5M × $0.6, audio in 0.5M × $10, audio out 1M × $20
+    expect(usd).toBeCloseTo(0.3 + 5 + 20);
+  });
+
+  test("never prices an unknown model as free", () => {
+    const known = priceUsage({ modality: "chat", model: "gpt-4o", inputTokens: 1e6 });
+    expect(priceUsage({ modality: "chat", model: "gpt-9-preview", inputTokens: 1e6 })).toBe(known);
+    expect(console.log).toHaveBeenCalledTimes(1);
+  });
+
+  test("merges a valid MODEL_PRICING_JSON and ignores an invalid one", () => {
+    const table = loadPricing({ MODEL_PRICING_JSON: JSON.stringify({ "gpt-4.1-mini": { inputPerMTok: 1 }, house: { perMChars: 2 } }) });
+    expect(table["gpt-4.1-mini"]).toEqual({ inputPerMTok: 1 });
+    expect(priceUsage({ modality: "tts", model: "house", characters: 1e6 }, table)).toBe(2);
+
+    expect(loadPricing({ MODEL_PRICING_JSON: '{"tts-1": {"perMChars": -1}}' })).toEqual(DEFAULT_PRICING);
+    expect(loadPricing({ MODEL_PRICING_JSON: "not json" })).toEqual(DEFAULT_PRICING);
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  createRhythm,
+  describeRhythm,
+  isArrestRhythm,
+  isShockableRhythm,
+  rhythmFromSpec,
+  rhythmToEcgSpec,
+  withRhythmRate,
+} from "../rhythm";
+import { ScenarioEngine } from "../scenarioEngine";
+import { validateSimStateMessage } from "../../validators";
+
+describe("rhythmFromSpec", () => {
+  it("writes the summary from the declared rhythm", () => {
+    expect(describeRhythm({ code: "sinus", detail: "normal intervals" })).toBe("Sinus Rhythm, normal intervals");
+    expect(describeRhythm({ code: "svt", rateBpm: 220, detail: "narrow complex" })).toBe("SVT 220 bpm, narrow complex");
+    expect(
+      describeRhythm({
+        code: "sinus_tachycardia",
+        rateBpm: 145,
+        conduction: { ectopy: "pvcs" },
+        features: { lowVoltage: true, stShiftMm: -1.5, stLeads: ["V4", "V5", "V6"] },
+      })
+    ).toBe("Sinus Tachycardia 145 bpm with PVCs, low voltage, ST depression (V4, V5, V6)");
+    expect(describeRhythm({ code: "vt", pulsePresent: false })).toBe("Pulseless V-Tach");
+    expect(describeRhythm({ code: "vf", rateBpm: 300 })).toBe("V-Fib");
+  });
+
+  it("carries rate, pulse and conduction details", () => {
+    expect(rhythmFromSpec({ code: "svt", rateBpm: 180 })).toMatchObject({
+      rateBpm: 180,
+      regularity: "regular",
+      pulsePresent: true,
+      conduction: { pWaves: "absent", qrs: "narrow" },
+      summary: "SVT 180 bpm",
+    });
+    expect(rhythmFromSpec({ code: "svt", rateBpm: 180 }, 172).rateBpm).toBe(172);
+    expect(rhythmFromSpec({ code: "sinus", conduction: { ectopy: "pvcs" } }).conduction).toEqual({
+      pWaves: "normal",
+      qrs: "narrow",
+      ectopy: "pvcs",
+    });
+    expect(rhythmFromSpec({ code: "vt", pulsePresent: false }).pulsePresent).toBe(false);
+    expect(rhythmFromSpec({ code: "vf" }, 180)).toMatchObject({ code: "vf", rateBpm: 0, pulsePresent: false });
+    expect(rhythmFromSpec({ code: "sinus_tachycardia", features: { lowVoltage: true } }).features).toEqual({ lowVoltage: true });
+  });
+
+  it("keeps rate-less rhythms at zero when the rate changes", () => {
+    const asystole = createRhythm("asystole", 0, "Asystole");
+    expect(withRhythmRate(asystole, 60)).toBe(asystole);
+    expect(withRhythmRate(createRhythm("sinus", 90, "Sinus"), 72).rateBpm).toBe(72);
+  });
+});
+
+describe("rhythm queries", () => {
+  it("identifies shockable and arrest rhythms", () => {
+    expect(isShockableRhythm(createRhythm("vf", 0, "VF"))).toBe(true);
+    expect(isShockableRhythm(createRhythm("vt", 200, "VT"))).toBe(false);
+    expect(isShockableRhythm(createRhythm("vt", 200, "Pulseless VT", { pulsePresent: false }))).toBe(true);
+    expect(isShockableRhythm(createRhythm("pea", 60, "PEA"))).toBe(false);
+    expect(isArrestRhythm(createRhythm("pea", 60, "PEA"))).toBe(true);
+    expect(isArrestRhythm(createRhythm("svt", 240, "SVT"))).toBe(false);
+  });
+
+  it("maps to an ECG synthesis spec", () => {
+    expect(rhythmToEcgSpec(createRhythm("sinus_tachycardia", 140, "Sinus tachy"))).toEqual({ rhythm: "sinus", hr: 140 });
+    expect(rhythmToEcgSpec(createRhythm("polymorphic_vt", 220, "Torsades")).rhythm).toBe("vt");
+  });
+});
+
+describe("ScenarioEngine rhythm", () => {
+  it("sets the rhythm from the stage and follows the heart rate", () => {
+    const engine = new ScenarioEngine("sim-rhythm", "palpitations_svt");
+    expect(engine.getState().rhythm).toMatchObject({ code: "sinus", summary: engine.getState().rhythmSummary });
+
+    engine.setVitals({ ...engine.getState().vitals, hr: 104 });
+    expect(engine.getState().rhythm?.rateBpm).toBe(104);
+
+    engine.setStage("stage_2_episode");
+    expect(engine.getState().rhythm).toMatchObject({ code: "svt", rateBpm: 170, summary: "SVT 180 bpm" });
+  });
+
+  it("keeps summary and structured rhythm together on setRhythm", () => {
+    const engine = new ScenarioEngine("sim-rhythm", "syncope");
+    engine.setRhythm(createRhythm("vf", 0, "Ventricular fibrillation"), "test");
+    const state = engine.getState();
+    expect(state.rhythmSummary).toBe("Ventricular fibrillation");
+    expect(state.rhythm?.code).toBe("vf");
+
+    engine.setVitals({ ...state.vitals, hr: 0 });
+    expect(engine.getState().rhythm?.code).toBe("vf");
+  });
+
+  it("is accepted in sim_state payloads", () => {
+    const engine = new ScenarioEngine("sim-rhythm", "syncope");
+    const state = engine.getState();
+    const msg = validateSimStateMessage({ ...state, fallback: false });
+    expect(msg?.rhythm).toEqual(state.rhythm);
+    expect(validateSimStateMessage({ ...state, fallback: false, rhythm: { ...state.rhythm, code: "sinusish" } })).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { evaluateRubricCondition, resolveRubricPath, scoreRubric, type RubricContext, type ScenarioRubric } from "../rubric";
+import { createInitialGenericState } from "../genericPhysiology";
+import { createInitialSVTState } from "../physiologyEngine";
+import type { SimState } from "../types";
+import { scenarioFileSchema } from "../scenarioSchema";
+import { getScenarioDef } from "../scenarioRegistry";
+
+const START = 1_000_000;
+
+function context(overrides: Partial<SimState> = {}, said: string[] = []): RubricContext {
+  const state: SimState = {
+    simId: "sim-1",
+    scenarioId: "ductal_shock",
+    stageId: "stage_1",
+    vitals: {},
+    fallback: false,
+    extended: createInitialGenericState(START),
+    ...overrides,
+  };
+  return { state, turns: said.map((text) => ({ role: "doctor" as const, text })), scenarioStartTime: START };
+}
+
+describe("rubric conditions", () => {
+  it("matches what the learner said, and only the learner", () => {
+    const ctx = context({}, ["Has the baby been feeding okay?"]);
+    ctx.turns.push({ role: "patient", text: "Any family history?" });
+    expect(evaluateRubricCondition({ type: "said", patterns: ["feed"] }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "said", patterns: ["family history"] }, ctx)).toBe(false);
+  });
+
+  it("checks orders by type, lab panel and time window", () => {
+    const ctx = context({
+      orders: [{ id: "o1", type: "labs", status: "complete", orderedAt: START + 200_000, labPanels: ["troponin"] }],
+    });
+    expect(evaluateRubricCondition({ type: "ordered", order: "labs", panel: "troponin" }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "ordered", order: "labs", panel: "bnp" }, ctx)).toBe(false);
+    expect(evaluateRubricCondition({ type: "ordered", order: "labs", withinSeconds: 120 }, ctx)).toBe(false);
+    expect(evaluateRubricCondition({ type: "ordered", order: "labs", withinSeconds: 300 }, ctx)).toBe(true);
+  });
+
+  it("normalizes treatment names and combines conditions", () => {
+    const ctx = context({ treatmentHistory: [{ ts: START + 60_000, treatmentType: "alprostadil" }] });
+    expect(evaluateRubricCondition({ type: "treatment", treatment: "pge1", withinSeconds: 300 }, ctx)).toBe(true);
+    expect(
+      evaluateRubricCondition({ all: [{ type: "treatment", treatment: "pge1" }, { not: { type: "treatment", treatment: "oxygen" } }] }, ctx)
+    ).toBe(true);
+    expect(evaluateRubricCondition({ any: [{ type: "flag", flag: "ductOpen" }] }, ctx)).toBe(false);
+  });
+
+  it("reads the current stage and vitals, splitting blood pressure", () => {
+    const ctx = context({ stageId: "stage_1_shock", vitals: { hr: 188, bp: "62/38" } });
+    expect(evaluateRubricCondition({ type: "stage", stageId: "stage_1_shock" }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "vital", vital: "sbp", op: "lt", value: 70 }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "vital", vital: "dbp", op: "gte", value: 40 }, ctx)).toBe(false);
+    expect(evaluateRubricCondition({ type: "vital", vital: "spo2", op: "lt", value: 90 }, ctx)).toBe(false);
+  });
+});
+
+describe("extended-state conditions", () => {
+  const svt = () => {
+    const extended = createInitialSVTState(START);
+    extended.totalPausedMs = 20_000;
+    extended.ecgOrderedTs = START + 70_000;
+    extended.adenosineDoses = [
+      { ts: START + 90_000, doseMg: 3, doseMgKg: 0.1, doseNumber: 1, rapidPush: true, flushGiven: true },
+      { ts: START + 150_000, doseMg: 6, doseMgKg: 0.2, doseNumber: 2, rapidPush: true, flushGiven: false },
+    ];
+    extended.consults = [{ service: "cardiology", calledAt: START + 200_000 }];
+    return { state: { extended }, turns: [], scenarioStartTime: START, nowMs: START + 240_000 };
+  };
+
+  it("resolves paths with indexes and filters", () => {
+    const { state } = svt();
+    expect(resolveRubricPath(state.extended, "adenosineDoses.1.doseMgKg")).toBe(0.2);
+    expect(resolveRubricPath(state.extended, "adenosineDoses.length")).toBe(2);
+    expect(resolveRubricPath(state.extended, "consults[service=cardiology].calledAt")).toBe(START + 200_000);
+    expect(resolveRubricPath(state.extended, "consults[service~=CARDIO][calledAt=1].calledAt")).toBeUndefined();
+    expect(resolveRubricPath(state.extended, "airway.details.peep")).toBeUndefined();
+  });
+
+  it("compares values, array elements and refs", () => {
+    const ctx = svt();
+    expect(evaluateRubricCondition({ type: "value", path: "adenosineDoses.0.doseMgKg", op: "lte", value: 0.11 }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "some", path: "adenosineDoses", where: { type: "value", path: "flushGiven", op: "eq", value: false } }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "every", path: "adenosineDoses", where: { type: "value", path: "flushGiven", op: "eq", value: true } }, ctx)).toBe(false);
+    expect(evaluateRubricCondition({ type: "every", path: "cardioversionAttempts", where: { type: "value", path: "sedated", op: "eq", value: true } }, ctx)).toBe(false);
+    expect(
+      evaluateRubricCondition({ type: "value", path: "adenosineDoses.0.ts", op: "lt", ref: "consults[service=cardiology].calledAt" }, ctx)
+    ).toBe(true);
+  });
+
+  it("measures time from the start less pauses, between events and up to now", () => {
+    const ctx = svt();
+    // ECG at 70 s wall-clock with 20 s paused
+    expect(evaluateRubricCondition({ type: "elapsed", to: "ecgOrderedTs", op: "lte", seconds: 60 }, ctx)).toBe(true);
+    expect(
+      evaluateRubricCondition({ type: "elapsed", from: "adenosineDoses.0.ts", to: "adenosineDoses.1.ts", op: "gte", seconds: 60 }, ctx)
+    ).toBe(true);
+    expect(evaluateRubricCondition({ type: "elapsed", from: "consults.0.calledAt", op: "gt", seconds: 30 }, ctx)).toBe(true);
+    expect(evaluateRubricCondition({ type: "elapsed", to: "airway.ts", op: "lte", seconds: 600 }, ctx)).toBe(false);
+  });
+});
+
+describe("scoreRubric", () => {
+  const rubric: ScenarioRubric = {
+    passThreshold: 2,
+    checklist: [
+      { id: "feeding", category: "history", description: "Asked about feeding", explanation: "Low output", when: { type: "said", patterns: ["feed"] } },
+      { id: "pge1", category: "treatment", description: "Started PGE1", explanation: "Opens the duct", when: { type: "treatment", treatment: "pge1" } },
+      { id: "echo", category: "diagnostics", description: "Ordered an echo", explanation: "Defines the lesion", when: { type: "ordered", order: "echo" } },
+    ],
+    bonuses: [{ id: "duct", description: "Duct reopened", points: 10, when: { type: "flag", flag: "ductOpen" } }],
+  };
+
+  it("grades the checklist with bonuses and common safety penalties", () => {
+    const ctx = context({ treatmentHistory: [{ ts: START + 60_000, treatmentType: "pge1" }] }, ["How is the baby feeding?"]);
+    const extended = ctx.state.extended;
+    if (extended && "kind" in extended) {
+      extended.flags.ductOpen = true;
+      extended.medicationErrors = [
+        { ts: START, drug: "pge1", kind: "tenfold_overdose", unit: "mcg/kg/min", message: "Tenfold dose", administered: false },
+      ];
+    }
+    const score = scoreRubric(rubric, ctx);
+
+    expect(score.passed).toBe(true);
+    expect(score.checklistScore).toBe("2/3");
+    expect(score.bonusesEarned.map((b) => b.item.id)).toEqual(["duct"]);
+    expect(score.penaltiesIncurred.map((p) => p.item.id)).toEqual(["medication_critical_error"]);
+    expect(score.totalPoints).toBe(50 + 33 + 10 - 15);
+    expect(score.feedback).toContain("- Ordered an echo: Defines the lesion");
+  });
+
+  it("fails below the pass threshold", () => {
+    const score = scoreRubric(rubric, context());
+    expect(score.passed).toBe(false);
+    expect(score.grade).toBe("F");
+  });
+});
+
+describe("rubric schema", () => {
+  const scenario = getScenarioDef("ductal_shock");
+
+  it("ships rubrics with the simple scenarios", () => {
+    for (const id of ["syncope", "palpitations_svt", "kawasaki", "coarctation_shock"] as const) {
+      expect(getScenarioDef(id)?.rubric?.checklist.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("rejects bad patterns, signs and thresholds", () => {
+    const item = { id: "x", category: "history", description: "d", explanation: "e", when: { type: "flag", flag: "x" } };
+    const parse = (rubric: unknown) => scenarioFileSchema.safeParse({ ...scenario, rubric }).success;
+
+    expect(parse({ passThreshold: 1, checklist: [item] })).toBe(true);
+    expect(parse({ passThreshold: 1, checklist: [{ ...item, when: { type: "said", patterns: ["("] } }] })).toBe(false);
+    expect(parse({ passThreshold: 1, checklist: [item], penalties: [{ id: "p", description: "d", points: 5, when: item.when }] })).toBe(false);
+    expect(parse({ passThreshold: 2, checklist: [item] })).toBe(false);
+  });
+});
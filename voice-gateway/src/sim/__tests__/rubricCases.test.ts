@@ -0,0 +1,36 @@
+import { checkRubricCases, loadRubricCaseFiles, runRubricCase } from "../rubricCases";
+import { getScenarioDef } from "../scenarioRegistry";
+
+describe("rubric case files", () => {
+  const results = checkRubricCases();
+
+  it("covers the complex scenarios", () => {
+    const scenarioIds = loadRubricCaseFiles().map((f) => f.scenarioId);
+    expect(scenarioIds).toEqual(expect.arrayContaining(["teen_svt_complex_v1", "peds_myocarditis_silent_crash_v1"]));
+  });
+
+  it.each(results.map((r) => [`${r.scenarioId}: ${r.name}`, r.failures]))("%s", (_name, failures) => {
+    expect(failures).toEqual([]);
+  });
+});
+
+describe("runRubricCase", () => {
+  it("reports where a score differs from the expectation", () => {
+    const rubric = getScenarioDef("teen_svt_complex_v1")?.rubric;
+    if (!rubric) throw new Error("missing rubric");
+    const failures = runRubricCase(rubric, "teen_svt_complex_v1", {
+      name: "nothing done",
+      elapsedSeconds: 60,
+      extended: {},
+      said: [],
+      expect: { passed: true, checklist: { ecg_ordered: true, made_up: true }, penalties: ["code_blue"] },
+    });
+
+    expect(failures).toEqual([
+      "passed: expected true, got false (0/5)",
+      "checklist ecg_ordered: expected true, got false",
+      'checklist: no item "made_up"',
+      "penalties: expected [code_blue], got []",
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { BUILTIN_SCENARIO_DIR, getScenarioDef, loadScenarioDirectory, loadScenarios } from "../scenarioRegistry";
+import { ScenarioEngine } from "../scenarioEngine";
+import { getPatientCaseForScenario } from "../../patientCase";
+
+const validScenario = {
+  id: "faculty_case",
+  version: "1.0.0",
+  demographics: { ageYears: 8, weightKg: 25 },
+  initialStage: "stage_1",
+  stages: [
+    {
+      id: "stage_1",
+      vitals: { hr: 110, bp: "100/60", spo2: 97 },
+      exam: { general: "Tired." },
+      rhythm: { code: "sinus_tachycardia" },
+      transitions: [{ to: "stage_2", when: { any: [{ action: "time_elapsed", seconds: 60 }] } }],
+    },
+    { id: "stage_2", vitals: { hr: 140, bp: "84/50", spo2: 94 } },
+  ],
+};
+
+const phaseScenario = {
+  id: "faculty_phases",
+  version: "1.0.0",
+  demographics: { ageYears: 12, weightKg: 40 },
+  initialPhase: "calm",
+  phases: [
+    {
+      id: "calm",
+      name: "Calm",
+      vitals: { hr: 90, bp: "110/70" },
+      rhythm: { code: "sinus" },
+      transitions: [{ to: "crash", when: [{ type: "time_in_phase_gte", minutes: 2 }] }],
+    },
+    { id: "crash", name: "Crash", vitals: { hr: 160, bp: "70/40" } },
+  ],
+  labs: { stages: { crash: { lactate: 6 } } },
+};
+
+function writeScenarioDir(files: Record<string, unknown>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scenarios-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), typeof content === "string" ? content : JSON.stringify(content));
+  }
+  return dir;
+}
+
+describe("scenario registry", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    loadScenarios([BUILTIN_SCENARIO_DIR]);
+  });
+
+  it("loads every built-in scenario without validation errors", () => {
+    const { scenarios, errors } = loadScenarioDirectory(BUILTIN_SCENARIO_DIR);
+    expect(errors).toEqual([]);
+    expect(scenarios.map((s) => s.id).sort()).toEqual(
+      [
+        "arrhythmogenic_syncope",
+        "coarctation_shock",
+        "cyanotic_spell",
+        "ductal_shock",
+        "exertional_chest_pain",
+        "exertional_syncope_hcm",
+        "kawasaki",
+        "myocarditis",
+        "palpitations_svt",
+        "peds_myocarditis_silent_crash_v1",
+        "syncope",
+        "teen_svt_complex_v1",
+      ]
+    );
+  });
+
+  it("rejects invalid files with path-qualified messages and keeps valid ones", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const dir = writeScenarioDir({
+      "good.json": validScenario,
+      "bad.json": {
+        ...validScenario,
+        id: "bad_case",
+        stages: [{ ...validScenario.stages[0], vitals: { hr: "fast", bp: "100/60" } }],
+      },
+      "dangling.json": { ...validScenario, id: "dangling_case", initialStage: "missing" },
+      "rhythm.json": {
+        ...validScenario,
+        id: "rhythm_case",
+        stages: [{ ...validScenario.stages[0], rhythm: { code: "sinus_tachy" } }, validScenario.stages[1]],
+      },
+      "broken.json": "{ not json",
+    });
+    const { scenarios, errors } = loadScenarios([dir]);
+
+    expect(scenarios.map((s) => s.id)).toEqual(["faculty_case"]);
+    expect(errors.find((e) => e.file.endsWith("bad.json"))?.issues).toEqual([
+      "stages[0].vitals.hr: Expected number, received string",
+    ]);
+    expect(errors.find((e) => e.file.endsWith("dangling.json"))?.issues).toEqual(['initialStage: unknown stage "missing"']);
+    expect(errors.find((e) => e.file.endsWith("rhythm.json"))?.issues[0]).toMatch(/^stages\[0\]\.rhythm\.code: Invalid enum value/);
+    expect(errors.find((e) => e.file.endsWith("broken.json"))?.issues[0]).toMatch(/invalid JSON/);
+  });
+
+  it("lets a faculty directory add scenarios the engine can run", () => {
+    const dir = writeScenarioDir({ "faculty_case.json": validScenario });
+    loadScenarios([BUILTIN_SCENARIO_DIR, dir]);
+
+    const engine = new ScenarioEngine("sim-faculty", "faculty_case");
+    expect(engine.getState().rhythmSummary).toBe("Sinus Tachycardia");
+    engine.setStage("stage_2");
+    // Stages without exam/rhythm inherit the initial stage's
+    expect(engine.getState().exam?.general).toBe("Tired.");
+    expect(engine.getState().vitals.hr).toBe(140);
+  });
+});
+
+describe("phase-based scenario files", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    loadScenarios([BUILTIN_SCENARIO_DIR]);
+  });
+
+  it("run on a single stage built from the initial phase", () => {
+    const dir = writeScenarioDir({ "faculty_phases.json": phaseScenario });
+    loadScenarios([BUILTIN_SCENARIO_DIR, dir]);
+
+    const engine = new ScenarioEngine("sim-phases", "faculty_phases");
+    expect(engine.getStageIds()).toEqual(["calm"]);
+    expect(engine.getState()).toMatchObject({ stageId: "calm", vitals: { hr: 90 }, rhythmSummary: "Sinus Rhythm" });
+    expect(engine.getPhaseDef("crash")?.vitals.hr).toBe(160);
+  });
+
+  it("declare the complex scenarios' phases, characters and physiology", () => {
+    const svt = new ScenarioEngine("sim-svt", "teen_svt_complex_v1");
+    expect(svt.getState().stageId).toBe("presentation");
+    expect(svt.getPhaseDef("decompensating")?.vitals).toMatchObject({ hr: 250, bp: "75/45" });
+    expect(svt.getScenarioDef().characters?.map((c) => c.role)).toEqual(["patient", "parent", "nurse"]);
+
+    const myocarditis = getScenarioDef("peds_myocarditis_silent_crash_v1");
+    expect(myocarditis?.phases?.map((p) => p.id)).toEqual([
+      "scene_set",
+      "recognition",
+      "decompensation",
+      "intubation_trap",
+      "confirmation_disposition",
+      "end",
+    ]);
+    expect(myocarditis?.physiologyRules?.map((r) => r.id)).toContain("fluid_overload");
+  });
+
+  it("reject unknown phases and lab or echo keys that match no stage or phase", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const dir = writeScenarioDir({
+      "dangling.json": {
+        ...phaseScenario,
+        phases: [{ ...phaseScenario.phases[0], transitions: [{ to: "missing", when: [{ type: "converted" }] }] }],
+      },
+      "labs.json": { ...phaseScenario, id: "bad_labs", labs: { stages: { episode: { lactate: 6 } } } },
+      "empty.json": { id: "no_steps", version: "1", demographics: { ageYears: 1, weightKg: 10 } },
+    });
+    const { scenarios, errors } = loadScenarios([dir]);
+
+    expect(scenarios).toEqual([]);
+    expect(errors.find((e) => e.file.endsWith("dangling.json"))?.issues).toEqual([
+      'phases[0].transitions[0].to: unknown phase "missing"',
+      'labs.stages.crash: unknown stage or phase "crash"',
+    ]);
+    expect(errors.find((e) => e.file.endsWith("labs.json"))?.issues).toEqual(['labs.stages.episode: unknown stage or phase "episode"']);
+    expect(errors.find((e) => e.file.endsWith("empty.json"))?.issues).toEqual(["stages: a scenario needs stages or phases"]);
+  });
+});
+
+describe("scenario files", () => {
+  it("drive stage exam and rhythm from the file", () => {
+    const engine = new ScenarioEngine("sim-exam", "syncope");
+    expect(engine.getState().exam?.general).toBe("Well-appearing, oriented.");
+    engine.setStage("stage_2_worse");
+    expect(engine.getState().exam?.general).toBe("Dizzy and pale on standing.");
+    expect(engine.getState().rhythm).toMatchObject({ code: "sinus_tachycardia", features: { qtcMs: 460 } });
+    expect(engine.getState().rhythmSummary).toBe("Sinus Tachycardia, QTc 460 ms");
+  });
+
+  it("builds patient cases from the scenario file", () => {
+    const patientCase = getPatientCaseForScenario("session-1", "kawasaki");
+    expect(patientCase).toMatchObject({ id: "session-1", scenarioId: "kawasaki", name: "Mason", age: 4 });
+    expect(getScenarioDef("kawasaki")?.patientCase?.name).toBe("Mason");
+  });
+
+  it("falls back to the default case when a scenario has none", () => {
+    const patientCase = getPatientCaseForScenario("session-2", "peds_myocarditis_silent_crash_v1");
+    expect(patientCase.scenarioId).toBe("exertional_chest_pain");
+    expect(patientCase.name).toBe("Taylor");
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  applyTeamRoleRequest,
+  canPerform,
+  createTeamRoster,
+  nextOpenRole,
+  recordTeamAction,
+  summarizeRoleCoverage,
+  teamRoleOf,
+  treatmentCategory,
+} from "../teamRoles";
+
+const claim = (userId: string, teamRole: Parameters<typeof applyTeamRoleRequest>[1]["teamRole"], assignedBy: "self" | "presenter" = "self") => ({
+  userId,
+  name: userId.toUpperCase(),
+  teamRole,
+  assignedBy,
+});
+
+describe("role scopes", () => {
+  it("limits orders, treatments and bedside actions to the role", () => {
+    expect(canPerform("medications", { kind: "order", orderType: "labs" })).toBe(true);
+    expect(canPerform("airway", { kind: "order", orderType: "labs" })).toBe(false);
+    expect(canPerform("medications", { kind: "treatment", treatmentType: "adenosine" })).toBe(true);
+    expect(canPerform("compressions", { kind: "treatment", treatmentType: "Defibrillation" })).toBe(true);
+    expect(canPerform("recorder", { kind: "bedside", action: "defib" })).toBe(false);
+    expect(canPerform("team_leader", { kind: "bedside", action: "defib" })).toBe(true);
+  });
+
+  it("treats unknown treatments as drugs and no role as unscoped", () => {
+    expect(treatmentCategory("knee-chest")).toBe("airway");
+    expect(treatmentCategory("procainamide")).toBe("medication");
+    expect(canPerform(undefined, { kind: "order", orderType: "echo" })).toBe(true);
+  });
+});
+
+describe("roster", () => {
+  it("gives each role one holder and each participant one role", () => {
+    const roster = createTeamRoster();
+    expect(applyTeamRoleRequest(roster, claim("a", "airway"), 1)).toEqual({ ok: true, teamRole: "airway" });
+    expect(applyTeamRoleRequest(roster, claim("b", "airway"), 2)).toEqual({ ok: false, reason: "role_taken" });
+
+    applyTeamRoleRequest(roster, claim("a", "medications"), 3);
+    expect(teamRoleOf(roster, "a")).toBe("medications");
+    expect(roster.members).toHaveLength(1);
+    expect(applyTeamRoleRequest(roster, claim("b", "airway"), 4)).toEqual({ ok: true, teamRole: "airway" });
+  });
+
+  it("auto-assigns the first open role and lets the presenter reassign", () => {
+    const roster = createTeamRoster();
+    applyTeamRoleRequest(roster, claim("lead", "team_leader"), 1);
+    expect(applyTeamRoleRequest(roster, claim("a", "auto"), 2)).toEqual({ ok: true, teamRole: "airway" });
+    expect(nextOpenRole(roster)).toBe("compressions");
+
+    applyTeamRoleRequest(roster, claim("b", "airway", "presenter"), 3);
+    expect(teamRoleOf(roster, "b")).toBe("airway");
+    expect(teamRoleOf(roster, "a")).toBeUndefined();
+    expect(roster.assignments.map((a) => [a.userId, a.teamRole])).toEqual([
+      ["lead", "team_leader"],
+      ["a", "airway"],
+      ["a", null],
+      ["b", "airway"],
+    ]);
+  });
+});
+
+describe("summarizeRoleCoverage", () => {
+  it("reports staffed roles, out-of-scope actions and a hands-on leader", () => {
+    const roster = createTeamRoster();
+    expect(summarizeRoleCoverage(roster)).toBeNull();
+    applyTeamRoleRequest(roster, claim("lead", "team_leader"), 0);
+    applyTeamRoleRequest(roster, claim("meds", "medications"), 0);
+    applyTeamRoleRequest(roster, claim("air", "airway"), 0);
+
+    recordTeamAction(roster, { ts: 1, userId: "meds", name: "MEDS", teamRole: "medications", kind: "treatment", action: "adenosine" }, { kind: "treatment", treatmentType: "adenosine" });
+    recordTeamAction(roster, { ts: 2, userId: "air", name: "AIR", teamRole: "airway", kind: "order", action: "labs" }, { kind: "order", orderType: "labs" });
+    recordTeamAction(roster, { ts: 3, userId: "lead", name: "LEAD", teamRole: "team_leader", kind: "treatment", action: "epinephrine" }, { kind: "treatment", treatmentType: "epinephrine" });
+    recordTeamAction(roster, { ts: 4, userId: "x", name: "X", kind: "order", action: "ekg" }, { kind: "order", orderType: "ekg" });
+
+    const summary = summarizeRoleCoverage(roster);
+    expect(summary?.filled).toEqual(["team_leader", "airway", "medications"]);
+    expect(summary?.unfilled).toEqual(["compressions", "recorder"]);
+    expect(summary?.actionsByRole).toMatchObject({ team_leader: 1, airway: 1, medications: 1, compressions: 0 });
+    expect(summary?.outOfScope.map((a) => a.action)).toEqual(["labs"]);
+    expect(summary?.leaderHandsOn.map((a) => a.action)).toEqual(["epinephrine"]);
+    expect(summary?.unattributed).toBe(1);
+  });
+});
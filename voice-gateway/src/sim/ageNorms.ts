@@ -0,0 +1,54 @@
+import type { PatientDemographics } from "./scenarioTypes";
+
+/**
+ * PALS age bands and normal resting vital-sign ranges.
+ * Shared by the scenario engine (rhythm descriptions) and the physiology engine
+ * (age-relative rule thresholds and effect scaling).
+ */
+
+export const AGE_BANDS = ["neonate", "infant", "toddler", "preschool", "school_age", "adolescent"] as const;
+
+export type AgeBand = (typeof AGE_BANDS)[number];
+
+export type VitalRange = { low: number; high: number };
+
+export type AgeNorms = {
+  band: AgeBand;
+  hr: VitalRange;
+  rr: VitalRange;
+  sbp: VitalRange;
+};
+
+/** SVT threshold is >220 bpm regardless of age */
+export const SVT_HR_THRESHOLD = 220;
+
+const AGE_NORMS: Record<AgeBand, AgeNorms> = {
+  neonate: { band: "neonate", hr: { low: 100, high: 180 }, rr: { low: 30, high: 60 }, sbp: { low: 60, high: 84 } },
+  infant: { band: "infant", hr: { low: 100, high: 160 }, rr: { low: 30, high: 53 }, sbp: { low: 72, high: 104 } },
+  toddler: { band: "toddler", hr: { low: 90, high: 150 }, rr: { low: 22, high: 37 }, sbp: { low: 86, high: 106 } },
+  preschool: { band: "preschool", hr: { low: 80, high: 120 }, rr: { low: 20, high: 28 }, sbp: { low: 89, high: 112 } },
+  school_age: { band: "school_age", hr: { low: 70, high: 110 }, rr: { low: 18, high: 25 }, sbp: { low: 97, high: 115 } },
+  adolescent: { band: "adolescent", hr: { low: 60, high: 100 }, rr: { low: 12, high: 20 }, sbp: { low: 110, high: 131 } },
+};
+
+export function getAgeMonths(demographics: Pick<PatientDemographics, "ageYears" | "ageMonths">): number {
+  return demographics.ageYears * 12 + (demographics.ageMonths ?? 0);
+}
+
+export function getAgeBand(ageMonths: number): AgeBand {
+  if (ageMonths < 1) return "neonate";
+  if (ageMonths < 12) return "infant";
+  if (ageMonths < 36) return "toddler";
+  if (ageMonths < 72) return "preschool";
+  if (ageMonths < 144) return "school_age";
+  return "adolescent";
+}
+
+export function getAgeNorms(ageMonths: number): AgeNorms {
+  return AGE_NORMS[getAgeBand(ageMonths)];
+}
+
+/** Norms for the school-age child the built-in rule sets were written for */
+export function getReferenceNorms(): AgeNorms {
+  return AGE_NORMS.school_age;
+}
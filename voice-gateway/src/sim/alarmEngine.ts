@@ -0,0 +1,281 @@
+/**
+ * Bedside monitor alarms.
+ *
+ * Limits come from PALS age bands for the scenario's patient (scenario files may
+ * override them per vital). Conditions that breach a limit become alarms with a
+ * priority; an alarm stays active until the vital recovers and can be silenced or
+ * acknowledged by anyone in the session. The time from raise to first response is
+ * kept for the debrief.
+ */
+
+import type { AlarmAction, AlarmId, AlarmPriority, AlarmVital, MonitorAlarm } from "../messageTypes";
+import { getAgeBand, getAgeMonths, SVT_HR_THRESHOLD, type AgeBand } from "./ageNorms";
+import { parseSystolic } from "./physiologyEngine";
+import type { PatientDemographics } from "./scenarioTypes";
+import type { Vitals } from "./types";
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+/** Crossing low/high raises the vital's limit priority; crossing criticalLow/criticalHigh raises its critical priority */
+export type AlarmLimit = {
+  low?: number;
+  high?: number;
+  criticalLow?: number;
+  criticalHigh?: number;
+};
+
+export type AlarmLimits = Record<AlarmVital, AlarmLimit>;
+
+/** Per-vital overrides authored in a scenario file (merged over the age-band defaults) */
+export type AlarmLimitOverrides = Partial<Record<AlarmVital, AlarmLimit>>;
+
+/** How long a silenced alarm stays quiet before it re-annunciates */
+export const ALARM_SILENCE_MS = 120_000;
+
+/** Responses slower than this are called out in the debrief */
+export const ALARM_RESPONSE_TARGET_MS = 30_000;
+
+const BAND_LIMITS: Record<AgeBand, Pick<AlarmLimits, "hr" | "rr" | "sbp">> = {
+  neonate: { hr: { low: 100, high: 200, criticalLow: 60 }, rr: { low: 25, high: 70, criticalLow: 12 }, sbp: { high: 100 } },
+  infant: { hr: { low: 90, high: 180, criticalLow: 60 }, rr: { low: 20, high: 60, criticalLow: 10 }, sbp: { high: 115 } },
+  toddler: { hr: { low: 80, high: 170, criticalLow: 60 }, rr: { low: 16, high: 45, criticalLow: 8 }, sbp: { high: 120 } },
+  preschool: { hr: { low: 70, high: 150, criticalLow: 60 }, rr: { low: 14, high: 35, criticalLow: 8 }, sbp: { high: 125 } },
+  school_age: { hr: { low: 60, high: 140, criticalLow: 50 }, rr: { low: 12, high: 30, criticalLow: 6 }, sbp: { high: 135 } },
+  adolescent: { hr: { low: 50, high: 130, criticalLow: 40 }, rr: { low: 10, high: 25, criticalLow: 6 }, sbp: { high: 145 } },
+};
+
+/** Priority of a limit breach and of a critical breach, per vital */
+const VITAL_PRIORITIES: Record<AlarmVital, { limit: AlarmPriority; critical: AlarmPriority }> = {
+  hr: { limit: "medium", critical: "high" },
+  spo2: { limit: "medium", critical: "high" },
+  sbp: { limit: "medium", critical: "high" },
+  rr: { limit: "medium", critical: "high" },
+  temp: { limit: "low", critical: "medium" },
+};
+
+const PRIORITY_RANK: Record<AlarmPriority, number> = { low: 0, medium: 1, high: 2 };
+
+/** PALS hypotension: <60 neonate, <70 infant, <70 + 2×age 1–10 y, <90 over 10 y */
+export function getHypotensionThreshold(ageMonths: number): number {
+  if (ageMonths < 1) return 60;
+  if (ageMonths < 12) return 70;
+  if (ageMonths <= 120) return 70 + 2 * Math.floor(ageMonths / 12);
+  return 90;
+}
+
+export function getAlarmLimits(demographics: PatientDemographics, overrides?: AlarmLimitOverrides): AlarmLimits {
+  const ageMonths = getAgeMonths(demographics);
+  const band = BAND_LIMITS[getAgeBand(ageMonths)];
+  const hypotension = getHypotensionThreshold(ageMonths);
+  const defaults: AlarmLimits = {
+    hr: { ...band.hr, criticalHigh: SVT_HR_THRESHOLD },
+    rr: band.rr,
+    sbp: { ...band.sbp, low: hypotension + 5, criticalLow: hypotension },
+    spo2: { low: 90, criticalLow: 85 },
+    temp: { low: 36, high: 38.5, criticalHigh: 40 },
+  };
+  if (!overrides) return defaults;
+  const merged = { ...defaults };
+  (Object.keys(overrides) as AlarmVital[]).forEach((vital) => {
+    merged[vital] = { ...defaults[vital], ...overrides[vital] };
+  });
+  return merged;
+}
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+/** A limit currently breached by the vitals (before debounce) */
+export type AlarmCondition = {
+  id: AlarmId;
+  vital: AlarmVital;
+  priority: AlarmPriority;
+  value: number;
+  limit: number;
+  message: string;
+};
+
+const VITAL_LABELS: Record<AlarmVital, { label: string; unit: string }> = {
+  hr: { label: "HR", unit: " bpm" },
+  spo2: { label: "SpO2", unit: "%" },
+  sbp: { label: "SBP", unit: " mmHg" },
+  rr: { label: "RR", unit: "/min" },
+  temp: { label: "Temp", unit: " °C" },
+};
+
+function readVital(vitals: Vitals, vital: AlarmVital): number | undefined {
+  return vital === "sbp" ? parseSystolic(vitals.bp) : vitals[vital];
+}
+
+/**
+ * Check the vitals against the limits. At most one condition per direction per
+ * vital, at the priority of the most severe limit crossed.
+ */
+export function evaluateAlarmConditions(vitals: Vitals, limits: AlarmLimits): AlarmCondition[] {
+  const conditions: AlarmCondition[] = [];
+  (Object.keys(limits) as AlarmVital[]).forEach((vital) => {
+    const value = readVital(vitals, vital);
+    if (typeof value !== "number") return;
+    const limit = limits[vital];
+    const priorities = VITAL_PRIORITIES[vital];
+    const { label, unit } = VITAL_LABELS[vital];
+
+    const low =
+      limit.criticalLow !== undefined && value < limit.criticalLow
+        ? { priority: priorities.critical, limit: limit.criticalLow }
+        : limit.low !== undefined && value < limit.low
+        ? { priority: priorities.limit, limit: limit.low }
+        : null;
+    if (low) {
+      conditions.push({ id: `${vital}Low` as AlarmId, vital, value, ...low, message: `${label} low: ${value}${unit}` });
+    }
+
+    const high =
+      limit.criticalHigh !== undefined && value > limit.criticalHigh
+        ? { priority: priorities.critical, limit: limit.criticalHigh }
+        : limit.high !== undefined && value > limit.high
+        ? { priority: priorities.limit, limit: limit.high }
+        : null;
+    if (high) {
+      conditions.push({ id: `${vital}High` as AlarmId, vital, value, ...high, message: `${label} high: ${value}${unit}` });
+    }
+  });
+  return conditions;
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+/** Per-session alarms: those still on the monitor and those that have cleared */
+export type AlarmState = {
+  active: Partial<Record<AlarmId, MonitorAlarm>>;
+  history: MonitorAlarm[];
+};
+
+export function createAlarmState(): AlarmState {
+  return { active: {}, history: [] };
+}
+
+/**
+ * Reconcile the alarm state with the sustained conditions.
+ * Returns the alarms whose monitor status changed (raised, escalated,
+ * re-annunciated after a silence, or cleared) for broadcasting.
+ */
+export function updateAlarms(state: AlarmState, conditions: AlarmCondition[], nowMs: number): MonitorAlarm[] {
+  const changed: MonitorAlarm[] = [];
+  const breached = new Set(conditions.map((c) => c.id));
+
+  conditions.forEach((condition) => {
+    const existing = state.active[condition.id];
+    if (!existing) {
+      const alarm: MonitorAlarm = { ...condition, status: "active", raisedAt: nowMs };
+      state.active[condition.id] = alarm;
+      changed.push(alarm);
+      return;
+    }
+
+    existing.value = condition.value;
+    if (PRIORITY_RANK[condition.priority] > PRIORITY_RANK[existing.priority]) {
+      // Escalation re-annunciates even if the alarm was silenced or acknowledged
+      Object.assign(existing, {
+        priority: condition.priority,
+        limit: condition.limit,
+        message: condition.message,
+        status: "active",
+        silencedUntil: undefined,
+      });
+      changed.push(existing);
+    } else if (existing.status === "silenced" && existing.silencedUntil !== undefined && nowMs >= existing.silencedUntil) {
+      existing.status = "active";
+      existing.silencedUntil = undefined;
+      changed.push(existing);
+    }
+  });
+
+  (Object.values(state.active) as MonitorAlarm[]).forEach((alarm) => {
+    if (breached.has(alarm.id)) return;
+    alarm.status = "cleared";
+    alarm.clearedAt = nowMs;
+    alarm.silencedUntil = undefined;
+    state.history.push(alarm);
+    delete state.active[alarm.id];
+    changed.push(alarm);
+  });
+
+  return changed;
+}
+
+/**
+ * Silence or acknowledge an active alarm. The first response of either kind
+ * sets the alarm-response time. Returns the updated alarm, or null if there
+ * was nothing to change.
+ */
+export function respondToAlarm(
+  state: AlarmState,
+  alarmId: AlarmId,
+  action: AlarmAction,
+  userId: string,
+  nowMs: number
+): MonitorAlarm | null {
+  const alarm = state.active[alarmId];
+  if (!alarm || alarm.status === "acknowledged") return null;
+
+  if (action === "silence") {
+    alarm.status = "silenced";
+    alarm.silencedUntil = nowMs + ALARM_SILENCE_MS;
+  } else {
+    alarm.status = "acknowledged";
+    alarm.acknowledgedAt = nowMs;
+    alarm.silencedUntil = undefined;
+  }
+  if (alarm.respondedAt === undefined) {
+    alarm.respondedAt = nowMs;
+    alarm.respondedBy = userId;
+  }
+  return alarm;
+}
+
+export function getAlarmResponseMs(alarm: MonitorAlarm): number | undefined {
+  return alarm.respondedAt === undefined ? undefined : alarm.respondedAt - alarm.raisedAt;
+}
+
+// ============================================================================
+// Debrief
+// ============================================================================
+
+export type AlarmResponseSummary = {
+  /** Every alarm raised this session, oldest first */
+  alarms: MonitorAlarm[];
+  responded: number;
+  /** Alarms that cleared or are still sounding without a response */
+  unanswered: MonitorAlarm[];
+  medianResponseMs?: number;
+};
+
+export function summarizeAlarmResponses(state: AlarmState): AlarmResponseSummary {
+  const alarms = [...state.history, ...(Object.values(state.active) as MonitorAlarm[])].sort(
+    (a, b) => a.raisedAt - b.raisedAt
+  );
+  const responseTimes = alarms
+    .map(getAlarmResponseMs)
+    .filter((ms): ms is number => ms !== undefined)
+    .sort((a, b) => a - b);
+  const mid = Math.floor(responseTimes.length / 2);
+  const medianResponseMs =
+    responseTimes.length === 0
+      ? undefined
+      : responseTimes.length % 2 === 1
+      ? responseTimes[mid]
+      : (responseTimes[mid - 1] + responseTimes[mid]) / 2;
+
+  return {
+    alarms,
+    responded: responseTimes.length,
+    unanswered: alarms.filter((a) => a.respondedAt === undefined),
+    medianResponseMs,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * Closed-loop communication.
+ *
+ * Every spoken order is tracked as a loop: the learner gives the order to a
+ * named person, the nurse or tech reads it back, and the learner confirms the
+ * read-back within a few seconds. An order nobody was named for is held while
+ * the nurse asks who it was for; a read-back nobody confirms gets a nurse
+ * prompt. The debrief reads the loop log for closure rate and confirmation
+ * time.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** How long the learner has to name someone or confirm a read-back */
+export const LOOP_CONFIRM_WINDOW_MS = 10_000;
+
+export type CommLoopStatus =
+  /** Held: the nurse asked who the order was for */
+  | "awaiting_addressee"
+  /** Read back; waiting for the learner to confirm */
+  | "awaiting_confirmation"
+  | "closed"
+  /** Window passed without a confirmation; the nurse prompted */
+  | "unconfirmed";
+
+export type CommLoop = {
+  id: string;
+  userId: string;
+  name: string;
+  /** Order type */
+  action: string;
+  /** The utterance as transcribed */
+  text: string;
+  /** Person or role the order was addressed to, if anyone was named */
+  addressee?: string;
+  orderedAt: number;
+  /** When the nurse asked who the order was for */
+  clarifiedAt?: number;
+  readBackAt?: number;
+  /** When the nurse prompted for a missing confirmation */
+  promptedAt?: number;
+  confirmedAt?: number;
+  status: CommLoopStatus;
+};
+
+/** Per-session loop log, kept on the runtime */
+export type CommLoopLog = {
+  loops: CommLoop[];
+};
+
+export function createCommLoopLog(): CommLoopLog {
+  return { loops: [] };
+}
+
+// ============================================================================
+// Utterances
+// ============================================================================
+
+/** Roles and staff a learner can address an order to without knowing a name */
+const GENERIC_ADDRESSEES = [
+  "nurse",
+  "tech",
+  "pharmacy",
+  "pharmacist",
+  "respiratory",
+  "rt",
+  "team leader",
+  "airway",
+  "compressions",
+  "meds",
+  "medications",
+  "recorder",
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * The person or role an utterance is addressed to, if any. Names are matched
+ * as whole words on the first name, so "Ana" matches a member named "Ana Ruiz".
+ */
+export function findAddressee(text: string, names: readonly string[] = []): string | undefined {
+  const candidates = [...names.map((name) => name.trim().split(/\s+/)[0]).filter(Boolean), ...GENERIC_ADDRESSEES];
+  return candidates.find((candidate) => new RegExp(`\\b${escapeRegExp(candidate)}\\b`, "i").test(text));
+}
+
+/** Answering "who was that for?" by pointing at the listener also names them */
+const DIRECT_ANSWER = /\b(you|yours|for you)\b/i;
+
+const CONFIRMATION_WORDS =
+  /\b(yes|yeah|yep|correct|right|confirmed?|affirmative|perfect|great|good|ok(ay)?|please|thanks|thank you|sounds good|go ahead|that'?s (right|correct|it)|that is (right|correct))\b/g;
+
+const NEGATION = /\b(no|not|nope|don'?t|wrong|wait|stop|cancel|hold)\b/;
+
+/** Longest utterance still taken as a bare confirmation */
+const MAX_CONFIRMATION_WORDS = 6;
+
+/**
+ * Whether an utterance only confirms a read-back ("Yes, that's right",
+ * "Great, thanks Ana"). One other word (a name) may remain; anything more,
+ * like "Great, can you tell me where it hurts?", is not a confirmation.
+ */
+export function isConfirmation(text: string): boolean {
+  const words = text.toLowerCase().replace(/[^a-z' ]+/g, " ").trim();
+  if (!words || words.split(/\s+/).length > MAX_CONFIRMATION_WORDS || NEGATION.test(words)) return false;
+  const rest = words.replace(CONFIRMATION_WORDS, " ").trim();
+  if (rest === words) return false;
+  return rest === "" || !/\s/.test(rest);
+}
+
+// ============================================================================
+// Loop log
+// ============================================================================
+
+/** Start a loop for a spoken order; unaddressed orders wait for a name */
+export function openLoop(
+  log: CommLoopLog,
+  order: { userId: string; name: string; action: string; text: string },
+  ts: number,
+  names: readonly string[] = []
+): CommLoop {
+  const addressee = findAddressee(order.text, names);
+  const loop: CommLoop = {
+    id: `loop-${log.loops.length + 1}`,
+    ...order,
+    ...(addressee ? { addressee } : {}),
+    orderedAt: ts,
+    ...(addressee ? {} : { clarifiedAt: ts }),
+    status: addressee ? "awaiting_confirmation" : "awaiting_addressee",
+  };
+  log.loops.push(loop);
+  return loop;
+}
+
+/** The learner's held order, if the nurse is still waiting to hear who it was for */
+export function pendingAddressee(log: CommLoopLog, userId: string): CommLoop | undefined {
+  return log.loops.find((loop) => loop.userId === userId && loop.status === "awaiting_addressee");
+}
+
+/** Name who a held order was for; false if the reply names nobody */
+export function resolveAddressee(loop: CommLoop, text: string, names: readonly string[] = []): boolean {
+  const addressee = findAddressee(text, names) ?? (DIRECT_ANSWER.test(text) ? "nurse" : undefined);
+  if (!addressee) return false;
+  loop.addressee = addressee;
+  loop.status = "awaiting_confirmation";
+  return true;
+}
+
+/** Forget a loop whose order was never placed (e.g. a duplicate) */
+export function dropLoop(log: CommLoopLog, loop: CommLoop): void {
+  log.loops = log.loops.filter((l) => l !== loop);
+}
+
+/** The nurse or tech read the order back */
+export function markReadBack(loop: CommLoop, ts: number): void {
+  loop.readBackAt = ts;
+  if (loop.status === "awaiting_addressee") loop.status = "awaiting_confirmation";
+}
+
+/**
+ * Close the learner's most recent loop that is waiting on them: a read-back in
+ * its window, or a nurse prompt they answer within the window.
+ */
+export function confirmLoop(log: CommLoopLog, userId: string, ts: number): CommLoop | undefined {
+  const loop = [...log.loops]
+    .reverse()
+    .find(
+      (l) =>
+        l.userId === userId &&
+        l.readBackAt !== undefined &&
+        (l.status === "awaiting_confirmation" ||
+          (l.status === "unconfirmed" && l.promptedAt !== undefined && ts - l.promptedAt <= LOOP_CONFIRM_WINDOW_MS))
+    );
+  if (!loop) return undefined;
+  loop.confirmedAt = ts;
+  loop.status = "closed";
+  return loop;
+}
+
+/** Mark a read-back nobody confirmed; returns false if the loop already closed */
+export function expireLoop(loop: CommLoop, ts: number): boolean {
+  if (loop.status !== "awaiting_confirmation") return false;
+  loop.status = "unconfirmed";
+  loop.promptedAt = ts;
+  return true;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/** Scenario-agnostic communication metrics for the debrief */
+export type ClosedLoopMetrics = {
+  orders: number;
+  /** Orders named for a person or role when given */
+  addressed: number;
+  /** Orders the nurse had to ask about */
+  clarified: number;
+  /** Confirmed within the window */
+  closed: number;
+  /** Confirmed only after the nurse prompted */
+  closedAfterPrompt: number;
+  unconfirmed: number;
+  /** Still waiting when the debrief ran */
+  open: number;
+  /** Share of orders confirmed, with or without a prompt (0–1) */
+  closureRate: number;
+  medianConfirmMs: number | null;
+  windowMs: number;
+};
+
+export type ClosedLoopSummary = {
+  metrics: ClosedLoopMetrics;
+  loops: CommLoop[];
+};
+
+/** Loop metrics for the debrief; null when no spoken orders were given */
+export function summarizeClosedLoops(log: CommLoopLog | undefined): ClosedLoopSummary | null {
+  if (!log || log.loops.length === 0) return null;
+  const loops = log.loops;
+  const confirmed = loops.filter((l) => l.status === "closed");
+  const closedAfterPrompt = confirmed.filter((l) => l.promptedAt !== undefined).length;
+  const confirmTimes = confirmed
+    .map((l) => (l.confirmedAt ?? 0) - (l.readBackAt ?? l.orderedAt))
+    .sort((a, b) => a - b);
+  const mid = Math.floor(confirmTimes.length / 2);
+  const medianConfirmMs =
+    confirmTimes.length === 0
+      ? null
+      : confirmTimes.length % 2 === 1
+        ? confirmTimes[mid]
+        : Math.round((confirmTimes[mid - 1] + confirmTimes[mid]) / 2);
+
+  return {
+    metrics: {
+      orders: loops.length,
+      addressed: loops.filter((l) => l.clarifiedAt === undefined).length,
+      clarified: loops.filter((l) => l.clarifiedAt !== undefined).length,
+      closed: confirmed.length - closedAfterPrompt,
+      closedAfterPrompt,
+      unconfirmed: loops.filter((l) => l.status === "unconfirmed").length,
+      open: loops.filter((l) => l.status === "awaiting_addressee" || l.status === "awaiting_confirmation").length,
+      closureRate: confirmed.length / loops.length,
+      medianConfirmMs,
+      windowMs: LOOP_CONFIRM_WINDOW_MS,
+    },
+    loops,
+  };
+}
+
+/** One-line summaries of the metrics for debrief panels and reports */
+export function describeClosedLoopMetrics(metrics: ClosedLoopMetrics): string[] {
+  const lines = [
+    `Spoken orders: ${metrics.orders} (${metrics.addressed} named for someone, ${metrics.clarified} needed "who was that for?")`,
+    `Read-backs confirmed: ${metrics.closed} in time, ${metrics.closedAfterPrompt} after a prompt, ${metrics.unconfirmed} never`,
+    `Closure rate: ${Math.round(metrics.closureRate * 100)}%`,
+  ];
+  if (metrics.medianConfirmMs !== null) {
+    lines.push(`Median confirmation: ${(metrics.medianConfirmMs / 1000).toFixed(1)}s after read-back`);
+  }
+  if (metrics.open > 0) lines.push(`Still open at debrief: ${metrics.open}`);
+  return lines;
+}
@@ -1,11 +1,15 @@
 import { CostSnapshot } from "./types";
+import { gatewayMetrics } from "../metrics";
+import { priceUsage, type CostBreakdown, type UsageRecord } from "./pricing";
 
 export class CostController {
   private inputTokens = 0;
   private outputTokens = 0;
-  private readonly usdPerToken: number;
-  private readonly softUsd: number;
-  private readonly hardUsd: number;
+  /** Spend from record(), priced per model */
+  private pricedUsd = 0;
+  private breakdown: CostBreakdown = {};
+  private softUsd: number;
+  private hardUsd: number;
   private throttled = false;
   private fallback = false;
   private softTriggered = false;
@@ -15,14 +19,12 @@ export class CostController {
   private readonly onSoftReset?: () => void;
 
   constructor(opts?: {
-    usdPerToken?: number;
     softUsd?: number;
     hardUsd?: number;
     onSoftLimit?: () => void;
     onHardLimit?: () => void;
     onSoftReset?: () => void;
   }) {
-    this.usdPerToken = opts?.usdPerToken ?? 0.0000003;
     this.softUsd = opts?.softUsd ?? 3.5;
     this.hardUsd = opts?.hardUsd ?? 4.5;
     this.onSoft = opts?.onSoftLimit;
@@ -30,20 +32,44 @@ export class CostController {
     this.onSoftReset = opts?.onSoftReset;
   }
 
-  addUsage(usage: { inputTokens?: number; outputTokens?: number }) {
+  /**
+   * Record one provider call, priced by model and modality from the pricing
+   * table (or the given price). Returns its cost in USD.
+   */
+  record(usage: UsageRecord, usd = priceUsage(usage)): number {
     this.inputTokens += usage.inputTokens ?? 0;
     this.outputTokens += usage.outputTokens ?? 0;
+    this.pricedUsd += usd;
+    const entry = this.breakdown[usage.modality] ?? { usd: 0, calls: 0 };
+    this.breakdown[usage.modality] = { usd: entry.usd + usd, calls: entry.calls + 1 };
+    gatewayMetrics.budgetSpendUsd.inc(undefined, usd);
+    this.checkLimits();
+    return usd;
+  }
+
+  /**
+   * Change the limits mid-session (admin override). A limit raised above the
+   * current spend lifts its throttle or fallback; one lowered to or below the
+   * spend trips immediately.
+   */
+  setLimits(limits: { softUsd?: number; hardUsd?: number }): void {
+    this.softUsd = limits.softUsd ?? this.softUsd;
+    this.hardUsd = limits.hardUsd ?? this.hardUsd;
     const cost = this.estimateUsd();
-    if (!this.softTriggered && cost >= this.softUsd) {
-      this.softTriggered = true;
-      this.throttled = true;
-      this.onSoft?.();
+    if (this.hardTriggered && cost < this.hardUsd) {
+      this.hardTriggered = false;
+      this.fallback = false;
     }
-    if (!this.hardTriggered && cost >= this.hardUsd) {
-      this.hardTriggered = true;
-      this.fallback = true;
-      this.onHard?.();
+    if (this.softTriggered && cost < this.softUsd) {
+      this.softTriggered = false;
+      this.throttled = false;
+      this.onSoftReset?.();
     }
+    this.checkLimits();
+  }
+
+  getLimits(): { softUsd: number; hardUsd: number } {
+    return { softUsd: this.softUsd, hardUsd: this.hardUsd };
   }
 
   /**
@@ -65,6 +91,8 @@ export class CostController {
   reset(): void {
     this.inputTokens = 0;
     this.outputTokens = 0;
+    this.pricedUsd = 0;
+    this.breakdown = {};
     this.softTriggered = false;
     this.throttled = false;
     // Note: hard limit and fallback are NOT reset for safety
@@ -90,13 +118,27 @@ export class CostController {
       inputTokens: this.inputTokens,
       outputTokens: this.outputTokens,
       usdEstimate: this.estimateUsd(),
+      breakdown: { ...this.breakdown },
       throttled: this.throttled,
       fallback: this.fallback,
     };
   }
 
+  private checkLimits(): void {
+    const cost = this.estimateUsd();
+    if (!this.softTriggered && cost >= this.softUsd) {
+      this.softTriggered = true;
+      this.throttled = true;
+      this.onSoft?.();
+    }
+    if (!this.hardTriggered && cost >= this.hardUsd) {
+      this.hardTriggered = true;
+      this.fallback = true;
+      this.onHard?.();
+    }
+  }
+
   private estimateUsd(): number {
-    const totalTokens = this.inputTokens + this.outputTokens;
-    return totalTokens * this.usdPerToken;
+    return this.pricedUsd;
   }
 }
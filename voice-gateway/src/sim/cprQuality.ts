@@ -0,0 +1,225 @@
+/**
+ * CPR quality during a cardiac arrest.
+ *
+ * The code team's metronome reports when compressions start and pause, the
+ * tapped rate and compressor swaps; shocks, epinephrine and ROSC come from the
+ * treatment handler. From these we derive the AHA quality measures used in the
+ * debrief (chest-compression fraction, peri-shock pauses, time to first epi)
+ * and a 0–1 quality factor the physiology engine uses to scale the chance of
+ * return of circulation.
+ */
+
+import type { CprEventKind } from "../messageTypes";
+import type { CprMetrics } from "./types";
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+/** AHA/PALS compression rate */
+export const CPR_TARGET_RATE = { low: 100, high: 120 };
+
+/** Chest-compression fraction target */
+export const CCF_TARGET = 0.8;
+
+/** Pre- and post-shock pauses should each stay under 10 s */
+export const PERI_SHOCK_PAUSE_TARGET_MS = 10_000;
+
+/** Any single hands-off interval over this is called out */
+export const PAUSE_TARGET_MS = 10_000;
+
+/** First epinephrine within 5 minutes of arrest */
+export const FIRST_EPI_TARGET_MS = 5 * 60_000;
+
+/** Compressors should rotate about every 2 minutes */
+export const COMPRESSOR_SWAP_INTERVAL_MS = 2 * 60_000;
+
+// ============================================================================
+// Log
+// ============================================================================
+
+/** Raw CPR events for one arrest, kept on the runtime */
+export type CprLog = {
+  arrestStartedAt?: number;
+  /** Hands-on intervals; the last one is open while compressions continue */
+  compressions: { start: number; end?: number }[];
+  rates: { ts: number; rate: number }[];
+  swaps: number[];
+  shocks: number[];
+  epiDoses: number[];
+  roscAt?: number;
+};
+
+export function createCprLog(): CprLog {
+  return { compressions: [], rates: [], swaps: [], shocks: [], epiDoses: [] };
+}
+
+function isCompressing(log: CprLog): boolean {
+  const last = log.compressions[log.compressions.length - 1];
+  return !!last && last.end === undefined;
+}
+
+/**
+ * The arrest starts at the first sign of it: a pulseless rhythm, a compression
+ * or a shock. A re-arrest after ROSC starts a fresh log.
+ */
+export function recordArrest(log: CprLog, ts: number): void {
+  if (log.roscAt !== undefined) {
+    Object.assign(log, createCprLog());
+    delete log.roscAt;
+    delete log.arrestStartedAt;
+  }
+  if (log.arrestStartedAt === undefined) log.arrestStartedAt = ts;
+}
+
+/** Apply one metronome report; returns false when it changed nothing */
+export function recordCprEvent(log: CprLog, event: CprEventKind, ts: number, rate?: number): boolean {
+  switch (event) {
+    case "start":
+      recordArrest(log, ts);
+      if (isCompressing(log)) return false;
+      log.compressions.push({ start: ts });
+      return true;
+    case "pause": {
+      if (!isCompressing(log)) return false;
+      log.compressions[log.compressions.length - 1].end = ts;
+      return true;
+    }
+    case "rate":
+      if (rate === undefined || !Number.isFinite(rate) || rate <= 0) return false;
+      log.rates.push({ ts, rate: Math.round(rate) });
+      return true;
+    case "swap":
+      if (log.arrestStartedAt === undefined) return false;
+      log.swaps.push(ts);
+      return true;
+  }
+}
+
+export function recordShock(log: CprLog, ts: number): void {
+  recordArrest(log, ts);
+  log.shocks.push(ts);
+}
+
+export function recordEpi(log: CprLog, ts: number): void {
+  if (log.arrestStartedAt === undefined || log.roscAt !== undefined) return;
+  log.epiDoses.push(ts);
+}
+
+/** Return of circulation ends the arrest and any compressions still running */
+export function recordRosc(log: CprLog, ts: number): void {
+  if (log.arrestStartedAt === undefined || log.roscAt !== undefined) return;
+  recordCprEvent(log, "pause", ts);
+  log.roscAt = ts;
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/** Hands-off gaps within [from, to], in order */
+function handsOffGaps(log: CprLog, from: number, to: number): { start: number; end: number }[] {
+  const gaps: { start: number; end: number }[] = [];
+  let cursor = from;
+  for (const interval of log.compressions) {
+    const start = Math.max(interval.start, from);
+    if (start > cursor) gaps.push({ start: cursor, end: Math.min(start, to) });
+    cursor = Math.max(cursor, interval.end ?? to);
+    if (cursor >= to) break;
+  }
+  if (cursor < to) gaps.push({ start: cursor, end: to });
+  return gaps.filter((gap) => gap.end > gap.start);
+}
+
+/** Longest stretch between compressor swaps, from the first compression to `endedAt` */
+function longestCompressorStintMs(log: CprLog, endedAt: number): number {
+  const startedAt = log.compressions[0]?.start;
+  if (startedAt === undefined) return 0;
+  const marks = [startedAt, ...log.swaps.filter((ts) => ts > startedAt && ts < endedAt), endedAt];
+  return marks.slice(1).reduce((max, ts, i) => Math.max(max, ts - marks[i]), 0);
+}
+
+/** Quality measures for the arrest so far; null when there has been no arrest */
+export function summarizeCpr(log: CprLog, nowMs: number): CprMetrics | null {
+  const startedAt = log.arrestStartedAt;
+  if (startedAt === undefined) return null;
+  const endedAt = log.roscAt ?? nowMs;
+  const durationMs = Math.max(0, endedAt - startedAt);
+
+  const handsOnMs = log.compressions.reduce((sum, interval) => {
+    const start = Math.max(interval.start, startedAt);
+    const end = Math.min(interval.end ?? endedAt, endedAt);
+    return sum + Math.max(0, end - start);
+  }, 0);
+  const gaps = handsOffGaps(log, startedAt, endedAt);
+
+  const shocks = log.shocks.map((ts) => {
+    // Shocked while compressions were still logged as running: no pause either side
+    const before = gaps.find((gap) => gap.start <= ts && gap.end >= ts);
+    if (!before) return { ts, preShockPauseMs: 0, postShockPauseMs: 0 };
+    const resumed = log.compressions.find((interval) => interval.start >= ts);
+    return { ts, preShockPauseMs: ts - before.start, ...(resumed && { postShockPauseMs: resumed.start - ts }) };
+  });
+
+  const rates = log.rates.map((r) => r.rate);
+  const inTarget = rates.filter((r) => r >= CPR_TARGET_RATE.low && r <= CPR_TARGET_RATE.high).length;
+  const firstEpiAt = log.epiDoses[0];
+
+  return {
+    arrestStartedAt: startedAt,
+    ...(log.roscAt !== undefined && { roscAt: log.roscAt }),
+    durationMs,
+    handsOnMs,
+    ccf: durationMs > 0 ? Math.round((handsOnMs / durationMs) * 100) / 100 : 0,
+    ...(rates.length > 0 && {
+      meanRate: Math.round(rates.reduce((a, b) => a + b, 0) / rates.length),
+      rateInTargetFraction: Math.round((inTarget / rates.length) * 100) / 100,
+    }),
+    longestPauseMs: gaps.reduce((max, gap) => Math.max(max, gap.end - gap.start), 0),
+    shocks,
+    compressorSwaps: log.swaps.length,
+    longestStintMs: longestCompressorStintMs(log, endedAt),
+    ...(firstEpiAt !== undefined && { firstEpiAt, timeToFirstEpiMs: firstEpiAt - startedAt }),
+  };
+}
+
+/**
+ * 0–1 quality factor: compression fraction against target, time at the
+ * target rate and the longest hands-off interval.
+ */
+export function cprQualityFactor(metrics: CprMetrics | null): number {
+  if (!metrics || metrics.durationMs === 0) return 0;
+  const fraction = Math.min(1, metrics.ccf / CCF_TARGET);
+  const rate = metrics.rateInTargetFraction ?? 0.5;
+  const pause = Math.max(0, 1 - Math.max(0, metrics.longestPauseMs - PAUSE_TARGET_MS) / 20_000);
+  return Math.round((0.5 * fraction + 0.3 * rate + 0.2 * pause) * 100) / 100;
+}
+
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/** Bonus: compression fraction and rate both on target for the arrest */
+export function isHighQualityCpr(metrics: CprMetrics | undefined): boolean {
+  if (!metrics || metrics.handsOnMs === 0) return false;
+  return metrics.ccf >= CCF_TARGET && (metrics.rateInTargetFraction ?? 0) >= 0.8;
+}
+
+/** Penalty: compressions off the chest for more than 40% of the arrest */
+export function hasLowCompressionFraction(metrics: CprMetrics | undefined): boolean {
+  return !!metrics && metrics.durationMs >= 60_000 && metrics.ccf < 0.6;
+}
+
+/** Penalty: any pre- or post-shock pause over target */
+export function hasLongPeriShockPause(metrics: CprMetrics | undefined): boolean {
+  return (metrics?.shocks ?? []).some(
+    (s) => s.preShockPauseMs > PERI_SHOCK_PAUSE_TARGET_MS || (s.postShockPauseMs ?? 0) > PERI_SHOCK_PAUSE_TARGET_MS
+  );
+}
+
+/** Penalty: no epinephrine within 5 minutes of arrest (given late, or not yet and the arrest has run past it) */
+export function isFirstEpiLate(metrics: CprMetrics | undefined): boolean {
+  if (!metrics) return false;
+  return (metrics.timeToFirstEpiMs ?? metrics.durationMs) > FIRST_EPI_TARGET_MS;
+}
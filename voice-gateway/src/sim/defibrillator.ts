@@ -0,0 +1,326 @@
+/**
+ * Defibrillator / monitor device model.
+ *
+ * The participant-facing defibrillator sends structured actions (pads, energy,
+ * sync, charge, clear, shock, pacing) instead of a free-form treatment. This
+ * module holds the device state and checks each shock against the rhythm on
+ * the monitor and PALS energy doses; every finding is a device error the
+ * debrief scores.
+ */
+
+import type { Rhythm, RhythmCode } from "./rhythm";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DEFIB_ACTIONS = [
+  "pads_on",
+  "pads_off",
+  "set_energy",
+  "set_sync",
+  "charge",
+  "clear",
+  "disarm",
+  "shock",
+  "set_pacing",
+  "pace_start",
+  "pace_stop",
+] as const;
+
+export type DefibAction = (typeof DEFIB_ACTIONS)[number];
+
+export type DefibActionParams = {
+  energyJ?: number;
+  sync?: boolean;
+  /** Pacing rate (bpm) and output (mA) */
+  rateBpm?: number;
+  currentMa?: number;
+};
+
+export type PacingState = {
+  active: boolean;
+  rateBpm: number;
+  currentMa: number;
+  /** Electrical capture at the current output */
+  capture: boolean;
+  /** Heart rate before pacing took over, restored when it stops */
+  underlyingHr?: number;
+};
+
+export type DefibrillatorState = {
+  padsOn: boolean;
+  energyJ: number;
+  sync: boolean;
+  charged: boolean;
+  /** "All clear" called since the last charge */
+  cleared: boolean;
+  shockCount: number;
+  pacing: PacingState;
+};
+
+export type ShockKind = "cardioversion" | "defibrillation";
+
+export type DefibErrorKind =
+  | "unsynchronized_cardioversion"
+  | "synchronized_defibrillation"
+  | "shock_not_indicated"
+  | "energy_low"
+  | "energy_high"
+  | "no_clear_call";
+
+/** A device mistake, recorded in extended state for scoring and debrief */
+export type DefibErrorRecord = {
+  ts: number;
+  kind: DefibErrorKind;
+  energyJ: number;
+  joulesPerKg: number;
+  rhythm: RhythmCode;
+  message: string;
+};
+
+export type DefibFinding = { kind: DefibErrorKind; message: string };
+
+export type ShockEvaluation = {
+  /** False when the device refuses or cannot fire */
+  delivered: boolean;
+  /** What the shock amounts to for this rhythm; null when no shock is indicated */
+  kind: ShockKind | null;
+  synchronized: boolean;
+  findings: DefibFinding[];
+  /** Device prompt when the shock did not go (e.g. "Charge first") */
+  prompt?: string;
+};
+
+/** Per-session device and its recorded mistakes, kept on the runtime */
+export type DefibrillatorLog = {
+  device: DefibrillatorState;
+  errors: DefibErrorRecord[];
+};
+
+// ============================================================================
+// Device Settings
+// ============================================================================
+
+/** Selectable energies on a typical biphasic device */
+export const DEFIB_ENERGY_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 20, 30, 50, 70, 85, 100, 120, 150, 200] as const;
+
+export const MAX_ENERGY_J = 200;
+
+/** PALS energy doses in J/kg: cardioversion 0.5-1 then up to 2; defibrillation 2, 4, then up to 10 */
+export const ENERGY_DOSE_J_PER_KG: Record<ShockKind, { low: number; high: number }> = {
+  cardioversion: { low: 0.5, high: 2 },
+  defibrillation: { low: 2, high: 10 },
+};
+
+export const PACING_RATE_RANGE = { min: 40, max: 180 };
+export const PACING_CURRENT_RANGE = { min: 0, max: 200 };
+
+/** Output needed for transcutaneous capture in the simulated patient */
+export const PACING_CAPTURE_MA = 60;
+
+/** Perfusing tachyarrhythmias treated with synchronized cardioversion */
+const CARDIOVERSION_RHYTHMS: readonly RhythmCode[] = ["svt", "vt", "afib", "junctional"];
+
+/** Rhythms the pacer cannot capture through */
+const NO_CAPTURE_RHYTHMS: readonly RhythmCode[] = ["vf", "vt", "polymorphic_vt"];
+
+const CRITICAL_DEFIB_ERRORS: readonly DefibErrorKind[] = ["unsynchronized_cardioversion", "shock_not_indicated"];
+
+// ============================================================================
+// Device State
+// ============================================================================
+
+export function createDefibrillator(padsOn = false): DefibrillatorState {
+  return {
+    padsOn,
+    energyJ: DEFIB_ENERGY_STEPS[0],
+    sync: false,
+    charged: false,
+    cleared: false,
+    shockCount: 0,
+    pacing: { active: false, rateBpm: 100, currentMa: 0, capture: false },
+  };
+}
+
+export function createDefibrillatorLog(padsOn = false): DefibrillatorLog {
+  return { device: createDefibrillator(padsOn), errors: [] };
+}
+
+/** Nearest selectable energy, capped at the device maximum */
+export function snapEnergy(energyJ: number): number {
+  return DEFIB_ENERGY_STEPS.reduce((best, step) =>
+    Math.abs(step - energyJ) < Math.abs(best - energyJ) ? step : best
+  );
+}
+
+/**
+ * Acceptable energy window for a shock in this patient. Device steps are
+ * coarse, so the window widens to the nearest step either side of the dose.
+ */
+export function energyWindow(kind: ShockKind, weightKg: number): { minJ: number; maxJ: number } {
+  const dose = ENERGY_DOSE_J_PER_KG[kind];
+  const low = dose.low * weightKg;
+  const high = dose.high * weightKg;
+  const minJ = [...DEFIB_ENERGY_STEPS].reverse().find((step) => step <= low) ?? DEFIB_ENERGY_STEPS[0];
+  const maxJ = DEFIB_ENERGY_STEPS.find((step) => step >= high) ?? MAX_ENERGY_J;
+  return { minJ, maxJ: Math.min(maxJ, MAX_ENERGY_J) };
+}
+
+/** What a shock would be for this rhythm: defibrillation, cardioversion or not indicated */
+export function shockKindFor(rhythm: Rhythm): ShockKind | null {
+  if (rhythm.code === "vf" || rhythm.code === "polymorphic_vt") return "defibrillation";
+  if (rhythm.code === "vt" && !rhythm.pulsePresent) return "defibrillation";
+  if (CARDIOVERSION_RHYTHMS.includes(rhythm.code) && rhythm.pulsePresent) return "cardioversion";
+  return null;
+}
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+/**
+ * Apply a non-shock action. Returns the next device state and a prompt when the
+ * device refuses (charge without pads) or dumps its charge (energy changed).
+ */
+export function applyDefibAction(
+  device: DefibrillatorState,
+  action: Exclude<DefibAction, "shock">,
+  params: DefibActionParams = {}
+): { device: DefibrillatorState; prompt?: string } {
+  const disarmed = { charged: false, cleared: false };
+  switch (action) {
+    case "pads_on":
+      return { device: { ...device, padsOn: true } };
+    case "pads_off":
+      return {
+        device: { ...device, ...disarmed, padsOn: false, pacing: { ...device.pacing, active: false, capture: false } },
+        prompt: device.charged ? "Pads off - charge dumped." : undefined,
+      };
+    case "set_energy": {
+      if (params.energyJ === undefined) return { device };
+      const energyJ = snapEnergy(params.energyJ);
+      if (energyJ === device.energyJ) return { device };
+      return {
+        device: { ...device, ...disarmed, energyJ },
+        prompt: device.charged ? "Energy changed - charge dumped." : undefined,
+      };
+    }
+    case "set_sync":
+      return { device: { ...device, sync: params.sync ?? !device.sync } };
+    case "charge":
+      if (!device.padsOn) return { device, prompt: "Connect pads." };
+      return { device: { ...device, charged: true, cleared: false }, prompt: `Charged to ${device.energyJ} J.` };
+    case "clear":
+      if (!device.charged) return { device, prompt: "Not charged." };
+      return { device: { ...device, cleared: true } };
+    case "disarm":
+      return { device: { ...device, ...disarmed }, prompt: device.charged ? "Charge dumped." : undefined };
+    case "set_pacing":
+      return {
+        device: {
+          ...device,
+          pacing: {
+            ...device.pacing,
+            rateBpm: clamp(params.rateBpm ?? device.pacing.rateBpm, PACING_RATE_RANGE),
+            currentMa: clamp(params.currentMa ?? device.pacing.currentMa, PACING_CURRENT_RANGE),
+          },
+        },
+      };
+    case "pace_start":
+      if (!device.padsOn) return { device, prompt: "Connect pads." };
+      return { device: { ...device, pacing: { ...device.pacing, active: true } } };
+    case "pace_stop":
+      return { device: { ...device, pacing: { ...device.pacing, active: false, capture: false } } };
+  }
+}
+
+// ============================================================================
+// Shock and Pacing Checks
+// ============================================================================
+
+/**
+ * Check a shock against the rhythm on the monitor and the patient's weight.
+ * The device will not fire without pads and a charge, or in sync mode when
+ * there are no R waves to sync to; everything else fires and is recorded.
+ */
+export function evaluateShock(device: DefibrillatorState, rhythm: Rhythm, weightKg: number): ShockEvaluation {
+  const kind = shockKindFor(rhythm);
+  const base = { kind, synchronized: device.sync };
+  if (!device.padsOn) return { ...base, delivered: false, findings: [], prompt: "Connect pads." };
+  if (!device.charged) return { ...base, delivered: false, findings: [], prompt: "Charge first." };
+
+  const findings: DefibFinding[] = [];
+  if (device.sync && kind === "defibrillation") {
+    findings.push({
+      kind: "synchronized_defibrillation",
+      message: `Sync is on in ${rhythm.code === "vf" ? "VF" : "polymorphic VT"} - no R waves to sync to, so the shock never fires. Turn sync off to defibrillate.`,
+    });
+    return { ...base, delivered: false, findings, prompt: "Searching for R waves..." };
+  }
+
+  if (!device.cleared) {
+    findings.push({ kind: "no_clear_call", message: "Shocked without calling all clear." });
+  }
+  if (kind === null) {
+    findings.push({
+      kind: "shock_not_indicated",
+      message: `Shock delivered in ${rhythm.summary || rhythm.code} - not a shockable rhythm.`,
+    });
+  } else {
+    if (kind === "cardioversion" && !device.sync) {
+      findings.push({
+        kind: "unsynchronized_cardioversion",
+        message: "Unsynchronized shock into a perfusing rhythm - risks an R-on-T shock and VF. Turn sync on to cardiovert.",
+      });
+    }
+    const window = energyWindow(kind, weightKg);
+    const perKg = ENERGY_DOSE_J_PER_KG[kind];
+    if (device.energyJ < window.minJ) {
+      findings.push({
+        kind: "energy_low",
+        message: `${device.energyJ} J is below the ${kind} dose of ${perKg.low}-${perKg.high} J/kg (${window.minJ}-${window.maxJ} J).`,
+      });
+    } else if (device.energyJ > window.maxJ) {
+      findings.push({
+        kind: "energy_high",
+        message: `${device.energyJ} J is above the ${kind} dose of ${perKg.low}-${perKg.high} J/kg (${window.minJ}-${window.maxJ} J).`,
+      });
+    }
+  }
+  return { ...base, delivered: true, findings };
+}
+
+/** Device after a shock fires: the capacitor is empty and the clear call is spent */
+export function dischargeDefibrillator(device: DefibrillatorState): DefibrillatorState {
+  return { ...device, charged: false, cleared: false, shockCount: device.shockCount + 1 };
+}
+
+/** Transcutaneous capture at this output, for the underlying rhythm */
+export function hasPacingCapture(pacing: PacingState, rhythm: Rhythm): boolean {
+  return pacing.active && pacing.currentMa >= PACING_CAPTURE_MA && !NO_CAPTURE_RHYTHMS.includes(rhythm.code);
+}
+
+export function toDefibErrorRecords(
+  findings: DefibFinding[],
+  device: DefibrillatorState,
+  rhythm: Rhythm,
+  weightKg: number,
+  ts: number
+): DefibErrorRecord[] {
+  return findings.map((finding) => ({
+    ts,
+    kind: finding.kind,
+    energyJ: device.energyJ,
+    joulesPerKg: Math.round((device.energyJ / weightKg) * 10) / 10,
+    rhythm: rhythm.code,
+    message: finding.message,
+  }));
+}
+
+export function isCriticalDefibError(kind: DefibErrorKind): boolean {
+  return CRITICAL_DEFIB_ERRORS.includes(kind);
+}
+
+/** Scoring check: any recorded device error of the given severity */
+export function hasDefibError(errors: DefibErrorRecord[] | undefined, critical: boolean): boolean {
+  return (errors ?? []).some((error) => isCriticalDefibError(error.kind) === critical);
+}
@@ -0,0 +1,391 @@
+/**
+ * Deterministic ECG synthesis shared by the gateway telemetry strip, the
+ * bedside monitor and the 12-lead viewer.
+ *
+ * Each beat is a sum of Gaussian P, Q, R, S, ST and T components placed on a
+ * beat schedule for the rhythm (regular, irregularly irregular, dissociated
+ * P waves, progressive or fixed dropped beats). Limb leads are derived from
+ * leads I and II by Einthoven's law; precordial leads have their own R/S
+ * progression. Noise and irregularity come from a seeded hash, so the same
+ * spec, lead, time and seed always produce the same sample.
+ *
+ * Kept free of Node imports so the frontend can import it directly.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const ECG_LEADS = ["I", "II", "III", "aVR", "aVL", "aVF", "V1", "V2", "V3", "V4", "V5", "V6"] as const;
+
+export type EcgLead = (typeof ECG_LEADS)[number];
+
+export type EcgRhythm =
+  | "sinus"
+  | "svt"
+  | "vt"
+  | "vf"
+  | "afib"
+  | "asystole"
+  | "pea"
+  | "av_block_1"
+  | "av_block_2_mobitz1"
+  | "av_block_2_mobitz2"
+  | "av_block_3";
+
+export type EcgFeatures = {
+  /** WPW pre-excitation: short PR with a slurred QRS upstroke */
+  deltaWave?: boolean;
+  /** Corrected QT (Bazett); the QT interval is derived from it and the rate */
+  qtcMs?: number;
+  /** ST deviation in mm at 10 mm/mV (positive = elevation) */
+  stShiftMm?: number;
+  /** Leads showing the ST deviation; all but aVR (reciprocal) when omitted */
+  stLeads?: EcgLead[];
+  lowVoltage?: boolean;
+};
+
+export type EcgSpec = {
+  rhythm: EcgRhythm;
+  /** Ventricular rate in bpm (ignored for VF and asystole) */
+  hr: number;
+  features?: EcgFeatures;
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DEFAULT_HR = 80;
+const DEFAULT_QTC_MS = 420;
+
+const LEAD_GROUPS: Record<string, EcgLead[]> = {
+  inferior: ["II", "III", "aVF"],
+  lateral: ["I", "aVL", "V5", "V6"],
+  anterior: ["V1", "V2", "V3", "V4"],
+  septal: ["V1", "V2"],
+};
+
+function parseRhythm(s: string): EcgRhythm {
+  if (/\bv-?fib\b|ventricular fibrillation/.test(s)) return "vf";
+  if (/\bv-?tach\b|ventricular tachycardia|wide[- ]complex tachycardia|\b(?:mono|poly)morphic vt\b|pulseless vt|torsade|^vt\b/.test(s)) {
+    return "vt";
+  }
+  if (/\bsvt\b|supraventricular|narrow[- ](?:regular|complex) tachycardia/.test(s)) return "svt";
+  if (/\ba-?fib\b|atrial fibrillation/.test(s)) return "afib";
+  if (/asystole|flatline/.test(s)) return "asystole";
+  if (/\bpea\b|pulseless electrical/.test(s)) return "pea";
+  if (/mobitz (?:ii|2|type ii|type 2)\b/.test(s)) return "av_block_2_mobitz2";
+  if (/wenckebach|mobitz (?:i|1|type i|type 1)\b|(?:2nd|second)[- ]degree/.test(s)) return "av_block_2_mobitz1";
+  if (/(?:3rd|third)[- ]degree|complete (?:heart|av) block/.test(s)) return "av_block_3";
+  if (/(?:1st|first)[- ]degree|prolonged pr\b/.test(s)) return "av_block_1";
+  if (/heart block|av block/.test(s)) return "av_block_3";
+  return "sinus";
+}
+
+function parseFeatures(s: string): EcgFeatures | undefined {
+  const features: EcgFeatures = {};
+
+  if (/wpw|wolff|pre-?excitation|delta wave/.test(s) && !/\bno (?:pre-?excitation|delta wave)/.test(s)) {
+    features.deltaWave = true;
+  }
+
+  const qtc = s.match(/qtc\D{0,6}(\d{3})/);
+  if (qtc) {
+    features.qtcMs = Number(qtc[1]);
+  } else if (/long qt|prolonged qt/.test(s)) {
+    features.qtcMs = 500;
+  } else if (/borderline qt/.test(s)) {
+    features.qtcMs = 460;
+  }
+
+  if (/st[- ]elevation/.test(s)) {
+    features.stShiftMm = 2;
+  } else if (/st[- ]depression/.test(s)) {
+    features.stShiftMm = -1.5;
+  }
+  if (features.stShiftMm !== undefined) {
+    const leads = Object.keys(LEAD_GROUPS).filter((group) => s.includes(group));
+    if (leads.length > 0) {
+      features.stLeads = [...new Set(leads.flatMap((group) => LEAD_GROUPS[group]))];
+    }
+  }
+
+  if (/low voltage/.test(s)) features.lowVoltage = true;
+
+  return Object.keys(features).length > 0 ? features : undefined;
+}
+
+/**
+ * Turn a free-text rhythm summary (order results, scenario stages) into a
+ * synthesis spec. An explicit heart rate wins over one written in the text.
+ */
+export function parseRhythmSummary(summary?: string, hr?: number): EcgSpec {
+  const s = (summary ?? "").toLowerCase();
+  const written = s.match(/~?\s*(\d{2,3})\s*(?:bpm|s\b)/) ?? s.match(/~\s*(\d{2,3})/);
+  const rate = hr ?? (written ? Number(written[1]) : DEFAULT_HR);
+  const features = parseFeatures(s);
+  return { rhythm: parseRhythm(s), hr: rate, ...(features ? { features } : {}) };
+}
+
+// ============================================================================
+// Lead templates
+// ============================================================================
+
+/** Peak amplitude (mV) of each beat component in one lead */
+type WaveAmplitudes = { p: number; q: number; r: number; s: number; t: number };
+
+const LEAD_I: WaveAmplitudes = { p: 0.1, q: -0.05, r: 0.6, s: -0.1, t: 0.2 };
+const LEAD_II: WaveAmplitudes = { p: 0.15, q: -0.05, r: 1.0, s: -0.15, t: 0.3 };
+
+const PRECORDIAL: Record<"V1" | "V2" | "V3" | "V4" | "V5" | "V6", WaveAmplitudes> = {
+  V1: { p: 0.08, q: 0, r: 0.3, s: -0.9, t: -0.1 },
+  V2: { p: 0.08, q: 0, r: 0.5, s: -1.2, t: 0.3 },
+  V3: { p: 0.08, q: 0, r: 0.8, s: -0.8, t: 0.35 },
+  V4: { p: 0.08, q: -0.05, r: 1.2, s: -0.5, t: 0.35 },
+  V5: { p: 0.08, q: -0.08, r: 1.1, s: -0.25, t: 0.3 },
+  V6: { p: 0.08, q: -0.08, r: 0.9, s: -0.15, t: 0.25 },
+};
+
+function combine(a: WaveAmplitudes, ka: number, b: WaveAmplitudes, kb: number): WaveAmplitudes {
+  return {
+    p: a.p * ka + b.p * kb,
+    q: a.q * ka + b.q * kb,
+    r: a.r * ka + b.r * kb,
+    s: a.s * ka + b.s * kb,
+    t: a.t * ka + b.t * kb,
+  };
+}
+
+/** Einthoven/Goldberger: III = II − I, aVR = −(I + II)/2, aVL = I − II/2, aVF = II − I/2 */
+function leadAmplitudes(lead: EcgLead): WaveAmplitudes {
+  switch (lead) {
+    case "I":
+      return LEAD_I;
+    case "II":
+      return LEAD_II;
+    case "III":
+      return combine(LEAD_II, 1, LEAD_I, -1);
+    case "aVR":
+      return combine(LEAD_I, -0.5, LEAD_II, -0.5);
+    case "aVL":
+      return combine(LEAD_I, 1, LEAD_II, -0.5);
+    case "aVF":
+      return combine(LEAD_II, 1, LEAD_I, -0.5);
+    default:
+      return PRECORDIAL[lead];
+  }
+}
+
+/** Monomorphic VT: wide complexes following the lead's net QRS, discordant T, no P */
+function ventricularAmplitudes(a: WaveAmplitudes): WaveAmplitudes {
+  const net = a.q + a.r + a.s;
+  return { p: 0, q: 0, r: 1.4 * net, s: -0.3 * net, t: -0.45 * net };
+}
+
+// ============================================================================
+// Beat schedule
+// ============================================================================
+
+type Intervals = { rrMs: number; prMs: number; qrsMs: number; qtMs: number };
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, n));
+}
+
+function getIntervals(spec: EcgSpec): Intervals {
+  const rrMs = 60000 / clamp(spec.hr, 20, 320);
+  const features = spec.features ?? {};
+  const prMs = features.deltaWave
+    ? 90
+    : spec.rhythm === "av_block_1"
+    ? 260
+    : Math.round(clamp(160 - (spec.hr - 60) * 0.3, 100, 180));
+  const qrsMs = spec.rhythm === "vt" ? 150 : features.deltaWave ? 120 : spec.rhythm === "av_block_3" ? 100 : 80;
+  const qtcMs = features.qtcMs ?? DEFAULT_QTC_MS;
+  const qtMs = Math.min(qtcMs * Math.sqrt(rrMs / 1000), rrMs * 0.9);
+  return { rrMs, prMs, qrsMs, qtMs };
+}
+
+/** Onset times of P waves and QRS complexes that can reach a sample */
+type BeatEvents = { p: number[]; qrs: number[] };
+
+/** How far either side of a sample a P wave or beat can still contribute */
+const LOOKBACK_MS = 1200;
+const LOOKAHEAD_MS = 400;
+
+/** Uniform [0, 1) from an integer hash of (seed, n) */
+function hash01(seed: number, n: number): number {
+  let h = (seed ^ Math.imul(n, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+/** Slot indices whose events can fall in [lo, hi] for a sequence of period `period` starting at `phase` */
+function slots(lo: number, hi: number, period: number, phase: number): number[] {
+  const out: number[] = [];
+  for (let k = Math.floor((lo - phase) / period) - 1; k <= Math.ceil((hi - phase) / period) + 1; k++) out.push(k);
+  return out;
+}
+
+function scheduleBeats(spec: EcgSpec, intervals: Intervals, tMs: number, seed: number): BeatEvents {
+  const { rrMs, prMs } = intervals;
+  const lo = tMs - LOOKBACK_MS;
+  const hi = tMs + LOOKAHEAD_MS;
+  const inWindow = (x: number) => x >= lo && x <= hi;
+  const events: BeatEvents = { p: [], qrs: [] };
+
+  switch (spec.rhythm) {
+    case "vf":
+    case "asystole":
+      return events;
+
+    case "afib": {
+      // Irregularly irregular: each beat lands somewhere in its slot
+      slots(lo, hi, rrMs, 0).forEach((k) => {
+        const at = k * rrMs + hash01(seed, k) * rrMs * 0.6;
+        if (inWindow(at)) events.qrs.push(at);
+      });
+      return events;
+    }
+
+    case "av_block_2_mobitz1":
+    case "av_block_2_mobitz2": {
+      // Atrial rate set so the conducted ventricular rate averages `hr`
+      const cycle = spec.rhythm === "av_block_2_mobitz1" ? 4 : 3;
+      const ppMs = (rrMs * (cycle - 1)) / cycle;
+      const mobitz1Pr = [prMs, prMs + 60, prMs + 110];
+      slots(lo, hi, ppMs, 0).forEach((k) => {
+        const pAt = k * ppMs;
+        const beat = ((k % cycle) + cycle) % cycle;
+        if (inWindow(pAt)) events.p.push(pAt);
+        if (beat === cycle - 1) return;
+        const qrsAt = pAt + (spec.rhythm === "av_block_2_mobitz1" ? mobitz1Pr[beat] : prMs);
+        if (inWindow(qrsAt)) events.qrs.push(qrsAt);
+      });
+      return events;
+    }
+
+    case "av_block_3": {
+      // P waves march through at their own rate, dissociated from the escape rhythm
+      const ppMs = 60000 / clamp(spec.hr * 2, 90, 150);
+      slots(lo, hi, ppMs, 0).forEach((k) => {
+        if (inWindow(k * ppMs)) events.p.push(k * ppMs);
+      });
+      slots(lo, hi, rrMs, rrMs * 0.37).forEach((k) => {
+        const at = k * rrMs + rrMs * 0.37;
+        if (inWindow(at)) events.qrs.push(at);
+      });
+      return events;
+    }
+
+    default: {
+      const conductedP = spec.rhythm !== "svt" && spec.rhythm !== "vt";
+      slots(lo, hi, rrMs, rrMs * 0.3).forEach((k) => {
+        const qrsAt = k * rrMs + rrMs * 0.3;
+        if (inWindow(qrsAt)) events.qrs.push(qrsAt);
+        if (conductedP && inWindow(qrsAt - prMs)) events.p.push(qrsAt - prMs);
+      });
+      return events;
+    }
+  }
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+function gauss(tMs: number, centerMs: number, sigmaMs: number, amp: number): number {
+  const z = (tMs - centerMs) / sigmaMs;
+  return z > 6 || z < -6 ? 0 : amp * Math.exp(-0.5 * z * z);
+}
+
+function stShiftFor(lead: EcgLead, features: EcgFeatures): number {
+  const mm = features.stShiftMm;
+  if (!mm) return 0;
+  if (features.stLeads) return features.stLeads.includes(lead) ? mm * 0.1 : 0;
+  return lead === "aVR" ? -mm * 0.1 : mm * 0.1;
+}
+
+/** Value noise: linear interpolation between hashed points every 8 ms */
+function baselineNoise(seed: number, tMs: number): number {
+  const i = Math.floor(tMs / 8);
+  const f = tMs / 8 - i;
+  return (hash01(seed, i) * (1 - f) + hash01(seed, i + 1) * f - 0.5) * 0.02;
+}
+
+function fibrillation(seed: number, tMs: number, freqsHz: number[], amp: number): number {
+  return freqsHz.reduce((sum, hz, i) => {
+    const phase = hash01(seed, 1000 + i) * Math.PI * 2;
+    const wobble = 1 + 0.3 * Math.sin((tMs / 1000) * Math.PI * 2 * 0.4 + phase);
+    return sum + Math.sin((tMs / 1000) * Math.PI * 2 * hz * wobble + phase) * amp;
+  }, 0);
+}
+
+/** Sample one lead at time `tMs` (mV). Deterministic for a given seed. */
+export function sampleEcg(spec: EcgSpec, lead: EcgLead, tMs: number, seed = 1): number {
+  const leadIndex = ECG_LEADS.indexOf(lead);
+  const noise = baselineNoise(seed + leadIndex * 7919, tMs);
+
+  if (spec.rhythm === "asystole") return noise * 0.5;
+  if (spec.rhythm === "vf") {
+    // Coarse VF: a few incommensurate 4–7 Hz oscillations, scaled per lead
+    const leadScale = 0.6 + 0.6 * hash01(seed, 500 + leadIndex);
+    return fibrillation(seed + leadIndex, tMs, [4.1, 5.3, 6.7], 0.18 * leadScale) + noise;
+  }
+
+  const features = spec.features ?? {};
+  const intervals = getIntervals(spec);
+  const { qrsMs, qtMs } = intervals;
+  const base = leadAmplitudes(lead);
+  const amps = spec.rhythm === "vt" ? ventricularAmplitudes(base) : base;
+  const qrsScale = features.lowVoltage || spec.rhythm === "pea" ? 0.4 : 1;
+  const st = stShiftFor(lead, features);
+  const events = scheduleBeats(spec, intervals, tMs, seed);
+
+  let v = noise;
+  events.p.forEach((onset) => {
+    v += gauss(tMs, onset + 40, 18, amps.p);
+  });
+  events.qrs.forEach((onset) => {
+    if (features.deltaWave) v += gauss(tMs, onset + 20, 16, 0.3 * amps.r * qrsScale);
+    v += gauss(tMs, onset + qrsMs * 0.15, qrsMs * 0.06, amps.q * qrsScale);
+    v += gauss(tMs, onset + qrsMs * 0.45, qrsMs * 0.12, amps.r * qrsScale);
+    v += gauss(tMs, onset + qrsMs * 0.8, qrsMs * 0.1, amps.s * qrsScale);
+    const tSigma = qtMs * 0.12;
+    const tCenter = onset + qtMs - 2.2 * tSigma;
+    if (st !== 0) {
+      const jPoint = onset + qrsMs;
+      v += gauss(tMs, (jPoint + tCenter) / 2, Math.max(10, (tCenter - jPoint) / 2.5), st);
+    }
+    v += gauss(tMs, tCenter, tSigma, amps.t);
+  });
+
+  if (spec.rhythm === "afib") v += fibrillation(seed, tMs, [6.2, 7.9], lead === "V1" || lead === "II" ? 0.03 : 0.015);
+  return v;
+}
+
+export type SynthesisOptions = {
+  durationMs: number;
+  sampleRateHz: number;
+  /** Start of the strip on the rhythm's timeline (defaults to 0) */
+  startMs?: number;
+  seed?: number;
+};
+
+export function synthesizeLead(spec: EcgSpec, lead: EcgLead, options: SynthesisOptions): number[] {
+  const { durationMs, sampleRateHz, startMs = 0, seed = 1 } = options;
+  const count = Math.round((durationMs / 1000) * sampleRateHz);
+  const stepMs = 1000 / sampleRateHz;
+  return Array.from({ length: count }, (_, i) => sampleEcg(spec, lead, startMs + i * stepMs, seed));
+}
+
+/** All twelve leads over the same window, so columns of a 12-lead line up in time */
+export function synthesize12Lead(spec: EcgSpec, options: SynthesisOptions): Record<EcgLead, number[]> {
+  return Object.fromEntries(ECG_LEADS.map((lead) => [lead, synthesizeLead(spec, lead, options)])) as Record<
+    EcgLead,
+    number[]
+  >;
+}
@@ -0,0 +1,115 @@
+/**
+ * Structured echocardiogram reports.
+ *
+ * Every scenario starts from a structurally normal study and its file's `echo`
+ * profile overrides the sections its lesion touches, per stage or phase like
+ * the lab panels. LV function and coronary involvement are graded from the
+ * numbers so the text cannot drift from the measurements.
+ * Kept free of imports so the frontend can share the report type.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EchoMedia = { kind: "still" | "loop"; url: string; caption: string };
+
+/** Coronary artery z-scores (Kawasaki) */
+export type CoronaryZScores = { lmca: number; lad: number; rca: number };
+
+export type EchoReport = {
+  impression: string;
+  lvef: number;
+  /** Graded from lvef */
+  lvFunction: string;
+  rvFunction: string;
+  chambers: { lv: string; rv: string; la: string; ra: string };
+  valves: { mitral: string; tricuspid: string; aortic: string; pulmonary: string };
+  ductus: string;
+  shunts: string;
+  arch: string;
+  coarctationGradientMmHg?: number;
+  coronaries?: CoronaryZScores & { classification: string };
+  pericardium: string;
+  findings: string[];
+  media?: EchoMedia[];
+};
+
+export type EchoSpec = Omit<EchoReport, "lvFunction" | "coronaries" | "media"> & { coronaries?: CoronaryZScores };
+
+/** Authored in the scenario file; anything unset is the normal study */
+export type EchoProfile = {
+  values?: Partial<EchoSpec>;
+  /** Overrides keyed by exact stage id, or phase id for complex scenarios */
+  stages?: Record<string, Partial<EchoSpec>>;
+  /** Stills and loops shipped under public/; a profile without media shows the report alone */
+  media?: EchoMedia[];
+};
+
+// ============================================================================
+// Grading
+// ============================================================================
+
+export function gradeLvFunction(ef: number): string {
+  if (ef >= 70) return "hyperdynamic";
+  if (ef >= 55) return "normal";
+  if (ef >= 45) return "mildly reduced";
+  if (ef >= 30) return "moderately reduced";
+  return "severely reduced";
+}
+
+/** AHA 2017 Kawasaki classification by the largest coronary z-score */
+export function classifyCoronaries(z: CoronaryZScores): string {
+  const max = Math.max(z.lmca, z.lad, z.rca);
+  if (max < 2) return "No involvement";
+  if (max < 2.5) return "Dilation only";
+  if (max < 5) return "Small aneurysm";
+  if (max < 10) return "Medium aneurysm";
+  return "Large/giant aneurysm";
+}
+
+// ============================================================================
+// Normal Study
+// ============================================================================
+
+const NORMAL_ECHO: EchoSpec = {
+  impression: "Structurally normal heart with normal biventricular function.",
+  lvef: 62,
+  rvFunction: "normal",
+  chambers: { lv: "normal size", rv: "normal size", la: "normal size", ra: "normal size" },
+  valves: { mitral: "normal", tricuspid: "trivial TR", aortic: "trileaflet, normal", pulmonary: "normal" },
+  ductus: "closed",
+  shunts: "intact atrial and ventricular septa",
+  arch: "left arch, unobstructed",
+  pericardium: "no effusion",
+  findings: [],
+};
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/** Report at the current step: each id in `stepIds` (stage, then phase) applies its exact entry */
+export function buildEchoReport(profile: EchoProfile = {}, stepIds: string[] = []): EchoReport {
+  let spec: EchoSpec = { ...NORMAL_ECHO, ...profile.values };
+  for (const id of stepIds) {
+    const stage = profile.stages?.[id];
+    if (stage) spec = { ...spec, ...stage };
+  }
+
+  const { coronaries, ...rest } = spec;
+  return {
+    ...rest,
+    lvFunction: gradeLvFunction(spec.lvef),
+    ...(coronaries && { coronaries: { ...coronaries, classification: classifyCoronaries(coronaries) } }),
+    ...(profile.media?.length && { media: profile.media }),
+  };
+}
+
+/** Short findings line for the order card and the tech's read-back */
+export function summarizeEchoReport(report: EchoReport): string {
+  const parts = [`EF ${report.lvef}% (${report.lvFunction})`];
+  if (report.coarctationGradientMmHg !== undefined) parts.push(`coarctation gradient ${report.coarctationGradientMmHg} mmHg`);
+  if (report.coronaries) parts.push(`coronaries: ${report.coronaries.classification.toLowerCase()}`);
+  return `${report.impression} ${parts.join("; ")}.`;
+}
@@ -3,7 +3,8 @@ import { logSimEvent } from "../persistence";
 
 export interface EventLogger {
   append(event: EventLogEntry): void;
-  getRecent?(limit?: number): EventLogEntry[];
+  /** Most recent events, oldest first; only the given sim's when simId is set */
+  getRecent?(limit?: number, simId?: string): EventLogEntry[];
 }
 
 export class InMemoryEventLog implements EventLogger {
@@ -17,8 +18,9 @@ export class InMemoryEventLog implements EventLogger {
     }
   }
 
-  getRecent(limit = 50): EventLogEntry[] {
-    return this.events.slice(-limit);
+  getRecent(limit = 50, simId?: string): EventLogEntry[] {
+    const events = simId ? this.events.filter((event) => event.simId === simId) : this.events;
+    return events.slice(-limit);
   }
 }
 
@@ -71,8 +73,8 @@ export class CompositeEventLog implements EventLogger {
     }
   }
 
-  getRecent(limit = 50): EventLogEntry[] {
-    return this.memoryLog?.getRecent(limit) ?? [];
+  getRecent(limit = 50, simId?: string): EventLogEntry[] {
+    return this.memoryLog?.getRecent(limit, simId) ?? [];
   }
 }
 
@@ -0,0 +1,400 @@
+/**
+ * Medication formulary and order safety checks.
+ *
+ * Per-drug weight-based dose ranges, absolute and cumulative maxima, allowed
+ * routes and stocked concentrations for the bolus medications the treatment
+ * handler gives. Orders are checked before the nurse draws them up; every
+ * finding is an error the nurse challenges and the debrief scores.
+ */
+
+import type { MedicationErrorKind, MedicationErrorRecord } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MedicationRoute = "iv" | "io" | "im" | "po" | "pr";
+
+export type DoseBand = {
+  /** Acceptable per-kg range; fixed-dose drugs use the same low and high */
+  perKg: { low: number; high: number };
+  /** Floor for small patients (e.g. atropine 0.1 mg) */
+  minDose?: number;
+  maxDose: number;
+  /** Replaces maxDose from age 12 */
+  maxDoseAdolescent?: number;
+};
+
+export type Concentration = {
+  label: string;
+  perMl: number;
+  /** Spellings an order may use, compared lowercase without spaces or commas */
+  aliases: string[];
+};
+
+export type FormularyEntry = {
+  id: string;
+  name: string;
+  unit: "mg" | "mEq";
+  routes: MedicationRoute[];
+  dose: DoseBand;
+  /** Second and later doses, when they differ (adenosine 0.2 mg/kg) */
+  repeatDose?: DoseBand;
+  /** Per-route overrides (IM epinephrine max 0.5 mg) */
+  routeDose?: Partial<Record<MedicationRoute, DoseBand>>;
+  cumulative?: { perKg?: number; max: number; maxAdolescent?: number };
+  concentrations?: Partial<Record<MedicationRoute, Concentration>>;
+};
+
+export type MedicationOrder = {
+  dose?: number;
+  route?: string;
+  concentration?: string;
+  volumeMl?: number;
+};
+
+export type MedicationFinding = { kind: MedicationErrorKind; message: string };
+
+export type MedicationCheck = {
+  entry: FormularyEntry;
+  /** Ordered dose, or volume × concentration when the order was given in mL */
+  dose?: number;
+  route: string;
+  expected: { low: number; high: number };
+  findings: MedicationFinding[];
+};
+
+export type AdministeredDose = { drug: string; dose: number; ts: number };
+
+/** An order the nurse is holding until the team confirms, corrects or cancels it */
+export type PendingMedicationOrder = {
+  drug: string;
+  treatmentType: string;
+  /** The treatment payload as ordered, re-sent with confirmed: true on confirmation */
+  payload: Record<string, unknown>;
+  dose?: number;
+  route: string;
+  /** Timestamp of the recorded findings, so a confirmation marks them rather than adding more */
+  challengedAt: number;
+};
+
+/** Per-session medication record kept on the runtime */
+export type MedicationLog = {
+  doses: AdministeredDose[];
+  errors: MedicationErrorRecord[];
+  pending?: PendingMedicationOrder;
+};
+
+/** How long a challenged order waits for a spoken confirmation */
+export const MEDICATION_CHALLENGE_WINDOW_MS = 60_000;
+
+// ============================================================================
+// Formulary
+// ============================================================================
+
+const EPI_IV: Concentration = { label: "0.1 mg/mL (1:10,000)", perMl: 0.1, aliases: ["1:10000", "0.1mg/ml", "1:10k"] };
+const EPI_IM: Concentration = { label: "1 mg/mL (1:1,000)", perMl: 1, aliases: ["1:1000", "1mg/ml", "1:1k"] };
+const CACL_10: Concentration = { label: "10% (100 mg/mL)", perMl: 100, aliases: ["10%", "100mg/ml"] };
+const BICARB_84: Concentration = { label: "8.4% (1 mEq/mL)", perMl: 1, aliases: ["8.4%", "1meq/ml"] };
+
+export const FORMULARY: Record<string, FormularyEntry> = {
+  adenosine: {
+    id: "adenosine",
+    name: "adenosine",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 0.1, high: 0.1 }, maxDose: 6 },
+    repeatDose: { perKg: { low: 0.2, high: 0.2 }, maxDose: 12 },
+  },
+  epinephrine: {
+    id: "epinephrine",
+    name: "epinephrine",
+    unit: "mg",
+    routes: ["iv", "io", "im"],
+    dose: { perKg: { low: 0.01, high: 0.01 }, maxDose: 1 },
+    routeDose: { im: { perKg: { low: 0.01, high: 0.01 }, maxDose: 0.5 } },
+    concentrations: { iv: EPI_IV, io: EPI_IV, im: EPI_IM },
+  },
+  atropine: {
+    id: "atropine",
+    name: "atropine",
+    unit: "mg",
+    routes: ["iv", "io", "im"],
+    dose: { perKg: { low: 0.02, high: 0.02 }, minDose: 0.1, maxDose: 0.5, maxDoseAdolescent: 1 },
+    cumulative: { max: 1, maxAdolescent: 2 },
+  },
+  amiodarone: {
+    id: "amiodarone",
+    name: "amiodarone",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 5, high: 5 }, maxDose: 300 },
+    cumulative: { perKg: 15, max: 2200 },
+  },
+  lidocaine: {
+    id: "lidocaine",
+    name: "lidocaine",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 1, high: 1 }, maxDose: 100 },
+    cumulative: { perKg: 3, max: 300 },
+  },
+  calcium_chloride: {
+    id: "calcium_chloride",
+    name: "calcium chloride",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 20, high: 20 }, maxDose: 2000 },
+    concentrations: { iv: CACL_10, io: CACL_10 },
+  },
+  sodium_bicarbonate: {
+    id: "sodium_bicarbonate",
+    name: "sodium bicarbonate",
+    unit: "mEq",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 1, high: 1 }, maxDose: 50 },
+    concentrations: { iv: BICARB_84, io: BICARB_84 },
+  },
+  magnesium: {
+    id: "magnesium",
+    name: "magnesium sulfate",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 25, high: 50 }, maxDose: 2000 },
+  },
+  procainamide: {
+    id: "procainamide",
+    name: "procainamide",
+    unit: "mg",
+    routes: ["iv", "io"],
+    dose: { perKg: { low: 15, high: 15 }, maxDose: 1000 },
+  },
+  morphine: {
+    id: "morphine",
+    name: "morphine",
+    unit: "mg",
+    routes: ["iv", "io", "im"],
+    dose: { perKg: { low: 0.05, high: 0.1 }, maxDose: 4 },
+  },
+  ibuprofen: {
+    id: "ibuprofen",
+    name: "ibuprofen",
+    unit: "mg",
+    routes: ["po"],
+    dose: { perKg: { low: 5, high: 10 }, maxDose: 400 },
+  },
+  acetaminophen: {
+    id: "acetaminophen",
+    name: "acetaminophen",
+    unit: "mg",
+    routes: ["po", "pr", "iv"],
+    dose: { perKg: { low: 10, high: 15 }, maxDose: 1000 },
+  },
+  aspirin: {
+    id: "aspirin",
+    name: "aspirin",
+    unit: "mg",
+    routes: ["po"],
+    dose: { perKg: { low: 3, high: 25 }, maxDose: 650 },
+  },
+};
+
+/** Treatment types (as sent by clients) that map to a formulary entry */
+const DRUG_ALIASES: Record<string, string> = {
+  epi: "epinephrine",
+  calcium: "calcium_chloride",
+  cacl: "calcium_chloride",
+  bicarb: "sodium_bicarbonate",
+  nahco3: "sodium_bicarbonate",
+  mag: "magnesium",
+  mgso4: "magnesium",
+  motrin: "ibuprofen",
+  tylenol: "acetaminophen",
+  asa: "aspirin",
+  adrenaline: "epinephrine",
+};
+
+export function getFormularyEntry(treatmentType: string): FormularyEntry | undefined {
+  const key = treatmentType.trim().toLowerCase();
+  return FORMULARY[DRUG_ALIASES[key] ?? key];
+}
+
+/** Every spoken name for a formulary drug, longest first so "calcium chloride" wins over "calcium" */
+const SPOKEN_NAMES: [string, string][] = [
+  ...Object.values(FORMULARY).flatMap((entry): [string, string][] => [
+    [entry.name, entry.id],
+    [entry.id.replace(/_/g, " "), entry.id],
+  ]),
+  ...Object.entries(DRUG_ALIASES),
+].sort((a, b) => b[0].length - a[0].length);
+
+/** The formulary drug an utterance names, matched as whole words */
+export function findFormularyEntryIn(text: string): FormularyEntry | undefined {
+  const lower = text.toLowerCase();
+  const match = SPOKEN_NAMES.find(([name]) => new RegExp(`\\b${name}\\b`).test(lower));
+  return match ? FORMULARY[match[1]] : undefined;
+}
+
+// ============================================================================
+// Order Checks
+// ============================================================================
+
+/** Doses at least this many times off the range are reported as tenfold (decimal-slip) errors */
+const TENFOLD_FACTOR = 5;
+/** Rounding slack before a dose counts as over or under the range */
+const DOSE_TOLERANCE = 0.1;
+
+function formatAmount(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function formatRange(range: { low: number; high: number }, unit: string): string {
+  return range.low === range.high
+    ? `${formatAmount(range.high)} ${unit}`
+    : `${formatAmount(range.low)}–${formatAmount(range.high)} ${unit}`;
+}
+
+function normalizeConcentration(text: string): string {
+  return text.toLowerCase().replace(/[\s,]/g, "");
+}
+
+function maxForAge(max: number, adolescentMax: number | undefined, ageYears: number): number {
+  return ageYears >= 12 && adolescentMax !== undefined ? adolescentMax : max;
+}
+
+/** Expected single dose for this patient, clamped to the band's floor and maximum */
+export function expectedDoseRange(band: DoseBand, weightKg: number, ageYears: number): { low: number; high: number } {
+  const max = maxForAge(band.maxDose, band.maxDoseAdolescent, ageYears);
+  const clamp = (value: number) => Math.min(max, Math.max(band.minDose ?? 0, value));
+  return { low: clamp(band.perKg.low * weightKg), high: clamp(band.perKg.high * weightKg) };
+}
+
+function checkConcentration(entry: FormularyEntry, route: string, ordered: string): { findings: MedicationFinding[]; stated?: Concentration } {
+  const stocked = entry.concentrations?.[route as MedicationRoute];
+  if (!stocked) return { findings: [] };
+  const normalized = normalizeConcentration(ordered);
+  const matches = (c: Concentration) => c.aliases.includes(normalized) || normalizeConcentration(c.label) === normalized;
+  if (matches(stocked)) return { findings: [], stated: stocked };
+
+  const other = Object.entries(entry.concentrations ?? {}).find(([, c]) => c && matches(c));
+  const message = other
+    ? `${other[1].label} is the ${other[0].toUpperCase()} concentration; ${route.toUpperCase()} ${entry.name} is ${stocked.label}.`
+    : `We stock ${route.toUpperCase()} ${entry.name} as ${stocked.label}, not ${ordered}.`;
+  return { findings: [{ kind: "wrong_concentration", message }], stated: other?.[1] };
+}
+
+/**
+ * Check a medication order against the formulary.
+ * previousDoses are the amounts of this drug already given this session.
+ */
+export function checkMedicationOrder(
+  entry: FormularyEntry,
+  order: MedicationOrder,
+  patient: { weightKg: number; ageYears: number; previousDoses: number[] }
+): MedicationCheck {
+  const { weightKg, ageYears, previousDoses } = patient;
+  const route = (order.route ?? entry.routes[0]).trim().toLowerCase();
+  const findings: MedicationFinding[] = [];
+
+  if (order.route && !entry.routes.includes(route as MedicationRoute)) {
+    findings.push({
+      kind: "wrong_route",
+      message: `${capitalize(entry.name)} isn't given ${route.toUpperCase()}; it goes ${entry.routes.map((r) => r.toUpperCase()).join("/")}.`,
+    });
+  }
+
+  const concentration = order.concentration ? checkConcentration(entry, route, order.concentration) : { findings: [] };
+  findings.push(...concentration.findings);
+
+  // Orders in mL are drawn from the stated concentration, which is how a wrong vial becomes a 10x dose
+  const drawnFrom = concentration.stated ?? entry.concentrations?.[route as MedicationRoute];
+  const dose = order.dose ?? (order.volumeMl !== undefined && drawnFrom ? order.volumeMl * drawnFrom.perMl : undefined);
+
+  const band =
+    entry.routeDose?.[route as MedicationRoute] ?? (previousDoses.length > 0 && entry.repeatDose ? entry.repeatDose : entry.dose);
+  const expected = expectedDoseRange(band, weightKg, ageYears);
+
+  if (dose !== undefined) {
+    const amount = `${formatAmount(dose)} ${entry.unit}`;
+    const usual = `for ${weightKg} kg the dose is ${formatRange(expected, entry.unit)}`;
+    if (dose >= expected.high * TENFOLD_FACTOR) {
+      findings.push({ kind: "tenfold_overdose", message: `${amount} is ${Math.round(dose / expected.high)} times the expected dose; ${usual}.` });
+    } else if (dose > expected.high * (1 + DOSE_TOLERANCE)) {
+      findings.push({ kind: "overdose", message: `${amount} is above the max; ${usual}.` });
+    } else if (dose <= expected.low / TENFOLD_FACTOR) {
+      findings.push({ kind: "tenfold_underdose", message: `${amount} is a tenth of the expected dose or less; ${usual}.` });
+    } else if (dose < expected.low * (1 - DOSE_TOLERANCE)) {
+      findings.push({ kind: "underdose", message: `${amount} is below the range; ${usual}.` });
+    }
+
+    if (entry.cumulative) {
+      const { perKg, max, maxAdolescent } = entry.cumulative;
+      const ageMax = maxForAge(max, maxAdolescent, ageYears);
+      const limit = perKg !== undefined ? Math.min(perKg * weightKg, ageMax) : ageMax;
+      const total = previousDoses.reduce((sum, d) => sum + d, 0) + dose;
+      if (total > limit * (1 + DOSE_TOLERANCE)) {
+        findings.push({
+          kind: "cumulative_max",
+          message: `That would make ${formatAmount(total)} ${entry.unit} of ${entry.name} total; the cumulative max is ${formatAmount(limit)} ${entry.unit}.`,
+        });
+      }
+    }
+  }
+
+  return { entry, dose, route, expected, findings };
+}
+
+/** What the nurse says when holding a flagged order */
+export function describeChallenge(check: MedicationCheck): string {
+  return `Hold on, before I give ${check.entry.name}: ${check.findings.map((f) => f.message).join(" ")} Can you confirm or correct the order?`;
+}
+
+const CONFIRM_ORDER = /^(yes,?\s*)?(i\s+)?(confirm(ed)?|give (it|that)( anyway| as ordered)?|give as ordered|go ahead|that'?s (the )?(right|correct) (dose|order))\b/i;
+const CANCEL_ORDER = /^(no,?\s*)?(cancel|hold (it|that|off)|never ?mind|don'?t give)/i;
+
+/** A reply to the nurse's challenge: confirm the order as given, cancel it, or neither */
+export function parseChallengeReply(text: string): "confirm" | "cancel" | null {
+  const trimmed = text.trim();
+  if (CANCEL_ORDER.test(trimmed)) return "cancel";
+  if (CONFIRM_ORDER.test(trimmed)) return "confirm";
+  return null;
+}
+
+/** Tenfold and wrong-concentration errors are scored as critical */
+export function isCriticalMedicationError(kind: MedicationErrorKind): boolean {
+  return kind === "tenfold_overdose" || kind === "tenfold_underdose" || kind === "wrong_concentration";
+}
+
+/** Scoring check shared by the scenario penalty lists */
+export function hasMedicationError(errors: MedicationErrorRecord[] | undefined, critical: boolean): boolean {
+  return (errors ?? []).some((e) => isCriticalMedicationError(e.kind) === critical);
+}
+
+// ============================================================================
+// Session Log
+// ============================================================================
+
+export function createMedicationLog(): MedicationLog {
+  return { doses: [], errors: [] };
+}
+
+export function dosesGiven(log: MedicationLog, drug: string): number[] {
+  return log.doses.filter((d) => d.drug === drug).map((d) => d.dose);
+}
+
+export function toErrorRecords(check: MedicationCheck, ts: number, administered: boolean): MedicationErrorRecord[] {
+  return check.findings.map((finding) => ({
+    ts,
+    drug: check.entry.id,
+    kind: finding.kind,
+    dose: check.dose,
+    unit: check.entry.unit,
+    route: check.route,
+    message: finding.message,
+    administered,
+  }));
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
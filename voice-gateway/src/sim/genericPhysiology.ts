@@ -0,0 +1,506 @@
+/**
+ * Generic physiology for the simple stage-based scenarios.
+ *
+ * Each simple scenario gets a PhysiologyRule set evaluated by the same engine
+ * as the complex scenarios, against a GenericExtendedState that records the
+ * treatments given. Stages still advance on time; rules add the responses to
+ * treatment (PGE1 reopening the duct, knee-chest/morphine breaking a tet spell,
+ * oxygen stealing systemic flow in ductal-dependent lesions, ...).
+ */
+
+import { evaluatePhysiology } from "./physiologyEngine";
+import type { ScenarioEngine } from "./scenarioEngine";
+import type { PhysiologyRule } from "./scenarioTypes";
+import type { GenericExtendedState, Vitals } from "./types";
+import { hasGenericExtended } from "./types";
+
+/** Outcome of one generic physiology pass, for broadcasting and logging */
+export type GenericPhysiologyOutcome = {
+  triggeredRules: string[];
+  nurseLine?: string;
+  stageChangedTo?: string;
+};
+
+/** Treatment handler aliases → canonical names used by `treatment_given` conditions */
+const TREATMENT_ALIASES: Record<string, string> = {
+  o2: "oxygen",
+  bolus: "fluids",
+  position: "knee_chest",
+  "knee-chest": "knee_chest",
+  prostaglandin: "pge1",
+  alprostadil: "pge1",
+  epi: "epinephrine",
+  vagal_maneuver: "vagal",
+  sync_cardioversion: "cardioversion",
+  motrin: "ibuprofen",
+  tylenol: "acetaminophen",
+  asa: "aspirin",
+  mag: "magnesium",
+  mgso4: "magnesium",
+};
+
+export function normalizeTreatment(treatmentType: string): string {
+  const key = treatmentType.trim().toLowerCase();
+  return TREATMENT_ALIASES[key] ?? key;
+}
+
+export function createInitialGenericState(nowMs: number = Date.now()): GenericExtendedState {
+  return {
+    kind: "generic",
+    scenarioStartedAt: nowMs,
+    phaseEnteredAt: nowMs,
+    shockStage: 1,
+    treatments: [],
+    fluids: [],
+    activeInotropes: [],
+    orderedDiagnostics: [],
+    consultsCalled: [],
+    flags: {},
+    ruleTriggers: [],
+    pendingEffects: [],
+    timelineEvents: [],
+  };
+}
+
+/**
+ * Record a treatment in generic extended state. Fluid boluses are also tracked
+ * as FluidBolus entries so mL/kg window rules see them.
+ */
+export function recordGenericTreatment(
+  ext: GenericExtendedState,
+  treatmentType: string,
+  opts: { dose?: number; weightKg: number },
+  nowMs: number = Date.now()
+): GenericExtendedState {
+  const treatment = normalizeTreatment(treatmentType);
+  const next: GenericExtendedState = {
+    ...ext,
+    treatments: [...ext.treatments, { ts: nowMs, treatment, ...(opts.dose !== undefined && { dose: opts.dose }) }],
+    timelineEvents: [...ext.timelineEvents, { ts: nowMs, type: "treatment", description: `Treatment: ${treatment}` }],
+  };
+  if (treatment === "fluids") {
+    const totalMl = opts.dose ?? Math.round(20 * opts.weightKg);
+    next.fluids = [...ext.fluids, { ts: nowMs, mlKg: totalMl / opts.weightKg, totalMl, type: "NS" }];
+  }
+  return next;
+}
+
+// ============================================================================
+// Rule Sets
+// ============================================================================
+
+/** Ductal-dependent systemic flow: PGE1 reopens the duct, oxygen steals systemic output */
+function ductalDependentRules(shockStage: string, improvedStage: string): PhysiologyRule[] {
+  return [
+    {
+      id: "pge1_reopens_duct",
+      name: "PGE1 reopens the ductus",
+      conditions: [{ type: "treatment_given", treatment: "pge1" }],
+      effects: [
+        { type: "set_flag", flag: "ductOpen", value: true },
+        { type: "vitals_delta", hr: -10, sbp: 8, dbp: 5, spo2: 3, scaleByAge: true },
+        { type: "nurse_line", line: "Femoral pulses are easier to feel since the PGE started. Color's better." },
+      ],
+      delaySeconds: 60,
+      maxTriggers: 1,
+    },
+    {
+      id: "duct_open_improves_stage",
+      name: "Perfusion improves once the duct is open",
+      conditions: [
+        { type: "stage_is", stageId: shockStage },
+        { type: "flag_is", flag: "ductOpen", value: true },
+      ],
+      effects: [{ type: "advance_stage", to: improvedStage }],
+      maxTriggers: 1,
+    },
+    {
+      id: "pge1_apnea",
+      name: "PGE1-associated apnea",
+      conditions: [{ type: "treatment_given", treatment: "pge1" }],
+      effects: [
+        { type: "vitals_delta", spo2: -6, rr: -10, scaleByAge: true },
+        { type: "nurse_line", line: "He just had an apneic pause on the PGE drip. Sats dipped, he's breathing again now.", priority: "critical" },
+      ],
+      delaySeconds: 240,
+      maxTriggers: 1,
+    },
+    {
+      id: "oxygen_systemic_steal",
+      name: "Oxygen lowers PVR and steals systemic flow",
+      conditions: [{ type: "treatment_given", treatment: "oxygen", withinMinutes: 5 }],
+      effects: [
+        { type: "vitals_delta", hr: 8, sbp: -6, dbp: -4, scaleByAge: true },
+        { type: "nurse_line", line: "Sats ticked up on the oxygen, but his pressure is drifting down and he looks more mottled.", priority: "critical" },
+      ],
+      delaySeconds: 30,
+      cooldownSeconds: 300,
+      maxTriggers: 2,
+    },
+    {
+      id: "fluid_bolus_response",
+      name: "Partial response to volume",
+      conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 10, windowMinutes: 15 }],
+      effects: [
+        { type: "vitals_delta", hr: -6, sbp: 4, dbp: 2, scaleByAge: true },
+        { type: "nurse_line", line: "Cap refill is a little better after the bolus, but the femoral pulses are still weak." },
+      ],
+      cooldownSeconds: 300,
+      maxTriggers: 2,
+    },
+    {
+      id: "fluid_overload",
+      name: "Fluid overload",
+      conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 40, windowMinutes: 30 }],
+      effects: [
+        { type: "set_flag", flag: "pulmonaryEdema", value: true },
+        { type: "vitals_delta", spo2: -5, rr: 10, scaleByAge: true },
+        { type: "nurse_line", line: "Liver edge is lower and he's working harder to breathe since all that fluid.", priority: "critical" },
+      ],
+      maxTriggers: 1,
+    },
+  ];
+}
+
+const CYANOTIC_SPELL_RULES: PhysiologyRule[] = [
+  {
+    id: "spell_deepens",
+    name: "Untreated spell deepens",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_spell" },
+      { type: "time_in_phase_gte", minutes: 1 },
+      { type: "flag_is", flag: "spellTreated", value: false },
+    ],
+    effects: [
+      { type: "vitals_delta", hr: 10, spo2: -6, scaleByAge: true },
+      { type: "nurse_line", line: "He's getting bluer and more agitated. Sats are in the low 70s.", priority: "critical" },
+    ],
+    maxTriggers: 1,
+  },
+  {
+    id: "knee_chest_raises_svr",
+    name: "Knee-chest raises SVR",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_spell" },
+      { type: "treatment_given", treatment: "knee_chest", withinMinutes: 5 },
+    ],
+    effects: [
+      { type: "set_flag", flag: "spellTreated", value: true },
+      { type: "vitals_delta", hr: -8, spo2: 6, scaleByAge: true },
+    ],
+    maxTriggers: 1,
+  },
+  {
+    id: "spell_breaks_knee_chest_oxygen",
+    name: "Knee-chest plus oxygen breaks the spell",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_spell" },
+      { type: "treatment_given", treatment: "knee_chest", withinMinutes: 10 },
+      { type: "treatment_given", treatment: "oxygen", withinMinutes: 10 },
+    ],
+    effects: [
+      { type: "advance_stage", to: "stage_3_recovery" },
+      { type: "nurse_line", line: "Sats climbing back into the 80s with knee-chest and oxygen. The spell is breaking." },
+    ],
+    maxTriggers: 1,
+  },
+  {
+    id: "morphine_breaks_spell",
+    name: "Morphine relaxes the infundibulum",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_spell" },
+      { type: "treatment_given", treatment: "morphine", withinMinutes: 5 },
+    ],
+    effects: [
+      { type: "set_flag", flag: "spellTreated", value: true },
+      { type: "advance_stage", to: "stage_3_recovery" },
+      { type: "nurse_line", line: "He's calmer since the morphine. Breathing is slowing down and he's pinking up." },
+    ],
+    delaySeconds: 30,
+    maxTriggers: 1,
+  },
+  {
+    id: "spell_volume",
+    name: "Volume improves RV preload",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_spell" },
+      { type: "fluids_ml_kg_in_window", thresholdMlKg: 10, windowMinutes: 10 },
+    ],
+    effects: [
+      { type: "vitals_delta", spo2: 3, scaleByAge: true },
+      { type: "nurse_line", line: "Bolus is in. Sats are a touch better." },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+const PALPITATIONS_SVT_RULES: PhysiologyRule[] = [
+  {
+    id: "vagal_transient_slowing",
+    name: "Vagal maneuver slows without converting",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_episode" },
+      { type: "treatment_given", treatment: "vagal", withinMinutes: 2 },
+    ],
+    effects: [
+      { type: "vitals_delta", hr: -10, scaleByAge: true },
+      { type: "nurse_line", line: "Rate slowed for a few beats with the Valsalva, but she's still in the tachycardia." },
+    ],
+    cooldownSeconds: 60,
+  },
+  {
+    id: "svt_converts",
+    name: "Adenosine or cardioversion terminates the episode",
+    conditions: [
+      { type: "treatment_given", treatment: "adenosine", withinMinutes: 2 },
+      { type: "treatment_given", treatment: "cardioversion", withinMinutes: 2 },
+    ],
+    conditionLogic: "any",
+    effects: [
+      { type: "set_flag", flag: "converted", value: true },
+      { type: "advance_stage", to: "stage_3_post_episode" },
+      { type: "nurse_line", line: "Brief pause on the monitor... and she's back in sinus." },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+const MYOCARDITIS_RULES: PhysiologyRule[] = [
+  {
+    id: "fluid_overload",
+    name: "Fluid overload in a failing ventricle",
+    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 20, windowMinutes: 15 }],
+    effects: [
+      { type: "set_flag", flag: "pulmonaryEdema", value: true },
+      { type: "vitals_delta", spo2: -5, rr: 8, scaleByAge: true },
+      { type: "nurse_line", line: "Crackles at both bases after that fluid, and his sats are drifting.", priority: "critical" },
+    ],
+    cooldownSeconds: 300,
+    maxTriggers: 2,
+  },
+  {
+    id: "inotrope_support",
+    name: "Epinephrine supports contractility",
+    conditions: [
+      { type: "stage_is", stageId: "stage_2_decomp" },
+      { type: "treatment_given", treatment: "epinephrine", withinMinutes: 5 },
+    ],
+    effects: [
+      { type: "advance_stage", to: "stage_3_support" },
+      { type: "nurse_line", line: "Pressure is responding to the epi. He's perfusing better." },
+    ],
+    delaySeconds: 60,
+    maxTriggers: 1,
+  },
+];
+
+const KAWASAKI_RULES: PhysiologyRule[] = [
+  {
+    id: "antipyretic_response",
+    name: "Antipyretic lowers fever-driven tachycardia",
+    conditions: [
+      { type: "treatment_given", treatment: "acetaminophen", withinMinutes: 10 },
+      { type: "treatment_given", treatment: "ibuprofen", withinMinutes: 10 },
+    ],
+    conditionLogic: "any",
+    effects: [
+      { type: "vitals_delta", hr: -8, scaleByAge: true },
+      { type: "nurse_line", line: "Temp is coming down a little, but he's still irritable and miserable." },
+    ],
+    delaySeconds: 60,
+    cooldownSeconds: 600,
+  },
+  {
+    id: "aspirin_given",
+    name: "High-dose aspirin started",
+    conditions: [{ type: "treatment_given", treatment: "aspirin" }],
+    effects: [
+      { type: "set_flag", flag: "aspirinGiven", value: true },
+      { type: "nurse_line", line: "Aspirin is in. Do you want IVIG ordered as well?" },
+    ],
+    maxTriggers: 1,
+  },
+  {
+    id: "rehydration",
+    name: "Rehydration",
+    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 20, windowMinutes: 30 }],
+    effects: [
+      { type: "vitals_delta", hr: -10, sbp: 4, scaleByAge: true },
+      { type: "nurse_line", line: "He looks a bit perkier after the bolus." },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+const SYNCOPE_RULES: PhysiologyRule[] = [
+  {
+    id: "orthostatic_volume_response",
+    name: "Volume corrects orthostasis",
+    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 10, windowMinutes: 15 }],
+    effects: [
+      { type: "vitals_delta", hr: -12, sbp: 10, dbp: 6, scaleByAge: true },
+      { type: "nurse_line", line: "Repeat orthostatics look better after the bolus. Less lightheaded." },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+const EXERTIONAL_CHEST_PAIN_RULES: PhysiologyRule[] = [
+  {
+    id: "analgesia_response",
+    name: "Analgesia lowers pain-driven tachycardia",
+    conditions: [{ type: "treatment_given", treatment: "morphine", withinMinutes: 10 }],
+    effects: [
+      { type: "vitals_delta", hr: -8, sbp: -4, scaleByAge: true },
+      { type: "nurse_line", line: "Pain is down to a 3 out of 10 now." },
+    ],
+    delaySeconds: 60,
+    maxTriggers: 1,
+  },
+  {
+    id: "aspirin_given",
+    name: "Aspirin given",
+    conditions: [{ type: "treatment_given", treatment: "aspirin" }],
+    effects: [{ type: "set_flag", flag: "aspirinGiven", value: true }],
+    maxTriggers: 1,
+  },
+];
+
+const HCM_RULES: PhysiologyRule[] = [
+  {
+    id: "preload_relieves_obstruction",
+    name: "Volume relieves LVOT obstruction",
+    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 10, windowMinutes: 15 }],
+    effects: [
+      { type: "vitals_delta", hr: -10, sbp: 10, dbp: 6, scaleByAge: true },
+      { type: "nurse_line", line: "BP is better with some volume on board, and the murmur is softer." },
+    ],
+    maxTriggers: 1,
+  },
+  {
+    id: "inotrope_worsens_obstruction",
+    name: "Inotropy worsens LVOT obstruction",
+    conditions: [{ type: "treatment_given", treatment: "epinephrine", withinMinutes: 5 }],
+    effects: [
+      { type: "set_flag", flag: "lvotObstructionWorse", value: true },
+      { type: "vitals_delta", hr: 15, sbp: -15, dbp: -8, scaleByAge: true },
+      { type: "nurse_line", line: "The murmur got louder and his pressure dropped right after the epi!", priority: "critical" },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+const ARRHYTHMOGENIC_SYNCOPE_RULES: PhysiologyRule[] = [
+  {
+    id: "ectopy_suppressed",
+    name: "Antiarrhythmic suppresses ectopy",
+    conditions: [
+      { type: "treatment_given", treatment: "amiodarone", withinMinutes: 10 },
+      { type: "treatment_given", treatment: "lidocaine", withinMinutes: 10 },
+      { type: "treatment_given", treatment: "magnesium", withinMinutes: 10 },
+    ],
+    conditionLogic: "any",
+    effects: [
+      { type: "set_flag", flag: "ectopySuppressed", value: true },
+      { type: "vitals_delta", hr: -15, scaleByAge: true },
+      { type: "nurse_line", line: "Fewer PVCs on the monitor since the antiarrhythmic went in." },
+    ],
+    delaySeconds: 60,
+    maxTriggers: 1,
+  },
+  {
+    id: "catecholamine_irritability",
+    name: "Catecholamines provoke ventricular ectopy",
+    conditions: [{ type: "treatment_given", treatment: "epinephrine", withinMinutes: 5 }],
+    effects: [
+      { type: "vitals_delta", hr: 20, sbp: -6, scaleByAge: true },
+      { type: "nurse_line", line: "More ectopy now. Couplets and a short run of VT!", priority: "critical" },
+    ],
+    maxTriggers: 1,
+  },
+];
+
+/** Physiology rule sets for the simple scenarios, keyed by scenario id */
+export const GENERIC_PHYSIOLOGY_RULES: Record<string, PhysiologyRule[]> = {
+  ductal_shock: ductalDependentRules("stage_1_shock", "stage_2_improving"),
+  coarctation_shock: ductalDependentRules("stage_1_shock", "stage_2_after_bolus"),
+  cyanotic_spell: CYANOTIC_SPELL_RULES,
+  palpitations_svt: PALPITATIONS_SVT_RULES,
+  myocarditis: MYOCARDITIS_RULES,
+  kawasaki: KAWASAKI_RULES,
+  syncope: SYNCOPE_RULES,
+  exertional_chest_pain: EXERTIONAL_CHEST_PAIN_RULES,
+  exertional_syncope_hcm: HCM_RULES,
+  arrhythmogenic_syncope: ARRHYTHMOGENIC_SYNCOPE_RULES,
+};
+
+export function getGenericPhysiologyRules(scenarioId: string): PhysiologyRule[] {
+  return GENERIC_PHYSIOLOGY_RULES[scenarioId] ?? [];
+}
+
+// ============================================================================
+// Runtime
+// ============================================================================
+
+/** Apply a vitals_delta change, clamped to plausible ranges (also used by NPC triggers) */
+export function applyVitalsDelta(
+  vitals: Vitals,
+  delta: { hr?: number; sbp?: number; dbp?: number; spo2?: number; rr?: number }
+): Vitals {
+  const next: Vitals = { ...vitals };
+  if (delta.hr && next.hr !== undefined) next.hr = Math.max(0, next.hr + delta.hr);
+  if (delta.rr && next.rr !== undefined) next.rr = Math.max(0, next.rr + delta.rr);
+  if (delta.spo2 && next.spo2 !== undefined) next.spo2 = Math.min(100, Math.max(50, next.spo2 + delta.spo2));
+  if ((delta.sbp || delta.dbp) && next.bp) {
+    const [sbp, dbp] = next.bp.split("/").map(Number);
+    next.bp = `${Math.max(40, sbp + (delta.sbp ?? 0))}/${Math.max(20, dbp + (delta.dbp ?? 0))}`;
+  }
+  return next;
+}
+
+/**
+ * Evaluate the scenario's generic rules and apply the result to the engine:
+ * stage changes first (they reset vitals to the stage targets), then vitals
+ * deltas and flags. Returns null when the scenario has no generic state/rules.
+ */
+export function runGenericPhysiology(
+  engine: ScenarioEngine,
+  nowMs: number = engine.now()
+): GenericPhysiologyOutcome | null {
+  const state = engine.getState();
+  if (!hasGenericExtended(state)) return null;
+  const rules = getGenericPhysiologyRules(state.scenarioId);
+  if (rules.length === 0) return null;
+
+  // evaluatePhysiology mutates rule tracking, so work on a copy
+  const ext: GenericExtendedState = {
+    ...state.extended,
+    phaseEnteredAt: state.stageEnteredAt ?? state.extended.phaseEnteredAt,
+    ruleTriggers: state.extended.ruleTriggers.map((t) => ({ ...t })),
+    pendingEffects: [...state.extended.pendingEffects],
+  };
+  const result = evaluatePhysiology(state, ext, rules, nowMs, engine.getPhysiologyContext());
+  const hasDelta = Object.values(result.vitalsDelta ?? {}).some((v) => v);
+  const outcome: GenericPhysiologyOutcome = { triggeredRules: result.triggeredRules, nurseLine: result.nurseLine };
+  const timeline = [...ext.timelineEvents];
+  rules
+    .filter((rule) => result.triggeredRules.includes(rule.id))
+    .forEach((rule) => timeline.push({ ts: nowMs, type: "physiology", description: rule.name }));
+
+  if (result.shouldAdvanceStage && result.shouldAdvanceStage !== state.stageId) {
+    if (engine.setStage(result.shouldAdvanceStage)) {
+      outcome.stageChangedTo = result.shouldAdvanceStage;
+      timeline.push({ ts: nowMs, type: "stage_change", description: `Stage → ${result.shouldAdvanceStage}` });
+    }
+  }
+  if (hasDelta && result.vitalsDelta) {
+    engine.setVitals(applyVitalsDelta(engine.getState().vitals, result.vitalsDelta));
+  }
+  engine.updateExtended({
+    ...ext,
+    phaseEnteredAt: engine.getState().stageEnteredAt ?? ext.phaseEnteredAt,
+    flags: { ...ext.flags, ...result.flagsToSet },
+    timelineEvents: timeline,
+  });
+  return outcome;
+}
@@ -0,0 +1,330 @@
+/**
+ * Structured lab panels.
+ *
+ * Individually orderable panels (CBC, BMP, troponin, BNP, lactate, blood gas,
+ * CRP/ESR, blood culture) with PALS-band reference ranges and critical limits.
+ * A scenario file's `labs` profile supplies values on top of an age-normal
+ * baseline; results carry H/L flags (HH/LL when critical) for the lab viewer.
+ */
+
+import { getAgeBand, type AgeBand } from "./ageNorms";
+import type { LabFlag, LabPanelId, LabPanelResult, LabValue } from "./labTypes";
+
+export { LAB_PANEL_IDS, type LabFlag, type LabPanelId, type LabPanelResult, type LabValue } from "./labTypes";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LabRange = { low: number; high: number };
+
+export type LabAnalyte = {
+  id: string;
+  label: string;
+  unit: string;
+  decimals: number;
+  /** One range for every age, or one per band */
+  ref?: LabRange | Record<AgeBand, LabRange>;
+  critical?: { low?: number; high?: number };
+  /** Typical normal value when the range midpoint is not (troponin, BNP); text for qualitative results */
+  normal?: number | string;
+};
+
+export type LabPanel = {
+  id: LabPanelId;
+  label: string;
+  aliases: string[];
+  analytes: LabAnalyte[];
+};
+
+export type LabValues = Record<string, number | string>;
+
+/** Authored in the scenario file; anything unset is age-normal */
+export type LabProfile = {
+  values?: LabValues;
+  /** Overrides keyed by exact stage id, or phase id for complex scenarios */
+  stages?: Record<string, LabValues>;
+};
+
+// ============================================================================
+// Panel Catalogue
+// ============================================================================
+
+function byBand(
+  neonate: LabRange,
+  infant: LabRange,
+  toddler: LabRange,
+  preschool: LabRange,
+  school_age: LabRange,
+  adolescent: LabRange
+): Record<AgeBand, LabRange> {
+  return { neonate, infant, toddler, preschool, school_age, adolescent };
+}
+
+export const LAB_PANELS: LabPanel[] = [
+  {
+    id: "cbc",
+    label: "CBC",
+    aliases: ["cbc", "blood count", "hemoglobin", "hgb", "platelets"],
+    analytes: [
+      {
+        id: "wbc",
+        label: "WBC",
+        unit: "×10³/µL",
+        decimals: 1,
+        ref: byBand({ low: 9, high: 30 }, { low: 6, high: 17.5 }, { low: 6, high: 17 }, { low: 5.5, high: 15.5 }, { low: 4.5, high: 13.5 }, { low: 4.5, high: 11 }),
+        critical: { low: 1, high: 40 },
+      },
+      {
+        id: "hgb",
+        label: "Hgb",
+        unit: "g/dL",
+        decimals: 1,
+        ref: byBand({ low: 14, high: 22 }, { low: 9.5, high: 13.5 }, { low: 10.5, high: 13.5 }, { low: 11.5, high: 13.5 }, { low: 11.5, high: 15.5 }, { low: 12, high: 16 }),
+        critical: { low: 7 },
+      },
+      {
+        id: "hct",
+        label: "Hct",
+        unit: "%",
+        decimals: 0,
+        ref: byBand({ low: 42, high: 65 }, { low: 28, high: 42 }, { low: 33, high: 39 }, { low: 34, high: 40 }, { low: 35, high: 45 }, { low: 36, high: 47 }),
+      },
+      { id: "plt", label: "Platelets", unit: "×10³/µL", decimals: 0, ref: { low: 150, high: 450 }, critical: { low: 20, high: 1000 } },
+    ],
+  },
+  {
+    id: "bmp",
+    label: "BMP",
+    aliases: ["bmp", "cmp", "chem", "chemistry", "electrolytes", "lytes"],
+    analytes: [
+      { id: "na", label: "Na", unit: "mmol/L", decimals: 0, ref: { low: 135, high: 145 }, critical: { low: 120, high: 160 } },
+      {
+        id: "k",
+        label: "K",
+        unit: "mmol/L",
+        decimals: 1,
+        ref: byBand({ low: 3.7, high: 5.9 }, { low: 4.1, high: 5.3 }, { low: 3.4, high: 4.7 }, { low: 3.4, high: 4.7 }, { low: 3.4, high: 4.7 }, { low: 3.4, high: 4.7 }),
+        critical: { low: 2.5, high: 6.5 },
+      },
+      { id: "cl", label: "Cl", unit: "mmol/L", decimals: 0, ref: { low: 98, high: 107 } },
+      {
+        id: "co2",
+        label: "CO₂",
+        unit: "mmol/L",
+        decimals: 0,
+        ref: byBand({ low: 17, high: 24 }, { low: 18, high: 26 }, { low: 20, high: 28 }, { low: 20, high: 28 }, { low: 20, high: 28 }, { low: 22, high: 29 }),
+        critical: { low: 10, high: 40 },
+      },
+      {
+        id: "bun",
+        label: "BUN",
+        unit: "mg/dL",
+        decimals: 0,
+        ref: byBand({ low: 3, high: 12 }, { low: 3, high: 12 }, { low: 5, high: 18 }, { low: 5, high: 18 }, { low: 5, high: 18 }, { low: 7, high: 20 }),
+      },
+      {
+        id: "cr",
+        label: "Creatinine",
+        unit: "mg/dL",
+        decimals: 1,
+        ref: byBand({ low: 0.3, high: 1 }, { low: 0.2, high: 0.4 }, { low: 0.2, high: 0.4 }, { low: 0.3, high: 0.5 }, { low: 0.3, high: 0.7 }, { low: 0.5, high: 1 }),
+      },
+      {
+        id: "glucose",
+        label: "Glucose",
+        unit: "mg/dL",
+        decimals: 0,
+        ref: byBand({ low: 50, high: 90 }, { low: 60, high: 100 }, { low: 70, high: 110 }, { low: 70, high: 110 }, { low: 70, high: 110 }, { low: 70, high: 110 }),
+        critical: { low: 45, high: 400 },
+      },
+      {
+        id: "ca",
+        label: "Ca",
+        unit: "mg/dL",
+        decimals: 1,
+        ref: byBand({ low: 7.6, high: 10.4 }, { low: 8.8, high: 10.8 }, { low: 8.8, high: 10.8 }, { low: 8.8, high: 10.8 }, { low: 8.8, high: 10.8 }, { low: 8.4, high: 10.2 }),
+        critical: { low: 6.5, high: 13 },
+      },
+    ],
+  },
+  {
+    id: "troponin",
+    label: "Troponin",
+    aliases: ["troponin", "trop"],
+    analytes: [{ id: "troponin_i", label: "Troponin I", unit: "ng/mL", decimals: 2, ref: { low: 0, high: 0.04 }, normal: 0.01 }],
+  },
+  {
+    id: "bnp",
+    label: "BNP",
+    aliases: ["bnp", "probnp", "pro-bnp", "natriuretic"],
+    analytes: [
+      {
+        id: "bnp",
+        label: "BNP",
+        unit: "pg/mL",
+        decimals: 0,
+        // Neonatal BNP is physiologically high for the first weeks
+        ref: byBand({ low: 0, high: 1000 }, { low: 0, high: 160 }, { low: 0, high: 100 }, { low: 0, high: 100 }, { low: 0, high: 100 }, { low: 0, high: 100 }),
+        normal: 35,
+      },
+    ],
+  },
+  {
+    id: "lactate",
+    label: "Lactate",
+    aliases: ["lactate", "lactic"],
+    analytes: [{ id: "lactate", label: "Lactate", unit: "mmol/L", decimals: 1, ref: { low: 0.5, high: 2.2 }, critical: { high: 4 }, normal: 1.1 }],
+  },
+  {
+    id: "blood_gas",
+    label: "Blood gas",
+    aliases: ["blood gas", "abg", "vbg", "cbg", "gas"],
+    analytes: [
+      { id: "ph", label: "pH", unit: "", decimals: 2, ref: { low: 7.35, high: 7.45 }, critical: { low: 7.2, high: 7.6 } },
+      { id: "pco2", label: "pCO₂", unit: "mmHg", decimals: 0, ref: { low: 35, high: 45 }, critical: { low: 20, high: 70 } },
+      { id: "hco3", label: "HCO₃", unit: "mmol/L", decimals: 0, ref: { low: 22, high: 26 }, critical: { low: 10, high: 40 } },
+      { id: "base_excess", label: "Base excess", unit: "mmol/L", decimals: 0, ref: { low: -2, high: 2 }, normal: 0 },
+    ],
+  },
+  {
+    id: "crp_esr",
+    label: "CRP/ESR",
+    aliases: ["crp", "esr", "sed rate", "inflammatory markers"],
+    analytes: [
+      { id: "crp", label: "CRP", unit: "mg/dL", decimals: 1, ref: { low: 0, high: 1 }, normal: 0.3 },
+      { id: "esr", label: "ESR", unit: "mm/hr", decimals: 0, ref: { low: 0, high: 20 }, normal: 8 },
+    ],
+  },
+  {
+    id: "blood_culture",
+    label: "Blood culture",
+    aliases: ["blood culture", "culture", "bcx"],
+    analytes: [{ id: "culture", label: "Culture", unit: "", decimals: 0, normal: "No growth to date (preliminary)" }],
+  },
+];
+
+/** "Order labs" with no panel named sends everything */
+export const DEFAULT_LAB_PANELS: LabPanelId[] = LAB_PANELS.map((p) => p.id);
+
+export function getLabPanel(idOrAlias: string): LabPanel | undefined {
+  const key = idOrAlias.trim().toLowerCase().replace(/_/g, " ");
+  return LAB_PANELS.find((p) => p.id.replace(/_/g, " ") === key || p.aliases.includes(key));
+}
+
+/** Requested panel ids or aliases, deduped in catalogue order; defaults when nothing valid was asked for */
+export function resolveLabPanels(requested: unknown): LabPanelId[] {
+  const names = Array.isArray(requested) ? requested : typeof requested === "string" ? [requested] : [];
+  const ids = new Set(
+    names.filter((n): n is string => typeof n === "string").map((n) => getLabPanel(n)?.id).filter(Boolean)
+  );
+  const panels = LAB_PANELS.filter((p) => ids.has(p.id)).map((p) => p.id);
+  return panels.length > 0 ? panels : [...DEFAULT_LAB_PANELS];
+}
+
+/** Panels named in an utterance ("send a troponin and a gas"); empty when none */
+export function parseLabPanels(utterance: string): LabPanelId[] {
+  const text = utterance.toLowerCase();
+  return LAB_PANELS.filter((p) =>
+    [p.id.replace(/_/g, " "), ...p.aliases].some((alias) => new RegExp(`\\b${alias}\\b`).test(text))
+  ).map((p) => p.id);
+}
+
+export function describeLabPanels(panels: LabPanelId[]): string {
+  const labels = panels.map((id) => LAB_PANELS.find((p) => p.id === id)?.label ?? id);
+  if (labels.length <= 1) return labels.join("");
+  return `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`;
+}
+
+// ============================================================================
+// Scenario Profiles
+// ============================================================================
+
+/** Profile values at the current step: each id in `stepIds` (stage, then phase) applies its exact entry */
+function profileValues(profile: LabProfile | undefined, stepIds: string[]): LabValues {
+  let values: LabValues = { ...profile?.values };
+  for (const id of stepIds) {
+    const stage = profile?.stages?.[id];
+    if (stage) values = { ...values, ...stage };
+  }
+  return values;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export function referenceRange(analyte: LabAnalyte, band: AgeBand): LabRange | undefined {
+  if (!analyte.ref) return undefined;
+  return "low" in analyte.ref ? analyte.ref : analyte.ref[band];
+}
+
+export function flagValue(value: number, range?: LabRange, critical?: LabAnalyte["critical"]): LabFlag | undefined {
+  if (critical?.low !== undefined && value < critical.low) return "LL";
+  if (critical?.high !== undefined && value > critical.high) return "HH";
+  if (range && value < range.low) return "L";
+  if (range && value > range.high) return "H";
+  return undefined;
+}
+
+function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function normalValue(analyte: LabAnalyte, range?: LabRange): number | string {
+  if (analyte.normal !== undefined) return analyte.normal;
+  return range ? roundTo((range.low + range.high) / 2, analyte.decimals) : "";
+}
+
+/** Results for the ordered panels at the current step, flagged against the patient's age band */
+export function buildLabResults(
+  panels: LabPanelId[],
+  profile: LabProfile | undefined,
+  stepIds: string[],
+  ageMonths: number
+): LabPanelResult[] {
+  const band = getAgeBand(ageMonths);
+  const scenarioValues = profileValues(profile, stepIds);
+
+  return panels.flatMap((id) => {
+    const panel = LAB_PANELS.find((p) => p.id === id);
+    if (!panel) return [];
+    const values = panel.analytes.map((analyte): LabValue => {
+      const range = referenceRange(analyte, band);
+      const value = scenarioValues[analyte.id] ?? normalValue(analyte, range);
+      const flag = typeof value === "number" ? flagValue(value, range, analyte.critical) : undefined;
+      return {
+        id: analyte.id,
+        label: analyte.label,
+        value,
+        unit: analyte.unit,
+        ...(range && { refLow: range.low, refHigh: range.high }),
+        ...(flag && { flag }),
+      };
+    });
+    return [{ panel: panel.id, label: panel.label, values }];
+  });
+}
+
+function formatLabValue(v: LabValue): string {
+  return `${v.label} ${v.value}${v.unit ? ` ${v.unit}` : ""}${v.flag ? ` (${v.flag})` : ""}`;
+}
+
+/** One line per panel for the nurse read-back and order card: normal panels collapse to "normal" */
+export function summarizeLabResults(results: LabPanelResult[]): string {
+  return results
+    .map((r) => {
+      const flagged = r.values.filter((v) => v.flag);
+      if (flagged.length > 0) return `${r.label}: ${flagged.map(formatLabValue).join(", ")}`;
+      const text = r.values.find((v) => typeof v.value === "string");
+      return text ? `${r.label}: ${String(text.value).toLowerCase()}` : `${r.label} normal`;
+    })
+    .join("; ");
+}
+
+/** Critical values only, for the order card's "key abnormal" line */
+export function criticalLabValues(results: LabPanelResult[]): string | undefined {
+  const critical = results.flatMap((r) => r.values).filter((v) => v.flag === "HH" || v.flag === "LL");
+  return critical.length > 0 ? `Critical: ${critical.map(formatLabValue).join(", ")}` : undefined;
+}
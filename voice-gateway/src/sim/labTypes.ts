@@ -0,0 +1,26 @@
+/**
+ * Lab result wire types, kept free of imports so the frontend can share them.
+ */
+
+export const LAB_PANEL_IDS = ["cbc", "bmp", "troponin", "bnp", "lactate", "blood_gas", "crp_esr", "blood_culture"] as const;
+
+export type LabPanelId = (typeof LAB_PANEL_IDS)[number];
+
+/** H/L outside the reference range; HH/LL past a critical limit */
+export type LabFlag = "H" | "L" | "HH" | "LL";
+
+export type LabValue = {
+  id: string;
+  label: string;
+  value: number | string;
+  unit: string;
+  refLow?: number;
+  refHigh?: number;
+  flag?: LabFlag;
+};
+
+export type LabPanelResult = {
+  panel: LabPanelId;
+  label: string;
+  values: LabValue[];
+};
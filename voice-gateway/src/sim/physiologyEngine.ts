@@ -6,6 +6,9 @@
  * - Inotrope effects on BP/HR
  * - Intubation complications
  * - Airway intervention effects
+ *
+ * Rules are evaluated against the running scenario's patient: fluid windows use
+ * the patient's weight, and age-relative conditions/effects use PALS age norms.
  */
 
 import type {
@@ -13,23 +16,53 @@ import type {
   PhysiologyEffect,
   PhysiologyRule,
   ShockStage,
-  MyocarditisPhase,
+  PatientDemographics,
 } from "./scenarioTypes";
-import type { SimState, MyocarditisExtendedState, FluidBolus } from "./types";
+import type { SimState, MyocarditisExtendedState, SVTExtendedState, FluidBolus, PhysiologyTrackedState } from "./types";
+import { getAgeBand, getAgeMonths, getAgeNorms, getReferenceNorms, type AgeNorms, type VitalRange } from "./ageNorms";
 
 /** Result of evaluating physiology rules */
 export type PhysiologyResult = {
   triggeredRules: string[];
   effects: PhysiologyEffect[];
   nurseLine?: string;
-  shouldAdvancePhase?: MyocarditisPhase;
+  shouldAdvancePhase?: string;
   shouldAdvanceShockStage?: ShockStage;
+  /** Stage to move a simple scenario to (generic rules) */
+  shouldAdvanceStage?: string;
   vitalsDelta?: { hr?: number; sbp?: number; dbp?: number; spo2?: number; rr?: number };
   flagsToSet?: Record<string, boolean>;
 };
 
-/** Patient weight for calculations */
-const PATIENT_WEIGHT_KG = 32; // Jordan, 10yo
+/** Patient the rules are evaluated against (from the scenario's demographics) */
+export type PhysiologyContext = {
+  weightKg: number;
+  ageMonths: number;
+  norms: AgeNorms;
+};
+
+export function createPhysiologyContext(demographics: PatientDemographics): PhysiologyContext {
+  const ageMonths = getAgeMonths(demographics);
+  return { weightKg: demographics.weightKg, ageMonths, norms: getAgeNorms(ageMonths) };
+}
+
+function fluidMlKg(fluid: FluidBolus, context?: PhysiologyContext): number {
+  // Recompute from the delivered volume so a bolus is always dosed against this patient
+  if (context && context.weightKg > 0 && fluid.totalMl > 0) {
+    return fluid.totalMl / context.weightKg;
+  }
+  return fluid.mlKg;
+}
+
+export function parseSystolic(bp?: string): number | undefined {
+  if (!bp) return undefined;
+  const sbp = Number.parseInt(bp.split("/")[0], 10);
+  return Number.isFinite(sbp) ? sbp : undefined;
+}
+
+function midpoint(range: VitalRange): number {
+  return (range.low + range.high) / 2;
+}
 
 /**
  * Check if a single condition is met
@@ -37,8 +70,9 @@ const PATIENT_WEIGHT_KG = 32; // Jordan, 10yo
 function evaluateCondition(
   condition: PhysiologyCondition,
   state: SimState,
-  extended: MyocarditisExtendedState,
-  nowMs: number
+  extended: PhysiologyTrackedState,
+  nowMs: number,
+  context?: PhysiologyContext
 ): boolean {
   switch (condition.type) {
     case "fluids_ml_kg_in_window": {
@@ -46,7 +80,7 @@ function evaluateCondition(
       const windowStartMs = nowMs - condition.windowMinutes * 60 * 1000;
       const fluidsInWindow = extended.fluids
         .filter((f) => f.ts >= windowStartMs)
-        .reduce((sum, f) => sum + f.mlKg, 0);
+        .reduce((sum, f) => sum + fluidMlKg(f, context), 0);
       return fluidsInWindow >= condition.thresholdMlKg;
     }
 
@@ -59,8 +93,8 @@ function evaluateCondition(
     }
 
     case "inotrope_dose_gte": {
-      const epiInfusion = extended.activeInotropes.find((i) => i.drug === "epi");
-      return epiInfusion !== undefined && epiInfusion.doseMcgKgMin >= condition.doseMcgKgMin;
+      const infusion = extended.activeInotropes.find((i) => i.drug === condition.drug);
+      return infusion !== undefined && infusion.doseMcgKgMin >= condition.doseMcgKgMin;
     }
 
     case "airway_intervention": {
@@ -100,26 +134,53 @@ function evaluateCondition(
       return extended.orderedDiagnostics.includes(condition.test);
     }
 
+    case "vital_vs_age_norm": {
+      if (!context) return false;
+      const value = condition.vital === "sbp" ? parseSystolic(state.vitals.bp) : state.vitals[condition.vital];
+      if (value === undefined) return false;
+      const range = context.norms[condition.vital];
+      const margin = condition.margin ?? 0;
+      return condition.comparison === "above" ? value > range.high + margin : value < range.low - margin;
+    }
+
+    case "age_band_in": {
+      if (!context) return false;
+      return condition.bands.includes(getAgeBand(context.ageMonths));
+    }
+
+    case "treatment_given": {
+      const sinceMs = condition.withinMinutes !== undefined ? nowMs - condition.withinMinutes * 60 * 1000 : 0;
+      return (extended.treatments ?? []).some((t) => t.treatment === condition.treatment && t.ts >= sinceMs);
+    }
+
+    case "stage_is": {
+      return state.stageId === condition.stageId;
+    }
+
+    case "flag_is": {
+      return (extended.flags[condition.flag] ?? false) === condition.value;
+    }
+
     default:
       return false;
   }
 }
 
 /**
- * Check if a rule's conditions are satisfied
+ * Check a list of conditions (a rule's, or a phase transition's)
  */
-function evaluateRuleConditions(
-  rule: PhysiologyRule,
+export function physiologyConditionsMet(
+  conditions: PhysiologyCondition[],
+  logic: "all" | "any",
   state: SimState,
-  extended: MyocarditisExtendedState,
-  nowMs: number
+  extended: PhysiologyTrackedState,
+  nowMs: number,
+  context?: PhysiologyContext
 ): boolean {
-  const logic = rule.conditionLogic ?? "all";
-
   if (logic === "all") {
-    return rule.conditions.every((c) => evaluateCondition(c, state, extended, nowMs));
+    return conditions.every((c) => evaluateCondition(c, state, extended, nowMs, context));
   } else {
-    return rule.conditions.some((c) => evaluateCondition(c, state, extended, nowMs));
+    return conditions.some((c) => evaluateCondition(c, state, extended, nowMs, context));
   }
 }
 
@@ -128,7 +189,7 @@ function evaluateRuleConditions(
  */
 function isRuleOnCooldown(
   rule: PhysiologyRule,
-  extended: MyocarditisExtendedState,
+  extended: PhysiologyTrackedState,
   nowMs: number
 ): boolean {
   if (!rule.cooldownSeconds) return false;
@@ -145,7 +206,7 @@ function isRuleOnCooldown(
  */
 function hasExceededMaxTriggers(
   rule: PhysiologyRule,
-  extended: MyocarditisExtendedState
+  extended: PhysiologyTrackedState
 ): boolean {
   if (!rule.maxTriggers) return false;
 
@@ -153,10 +214,20 @@ function hasExceededMaxTriggers(
   return trigger !== undefined && trigger.triggerCount >= rule.maxTriggers;
 }
 
+/**
+ * Scale a relative vitals delta from the school-age reference to this patient's
+ * normal range (e.g. a +10 bpm response becomes ~+13 bpm in an infant).
+ */
+function scaleDelta(delta: number | undefined, vital: "hr" | "rr" | "sbp", context?: PhysiologyContext): number {
+  if (!delta) return 0;
+  if (!context) return delta;
+  return Math.round((delta * midpoint(context.norms[vital])) / midpoint(getReferenceNorms()[vital]));
+}
+
 /**
  * Apply effects from a triggered rule
  */
-function applyEffects(effects: PhysiologyEffect[]): PhysiologyResult {
+function applyEffects(effects: PhysiologyEffect[], context?: PhysiologyContext): PhysiologyResult {
   const result: PhysiologyResult = {
     triggeredRules: [],
     effects,
@@ -166,15 +237,25 @@ function applyEffects(effects: PhysiologyEffect[]): PhysiologyResult {
 
   for (const effect of effects) {
     switch (effect.type) {
-      case "vitals_delta":
+      case "vitals_delta": {
+        const scaled = effect.scaleByAge
+          ? {
+              hr: scaleDelta(effect.hr, "hr", context),
+              sbp: scaleDelta(effect.sbp, "sbp", context),
+              // Diastolic tracks the systolic norm
+              dbp: scaleDelta(effect.dbp, "sbp", context),
+              rr: scaleDelta(effect.rr, "rr", context),
+            }
+          : effect;
         result.vitalsDelta = {
-          hr: (result.vitalsDelta?.hr ?? 0) + (effect.hr ?? 0),
-          sbp: (result.vitalsDelta?.sbp ?? 0) + (effect.sbp ?? 0),
-          dbp: (result.vitalsDelta?.dbp ?? 0) + (effect.dbp ?? 0),
+          hr: (result.vitalsDelta?.hr ?? 0) + (scaled.hr ?? 0),
+          sbp: (result.vitalsDelta?.sbp ?? 0) + (scaled.sbp ?? 0),
+          dbp: (result.vitalsDelta?.dbp ?? 0) + (scaled.dbp ?? 0),
           spo2: (result.vitalsDelta?.spo2 ?? 0) + (effect.spo2 ?? 0),
-          rr: (result.vitalsDelta?.rr ?? 0) + (effect.rr ?? 0),
+          rr: (result.vitalsDelta?.rr ?? 0) + (scaled.rr ?? 0),
         };
         break;
+      }
 
       case "set_flag":
         result.flagsToSet![effect.flag] = effect.value;
@@ -200,21 +281,42 @@ function applyEffects(effects: PhysiologyEffect[]): PhysiologyResult {
         result.shouldAdvanceShockStage = 4; // Arrest
         result.nurseLine = "No pulse! Starting CPR! Someone call for help!";
         break;
+
+      case "advance_stage":
+        result.shouldAdvanceStage = effect.to;
+        break;
     }
   }
 
   return result;
 }
 
+/**
+ * Record a rule firing so cooldowns and maxTriggers apply on later evaluations
+ */
+function recordRuleTrigger(extended: PhysiologyTrackedState, ruleId: string, nowMs: number): void {
+  const existing = extended.ruleTriggers.find((t) => t.ruleId === ruleId);
+  if (existing) {
+    existing.triggeredAt = nowMs;
+    existing.triggerCount += 1;
+  } else {
+    extended.ruleTriggers.push({ ruleId, triggeredAt: nowMs, triggerCount: 1 });
+  }
+}
+
 /**
  * Main physiology evaluation function
- * Call this on each tick or after interventions
+ * Call this on each tick or after interventions.
+ * Pass the scenario's context (see ScenarioEngine.getPhysiologyContext) so weight-
+ * and age-relative rules are evaluated for the actual patient; without it, fluids
+ * use the mL/kg recorded at order time and age-norm conditions never match.
  */
 export function evaluatePhysiology(
   state: SimState,
-  extended: MyocarditisExtendedState,
+  extended: PhysiologyTrackedState,
   rules: PhysiologyRule[],
-  nowMs: number = Date.now()
+  nowMs: number = Date.now(),
+  context?: PhysiologyContext
 ): PhysiologyResult {
   const result: PhysiologyResult = {
     triggeredRules: [],
@@ -229,10 +331,11 @@ export function evaluatePhysiology(
     if (hasExceededMaxTriggers(rule, extended)) continue;
 
     // Check conditions
-    if (!evaluateRuleConditions(rule, state, extended, nowMs)) continue;
+    if (!physiologyConditionsMet(rule.conditions, rule.conditionLogic ?? "all", state, extended, nowMs, context)) continue;
 
     // Rule triggered!
     result.triggeredRules.push(rule.id);
+    recordRuleTrigger(extended, rule.id, nowMs);
 
     // Apply effects (may be delayed)
     if (rule.delaySeconds && rule.delaySeconds > 0) {
@@ -246,7 +349,7 @@ export function evaluatePhysiology(
       }
     } else {
       // Apply immediately
-      const ruleResult = applyEffects(rule.effects);
+      const ruleResult = applyEffects(rule.effects, context);
       result.effects.push(...rule.effects);
 
       // Merge results
@@ -271,6 +374,9 @@ export function evaluatePhysiology(
       if (ruleResult.shouldAdvanceShockStage) {
         result.shouldAdvanceShockStage = ruleResult.shouldAdvanceShockStage;
       }
+      if (ruleResult.shouldAdvanceStage) {
+        result.shouldAdvanceStage = ruleResult.shouldAdvanceStage;
+      }
     }
   }
 
@@ -281,7 +387,7 @@ export function evaluatePhysiology(
     extended.pendingEffects = extended.pendingEffects.filter((pe) => pe.executeAt > nowMs);
 
     // Apply ready effects
-    const delayedResult = applyEffects(readyEffects.map((pe) => pe.effect as PhysiologyEffect));
+    const delayedResult = applyEffects(readyEffects.map((pe) => pe.effect as PhysiologyEffect), context);
     if (delayedResult.vitalsDelta) {
       result.vitalsDelta = {
         hr: (result.vitalsDelta?.hr ?? 0) + (delayedResult.vitalsDelta.hr ?? 0),
@@ -303,387 +409,51 @@ export function evaluatePhysiology(
     if (delayedResult.shouldAdvanceShockStage && !result.shouldAdvanceShockStage) {
       result.shouldAdvanceShockStage = delayedResult.shouldAdvanceShockStage;
     }
+    if (delayedResult.shouldAdvanceStage && !result.shouldAdvanceStage) {
+      result.shouldAdvanceStage = delayedResult.shouldAdvanceStage;
+    }
   }
 
   return result;
 }
 
-// ============================================================================
-// Predefined Rules for Myocarditis Scenario
-// ============================================================================
-
-export const MYOCARDITIS_PHYSIOLOGY_RULES: PhysiologyRule[] = [
-  // Rule 1: Fluid overload → pulmonary edema
-  {
-    id: "fluid_overload",
-    name: "Fluid Overload",
-    conditions: [{ type: "fluids_ml_kg_in_window", thresholdMlKg: 20, windowMinutes: 10 }],
-    effects: [
-      { type: "set_flag", flag: "pulmonaryEdema", value: true },
-      { type: "vitals_delta", spo2: -8, rr: 10 },
-      { type: "nurse_line", line: "Crackles getting worse with the fluids. SpO2 is dropping.", priority: "critical" },
-    ],
-    cooldownSeconds: 300, // 5 min cooldown
-    maxTriggers: 2,
-  },
-
-  // Rule 2: Epi response - BP improves with adequate dose
-  {
-    id: "epi_response",
-    name: "Epinephrine Response",
-    conditions: [{ type: "inotrope_dose_gte", drug: "epi", doseMcgKgMin: 0.05 }],
-    effects: [
-      { type: "vitals_delta", sbp: 15, dbp: 8, hr: 10 },
-      { type: "nurse_line", line: "Epi is in and running. Pressure is coming up.", priority: "normal" },
-    ],
-    delaySeconds: 120, // Effect in 2 minutes
-    cooldownSeconds: 180,
-  },
-
-  // Rule 3: Milrinone trap - milrinone without epi causes BP drop
-  {
-    id: "milrinone_trap",
-    name: "Milrinone Without Vasopressor",
-    conditions: [
-      { type: "inotrope_running", drug: "milrinone" },
-    ],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", sbp: -8, dbp: -5 },
-      { type: "nurse_line", line: "Pressure is dropping with the milrinone. Do you want to add a vasopressor?", priority: "critical" },
-    ],
-    delaySeconds: 180,
-    cooldownSeconds: 300,
-  },
-
-  // Rule 4: HFNC effect - improves SpO2 and RR
-  {
-    id: "hfnc_effect",
-    name: "HFNC Respiratory Support",
-    conditions: [{ type: "airway_intervention", method: "hfnc" }],
-    effects: [
-      { type: "vitals_delta", spo2: 5, rr: -8 },
-      { type: "nurse_line", line: "HFNC is on. Work of breathing is a little better.", priority: "normal" },
-    ],
-    delaySeconds: 300, // 5 minutes
-  },
-
-  // Rule 5: Intubation collapse - propofol without pressor ready
-  {
-    id: "intubation_collapse_propofol",
-    name: "Intubation Collapse (Propofol)",
-    conditions: [
-      { type: "intubation_induction", agent: "propofol" },
-      { type: "pressor_at_bedside", ready: false },
-    ],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", sbp: -40, dbp: -30, hr: -50 },
-      { type: "set_flag", flag: "intubationCollapse", value: true },
-      { type: "nurse_line", line: "BP is crashing! 40 systolic! Patient is bradycardic!", priority: "critical" },
-    ],
-    delaySeconds: 30,
-    maxTriggers: 1,
-  },
-
-  // Rule 6: Safe intubation with ketamine
-  {
-    id: "intubation_safe_ketamine",
-    name: "Safe Intubation (Ketamine)",
-    conditions: [
-      { type: "intubation_induction", agent: "ketamine" },
-      { type: "pressor_at_bedside", ready: true },
-    ],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", sbp: 5, dbp: 3, hr: 5 },
-      { type: "nurse_line", line: "Tube is in. Good color change on CO2. Vitals holding steady.", priority: "normal" },
-    ],
-    delaySeconds: 60,
-  },
-
-  // Rule 7: High PEEP in cardiogenic shock causes further decompensation
-  {
-    id: "high_peep_decomp",
-    name: "High PEEP Decompensation",
-    conditions: [
-      { type: "peep_gte", peep: 8 },
-      { type: "shock_stage_gte", stage: 2 },
-    ],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", sbp: -10, dbp: -8 },
-      { type: "nurse_line", line: "Pressure is dropping. PEEP might be too high for this cardiac patient.", priority: "critical" },
-    ],
-    delaySeconds: 120,
-    cooldownSeconds: 300,
-  },
-
-  // Rule 8: PICU consult called - helps with scoring
-  {
-    id: "picu_called",
-    name: "PICU Consult Called",
-    conditions: [{ type: "consult_called", service: "picu" }],
-    effects: [
-      { type: "nurse_line", line: "PICU fellow is on the way. ETA 5 minutes.", priority: "normal" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 9: Cardiology consult called
-  {
-    id: "cardiology_called",
-    name: "Cardiology Consult Called",
-    conditions: [{ type: "consult_called", service: "cardiology" }],
-    effects: [
-      { type: "nurse_line", line: "Cardiology is paged. They're sending someone from the echo lab.", priority: "normal" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 10: ECMO alert - stabilization pathway
-  {
-    id: "ecmo_alert",
-    name: "ECMO Alert Called",
-    conditions: [{ type: "consult_called", service: "ecmo" }],
-    effects: [
-      { type: "set_flag", flag: "stabilizing", value: true },
-      { type: "nurse_line", line: "ECMO team is mobilizing. Surgeon says 20 minutes to bedside.", priority: "normal" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 11: Cardiac markers ordered early - good recognition
-  {
-    id: "early_cardiac_markers",
-    name: "Early Cardiac Marker Recognition",
-    conditions: [
-      { type: "diagnostic_ordered", test: "troponin" },
-      { type: "time_in_phase_gte", minutes: 0 }, // Any time
-    ],
-    conditionLogic: "all",
-    effects: [
-      { type: "nurse_line", line: "I'll send the troponin and BNP right away.", priority: "normal" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 12: Decompensation phase auto-advance after time
-  {
-    id: "auto_decomp",
-    name: "Auto Decompensation",
-    conditions: [
-      { type: "time_in_phase_gte", minutes: 6 },
-    ],
-    effects: [
-      { type: "advance_shock_stage", to: 2 },
-      { type: "advance_phase", to: "decompensation" },
-      { type: "nurse_line", line: "Doctor, BP is 72/40 now. Patient looks worse.", priority: "critical" },
-    ],
-    maxTriggers: 1,
-  },
-];
-
 /**
  * Calculate total fluids given in mL/kg
  */
-export function calculateTotalFluidsMlKg(fluids: FluidBolus[]): number {
-  return fluids.reduce((sum, f) => sum + f.mlKg, 0);
+export function calculateTotalFluidsMlKg(fluids: FluidBolus[], context?: PhysiologyContext): number {
+  return fluids.reduce((sum, f) => sum + fluidMlKg(f, context), 0);
 }
 
 // ============================================================================
-// SVT Physiology Rules
+// Return of Spontaneous Circulation
 // ============================================================================
 
+/** Arrest interventions that can bring back a pulse */
+export type ArrestIntervention = "shock" | "epi";
+
+/** Chance of ROSC with perfect CPR; shocking a non-shockable rhythm never works */
+const ROSC_BASE_CHANCE: Record<ArrestIntervention, { shockable: number; nonShockable: number }> = {
+  shock: { shockable: 0.5, nonShockable: 0 },
+  epi: { shockable: 0.15, nonShockable: 0.3 },
+};
+
+/** With no effective compressions the heart still gets this share of the base chance */
+const ROSC_FLOOR = 0.2;
+
 /**
- * SVT-specific physiology rules for deterministic scenario progression.
- *
- * Key mechanics:
- * - Vagal maneuvers: 30% conversion rate
- * - Adenosine first dose (0.1 mg/kg): 60% conversion rate
- * - Adenosine second dose (0.2 mg/kg): 90% cumulative conversion rate
- * - Cardioversion: 95% conversion rate
- * - Decompensation if untreated for >5 minutes
+ * Probability that an intervention during arrest restores a pulse. CPR quality
+ * (0–1, see cprQualityFactor) scales the base chance: coronary perfusion
+ * during compressions is what lets a shock or epinephrine work.
  */
-export const SVT_PHYSIOLOGY_RULES: PhysiologyRule[] = [
-  // Rule 1: Vagal Maneuver Success (30% handled elsewhere, this fires on success)
-  {
-    id: "vagal_conversion",
-    name: "Vagal Maneuver Conversion",
-    conditions: [{ type: "vagal_attempted" }, { type: "converted" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", hr: -125 }, // Drop from ~220 to ~95
-      { type: "convert_rhythm" },
-      { type: "advance_svt_phase", to: "converted" },
-      { type: "nurse_line", line: "It worked! She's converting... heart rate coming down!", priority: "critical" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 2: Adenosine First Dose Success
-  {
-    id: "adenosine_first_success",
-    name: "Adenosine First Dose Conversion",
-    conditions: [{ type: "adenosine_given", doseNumber: 1 }, { type: "converted" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", hr: -125 },
-      { type: "convert_rhythm" },
-      { type: "advance_svt_phase", to: "converted" },
-      { type: "nurse_line", line: "There's the conversion! Sinus rhythm. Heart rate dropping to 95.", priority: "critical" },
-    ],
-    delaySeconds: 10,
-    maxTriggers: 1,
-  },
-
-  // Rule 3: Adenosine First Dose Failure
-  {
-    id: "adenosine_first_failure",
-    name: "Adenosine First Dose Failure",
-    conditions: [{ type: "adenosine_given", doseNumber: 1 }],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", hr: -30 }, // Brief dip
-      { type: "nurse_line", line: "Brief pause... and it's back. Still in SVT. Want to try the higher dose?", priority: "normal" },
-    ],
-    delaySeconds: 15,
-    cooldownSeconds: 60,
-    maxTriggers: 1,
-  },
-
-  // Rule 4: Adenosine Second Dose Success
-  {
-    id: "adenosine_second_success",
-    name: "Adenosine Second Dose Conversion",
-    conditions: [{ type: "adenosine_given", doseNumber: 2 }, { type: "converted" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", hr: -130 },
-      { type: "convert_rhythm" },
-      { type: "advance_svt_phase", to: "converted" },
-      { type: "nurse_line", line: "That did it! She's in sinus. HR 95 and stable.", priority: "critical" },
-    ],
-    delaySeconds: 10,
-    maxTriggers: 1,
-  },
-
-  // Rule 5: Cardioversion Success
-  {
-    id: "cardioversion_success",
-    name: "Synchronized Cardioversion Success",
-    conditions: [{ type: "cardioversion_performed", synchronized: true }, { type: "converted" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "vitals_delta", hr: -150 },
-      { type: "convert_rhythm" },
-      { type: "advance_svt_phase", to: "converted" },
-      { type: "nurse_line", line: "Shock delivered. She's in sinus! HR 90, BP coming up.", priority: "critical" },
-    ],
-    delaySeconds: 5,
-    maxTriggers: 1,
-  },
-
-  // Rule 6: Unsedated Cardioversion
-  {
-    id: "cardioversion_unsedated",
-    name: "Cardioversion Without Sedation",
-    conditions: [{ type: "cardioversion_performed", synchronized: true }],
-    conditionLogic: "all",
-    effects: [
-      { type: "set_flag", flag: "unsedatedCardioversion", value: true },
-      { type: "nurse_line", line: "She felt that! Poor thing. We should have sedated first.", priority: "critical" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 7: Stability Deterioration
-  {
-    id: "stability_drift",
-    name: "Hemodynamic Deterioration",
-    conditions: [{ type: "time_in_phase_gte", minutes: 3 }, { type: "rhythm_is", rhythm: "svt" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "set_stability_level", level: 2 },
-      { type: "vitals_delta", sbp: -15, spo2: -2 },
-      { type: "nurse_line", line: "BP is dropping. She's not tolerating this rhythm well.", priority: "critical" },
-    ],
-    cooldownSeconds: 180,
-    maxTriggers: 2,
-  },
-
-  // Rule 8: Severe Decompensation
-  {
-    id: "decompensation_severe",
-    name: "Severe Hemodynamic Compromise",
-    conditions: [{ type: "stability_level_gte", level: 3 }, { type: "rhythm_is", rhythm: "svt" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "advance_svt_phase", to: "decompensating" },
-      { type: "vitals_delta", sbp: -20, spo2: -5, hr: 10 },
-      { type: "nurse_line", line: "She's decompensating! Altered mental status, BP 75 systolic. We need to cardiovert NOW.", priority: "critical" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 9: Rebound SVT (20% chance after adenosine conversion - handled elsewhere)
-  {
-    id: "rebound_svt",
-    name: "Rebound SVT After Conversion",
-    conditions: [{ type: "converted" }],
-    conditionLogic: "all",
-    effects: [
-      { type: "rebound_svt" },
-      { type: "vitals_delta", hr: 125 },
-      { type: "nurse_line", line: "Rate's climbing again - she's back in SVT! Want another dose?", priority: "critical" },
-    ],
-    delaySeconds: 60, // 1 minute after conversion
-    maxTriggers: 1,
-  },
-
-  // Rule 10: Cardiology Consult Response
-  {
-    id: "cardiology_consult",
-    name: "Cardiology Consult Called",
-    conditions: [{ type: "consult_called", service: "cardiology" }],
-    conditionLogic: "all",
-    effects: [
-      {
-        type: "nurse_line",
-        line: "Cardiology is on the phone. They recommend EP study and possible ablation given family history of WPW.",
-        priority: "normal",
-      },
-    ],
-    delaySeconds: 120, // 2 minute callback
-    maxTriggers: 1,
-  },
-
-  // Rule 11: Auto-advance to treatment window
-  {
-    id: "svt_onset_to_treatment",
-    name: "SVT Onset to Treatment Window",
-    conditions: [{ type: "time_in_phase_gte", minutes: 1 }],
-    conditionLogic: "all",
-    effects: [
-      { type: "advance_svt_phase", to: "treatment_window" },
-    ],
-    maxTriggers: 1,
-  },
-
-  // Rule 12: IV Access Established
-  // DISABLED: Nurse response handled by handleOrder in index.ts to avoid duplicate/conflicting gauge responses.
-  // The order handler builds the nurse line from parsed gauge/location, e.g., "22 gauge IV placed in right hand."
-  // {
-  //   id: "iv_access_confirmed",
-  //   name: "IV Access Confirmed",
-  //   conditions: [],
-  //   conditionLogic: "all",
-  //   effects: [
-  //     { type: "nurse_line", line: "IV is in - 20 gauge in the right AC. Good blood return.", priority: "normal" },
-  //   ],
-  //   maxTriggers: 1,
-  // },
-];
+export function roscLikelihood(intervention: ArrestIntervention, shockable: boolean, cprQuality: number): number {
+  const base = ROSC_BASE_CHANCE[intervention][shockable ? "shockable" : "nonShockable"];
+  const quality = Math.min(1, Math.max(0, cprQuality));
+  return base * (ROSC_FLOOR + (1 - ROSC_FLOOR) * quality);
+}
+
+// ============================================================================
+// Initial Extended State
+// ============================================================================
 
 /**
  * Create initial extended state for myocarditis scenario
@@ -738,3 +508,72 @@ export function createInitialMyocarditisState(nowMs: number = Date.now()): Myoca
     ],
   };
 }
+
+/**
+ * Create initial extended state for the SVT scenario
+ */
+export function createInitialSVTState(nowMs: number = Date.now()): SVTExtendedState {
+  return {
+    // Phase tracking
+    phase: "presentation",
+    phaseEnteredAt: nowMs,
+    stabilityLevel: 1,
+
+    // Rhythm state
+    currentRhythm: "sinus",
+    converted: false,
+
+    // Treatment tracking
+    vagalAttempts: 0,
+    adenosineDoses: [],
+    totalAdenosineMg: 0,
+    cardioversionAttempts: [],
+
+    // Intervention tracking
+    ivAccess: false,
+    monitorOn: false,
+    sedationGiven: false,
+
+    // Diagnostic tracking
+    ecgOrdered: false,
+    diagnostics: [],
+    orderedDiagnostics: [],
+
+    // Consults
+    consults: [],
+    consultsCalled: [],
+
+    // Flags
+    flags: {
+      patientReassured: false,
+      parentInformed: false,
+      valsalvaExplained: false,
+      reboundSVT: false,
+      unsedatedCardioversion: false,
+    },
+
+    // Scenario clock
+    scenarioStartedAt: nowMs,
+    scenarioClockPaused: false,
+    totalPausedMs: 0,
+
+    // Rule tracking
+    ruleTriggers: [],
+    pendingEffects: [],
+
+    // Scoring
+    checklistCompleted: [],
+    bonusesEarned: [],
+    penaltiesIncurred: [],
+    currentScore: 50, // Start at base score
+
+    // Timeline
+    timelineEvents: [
+      {
+        ts: nowMs,
+        type: "phase_change",
+        description: "Scenario started - Initial presentation",
+      },
+    ],
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Model Pricing
+ * What each provider call costs, by model and modality: realtime voice and
+ * chat are billed per token (audio tokens at their own rate), transcription
+ * per audio minute and speech synthesis per character. Defaults follow the
+ * vendor's list prices; MODEL_PRICING_JSON overrides or adds models without
+ * a deploy.
+ */
+
+import { z } from "zod";
+import { log } from "../logger";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const USAGE_MODALITIES = ["realtime", "chat", "stt", "tts"] as const;
+
+export type UsageModality = (typeof USAGE_MODALITIES)[number];
+
+/** One provider call's metered usage; only the fields its modality bills on are set */
+export type UsageRecord = {
+  modality: UsageModality;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Subset of inputTokens/outputTokens that were audio (realtime) */
+  inputAudioTokens?: number;
+  outputAudioTokens?: number;
+  audioSeconds?: number;
+  characters?: number;
+};
+
+/** USD rates; unset rates cost nothing */
+export type ModelPrice = {
+  inputPerMTok?: number;
+  outputPerMTok?: number;
+  audioInputPerMTok?: number;
+  audioOutputPerMTok?: number;
+  perMinute?: number;
+  perMChars?: number;
+};
+
+export type PricingTable = Record<string, ModelPrice>;
+
+/** Spend per modality, e.g. for a session's budget display */
+export type CostBreakdown = Partial<Record<UsageModality, { usd: number; calls: number }>>;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_PRICING: PricingTable = {
+  "gpt-4.1": { inputPerMTok: 2, outputPerMTok: 8 },
+  "gpt-4.1-mini": { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  "gpt-4o": { inputPerMTok: 2.5, outputPerMTok: 10 },
+  "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  "gpt-4o-realtime-preview": { inputPerMTok: 5, outputPerMTok: 20, audioInputPerMTok: 40, audioOutputPerMTok: 80 },
+  "gpt-4o-mini-realtime-preview": {
+    inputPerMTok: 0.6,
+    outputPerMTok: 2.4,
+    audioInputPerMTok: 10,
+    audioOutputPerMTok: 20,
+  },
+  "whisper-1": { perMinute: 0.006 },
+  "gpt-4o-transcribe": { perMinute: 0.006 },
+  "gpt-4o-mini-transcribe": { perMinute: 0.003 },
+  "tts-1": { perMChars: 15 },
+  "tts-1-hd": { perMChars: 30 },
+  "gpt-4o-mini-tts": { perMChars: 15 },
+};
+
+/**
+ * Used for models missing from the table, so a new model is never free.
+ * Deliberately on the expensive side of each modality.
+ */
+const FALLBACK_PRICES: Record<UsageModality, ModelPrice> = {
+  realtime: DEFAULT_PRICING["gpt-4o-realtime-preview"],
+  chat: DEFAULT_PRICING["gpt-4o"],
+  stt: DEFAULT_PRICING["whisper-1"],
+  tts: DEFAULT_PRICING["tts-1-hd"],
+};
+
+// ============================================================================
+// Table Resolution
+// ============================================================================
+
+const rate = z.number().nonnegative().optional();
+
+const pricingOverrideSchema = z.record(
+  z
+    .object({
+      inputPerMTok: rate,
+      outputPerMTok: rate,
+      audioInputPerMTok: rate,
+      audioOutputPerMTok: rate,
+      perMinute: rate,
+      perMChars: rate,
+    })
+    .strict()
+);
+
+/** Defaults merged with MODEL_PRICING_JSON; an invalid override is logged and ignored */
+export function loadPricing(env: NodeJS.ProcessEnv = process.env): PricingTable {
+  const raw = env.MODEL_PRICING_JSON?.trim();
+  if (!raw) return { ...DEFAULT_PRICING };
+  try {
+    const parsed = pricingOverrideSchema.safeParse(JSON.parse(raw));
+    if (parsed.success) return { ...DEFAULT_PRICING, ...parsed.data };
+    log("Ignoring MODEL_PRICING_JSON:", parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; "));
+  } catch {
+    log("Ignoring MODEL_PRICING_JSON: not valid JSON");
+  }
+  return { ...DEFAULT_PRICING };
+}
+
+let pricing: PricingTable | null = null;
+const warnedModels = new Set<string>();
+
+export function getPricing(): PricingTable {
+  if (!pricing) pricing = loadPricing();
+  return pricing;
+}
+
+/** Swap the table (tests) or pass null to reload from the environment */
+export function setPricing(next: PricingTable | null): void {
+  pricing = next;
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+function perMillion(units: number | undefined, usdPerMillion: number | undefined): number {
+  return ((units ?? 0) * (usdPerMillion ?? 0)) / 1_000_000;
+}
+
+/** USD cost of one call */
+export function priceUsage(usage: UsageRecord, table: PricingTable = getPricing()): number {
+  let price = table[usage.model];
+  if (!price) {
+    price = FALLBACK_PRICES[usage.modality];
+    if (!warnedModels.has(usage.model)) {
+      warnedModels.add(usage.model);
+      log(`No price for model "${usage.model}"; billing as ${usage.modality} fallback`);
+    }
+  }
+
+  const audioIn = usage.inputAudioTokens ?? 0;
+  const audioOut = usage.outputAudioTokens ?? 0;
+  const textIn = Math.max(0, (usage.inputTokens ?? 0) - audioIn);
+  const textOut = Math.max(0, (usage.outputTokens ?? 0) - audioOut);
+
+  return (
+    perMillion(textIn, price.inputPerMTok) +
+    perMillion(textOut, price.outputPerMTok) +
+    perMillion(audioIn, price.audioInputPerMTok ?? price.inputPerMTok) +
+    perMillion(audioOut, price.audioOutputPerMTok ?? price.outputPerMTok) +
+    ((usage.audioSeconds ?? 0) / 60) * (price.perMinute ?? 0) +
+    perMillion(usage.characters, price.perMChars)
+  );
+}
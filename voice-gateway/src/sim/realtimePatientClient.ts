@@ -12,7 +12,15 @@ type RealtimePatientClientOptions = {
   onTranscriptDelta: (text: string, isFinal: boolean) => void;
   onToolIntent: (intent: ToolIntent) => void;
   onDisconnect?: () => void;
-  onUsage?: (usage: { inputTokens?: number; outputTokens?: number }) => void;
+  onUsage?: (usage: RealtimeUsage) => void;
+};
+
+export type RealtimeUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  /** Audio share of the token counts, billed at the audio rate */
+  inputAudioTokens?: number;
+  outputAudioTokens?: number;
 };
 
 /**
@@ -153,6 +161,8 @@ export class RealtimePatientClient {
           const usage = {
             inputTokens: evt.input_tokens ?? evt.inputTokens,
             outputTokens: evt.output_tokens ?? evt.outputTokens,
+            inputAudioTokens: evt.input_token_details?.audio_tokens,
+            outputAudioTokens: evt.output_token_details?.audio_tokens,
           };
           this.opts.onUsage?.(usage);
           break;
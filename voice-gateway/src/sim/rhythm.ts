@@ -0,0 +1,240 @@
+/**
+ * Structured cardiac rhythm.
+ *
+ * The scenario engine owns the patient's rhythm as a typed object on SimState
+ * (`rhythm`), with `rhythmSummary` kept as its human-readable description.
+ * Clients read the code, rate and pulse status directly instead of matching
+ * words in the summary. Scenario files declare a `RhythmSpec` per stage or
+ * phase, and the summary is written from it.
+ *
+ * Kept free of Node imports so the frontend can import it directly.
+ */
+
+import type { EcgFeatures, EcgRhythm, EcgSpec } from "./ecgSynthesis";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const RHYTHM_CODES = [
+  "sinus",
+  "sinus_tachycardia",
+  "sinus_bradycardia",
+  "svt",
+  "afib",
+  "junctional",
+  "vt",
+  "polymorphic_vt",
+  "vf",
+  "av_block_1",
+  "av_block_2_mobitz1",
+  "av_block_2_mobitz2",
+  "av_block_3",
+  "agonal",
+  "pea",
+  "asystole",
+] as const;
+
+export type RhythmCode = (typeof RHYTHM_CODES)[number];
+
+export type RhythmRegularity = "regular" | "regularly_irregular" | "irregularly_irregular" | "chaotic" | "none";
+
+export type RhythmConduction = {
+  pWaves: "normal" | "absent" | "dissociated" | "fibrillatory";
+  qrs: "narrow" | "wide";
+  avBlock?: "first_degree" | "mobitz1" | "mobitz2" | "complete";
+  ectopy?: "pacs" | "pvcs";
+};
+
+export type Rhythm = {
+  code: RhythmCode;
+  /** Ventricular rate in bpm (0 when there is no organised ventricular activity) */
+  rateBpm: number;
+  regularity: RhythmRegularity;
+  pulsePresent: boolean;
+  conduction: RhythmConduction;
+  /** ECG morphology beyond the rhythm itself (pre-excitation, QTc, ST, voltage) */
+  features?: EcgFeatures;
+  /** Monitor description, mirrored to SimState.rhythmSummary */
+  summary: string;
+};
+
+export const RHYTHM_LABELS: Record<RhythmCode, string> = {
+  sinus: "Sinus Rhythm",
+  sinus_tachycardia: "Sinus Tachycardia",
+  sinus_bradycardia: "Sinus Bradycardia",
+  svt: "SVT",
+  afib: "A-Fib",
+  junctional: "Junctional",
+  vt: "V-Tach",
+  polymorphic_vt: "Polymorphic VT",
+  vf: "V-Fib",
+  av_block_1: "1° AV Block",
+  av_block_2_mobitz1: "2° AV Block (Mobitz I)",
+  av_block_2_mobitz2: "2° AV Block (Mobitz II)",
+  av_block_3: "3° AV Block",
+  agonal: "Agonal",
+  pea: "PEA",
+  asystole: "Asystole",
+};
+
+type RhythmDefaults = Pick<Rhythm, "regularity" | "pulsePresent" | "conduction">;
+
+const RHYTHM_DEFAULTS: Record<RhythmCode, RhythmDefaults> = {
+  sinus: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "normal", qrs: "narrow" } },
+  sinus_tachycardia: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "normal", qrs: "narrow" } },
+  sinus_bradycardia: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "normal", qrs: "narrow" } },
+  svt: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "absent", qrs: "narrow" } },
+  afib: { regularity: "irregularly_irregular", pulsePresent: true, conduction: { pWaves: "fibrillatory", qrs: "narrow" } },
+  junctional: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "absent", qrs: "narrow" } },
+  vt: { regularity: "regular", pulsePresent: true, conduction: { pWaves: "dissociated", qrs: "wide" } },
+  polymorphic_vt: { regularity: "irregularly_irregular", pulsePresent: false, conduction: { pWaves: "absent", qrs: "wide" } },
+  vf: { regularity: "chaotic", pulsePresent: false, conduction: { pWaves: "absent", qrs: "wide" } },
+  av_block_1: {
+    regularity: "regular",
+    pulsePresent: true,
+    conduction: { pWaves: "normal", qrs: "narrow", avBlock: "first_degree" },
+  },
+  av_block_2_mobitz1: {
+    regularity: "regularly_irregular",
+    pulsePresent: true,
+    conduction: { pWaves: "normal", qrs: "narrow", avBlock: "mobitz1" },
+  },
+  av_block_2_mobitz2: {
+    regularity: "regularly_irregular",
+    pulsePresent: true,
+    conduction: { pWaves: "normal", qrs: "narrow", avBlock: "mobitz2" },
+  },
+  av_block_3: {
+    regularity: "regular",
+    pulsePresent: true,
+    conduction: { pWaves: "dissociated", qrs: "narrow", avBlock: "complete" },
+  },
+  agonal: { regularity: "regularly_irregular", pulsePresent: false, conduction: { pWaves: "absent", qrs: "wide" } },
+  pea: { regularity: "regular", pulsePresent: false, conduction: { pWaves: "normal", qrs: "narrow" } },
+  asystole: { regularity: "none", pulsePresent: false, conduction: { pWaves: "absent", qrs: "narrow" } },
+};
+
+/** Rhythms with no measurable ventricular rate */
+const NO_RATE: readonly RhythmCode[] = ["vf", "asystole"];
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+export type RhythmOverrides = {
+  pulsePresent?: boolean;
+  conduction?: Partial<RhythmConduction>;
+  features?: EcgFeatures;
+};
+
+export function createRhythm(code: RhythmCode, rateBpm: number, summary: string, overrides: RhythmOverrides = {}): Rhythm {
+  const defaults = RHYTHM_DEFAULTS[code];
+  return {
+    code,
+    rateBpm: NO_RATE.includes(code) ? 0 : Math.max(0, Math.round(rateBpm)),
+    regularity: defaults.regularity,
+    pulsePresent: overrides.pulsePresent ?? defaults.pulsePresent,
+    conduction: { ...defaults.conduction, ...overrides.conduction },
+    ...(overrides.features ? { features: overrides.features } : {}),
+    summary,
+  };
+}
+
+/** Same rhythm at a new heart rate (rate-less rhythms stay at 0) */
+export function withRhythmRate(rhythm: Rhythm, rateBpm: number | undefined): Rhythm {
+  if (rateBpm === undefined || NO_RATE.includes(rhythm.code)) return rhythm;
+  const rounded = Math.max(0, Math.round(rateBpm));
+  return rounded === rhythm.rateBpm ? rhythm : { ...rhythm, rateBpm: rounded };
+}
+
+/** A rhythm as declared by a scenario stage or phase */
+export type RhythmSpec = {
+  code: RhythmCode;
+  /** Rate to quote in the summary; the live rate always follows the heart rate */
+  rateBpm?: number;
+  pulsePresent?: boolean;
+  conduction?: Partial<RhythmConduction>;
+  features?: EcgFeatures;
+  /** Free-text findings appended to the summary (never parsed) */
+  detail?: string;
+};
+
+const ECTOPY_LABELS: Record<NonNullable<RhythmConduction["ectopy"]>, string> = { pacs: "PACs", pvcs: "PVCs" };
+
+/** Monitor description for a declared rhythm, e.g. "Sinus Tachycardia 145 bpm with PVCs, low voltage" */
+export function describeRhythm(spec: RhythmSpec): string {
+  const defaults = RHYTHM_DEFAULTS[spec.code];
+  const pulseless = spec.pulsePresent === false && defaults.pulsePresent;
+  const rate = spec.rateBpm !== undefined && !NO_RATE.includes(spec.code) ? ` ${Math.round(spec.rateBpm)} bpm` : "";
+  const ectopy = spec.conduction?.ectopy ? ` with ${ECTOPY_LABELS[spec.conduction.ectopy]}` : "";
+  const findings: string[] = [];
+  if (spec.conduction?.qrs && spec.conduction.qrs !== defaults.conduction.qrs) findings.push(`${spec.conduction.qrs} QRS`);
+  const { features } = spec;
+  if (features?.deltaWave) findings.push("delta wave");
+  if (features?.qtcMs !== undefined) findings.push(`QTc ${features.qtcMs} ms`);
+  if (features?.lowVoltage) findings.push("low voltage");
+  if (features?.stShiftMm) {
+    const leads = features.stLeads?.length ? ` (${features.stLeads.join(", ")})` : "";
+    findings.push(`ST ${features.stShiftMm < 0 ? "depression" : "elevation"}${leads}`);
+  }
+  if (spec.detail) findings.push(spec.detail);
+  const head = `${pulseless ? "Pulseless " : ""}${RHYTHM_LABELS[spec.code]}${rate}${ectopy}`;
+  return [head, ...findings].join(", ");
+}
+
+/** Structured rhythm for a declared spec at the current heart rate */
+export function rhythmFromSpec(spec: RhythmSpec, hr?: number): Rhythm {
+  return createRhythm(spec.code, hr ?? spec.rateBpm ?? 0, describeRhythm(spec), {
+    ...(spec.pulsePresent !== undefined ? { pulsePresent: spec.pulsePresent } : {}),
+    ...(spec.conduction ? { conduction: spec.conduction } : {}),
+    ...(spec.features ? { features: spec.features } : {}),
+  });
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/** PALS shockable: VF and pulseless VT */
+export function isShockableRhythm(rhythm: Rhythm): boolean {
+  return rhythm.code === "vf" || ((rhythm.code === "vt" || rhythm.code === "polymorphic_vt") && !rhythm.pulsePresent);
+}
+
+/** Any rhythm without a pulse needs CPR */
+export function isArrestRhythm(rhythm: Rhythm): boolean {
+  return !rhythm.pulsePresent;
+}
+
+/** Drawn as critical on the monitor: arrest rhythms, and VT even with a pulse */
+export function isCriticalRhythm(rhythm: Rhythm): boolean {
+  return isArrestRhythm(rhythm) || rhythm.code === "vt" || rhythm.code === "polymorphic_vt";
+}
+
+const RHYTHM_TO_ECG: Record<RhythmCode, EcgRhythm> = {
+  sinus: "sinus",
+  sinus_tachycardia: "sinus",
+  sinus_bradycardia: "sinus",
+  svt: "svt",
+  afib: "afib",
+  junctional: "svt",
+  vt: "vt",
+  polymorphic_vt: "vt",
+  vf: "vf",
+  av_block_1: "av_block_1",
+  av_block_2_mobitz1: "av_block_2_mobitz1",
+  av_block_2_mobitz2: "av_block_2_mobitz2",
+  av_block_3: "av_block_3",
+  agonal: "vt",
+  pea: "pea",
+  asystole: "asystole",
+};
+
+/** Synthesis spec for drawing this rhythm */
+export function rhythmToEcgSpec(rhythm: Rhythm): EcgSpec {
+  return {
+    rhythm: RHYTHM_TO_ECG[rhythm.code],
+    hr: rhythm.rateBpm,
+    ...(rhythm.features ? { features: rhythm.features } : {}),
+  };
+}
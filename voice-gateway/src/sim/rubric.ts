@@ -0,0 +1,437 @@
+/**
+ * Declarative scenario rubrics and their evaluator.
+ *
+ * A scenario file declares a `rubric`: checklist items plus optional bonuses
+ * and penalties, each with a serializable condition. Conditions cover the
+ * session's orders, treatments, revealed findings and consults, the learner's
+ * side of the transcript, and any value in the scenario's extended state by
+ * path (flags, dose lists, timeline events), with time windows measured from
+ * the scenario start (less paused time) or between two recorded events. The
+ * simple and complex scenarios are all scored here: 50 base points, up to 50
+ * for the checklist, bonuses and penalties on top, graded A–F. NPC triggers
+ * (sim/triggers) use the same conditions against the live state.
+ */
+
+import type { DebriefTurn } from "../messageTypes";
+import type { LabPanelId } from "./labTypes";
+import { hasMedicationError } from "./formulary";
+import { hasDefibError } from "./defibrillator";
+import { hasLongPeriShockPause, hasLowCompressionFraction, isFirstEpiLate, isHighQualityCpr } from "./cprQuality";
+import { normalizeTreatment } from "./genericPhysiology";
+import type { CprMetrics, SimState, Vitals } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RubricOrderType =
+  | "vitals"
+  | "ekg"
+  | "labs"
+  | "imaging"
+  | "echo"
+  | "cardiac_exam"
+  | "lung_exam"
+  | "general_exam"
+  | "iv_access";
+
+/** Comparison for `value` conditions; `includes` tests array membership, `contains` a case-insensitive substring */
+export type RubricOperator = "eq" | "ne" | "lt" | "lte" | "gt" | "gte" | "includes" | "contains" | "exists";
+
+export type RubricScalar = string | number | boolean;
+
+export type RubricCprCheck = "high_quality" | "low_compression_fraction" | "long_peri_shock_pause" | "late_first_epi";
+
+export type RubricVital = "hr" | "rr" | "spo2" | "temp" | "sbp" | "dbp";
+
+/**
+ * Conditions over extended state address values by path: dot-separated keys
+ * and array indexes (`adenosineDoses.0.doseMgKg`, `inotropes.length`), with
+ * `[key=value]` picking the first array element whose key equals the value and
+ * `[key~=text]` the first whose key contains the text
+ * (`consults[service=picu].calledAt`).
+ */
+export type RubricCondition =
+  /** The learner said something matching one of the patterns (case-insensitive regex) */
+  | { type: "said"; patterns: string[] }
+  /** An order was placed, optionally a specific lab panel, optionally within N seconds of the start */
+  | { type: "ordered"; order: RubricOrderType; panel?: LabPanelId; withinSeconds?: number }
+  /** A treatment was given, by canonical name ("pge1", "knee_chest", "fluids", ...) */
+  | { type: "treatment"; treatment: string; withinSeconds?: number }
+  | { type: "finding"; finding: string }
+  | { type: "consult"; service: string }
+  /** A physiology flag is set (e.g. "ductOpen") */
+  | { type: "flag"; flag: string }
+  /** Compare an extended-state value with a literal, or with the value at `ref` (a path from the extended-state root) */
+  | { type: "value"; path: string; op: RubricOperator; value?: RubricScalar; ref?: string }
+  /** Some (or every, and at least one) element of an array matches; paths in `where` are relative to the element */
+  | { type: "some" | "every"; path: string; where: RubricCondition }
+  /** A timeline event of the given type, optionally whose description contains `match` */
+  | { type: "timeline"; event: string; match?: string }
+  /**
+   * Time between two recorded timestamps, in seconds. `from` defaults to the
+   * scenario start (with paused time excluded), `to` to the time of scoring.
+   * False when either timestamp is missing.
+   */
+  | { type: "elapsed"; from?: string; to?: string; op: "lt" | "lte" | "gt" | "gte"; seconds: number }
+  /** The session is in the given stage */
+  | { type: "stage"; stageId: string }
+  /** Compare a current vital sign; `sbp`/`dbp` are read from the blood pressure */
+  | { type: "vital"; vital: RubricVital; op: "lt" | "lte" | "gt" | "gte"; value: number }
+  /** CPR quality over the arrest (sim/cprQuality.ts) */
+  | { type: "cpr"; check: RubricCprCheck }
+  /** A nurse-challenged medication order: `critical` for tenfold/concentration errors, otherwise the lesser ones */
+  | { type: "medication_error"; critical?: boolean }
+  /** A defibrillator mistake, split the same way */
+  | { type: "defib_error"; critical?: boolean }
+  | { any: RubricCondition[] }
+  | { all: RubricCondition[] }
+  | { not: RubricCondition };
+
+export type RubricCategory =
+  | "history"
+  | "exam"
+  | "diagnostics"
+  | "monitoring"
+  | "treatment"
+  | "communication"
+  | "disposition";
+
+export type RubricChecklistItem = {
+  id: string;
+  category: RubricCategory;
+  description: string;
+  explanation: string;
+  when: RubricCondition;
+};
+
+export type RubricPointsItem = {
+  id: string;
+  description: string;
+  /** Positive for bonuses, negative for penalties */
+  points: number;
+  when: RubricCondition;
+};
+
+export type ScenarioRubric = {
+  /** Checklist items needed to pass */
+  passThreshold: number;
+  checklist: RubricChecklistItem[];
+  bonuses?: RubricPointsItem[];
+  penalties?: RubricPointsItem[];
+  /** Opening line of the feedback, by outcome */
+  feedback?: { passed: string; failed: string };
+};
+
+/** Everything a rubric condition can look at */
+export type RubricContext = {
+  /** `stageId` and `vitals` are only needed by `stage` and `vital` conditions */
+  state: Pick<SimState, "orders" | "treatmentHistory" | "findings" | "extended"> & Partial<Pick<SimState, "stageId" | "vitals">>;
+  turns: DebriefTurn[];
+  scenarioStartTime: number;
+  /** Time of scoring, for `elapsed` conditions that run to now */
+  nowMs?: number;
+};
+
+export type RubricScore = {
+  passed: boolean;
+  checklistResults: { item: RubricChecklistItem; achieved: boolean }[];
+  checklistScore: string;
+  bonusesEarned: { item: RubricPointsItem; points: number }[];
+  penaltiesIncurred: { item: RubricPointsItem; points: number }[];
+  totalPoints: number;
+  grade: "A" | "B" | "C" | "D" | "F";
+  feedback: string[];
+};
+
+/** Safety penalties every rubric carries unless it declares its own with the same id */
+export const COMMON_PENALTIES: RubricPointsItem[] = [
+  {
+    id: "medication_error",
+    description: "Medication order outside the dose range, route or cumulative max (challenged by the nurse)",
+    points: -5,
+    when: { type: "medication_error" },
+  },
+  {
+    id: "medication_critical_error",
+    description: "Tenfold dose or wrong concentration ordered",
+    points: -15,
+    when: { type: "medication_error", critical: true },
+  },
+  {
+    id: "defib_critical_error",
+    description: "Unsynchronized shock into a perfusing rhythm, or a shock into a non-shockable rhythm",
+    points: -15,
+    when: { type: "defib_error", critical: true },
+  },
+];
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+type Scope = Record<string, unknown>;
+
+const PATH_SEGMENT = /[^.[\]]+((?:\[[^\]]*\])*)/g;
+const SEGMENT_FILTER = /\[([^\]=~]+)(~?=)([^\]]*)\]/g;
+
+/** Resolve a rubric path against an object (see RubricCondition) */
+export function resolveRubricPath(root: unknown, path: string): unknown {
+  let current = root;
+  for (const match of path.matchAll(PATH_SEGMENT)) {
+    const key = match[0].slice(0, match[0].length - match[1].length);
+    current = current === null || current === undefined ? undefined : (current as Scope)[key];
+    const filters = [...match[1].matchAll(SEGMENT_FILTER)];
+    if (filters.length === 0) continue;
+    if (!Array.isArray(current)) return undefined;
+    current = current.find((element: Scope) =>
+      filters.every(([, field, op, expected]) => {
+        const actual = element?.[field];
+        return op === "=" ? String(actual) === expected : String(actual ?? "").toLowerCase().includes(expected.toLowerCase());
+      })
+    );
+  }
+  return current;
+}
+
+function compare(actual: unknown, op: RubricOperator, expected: unknown): boolean {
+  switch (op) {
+    case "exists":
+      return actual !== undefined && actual !== null;
+    case "eq":
+      return actual === expected;
+    case "ne":
+      return actual !== expected;
+    case "includes":
+      return Array.isArray(actual) && actual.includes(expected);
+    case "contains":
+      return typeof actual === "string" && typeof expected === "string" && actual.toLowerCase().includes(expected.toLowerCase());
+    default: {
+      if (typeof actual !== "number" || typeof expected !== "number") return false;
+      if (op === "lt") return actual < expected;
+      if (op === "lte") return actual <= expected;
+      if (op === "gt") return actual > expected;
+      return actual >= expected;
+    }
+  }
+}
+
+const asTimestamp = (value: unknown): number | undefined => (typeof value === "number" ? value : undefined);
+
+function withinWindow(ts: number, ctx: RubricContext, withinSeconds?: number): boolean {
+  return withinSeconds === undefined || ts - ctx.scenarioStartTime <= withinSeconds * 1000;
+}
+
+/** Canonical treatment names given this session, with when they were given */
+function treatmentsGiven(state: RubricContext["state"]): { ts: number; treatment: string }[] {
+  const history = (state.treatmentHistory ?? []).map((t) => ({ ts: t.ts, treatment: normalizeTreatment(t.treatmentType) }));
+  const generic = state.extended && "kind" in state.extended ? state.extended.treatments : [];
+  return [...history, ...generic];
+}
+
+function vitalValue(vitals: Vitals | undefined, vital: RubricVital): number | undefined {
+  if (vital !== "sbp" && vital !== "dbp") return vitals?.[vital];
+  if (!vitals?.bp) return undefined;
+  const [sbp, dbp] = vitals.bp.split("/").map(Number);
+  const value = vital === "sbp" ? sbp : dbp;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+const CPR_CHECKS: Record<RubricCprCheck, (metrics: CprMetrics | undefined) => boolean> = {
+  high_quality: isHighQualityCpr,
+  low_compression_fraction: hasLowCompressionFraction,
+  long_peri_shock_pause: hasLongPeriShockPause,
+  late_first_epi: isFirstEpiLate,
+};
+
+/**
+ * Evaluate a condition. `scope` is what `value`, `some`/`every` and `elapsed`
+ * paths resolve against: the extended state, or an array element inside
+ * `some`/`every`.
+ */
+export function evaluateRubricCondition(condition: RubricCondition, ctx: RubricContext, scope?: unknown): boolean {
+  const { state } = ctx;
+  const extended = state.extended;
+  const here = scope ?? extended;
+  if ("any" in condition) return condition.any.some((c) => evaluateRubricCondition(c, ctx, here));
+  if ("all" in condition) return condition.all.every((c) => evaluateRubricCondition(c, ctx, here));
+  if ("not" in condition) return !evaluateRubricCondition(condition.not, ctx, here);
+
+  switch (condition.type) {
+    case "said": {
+      const patterns = condition.patterns.map((p) => new RegExp(p, "i"));
+      return ctx.turns.some((turn) => turn.role === "doctor" && patterns.some((p) => p.test(turn.text)));
+    }
+    case "ordered":
+      return (state.orders ?? []).some((order) => {
+        if (order.type !== condition.order) return false;
+        if (condition.panel && !order.labPanels?.includes(condition.panel)) return false;
+        return order.orderedAt === undefined
+          ? condition.withinSeconds === undefined
+          : withinWindow(order.orderedAt, ctx, condition.withinSeconds);
+      });
+    case "treatment":
+      return treatmentsGiven(state).some(
+        (t) => t.treatment === normalizeTreatment(condition.treatment) && withinWindow(t.ts, ctx, condition.withinSeconds)
+      );
+    case "finding":
+      return (state.findings ?? []).includes(condition.finding);
+    case "consult":
+      return (extended?.consultsCalled ?? []).includes(condition.service);
+    case "flag":
+      return (extended?.flags as Record<string, boolean> | undefined)?.[condition.flag] === true;
+    case "medication_error":
+      return hasMedicationError(extended?.medicationErrors, condition.critical ?? false);
+    case "defib_error":
+      return hasDefibError(extended?.defibErrors, condition.critical ?? false);
+    case "stage":
+      return state.stageId === condition.stageId;
+    case "vital":
+      return compare(vitalValue(state.vitals, condition.vital), condition.op, condition.value);
+    case "cpr":
+      return CPR_CHECKS[condition.check](extended?.cpr);
+    case "value": {
+      const expected = condition.ref !== undefined ? resolveRubricPath(extended, condition.ref) : condition.value;
+      return compare(resolveRubricPath(here, condition.path), condition.op, expected);
+    }
+    case "some":
+    case "every": {
+      const items = resolveRubricPath(here, condition.path);
+      if (!Array.isArray(items)) return false;
+      const matches = (item: unknown) => evaluateRubricCondition(condition.where, ctx, item);
+      return condition.type === "some" ? items.some(matches) : items.length > 0 && items.every(matches);
+    }
+    case "timeline":
+      return (extended?.timelineEvents ?? []).some(
+        (event) =>
+          event.type === condition.event &&
+          (condition.match === undefined || event.description.toLowerCase().includes(condition.match.toLowerCase()))
+      );
+    case "elapsed": {
+      const pausedMs = asTimestamp(resolveRubricPath(extended, "totalPausedMs")) ?? 0;
+      const from =
+        condition.from !== undefined ? asTimestamp(resolveRubricPath(here, condition.from)) : ctx.scenarioStartTime + pausedMs;
+      const to = condition.to !== undefined ? asTimestamp(resolveRubricPath(here, condition.to)) : ctx.nowMs;
+      if (from === undefined || to === undefined) return false;
+      return compare((to - from) / 1000, condition.op, condition.seconds);
+    }
+  }
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function getGrade(points: number, passed: boolean): RubricScore["grade"] {
+  if (!passed) return "F";
+  if (points >= 90) return "A";
+  if (points >= 80) return "B";
+  if (points >= 70) return "C";
+  if (points >= 60) return "D";
+  return "F";
+}
+
+function generateFeedback(rubric: ScenarioRubric, score: Omit<RubricScore, "feedback">): string[] {
+  const opening = rubric.feedback ?? {
+    passed: "Passed the scenario checklist.",
+    failed: "Did not pass. Review the missed checklist items.",
+  };
+  const feedback = [score.passed ? opening.passed : opening.failed];
+  const missed = score.checklistResults.filter((r) => !r.achieved);
+  if (missed.length > 0) {
+    feedback.push("Areas to improve:");
+    missed.forEach((m) => feedback.push(`- ${m.item.description}: ${m.item.explanation}`));
+  }
+  if (score.bonusesEarned.length > 0) {
+    feedback.push("Excellent work on:");
+    score.bonusesEarned.forEach((b) => feedback.push(`- ${b.item.description} (+${b.points} pts)`));
+  }
+  if (score.penaltiesIncurred.length > 0) {
+    feedback.push("Critical errors:");
+    score.penaltiesIncurred.forEach((p) => feedback.push(`- ${p.item.description} (${p.points} pts)`));
+  }
+  return feedback;
+}
+
+/** The rubric's penalties plus any common safety penalties it does not redefine */
+function rubricPenalties(rubric: ScenarioRubric): RubricPointsItem[] {
+  const own = rubric.penalties ?? [];
+  return [...COMMON_PENALTIES.filter((common) => !own.some((p) => p.id === common.id)), ...own];
+}
+
+/** Score a session against a scenario rubric */
+export function scoreRubric(rubric: ScenarioRubric, ctx: RubricContext): RubricScore {
+  const checklistResults = rubric.checklist.map((item) => ({ item, achieved: evaluateRubricCondition(item.when, ctx) }));
+  const achievedCount = checklistResults.filter((r) => r.achieved).length;
+  const passed = achievedCount >= rubric.passThreshold;
+
+  const earned = (items: RubricPointsItem[]) =>
+    items.filter((item) => evaluateRubricCondition(item.when, ctx)).map((item) => ({ item, points: item.points }));
+  const bonusesEarned = earned(rubric.bonuses ?? []);
+  const penaltiesIncurred = earned(rubricPenalties(rubric));
+
+  const checklistPoints = rubric.checklist.length > 0 ? Math.round((50 * achievedCount) / rubric.checklist.length) : 0;
+  const bonusPoints = bonusesEarned.reduce((sum, b) => sum + b.points, 0);
+  const penaltyPoints = penaltiesIncurred.reduce((sum, p) => sum + p.points, 0);
+  const totalPoints = Math.max(0, Math.min(100, 50 + checklistPoints + bonusPoints + penaltyPoints));
+
+  const score = {
+    passed,
+    checklistResults,
+    checklistScore: `${achievedCount}/${rubric.checklist.length}`,
+    bonusesEarned,
+    penaltiesIncurred,
+    totalPoints,
+    grade: getGrade(totalPoints, passed),
+  };
+  return { ...score, feedback: generateFeedback(rubric, score) };
+}
+
+/** Checklist status for live display */
+export function getRubricChecklistStatus(
+  rubric: ScenarioRubric,
+  ctx: RubricContext
+): { id: string; description: string; achieved: boolean }[] {
+  return rubric.checklist.map((item) => ({
+    id: item.id,
+    description: item.description,
+    achieved: evaluateRubricCondition(item.when, ctx),
+  }));
+}
+
+/** Running score kept on extended state by the complex scenarios */
+export type RubricTracking = {
+  bonusesEarned: string[];
+  penaltiesIncurred: string[];
+  currentScore: number;
+};
+
+/**
+ * Record bonuses and penalties newly earned since the last call on the
+ * running score. Each item counts once.
+ */
+export function trackRubricScore(
+  rubric: ScenarioRubric,
+  ctx: RubricContext,
+  tracking: RubricTracking
+): { newBonuses: string[]; newPenalties: string[] } {
+  const newBonuses: string[] = [];
+  const newPenalties: string[] = [];
+
+  for (const bonus of rubric.bonuses ?? []) {
+    if (!tracking.bonusesEarned.includes(bonus.id) && evaluateRubricCondition(bonus.when, ctx)) {
+      tracking.bonusesEarned.push(bonus.id);
+      tracking.currentScore = Math.min(100, tracking.currentScore + bonus.points);
+      newBonuses.push(bonus.id);
+    }
+  }
+  for (const penalty of rubricPenalties(rubric)) {
+    if (!tracking.penaltiesIncurred.includes(penalty.id) && evaluateRubricCondition(penalty.when, ctx)) {
+      tracking.penaltiesIncurred.push(penalty.id);
+      tracking.currentScore = Math.max(0, tracking.currentScore + penalty.points);
+      newPenalties.push(penalty.id);
+    }
+  }
+
+  return { newBonuses, newPenalties };
+}
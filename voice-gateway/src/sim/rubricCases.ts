@@ -0,0 +1,169 @@
+import * as fs from "fs";
+import * as path from "path";
+import { z } from "zod";
+import { BUILTIN_SCENARIO_DIR, getScenarioDef } from "./scenarioRegistry";
+import { createInitialGenericState } from "./genericPhysiology";
+import { createInitialMyocarditisState, createInitialSVTState } from "./physiologyEngine";
+import { scoreRubric, type RubricContext, type ScenarioRubric } from "./rubric";
+import type { SimState } from "./types";
+
+/**
+ * Rubric test cases: sample sessions with the score a rubric should give them.
+ *
+ * Case files live in scenarios/rubric-cases/<scenarioId>.json, one per
+ * scenario. Faculty who change a rubric can check it against known sessions
+ * with `npm run rubric:check` in voice-gateway; the same files run under jest.
+ * A case lists the extended-state fields that differ from the scenario's
+ * initial state (objects are merged, arrays replaced), plus any orders,
+ * treatments and learner utterances. Timestamps are milliseconds from the
+ * scenario start.
+ */
+
+export const RUBRIC_CASE_DIR = path.join(BUILTIN_SCENARIO_DIR, "rubric-cases");
+
+// ============================================================================
+// Case files
+// ============================================================================
+
+const rubricCaseSchema = z
+  .object({
+    name: z.string().min(1),
+    /** When to score, in seconds from the start */
+    elapsedSeconds: z.number().min(0).default(600),
+    extended: z.record(z.unknown()).default({}),
+    orders: z.array(z.record(z.unknown())).optional(),
+    treatments: z.array(z.object({ ts: z.number().min(0), treatmentType: z.string().min(1) }).strict()).optional(),
+    findings: z.array(z.string()).optional(),
+    said: z.array(z.string()).default([]),
+    expect: z
+      .object({
+        passed: z.boolean().optional(),
+        grade: z.enum(["A", "B", "C", "D", "F"]).optional(),
+        totalPoints: z.number().optional(),
+        /** Checklist item id → achieved; items not listed are not checked */
+        checklist: z.record(z.boolean()).optional(),
+        /** Exactly the bonuses earned */
+        bonuses: z.array(z.string()).optional(),
+        /** Exactly the penalties incurred */
+        penalties: z.array(z.string()).optional(),
+      })
+      .strict(),
+  })
+  .strict();
+
+const rubricCaseFileSchema = z
+  .object({
+    scenarioId: z.string().min(1),
+    cases: z.array(rubricCaseSchema).min(1),
+  })
+  .strict();
+
+export type RubricCase = z.infer<typeof rubricCaseSchema>;
+export type RubricCaseFile = z.infer<typeof rubricCaseFileSchema> & { file: string };
+
+/** Load and validate every case file in a directory; throws on an invalid file */
+export function loadRubricCaseFiles(dir: string = RUBRIC_CASE_DIR): RubricCaseFile[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .sort()
+    .map((name) => {
+      const file = path.join(dir, name);
+      const parsed = rubricCaseFileSchema.safeParse(JSON.parse(fs.readFileSync(file, "utf8")));
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+        throw new Error(`${file}: ${issues.join("; ")}`);
+      }
+      return { ...parsed.data, file };
+    });
+}
+
+// ============================================================================
+// Running cases
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function merge(base: Record<string, unknown>, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key]) ? merge(base[key], value) : value;
+  }
+  return merged;
+}
+
+function initialExtended(scenarioId: string): SimState["extended"] {
+  if (scenarioId === "teen_svt_complex_v1") return createInitialSVTState(0);
+  if (scenarioId === "peds_myocarditis_silent_crash_v1") return createInitialMyocarditisState(0);
+  return createInitialGenericState(0);
+}
+
+function caseContext(scenarioId: string, rubricCase: RubricCase): RubricContext {
+  const extended = merge(initialExtended(scenarioId) ?? {}, rubricCase.extended) as SimState["extended"];
+  return {
+    state: {
+      extended,
+      orders: rubricCase.orders as SimState["orders"],
+      treatmentHistory: rubricCase.treatments,
+      findings: rubricCase.findings,
+    },
+    turns: rubricCase.said.map((text) => ({ role: "doctor" as const, text })),
+    scenarioStartTime: 0,
+    nowMs: rubricCase.elapsedSeconds * 1000,
+  };
+}
+
+const sameIds = (actual: string[], expected: string[]) =>
+  actual.length === expected.length && [...actual].sort().every((id, i) => id === [...expected].sort()[i]);
+
+/** Score a case against a rubric; returns how the score differs from what the case expects */
+export function runRubricCase(rubric: ScenarioRubric, scenarioId: string, rubricCase: RubricCase): string[] {
+  const score = scoreRubric(rubric, caseContext(scenarioId, rubricCase));
+  const { expect } = rubricCase;
+  const failures: string[] = [];
+
+  if (expect.passed !== undefined && score.passed !== expect.passed) {
+    failures.push(`passed: expected ${expect.passed}, got ${score.passed} (${score.checklistScore})`);
+  }
+  if (expect.grade !== undefined && score.grade !== expect.grade) {
+    failures.push(`grade: expected ${expect.grade}, got ${score.grade} (${score.totalPoints} pts)`);
+  }
+  if (expect.totalPoints !== undefined && score.totalPoints !== expect.totalPoints) {
+    failures.push(`totalPoints: expected ${expect.totalPoints}, got ${score.totalPoints}`);
+  }
+  Object.entries(expect.checklist ?? {}).forEach(([id, achieved]) => {
+    const result = score.checklistResults.find((r) => r.item.id === id);
+    if (!result) failures.push(`checklist: no item "${id}"`);
+    else if (result.achieved !== achieved) failures.push(`checklist ${id}: expected ${achieved}, got ${result.achieved}`);
+  });
+  const earned = score.bonusesEarned.map((b) => b.item.id);
+  if (expect.bonuses && !sameIds(earned, expect.bonuses)) {
+    failures.push(`bonuses: expected [${expect.bonuses.join(", ")}], got [${earned.join(", ")}]`);
+  }
+  const incurred = score.penaltiesIncurred.map((p) => p.item.id);
+  if (expect.penalties && !sameIds(incurred, expect.penalties)) {
+    failures.push(`penalties: expected [${expect.penalties.join(", ")}], got [${incurred.join(", ")}]`);
+  }
+  return failures;
+}
+
+export type RubricCaseResult = {
+  file: string;
+  scenarioId: string;
+  name: string;
+  failures: string[];
+};
+
+/** Run every case file against the loaded scenario rubrics */
+export function checkRubricCases(dir: string = RUBRIC_CASE_DIR): RubricCaseResult[] {
+  return loadRubricCaseFiles(dir).flatMap(({ file, scenarioId, cases }) => {
+    const rubric = getScenarioDef(scenarioId)?.rubric;
+    return cases.map((rubricCase) => ({
+      file,
+      scenarioId,
+      name: rubricCase.name,
+      failures: rubric ? runRubricCase(rubric, scenarioId, rubricCase) : [`scenario ${scenarioId} has no rubric`],
+    }));
+  });
+}
@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import * as path from "path";
+import { logError } from "../logger";
+import { ScenarioDef, StageDef } from "./scenarioTypes";
+import { formatScenarioIssues, scenarioFileSchema, type ScenarioFile } from "./scenarioSchema";
+
+/**
+ * Registry of scenario definitions loaded from JSON files.
+ *
+ * Built-in scenarios live in voice-gateway/scenarios (resolved relative to this
+ * module so it works from both src/ and dist/). Faculty can add or override
+ * scenarios by pointing SCENARIO_DIR at another directory; files there win over
+ * built-ins with the same id.
+ */
+
+export const BUILTIN_SCENARIO_DIR = path.resolve(__dirname, "../../scenarios");
+
+export type ScenarioLoadError = {
+  file: string;
+  issues: string[];
+};
+
+export type ScenarioLoadResult = {
+  scenarios: ScenarioDef[];
+  errors: ScenarioLoadError[];
+};
+
+let registry: Map<string, ScenarioDef> | null = null;
+
+/**
+ * A phase-only (complex) scenario runs on a single stage built from its initial
+ * phase; its progress lives in extended state, not in stage changes.
+ */
+function toScenarioDef(file: ScenarioFile): ScenarioDef {
+  const { stages, initialStage, ...rest } = file;
+  if (stages && initialStage) return { ...rest, stages, initialStage };
+  const phase = file.phases?.find((p) => p.id === file.initialPhase) ?? file.phases?.[0];
+  if (!phase) throw new Error(`${file.id}: scenario has neither stages nor phases`);
+  const stage: StageDef = { id: phase.id, vitals: phase.vitals, exam: phase.exam, rhythm: phase.rhythm };
+  return { ...rest, stages: [stage], initialStage: stage.id };
+}
+
+function parseScenarioFile(file: string): { scenario?: ScenarioDef; error?: ScenarioLoadError } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    return { error: { file, issues: [`invalid JSON: ${err instanceof Error ? err.message : String(err)}`] } };
+  }
+  const parsed = scenarioFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { error: { file, issues: formatScenarioIssues(parsed.error) } };
+  }
+  return { scenario: toScenarioDef(parsed.data) };
+}
+
+/**
+ * Load and validate every *.json scenario file in a directory.
+ * Invalid files are reported in `errors` and skipped; valid ones are returned.
+ */
+export function loadScenarioDirectory(dir: string): ScenarioLoadResult {
+  const result: ScenarioLoadResult = { scenarios: [], errors: [] };
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(dir).filter((name) => name.endsWith(".json")).sort();
+  } catch (err) {
+    result.errors.push({ file: dir, issues: [`cannot read directory: ${err instanceof Error ? err.message : String(err)}`] });
+    return result;
+  }
+  const seen = new Set<string>();
+  for (const name of entries) {
+    const file = path.join(dir, name);
+    const { scenario, error } = parseScenarioFile(file);
+    if (error) {
+      result.errors.push(error);
+      continue;
+    }
+    if (!scenario) continue;
+    if (seen.has(scenario.id)) {
+      result.errors.push({ file, issues: [`id: duplicate scenario id "${scenario.id}" in ${dir}`] });
+      continue;
+    }
+    seen.add(scenario.id);
+    result.scenarios.push(scenario);
+  }
+  return result;
+}
+
+/**
+ * (Re)build the registry from the built-in directory plus SCENARIO_DIR (if set).
+ * Called once at gateway startup; validation errors are logged and returned.
+ */
+export function loadScenarios(dirs?: string[]): ScenarioLoadResult {
+  const sources = dirs ?? [BUILTIN_SCENARIO_DIR, ...(process.env.SCENARIO_DIR ? [process.env.SCENARIO_DIR] : [])];
+  const next = new Map<string, ScenarioDef>();
+  const combined: ScenarioLoadResult = { scenarios: [], errors: [] };
+  for (const dir of sources) {
+    const { scenarios, errors } = loadScenarioDirectory(dir);
+    scenarios.forEach((scenario) => next.set(scenario.id, scenario));
+    combined.errors.push(...errors);
+  }
+  combined.scenarios = Array.from(next.values());
+  combined.errors.forEach((error) => {
+    logError("[scenarios] rejected", error.file, "\n  " + error.issues.join("\n  "));
+  });
+  registry = next;
+  return combined;
+}
+
+function getRegistry(): Map<string, ScenarioDef> {
+  if (!registry) loadScenarios();
+  return registry ?? new Map<string, ScenarioDef>();
+}
+
+export function getScenarioDef(scenarioId: string): ScenarioDef | undefined {
+  return getRegistry().get(scenarioId);
+}
+
+export function hasScenario(scenarioId: string): boolean {
+  return getRegistry().has(scenarioId);
+}
+
+export function listScenarioIds(): string[] {
+  return Array.from(getRegistry().keys());
+}
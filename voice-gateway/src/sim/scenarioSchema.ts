@@ -0,0 +1,532 @@
+import { z } from "zod";
+import { AGE_BANDS } from "./ageNorms";
+import { ECG_LEADS } from "./ecgSynthesis";
+import { LAB_PANEL_IDS } from "./labTypes";
+import { RHYTHM_CODES } from "./rhythm";
+import type { RubricCondition } from "./rubric";
+
+/**
+ * Zod schema for declarative scenario files (voice-gateway/scenarios/*.json).
+ * A file describes one ScenarioDef plus the PatientCase used for the persona prompt.
+ * Complex scenarios declare phases instead of stages; the registry runs them on a
+ * single stage built from the initial phase.
+ */
+
+const stageVitalsSchema = z
+  .object({
+    hr: z.number().min(0),
+    bp: z.string().regex(/^\d{2,3}\/\d{2,3}$/, "bp must look like \"110/70\""),
+    rr: z.number().min(0).optional(),
+    spo2: z.number().min(0).max(100).optional(),
+    temp: z.number().optional(),
+  })
+  .strict();
+
+const stageExamSchema = z
+  .object({
+    general: z.string().optional(),
+    cardio: z.string().optional(),
+    lungs: z.string().optional(),
+    perfusion: z.string().optional(),
+    neuro: z.string().optional(),
+    heartAudioUrl: z.string().optional(),
+    lungAudioUrl: z.string().optional(),
+  })
+  .strict();
+
+const driftSchema = z
+  .object({
+    hrPerMin: z.number().optional(),
+    spo2PerMin: z.number().optional(),
+    sbpPerMin: z.number().optional(),
+    dbpPerMin: z.number().optional(),
+  })
+  .strict();
+
+const actionTriggerSchema = z.union([
+  z.object({ action: z.literal("time_elapsed"), seconds: z.number().positive() }).strict(),
+  z.object({ action: z.enum(["asked_about_exertion", "asked_family_history", "stand_test"]) }).strict(),
+]);
+
+const transitionSchema = z
+  .object({
+    to: z.string().min(1),
+    when: z.union([
+      actionTriggerSchema,
+      z.object({ any: z.array(actionTriggerSchema).min(1) }).strict(),
+      z.object({ all: z.array(actionTriggerSchema).min(1) }).strict(),
+    ]),
+  })
+  .strict();
+
+const rhythmSpecSchema = z
+  .object({
+    code: z.enum(RHYTHM_CODES),
+    rateBpm: z.number().min(0).optional(),
+    pulsePresent: z.boolean().optional(),
+    conduction: z
+      .object({
+        pWaves: z.enum(["normal", "absent", "dissociated", "fibrillatory"]).optional(),
+        qrs: z.enum(["narrow", "wide"]).optional(),
+        avBlock: z.enum(["first_degree", "mobitz1", "mobitz2", "complete"]).optional(),
+        ectopy: z.enum(["pacs", "pvcs"]).optional(),
+      })
+      .strict()
+      .optional(),
+    features: z
+      .object({
+        deltaWave: z.boolean().optional(),
+        qtcMs: z.number().positive().optional(),
+        stShiftMm: z.number().optional(),
+        stLeads: z.array(z.enum(ECG_LEADS)).optional(),
+        lowVoltage: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    detail: z.string().min(1).optional(),
+  })
+  .strict();
+
+const stageSchema = z
+  .object({
+    id: z.string().min(1),
+    vitals: stageVitalsSchema,
+    exam: stageExamSchema.optional(),
+    rhythm: rhythmSpecSchema.optional(),
+    drift: driftSchema.optional(),
+    allowedIntents: z
+      .array(z.enum(["intent_updateVitals", "intent_advanceStage", "intent_revealFinding", "intent_setEmotion"]))
+      .optional(),
+    allowedStages: z.array(z.string().min(1)).optional(),
+    reveals: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            trigger: z.enum(["always", "on_question"]),
+            text: z.string().min(1),
+          })
+          .strict()
+      )
+      .optional(),
+    transitions: z.array(transitionSchema).optional(),
+  })
+  .strict();
+
+const patientCaseSchema = z
+  .object({
+    age: z.number().min(0),
+    sex: z.enum(["male", "female", "other"]),
+    name: z.string().min(1),
+    chiefComplaint: z.string().min(1),
+    onset: z.string(),
+    associatedSymptoms: z.array(z.string()),
+    relevantPMH: z.array(z.string()),
+    medications: z.array(z.string()),
+    allergies: z.array(z.string()),
+    familyHistory: z.array(z.string()),
+    socialHistory: z.array(z.string()),
+    baselinePersonality: z.string(),
+    redFlags: z.array(z.string()),
+  })
+  .strict();
+
+const alarmLimitSchema = z
+  .object({
+    low: z.number().optional(),
+    high: z.number().optional(),
+    criticalLow: z.number().optional(),
+    criticalHigh: z.number().optional(),
+  })
+  .strict();
+
+const labValuesSchema = z.record(z.union([z.number(), z.string()]));
+
+/** Stage overrides are keyed by exact stage id, or phase id for complex scenarios */
+const labProfileSchema = z
+  .object({ values: labValuesSchema.optional(), stages: z.record(labValuesSchema).optional() })
+  .strict();
+
+const echoSpecSchema = z
+  .object({
+    impression: z.string().min(1),
+    lvef: z.number().min(0).max(100),
+    rvFunction: z.string(),
+    chambers: z.object({ lv: z.string(), rv: z.string(), la: z.string(), ra: z.string() }).strict(),
+    valves: z.object({ mitral: z.string(), tricuspid: z.string(), aortic: z.string(), pulmonary: z.string() }).strict(),
+    ductus: z.string(),
+    shunts: z.string(),
+    arch: z.string(),
+    coarctationGradientMmHg: z.number().min(0),
+    coronaries: z.object({ lmca: z.number(), lad: z.number(), rca: z.number() }).strict(),
+    pericardium: z.string(),
+    findings: z.array(z.string()),
+  })
+  .strict()
+  .partial();
+
+const echoProfileSchema = z
+  .object({
+    values: echoSpecSchema.optional(),
+    stages: z.record(echoSpecSchema).optional(),
+    media: z
+      .array(z.object({ kind: z.enum(["still", "loop"]), url: z.string().min(1), caption: z.string() }).strict())
+      .optional(),
+  })
+  .strict();
+
+const validPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, "i");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const rubricConditionSchema: z.ZodType<RubricCondition> = z.lazy(() =>
+  z.union([
+    z.object({ type: z.literal("said"), patterns: z.array(z.string().min(1).refine(validPattern, "invalid regex")).min(1) }).strict(),
+    z
+      .object({
+        type: z.literal("ordered"),
+        order: z.enum(["vitals", "ekg", "labs", "imaging", "echo", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
+        panel: z.enum(LAB_PANEL_IDS).optional(),
+        withinSeconds: z.number().positive().optional(),
+      })
+      .strict(),
+    z.object({ type: z.literal("treatment"), treatment: z.string().min(1), withinSeconds: z.number().positive().optional() }).strict(),
+    z.object({ type: z.literal("finding"), finding: z.string().min(1) }).strict(),
+    z.object({ type: z.literal("consult"), service: z.string().min(1) }).strict(),
+    z.object({ type: z.literal("flag"), flag: z.string().min(1) }).strict(),
+    z.object({ type: z.enum(["medication_error", "defib_error"]), critical: z.boolean().optional() }).strict(),
+    z
+      .object({
+        type: z.literal("value"),
+        path: z.string().min(1),
+        op: z.enum(["eq", "ne", "lt", "lte", "gt", "gte", "includes", "contains", "exists"]),
+        value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+        ref: z.string().min(1).optional(),
+      })
+      .strict()
+      .refine((c) => c.op === "exists" || (c.value === undefined) !== (c.ref === undefined), {
+        message: "value conditions need exactly one of value or ref",
+      }),
+    z.object({ type: z.enum(["some", "every"]), path: z.string().min(1), where: rubricConditionSchema }).strict(),
+    z.object({ type: z.literal("timeline"), event: z.string().min(1), match: z.string().min(1).optional() }).strict(),
+    z
+      .object({
+        type: z.literal("elapsed"),
+        from: z.string().min(1).optional(),
+        to: z.string().min(1).optional(),
+        op: z.enum(["lt", "lte", "gt", "gte"]),
+        seconds: z.number().min(0),
+      })
+      .strict(),
+    z.object({ type: z.literal("stage"), stageId: z.string().min(1) }).strict(),
+    z
+      .object({
+        type: z.literal("vital"),
+        vital: z.enum(["hr", "rr", "spo2", "temp", "sbp", "dbp"]),
+        op: z.enum(["lt", "lte", "gt", "gte"]),
+        value: z.number(),
+      })
+      .strict(),
+    z
+      .object({
+        type: z.literal("cpr"),
+        check: z.enum(["high_quality", "low_compression_fraction", "long_peri_shock_pause", "late_first_epi"]),
+      })
+      .strict(),
+    z.object({ any: z.array(rubricConditionSchema).min(1) }).strict(),
+    z.object({ all: z.array(rubricConditionSchema).min(1) }).strict(),
+    z.object({ not: rubricConditionSchema }).strict(),
+  ])
+);
+
+const rubricPointsSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().min(1),
+    points: z.number().int(),
+    when: rubricConditionSchema,
+  })
+  .strict();
+
+const rubricSchema = z
+  .object({
+    passThreshold: z.number().int().min(0),
+    checklist: z
+      .array(
+        z
+          .object({
+            id: z.string().min(1),
+            category: z.enum(["history", "exam", "diagnostics", "monitoring", "treatment", "communication", "disposition"]),
+            description: z.string().min(1),
+            explanation: z.string().min(1),
+            when: rubricConditionSchema,
+          })
+          .strict()
+      )
+      .min(1),
+    bonuses: z.array(rubricPointsSchema.refine((b) => b.points > 0, "bonus points must be positive")).optional(),
+    penalties: z.array(rubricPointsSchema.refine((p) => p.points < 0, "penalty points must be negative")).optional(),
+    feedback: z.object({ passed: z.string().min(1), failed: z.string().min(1) }).strict().optional(),
+  })
+  .strict()
+  .refine((rubric) => rubric.passThreshold <= rubric.checklist.length, {
+    message: "passThreshold cannot exceed the number of checklist items",
+    path: ["passThreshold"],
+  });
+
+const triggerSchema = z
+  .object({
+    id: z.string().min(1),
+    character: z.enum(["nurse", "parent", "patient"]),
+    when: rubricConditionSchema.optional(),
+    line: z.string().min(1),
+    variants: z.array(z.string().min(1)).optional(),
+    priority: z.enum(["critical", "high", "normal"]).optional(),
+    cooldownSeconds: z.number().min(0).optional(),
+    maxFires: z.number().int().positive().optional(),
+    vitalsDelta: z
+      .object({ hr: z.number().optional(), sbp: z.number().optional(), dbp: z.number().optional(), spo2: z.number().optional(), rr: z.number().optional() })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+const shockStageSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]);
+const stabilityLevelSchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]);
+
+const physiologyConditionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("fluids_ml_kg_in_window"), thresholdMlKg: z.number().positive(), windowMinutes: z.number().positive() }).strict(),
+  z.object({ type: z.literal("inotrope_running"), drug: z.enum(["epi", "milrinone", "both"]) }).strict(),
+  z
+    .object({
+      type: z.literal("inotrope_dose_gte"),
+      drug: z.enum(["epi", "milrinone", "dobutamine", "dopamine", "norepi"]),
+      doseMcgKgMin: z.number().min(0),
+    })
+    .strict(),
+  z.object({ type: z.literal("airway_intervention"), method: z.enum(["hfnc", "intubation"]) }).strict(),
+  z.object({ type: z.literal("intubation_induction"), agent: z.enum(["ketamine", "propofol"]) }).strict(),
+  z.object({ type: z.literal("pressor_at_bedside"), ready: z.boolean() }).strict(),
+  z.object({ type: z.literal("peep_gte"), peep: z.number().min(0) }).strict(),
+  z.object({ type: z.literal("shock_stage_gte"), stage: shockStageSchema }).strict(),
+  z.object({ type: z.literal("consult_called"), service: z.enum(["picu", "cardiology", "ecmo"]) }).strict(),
+  z.object({ type: z.literal("time_in_phase_gte"), minutes: z.number().min(0) }).strict(),
+  z.object({ type: z.literal("diagnostic_ordered"), test: z.string().min(1) }).strict(),
+  z
+    .object({
+      type: z.literal("vital_vs_age_norm"),
+      vital: z.enum(["hr", "rr", "sbp"]),
+      comparison: z.enum(["above", "below"]),
+      margin: z.number().optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal("age_band_in"), bands: z.array(z.enum(AGE_BANDS)).min(1) }).strict(),
+  z.object({ type: z.literal("treatment_given"), treatment: z.string().min(1), withinMinutes: z.number().positive().optional() }).strict(),
+  z.object({ type: z.literal("stage_is"), stageId: z.string().min(1) }).strict(),
+  z.object({ type: z.literal("flag_is"), flag: z.string().min(1), value: z.boolean() }).strict(),
+  z.object({ type: z.literal("vagal_attempted") }).strict(),
+  z.object({ type: z.literal("adenosine_given"), doseNumber: z.union([z.literal(1), z.literal(2)]) }).strict(),
+  z.object({ type: z.literal("adenosine_dose_range"), minMgKg: z.number().min(0), maxMgKg: z.number().min(0) }).strict(),
+  z.object({ type: z.literal("cardioversion_performed"), synchronized: z.boolean() }).strict(),
+  z.object({ type: z.literal("sedation_given") }).strict(),
+  z.object({ type: z.literal("stability_level_gte"), level: stabilityLevelSchema }).strict(),
+  z.object({ type: z.literal("rhythm_is"), rhythm: z.enum(["svt", "sinus"]) }).strict(),
+  z.object({ type: z.literal("converted") }).strict(),
+]);
+
+const physiologyEffectSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("vitals_delta"),
+      hr: z.number().optional(),
+      sbp: z.number().optional(),
+      dbp: z.number().optional(),
+      spo2: z.number().optional(),
+      rr: z.number().optional(),
+      scaleByAge: z.boolean().optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal("set_flag"), flag: z.string().min(1), value: z.boolean() }).strict(),
+  z.object({ type: z.literal("nurse_line"), line: z.string().min(1), priority: z.enum(["critical", "normal"]).optional() }).strict(),
+  z.object({ type: z.literal("advance_shock_stage"), to: shockStageSchema }).strict(),
+  z.object({ type: z.literal("advance_phase"), to: z.string().min(1) }).strict(),
+  z.object({ type: z.literal("trigger_code_blue") }).strict(),
+  z.object({ type: z.literal("advance_stage"), to: z.string().min(1) }).strict(),
+  z
+    .object({
+      type: z.literal("advance_svt_phase"),
+      to: z.enum(["presentation", "svt_onset", "treatment_window", "cardioversion_decision", "decompensating", "converted"]),
+    })
+    .strict(),
+  z.object({ type: z.literal("set_stability_level"), level: stabilityLevelSchema }).strict(),
+  z.object({ type: z.literal("convert_rhythm") }).strict(),
+  z.object({ type: z.literal("rebound_svt") }).strict(),
+]);
+
+const physiologyRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    conditions: z.array(physiologyConditionSchema),
+    conditionLogic: z.enum(["all", "any"]).optional(),
+    effects: z.array(physiologyEffectSchema).min(1),
+    delaySeconds: z.number().min(0).optional(),
+    cooldownSeconds: z.number().min(0).optional(),
+    maxTriggers: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const phaseSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    durationMinutes: z.number().positive().optional(),
+    vitals: stageVitalsSchema,
+    exam: stageExamSchema.optional(),
+    rhythm: rhythmSpecSchema.optional(),
+    drift: driftSchema.optional(),
+    shockStageRange: z.tuple([shockStageSchema, shockStageSchema]).optional(),
+    stabilityRange: z.tuple([stabilityLevelSchema, stabilityLevelSchema]).optional(),
+    transitions: z
+      .array(
+        z
+          .object({
+            to: z.string().min(1),
+            when: z.array(physiologyConditionSchema).min(1),
+            logic: z.enum(["all", "any"]).optional(),
+          })
+          .strict()
+      )
+      .optional(),
+  })
+  .strict();
+
+const characterSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    role: z.enum(["nurse", "parent", "patient", "consultant", "tech"]),
+    persona: z.string().min(1),
+    clarificationPrompts: z.record(z.string().min(1)).optional(),
+  })
+  .strict();
+
+export const scenarioFileSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9_]+$/, "id must be snake_case (a-z, 0-9, _)"),
+    version: z.string().min(1),
+    title: z.string().min(1).optional(),
+    description: z.string().min(1).optional(),
+    runtimeMinutes: z.number().positive().optional(),
+    persona: z.string().optional(),
+    demographics: z
+      .object({
+        ageYears: z.number().min(0),
+        ageMonths: z.number().min(0).max(11).optional(),
+        weightKg: z.number().positive(),
+        sex: z.enum(["male", "female"]).optional(),
+      })
+      .strict(),
+    initialStage: z.string().min(1).optional(),
+    stages: z.array(stageSchema).min(1).optional(),
+    initialPhase: z.string().min(1).optional(),
+    phases: z.array(phaseSchema).min(1).optional(),
+    characters: z.array(characterSchema).optional(),
+    physiologyRules: z.array(physiologyRuleSchema).optional(),
+    patientCase: patientCaseSchema.optional(),
+    alarmLimits: z
+      .object({
+        hr: alarmLimitSchema.optional(),
+        spo2: alarmLimitSchema.optional(),
+        sbp: alarmLimitSchema.optional(),
+        rr: alarmLimitSchema.optional(),
+        temp: alarmLimitSchema.optional(),
+      })
+      .strict()
+      .optional(),
+    labs: labProfileSchema.optional(),
+    echo: echoProfileSchema.optional(),
+    rubric: rubricSchema.optional(),
+    triggers: z.array(triggerSchema).optional(),
+  })
+  .strict()
+  .superRefine((file, ctx) => {
+    const issue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    const stageIds = new Set<string>();
+    file.stages?.forEach((stage, index) => {
+      if (stageIds.has(stage.id)) issue(["stages", index, "id"], `duplicate stage id "${stage.id}"`);
+      stageIds.add(stage.id);
+    });
+    const phaseIds = new Set<string>();
+    file.phases?.forEach((phase, index) => {
+      if (phaseIds.has(phase.id)) issue(["phases", index, "id"], `duplicate phase id "${phase.id}"`);
+      phaseIds.add(phase.id);
+    });
+
+    if (file.stages) {
+      if (!file.initialStage) issue(["initialStage"], "required when the scenario declares stages");
+      else if (!stageIds.has(file.initialStage)) issue(["initialStage"], `unknown stage "${file.initialStage}"`);
+    } else if (!file.phases) {
+      issue(["stages"], "a scenario needs stages or phases");
+    }
+    if (file.phases) {
+      if (!file.initialPhase) issue(["initialPhase"], "required when the scenario declares phases");
+      else if (!phaseIds.has(file.initialPhase)) issue(["initialPhase"], `unknown phase "${file.initialPhase}"`);
+      // A phase-only scenario runs on one stage named after its initial phase
+      if (!file.stages && file.initialPhase) stageIds.add(file.initialPhase);
+    }
+
+    const triggerIds = new Set<string>();
+    file.triggers?.forEach((trigger, index) => {
+      if (triggerIds.has(trigger.id)) issue(["triggers", index, "id"], `duplicate trigger id "${trigger.id}"`);
+      triggerIds.add(trigger.id);
+    });
+    file.stages?.forEach((stage, index) => {
+      stage.transitions?.forEach((transition, tIndex) => {
+        if (!stageIds.has(transition.to)) issue(["stages", index, "transitions", tIndex, "to"], `unknown stage "${transition.to}"`);
+      });
+      stage.allowedStages?.forEach((target, sIndex) => {
+        if (!stageIds.has(target)) issue(["stages", index, "allowedStages", sIndex], `unknown stage "${target}"`);
+      });
+    });
+    file.phases?.forEach((phase, index) => {
+      phase.transitions?.forEach((transition, tIndex) => {
+        if (!phaseIds.has(transition.to)) issue(["phases", index, "transitions", tIndex, "to"], `unknown phase "${transition.to}"`);
+      });
+    });
+    file.physiologyRules?.forEach((rule, index) => {
+      rule.effects.forEach((effect, eIndex) => {
+        if (effect.type === "advance_phase" && !phaseIds.has(effect.to)) {
+          issue(["physiologyRules", index, "effects", eIndex, "to"], `unknown phase "${effect.to}"`);
+        }
+        if (effect.type === "advance_stage" && !stageIds.has(effect.to)) {
+          issue(["physiologyRules", index, "effects", eIndex, "to"], `unknown stage "${effect.to}"`);
+        }
+      });
+    });
+    (["labs", "echo"] as const).forEach((key) => {
+      Object.keys(file[key]?.stages ?? {}).forEach((stepId) => {
+        if (!stageIds.has(stepId) && !phaseIds.has(stepId)) issue([key, "stages", stepId], `unknown stage or phase "${stepId}"`);
+      });
+    });
+  });
+
+export type ScenarioFile = z.infer<typeof scenarioFileSchema>;
+
+/** Formats zod issues as "path: message" lines for startup logs */
+export function formatScenarioIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path
+      .map((part) => (typeof part === "number" ? `[${part}]` : `.${part}`))
+      .join("")
+      .replace(/^\./, "");
+    return `${path || "(root)"}: ${issue.message}`;
+  });
+}
@@ -1,17 +1,18 @@
-export type ScenarioId =
-  | "syncope"
-  | "exertional_chest_pain"
-  | "palpitations_svt"
-  | "myocarditis"
-  | "exertional_syncope_hcm"
-  | "ductal_shock"
-  | "cyanotic_spell"
-  | "kawasaki"
-  | "coarctation_shock"
-  | "arrhythmogenic_syncope"
-  // Complex scenarios
-  | "peds_myocarditis_silent_crash_v1"
-  | "teen_svt_complex_v1";
+import type { PatientCase } from "../patientCase";
+import type { AgeBand } from "./ageNorms";
+import type { AlarmLimitOverrides } from "./alarmEngine";
+import type { EchoProfile } from "./echoReports";
+import type { LabProfile } from "./labPanels";
+import type { RhythmSpec } from "./rhythm";
+import type { ScenarioRubric } from "./rubric";
+import type { NpcTrigger } from "./triggers/types";
+
+/**
+ * Scenario id: a snake_case string checked by scenarioFileSchema when the file
+ * loads. Built-in and SCENARIO_DIR scenarios share the namespace, so this is not
+ * a fixed union; look ids up with scenarioRegistry.hasScenario.
+ */
+export type ScenarioId = string;
 
 export type ActionTrigger =
   | { action: "asked_about_exertion" }
@@ -33,8 +34,10 @@ export type StageDef = {
     lungs?: string;
     perfusion?: string;
     neuro?: string;
+    heartAudioUrl?: string;
+    lungAudioUrl?: string;
   };
-  rhythm?: string;
+  rhythm?: RhythmSpec;
   drift?: {
     hrPerMin?: number;
     spo2PerMin?: number;
@@ -57,13 +60,38 @@ export type PatientDemographics = {
 export type ScenarioDef = {
   id: ScenarioId;
   version: string;
+  title?: string;
+  description?: string;
+  runtimeMinutes?: number;
   persona?: string;
   /** Patient demographics for weight-based dosing */
   demographics: PatientDemographics;
   stages: StageDef[];
   initialStage: string;
+  /** Phases of a complex scenario (progress is tracked in extended state) */
+  phases?: PhaseDef[];
+  initialPhase?: string;
+  /** Patient, parent and nurse personas of a complex scenario */
+  characters?: ScenarioCharacter[];
+  /** Deterministic responses to treatment, evaluated by physiologyEngine.ts */
+  physiologyRules?: PhysiologyRule[];
+  /** Case details for the patient persona; scenarios without one use the default case */
+  patientCase?: ScenarioPatientCase;
+  /** Monitor alarm limits that differ from the PALS age-band defaults */
+  alarmLimits?: AlarmLimitOverrides;
+  /** Lab values over the age-normal baseline, per stage or phase */
+  labs?: LabProfile;
+  /** Echo findings over a structurally normal study, per stage or phase */
+  echo?: EchoProfile;
+  /** Checklist, bonuses and penalties the debrief scores the session against */
+  rubric?: ScenarioRubric;
+  /** Nurse, parent and patient lines fired by sim/triggers/runtime.ts */
+  triggers?: NpcTrigger[];
 };
 
+/** PatientCase fields authored in a scenario file (id/scenarioId are filled per session) */
+export type ScenarioPatientCase = Omit<PatientCase, "id" | "scenarioId">;
+
 // ============================================================================
 // Complex Scenario Types (Phase-Based with Physiology Engine)
 // ============================================================================
@@ -90,7 +118,7 @@ export type SVTPhase =
 export type PhysiologyCondition =
   | { type: "fluids_ml_kg_in_window"; thresholdMlKg: number; windowMinutes: number }
   | { type: "inotrope_running"; drug: "epi" | "milrinone" | "both" }
-  | { type: "inotrope_dose_gte"; drug: "epi"; doseMcgKgMin: number }
+  | { type: "inotrope_dose_gte"; drug: "epi" | "milrinone" | "dobutamine" | "dopamine" | "norepi"; doseMcgKgMin: number }
   | { type: "airway_intervention"; method: "hfnc" | "intubation" }
   | { type: "intubation_induction"; agent: "ketamine" | "propofol" }
   | { type: "pressor_at_bedside"; ready: boolean }
@@ -99,27 +127,44 @@ export type PhysiologyCondition =
   | { type: "consult_called"; service: "picu" | "cardiology" | "ecmo" }
   | { type: "time_in_phase_gte"; minutes: number }
   | { type: "diagnostic_ordered"; test: string }
+  // Demographic conditions (evaluated against the running scenario's patient)
+  | { type: "vital_vs_age_norm"; vital: "hr" | "rr" | "sbp"; comparison: "above" | "below"; margin?: number }
+  | { type: "age_band_in"; bands: AgeBand[] }
+  // Generic conditions (simple stage-based scenarios)
+  | { type: "treatment_given"; treatment: string; withinMinutes?: number }
+  | { type: "stage_is"; stageId: string }
+  | { type: "flag_is"; flag: string; value: boolean }
   // SVT-specific conditions
   | { type: "vagal_attempted" }
   | { type: "adenosine_given"; doseNumber: 1 | 2 }
   | { type: "adenosine_dose_range"; minMgKg: number; maxMgKg: number }
   | { type: "cardioversion_performed"; synchronized: boolean }
   | { type: "sedation_given" }
-  | { type: "stability_level_gte"; level: 1 | 2 | 3 | 4 }
+  | { type: "stability_level_gte"; level: StabilityLevel }
   | { type: "rhythm_is"; rhythm: "svt" | "sinus" }
   | { type: "converted" };
 
 /** Physiology rule effect */
 export type PhysiologyEffect =
-  | { type: "vitals_delta"; hr?: number; sbp?: number; dbp?: number; spo2?: number; rr?: number }
+  | {
+      type: "vitals_delta";
+      hr?: number;
+      sbp?: number;
+      dbp?: number;
+      spo2?: number;
+      rr?: number;
+      /** Scale hr/rr/bp deltas by the patient's age-normal range relative to a school-age child */
+      scaleByAge?: boolean;
+    }
   | { type: "set_flag"; flag: string; value: boolean }
   | { type: "nurse_line"; line: string; priority?: "critical" | "normal" }
   | { type: "advance_shock_stage"; to: ShockStage }
-  | { type: "advance_phase"; to: MyocarditisPhase }
+  | { type: "advance_phase"; to: string }
   | { type: "trigger_code_blue" }
+  | { type: "advance_stage"; to: string }
   // SVT-specific effects
   | { type: "advance_svt_phase"; to: SVTPhase }
-  | { type: "set_stability_level"; level: 1 | 2 | 3 | 4 }
+  | { type: "set_stability_level"; level: StabilityLevel }
   | { type: "convert_rhythm" }
   | { type: "rebound_svt" };
 
@@ -135,64 +180,36 @@ export type PhysiologyRule = {
   maxTriggers?: number; // limit how many times this can fire
 };
 
-/** Phase definition for complex scenarios */
+/** Phase of a complex scenario: the patient's picture while extended state is in it */
 export type PhaseDef = {
-  id: MyocarditisPhase;
+  id: string;
   name: string;
-  durationMinutes?: number; // auto-advance after this time (if set)
-  vitalsTarget: { hr: number; bp: string; rr: number; spo2: number };
-  examFindings: {
-    general?: string;
-    cardio?: string;
-    lungs?: string;
-    perfusion?: string;
-    neuro?: string;
-  };
-  rhythmSummary?: string;
-  shockStageRange?: [ShockStage, ShockStage]; // valid shock stages for this phase
-  drift?: {
-    hrPerMin?: number;
-    spo2PerMin?: number;
-    sbpPerMin?: number;
-    dbpPerMin?: number;
-  };
-  nurseTriggers?: { condition: string; line: string }[];
-  autoTransitions?: { to: MyocarditisPhase; when: PhysiologyCondition[] }[];
+  durationMinutes?: number;
+  vitals: { hr: number; bp: string; rr?: number; spo2?: number; temp?: number };
+  exam?: StageDef["exam"];
+  rhythm?: RhythmSpec;
+  drift?: StageDef["drift"];
+  /** Shock stages the phase spans (myocarditis) */
+  shockStageRange?: [ShockStage, ShockStage];
+  /** Stability levels the phase spans (SVT) */
+  stabilityRange?: [StabilityLevel, StabilityLevel];
+  transitions?: PhaseTransition[];
+};
+
+export type StabilityLevel = 1 | 2 | 3 | 4;
+
+export type PhaseTransition = {
+  to: string;
+  when: PhysiologyCondition[];
+  /** How the conditions combine (default "all") */
+  logic?: "all" | "any";
 };
 
 /** Characters for complex scenarios */
-export type ComplexCharacter = {
+export type ScenarioCharacter = {
   id: string;
   name: string;
   role: "nurse" | "parent" | "patient" | "consultant" | "tech";
   persona: string;
   clarificationPrompts?: Record<string, string>; // order type → clarification question
 };
-
-/** Complex scenario definition (extends base ScenarioDef concept) */
-export type ComplexScenarioDef = {
-  id: ScenarioId;
-  version: string;
-  scenarioType: "complex";
-  title: string;
-  description: string;
-  runtimeMinutes: number;
-  demographics: PatientDemographics;
-  characters: ComplexCharacter[];
-  phases: PhaseDef[];
-  initialPhase: MyocarditisPhase;
-  physiologyRules: PhysiologyRule[];
-  scoringConfig: {
-    passingThreshold: number; // e.g., 4 out of 5
-    checklistItems: { id: string; description: string; points: number }[];
-    bonuses: { id: string; description: string; points: number; condition: string }[];
-    penalties: { id: string; description: string; points: number; condition: string }[];
-  };
-};
-
-/** Type guard for complex scenarios */
-export function isComplexScenario(
-  def: ScenarioDef | ComplexScenarioDef
-): def is ComplexScenarioDef {
-  return "scenarioType" in def && def.scenarioType === "complex";
-}
@@ -9,9 +9,11 @@
  * - Avoid fluid overload in cardiogenic shock
  * - Safe intubation with pressor backup
  * - Early PICU/cardiology involvement
+ *
+ * Phases, characters and physiology rules are declared in
+ * scenarios/peds_myocarditis_silent_crash_v1.json.
  */
 
-export { silentCrashScenario } from "./definition";
 export {
   getResult,
   getNurseOrderAcknowledgment,
@@ -19,20 +21,6 @@ export {
   type ResultType,
   type LabResult,
 } from "./results";
-export {
-  NURSE_TRIGGERS,
-  PARENT_TRIGGERS,
-  PATIENT_TRIGGERS,
-  evaluateNurseTriggers,
-  evaluateParentTriggers,
-  evaluatePatientTriggers,
-  getNextTrigger,
-  type NurseTrigger,
-  type ParentTrigger,
-  type PatientTrigger,
-  type FiredTrigger,
-  type TriggerPriority,
-} from "./triggers";
 export {
   CHECKLIST_ITEMS,
   BONUS_ITEMS,
@@ -45,6 +33,11 @@ export {
   type PenaltyItem,
   type ScoreResult,
 } from "./scoring";
+export {
+  recordMyocarditisTreatment,
+  runMyocarditisPhysiology,
+  type MyocarditisPhysiologyOutcome,
+} from "./physiology";
 
 // Re-export types for convenience
 export type {
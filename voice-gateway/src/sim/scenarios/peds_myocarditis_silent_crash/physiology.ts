@@ -0,0 +1,116 @@
+/**
+ * Runtime physiology for "The Silent Crash".
+ *
+ * The scenario file declares the physiology rules and the phase transitions.
+ * Both are evaluated here against the patient's PhysiologyContext on every
+ * heartbeat and after each treatment, as runGenericPhysiology does for the
+ * simple scenarios.
+ */
+
+import { applyVitalsDelta, normalizeTreatment } from "../../genericPhysiology";
+import { evaluatePhysiology, physiologyConditionsMet } from "../../physiologyEngine";
+import type { ScenarioEngine } from "../../scenarioEngine";
+import type { MyocarditisPhase, PhaseDef, ShockStage } from "../../scenarioTypes";
+import type { MyocarditisExtendedState } from "../../types";
+import { hasMyocarditisExtended } from "../../types";
+
+/** Outcome of one physiology pass, for broadcasting and logging */
+export type MyocarditisPhysiologyOutcome = {
+  triggeredRules: string[];
+  nurseLine?: string;
+  phaseChangedTo?: string;
+  shockStage?: ShockStage;
+};
+
+/**
+ * Record a treatment for `treatment_given` conditions. Fluid boluses are also
+ * tracked as FluidBolus entries so mL/kg window rules see them.
+ */
+export function recordMyocarditisTreatment(
+  ext: MyocarditisExtendedState,
+  treatmentType: string,
+  opts: { dose?: number; weightKg: number },
+  nowMs: number = Date.now()
+): MyocarditisExtendedState {
+  const treatment = normalizeTreatment(treatmentType);
+  const next: MyocarditisExtendedState = {
+    ...ext,
+    treatments: [...(ext.treatments ?? []), { ts: nowMs, treatment, ...(opts.dose !== undefined && { dose: opts.dose }) }],
+    timelineEvents: [...ext.timelineEvents, { ts: nowMs, type: "intervention", description: `Treatment: ${treatment}` }],
+  };
+  if (treatment === "fluids") {
+    const totalMl = opts.dose ?? Math.round(20 * opts.weightKg);
+    const mlKg = totalMl / opts.weightKg;
+    next.fluids = [...ext.fluids, { ts: nowMs, mlKg, totalMl, type: "NS" }];
+    next.totalFluidsMlKg = ext.totalFluidsMlKg + mlKg;
+  }
+  return next;
+}
+
+/** The first declared transition out of the current phase whose conditions hold */
+function nextPhase(
+  phase: PhaseDef | undefined,
+  engine: ScenarioEngine,
+  ext: MyocarditisExtendedState,
+  nowMs: number
+): string | undefined {
+  const state = engine.getState();
+  const context = engine.getPhysiologyContext();
+  return phase?.transitions?.find((t) => physiologyConditionsMet(t.when, t.logic ?? "all", state, ext, nowMs, context))?.to;
+}
+
+/**
+ * Evaluate the scenario's rules and phase transitions and apply the result to
+ * the engine: phase changes first (they reset vitals to the phase targets),
+ * then vitals deltas and flags. Returns null outside the myocarditis scenario.
+ */
+export function runMyocarditisPhysiology(
+  engine: ScenarioEngine,
+  nowMs: number = engine.now()
+): MyocarditisPhysiologyOutcome | null {
+  const state = engine.getState();
+  if (!hasMyocarditisExtended(state)) return null;
+  const rules = engine.getScenarioDef().physiologyRules ?? [];
+
+  // evaluatePhysiology mutates rule tracking, so work on a copy
+  const ext: MyocarditisExtendedState = {
+    ...state.extended,
+    ruleTriggers: state.extended.ruleTriggers.map((t) => ({ ...t })),
+    pendingEffects: [...state.extended.pendingEffects],
+  };
+  const result = evaluatePhysiology(state, ext, rules, nowMs, engine.getPhysiologyContext());
+  const outcome: MyocarditisPhysiologyOutcome = { triggeredRules: result.triggeredRules, nurseLine: result.nurseLine };
+  const timeline = [...ext.timelineEvents];
+
+  if (result.shouldAdvanceShockStage && result.shouldAdvanceShockStage > ext.shockStage) {
+    ext.shockStage = result.shouldAdvanceShockStage;
+    ext.shockStageEnteredAt = nowMs;
+    outcome.shockStage = ext.shockStage;
+    timeline.push({ ts: nowMs, type: "deterioration", description: `Shock stage ${ext.shockStage}` });
+  }
+
+  const target = result.shouldAdvancePhase ?? nextPhase(engine.getPhaseDef(ext.phase), engine, ext, nowMs);
+  const phase = target && target !== ext.phase ? engine.enterPhase(target) : undefined;
+  if (phase) {
+    ext.phase = phase.id as MyocarditisPhase;
+    ext.phaseEnteredAt = nowMs;
+    outcome.phaseChangedTo = phase.id;
+    timeline.push({ ts: nowMs, type: "phase_change", description: `Phase → ${phase.name}` });
+    const [minStage] = phase.shockStageRange ?? [ext.shockStage];
+    if (minStage > ext.shockStage) {
+      ext.shockStage = minStage;
+      ext.shockStageEnteredAt = nowMs;
+      outcome.shockStage = minStage;
+    }
+  }
+
+  if (result.vitalsDelta && Object.values(result.vitalsDelta).some((v) => v)) {
+    engine.setVitals(applyVitalsDelta(engine.getState().vitals, result.vitalsDelta));
+  }
+  engine.updateExtended({
+    ...ext,
+    flags: { ...ext.flags, ...result.flagsToSet },
+    timelineEvents: timeline,
+  });
+  return outcome;
+}
@@ -10,17 +10,11 @@
  * - Proper adenosine dosing (0.1 mg/kg rapid push with flush)
  * - Decision-making for stable vs unstable SVT
  * - Safe sedation before cardioversion
+ *
+ * Phases and characters are declared in scenarios/teen_svt_complex_v1.json.
  */
 
-export {
-  svtComplexScenario,
-  SVT_PHASES,
-  SVT_CHARACTERS,
-  SVT_SCORING_CONFIG,
-  createInitialSVTState,
-  type SVTPhaseDef,
-  type SVTCharacter,
-} from "./definition";
+export { createInitialSVTState } from "../../physiologyEngine";
 
 export {
   getResult,
@@ -30,22 +24,6 @@ export {
   type LabResult,
 } from "./results";
 
-export {
-  NURSE_TRIGGERS,
-  PARENT_TRIGGERS,
-  PATIENT_TRIGGERS,
-  evaluateNurseTriggers,
-  evaluateParentTriggers,
-  evaluatePatientTriggers,
-  getNextTrigger,
-  type NurseTrigger,
-  type ParentTrigger,
-  type PatientTrigger,
-  type FiredTrigger,
-  type TriggerPriority,
-  type TriggerHistory,
-} from "./triggers";
-
 export {
   CHECKLIST_ITEMS,
   BONUS_ITEMS,
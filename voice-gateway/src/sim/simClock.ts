@@ -0,0 +1,65 @@
+/**
+ * Clock and random source for a simulation session.
+ *
+ * Live sessions read wall-clock time and draw from a per-session RNG seeded at
+ * runtime creation. The seed goes into the session recording, so a replay with
+ * a manual clock set to the recorded timestamps makes the same draws (order
+ * delays, vagal conversion) at the same simulated times.
+ */
+
+export type SimClock = {
+  now(): number;
+};
+
+export type SimRandom = {
+  readonly seed: number;
+  /** Uniform in [0, 1) */
+  next(): number;
+};
+
+export const systemClock: SimClock = {
+  now: () => Date.now(),
+};
+
+/** Clock that only moves when told to (replay and tests) */
+export type ManualClock = SimClock & {
+  set(ms: number): void;
+  advance(ms: number): void;
+};
+
+export function createManualClock(startMs: number): ManualClock {
+  let current = startMs;
+  return {
+    now: () => current,
+    set: (ms) => {
+      current = ms;
+    },
+    advance: (ms) => {
+      current += ms;
+    },
+  };
+}
+
+/** Mulberry32: small, fast and good enough for simulation draws */
+export function createSeededRandom(seed: number): SimRandom {
+  let a = seed >>> 0;
+  return {
+    seed: seed >>> 0,
+    next: () => {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/** Draw from the session RNG, or Math.random when the session has none */
+export function nextRandom(rng?: SimRandom): number {
+  return rng ? rng.next() : Math.random();
+}
@@ -0,0 +1,311 @@
+/**
+ * Resuscitation team roles.
+ *
+ * Participants claim (or are handed) one of the code-team roles: team leader,
+ * airway, compressions, medications or recorder. Each role has a scope of
+ * orders, treatments and bedside actions the participant view offers; the
+ * gateway attributes every order and treatment to the role of whoever asked
+ * for it and keeps a log of who did what, which the debrief reads for role
+ * coverage.
+ */
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+export const TEAM_ROLES = ["team_leader", "airway", "compressions", "medications", "recorder"] as const;
+
+export type TeamRole = (typeof TEAM_ROLES)[number];
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  team_leader: "Team leader",
+  airway: "Airway",
+  compressions: "Compressions",
+  medications: "Medications",
+  recorder: "Recorder",
+};
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === "string" && (TEAM_ROLES as readonly string[]).includes(value);
+}
+
+/** Who asked for an order or treatment, as recorded in the sim history */
+export type TeamActor = {
+  id: string;
+  name: string;
+  role: string;
+  teamRole?: TeamRole;
+};
+
+// ============================================================================
+// Scopes
+// ============================================================================
+
+/** Order types a participant can place (mirrors OrderType in orders.ts) */
+export const TEAM_ORDER_TYPES = [
+  "vitals",
+  "ekg",
+  "labs",
+  "imaging",
+  "echo",
+  "cardiac_exam",
+  "lung_exam",
+  "general_exam",
+  "iv_access",
+] as const;
+
+export type TeamOrderType = (typeof TEAM_ORDER_TYPES)[number];
+
+export type TreatmentCategory = "airway" | "compressions" | "electrical" | "medication" | "access" | "procedure";
+
+/** Quick actions in the participant view */
+export type BedsideAction = "exam" | "telemetry" | "ekg" | "defib";
+
+export type TeamRoleScope = {
+  orders: readonly TeamOrderType[];
+  treatments: readonly TreatmentCategory[];
+  bedside: readonly BedsideAction[];
+};
+
+/**
+ * What each role may do. The leader can step in anywhere on a small team; the
+ * debrief calls out a leader who ends up hands-on while the role was staffed.
+ */
+export const TEAM_ROLE_SCOPES: Record<TeamRole, TeamRoleScope> = {
+  team_leader: {
+    orders: TEAM_ORDER_TYPES,
+    treatments: ["airway", "compressions", "electrical", "medication", "access", "procedure"],
+    bedside: ["exam", "telemetry", "ekg", "defib"],
+  },
+  airway: {
+    orders: ["vitals", "lung_exam", "imaging"],
+    treatments: ["airway", "procedure"],
+    bedside: ["exam", "telemetry", "ekg"],
+  },
+  compressions: {
+    orders: ["cardiac_exam"],
+    treatments: ["compressions", "electrical"],
+    bedside: ["ekg", "defib"],
+  },
+  medications: {
+    orders: ["iv_access", "labs"],
+    treatments: ["medication", "access"],
+    bedside: ["telemetry", "ekg"],
+  },
+  recorder: {
+    orders: ["vitals"],
+    treatments: [],
+    bedside: ["ekg"],
+  },
+};
+
+const TREATMENT_CATEGORIES: Record<string, TreatmentCategory> = {
+  oxygen: "airway",
+  o2: "airway",
+  position: "airway",
+  "knee-chest": "airway",
+  intubation: "airway",
+  bvm: "airway",
+  suction: "airway",
+  cpr: "compressions",
+  cardioversion: "electrical",
+  sync_cardioversion: "electrical",
+  defibrillation: "electrical",
+  defib: "electrical",
+  defib_pads: "electrical",
+  pads: "electrical",
+  pacing: "electrical",
+  monitor: "electrical",
+  cardiac_monitor: "electrical",
+  iv: "access",
+  iv_access: "access",
+  io: "access",
+  vagal: "procedure",
+  vagal_maneuver: "procedure",
+  ng_tube: "procedure",
+  ng: "procedure",
+  nasogastric: "procedure",
+  foley: "procedure",
+};
+
+/** Treatment names not listed above are drugs or fluids */
+export function treatmentCategory(treatmentType: string): TreatmentCategory {
+  return TREATMENT_CATEGORIES[treatmentType.toLowerCase()] ?? "medication";
+}
+
+/** An order, treatment or device action to check against a role */
+export type TeamAction =
+  | { kind: "order"; orderType: string }
+  | { kind: "treatment"; treatmentType: string }
+  | { kind: "bedside"; action: BedsideAction };
+
+/** Whether this role covers the action; no role means no team roles are in play */
+export function canPerform(teamRole: TeamRole | undefined, action: TeamAction): boolean {
+  if (!teamRole) return true;
+  const scope = TEAM_ROLE_SCOPES[teamRole];
+  switch (action.kind) {
+    case "order":
+      return (scope.orders as readonly string[]).includes(action.orderType);
+    case "treatment":
+      return scope.treatments.includes(treatmentCategory(action.treatmentType));
+    case "bedside":
+      return scope.bedside.includes(action.action);
+  }
+}
+
+/** The role that owns a treatment category, for spotting a hands-on leader */
+function owningRole(category: TreatmentCategory): TeamRole {
+  switch (category) {
+    case "airway":
+    case "procedure":
+      return "airway";
+    case "compressions":
+    case "electrical":
+      return "compressions";
+    case "medication":
+    case "access":
+      return "medications";
+  }
+}
+
+// ============================================================================
+// Roster
+// ============================================================================
+
+export type TeamMember = {
+  userId: string;
+  name: string;
+  teamRole: TeamRole;
+  /** Claimed by the participant, or handed out by the presenter or auto-assign */
+  assignedBy: "self" | "presenter" | "auto";
+  since: number;
+};
+
+/** An order or treatment attributed to whoever asked for it */
+export type TeamActionRecord = {
+  ts: number;
+  userId: string;
+  name: string;
+  teamRole?: TeamRole;
+  kind: "order" | "treatment" | "device";
+  /** Order type, treatment type or device action */
+  action: string;
+  /** False when the action falls outside the actor's role */
+  inScope: boolean;
+};
+
+/** Per-session roster, role changes and attributed actions, kept on the runtime */
+export type TeamRoster = {
+  members: TeamMember[];
+  /** Every claim and release, in order; null when the user gave up their role */
+  assignments: { ts: number; userId: string; name: string; teamRole: TeamRole | null }[];
+  actions: TeamActionRecord[];
+};
+
+export function createTeamRoster(): TeamRoster {
+  return { members: [], assignments: [], actions: [] };
+}
+
+export function teamRoleOf(roster: TeamRoster | undefined, userId: string): TeamRole | undefined {
+  return roster?.members.find((m) => m.userId === userId)?.teamRole;
+}
+
+/** First role nobody holds, in TEAM_ROLES order */
+export function nextOpenRole(roster: TeamRoster): TeamRole | undefined {
+  return TEAM_ROLES.find((role) => !roster.members.some((m) => m.teamRole === role));
+}
+
+export type TeamRoleRequest = {
+  userId: string;
+  name: string;
+  /** A specific role, "auto" for the first open one, or null to step down */
+  teamRole: TeamRole | "auto" | null;
+  assignedBy: "self" | "presenter";
+};
+
+export type TeamRoleResult = { ok: true; teamRole: TeamRole | null } | { ok: false; reason: "role_taken" | "no_open_role" };
+
+/**
+ * Apply a claim, assignment or release. Each role has one holder and each
+ * participant one role; taking a new role gives up the old one. A participant
+ * cannot take a role someone else holds, but the presenter can reassign it.
+ */
+export function applyTeamRoleRequest(roster: TeamRoster, request: TeamRoleRequest, ts: number): TeamRoleResult {
+  const current = roster.members.find((m) => m.userId === request.userId);
+  if (request.teamRole === null) {
+    if (!current) return { ok: true, teamRole: null };
+    roster.members = roster.members.filter((m) => m.userId !== request.userId);
+    roster.assignments.push({ ts, userId: request.userId, name: request.name, teamRole: null });
+    return { ok: true, teamRole: null };
+  }
+
+  const auto = request.teamRole === "auto";
+  const teamRole = request.teamRole === "auto" ? (current?.teamRole ?? nextOpenRole(roster)) : request.teamRole;
+  if (!teamRole) return { ok: false, reason: "no_open_role" };
+  if (current?.teamRole === teamRole) return { ok: true, teamRole };
+
+  const holder = roster.members.find((m) => m.teamRole === teamRole);
+  if (holder && request.assignedBy !== "presenter") return { ok: false, reason: "role_taken" };
+  if (holder) {
+    roster.assignments.push({ ts, userId: holder.userId, name: holder.name, teamRole: null });
+  }
+  roster.members = [
+    ...roster.members.filter((m) => m.userId !== request.userId && m.userId !== holder?.userId),
+    { userId: request.userId, name: request.name, teamRole, assignedBy: auto ? "auto" : request.assignedBy, since: ts },
+  ];
+  roster.assignments.push({ ts, userId: request.userId, name: request.name, teamRole });
+  return { ok: true, teamRole };
+}
+
+/** Log an attributed action, checking it against the actor's role */
+export function recordTeamAction(
+  roster: TeamRoster,
+  entry: Omit<TeamActionRecord, "inScope">,
+  action: TeamAction
+): TeamActionRecord {
+  const record = { ...entry, inScope: canPerform(entry.teamRole, action) };
+  roster.actions.push(record);
+  return record;
+}
+
+// ============================================================================
+// Coverage
+// ============================================================================
+
+export type RoleCoverageSummary = {
+  /** Roles someone held at any point */
+  filled: TeamRole[];
+  unfilled: TeamRole[];
+  actionsByRole: Record<TeamRole, number>;
+  outOfScope: TeamActionRecord[];
+  /** Actions by people with no role while roles were in use */
+  unattributed: number;
+  /** Treatments the leader did while the role that owns them was staffed */
+  leaderHandsOn: TeamActionRecord[];
+  assignments: TeamRoster["assignments"];
+};
+
+/** Role coverage for the debrief; null when no one ever took a role */
+export function summarizeRoleCoverage(roster: TeamRoster | undefined): RoleCoverageSummary | null {
+  if (!roster || roster.assignments.length === 0) return null;
+  const filled = TEAM_ROLES.filter((role) => roster.assignments.some((a) => a.teamRole === role));
+  const actionsByRole = Object.fromEntries(TEAM_ROLES.map((role) => [role, 0])) as Record<TeamRole, number>;
+  roster.actions.forEach((a) => {
+    if (a.teamRole) actionsByRole[a.teamRole] += 1;
+  });
+  return {
+    filled,
+    unfilled: TEAM_ROLES.filter((role) => !filled.includes(role)),
+    actionsByRole,
+    outOfScope: roster.actions.filter((a) => !a.inScope),
+    unattributed: roster.actions.filter((a) => !a.teamRole).length,
+    leaderHandsOn: roster.actions.filter(
+      (a) => a.teamRole === "team_leader" && a.kind !== "order" && filled.includes(owningRole(categoryOf(a)))
+    ),
+    assignments: roster.assignments,
+  };
+}
+
+function categoryOf(record: TeamActionRecord): TreatmentCategory {
+  return record.kind === "device" ? "electrical" : treatmentCategory(record.action);
+}
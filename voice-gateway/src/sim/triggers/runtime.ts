@@ -0,0 +1,140 @@
+/**
+ * NPC trigger runtime.
+ *
+ * Evaluates a scenario's declarative triggers (sim/triggers/types.ts) for any
+ * scenario, simple or complex: conditions are rubric conditions against the
+ * live state, cooldowns and fire limits come from the session's trigger
+ * history, and at most one line is spoken per heartbeat. Nurse lines always
+ * speak, most urgent first; a parent or patient line interjects only some of
+ * the time. A trigger's line and its variants rotate from a per-session
+ * offset drawn from the session RNG, so repeat runs of a scenario don't open
+ * with the same wording.
+ */
+
+import { evaluateRubricCondition, type RubricContext } from "../rubric";
+import { applyVitalsDelta } from "../genericPhysiology";
+import { getScenarioDef } from "../scenarioRegistry";
+import type { ScenarioEngine } from "../scenarioEngine";
+import { nextRandom, type SimRandom } from "../simClock";
+import type { SimState } from "../types";
+import {
+  recordTriggerFire,
+  shouldFireTrigger,
+  type FiredTrigger,
+  type NpcTrigger,
+  type TriggerCharacter,
+  type TriggerHistory,
+  type TriggerPriority,
+} from "./types";
+
+// ============================================================================
+// Session State
+// ============================================================================
+
+/** Per-session trigger bookkeeping, kept on the runtime */
+export type NpcTriggerState = {
+  history: TriggerHistory;
+  /** Where line rotation starts this session */
+  offset: number;
+};
+
+export function createNpcTriggerState(rng?: SimRandom): NpcTriggerState {
+  return { history: {}, offset: Math.floor(nextRandom(rng) * 1000) };
+}
+
+/** Chance that an eligible parent or patient line interjects on a heartbeat */
+export const INTERJECTION_CHANCE = 0.3;
+
+const PRIORITY_ORDER: Record<TriggerPriority, number> = { critical: 0, high: 1, normal: 2 };
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** The line a trigger speaks on its next firing */
+export function triggerLine(trigger: NpcTrigger, fireCount: number, offset = 0): string {
+  const lines = [trigger.line, ...(trigger.variants ?? [])];
+  return lines[(offset + fireCount) % lines.length];
+}
+
+/**
+ * Triggers whose condition holds and that are off cooldown and under their
+ * fire limit, most urgent first (ties keep scenario-file order).
+ */
+export function evaluateTriggers(
+  triggers: NpcTrigger[],
+  ctx: RubricContext,
+  history: TriggerHistory,
+  options: { now: number; character?: TriggerCharacter; offset?: number }
+): FiredTrigger[] {
+  return triggers
+    .filter((trigger) => options.character === undefined || trigger.character === options.character)
+    .filter((trigger) => shouldFireTrigger(trigger, history, options.now))
+    .filter((trigger) => trigger.when === undefined || evaluateRubricCondition(trigger.when, ctx))
+    .map((trigger) => ({
+      triggerId: trigger.id,
+      character: trigger.character,
+      line: triggerLine(trigger, history[trigger.id]?.fireCount ?? 0, options.offset),
+      priority: trigger.priority ?? "normal",
+      ...(trigger.vitalsDelta ? { vitalsDelta: trigger.vitalsDelta } : {}),
+    }))
+    .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+}
+
+/**
+ * Pick the one line to speak: the most urgent nurse line, else the first
+ * parent line and then the first patient line, each interjecting with
+ * INTERJECTION_CHANCE.
+ */
+export function pickNextTrigger(fired: FiredTrigger[], random: () => number = Math.random): FiredTrigger | null {
+  const nurse = fired.find((t) => t.character === "nurse");
+  if (nurse) return nurse;
+  for (const character of ["parent", "patient"] as const) {
+    const line = fired.find((t) => t.character === character);
+    if (line && random() < INTERJECTION_CHANCE) return line;
+  }
+  return null;
+}
+
+// ============================================================================
+// Live Sessions
+// ============================================================================
+
+/** The scenario's triggers as currently loaded */
+export function getScenarioTriggers(scenarioId: string): NpcTrigger[] {
+  return getScenarioDef(scenarioId)?.triggers ?? [];
+}
+
+/** Context for evaluating triggers against a live session */
+export function triggerContext(state: SimState, nowMs: number): RubricContext {
+  return {
+    state,
+    turns: [],
+    scenarioStartTime: state.scenarioStartedAt ?? state.extended?.scenarioStartedAt ?? nowMs,
+    nowMs,
+  };
+}
+
+/**
+ * One heartbeat of NPC triggers: pick at most one line, record it in the
+ * session's history and apply its vitals change. Returns the line to
+ * broadcast, or null when nothing fires.
+ */
+export function runNpcTriggers(
+  engine: ScenarioEngine,
+  npc: NpcTriggerState,
+  rng?: SimRandom,
+  nowMs: number = engine.now()
+): FiredTrigger | null {
+  const state = engine.getState();
+  const triggers = getScenarioTriggers(state.scenarioId);
+  if (triggers.length === 0) return null;
+
+  const fired = evaluateTriggers(triggers, triggerContext(state, nowMs), npc.history, { now: nowMs, offset: npc.offset });
+  const next = pickNextTrigger(fired, () => nextRandom(rng));
+  if (!next) return null;
+
+  npc.history = recordTriggerFire(npc.history, next.triggerId, nowMs);
+  if (next.vitalsDelta) engine.setVitals(applyVitalsDelta(engine.getState().vitals, next.vitalsDelta));
+  return next;
+}
@@ -1,64 +1,76 @@
 /**
  * Shared trigger types for scenario-based NPC interjections.
  *
- * These types define the structure for deterministic character lines
- * that fire based on scenario state conditions. The lines are NOT AI-generated -
- * they are safety-critical clinical information.
- *
- * @template TState - The extended state type for the specific scenario
+ * Triggers are data carried in the scenario files: deterministic character
+ * lines that fire when a rubric condition (sim/rubric.ts) holds against the
+ * live state. The lines are NOT AI-generated - they are safety-critical
+ * clinical information. sim/triggers/runtime.ts evaluates them for every
+ * scenario.
  */
 
+import type { RubricCondition } from "../rubric";
+
 // ============================================================================
 // Priority & History
 // ============================================================================
 
 export type TriggerPriority = "critical" | "high" | "normal";
 
+export type TriggerCharacter = "nurse" | "parent" | "patient";
+
 export type TriggerHistory = Record<string, { lastFired: number; fireCount: number }>;
 
 // ============================================================================
-// Generic Trigger Types
+// Trigger Definitions
 // ============================================================================
 
-export type BaseTrigger<TState> = {
+/** Vitals change applied when a trigger fires, in the units of PhysiologyRule vitals_delta */
+export type TriggerVitalsDelta = {
+  hr?: number;
+  sbp?: number;
+  dbp?: number;
+  spo2?: number;
+  rr?: number;
+};
+
+export type NpcTrigger = {
   id: string;
-  condition: (state: TState, elapsedMs: number) => boolean;
+  character: TriggerCharacter;
+  /** Fires whenever it is off cooldown if omitted */
+  when?: RubricCondition;
   line: string;
-  cooldownMs: number;
+  /** Alternate wordings, rotated with `line` so repeat runs vary */
+  variants?: string[];
+  /** Default "normal" */
+  priority?: TriggerPriority;
+  /** Default 60 s */
+  cooldownSeconds?: number;
   maxFires?: number;
+  vitalsDelta?: TriggerVitalsDelta;
 };
 
-export type NurseTrigger<TState> = BaseTrigger<TState> & {
-  priority: TriggerPriority;
-};
-
-export type ParentTrigger<TState> = BaseTrigger<TState>;
-
-export type PatientTrigger<TState> = BaseTrigger<TState>;
-
 // ============================================================================
 // Fired Trigger Result
 // ============================================================================
 
 export type FiredTrigger = {
   triggerId: string;
-  character: "nurse" | "parent" | "patient";
+  character: TriggerCharacter;
   line: string;
   priority: TriggerPriority;
+  vitalsDelta?: TriggerVitalsDelta;
 };
 
 // ============================================================================
 // Trigger Evaluation Utilities
 // ============================================================================
 
+export const DEFAULT_TRIGGER_COOLDOWN_SECONDS = 60;
+
 /**
  * Check if a trigger should fire based on cooldown and fire count.
  */
-export function shouldFireTrigger<TState>(
-  trigger: BaseTrigger<TState>,
-  history: TriggerHistory,
-  now: number
-): boolean {
+export function shouldFireTrigger(trigger: NpcTrigger, history: TriggerHistory, now: number): boolean {
   const record = history[trigger.id];
   if (!record) return true;
 
@@ -68,7 +80,7 @@ export function shouldFireTrigger<TState>(
   }
 
   // Check cooldown
-  if (now - record.lastFired < trigger.cooldownMs) {
+  if (now - record.lastFired < (trigger.cooldownSeconds ?? DEFAULT_TRIGGER_COOLDOWN_SECONDS) * 1000) {
     return false;
   }
 
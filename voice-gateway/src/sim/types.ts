@@ -1,4 +1,8 @@
 import type { MyocarditisPhase, ShockStage, SVTPhase } from "./scenarioTypes";
+import type { Rhythm } from "./rhythm";
+import type { DefibErrorRecord } from "./defibrillator";
+import type { TeamActor } from "./teamRoles";
+import type { CostBreakdown } from "./pricing";
 
 export type ToolIntentType =
   | "intent_updateVitals"
@@ -141,6 +145,48 @@ export type RuleTriggerRecord = {
   triggerCount: number;
 };
 
+/** Kind of medication order error caught by the formulary check (sim/formulary.ts) */
+export type MedicationErrorKind =
+  | "tenfold_overdose"
+  | "tenfold_underdose"
+  | "overdose"
+  | "underdose"
+  | "cumulative_max"
+  | "wrong_route"
+  | "wrong_concentration";
+
+/** A medication order the nurse challenged; administered when the team confirmed it anyway */
+export type MedicationErrorRecord = {
+  ts: number;
+  drug: string;
+  kind: MedicationErrorKind;
+  dose?: number;
+  unit: string;
+  route?: string;
+  message: string;
+  administered: boolean;
+};
+
+/** CPR quality for the current or last arrest (sim/cprQuality.ts) */
+export type CprMetrics = {
+  arrestStartedAt: number;
+  roscAt?: number;
+  durationMs: number;
+  handsOnMs: number;
+  /** Chest-compression fraction: hands-on time / arrest time */
+  ccf: number;
+  meanRate?: number;
+  rateInTargetFraction?: number;
+  longestPauseMs: number;
+  /** Hands-off time either side of each shock; post is absent until compressions resume */
+  shocks: { ts: number; preShockPauseMs: number; postShockPauseMs?: number }[];
+  compressorSwaps: number;
+  /** Longest time one compressor stayed on the chest */
+  longestStintMs: number;
+  firstEpiAt?: number;
+  timeToFirstEpiMs?: number;
+};
+
 /** Extended state for myocarditis complex scenario */
 export type MyocarditisExtendedState = {
   // Phase tracking
@@ -157,6 +203,7 @@ export type MyocarditisExtendedState = {
   deteriorationRate: number; // 0.5, 1.0, or 2.0 (multiplier)
 
   // Interventions tracking
+  treatments?: TreatmentRecord[];
   fluids: FluidBolus[];
   totalFluidsMlKg: number;
   inotropes: InotropeInfusion[];
@@ -199,6 +246,15 @@ export type MyocarditisExtendedState = {
     askedAt: number;
   };
 
+  // Medication orders challenged by the nurse
+  medicationErrors?: MedicationErrorRecord[];
+
+  // CPR quality during a code (mirrored from the runtime's CPR log)
+  cpr?: CprMetrics;
+
+  // Defibrillator mistakes (sim/defibrillator.ts)
+  defibErrors?: DefibErrorRecord[];
+
   // Timeline events for debrief
   timelineEvents: {
     ts: number;
@@ -208,6 +264,74 @@ export type MyocarditisExtendedState = {
   }[];
 };
 
+// ============================================================================
+// Generic Extended State (simple stage-based scenarios)
+// ============================================================================
+
+/** Treatment given during a simple scenario, by canonical name (e.g. "pge1", "knee_chest") */
+export type TreatmentRecord = {
+  ts: number;
+  treatment: string;
+  dose?: number;
+};
+
+/** Extended state for simple scenarios driven by generic physiology rules */
+export type GenericExtendedState = {
+  kind: "generic";
+  scenarioStartedAt: number;
+  phaseEnteredAt: number; // mirrors stageEnteredAt so time_in_phase_gte applies per stage
+  shockStage: ShockStage;
+
+  // Interventions tracking
+  treatments: TreatmentRecord[];
+  fluids: FluidBolus[];
+  activeInotropes: InotropeInfusion[];
+  airway?: AirwayIntervention;
+  orderedDiagnostics: string[];
+  consultsCalled: string[];
+
+  // Physiology flags (set by rules, e.g. ductOpen)
+  flags: Record<string, boolean>;
+
+  // Rule tracking
+  ruleTriggers: RuleTriggerRecord[];
+  pendingEffects: { ruleId: string; effect: unknown; executeAt: number }[];
+
+  // Medication orders challenged by the nurse
+  medicationErrors?: MedicationErrorRecord[];
+
+  // CPR quality during a code (mirrored from the runtime's CPR log)
+  cpr?: CprMetrics;
+
+  // Defibrillator mistakes (sim/defibrillator.ts)
+  defibErrors?: DefibErrorRecord[];
+
+  // Timeline events for debrief
+  timelineEvents: {
+    ts: number;
+    type: "treatment" | "physiology" | "stage_change";
+    description: string;
+    details?: Record<string, unknown>;
+  }[];
+};
+
+/** Extended-state fields the physiology engine reads and updates */
+export type PhysiologyTrackedState = Pick<
+  MyocarditisExtendedState,
+  | "phaseEnteredAt"
+  | "shockStage"
+  | "fluids"
+  | "activeInotropes"
+  | "airway"
+  | "orderedDiagnostics"
+  | "consultsCalled"
+  | "ruleTriggers"
+  | "pendingEffects"
+> & {
+  flags: Record<string, boolean>;
+  treatments?: TreatmentRecord[];
+};
+
 // ============================================================================
 // SimState (Base + Extended)
 // ============================================================================
@@ -230,11 +354,14 @@ export type SimStateBase = {
   };
   interventions?: Interventions;
   telemetry?: boolean;
+  /** Current rhythm, owned by the scenario engine */
+  rhythm?: Rhythm;
+  /** Human-readable description of `rhythm` */
   rhythmSummary?: string;
   telemetryWaveform?: number[];
   telemetryHistory?: { ts: number; rhythm?: string; note?: string }[];
   ekgHistory?: { ts: number; summary: string; imageUrl?: string }[];
-  treatmentHistory?: { ts: number; treatmentType: string; note?: string }[];
+  treatmentHistory?: { ts: number; treatmentType: string; note?: string; orderedBy?: TeamActor }[];
   findings?: string[];
   fallback: boolean;
   scenarioStartedAt?: number;
@@ -242,29 +369,34 @@ export type SimStateBase = {
   stageIds?: string[];
   orders?: {
     id: string;
-    type: "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+    type: "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
     status: "pending" | "complete";
     result?: import("../messageTypes").OrderResult;
+    orderedAt?: number;
     completedAt?: number;
+    labPanels?: import("./labTypes").LabPanelId[];
   }[];
   budget?: {
     usdEstimate?: number;
     voiceSeconds?: number;
     throttled?: boolean;
     fallback?: boolean;
+    breakdown?: CostBreakdown;
   };
 };
 
 /** SimState with optional extended state for complex scenarios */
 export type SimState = SimStateBase & {
-  /** Extended state for complex scenarios (e.g., myocarditis, SVT) */
-  extended?: MyocarditisExtendedState | SVTExtendedState;
+  /** Extended state for complex scenarios (e.g., myocarditis, SVT) or generic physiology */
+  extended?: MyocarditisExtendedState | SVTExtendedState | GenericExtendedState;
 };
 
 export type CostSnapshot = {
   inputTokens: number;
   outputTokens: number;
   usdEstimate: number;
+  /** Spend per modality (realtime, chat, stt, tts) */
+  breakdown?: CostBreakdown;
 };
 
 /** Type guard to check if a SimState has extended myocarditis state */
@@ -278,6 +410,13 @@ export function hasMyocarditisExtended(
   );
 }
 
+/** Type guard to check if a SimState has generic (simple scenario) extended state */
+export function hasGenericExtended(
+  state: SimState
+): state is SimState & { extended: GenericExtendedState } {
+  return state.extended !== undefined && "kind" in state.extended && state.extended.kind === "generic";
+}
+
 // ============================================================================
 // Complex Scenario Extended State (SVT)
 // ============================================================================
@@ -372,6 +511,15 @@ export type SVTExtendedState = {
     askedAt: number;
   };
 
+  // Medication orders challenged by the nurse
+  medicationErrors?: MedicationErrorRecord[];
+
+  // CPR quality during a code (mirrored from the runtime's CPR log)
+  cpr?: CprMetrics;
+
+  // Defibrillator mistakes (sim/defibrillator.ts)
+  defibErrors?: DefibErrorRecord[];
+
   // Timeline events for debrief
   timelineEvents: {
     ts: number;
@@ -1,4 +1,6 @@
 import { CharacterId } from "./messageTypes";
+import { parseLabPanels, type LabPanelId } from "./sim/labPanels";
+import { findFormularyEntryIn } from "./sim/formulary";
 
 // Parse nurse requests and generate appropriate clinical responses
 function parseNurseRequest(utterance: string): { response: string; action?: string } | null {
@@ -154,8 +156,9 @@ export function isUnsafeUtterance(text: string): boolean {
 export type OrderRequest =
   | { type: "vitals" }
   | { type: "ekg" }
-  | { type: "labs" }
+  | { type: "labs"; panels?: LabPanelId[] }
   | { type: "imaging" }
+  | { type: "echo" }
   | { type: "cardiac_exam" }
   | { type: "lung_exam" }
   | { type: "general_exam" }
@@ -232,9 +235,16 @@ export function parseOrderRequest(utterance: string): OrderRequest | null {
   }
 
   // Labs request - "order labs", "get labs", "blood work"
-  if (/(get|order|draw|send)\s*(the\s*)?(labs?|blood\s*work|blood\s*tests?|cbc|cmp|bmp|troponin|bnp)/.test(text) ||
+  if (/(get|order|draw|send|repeat)\s*(the\s*)?(a\s*)?(labs?|blood\s*work|blood\s*tests?|cbc|cmp|bmp|troponin|bnp|lactate|crp|esr|blood\s*gas|abg|vbg|blood\s*culture)/.test(text) ||
       /^labs?$/.test(text)) {
-    return { type: "labs" };
+    const panels = parseLabPanels(text);
+    return panels.length > 0 ? { type: "labs", panels } : { type: "labs" };
+  }
+
+  // Echo request - "get an echo", "bedside echo", "echocardiogram"
+  if (/(get|order|do)\s*(a\s*)?(an\s*)?(bedside\s*)?(echo|echocardiogram|cardiac\s*ultrasound)/.test(text) ||
+      /^(echo|echocardiogram)$/.test(text)) {
+    return { type: "echo" };
   }
 
   // Imaging request - "get a chest x-ray", "order CXR", "imaging"
@@ -255,3 +265,62 @@ export function parseOrderRequest(utterance: string): OrderRequest | null {
 
   return null;
 }
+
+/** A spoken medication order; only what was said is set */
+export type MedicationRequest = {
+  /** Formulary id */
+  drug: string;
+  dose?: number;
+  dosePerKg?: number;
+  route?: string;
+  concentration?: string;
+  volumeMl?: number;
+};
+
+const SPOKEN_ROUTES: [RegExp, string][] = [
+  [/\b(iv|i\.v\.|intravenous(ly)?)\b/, "iv"],
+  [/\b(io|i\.o\.|intraosseous(ly)?)\b/, "io"],
+  [/\b(im|i\.m\.|intramuscular(ly)?|in the thigh)\b/, "im"],
+  [/\b(po|p\.o\.|by mouth|oral(ly)?)\b/, "po"],
+  [/\b(pr|p\.r\.|rectal(ly)?)\b/, "pr"],
+];
+
+const SPOKEN_CONCENTRATION = /\b1\s*(?::|to)\s*(1000|10000)\b|\b\d+(?:\.\d+)?\s*%|\b\d*\.?\d+\s*(?:mg|meq)\s*(?:\/|per)\s*(?:ml|cc)\b/;
+
+const SPOKEN_AMOUNT = /(\d*\.?\d+)\s*(mg|milligrams?|mcg|micrograms?|meq|milliequivalents?|ml|mls|milliliters?|cc)\b(\s*(?:\/|per)\s*(?:kg|kilo(?:gram)?s?))?/;
+
+/**
+ * Parse a spoken medication order ("epi 0.15 mg IV", "2 mL of 1:1000 epi IM",
+ * "adenosine 0.1 mg per kilo rapid push"). Needs a formulary drug and either an
+ * amount or an ordering verb, so "is she on aspirin?" is not an order.
+ */
+export function parseMedicationOrder(utterance: string): MedicationRequest | null {
+  const text = utterance.toLowerCase().replace(/(\d),(\d{3})/g, "$1$2");
+  const entry = findFormularyEntryIn(text);
+  if (!entry) return null;
+
+  // The concentration comes out first so "1 mg/mL" is not read as the dose
+  const concentrationMatch = SPOKEN_CONCENTRATION.exec(text);
+  const rest = concentrationMatch ? text.replace(concentrationMatch[0], " ") : text;
+  const amount = SPOKEN_AMOUNT.exec(rest);
+  if (!amount && !/\b(give|push|administer|draw up|hang|let'?s get)\b/.test(text)) return null;
+
+  const request: MedicationRequest = { drug: entry.id };
+  if (amount) {
+    const value = Number(amount[1]);
+    const unit = amount[2];
+    if (/^(ml|mls|milliliter|cc)/.test(unit)) request.volumeMl = value;
+    else if (amount[3]) request.dosePerKg = /^(mcg|microgram)/.test(unit) ? value / 1000 : value;
+    else request.dose = /^(mcg|microgram)/.test(unit) ? value / 1000 : value;
+  }
+  const route = SPOKEN_ROUTES.find(([pattern]) => pattern.test(text));
+  if (route) request.route = route[1];
+  if (concentrationMatch) {
+    const ratio = /(1000|10000)/.exec(concentrationMatch[0]);
+    request.concentration =
+      ratio && /:|to/.test(concentrationMatch[0])
+        ? `1:${ratio[1]}`
+        : concentrationMatch[0].replace(/\s*per\s*/, "/").replace(/\s+/g, "").replace("cc", "ml");
+  }
+  return request;
+}
@@ -0,0 +1,204 @@
+/**
+ * Spend Ledger
+ * Deployment-wide model spend across all sessions, per UTC day and month,
+ * persisted so totals survive restarts. Spend is kept in memory and flushed
+ * as increments; totals are read back at startup and again whenever the day
+ * or month rolls over, so spend from other instances is counted. When a daily
+ * or monthly cap is reached the gateway drops every session to text fallback
+ * until the period rolls over.
+ */
+
+import type { UsageModality } from "./sim/pricing";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SpendPeriod = "daily" | "monthly";
+
+export type SpendTotals = {
+  usd: number;
+  byModality: Partial<Record<UsageModality, number>>;
+};
+
+/** Persisted totals keyed by period key (see periodKeys) */
+export type SpendStore = {
+  load: (keys: string[]) => Promise<Record<string, SpendTotals>>;
+  increment: (deltas: Record<string, SpendTotals>) => Promise<void>;
+};
+
+export type SpendCaps = { dailyUsd?: number; monthlyUsd?: number };
+
+export type SpendLedgerState = {
+  day: string;
+  month: string;
+  daily: SpendTotals;
+  monthly: SpendTotals;
+  caps: SpendCaps;
+  capReached: SpendPeriod | null;
+};
+
+export type SpendLedgerOptions = {
+  caps?: SpendCaps;
+  now?: () => number;
+  /** A cap was reached; fires again only after it clears or the monthly cap follows the daily one */
+  onCapReached?: (period: SpendPeriod, state: SpendLedgerState) => void;
+  /** The period rolled over (or caps were raised) and spend is under every cap again */
+  onCapCleared?: (state: SpendLedgerState) => void;
+  /** Reloading persisted totals after a rollover failed; the in-memory totals stay in force */
+  onLoadError?: (err: unknown) => void;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** UTC period keys, e.g. { day: "day-2026-10-19", month: "month-2026-10" } */
+export function periodKeys(ms: number): { day: string; month: string } {
+  const iso = new Date(ms).toISOString();
+  return { day: `day-${iso.slice(0, 10)}`, month: `month-${iso.slice(0, 7)}` };
+}
+
+function emptyTotals(): SpendTotals {
+  return { usd: 0, byModality: {} };
+}
+
+function addTo(totals: SpendTotals, modality: UsageModality, usd: number) {
+  totals.usd += usd;
+  totals.byModality[modality] = (totals.byModality[modality] ?? 0) + usd;
+}
+
+function mergeTotals(into: SpendTotals, from: SpendTotals) {
+  into.usd += from.usd;
+  (Object.keys(from.byModality) as UsageModality[]).forEach((m) => {
+    into.byModality[m] = (into.byModality[m] ?? 0) + (from.byModality[m] ?? 0);
+  });
+}
+
+function positive(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/** ORG_DAILY_CAP_USD / ORG_MONTHLY_CAP_USD; unset or invalid means no cap */
+export function spendCapsFromEnv(env: NodeJS.ProcessEnv = process.env): SpendCaps {
+  return { dailyUsd: positive(env.ORG_DAILY_CAP_USD), monthlyUsd: positive(env.ORG_MONTHLY_CAP_USD) };
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+export class SpendLedger {
+  private keys: { day: string; month: string };
+  private daily = emptyTotals();
+  private monthly = emptyTotals();
+  /** Unflushed increments by period key */
+  private pending: Record<string, SpendTotals> = {};
+  private capReached: SpendPeriod | null = null;
+  private caps: SpendCaps;
+  private readonly now: () => number;
+
+  constructor(private readonly store: SpendStore, private readonly opts: SpendLedgerOptions = {}) {
+    this.now = opts.now ?? Date.now;
+    this.caps = opts.caps ?? {};
+    this.keys = periodKeys(this.now());
+  }
+
+  /** Read the persisted totals for the current day and month; unflushed spend is added on top */
+  async load(): Promise<void> {
+    this.rollover();
+    const { day, month } = this.keys;
+    const stored = await this.store.load([day, month]);
+    if (this.keys.day !== day) return;
+    this.daily = this.withPending(day, stored[day]);
+    this.monthly = this.withPending(month, stored[month]);
+    this.checkCaps();
+  }
+
+  record(modality: UsageModality, usd: number): void {
+    this.rollover();
+    if (!(usd > 0)) return;
+    addTo(this.daily, modality, usd);
+    addTo(this.monthly, modality, usd);
+    [this.keys.day, this.keys.month].forEach((key) => {
+      this.pending[key] ??= emptyTotals();
+      addTo(this.pending[key], modality, usd);
+    });
+    this.checkCaps();
+  }
+
+  /** Persist unflushed spend; failed increments are kept for the next flush */
+  async flush(): Promise<void> {
+    const batch = this.pending;
+    if (Object.keys(batch).length === 0) return;
+    this.pending = {};
+    try {
+      await this.store.increment(batch);
+    } catch (err) {
+      Object.entries(batch).forEach(([key, totals]) => {
+        this.pending[key] ??= emptyTotals();
+        mergeTotals(this.pending[key], totals);
+      });
+      throw err;
+    }
+  }
+
+  setCaps(caps: SpendCaps): void {
+    this.caps = caps;
+    this.checkCaps();
+  }
+
+  /** The cap currently in force, or null while spend is under every cap */
+  getCapReached(): SpendPeriod | null {
+    this.rollover();
+    return this.capReached;
+  }
+
+  getState(): SpendLedgerState {
+    this.rollover();
+    return this.snapshot();
+  }
+
+  private rollover(): void {
+    const next = periodKeys(this.now());
+    if (next.day === this.keys.day) return;
+    if (next.month !== this.keys.month) this.monthly = emptyTotals();
+    this.daily = emptyTotals();
+    this.keys = next;
+    this.checkCaps();
+    this.load().catch((err) => this.opts.onLoadError?.(err));
+  }
+
+  private withPending(key: string, stored: SpendTotals | undefined): SpendTotals {
+    const totals = emptyTotals();
+    if (stored) mergeTotals(totals, stored);
+    if (this.pending[key]) mergeTotals(totals, this.pending[key]);
+    return totals;
+  }
+
+  private checkCaps(): void {
+    const { dailyUsd, monthlyUsd } = this.caps;
+    const reached: SpendPeriod | null =
+      monthlyUsd !== undefined && this.monthly.usd >= monthlyUsd
+        ? "monthly"
+        : dailyUsd !== undefined && this.daily.usd >= dailyUsd
+          ? "daily"
+          : null;
+    if (reached === this.capReached) return;
+    this.capReached = reached;
+    if (reached) this.opts.onCapReached?.(reached, this.snapshot());
+    else this.opts.onCapCleared?.(this.snapshot());
+  }
+
+  private snapshot(): SpendLedgerState {
+    return {
+      day: this.keys.day,
+      month: this.keys.month,
+      daily: { usd: this.daily.usd, byModality: { ...this.daily.byModality } },
+      monthly: { usd: this.monthly.usd, byModality: { ...this.monthly.byModality } },
+      caps: { ...this.caps },
+      capReached: this.capReached,
+    };
+  }
+}
@@ -3,9 +3,10 @@
  * Handles broadcasting simulation state to presenters and participants with proper gating.
  */
 
-import { PatientScenarioId } from "../patientCase";
 import { SessionManager } from "../sessionManager";
 import { Interventions } from "../sim/types";
+import type { Rhythm } from "../sim/rhythm";
+import type { LabPanelId } from "../sim/labPanels";
 import { OrderResult } from "../messageTypes";
 import { logError } from "../logger";
 import { validateSimStateMessage } from "../validators";
@@ -23,6 +24,7 @@ export interface SimStatePayload {
   exam?: Record<string, string>;
   interventions?: Interventions;
   telemetry?: boolean;
+  rhythm?: Rhythm;
   rhythmSummary?: string;
   telemetryWaveform?: number[];
   fallback: boolean;
@@ -32,8 +34,9 @@ export interface SimStatePayload {
   findings?: string[];
   orders?: {
     id: string;
-    type: "vitals" | "ekg" | "labs" | "imaging" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
+    type: "vitals" | "ekg" | "labs" | "imaging" | "echo" | "cardiac_exam" | "lung_exam" | "general_exam" | "iv_access";
     status: "pending" | "complete";
+    labPanels?: LabPanelId[];
     result?: OrderResult;
     completedAt?: number;
   }[];
@@ -51,6 +54,8 @@ export interface BroadcastDeps {
   getOrCreateCorrelationId: (sessionId: string) => string;
   voiceFallbackSessions: Set<string>;
   fireAndForget: (promise: Promise<unknown>, context: string, sessionId?: string) => void;
+  /** Called with each state that passes validation, before it is sent (session recording) */
+  onSimState?: (sessionId: string, state: SimStatePayload) => void;
 }
 
 export interface BroadcastUtils {
@@ -62,7 +67,7 @@ export interface BroadcastUtils {
 // ============================================================================
 
 export function createBroadcastUtils(deps: BroadcastDeps): BroadcastUtils {
-  const { sessionManager, getOrCreateCorrelationId, voiceFallbackSessions, fireAndForget } = deps;
+  const { sessionManager, getOrCreateCorrelationId, voiceFallbackSessions, fireAndForget, onSimState } = deps;
 
   function broadcastSimState(sessionId: string, state: SimStatePayload): void {
     const validated = validateSimStateMessage(state);
@@ -70,8 +75,9 @@ export function createBroadcastUtils(deps: BroadcastDeps): BroadcastUtils {
       logError("sim_state validation failed; skipping broadcast", state);
       return;
     }
+    onSimState?.(sessionId, state);
 
-    const scenarioId = (validated.scenarioId ?? getScenarioForSession(sessionId)) as PatientScenarioId;
+    const scenarioId = validated.scenarioId ?? getScenarioForSession(sessionId);
     const examAudio = getAuscultationClips(scenarioId, validated.stageId);
 
     // Check completed orders to determine what everyone can see
@@ -126,6 +132,7 @@ export function createBroadcastUtils(deps: BroadcastDeps): BroadcastUtils {
       examAudio: gatedExamAudio,
       interventions,
       telemetry: validated.telemetry,
+      rhythm: validated.rhythm,
       rhythmSummary: validated.rhythmSummary,
       telemetryWaveform: validated.telemetryWaveform,
       findings: validated.findings ?? [],
@@ -170,6 +177,7 @@ export function createBroadcastUtils(deps: BroadcastDeps): BroadcastUtils {
       interventions,
       // Telemetry/rhythm only if EKG ordered or telemetry enabled
       telemetry: hasTelemetryEnabled,
+      rhythm: hasEkgOrder || hasTelemetryEnabled ? validated.rhythm : undefined,
       rhythmSummary: hasEkgOrder || hasTelemetryEnabled ? validated.rhythmSummary : undefined,
       telemetryWaveform: hasEkgOrder || hasTelemetryEnabled ? validated.telemetryWaveform : undefined,
       findings: validated.findings ?? [],
@@ -9,6 +9,7 @@
  */
 
 import { log, logError } from "./logger";
+import { gatewayMetrics } from "./metrics";
 
 // Map of session ID to lock state
 interface LockState {
@@ -76,6 +77,7 @@ export async function withStateLock<T>(
 
     lockAcquired = true;
     const waitTime = Date.now() - lockStart;
+    gatewayMetrics.stateLockWait.observe(waitTime / 1000);
 
     if (waitTime > 100) {
       log(`[stateLock] ${operation} waited ${waitTime}ms for lock on ${sessionId}`);
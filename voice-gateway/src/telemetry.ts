@@ -1,65 +1,124 @@
+import { AlarmAction, AlarmId, MonitorAlarm } from "./messageTypes";
 import { logSimEvent } from "./persistence";
+import {
+  createAlarmState,
+  evaluateAlarmConditions,
+  getAlarmResponseMs,
+  respondToAlarm,
+  updateAlarms,
+} from "./sim/alarmEngine";
+import { parseRhythmSummary, synthesizeLead } from "./sim/ecgSynthesis";
+import { rhythmToEcgSpec, withRhythmRate, type Rhythm } from "./sim/rhythm";
 import { SessionManager } from "./sessionManager";
 import { Runtime } from "./typesRuntime";
+import type { SimStatePayload } from "./state/broadcastUtils";
 
-export function buildTelemetryWaveform(hr: number): number[] {
+/** Telemetry strip: about one and a half beats of lead II at the current rate and rhythm */
+export function buildTelemetryWaveform(hr: number, rhythm?: Rhythm): number[] {
   const samples = 180;
-  const waveform: number[] = [];
-  const msPerBeat = Math.max(350, Math.min(1500, 60000 / Math.max(1, hr)));
-  for (let i = 0; i < samples; i++) {
-    const tMs = (i / samples) * msPerBeat * 1.5;
-    const phase = (tMs % msPerBeat) / msPerBeat;
-    const spike = phase < 0.04 ? Math.exp(-1 * (((phase - 0.02) * 160) ** 2)) * 1.4 : 0;
-    const base = 0.04 * Math.sin(phase * Math.PI * 2);
-    const noise = (Math.random() - 0.5) * 0.015;
-    waveform.push(base + spike + noise);
+  const spec = rhythm ? rhythmToEcgSpec(withRhythmRate(rhythm, hr)) : parseRhythmSummary(undefined, hr);
+  const msPerBeat = Math.max(350, Math.min(1500, 60000 / Math.max(1, spec.hr)));
+  const durationMs = msPerBeat * 1.5;
+  return synthesizeLead(spec, "II", { durationMs, sampleRateHz: (samples * 1000) / durationMs });
+}
+
+/**
+ * Turn bedside telemetry on or off and broadcast the strip.
+ */
+export function toggleTelemetry(
+  sessionId: string,
+  runtime: Runtime,
+  enabled: boolean,
+  sessionManager: SessionManager,
+  broadcastSimState: (sessionId: string, state: SimStatePayload) => void
+) {
+  runtime.scenarioEngine.setTelemetry(enabled);
+  const { vitals, rhythm } = runtime.scenarioEngine.getState();
+  const telemetryWaveform = enabled ? buildTelemetryWaveform(vitals.hr ?? 90, rhythm) : [];
+  const telemetryHistory = runtime.scenarioEngine.getState().telemetryHistory ?? [];
+  broadcastSimState(sessionId, {
+    ...runtime.scenarioEngine.getState(),
+    stageIds: runtime.scenarioEngine.getStageIds(),
+    telemetry: enabled,
+    telemetryWaveform,
+    telemetryHistory,
+  });
+  if (enabled) {
+    sessionManager.broadcastToSession(sessionId, {
+      type: "patient_transcript_delta",
+      sessionId,
+      text: "Telemetry leads on. Live rhythm streaming.",
+      character: "tech",
+    });
   }
-  return waveform;
+  logSimEvent(sessionId, { type: "telemetry.toggle", payload: { enabled } }).catch(() => {});
 }
 
-type AlarmSeen = {
-  spo2Low?: number;
-  hrHigh?: number;
-  hrLow?: number;
-};
+/** When each breached alarm condition was first seen, for debouncing */
+export type AlarmSeen = Partial<Record<AlarmId, number>>;
 
+/** A condition must persist this long before it raises an alarm */
+const ALARM_DEBOUNCE_MS = 4000;
+
+function broadcastAlarm(sessionManager: SessionManager, sessionId: string, alarm: MonitorAlarm) {
+  sessionManager.broadcastToSession(sessionId, { type: "alarm", sessionId, alarm: { ...alarm } });
+}
+
+/**
+ * Check the vitals against the patient's alarm limits and broadcast every
+ * alarm whose monitor status changed.
+ */
 export function checkAlarms(
   sessionId: string,
   runtime: Runtime,
   alarmSeenAt: Map<string, AlarmSeen>,
-  sessionManager: SessionManager
+  sessionManager: SessionManager,
+  nowMs: number = runtime.scenarioEngine.now()
 ) {
-  const vitals = runtime.scenarioEngine.getState().vitals || {};
-  const spo2 = vitals.spo2 ?? 100;
-  const hr = vitals.hr ?? 80;
-  const alarms: string[] = [];
-  const now = Date.now();
-  const seen = alarmSeenAt.get(sessionId) ?? {};
-  if (spo2 < 88) {
-    seen.spo2Low = seen.spo2Low ?? now;
-    if (now - seen.spo2Low >= 4000) alarms.push(`SpO2 low: ${spo2}%`);
-  } else {
-    seen.spo2Low = undefined;
-  }
-  if (hr > 170) {
-    seen.hrHigh = seen.hrHigh ?? now;
-    if (now - seen.hrHigh >= 4000) alarms.push(`HR high: ${hr} bpm`);
-  } else {
-    seen.hrHigh = undefined;
+  const engine = runtime.scenarioEngine;
+  const conditions = evaluateAlarmConditions(engine.getState().vitals || {}, engine.getAlarmLimits());
+  const seen: AlarmSeen = {};
+  const previous = alarmSeenAt.get(sessionId) ?? {};
+  const sustained = conditions.filter((condition) => {
+    const firstSeen = previous[condition.id] ?? nowMs;
+    seen[condition.id] = firstSeen;
+    return nowMs - firstSeen >= ALARM_DEBOUNCE_MS;
+  });
+  alarmSeenAt.set(sessionId, seen);
+
+  runtime.alarms = runtime.alarms ?? createAlarmState();
+  const changed = updateAlarms(runtime.alarms, sustained, nowMs);
+  if (changed.length === 0) return;
+  changed.forEach((alarm) => broadcastAlarm(sessionManager, sessionId, alarm));
+
+  const raised = changed.filter((a) => a.status === "active").map((a) => ({ id: a.id, priority: a.priority, message: a.message }));
+  const cleared = changed.filter((a) => a.status === "cleared").map((a) => a.id);
+  if (raised.length > 0) {
+    logSimEvent(sessionId, { type: "alarm", payload: { alarms: raised } }).catch(() => {});
   }
-  if (hr < 40) {
-    seen.hrLow = seen.hrLow ?? now;
-    if (now - seen.hrLow >= 4000) alarms.push(`HR low: ${hr} bpm`);
-  } else {
-    seen.hrLow = undefined;
+  if (cleared.length > 0) {
+    logSimEvent(sessionId, { type: "alarm.cleared", payload: { alarms: cleared } }).catch(() => {});
   }
-  alarmSeenAt.set(sessionId, seen);
-  if (alarms.length === 0) return;
-  sessionManager.broadcastToPresenters(sessionId, {
-    type: "patient_transcript_delta",
-    sessionId,
-    text: `ALARM: ${alarms.join(" | ")}`,
-    character: "nurse",
-  });
-  logSimEvent(sessionId, { type: "alarm", payload: { alarms } }).catch(() => {});
+}
+
+/**
+ * Silence or acknowledge an alarm on behalf of a presenter or participant.
+ */
+export function handleAlarmAction(
+  sessionId: string,
+  runtime: Runtime,
+  alarmId: AlarmId,
+  action: AlarmAction,
+  userId: string,
+  sessionManager: SessionManager,
+  nowMs: number = runtime.scenarioEngine.now()
+) {
+  if (!runtime.alarms) return;
+  const alarm = respondToAlarm(runtime.alarms, alarmId, action, userId, nowMs);
+  if (!alarm) return;
+  broadcastAlarm(sessionManager, sessionId, alarm);
+  logSimEvent(sessionId, {
+    type: "alarm.response",
+    payload: { alarmId, action, userId, responseMs: getAlarmResponseMs(alarm) },
+  }).catch(() => {});
 }
@@ -2,14 +2,18 @@ import WebSocket from "ws";
 import http from "http";
 import { ServerToClientMessage } from "./messageTypes";
 import { SessionManager } from "./sessionManager";
+import { gatewayMetrics, METRICS_CONTENT_TYPE, metricsRegistry, noteClientDisconnect } from "./metrics";
 
 const MAX_WS_PAYLOAD_BYTES = Number(process.env.MAX_WS_PAYLOAD_BYTES || 262144); // ~256KB guardrail
 const HEALTH_PATH = "/health";
+const METRICS_PATH = "/metrics";
 
 export type ClientContext = {
   joined: boolean;
   sessionId: string | null;
   role: "presenter" | "participant" | null;
+  /** Verified uid from the join token */
+  userId: string | null;
 };
 
 export function createTransport(opts: {
@@ -19,8 +23,10 @@ export function createTransport(opts: {
   log: (...args: any[]) => void;
   logError: (...args: any[]) => void;
   logEvent: (type: string, payload?: Record<string, any>) => void;
+  /** Extra HTTP routes (e.g. the admin API); resolves false for paths it doesn't serve */
+  handleHttpRequest?: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<boolean>;
 }) {
-  const { port, handleMessage, sessionManager, log, logEvent, logError } = opts;
+  const { port, handleMessage, sessionManager, log, logEvent, logError, handleHttpRequest } = opts;
   const server = http.createServer();
   const wss = new WebSocket.Server({ server, path: "/ws/voice" });
 
@@ -30,12 +36,31 @@ export function createTransport(opts: {
       res.end(JSON.stringify({ ok: true }));
       return;
     }
-    res.writeHead(404);
-    res.end();
+    if (req.url === METRICS_PATH) {
+      res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+      res.end(metricsRegistry.render());
+      return;
+    }
+    if (!handleHttpRequest) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    handleHttpRequest(req, res)
+      .then((handled) => {
+        if (handled) return;
+        res.writeHead(404);
+        res.end();
+      })
+      .catch((err) => {
+        logError("HTTP request failed", req.method, req.url, err);
+        if (!res.headersSent) res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Internal error" }));
+      });
   });
 
   wss.on("connection", (ws) => {
-    const ctx: ClientContext = { joined: false, sessionId: null, role: null };
+    const ctx: ClientContext = { joined: false, sessionId: null, role: null, userId: null };
 
     ws.on("message", (data) => {
       if (typeof data === "string") {
@@ -58,6 +83,7 @@ export function createTransport(opts: {
     ws.on("close", () => {
       if (ctx.joined && ctx.sessionId && ctx.role) {
         sessionManager.removeClient(ctx.sessionId, ctx.role, ws);
+        if (ctx.userId) noteClientDisconnect(ctx.sessionId, ctx.userId);
         log("Client disconnected", ctx.sessionId, ctx.role);
         logEvent("ws.disconnect", { sessionId: ctx.sessionId, role: ctx.role });
       }
@@ -76,5 +102,6 @@ export function createTransport(opts: {
 export function send(ws: WebSocket, msg: ServerToClientMessage) {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(msg));
+    gatewayMetrics.messagesOut.inc({ type: msg.type });
   }
 }
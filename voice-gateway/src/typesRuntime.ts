@@ -1,12 +1,39 @@
 import { ScenarioEngine } from "./sim/scenarioEngine";
 import { ToolGate } from "./sim/toolGate";
 import { CostController } from "./sim/costController";
-import { RealtimePatientClient } from "./sim/realtimePatientClient";
+import { RealtimeSession } from "./providers";
+import { AlarmState } from "./sim/alarmEngine";
+import { MedicationLog } from "./sim/formulary";
+import { CprLog } from "./sim/cprQuality";
+import { DefibrillatorLog } from "./sim/defibrillator";
+import { TeamRoster } from "./sim/teamRoles";
+import { CommLoopLog } from "./sim/closedLoop";
+import { NpcTriggerState } from "./sim/triggers/runtime";
+import { SimRandom } from "./sim/simClock";
+import { SessionRecorder } from "./sessionRecorder";
 
 export type Runtime = {
-  realtime?: RealtimePatientClient;
+  realtime?: RealtimeSession;
   fallback: boolean;
   scenarioEngine: ScenarioEngine;
   toolGate: ToolGate;
   cost: CostController;
+  /** Monitor alarms raised this session (created on the first alarm check) */
+  alarms?: AlarmState;
+  /** Medications given and orders the nurse challenged (created on the first formulary drug) */
+  medications?: MedicationLog;
+  /** Compressions, shocks and epi for the current arrest (created when the patient loses their pulse) */
+  cpr?: CprLog;
+  /** Participant defibrillator and the device mistakes made with it (created on the first device action) */
+  defib?: DefibrillatorLog;
+  /** Code-team roles and the orders and treatments attributed to them (created on the first role claim) */
+  team?: TeamRoster;
+  /** Spoken orders tracked as read-back/confirmation loops (created on the first voice order) */
+  loops?: CommLoopLog;
+  /** Nurse, parent and patient trigger history (created on the first heartbeat) */
+  npc?: NpcTriggerState;
+  /** Session RNG; its seed is recorded so a replay makes the same draws */
+  rng?: SimRandom;
+  /** Records inputs and sim_state for replay (absent when recording is off) */
+  recorder?: SessionRecorder;
 };
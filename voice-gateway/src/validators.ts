@@ -1,5 +1,12 @@
 import { z } from "zod";
 import { CharacterId, ClientToServerMessage, PatientScenarioId } from "./messageTypes";
+import { hasScenario } from "./sim/scenarioRegistry";
+import { RHYTHM_CODES } from "./sim/rhythm";
+import { ECG_LEADS } from "./sim/ecgSynthesis";
+import { LAB_PANEL_IDS } from "./sim/labPanels";
+import { DEFIB_ACTIONS, PACING_CURRENT_RANGE, PACING_RATE_RANGE } from "./sim/defibrillator";
+import { TEAM_ROLES } from "./sim/teamRoles";
+import { USAGE_MODALITIES } from "./sim/pricing";
 
 const joinSchema = z.object({
   type: z.literal("join"),
@@ -77,30 +84,122 @@ const analyzeTranscriptSchema = z.object({
   ),
 });
 
+const alarmActionSchema = z.object({
+  type: z.literal("alarm_action"),
+  sessionId: z.string().min(1),
+  userId: z.string().min(1),
+  alarmId: z.enum(["hrHigh", "hrLow", "spo2Low", "sbpHigh", "sbpLow", "rrHigh", "rrLow", "tempHigh", "tempLow"]),
+  action: z.enum(["silence", "acknowledge"]),
+});
+
+const cprEventSchema = z.object({
+  type: z.literal("cpr_event"),
+  sessionId: z.string().min(1),
+  userId: z.string().min(1),
+  event: z.enum(["start", "pause", "rate", "swap"]),
+  rate: z.number().min(0).max(300).optional(),
+});
+
+const defibActionSchema = z.object({
+  type: z.literal("defib_action"),
+  sessionId: z.string().min(1),
+  userId: z.string().min(1),
+  action: z.enum(DEFIB_ACTIONS),
+  energyJ: z.number().positive().max(360).optional(),
+  sync: z.boolean().optional(),
+  rateBpm: z.number().min(PACING_RATE_RANGE.min).max(PACING_RATE_RANGE.max).optional(),
+  currentMa: z.number().min(PACING_CURRENT_RANGE.min).max(PACING_CURRENT_RANGE.max).optional(),
+});
+
+const teamRoleSchema = z.object({
+  type: z.literal("team_role"),
+  sessionId: z.string().min(1),
+  userId: z.string().min(1),
+  teamRole: z.union([z.enum(TEAM_ROLES), z.literal("auto")]).nullable(),
+  displayName: z.string().max(80).optional(),
+  /** Presenter assigning someone else's role */
+  targetUserId: z.string().min(1).optional(),
+});
+
 const pingSchema = z.object({
   type: z.literal("ping"),
   sessionId: z.string().optional(),
 });
 
+const rhythmSchema = z.object({
+  code: z.enum(RHYTHM_CODES),
+  rateBpm: z.number(),
+  regularity: z.enum(["regular", "regularly_irregular", "irregularly_irregular", "chaotic", "none"]),
+  pulsePresent: z.boolean(),
+  conduction: z.object({
+    pWaves: z.enum(["normal", "absent", "dissociated", "fibrillatory"]),
+    qrs: z.enum(["narrow", "wide"]),
+    avBlock: z.enum(["first_degree", "mobitz1", "mobitz2", "complete"]).optional(),
+    ectopy: z.enum(["pacs", "pvcs"]).optional(),
+  }),
+  features: z
+    .object({
+      deltaWave: z.boolean().optional(),
+      qtcMs: z.number().optional(),
+      stShiftMm: z.number().optional(),
+      stLeads: z.array(z.enum(ECG_LEADS)).optional(),
+      lowVoltage: z.boolean().optional(),
+    })
+    .optional(),
+  summary: z.string(),
+});
+
+const labPanelResultSchema = z.object({
+  panel: z.enum(LAB_PANEL_IDS),
+  label: z.string(),
+  values: z.array(
+    z.object({
+      id: z.string(),
+      label: z.string(),
+      value: z.union([z.number(), z.string()]),
+      unit: z.string(),
+      refLow: z.number().optional(),
+      refHigh: z.number().optional(),
+      flag: z.enum(["H", "L", "HH", "LL"]).optional(),
+    })
+  ),
+});
+
+const echoReportSchema = z.object({
+  impression: z.string(),
+  lvef: z.number(),
+  lvFunction: z.string(),
+  rvFunction: z.string(),
+  chambers: z.object({ lv: z.string(), rv: z.string(), la: z.string(), ra: z.string() }),
+  valves: z.object({ mitral: z.string(), tricuspid: z.string(), aortic: z.string(), pulmonary: z.string() }),
+  ductus: z.string(),
+  shunts: z.string(),
+  arch: z.string(),
+  coarctationGradientMmHg: z.number().optional(),
+  coronaries: z
+    .object({ lmca: z.number(), lad: z.number(), rca: z.number(), classification: z.string() })
+    .optional(),
+  pericardium: z.string(),
+  findings: z.array(z.string()),
+  media: z
+    .array(z.object({ kind: z.enum(["still", "loop"]), url: z.string(), caption: z.string() }))
+    .optional(),
+});
+
+const teamActorSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.string(),
+  teamRole: z.enum(TEAM_ROLES).optional(),
+});
+
 const simStateSchema = z
   .object({
     stageId: z.string().min(1),
     stageIds: z.array(z.string().min(1)).optional(),
     scenarioId: z
-      .union([
-        z.literal("exertional_chest_pain"),
-        z.literal("syncope"),
-        z.literal("palpitations_svt"),
-        z.literal("myocarditis"),
-        z.literal("exertional_syncope_hcm"),
-        z.literal("ductal_shock"),
-        z.literal("cyanotic_spell"),
-        z.literal("kawasaki"),
-        z.literal("coarctation_shock"),
-        z.literal("arrhythmogenic_syncope"),
-        z.literal("teen_svt_complex_v1"),
-        z.literal("peds_myocarditis_silent_crash_v1"),
-      ])
+      .string()
+      .refine((id) => hasScenario(id), { message: "unknown scenario" })
       .optional(),
     vitals: z
       .object({
@@ -163,6 +262,7 @@ const simStateSchema = z
       })
       .optional(),
     telemetry: z.boolean().optional(),
+    rhythm: rhythmSchema.optional(),
     rhythmSummary: z.string().optional(),
     telemetryWaveform: z.array(z.number()).optional(),
     findings: z.array(z.string()).optional(),
@@ -176,17 +276,22 @@ const simStateSchema = z
         voiceSeconds: z.number().optional(),
         throttled: z.boolean().optional(),
         fallback: z.boolean().optional(),
+        breakdown: z
+          .record(z.enum(USAGE_MODALITIES), z.object({ usd: z.number(), calls: z.number() }))
+          .optional(),
       })
       .optional(),
     orders: z
       .array(
         z.object({
           id: z.string(),
-          type: z.enum(["vitals", "ekg", "labs", "imaging", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
+          type: z.enum(["vitals", "ekg", "labs", "imaging", "echo", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
           status: z.enum(["pending", "complete"]),
+          orderedBy: teamActorSchema.optional(),
+          labPanels: z.array(z.enum(LAB_PANEL_IDS)).optional(),
           result: z
             .object({
-              type: z.enum(["vitals", "ekg", "labs", "imaging", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
+              type: z.enum(["vitals", "ekg", "labs", "imaging", "echo", "cardiac_exam", "lung_exam", "general_exam", "iv_access"]),
               hr: z.number().optional(),
               bp: z.string().optional(),
               rr: z.number().optional(),
@@ -204,6 +309,8 @@ const simStateSchema = z
               abnormal: z.string().optional(),
               nextAction: z.string().optional(),
               rationale: z.string().optional(),
+              labs: z.array(labPanelResultSchema).optional(),
+              echo: echoReportSchema.optional(),
             })
             .optional(),
           completedAt: z.number().optional(),
@@ -234,6 +341,7 @@ const simStateSchema = z
           ts: z.number(),
           treatmentType: z.string(),
           note: z.string().optional(),
+          orderedBy: teamActorSchema.optional(),
         })
       )
       .optional(),
@@ -248,6 +356,10 @@ const messageSchema = z.discriminatedUnion("type", [
   doctorAudioSchema,
   setScenarioSchema,
   analyzeTranscriptSchema,
+  alarmActionSchema,
+  cprEventSchema,
+  defibActionSchema,
+  teamRoleSchema,
   pingSchema,
 ]);
 